@@ -0,0 +1,114 @@
+-- Batch blending (assemblage): the surviving batch records its blend
+-- composition, and storage-backed source batches are merged in one
+-- transaction. Fully blended sources move their vessels onto the surviving
+-- storage plan; partially blended sources keep their remainder in place.
+
+ALTER TABLE public.wine_batches
+  ADD COLUMN IF NOT EXISTS blend_components JSONB;
+
+CREATE OR REPLACE FUNCTION public.blend_storage_backed_wine_batches(
+  p_company_id UUID, p_target_batch_id TEXT, p_target_plan_id UUID, p_source_batch_ids TEXT[], p_remainders JSONB, p_batch JSONB,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE
+  v_state TEXT;
+  v_source_count INTEGER;
+  v_source_plan_ids UUID[];
+  v_full_source_ids TEXT[];
+  v_full_plan_ids UUID[];
+  v_volume_litres NUMERIC;
+  v_capacity NUMERIC;
+  v_remainder JSONB;
+  v_remainder_plan_id UUID;
+  v_remainder_litres NUMERIC;
+BEGIN
+  IF COALESCE(array_length(p_source_batch_ids, 1), 0) = 0 OR p_target_batch_id = ANY(p_source_batch_ids) THEN RETURN FALSE; END IF;
+  v_volume_litres := (p_batch->>'volume_litres')::NUMERIC;
+  IF v_volume_litres IS NULL OR v_volume_litres <= 0 THEN RETURN FALSE; END IF;
+
+  SELECT state INTO v_state FROM wine_batches WHERE id = p_target_batch_id AND company_id = p_company_id AND storage_plan_id = p_target_plan_id FOR UPDATE;
+  IF NOT FOUND OR v_state NOT IN ('must_ready', 'must_fermenting') THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = p_target_plan_id AND company_id = p_company_id AND status = 'active' AND wine_batch_id = p_target_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+
+  PERFORM 1 FROM wine_batches WHERE company_id = p_company_id AND id = ANY(p_source_batch_ids) FOR UPDATE;
+  SELECT COUNT(*), array_agg(storage_plan_id) INTO v_source_count, v_source_plan_ids
+  FROM wine_batches
+  WHERE company_id = p_company_id AND id = ANY(p_source_batch_ids) AND state = v_state AND storage_plan_id IS NOT NULL;
+  IF v_source_count <> array_length(p_source_batch_ids, 1) THEN RETURN FALSE; END IF;
+  SELECT COALESCE(array_agg(id), '{}'), COALESCE(array_agg(storage_plan_id), '{}') INTO v_full_source_ids, v_full_plan_ids
+  FROM wine_batches
+  WHERE company_id = p_company_id AND id = ANY(p_source_batch_ids)
+    AND id NOT IN (SELECT r->>'id' FROM jsonb_array_elements(COALESCE(p_remainders, '[]'::jsonb)) r);
+  IF (SELECT COUNT(*) FROM jsonb_array_elements(COALESCE(p_remainders, '[]'::jsonb)) r WHERE r->>'id' = ANY(p_source_batch_ids))
+    <> v_source_count - COALESCE(array_length(v_full_source_ids, 1), 0) THEN RETURN FALSE; END IF;
+
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE company_id = p_company_id AND id = ANY(v_source_plan_ids) FOR UPDATE;
+  IF (SELECT COUNT(*) FROM storage_vessel_allocation_plans WHERE company_id = p_company_id AND id = ANY(v_source_plan_ids) AND status = 'active') <> v_source_count THEN RETURN FALSE; END IF;
+
+  PERFORM 1 FROM storage_vessel_allocations WHERE company_id = p_company_id AND (plan_id = p_target_plan_id OR plan_id = ANY(v_source_plan_ids)) AND released_at IS NULL FOR UPDATE;
+  SELECT COALESCE(SUM(assigned_capacity_litres), 0) INTO v_capacity
+  FROM storage_vessel_allocations
+  WHERE company_id = p_company_id AND (plan_id = p_target_plan_id OR plan_id = ANY(v_full_plan_ids)) AND released_at IS NULL;
+  IF v_capacity < v_volume_litres THEN RETURN FALSE; END IF;
+
+  -- Fully blended source vessels keep their wine and join the surviving plan before the source rows disappear.
+  UPDATE storage_vessel_allocations SET plan_id = p_target_plan_id
+  WHERE company_id = p_company_id AND plan_id = ANY(v_full_plan_ids) AND released_at IS NULL;
+  UPDATE storage_vessel_allocation_plans
+  SET status = 'released', released_year = p_released_year, released_season = p_released_season, released_week = p_released_week
+  WHERE company_id = p_company_id AND id = ANY(v_full_plan_ids);
+  DELETE FROM wine_batches WHERE company_id = p_company_id AND id = ANY(v_full_source_ids);
+
+  -- Partially blended sources keep the remainder in their own vessels.
+  FOR v_remainder IN SELECT * FROM jsonb_array_elements(COALESCE(p_remainders, '[]'::jsonb)) LOOP
+    v_remainder_litres := (v_remainder->>'volume_litres')::NUMERIC;
+    IF v_remainder_litres IS NULL OR v_remainder_litres <= 0 THEN RETURN FALSE; END IF;
+    UPDATE wine_batches SET quantity = ROUND((v_remainder->>'quantity')::NUMERIC), volume_litres = v_remainder_litres
+    WHERE company_id = p_company_id AND id = v_remainder->>'id'
+    RETURNING storage_plan_id INTO v_remainder_plan_id;
+    UPDATE storage_vessel_allocation_plans SET required_litres = v_remainder_litres WHERE id = v_remainder_plan_id AND company_id = p_company_id;
+    WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = v_remainder_plan_id AND released_at IS NULL)
+    UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, v_remainder_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+    UPDATE storage_vessel_allocations SET released_at = NOW()
+    WHERE company_id = p_company_id AND plan_id = v_remainder_plan_id AND released_at IS NULL AND filled_litres <= 0;
+  END LOOP;
+
+  UPDATE wine_batches SET
+    quantity = ROUND((p_batch->>'quantity')::NUMERIC),
+    volume_litres = v_volume_litres,
+    fermentation_progress = ROUND(COALESCE((p_batch->>'fermentation_progress')::NUMERIC, 0)),
+    fermentation_options = NULLIF(p_batch->'fermentation_options', 'null'::jsonb),
+    land_value_modifier_harvest_snapshot = (p_batch->>'land_value_modifier_harvest_snapshot')::NUMERIC,
+    structure_index_harvest_snapshot = (p_batch->>'structure_index_harvest_snapshot')::NUMERIC,
+    taste_quality_index_harvest_snapshot = (p_batch->>'taste_quality_index_harvest_snapshot')::NUMERIC,
+    land_value_modifier = (p_batch->>'land_value_modifier')::NUMERIC,
+    taste_quality_index = (p_batch->>'taste_quality_index')::NUMERIC,
+    structure_index = (p_batch->>'structure_index')::NUMERIC,
+    characteristics = p_batch->'characteristics',
+    breakdown = NULLIF(p_batch->'breakdown', 'null'::jsonb),
+    estimated_price = (p_batch->>'estimated_price')::NUMERIC,
+    natural_yield = (p_batch->>'natural_yield')::NUMERIC,
+    fragile = (p_batch->>'fragile')::NUMERIC,
+    prone_to_oxidation = (p_batch->>'prone_to_oxidation')::NUMERIC,
+    features = COALESCE(p_batch->'features', '[]'::jsonb),
+    origin_snapshot = NULLIF(p_batch->'origin_snapshot', 'null'::jsonb),
+    blend_components = NULLIF(p_batch->'blend_components', 'null'::jsonb),
+    wine_anchors = p_batch->'wine_anchors',
+    harvest_start_week = (p_batch->>'harvest_start_week')::INTEGER,
+    harvest_start_season = p_batch->>'harvest_start_season',
+    harvest_start_year = (p_batch->>'harvest_start_year')::INTEGER,
+    harvest_end_week = (p_batch->>'harvest_end_week')::INTEGER,
+    harvest_end_season = p_batch->>'harvest_end_season',
+    harvest_end_year = (p_batch->>'harvest_end_year')::INTEGER
+  WHERE id = p_target_batch_id AND company_id = p_company_id;
+
+  UPDATE storage_vessel_allocation_plans SET required_litres = v_volume_litres WHERE id = p_target_plan_id AND company_id = p_company_id;
+  WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_target_plan_id AND released_at IS NULL)
+  UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, v_volume_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  -- Consolidation: vessels that stay empty after the refill return to service (still dirty).
+  UPDATE storage_vessel_allocations SET released_at = NOW()
+  WHERE company_id = p_company_id AND plan_id = p_target_plan_id AND released_at IS NULL AND filled_litres <= 0;
+  RETURN TRUE;
+END;
+$$;
@@ -0,0 +1,150 @@
+-- Storage vessel memory: every completed fill leaves a snapshot of the wine on
+-- the vessel row (newest first, last three fills). Fill history now counts
+-- completed fills. The imprint lives on the vessel, so it survives bottling,
+-- deletion of the source batch, sell-back and resale. Strength, fading and
+-- material behaviour are evaluated by the game from these snapshots.
+
+ALTER TABLE public.storage_vessels
+  ADD COLUMN IF NOT EXISTS imprint_fills JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Record the batch held by the plan's filled vessels (or only p_vessel_id) before
+-- their allocations are released. Keep the fill limit in sync with
+-- STORAGE_VESSEL_IMPRINT_MAX_FILLS.
+CREATE OR REPLACE FUNCTION public.record_storage_vessel_fill_imprints(
+  p_company_id UUID, p_batch_id TEXT, p_plan_id UUID, p_vessel_id UUID,
+  p_year INTEGER, p_season TEXT, p_week INTEGER
+) RETURNS VOID LANGUAGE plpgsql AS $$
+DECLARE v_fill JSONB; v_contact_weeks INTEGER;
+BEGIN
+  SELECT GREATEST(0,
+    (p_year * 48 + (CASE p_season WHEN 'Spring' THEN 0 WHEN 'Summer' THEN 1 WHEN 'Fall' THEN 2 ELSE 3 END) * 12 + p_week)
+    - (activated_year * 48 + (CASE activated_season WHEN 'Spring' THEN 0 WHEN 'Summer' THEN 1 WHEN 'Fall' THEN 2 ELSE 3 END) * 12 + activated_week))
+  INTO v_contact_weeks
+  FROM storage_vessel_allocation_plans WHERE id = p_plan_id AND company_id = p_company_id;
+
+  SELECT jsonb_build_object(
+    'grape', grape_variety, 'vintage', harvest_start_year,
+    'characteristics', characteristics, 'wineAnchors', wine_anchors, 'structureIndex', structure_index,
+    'contactWeeks', COALESCE(v_contact_weeks, 0),
+    'completedYear', p_year, 'completedSeason', p_season, 'completedWeek', p_week, 'cleanings', 0
+  ) INTO v_fill
+  FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id;
+  IF v_fill IS NULL THEN RETURN; END IF;
+
+  UPDATE storage_vessels v SET
+    fill_history = v.fill_history + 1,
+    imprint_fills = jsonb_build_array(v_fill) || COALESCE((
+      SELECT jsonb_agg(e.value ORDER BY e.ordinality)
+      FROM jsonb_array_elements(v.imprint_fills) WITH ORDINALITY AS e(value, ordinality)
+      WHERE e.ordinality < 3
+    ), '[]'::jsonb)
+  FROM storage_vessel_allocations a
+  WHERE a.company_id = p_company_id AND a.plan_id = p_plan_id AND a.vessel_id = v.id
+    AND a.released_at IS NULL AND a.filled_litres > 0
+    AND (p_vessel_id IS NULL OR a.vessel_id = p_vessel_id);
+END;
+$$;
+
+-- Cleaning counts against every stored fill; how much survives depends on the material.
+CREATE OR REPLACE FUNCTION complete_clean_storage_vessel(p_company_id UUID, p_vessel_id UUID)
+RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE storage_vessels s
+  SET cleanliness = 'clean',
+    imprint_fills = COALESCE((
+      SELECT jsonb_agg(jsonb_set(e.value, '{cleanings}', to_jsonb(COALESCE((e.value->>'cleanings')::INTEGER, 0) + 1)) ORDER BY e.ordinality)
+      FROM jsonb_array_elements(s.imprint_fills) WITH ORDINALITY AS e(value, ordinality)
+    ), '[]'::jsonb)
+  WHERE s.company_id = p_company_id
+    AND s.id = p_vessel_id
+    AND s.operational_status = 'operational'
+    AND s.cleanliness = 'dirty'
+    AND NOT EXISTS (
+      SELECT 1 FROM storage_vessel_allocations a
+      WHERE a.company_id = p_company_id
+        AND a.vessel_id = p_vessel_id
+        AND a.released_at IS NULL
+    );
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bottle_storage_backed_wine_batch(
+  p_company_id UUID, p_batch_id TEXT, p_quantity NUMERIC, p_bottled_week INTEGER, p_bottled_season TEXT, p_bottled_year INTEGER,
+  p_taste_quality_index_bottling_snapshot NUMERIC, p_land_value_modifier_bottling_snapshot NUMERIC, p_structure_index_bottling_snapshot NUMERIC, p_wine_score_bottling_snapshot NUMERIC,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE v_plan_id UUID;
+BEGIN
+  SELECT storage_plan_id INTO v_plan_id FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id AND state IN ('must_fermenting', 'maturing') FOR UPDATE;
+  IF NOT FOUND OR v_plan_id IS NULL THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = v_plan_id AND company_id = p_company_id AND status = 'active' AND wine_batch_id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  PERFORM record_storage_vessel_fill_imprints(p_company_id, p_batch_id, v_plan_id, NULL, p_released_year, p_released_season, p_released_week);
+  UPDATE wine_batches SET state = 'bottled', quantity = FLOOR(p_quantity), bottled_week = p_bottled_week, bottled_season = p_bottled_season, bottled_year = p_bottled_year, taste_quality_index_bottling_snapshot = p_taste_quality_index_bottling_snapshot, land_value_modifier_bottling_snapshot = p_land_value_modifier_bottling_snapshot, structure_index_bottling_snapshot = p_structure_index_bottling_snapshot, wine_score_bottling_snapshot = p_wine_score_bottling_snapshot WHERE id = p_batch_id AND company_id = p_company_id;
+  UPDATE storage_vessel_allocations SET released_at = NOW(), filled_litres = 0 WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL;
+  UPDATE storage_vessel_allocation_plans SET status = 'released', released_year = p_released_year, released_season = p_released_season, released_week = p_released_week WHERE id = v_plan_id AND company_id = p_company_id;
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION consume_storage_backed_wine_batch(
+  p_company_id UUID, p_batch_id TEXT, p_quantity NUMERIC,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE v_quantity NUMERIC; v_volume_litres NUMERIC; v_plan_id UUID; v_remaining_quantity NUMERIC; v_remaining_litres NUMERIC;
+BEGIN
+  IF p_quantity <= 0 THEN RETURN FALSE; END IF;
+  SELECT quantity, COALESCE(volume_litres, quantity), storage_plan_id INTO v_quantity, v_volume_litres, v_plan_id FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id FOR UPDATE;
+  IF NOT FOUND OR v_quantity < p_quantity THEN RETURN FALSE; END IF;
+  v_remaining_quantity := v_quantity - p_quantity;
+  v_remaining_litres := CASE WHEN v_quantity > 0 THEN GREATEST(0, v_volume_litres * v_remaining_quantity / v_quantity) ELSE 0 END;
+  IF v_remaining_quantity <= 0 THEN
+    IF v_plan_id IS NOT NULL THEN
+      PERFORM record_storage_vessel_fill_imprints(p_company_id, p_batch_id, v_plan_id, NULL, p_released_year, p_released_season, p_released_week);
+    END IF;
+    DELETE FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id;
+    IF v_plan_id IS NOT NULL THEN
+      UPDATE storage_vessel_allocations SET released_at = NOW(), filled_litres = 0 WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL;
+      UPDATE storage_vessel_allocation_plans SET status = 'released', released_year = p_released_year, released_season = p_released_season, released_week = p_released_week WHERE company_id = p_company_id AND id = v_plan_id AND status IN ('reserved', 'active');
+    END IF;
+    RETURN TRUE;
+  END IF;
+  UPDATE wine_batches SET quantity = ROUND(v_remaining_quantity), volume_litres = CASE WHEN v_plan_id IS NULL THEN volume_litres ELSE v_remaining_litres END WHERE id = p_batch_id AND company_id = p_company_id;
+  IF v_plan_id IS NOT NULL THEN
+    UPDATE storage_vessel_allocation_plans SET required_litres = v_remaining_litres WHERE company_id = p_company_id AND id = v_plan_id AND status = 'active';
+    WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL)
+    UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, v_remaining_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  END IF;
+  RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_empty_storage_vessel(
+  p_company_id UUID, p_batch_id TEXT, p_plan_id UUID, p_vessel_id UUID, p_remaining_litres NUMERIC,
+  p_remaining_quantity NUMERIC, p_released_at TIMESTAMPTZ, p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE v_filled_litres NUMERIC; v_batch_litres NUMERIC; v_batch_quantity NUMERIC;
+BEGIN
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = p_plan_id AND company_id = p_company_id AND status = 'active' FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  SELECT filled_litres INTO v_filled_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_plan_id AND vessel_id = p_vessel_id AND released_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  SELECT COALESCE(volume_litres, quantity), quantity INTO v_batch_litres, v_batch_quantity FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id AND storage_plan_id = p_plan_id FOR UPDATE;
+  IF NOT FOUND OR v_batch_litres <= 0 OR ABS(p_remaining_litres - GREATEST(0, v_batch_litres - v_filled_litres)) > 0.001 OR ABS(p_remaining_quantity - GREATEST(0, v_batch_quantity * GREATEST(0, v_batch_litres - v_filled_litres) / v_batch_litres)) > 0.001 THEN RETURN FALSE; END IF;
+  -- The emptied vessel's fill is complete; any other vessels keep holding the batch.
+  PERFORM record_storage_vessel_fill_imprints(p_company_id, p_batch_id, p_plan_id, p_vessel_id, p_released_year, p_released_season, p_released_week);
+  IF p_remaining_litres <= 0 THEN
+    DELETE FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id AND storage_plan_id = p_plan_id;
+    UPDATE storage_vessel_allocations SET released_at = p_released_at, filled_litres = 0 WHERE company_id = p_company_id AND plan_id = p_plan_id AND released_at IS NULL;
+    UPDATE storage_vessel_allocation_plans SET status = 'released', released_year = p_released_year, released_season = p_released_season, released_week = p_released_week WHERE id = p_plan_id AND company_id = p_company_id;
+    RETURN TRUE;
+  END IF;
+  UPDATE wine_batches SET volume_litres = p_remaining_litres, quantity = ROUND(p_remaining_quantity) WHERE id = p_batch_id AND company_id = p_company_id AND storage_plan_id = p_plan_id;
+  UPDATE storage_vessel_allocations SET released_at = p_released_at, filled_litres = 0 WHERE company_id = p_company_id AND plan_id = p_plan_id AND vessel_id = p_vessel_id AND released_at IS NULL;
+  UPDATE storage_vessel_allocation_plans SET required_litres = p_remaining_litres WHERE id = p_plan_id AND company_id = p_company_id;
+  WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_plan_id AND released_at IS NULL)
+  UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, p_remaining_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  RETURN TRUE;
+END;
+$$;
@@ -0,0 +1,80 @@
+-- Rosé and white-from-red production: wine style is fixed at crushing and
+-- recorded on batches and in the Wine Log. Saignée bleeds part of a red must
+-- into a second storage-backed batch whose vessels were reserved when
+-- crushing started; both rows are written in one transaction.
+
+ALTER TABLE public.wine_batches
+  ADD COLUMN IF NOT EXISTS wine_style TEXT;
+
+UPDATE public.wine_batches SET wine_style = grape_color WHERE wine_style IS NULL;
+
+ALTER TABLE public.wine_batches
+  DROP CONSTRAINT IF EXISTS wine_batches_wine_style_check;
+ALTER TABLE public.wine_batches
+  ADD CONSTRAINT wine_batches_wine_style_check CHECK (wine_style IS NULL OR wine_style IN ('red', 'white', 'rose'));
+
+-- Older log rows have no style; the client falls back to the grape colour.
+ALTER TABLE public.wine_log
+  ADD COLUMN IF NOT EXISTS wine_style TEXT;
+
+CREATE OR REPLACE FUNCTION public.split_storage_backed_wine_batch(
+  p_company_id UUID, p_batch JSONB, p_split_batch JSONB, p_split_plan_id UUID,
+  p_activated_year INTEGER, p_activated_season TEXT, p_activated_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE
+  v_plan_id UUID;
+  v_volume_litres NUMERIC;
+  v_split_litres NUMERIC;
+  v_capacity NUMERIC;
+BEGIN
+  v_volume_litres := (p_batch->>'volume_litres')::NUMERIC;
+  v_split_litres := (p_split_batch->>'volume_litres')::NUMERIC;
+  IF v_volume_litres IS NULL OR v_volume_litres <= 0 OR v_split_litres IS NULL OR v_split_litres <= 0 THEN RETURN FALSE; END IF;
+
+  SELECT storage_plan_id INTO v_plan_id FROM wine_batches
+  WHERE id = p_batch->>'id' AND company_id = p_company_id AND state = 'grapes' FOR UPDATE;
+  IF NOT FOUND OR v_plan_id IS NULL OR v_plan_id = p_split_plan_id THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = v_plan_id AND company_id = p_company_id AND status = 'active' FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = p_split_plan_id AND company_id = p_company_id AND status = 'reserved' FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+
+  PERFORM 1 FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id IN (v_plan_id, p_split_plan_id) AND released_at IS NULL FOR UPDATE;
+  SELECT COALESCE(SUM(assigned_capacity_litres), 0) INTO v_capacity
+  FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_split_plan_id AND released_at IS NULL;
+  IF v_capacity < v_split_litres THEN RETURN FALSE; END IF;
+
+  INSERT INTO wine_batches SELECT (jsonb_populate_record(NULL::wine_batches,
+    p_split_batch || jsonb_build_object('company_id', p_company_id, 'storage_plan_id', p_split_plan_id, 'volume_litres', v_split_litres, 'created_at', NOW())
+  )).*;
+  UPDATE storage_vessel_allocation_plans SET
+    wine_batch_id = p_split_batch->>'id', status = 'active', required_litres = v_split_litres,
+    activated_year = p_activated_year, activated_season = p_activated_season, activated_week = p_activated_week
+  WHERE id = p_split_plan_id AND company_id = p_company_id;
+  WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_split_plan_id AND released_at IS NULL)
+  UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, v_split_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  UPDATE storage_vessel_allocations SET released_at = NOW()
+  WHERE company_id = p_company_id AND plan_id = p_split_plan_id AND released_at IS NULL AND filled_litres <= 0;
+
+  UPDATE wine_batches SET
+    state = p_batch->>'state',
+    quantity = ROUND((p_batch->>'quantity')::NUMERIC),
+    volume_litres = v_volume_litres,
+    taste_quality_index = (p_batch->>'taste_quality_index')::NUMERIC,
+    structure_index = (p_batch->>'structure_index')::NUMERIC,
+    characteristics = p_batch->'characteristics',
+    breakdown = NULLIF(p_batch->'breakdown', 'null'::jsonb),
+    features = COALESCE(p_batch->'features', '[]'::jsonb),
+    wine_anchors = p_batch->'wine_anchors',
+    wine_style = p_batch->>'wine_style'
+  WHERE id = p_batch->>'id' AND company_id = p_company_id;
+
+  UPDATE storage_vessel_allocation_plans SET required_litres = v_volume_litres WHERE id = v_plan_id AND company_id = p_company_id;
+  WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL)
+  UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, v_volume_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  -- Vessels emptied by the bleed-off return to service (still dirty).
+  UPDATE storage_vessel_allocations SET released_at = NOW()
+  WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL AND filled_litres <= 0;
+  RETURN TRUE;
+END;
+$$;
@@ -0,0 +1,27 @@
+-- Traditional Method sparkling: a fermenting or maturing base wine is bottled en
+-- tirage, ages on its lees in bottle, then is riddled and disgorged. Tirage moves
+-- the wine out of its Storage Vessels, so vessel memory is recorded and the plan
+-- is released just like bottling; quantity becomes a bottle count.
+
+ALTER TABLE public.wine_batches
+  ADD COLUMN IF NOT EXISTS sparkling BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS tirage_weeks INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.tirage_storage_backed_wine_batch(
+  p_company_id UUID, p_batch_id TEXT, p_quantity NUMERIC,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE v_plan_id UUID;
+BEGIN
+  IF p_quantity IS NULL OR FLOOR(p_quantity) <= 0 THEN RETURN FALSE; END IF;
+  SELECT storage_plan_id INTO v_plan_id FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id AND state IN ('must_fermenting', 'maturing') FOR UPDATE;
+  IF NOT FOUND OR v_plan_id IS NULL THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = v_plan_id AND company_id = p_company_id AND status = 'active' AND wine_batch_id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  PERFORM record_storage_vessel_fill_imprints(p_company_id, p_batch_id, v_plan_id, NULL, p_released_year, p_released_season, p_released_week);
+  UPDATE wine_batches SET state = 'tirage', sparkling = TRUE, tirage_weeks = 0, quantity = FLOOR(p_quantity) WHERE id = p_batch_id AND company_id = p_company_id;
+  UPDATE storage_vessel_allocations SET released_at = NOW(), filled_litres = 0 WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL;
+  UPDATE storage_vessel_allocation_plans SET status = 'released', released_year = p_released_year, released_season = p_released_season, released_week = p_released_week WHERE id = v_plan_id AND company_id = p_company_id;
+  RETURN TRUE;
+END;
+$$;
@@ -0,0 +1,41 @@
+-- Sweet and fortified wine: fermentation can be stopped early (arrested or fortified
+-- with spirit) to keep residual sugar, and bottling can fill 375 ml dessert bottles.
+-- Bottling now records the chosen format, so the RPC gains a bottle format argument.
+
+ALTER TABLE public.wine_batches
+  ADD COLUMN IF NOT EXISTS sweet_wine_method TEXT,
+  ADD COLUMN IF NOT EXISTS bottle_format TEXT NOT NULL DEFAULT 'standard';
+
+ALTER TABLE public.wine_batches
+  DROP CONSTRAINT IF EXISTS wine_batches_sweet_wine_method_check;
+ALTER TABLE public.wine_batches
+  ADD CONSTRAINT wine_batches_sweet_wine_method_check CHECK (sweet_wine_method IS NULL OR sweet_wine_method IN ('arrested', 'fortified'));
+
+ALTER TABLE public.wine_batches
+  DROP CONSTRAINT IF EXISTS wine_batches_bottle_format_check;
+ALTER TABLE public.wine_batches
+  ADD CONSTRAINT wine_batches_bottle_format_check CHECK (bottle_format IN ('standard', 'dessert'));
+
+DROP FUNCTION IF EXISTS public.bottle_storage_backed_wine_batch(
+  UUID, TEXT, NUMERIC, INTEGER, TEXT, INTEGER, NUMERIC, NUMERIC, NUMERIC, NUMERIC, INTEGER, TEXT, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.bottle_storage_backed_wine_batch(
+  p_company_id UUID, p_batch_id TEXT, p_quantity NUMERIC, p_bottled_week INTEGER, p_bottled_season TEXT, p_bottled_year INTEGER,
+  p_taste_quality_index_bottling_snapshot NUMERIC, p_land_value_modifier_bottling_snapshot NUMERIC, p_structure_index_bottling_snapshot NUMERIC, p_wine_score_bottling_snapshot NUMERIC,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER, p_bottle_format TEXT DEFAULT 'standard'
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE v_plan_id UUID;
+BEGIN
+  IF p_bottle_format NOT IN ('standard', 'dessert') THEN RETURN FALSE; END IF;
+  SELECT storage_plan_id INTO v_plan_id FROM wine_batches WHERE id = p_batch_id AND company_id = p_company_id AND state IN ('must_fermenting', 'maturing') FOR UPDATE;
+  IF NOT FOUND OR v_plan_id IS NULL THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = v_plan_id AND company_id = p_company_id AND status = 'active' AND wine_batch_id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  PERFORM record_storage_vessel_fill_imprints(p_company_id, p_batch_id, v_plan_id, NULL, p_released_year, p_released_season, p_released_week);
+  UPDATE wine_batches SET state = 'bottled', quantity = FLOOR(p_quantity), bottle_format = p_bottle_format, bottled_week = p_bottled_week, bottled_season = p_bottled_season, bottled_year = p_bottled_year, taste_quality_index_bottling_snapshot = p_taste_quality_index_bottling_snapshot, land_value_modifier_bottling_snapshot = p_land_value_modifier_bottling_snapshot, structure_index_bottling_snapshot = p_structure_index_bottling_snapshot, wine_score_bottling_snapshot = p_wine_score_bottling_snapshot WHERE id = p_batch_id AND company_id = p_company_id;
+  UPDATE storage_vessel_allocations SET released_at = NOW(), filled_litres = 0 WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL;
+  UPDATE storage_vessel_allocation_plans SET status = 'released', released_year = p_released_year, released_season = p_released_season, released_week = p_released_week WHERE id = v_plan_id AND company_id = p_company_id;
+  RETURN TRUE;
+END;
+$$;
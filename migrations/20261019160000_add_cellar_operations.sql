@@ -0,0 +1,77 @@
+-- Cellar operations: racking, fining and filtration of wine held in Storage
+-- Vessels. Each completed operation is appended to cellar_operations and the
+-- batch loses a little volume. Racking moves the wine into a reserved target
+-- plan: the source vessels record their memory and are released dirty, the
+-- target plan becomes active and its filled vessels are marked dirty. Fining and
+-- filtration refill the current plan in place.
+
+ALTER TABLE public.wine_batches
+  ADD COLUMN IF NOT EXISTS cellar_operations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.apply_cellar_operation_to_wine_batch(
+  p_company_id UUID, p_batch JSONB, p_target_plan_id UUID,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE
+  v_batch_id TEXT := p_batch->>'id';
+  v_source_plan_id UUID;
+  v_plan_id UUID;
+  v_volume_litres NUMERIC;
+  v_capacity NUMERIC;
+BEGIN
+  v_volume_litres := (p_batch->>'volume_litres')::NUMERIC;
+  IF v_volume_litres IS NULL OR v_volume_litres <= 0 THEN RETURN FALSE; END IF;
+
+  SELECT storage_plan_id INTO v_source_plan_id FROM wine_batches
+  WHERE id = v_batch_id AND company_id = p_company_id AND state IN ('must_ready', 'must_fermenting', 'maturing') FOR UPDATE;
+  IF NOT FOUND OR v_source_plan_id IS NULL OR v_source_plan_id = p_target_plan_id THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = v_source_plan_id AND company_id = p_company_id AND status = 'active' AND wine_batch_id = v_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  v_plan_id := v_source_plan_id;
+
+  IF p_target_plan_id IS NOT NULL THEN
+    PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = p_target_plan_id AND company_id = p_company_id AND status = 'reserved' FOR UPDATE;
+    IF NOT FOUND THEN RETURN FALSE; END IF;
+    SELECT COALESCE(SUM(assigned_capacity_litres), 0) INTO v_capacity
+    FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_target_plan_id AND released_at IS NULL;
+    IF v_capacity < v_volume_litres THEN RETURN FALSE; END IF;
+
+    -- The source vessels keep the memory of the wine racked out of them and stay dirty.
+    PERFORM record_storage_vessel_fill_imprints(p_company_id, v_batch_id, v_source_plan_id, NULL, p_released_year, p_released_season, p_released_week);
+    UPDATE storage_vessel_allocations SET released_at = NOW(), filled_litres = 0 WHERE company_id = p_company_id AND plan_id = v_source_plan_id AND released_at IS NULL;
+    UPDATE storage_vessel_allocation_plans SET status = 'released', released_year = p_released_year, released_season = p_released_season, released_week = p_released_week WHERE id = v_source_plan_id AND company_id = p_company_id;
+
+    UPDATE storage_vessel_allocation_plans SET
+      status = 'active', wine_batch_id = v_batch_id,
+      activated_year = p_released_year, activated_season = p_released_season, activated_week = p_released_week
+    WHERE id = p_target_plan_id AND company_id = p_company_id;
+    v_plan_id := p_target_plan_id;
+  END IF;
+
+  UPDATE wine_batches SET
+    storage_plan_id = v_plan_id,
+    quantity = ROUND((p_batch->>'quantity')::NUMERIC),
+    volume_litres = v_volume_litres,
+    characteristics = p_batch->'characteristics',
+    breakdown = NULLIF(p_batch->'breakdown', 'null'::jsonb),
+    structure_index = (p_batch->>'structure_index')::NUMERIC,
+    taste_quality_index = (p_batch->>'taste_quality_index')::NUMERIC,
+    estimated_price = (p_batch->>'estimated_price')::NUMERIC,
+    features = COALESCE(p_batch->'features', '[]'::jsonb),
+    wine_anchors = p_batch->'wine_anchors',
+    cellar_operations = COALESCE(p_batch->'cellar_operations', '[]'::jsonb)
+  WHERE id = v_batch_id AND company_id = p_company_id;
+
+  UPDATE storage_vessel_allocation_plans SET required_litres = v_volume_litres WHERE id = v_plan_id AND company_id = p_company_id;
+  WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL)
+  UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, v_volume_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  UPDATE storage_vessels s SET cleanliness = 'dirty'
+  FROM storage_vessel_allocations a
+  WHERE a.company_id = p_company_id AND a.plan_id = v_plan_id AND a.vessel_id = s.id AND a.released_at IS NULL AND a.filled_litres > 0
+    AND s.company_id = p_company_id;
+  -- Vessels left empty by the volume loss or an oversized target plan return to service.
+  UPDATE storage_vessel_allocations SET released_at = NOW()
+  WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL AND filled_litres <= 0;
+  RETURN TRUE;
+END;
+$$;
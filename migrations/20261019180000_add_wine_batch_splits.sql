@@ -0,0 +1,135 @@
+-- Split batches and partial bottling: part of a lot can be split off into its
+-- own storage-backed batch, or bottled while the rest keeps maturing. The new
+-- row records the lot it came from, gets its own batch number within the
+-- vintage, and evolves independently. Every Wine Log entry names the batch it
+-- was bottled from and its parent lot.
+
+ALTER TABLE public.wine_batches
+  ADD COLUMN IF NOT EXISTS parent_batch_id TEXT;
+
+-- Older log rows have no batch link; the client matches them by vineyard, grape and vintage.
+ALTER TABLE public.wine_log
+  ADD COLUMN IF NOT EXISTS batch_id TEXT,
+  ADD COLUMN IF NOT EXISTS parent_batch_id TEXT;
+
+-- Refill a plan's vessels in order after its batch lost volume. Vessels left
+-- empty keep the memory of the wine that left them and return to service dirty.
+CREATE OR REPLACE FUNCTION public.refill_storage_plan_after_split(
+  p_company_id UUID, p_batch_id TEXT, p_plan_id UUID, p_volume_litres NUMERIC,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS VOID LANGUAGE plpgsql AS $$
+DECLARE v_vessel_id UUID;
+BEGIN
+  FOR v_vessel_id IN
+    WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_plan_id AND released_at IS NULL)
+    SELECT a.vessel_id FROM storage_vessel_allocations a JOIN fills f ON a.id = f.id
+    WHERE a.filled_litres > 0 AND p_volume_litres - f.before_litres <= 0
+  LOOP
+    PERFORM record_storage_vessel_fill_imprints(p_company_id, p_batch_id, p_plan_id, v_vessel_id, p_released_year, p_released_season, p_released_week);
+  END LOOP;
+
+  UPDATE storage_vessel_allocation_plans SET required_litres = p_volume_litres WHERE id = p_plan_id AND company_id = p_company_id;
+  WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_plan_id AND released_at IS NULL)
+  UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, p_volume_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  UPDATE storage_vessel_allocations SET released_at = NOW()
+  WHERE company_id = p_company_id AND plan_id = p_plan_id AND released_at IS NULL AND filled_litres <= 0;
+END;
+$$;
+
+-- Split part of a stored batch into a new batch held in a reserved plan, which
+-- becomes active. The source keeps the rest in its own plan.
+CREATE OR REPLACE FUNCTION public.split_off_storage_backed_wine_batch(
+  p_company_id UUID, p_batch_id TEXT, p_split_batch JSONB, p_split_plan_id UUID,
+  p_activated_year INTEGER, p_activated_season TEXT, p_activated_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE
+  v_plan_id UUID;
+  v_volume_litres NUMERIC;
+  v_quantity NUMERIC;
+  v_split_litres NUMERIC;
+  v_remaining_litres NUMERIC;
+  v_capacity NUMERIC;
+BEGIN
+  v_split_litres := (p_split_batch->>'volume_litres')::NUMERIC;
+  IF v_split_litres IS NULL OR v_split_litres <= 0 THEN RETURN FALSE; END IF;
+
+  SELECT storage_plan_id, volume_litres, quantity INTO v_plan_id, v_volume_litres, v_quantity FROM wine_batches
+  WHERE id = p_batch_id AND company_id = p_company_id AND state IN ('grapes', 'must_ready', 'must_fermenting', 'maturing') FOR UPDATE;
+  IF NOT FOUND OR v_plan_id IS NULL OR v_plan_id = p_split_plan_id THEN RETURN FALSE; END IF;
+  v_remaining_litres := v_volume_litres - v_split_litres;
+  IF v_remaining_litres IS NULL OR v_remaining_litres <= 0 THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = v_plan_id AND company_id = p_company_id AND status = 'active' AND wine_batch_id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = p_split_plan_id AND company_id = p_company_id AND status = 'reserved' FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+
+  PERFORM 1 FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id IN (v_plan_id, p_split_plan_id) AND released_at IS NULL FOR UPDATE;
+  SELECT COALESCE(SUM(assigned_capacity_litres), 0) INTO v_capacity
+  FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_split_plan_id AND released_at IS NULL;
+  IF v_capacity < v_split_litres THEN RETURN FALSE; END IF;
+
+  INSERT INTO wine_batches SELECT (jsonb_populate_record(NULL::wine_batches,
+    p_split_batch || jsonb_build_object('company_id', p_company_id, 'storage_plan_id', p_split_plan_id, 'volume_litres', v_split_litres, 'created_at', NOW())
+  )).*;
+  UPDATE storage_vessel_allocation_plans SET
+    wine_batch_id = p_split_batch->>'id', status = 'active', required_litres = v_split_litres,
+    activated_year = p_activated_year, activated_season = p_activated_season, activated_week = p_activated_week
+  WHERE id = p_split_plan_id AND company_id = p_company_id;
+  WITH fills AS (SELECT id, assigned_capacity_litres, COALESCE(SUM(assigned_capacity_litres) OVER (ORDER BY created_at, id ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING), 0) AS before_litres FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = p_split_plan_id AND released_at IS NULL)
+  UPDATE storage_vessel_allocations a SET filled_litres = LEAST(f.assigned_capacity_litres, GREATEST(0, v_split_litres - f.before_litres)) FROM fills f WHERE a.id = f.id;
+  UPDATE storage_vessels s SET cleanliness = 'dirty'
+  FROM storage_vessel_allocations a
+  WHERE a.company_id = p_company_id AND a.plan_id = p_split_plan_id AND a.vessel_id = s.id AND a.released_at IS NULL AND a.filled_litres > 0
+    AND s.company_id = p_company_id;
+  UPDATE storage_vessel_allocations SET released_at = NOW()
+  WHERE company_id = p_company_id AND plan_id = p_split_plan_id AND released_at IS NULL AND filled_litres <= 0;
+
+  UPDATE wine_batches SET
+    volume_litres = v_remaining_litres,
+    quantity = GREATEST(0, v_quantity - ROUND((p_split_batch->>'quantity')::NUMERIC))
+  WHERE id = p_batch_id AND company_id = p_company_id;
+  PERFORM refill_storage_plan_after_split(p_company_id, p_batch_id, v_plan_id, v_remaining_litres, p_activated_year, p_activated_season, p_activated_week);
+  RETURN TRUE;
+END;
+$$;
+
+-- Bottle part of a stored batch as a new bottled batch; the source keeps
+-- maturing with the rest in its own plan.
+CREATE OR REPLACE FUNCTION public.bottle_part_of_storage_backed_wine_batch(
+  p_company_id UUID, p_batch_id TEXT, p_bottled_batch JSONB,
+  p_released_year INTEGER, p_released_season TEXT, p_released_week INTEGER
+) RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE
+  v_plan_id UUID;
+  v_volume_litres NUMERIC;
+  v_quantity NUMERIC;
+  v_bottled_litres NUMERIC;
+  v_remaining_litres NUMERIC;
+BEGIN
+  IF p_bottled_batch->>'state' <> 'bottled' THEN RETURN FALSE; END IF;
+  IF p_bottled_batch->>'bottle_format' NOT IN ('half', 'standard', 'magnum', 'bag_in_box') OR p_bottled_batch->>'bottle_closure' NOT IN ('natural_cork', 'screwcap', 'synthetic') THEN RETURN FALSE; END IF;
+  IF FLOOR((p_bottled_batch->>'quantity')::NUMERIC) < 1 THEN RETURN FALSE; END IF;
+  v_bottled_litres := (p_bottled_batch->>'volume_litres')::NUMERIC;
+  IF v_bottled_litres IS NULL OR v_bottled_litres <= 0 THEN RETURN FALSE; END IF;
+
+  SELECT storage_plan_id, volume_litres, quantity INTO v_plan_id, v_volume_litres, v_quantity FROM wine_batches
+  WHERE id = p_batch_id AND company_id = p_company_id AND state IN ('must_fermenting', 'maturing') FOR UPDATE;
+  IF NOT FOUND OR v_plan_id IS NULL THEN RETURN FALSE; END IF;
+  v_remaining_litres := v_volume_litres - v_bottled_litres;
+  IF v_remaining_litres IS NULL OR v_remaining_litres <= 0 THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocation_plans WHERE id = v_plan_id AND company_id = p_company_id AND status = 'active' AND wine_batch_id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN FALSE; END IF;
+  PERFORM 1 FROM storage_vessel_allocations WHERE company_id = p_company_id AND plan_id = v_plan_id AND released_at IS NULL FOR UPDATE;
+
+  INSERT INTO wine_batches SELECT (jsonb_populate_record(NULL::wine_batches,
+    p_bottled_batch || jsonb_build_object('company_id', p_company_id, 'storage_plan_id', NULL, 'quantity', FLOOR((p_bottled_batch->>'quantity')::NUMERIC), 'created_at', NOW())
+  )).*;
+
+  UPDATE wine_batches SET
+    volume_litres = v_remaining_litres,
+    quantity = GREATEST(0, ROUND(v_quantity * v_remaining_litres / v_volume_litres))
+  WHERE id = p_batch_id AND company_id = p_company_id;
+  PERFORM refill_storage_plan_after_split(p_company_id, p_batch_id, v_plan_id, v_remaining_litres, p_released_year, p_released_season, p_released_week);
+  RETURN TRUE;
+END;
+$$;
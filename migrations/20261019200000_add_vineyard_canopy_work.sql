@@ -0,0 +1,6 @@
+-- Canopy management: leaf removal, shoot thinning and green harvesting done on a
+-- vineyard during the growing season. The work is stored for the current season
+-- only and cleared at the start of each year.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS canopy_work JSONB;
@@ -0,0 +1,37 @@
+-- Vintages: each vineyard accumulates its growing-season weather (weighted by
+-- site exposure) while the vines grow. The running total sets the year's yield
+-- and harvest anchors, and is written here as a vintage record at the start of
+-- the following year.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS vintage_weather JSONB;
+
+CREATE TABLE IF NOT EXISTS public.vineyard_vintages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  vineyard_id TEXT NOT NULL,
+  vineyard_name TEXT NOT NULL,
+  grape_variety TEXT,
+  region TEXT NOT NULL,
+  country TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  weather JSONB NOT NULL,
+  yield_factor NUMERIC NOT NULL CHECK (yield_factor > 0),
+  quality_factor NUMERIC NOT NULL CHECK (quality_factor > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, vineyard_id, year)
+);
+
+CREATE INDEX IF NOT EXISTS vineyard_vintages_company_year_idx
+  ON public.vineyard_vintages (company_id, year);
+
+ALTER TABLE public.vineyard_vintages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their vineyard vintages" ON public.vineyard_vintages;
+
+CREATE POLICY "Users can manage their vineyard vintages"
+  ON public.vineyard_vintages
+  FOR ALL
+  USING (company_id IN (
+    SELECT id FROM public.companies WHERE user_id = auth.uid()
+  ));
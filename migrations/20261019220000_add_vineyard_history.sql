@@ -0,0 +1,33 @@
+-- Vineyard lifecycle history: purchases, plantings, uprooting, replanting and
+-- sales. Rows are kept after a vineyard is sold, and the history is read back
+-- to work out how long the current grape has been planted (grape tenure).
+
+CREATE TABLE IF NOT EXISTS public.vineyard_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  vineyard_id TEXT NOT NULL,
+  vineyard_name TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('purchased', 'planted', 'uprooted', 'replanted', 'sold')),
+  grape_variety TEXT,
+  intensity NUMERIC CHECK (intensity IS NULL OR (intensity >= 0 AND intensity <= 1)),
+  density NUMERIC,
+  amount NUMERIC,
+  week INTEGER NOT NULL,
+  season TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS vineyard_history_company_vineyard_idx
+  ON public.vineyard_history (company_id, vineyard_id, created_at);
+
+ALTER TABLE public.vineyard_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their vineyard history" ON public.vineyard_history;
+
+CREATE POLICY "Users can manage their vineyard history"
+  ON public.vineyard_history
+  FOR ALL
+  USING (company_id IN (
+    SELECT id FROM public.companies WHERE user_id = auth.uid()
+  ));
@@ -0,0 +1,7 @@
+-- Soil moisture and irrigation: a weekly water balance per vineyard driven by the
+-- weather, soil and altitude, plus installed irrigation with its running-cost counter.
+-- Both are NULL until first set; a missing water state starts at the default moisture.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS water_state JSONB,
+  ADD COLUMN IF NOT EXISTS irrigation JSONB;
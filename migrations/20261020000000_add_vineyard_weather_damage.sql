@@ -0,0 +1,7 @@
+-- Severe weather: spring frost, hail and heatwave damage recorded on each vineyard for
+-- the current year, and the mitigation (frost candles, hail nets, kaolin spray) set up
+-- against the next event. Damage is cleared at the start of each year.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS weather_damage JSONB,
+  ADD COLUMN IF NOT EXISTS weather_protection JSONB;
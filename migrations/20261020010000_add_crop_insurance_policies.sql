@@ -0,0 +1,38 @@
+-- Crop insurance: a policy is bought for one vineyard for one season. Its premium is
+-- priced from the region's climate risk, the seasonal forecast pattern and the
+-- vineyard's value; at the end of the season it pays out on recorded weather damage
+-- or on the yield shortfall against the expected yield insured at purchase.
+
+CREATE TABLE IF NOT EXISTS public.crop_insurance_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  vineyard_id TEXT NOT NULL,
+  vineyard_name TEXT NOT NULL,
+  season TEXT NOT NULL CHECK (season IN ('Spring', 'Summer', 'Fall', 'Winter')),
+  year INTEGER NOT NULL,
+  purchased_week INTEGER NOT NULL,
+  insured_value NUMERIC NOT NULL CHECK (insured_value >= 0),
+  insured_yield_kg NUMERIC NOT NULL CHECK (insured_yield_kg >= 0),
+  premium NUMERIC NOT NULL CHECK (premium >= 0),
+  deductible NUMERIC NOT NULL CHECK (deductible >= 0 AND deductible < 1),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'claimed', 'expired')),
+  payout NUMERIC NOT NULL DEFAULT 0 CHECK (payout >= 0),
+  claim_basis TEXT CHECK (claim_basis IN ('weatherDamage', 'yieldShortfall')),
+  loss_share NUMERIC,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, vineyard_id, year, season)
+);
+
+CREATE INDEX IF NOT EXISTS crop_insurance_policies_company_status_idx
+  ON public.crop_insurance_policies (company_id, status);
+
+ALTER TABLE public.crop_insurance_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their crop insurance policies" ON public.crop_insurance_policies;
+
+CREATE POLICY "Users can manage their crop insurance policies"
+  ON public.crop_insurance_policies
+  FOR ALL
+  USING (company_id IN (
+    SELECT id FROM public.companies WHERE user_id = auth.uid()
+  ));
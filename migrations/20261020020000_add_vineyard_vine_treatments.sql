@@ -0,0 +1,6 @@
+-- Vine disease and pest treatments (copper spray, sulfur spray, root treatment) applied to
+-- each vineyard this year. Disease pressure itself lives on pending_features; treatments
+-- are cleared at the start of each year.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS vine_treatments JSONB;
@@ -0,0 +1,13 @@
+-- Estate parcels: a vineyard can be split into named parcels that share its land but grow
+-- their own grape. Each parcel is its own vineyards row pointing at the estate's original
+-- vineyard through estate_id. Wine batches and the wine log keep the parcel they came from.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS estate_id TEXT,
+  ADD COLUMN IF NOT EXISTS parcel_name TEXT;
+
+ALTER TABLE public.wine_batches
+  ADD COLUMN IF NOT EXISTS parcel_name TEXT;
+
+ALTER TABLE public.wine_log
+  ADD COLUMN IF NOT EXISTS parcel_name TEXT;
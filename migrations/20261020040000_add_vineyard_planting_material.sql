@@ -0,0 +1,6 @@
+-- Planting material: the rootstock and clone chosen when a vineyard is planted or replanted.
+-- Vines planted before this leave both empty and take no rootstock or clone effects.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS rootstock TEXT,
+  ADD COLUMN IF NOT EXISTS vine_clone TEXT;
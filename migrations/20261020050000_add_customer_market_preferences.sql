@@ -0,0 +1,6 @@
+-- Customer market preferences: each customer's preferred structure levels and liked or
+-- disliked flavor families, seeded from country and customer type. Customers created before
+-- this have none and are valued against their country and type baseline.
+
+ALTER TABLE public.customers
+  ADD COLUMN IF NOT EXISTS market_preference JSONB;
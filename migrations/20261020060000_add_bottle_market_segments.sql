@@ -0,0 +1,27 @@
+-- Bottle market: one row per company, customer country and wine style. Demand follows the
+-- economy phase and season, supply follows regional production and harvest weather, and
+-- saturation records how much of the market the player's recent sales have filled.
+-- History keeps the last year of weekly points for charting.
+
+CREATE TABLE IF NOT EXISTS public.bottle_market_segments (
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  country TEXT NOT NULL,
+  style TEXT NOT NULL CHECK (style IN ('red', 'white', 'rose', 'sparkling')),
+  demand NUMERIC NOT NULL CHECK (demand > 0),
+  supply NUMERIC NOT NULL CHECK (supply > 0),
+  saturation NUMERIC NOT NULL DEFAULT 0 CHECK (saturation >= 0 AND saturation <= 1),
+  history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (company_id, country, style)
+);
+
+ALTER TABLE public.bottle_market_segments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their bottle market" ON public.bottle_market_segments;
+
+CREATE POLICY "Users can manage their bottle market"
+  ON public.bottle_market_segments
+  FOR ALL
+  USING (company_id IN (
+    SELECT id FROM public.companies WHERE user_id = auth.uid()
+  ));
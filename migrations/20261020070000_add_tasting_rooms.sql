@@ -0,0 +1,27 @@
+-- Cellar door: the company's tasting room, built at one of its vineyards. Staff ids list the
+-- sales staff serving visitors; last_week keeps the latest week's visitors, bottles and revenue.
+
+CREATE TABLE IF NOT EXISTS public.tasting_rooms (
+  company_id UUID PRIMARY KEY REFERENCES public.companies(id) ON DELETE CASCADE,
+  vineyard_id TEXT NOT NULL,
+  vineyard_name TEXT NOT NULL,
+  country TEXT NOT NULL,
+  region TEXT NOT NULL,
+  built_week INTEGER NOT NULL,
+  built_season TEXT NOT NULL,
+  built_year INTEGER NOT NULL,
+  staff_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_week JSONB,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tasting_rooms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their tasting room" ON public.tasting_rooms;
+
+CREATE POLICY "Users can manage their tasting room"
+  ON public.tasting_rooms
+  FOR ALL
+  USING (company_id IN (
+    SELECT id FROM public.companies WHERE user_id = auth.uid()
+  ));
@@ -0,0 +1,41 @@
+-- Export markets: bottles shipped to export customers. The winery pays shipping on dispatch;
+-- when the shipment arrives (arrives_at, an absolute game week) the customer pays the landed
+-- price for the bottles delivered intact and the winery pays the import duty on them.
+
+CREATE TABLE IF NOT EXISTS public.export_shipments (
+  id UUID PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  order_id TEXT NOT NULL,
+  customer_id TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  country TEXT NOT NULL,
+  wine_batch_id TEXT NOT NULL,
+  wine_name TEXT NOT NULL,
+  bottles INTEGER NOT NULL CHECK (bottles > 0),
+  landed_price NUMERIC NOT NULL CHECK (landed_price >= 0),
+  import_duty NUMERIC NOT NULL CHECK (import_duty >= 0),
+  shipping_cost NUMERIC NOT NULL CHECK (shipping_cost >= 0),
+  transport_risk NUMERIC NOT NULL CHECK (transport_risk >= 0 AND transport_risk <= 1),
+  shipped_week INTEGER NOT NULL,
+  shipped_season TEXT NOT NULL,
+  shipped_year INTEGER NOT NULL,
+  arrives_at INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_transit' CHECK (status IN ('in_transit', 'delivered')),
+  bottles_lost INTEGER,
+  settled_value NUMERIC,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_shipments_company_status
+  ON public.export_shipments (company_id, status);
+
+ALTER TABLE public.export_shipments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their export shipments" ON public.export_shipments;
+
+CREATE POLICY "Users can manage their export shipments"
+  ON public.export_shipments
+  FOR ALL
+  USING (company_id IN (
+    SELECT id FROM public.companies WHERE user_id = auth.uid()
+  ));
@@ -0,0 +1,8 @@
+-- Negotiation: counter-offers on wine orders and contracts. Each round keeps the terms before
+-- and after the counter, the staff member negotiating, the acceptance chance and the outcome.
+
+ALTER TABLE public.wine_orders
+  ADD COLUMN IF NOT EXISTS negotiation_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.wine_contracts
+  ADD COLUMN IF NOT EXISTS negotiation_history JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,10 @@
+-- Biodynamic conversion is counted separately from organic years, so a certified
+-- organic vineyard keeps its organic certification while it converts to biodynamic.
+-- Existing biodynamic vineyards count their current conversion years as biodynamic.
+
+ALTER TABLE public.vineyards
+  ADD COLUMN IF NOT EXISTS biodynamic_years INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.vineyards
+SET biodynamic_years = organic_years
+WHERE farming_method = 'biodynamic';
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, Button, Badge, Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui';
+import { formatNumber } from '@/lib/utils';
+import { buyCropInsurance, getAllVineyards, getCropInsurancePolicies, quoteCropInsurance, validateCropInsurancePurchase } from '@/lib/services';
+import { useGameState, useGameStateWithData } from '@/hooks';
+import { CropInsuranceStatus } from '@/lib/types/types';
+import { ShieldCheck } from 'lucide-react';
+
+const STATUS_STYLES: Record<CropInsuranceStatus, string> = {
+  active: 'bg-blue-100 text-blue-800 border border-blue-300',
+  claimed: 'bg-green-100 text-green-800 border border-green-300',
+  expired: 'bg-gray-100 text-gray-700 border border-gray-300'
+};
+
+export function CropInsurancePanel() {
+  const [buying, setBuying] = useState<string | null>(null);
+  const gameState = useGameState();
+  const vineyards = useGameStateWithData(getAllVineyards, []);
+  const policies = useGameStateWithData(getCropInsurancePolicies, []);
+
+  const season = gameState.season ?? 'Spring';
+  const year = gameState.currentYear ?? 2024;
+  const quotes = useMemo(() => vineyards
+    .filter(vineyard => validateCropInsurancePurchase(vineyard, season, year, policies).valid)
+    .map(vineyard => ({ vineyard, quote: quoteCropInsurance(vineyard, gameState.weatherForecastPattern ?? 'Stable') })),
+  [vineyards, policies, season, year, gameState.weatherForecastPattern]);
+
+  if (quotes.length === 0 && policies.length === 0) return null;
+
+  async function handleBuy(vineyardId: string) {
+    setBuying(vineyardId);
+    await buyCropInsurance(vineyardId);
+    setBuying(null);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-blue-600" />
+          Crop Insurance
+        </CardTitle>
+        <CardDescription>
+          Insure a vineyard's crop for the current season. Premiums follow the region's climate risk, the
+          seasonal forecast and the vineyard's value. At season end the policy pays for weather damage or a
+          shortfall against the insured yield, beyond the deductible.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {quotes.length > 0 && (
+            <div className="border border-blue-200 rounded-md divide-y divide-blue-100">
+              {quotes.map(({ vineyard, quote }) => (
+                <div key={vineyard.id} className="flex items-center justify-between p-3 bg-blue-50">
+                  <div>
+                    <div className="font-medium text-gray-900">{vineyard.name}</div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      Covers up to {formatNumber(quote.insuredValue, { currency: true, decimals: 0 })} ·{' '}
+                      {Math.round(quote.deductible * 100)}% deductible · region risk ×{formatNumber(quote.regionalRisk, { decimals: 2 })} ·
+                      forecast risk ×{formatNumber(quote.patternRisk, { decimals: 2 })}
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => handleBuy(vineyard.id)}
+                    disabled={buying === vineyard.id}
+                    className="ml-4 text-xs px-3 py-1 h-auto bg-white border border-gray-300 text-gray-700 hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700"
+                  >
+                    {buying === vineyard.id
+                      ? 'Processing…'
+                      : `Insure ${season} — ${formatNumber(quote.premium, { currency: true, decimals: 0 })}`}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {policies.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Season</TableHead>
+                  <TableHead>Vineyard</TableHead>
+                  <TableHead className="text-right">Premium</TableHead>
+                  <TableHead className="text-right">Insured Value</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Payout</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map(policy => (
+                  <TableRow key={policy.id}>
+                    <TableCell>{policy.season} {policy.year}</TableCell>
+                    <TableCell>{policy.vineyardName}</TableCell>
+                    <TableCell className="text-right">{formatNumber(policy.premium, { currency: true, decimals: 0 })}</TableCell>
+                    <TableCell className="text-right">{formatNumber(policy.insuredValue, { currency: true, decimals: 0 })}</TableCell>
+                    <TableCell>
+                      <Badge className={`text-xs ${STATUS_STYLES[policy.status]}`}>{policy.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {policy.payout > 0 ? formatNumber(policy.payout, { currency: true, decimals: 0 }) : '—'}
+                      {policy.claimBasis && (
+                        <div className="text-xs text-gray-500">
+                          {policy.claimBasis === 'weatherDamage' ? 'Weather damage' : 'Yield shortfall'} {Math.round((policy.lossShare ?? 0) * 100)}%
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,6 +17,7 @@ import { IncomeBalanceView } from './IncomeBalanceView';
 import { CashFlowView } from './CashFlowView';
 import { StaffWageSummary } from './StaffWageSummary';
 import { FounderPanel } from './FounderPanel';
+import { CropInsurancePanel } from './CropInsurancePanel';
 import { FINANCE_TAB_STYLES, FINANCE_BUTTON_STYLES } from '@/lib/constants/financeConstants';
 import { SEASONS, WEEKS_PER_SEASON, type SeasonName } from '@/lib/constants/timeConstants';
 import { useGameState, useGameStateWithData } from '@/hooks';
@@ -306,6 +307,7 @@ export default function FinanceView() {
             <IncomeBalanceView period={activePeriod} filters={periodFilters} />
             <StaffWageSummary />
             <FounderPanel />
+            <CropInsurancePanel />
           </div>
         </TabsContent>
         <TabsContent value="cashflow">
@@ -3,3 +3,4 @@ export { IncomeBalanceView } from './IncomeBalanceView';
 export { CashFlowView } from './CashFlowView';
 export { StaffWageSummary } from './StaffWageSummary';
 export { FounderPanel } from './FounderPanel';
+export { CropInsurancePanel } from './CropInsurancePanel';
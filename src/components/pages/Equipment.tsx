@@ -15,6 +15,7 @@ import {
   startCleanStorageVesselActivity,
   getStorageVesselSellbackEligibility,
   sellOwnedStorageVesselToMarket,
+  getStorageVesselImprintSummary,
 } from '@/lib/services';
 import { activitiesFeature } from '@/lib/features/activities';
 import type { StorageVessel } from '@/lib/types/storageVessels';
@@ -39,7 +40,7 @@ export const Equipment: React.FC<EquipmentProps> = () => {
   const [sellRequest, setSellRequest] = useState<StorageVessel | null>(null);
   const [sellError, setSellError] = useState<string | null>(null);
   const summary = useMemo(() => calculateStorageCapacitySummary(vessels), [vessels]);
-  const currentYear = getGameState().currentYear ?? 2024;
+  const { week = 1, season = 'Spring', currentYear = 2024 } = getGameState();
 
   const handleEmptyVessel = useCallback(async () => {
     if (!emptyingRequest) return;
@@ -115,6 +116,7 @@ export const Equipment: React.FC<EquipmentProps> = () => {
             ].filter((reason, index, reasons) => reasons.indexOf(reason) === index);
             const availability = { available: availabilityReasons.length === 0, reasons: availabilityReasons };
             const sellback = getStorageVesselSellbackEligibility(vessel, activities);
+            const imprintSummary = getStorageVesselImprintSummary(vessel, { week, season, year: currentYear });
 
             return (
               <div key={vessel.id} className="grid gap-2 px-4 py-3 text-sm md:grid-cols-[1.5fr_0.8fr_1fr_0.8fr_1fr_0.8fr_1fr_0.7fr_1fr_1.2fr_1.8fr_auto]">
@@ -125,7 +127,10 @@ export const Equipment: React.FC<EquipmentProps> = () => {
                 <div className={`text-xs ${getColorClass(vessel.qualityScore)}`}>{getQualityInfo(vessel.qualityScore).category} ({vessel.qualityScore.toFixed(2)})</div>
                 <div className="text-xs text-gray-600">{Math.round(vessel.condition * 100)}%</div>
                 <div className={`text-xs font-medium ${vessel.cleanliness === 'clean' ? 'text-emerald-700' : 'text-amber-600'}`}>{vessel.cleanliness}</div>
-                <div className="text-xs text-gray-600">{vessel.fillHistory}</div>
+                <div className="text-xs text-gray-600">
+                  {vessel.fillHistory}
+                  {imprintSummary && <div className="mt-1 text-[11px] text-purple-700" title="Vessel memory of recent fills">{imprintSummary}</div>}
+                </div>
                 <UnifiedTooltip
                   title={availability.available ? 'Available' : 'Unavailable'}
                   content={availability.available
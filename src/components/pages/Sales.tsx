@@ -6,6 +6,8 @@ import { NavigationProps } from '../../lib/types/UItypes';
 import WineCellarTab from './sales/WineCellarTab';
 import OrdersTab from './sales/OrdersTab';
 import ContractsTab from './sales/ContractsTab';
+import BottleMarketTab from './sales/BottleMarketTab';
+import CellarDoorTab from './sales/CellarDoorTab';
 import { getAllOrders, getAllWineBatches, getAllWineContracts, getWineBatchDisplayName } from '@/lib/services';
 
 interface SalesProps extends NavigationProps {
@@ -15,7 +17,7 @@ interface SalesProps extends NavigationProps {
 const Sales: React.FC<SalesProps> = ({ onNavigateToWinepedia }) => {
   const { isLoading, withLoading } = useLoadingState();
   
-  const [activeTab, setActiveTab] = useState<'cellar' | 'orders' | 'contracts'>('cellar');
+  const [activeTab, setActiveTab] = useState<'cellar' | 'orders' | 'contracts' | 'market' | 'cellarDoor'>('cellar');
   const [showSoldOut, setShowSoldOut] = useState<boolean>(false);
 
   // Wine modal state
@@ -78,6 +80,8 @@ const Sales: React.FC<SalesProps> = ({ onNavigateToWinepedia }) => {
             {activeTab === 'cellar' && 'Wine Cellar Inventory'}
             {activeTab === 'orders' && 'Pending Orders'}
             {activeTab === 'contracts' && 'Wine and Pre-sale Contracts'}
+            {activeTab === 'market' && 'Bottle Market'}
+            {activeTab === 'cellarDoor' && 'Cellar Door'}
           </h3>
         </div>
       </div>
@@ -116,6 +120,26 @@ const Sales: React.FC<SalesProps> = ({ onNavigateToWinepedia }) => {
         >
           Contracts ({allContracts.filter(c => c.status === 'pending' || c.status === 'offered').length})
         </button>
+        <button 
+          onClick={() => setActiveTab('market')}
+          className={`px-3 py-1.5 rounded ${
+            activeTab === 'market' 
+              ? 'bg-amber-600 text-white' 
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+        >
+          Market
+        </button>
+        <button 
+          onClick={() => setActiveTab('cellarDoor')}
+          className={`px-3 py-1.5 rounded ${
+            activeTab === 'cellarDoor' 
+              ? 'bg-amber-600 text-white' 
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+        >
+          Cellar Door
+        </button>
       </div>
 
       {/* Content based on active tab */}
@@ -147,6 +171,18 @@ const Sales: React.FC<SalesProps> = ({ onNavigateToWinepedia }) => {
         />
       )}
 
+      {activeTab === 'market' && (
+        <BottleMarketTab bottledWines={bottledWines} />
+      )}
+
+      {activeTab === 'cellarDoor' && (
+        <CellarDoorTab
+          bottledWines={bottledWines}
+          isLoading={isLoading}
+          withLoading={withLoading as any}
+        />
+      )}
+
       {/* Wine Modal */}
       <WineModal
         isOpen={wineModalOpen}
@@ -2,16 +2,21 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { BarChart3, Grape, HeartPulse } from 'lucide-react';
 import { useLoadingState, useGameState, useGameStateWithData } from '@/hooks';
-import { getAllVineyards, getGameState, getAspectRating, getAltitudeRating, getCurrentCompany, sellVineyard, calculateAdjustedLandValueBreakdown } from '@/lib/services';
+import { getAllVineyards, getGameState, getAspectRating, getAltitudeRating, getCurrentCompany, sellVineyard, calculateAdjustedLandValueBreakdown, changeVineyardFarmingMethod, getFarmingCertification, getFarmingConversionYears, getFarmingConversionYearsRemaining, getFarmingMethod, isCanopyTaskDone, getVineyardHistory, getGrapeTenureYears, getIrrigationRule, getSoilMoisture, getWaterStress, calculateIrrigationInstallCost, setVineyardIrrigationActive, calculateVineTreatmentCost, getVineDiseaseFeature, validateVineTreatment, countVineyardEstates, getEstateParcels, getParcelName, getVineyardDisplayName, getVineyardEstateId, sortVineyardsByEstate } from '@/lib/services';
 import { activitiesFeature } from '@/lib/features/activities';
 import { buildVineyardWeatherTooltip, createWeatherWeekContext, getWeatherIcon, resolveWeatherOperationImpact } from '@/lib/features/weather';
-import { Vineyard as VineyardType, WorkCategory } from '@/lib/types/types';
+import { CanopyTask, FarmingMethod, VineDisease, VineTreatment, Vineyard as VineyardType, WorkCategory } from '@/lib/types/types';
+import { FARMING_METHODS, ORGANIC_CONVERSION_YEARS } from '@/lib/constants/farmingConstants';
+import { CANOPY_ACTIVITY_TYPE, CANOPY_TASKS } from '@/lib/constants/canopyConstants';
+import { IRRIGATION_ACTIVITY_TYPE } from '@/lib/constants/irrigationConstants';
+import { VINE_DISEASES, VINE_TREATMENTS, VINE_TREATMENT_ACTIVITY_TYPE } from '@/lib/constants/vineDiseaseConstants';
+import { WEATHER_MITIGATION_ACTIVITY_TYPE } from '@/lib/constants/weatherConstants';
 import { VineyardModal, VineyardStatusBadge, WeatherOperationStatusNotice } from '../ui';
 import { WarningModal } from '@/components/ui/modals/UImodals/WarningModal';
 import { FeatureDisplay } from '../ui/components/FeatureDisplay';
 import { formatNumber, getBadgeColorClasses, getRatingForRange, getRangeColor } from '@/lib/utils/utils';
 import { getFlagIcon } from '@/lib/utils';
-import { calculateVineyardExpectedYield } from '@/lib/services';
+import { calculateVineyardExpectedYield, type ClearingActivityOptions } from '@/lib/services';
 import { UnifiedTooltip, TooltipSection, TooltipRow, tooltipStyles } from '../ui/shadCN/tooltip';
 
 // Progress bar color helpers via global utils
@@ -56,6 +61,7 @@ const buildTooltipContent = (type: string, data: any) => {
             <TooltipRow label="Normal change" value={formatSignedPercentPoints(metric.normalChange)} monospaced />
             <TooltipRow label="Weather contribution" value={formatSignedPercentPoints(metric.weatherContribution)} monospaced />
             <TooltipRow label="Projected level" value={formatPercentValue(metric.projected)} monospaced />
+            <TooltipRow label="Soil moisture" value={`${formatPercentValue(forecast.moisture.current)} → ${formatPercentValue(forecast.moisture.projected)}`} monospaced />
             <p className={tooltipStyles.muted}>{forecast.siteNote}</p>
           </TooltipSection>}
         </div>
@@ -260,10 +266,18 @@ const Vineyard: React.FC = () => {
   const [showLandResultsModal, setShowLandResultsModal] = useState(false);
   const [showVineyardModal, setShowVineyardModal] = useState(false);
   const [showClearingModal, setShowClearingModal] = useState(false);
+  const [showCanopyModal, setShowCanopyModal] = useState(false);
   const [showSellModal, setShowSellModal] = useState(false);
   const [selectedVineyard, setSelectedVineyard] = useState<VineyardType | null>(null);
   const vineyards = useGameStateWithData(getAllVineyards, []);
   const activities = useGameStateWithData(activitiesFeature.reads.getAll, []);
+  const vineyardHistory = useGameStateWithData(() => getVineyardHistory(), []);
+  const sortedVineyards = useMemo(() => sortVineyardsByEstate(vineyards), [vineyards]);
+  const selectedEstateParcels = useMemo(
+    () => selectedVineyard ? getEstateParcels(vineyards, getVineyardEstateId(selectedVineyard)) : [],
+    [vineyards, selectedVineyard]
+  );
+  const selectedEstateValue = selectedEstateParcels.reduce((sum, parcel) => sum + (parcel.vineyardTotalValue || 0), 0);
   const gameState = useGameStateWithData(() => Promise.resolve(getGameState()), { money: 0, season: 'Spring' });
   const liveGameState = useGameState();
   const currentCompany = getCurrentCompany();
@@ -285,11 +299,19 @@ const Vineyard: React.FC = () => {
     ]));
   }, [vineyards, weatherContext, currentCompany?.id]);
 
+  const grapeTenureById = useMemo(() => new Map(vineyards.map((vineyard) => [
+    vineyard.id,
+    getGrapeTenureYears(vineyard, vineyardHistory, liveGameState.currentYear ?? 2024),
+  ])), [vineyards, vineyardHistory, liveGameState.currentYear]);
+
   // Get vineyards with active activities from game state
   const vineyardsWithActiveActivities = useMemo(() => {
     const activePlantingVineyards = new Set<string>();
     const activeHarvestingVineyards = new Set<string>();
     const activeClearingVineyards = new Set<string>();
+    const activeCanopyVineyards = new Set<string>();
+    const activeIrrigationVineyards = new Set<string>();
+    const activeTreatmentVineyards = new Set<string>();
     
     activities
       .filter(activity => 
@@ -301,15 +323,24 @@ const Vineyard: React.FC = () => {
           activePlantingVineyards.add(activity.targetId!);
         } else if (activity.category === WorkCategory.HARVESTING) {
           activeHarvestingVineyards.add(activity.targetId!);
-        } else if (activity.category === WorkCategory.CLEARING) {
+        } else if (activity.category === WorkCategory.CLEARING && activity.params.type === CANOPY_ACTIVITY_TYPE) {
+          activeCanopyVineyards.add(activity.targetId!);
+        } else if (activity.category === WorkCategory.CLEARING && activity.params.type === VINE_TREATMENT_ACTIVITY_TYPE) {
+          activeTreatmentVineyards.add(activity.targetId!);
+        } else if (activity.category === WorkCategory.CLEARING && activity.params.type !== WEATHER_MITIGATION_ACTIVITY_TYPE) {
           activeClearingVineyards.add(activity.targetId!);
+        } else if (activity.category === WorkCategory.BUILDING && activity.params.type === IRRIGATION_ACTIVITY_TYPE) {
+          activeIrrigationVineyards.add(activity.targetId!);
         }
       });
     
     return { 
       planting: activePlantingVineyards,
       harvesting: activeHarvestingVineyards,
-      clearing: activeClearingVineyards
+      clearing: activeClearingVineyards,
+      canopy: activeCanopyVineyards,
+      irrigation: activeIrrigationVineyards,
+      treatment: activeTreatmentVineyards
     };
   }, [activities]);
 
@@ -327,11 +358,27 @@ const Vineyard: React.FC = () => {
     setShowVineyardModal(true);
   }, []);
 
+  const handleSplitParcel = useCallback(async (options: { name: string; hectares: number }) => {
+    if (!selectedVineyard) return;
+    await withLoading(async () => {
+      const { splitVineyardParcel } = await import('@/lib/services/vineyard/vineyardParcelManager');
+      if (await splitVineyardParcel(selectedVineyard.id, options)) {
+        setShowVineyardModal(false);
+        setSelectedVineyard(null);
+      }
+    });
+  }, [selectedVineyard, withLoading]);
+
   const handleShowClearingModal = useCallback((vineyard: VineyardType) => {
     setSelectedVineyard(vineyard);
     setShowClearingModal(true);
   }, []);
 
+  const handleShowCanopyModal = useCallback((vineyard: VineyardType) => {
+    setSelectedVineyard(vineyard);
+    setShowCanopyModal(true);
+  }, []);
+
   const handleSellVineyard = useCallback(async (vineyard: VineyardType) => {
     setSelectedVineyard(vineyard);
     setShowSellModal(true);
@@ -349,10 +396,7 @@ const Vineyard: React.FC = () => {
     });
   }, [withLoading, selectedVineyard]);
 
-  const handleClearingSubmit = useCallback(async (options: {
-    tasks: { [key: string]: boolean };
-    replantingIntensity: number;
-  }) => {
+  const handleClearingSubmit = useCallback(async (options: ClearingActivityOptions) => {
     if (!selectedVineyard) return;
     
     await withLoading(async () => {
@@ -361,7 +405,7 @@ const Vineyard: React.FC = () => {
       
       const success = await createClearingActivity(
         selectedVineyard.id,
-        selectedVineyard.name,
+        getVineyardDisplayName(selectedVineyard),
         options
       );
       
@@ -372,6 +416,177 @@ const Vineyard: React.FC = () => {
     });
   }, [selectedVineyard, withLoading]);
 
+  const handleCanopySubmit = useCallback(async (options: { task: CanopyTask; greenHarvestShare?: number }) => {
+    if (!selectedVineyard) return;
+
+    await withLoading(async () => {
+      const { createCanopyActivity } = await import('@/lib/services/vineyard/canopyManager');
+      const success = await createCanopyActivity(selectedVineyard.id, options.task, options.greenHarvestShare);
+      if (success) {
+        setShowCanopyModal(false);
+        setSelectedVineyard(null);
+      }
+    });
+  }, [selectedVineyard, withLoading]);
+
+  const handleFarmingMethodChange = useCallback(async (vineyard: VineyardType, farmingMethod: FarmingMethod) => {
+    await withLoading(async () => {
+      await changeVineyardFarmingMethod(vineyard.id, farmingMethod);
+    });
+  }, [withLoading]);
+
+  const handleInstallIrrigation = useCallback(async (vineyard: VineyardType) => {
+    await withLoading(async () => {
+      const { createIrrigationInstallActivity } = await import('@/lib/services/vineyard/irrigationManager');
+      await createIrrigationInstallActivity(vineyard.id);
+    });
+  }, [withLoading]);
+
+  const handleToggleIrrigation = useCallback(async (vineyard: VineyardType) => {
+    await withLoading(async () => {
+      await setVineyardIrrigationActive(vineyard.id, !vineyard.irrigation?.active);
+    });
+  }, [withLoading]);
+
+  const handleStartTreatment = useCallback(async (vineyard: VineyardType, treatment: VineTreatment) => {
+    await withLoading(async () => {
+      const { createVineTreatmentActivity } = await import('@/lib/services/vineyard/vineDiseaseManager');
+      await createVineTreatmentActivity(vineyard.id, treatment);
+    });
+  }, [withLoading]);
+
+  const renderParcelLabel = (vineyard: VineyardType) => {
+    const parcelCount = getEstateParcels(vineyards, getVineyardEstateId(vineyard)).length;
+    if (parcelCount <= 1) return null;
+    return (
+      <div className="text-xs text-gray-500" title={`${parcelCount} parcels share this estate's land`}>
+        {vineyard.estateId ? '↳ ' : ''}Parcel: {getParcelName(vineyard)}
+      </div>
+    );
+  };
+
+  const renderDiseaseState = (vineyard: VineyardType) => {
+    if (!vineyard.grape) return <span className="text-xs text-gray-500">No vines</span>;
+    const date = { season: liveGameState.season ?? 'Spring', year: liveGameState.currentYear ?? 2024 };
+    const diseases = (Object.keys(VINE_DISEASES) as VineDisease[])
+      .map((disease) => ({ disease, feature: getVineDiseaseFeature(vineyard, disease) }));
+    const present = diseases.filter(({ feature }) => feature?.isPresent);
+    const highestRisk = Math.max(0, ...diseases.map(({ feature }) => feature?.risk ?? 0));
+    const treating = vineyardsWithActiveActivities.treatment.has(vineyard.id);
+    const treatments = (Object.keys(VINE_TREATMENTS) as VineTreatment[])
+      .filter((treatment) => validateVineTreatment(vineyard, treatment, date).valid);
+    return (
+      <div className="flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+        {present.length > 0 ? present.map(({ disease, feature }) => (
+          <span key={disease} className="px-1 py-0.5 rounded text-xs bg-red-100 text-red-800" title={`${VINE_DISEASES[disease].label} is spreading: it costs health and part of this season's crop`}>
+            {VINE_DISEASES[disease].label} {formatNumber((feature?.severity ?? 0) * 100, { decimals: 0 })}%
+          </span>
+        )) : (
+          <span className="text-xs text-gray-700" title="Highest disease and pest risk this season">
+            {formatNumber(highestRisk * 100, { decimals: 0 })}% risk
+          </span>
+        )}
+        {treating ? (
+          <span className="text-xs text-gray-500">Treating...</span>
+        ) : treatments.map((treatment) => (
+          <button
+            key={treatment}
+            type="button"
+            onClick={() => { void handleStartTreatment(vineyard, treatment); }}
+            className="px-1 py-0.5 rounded text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+            title={`${VINE_TREATMENTS[treatment].description}. €${formatNumber(calculateVineTreatmentCost(vineyard, treatment))}, paid on completion`}
+          >
+            {VINE_TREATMENTS[treatment].label}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderWaterState = (vineyard: VineyardType) => {
+    const moisture = getSoilMoisture(vineyard);
+    const stressed = getWaterStress(moisture) > 0;
+    const rule = getIrrigationRule(vineyard.country, vineyard.region);
+    const installing = vineyardsWithActiveActivities.irrigation.has(vineyard.id);
+    return (
+      <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+        <span className={`text-xs ${stressed ? 'text-red-700' : 'text-gray-700'}`} title="Soil moisture">
+          {formatNumber(moisture * 100, { decimals: 0 })}%{stressed ? ' (stressed)' : ''}
+        </span>
+        {vineyard.irrigation ? (
+          <button
+            type="button"
+            onClick={() => { void handleToggleIrrigation(vineyard); }}
+            className={`px-1 py-0.5 rounded text-xs ${vineyard.irrigation.active ? 'bg-sky-100 text-sky-800' : 'bg-gray-100 text-gray-600'}`}
+            title={vineyard.irrigation.active ? 'Irrigation waters dry growing-season weeks. Click to switch off.' : 'Irrigation is off. Click to switch on.'}
+          >
+            {vineyard.irrigation.active ? 'Irrigation on' : 'Irrigation off'}
+          </button>
+        ) : (
+          <button
+            type="button"
+            disabled={!rule.allowed || installing}
+            onClick={() => { void handleInstallIrrigation(vineyard); }}
+            className="px-1 py-0.5 rounded text-xs bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={rule.allowed ? `Install irrigation for €${formatNumber(calculateIrrigationInstallCost(vineyard))}, paid on completion` : rule.reason}
+          >
+            {installing ? 'Installing...' : rule.allowed ? 'Install irrigation' : 'No irrigation'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderFarmingMethod = (vineyard: VineyardType) => {
+    const method = getFarmingMethod(vineyard);
+    const certification = getFarmingCertification(vineyard);
+    const yearsRemaining = getFarmingConversionYearsRemaining(vineyard);
+    const info = FARMING_METHODS[method];
+    return (
+      <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+        <select
+          value={method}
+          onChange={(e) => { void handleFarmingMethodChange(vineyard, e.target.value as FarmingMethod); }}
+          className="rounded border border-gray-300 bg-white px-1 py-0.5 text-xs"
+          title="Farming method"
+        >
+          {(Object.keys(FARMING_METHODS) as FarmingMethod[]).map((option) => (
+            <option key={option} value={option}>{FARMING_METHODS[option].label}</option>
+          ))}
+        </select>
+        {method !== 'conventional' && (
+          <UnifiedTooltip
+            content={
+              <div className={tooltipStyles.text}>
+                <TooltipSection>
+                  <p className={tooltipStyles.title}>{info.label} Farming</p>
+                  <p className={tooltipStyles.muted}>{info.description}</p>
+                </TooltipSection>
+                <TooltipSection>
+                  <TooltipRow label="Conversion" value={`${Math.min(getFarmingConversionYears(vineyard), ORGANIC_CONVERSION_YEARS)} / ${ORGANIC_CONVERSION_YEARS} years`} monospaced={true} />
+                  <TooltipRow label="Yield" value={`×${formatNumber(info.yieldMultiplier, { decimals: 2, forceDecimals: true })}`} monospaced={true} />
+                  <TooltipRow label="Health decay" value={`×${formatNumber(info.healthDecayMultiplier, { decimals: 2, forceDecimals: true })}`} monospaced={true} />
+                  <TooltipRow label="Land value (certified)" value={`+${formatNumber(info.landValueBonus * 100, { smartDecimals: true })}%`} monospaced={true} />
+                  <TooltipRow label="Prestige (certified)" value={`×${formatNumber(info.prestigeMultiplier, { decimals: 2, forceDecimals: true })}`} monospaced={true} />
+                </TooltipSection>
+              </div>
+            }
+            title="Farming Certification"
+            side="top"
+            className="max-w-sm"
+            variant="panel"
+            density="compact"
+            triggerClassName="inline-block cursor-help"
+          >
+            <span className={`px-1 py-0.5 rounded text-xs cursor-help ${certification ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
+              {certification ? 'Certified' : `Converting (${yearsRemaining}y left)`}
+            </span>
+          </UnifiedTooltip>
+        )}
+      </div>
+    );
+  };
+
   const renderActionButton = (
     {
       label,
@@ -380,7 +595,7 @@ const Vineyard: React.FC = () => {
       primary,
       title,
       fullWidth
-    }: { label: string; disabled?: boolean; onClick: (e: React.MouseEvent) => void; primary: 'plant' | 'harvest' | 'clear'; title?: string; fullWidth?: boolean }
+    }: { label: string; disabled?: boolean; onClick: (e: React.MouseEvent) => void; primary: 'plant' | 'harvest' | 'clear' | 'canopy'; title?: string; fullWidth?: boolean }
   ) => {
     const base = `${fullWidth ? 'w-full' : ''} px-2 py-1 rounded text-xs font-medium`;
     const classes = disabled
@@ -389,7 +604,9 @@ const Vineyard: React.FC = () => {
         ? 'bg-green-600 hover:bg-green-700 text-white'
         : primary === 'harvest'
           ? 'bg-purple-600 hover:bg-purple-700 text-white'
-          : 'bg-orange-600 hover:bg-orange-700 text-white';
+          : primary === 'canopy'
+            ? 'bg-teal-600 hover:bg-teal-700 text-white'
+            : 'bg-orange-600 hover:bg-orange-700 text-white';
     
     const button = (
       <button onClick={onClick} disabled={disabled} className={`${base} ${classes}`}>
@@ -415,6 +632,21 @@ const Vineyard: React.FC = () => {
     return button;
   };
 
+  const renderCanopyButton = (vineyard: VineyardType) => {
+    const hasActiveCanopy = vineyardsWithActiveActivities.canopy.has(vineyard.id);
+    const done = (Object.keys(CANOPY_TASKS) as CanopyTask[]).filter((task) => isCanopyTaskDone(vineyard.canopyWork, task));
+    return renderActionButton({
+      label: hasActiveCanopy ? 'Canopy work...' : 'Canopy',
+      disabled: hasActiveCanopy,
+      primary: 'canopy',
+      fullWidth: true,
+      title: hasActiveCanopy
+        ? 'Canopy work in progress...'
+        : `Leaf removal, shoot thinning or green harvest${done.length > 0 ? `. Done this season: ${done.map((task) => CANOPY_TASKS[task].label).join(', ')}` : ''}`,
+      onClick: (e) => { e.stopPropagation(); handleShowCanopyModal(vineyard); }
+    });
+  };
+
   const getActionButtons = useCallback((vineyard: VineyardType) => {
     // Barren / No grape
     if (!vineyard.grape) {
@@ -510,6 +742,7 @@ const Vineyard: React.FC = () => {
             title: hasActiveClearingGrowing ? 'Clearing in progress...' : 'Clear vegetation and debris to improve vineyard health',
             onClick: (e) => { e.stopPropagation(); handleShowClearingModal(vineyard); }
           })}
+          {renderCanopyButton(vineyard)}
           </div>
         );
       }
@@ -564,6 +797,7 @@ const Vineyard: React.FC = () => {
             title: hasActiveClearingGrowing ? 'Clearing in progress...' : 'Clear vegetation and debris to improve vineyard health',
             onClick: (e) => { e.stopPropagation(); handleShowClearingModal(vineyard); }
           })}
+          {renderCanopyButton(vineyard)}
           </div>
         );
     }
@@ -644,7 +878,7 @@ const Vineyard: React.FC = () => {
       {/* Summary Statistics - Desktop/Tablet (hidden on mobile) */}
       <div className="hidden lg:grid grid-cols-1 md:grid-cols-4 gap-3">
         <div className="bg-white p-3 rounded-lg shadow">
-          <div className="text-base font-bold text-gray-900">{vineyards.length}</div>
+          <div className="text-base font-bold text-gray-900">{countVineyardEstates(vineyards)}</div>
           <div className="text-xs text-gray-500">Total Vineyards</div>
         </div>
         <div className="bg-white p-3 rounded-lg shadow">
@@ -664,7 +898,7 @@ const Vineyard: React.FC = () => {
       {/* Summary Statistics - Mobile (shown below image) */}
       <div className="lg:hidden grid grid-cols-2 gap-3">
         <div className="bg-white p-3 rounded-lg shadow">
-          <div className="text-base font-bold text-gray-900">{vineyards.length}</div>
+          <div className="text-base font-bold text-gray-900">{countVineyardEstates(vineyards)}</div>
           <div className="text-xs text-gray-500">Total Vineyards</div>
         </div>
         <div className="bg-white p-3 rounded-lg shadow">
@@ -702,11 +936,12 @@ const Vineyard: React.FC = () => {
                   </td>
                 </tr>
               ) : (
-                vineyards.map((vineyard) => (
+                sortedVineyards.map((vineyard) => (
                   <tr key={vineyard.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => handleRowClick(vineyard)}>
                     {/* Vineyard & Location */}
                     <td className="px-4 py-4">
                       <div className="text-sm font-medium text-gray-900">{vineyard.name}</div>
+                      {renderParcelLabel(vineyard)}
                       <div className="text-sm text-gray-500">
                         {vineyard.grape ? (
                           <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
@@ -741,7 +976,7 @@ const Vineyard: React.FC = () => {
                           <div className="mt-0.5">
                             <span className="font-medium">Value:</span>
                           {(() => {
-                            const b = calculateAdjustedLandValueBreakdown(vineyard);
+                            const b = calculateAdjustedLandValueBreakdown(vineyard, grapeTenureById.get(vineyard.id) ?? 0);
                             return (
                               <UnifiedTooltip
                                 content={
@@ -774,6 +1009,12 @@ const Vineyard: React.FC = () => {
                                       )}
                                       <TooltipRow label="Vine age×prestige" value={`+${formatNumber(b.ageBonusPct * 100, { smartDecimals: true })}%`} monospaced={true} />
                                       <TooltipRow label="Prestige" value={`+${formatNumber(b.prestigeBonusPct * 100, { smartDecimals: true })}%`} monospaced={true} />
+                                      {b.farmingBonusPct > 0 && (
+                                        <TooltipRow label="Certified farming" value={`+${formatNumber(b.farmingBonusPct * 100, { smartDecimals: true })}%`} monospaced={true} />
+                                      )}
+                                      {b.tenureBonusPct > 0 && (
+                                        <TooltipRow label={`Grape tenure (${grapeTenureById.get(vineyard.id) ?? 0} yrs)`} value={`+${formatNumber(b.tenureBonusPct * 100, { smartDecimals: true })}%`} monospaced={true} />
+                                      )}
                                       <TooltipRow label="Total multiplier" value={`×${formatNumber(b.totalMultiplier, { decimals: 3, forceDecimals: true })}`} monospaced={true} />
                                       <TooltipRow label="Adjusted (per ha)" value={`${formatNumber(b.adjustedPerHa, { currency: true, decimals: 0 })}`} monospaced={true} />
                                       <TooltipRow label="Projected Total" value={`${formatNumber(b.adjustedTotal, { currency: true, decimals: 0 })}`} monospaced={true} />
@@ -847,6 +1088,18 @@ const Vineyard: React.FC = () => {
                             );
                           })()}
                         </div>
+                        <div className="flex items-center">
+                          <span className="font-medium mr-1">Farming:</span>
+                          {renderFarmingMethod(vineyard)}
+                        </div>
+                        <div className="flex items-center">
+                          <span className="font-medium mr-1">Water:</span>
+                          {renderWaterState(vineyard)}
+                        </div>
+                        <div className="flex items-center">
+                          <span className="font-medium mr-1">Disease:</span>
+                          {renderDiseaseState(vineyard)}
+                        </div>
                       </div>
                     </td>
 
@@ -1042,13 +1295,14 @@ const Vineyard: React.FC = () => {
             No vineyards yet. Create your first vineyard to get started!
           </div>
         ) : (
-          vineyards.map((vineyard) => (
+          sortedVineyards.map((vineyard) => (
             <div key={vineyard.id} className="bg-white rounded-lg shadow overflow-hidden cursor-pointer" onClick={() => handleRowClick(vineyard)}>
               {/* Card Header */}
               <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 border-b">
                 <div className="flex justify-between items-start mb-2">
                   <div className="flex-1">
                     <h3 className="text-lg font-bold text-gray-900">{vineyard.name}</h3>
+                    {renderParcelLabel(vineyard)}
                     <div className="text-sm text-gray-600 mt-1">
                       {vineyard.grape ? (
                         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
@@ -1144,6 +1398,18 @@ const Vineyard: React.FC = () => {
                             })()}
                           </div>
                         </div>
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-gray-600">Farming:</span>
+                          {renderFarmingMethod(vineyard)}
+                        </div>
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-gray-600">Water:</span>
+                          {renderWaterState(vineyard)}
+                        </div>
+                        <div className="flex justify-between items-center text-sm">
+                          <span className="text-gray-600">Disease:</span>
+                          {renderDiseaseState(vineyard)}
+                        </div>
                       </div>
                     </div>
 
@@ -1362,6 +1628,10 @@ const Vineyard: React.FC = () => {
         isOpen={showVineyardModal}
         onClose={() => setShowVineyardModal(false)}
         vineyard={selectedVineyard}
+        parcels={selectedEstateParcels}
+        onSplitParcel={handleSplitParcel}
+        history={selectedVineyard ? vineyardHistory.filter((event) => event.vineyardId === selectedVineyard.id) : []}
+        grapeTenureYears={selectedVineyard ? grapeTenureById.get(selectedVineyard.id) ?? 0 : 0}
       />
 
       {activitiesFeature.ui.renderClearingOptions({
@@ -1373,14 +1643,23 @@ const Vineyard: React.FC = () => {
         },
         onSubmit: handleClearingSubmit,
       })}
+      {activitiesFeature.ui.renderCanopyOptions({
+        isOpen: showCanopyModal,
+        vineyard: selectedVineyard,
+        onClose: () => {
+          setShowCanopyModal(false);
+          setSelectedVineyard(null);
+        },
+        onSubmit: handleCanopySubmit,
+      })}
       {showSellModal && selectedVineyard && (
         <WarningModal
           isOpen={showSellModal}
           onClose={() => setShowSellModal(false)}
           severity={'warning'}
           title={'Confirm Vineyard Sale'}
-          message={`Are you sure you want to sell "${selectedVineyard.name}"? This action cannot be undone.`}
-          details={`You will receive 90% of its current value after a 10% fee.\n\nEstimated proceeds: ${formatNumber((selectedVineyard.vineyardTotalValue || 0) * 0.9, { currency: true })}\nCurrent value: ${formatNumber(selectedVineyard.vineyardTotalValue || 0, { currency: true })}`}
+          message={`Are you sure you want to sell "${selectedVineyard.name}"${selectedEstateParcels.length > 1 ? ` and all ${selectedEstateParcels.length} of its parcels` : ''}? This action cannot be undone.`}
+          details={`You will receive 90% of its current value after a 10% fee.\n\nEstimated proceeds: ${formatNumber(selectedEstateValue * 0.9, { currency: true })}\nCurrent value: ${formatNumber(selectedEstateValue, { currency: true })}`}
           actions={[
             { label: 'Cancel', onClick: () => {}, variant: 'outline' },
             { label: 'Sell Vineyard', onClick: () => { confirmSellVineyard(); }, variant: 'destructive' }
@@ -1,8 +1,11 @@
-import { useMemo, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Table, TableBody, TableCell, TableHead, TableHeader, TableRow, VineyardStatusBadge } from '@/components/ui';
-import { useGameState, useGameStateWithData } from '@/hooks';
+import { useGameState, useGameStateWithData, useLoadingState } from '@/hooks';
 import { getAllVineyards, getCurrentCompany } from '@/lib/services';
+import { activitiesFeature } from '@/lib/features/activities';
 import { buildWeatherCenterPresentation, createWeatherWeekContext } from '@/lib/features/weather';
+import { WEATHER_MITIGATION_ACTIVITY_TYPE } from '@/lib/constants/weatherConstants';
+import { WeatherMitigation } from '@/lib/types/types';
 import { formatNumber, formatSigned } from '@/lib/utils';
 
 const WEATHER_CENTER_HERO_IMAGE_URL = 'https://images.unsplash.com/photo-1416879595882-3373a0480b5b?w=1400&h=500&fit=crop';
@@ -25,10 +28,22 @@ export function WeatherCenterPage() {
   const gameState = useGameState();
   const vineyards = useGameStateWithData(getAllVineyards, []);
   const company = getCurrentCompany();
+  const activities = useGameStateWithData(activitiesFeature.reads.getAll, []);
+  const { withLoading } = useLoadingState();
   const [expandedVineyardId, setExpandedVineyardId] = useState<string | null>(null);
   const presentation = useMemo(() => company?.id
     ? buildWeatherCenterPresentation({ companyId: company.id, weather: createWeatherWeekContext(gameState), vineyards })
     : null, [company?.id, gameState, vineyards]);
+  const mitigatingVineyardIds = useMemo(() => new Set(activities
+    .filter((activity) => activity.status === 'active' && activity.targetId && activity.params.type === WEATHER_MITIGATION_ACTIVITY_TYPE)
+    .map((activity) => activity.targetId!)), [activities]);
+
+  const handleScheduleMitigation = useCallback(async (vineyardId: string, mitigation: WeatherMitigation) => {
+    await withLoading(async () => {
+      const { createWeatherMitigationActivity } = await import('@/lib/services/vineyard/severeWeatherManager');
+      await createWeatherMitigationActivity(vineyardId, mitigation);
+    });
+  }, [withLoading]);
 
   if (!presentation) {
     return <div className="p-6 text-sm text-slate-500">Choose a company to view weather.</div>;
@@ -61,6 +76,58 @@ export function WeatherCenterPage() {
         ))}
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Severe Weather</CardTitle>
+          <CardDescription>{presentation.severeWeather.current ?? 'No severe weather this week.'}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {presentation.severeWeather.warning ? (
+            <div className="space-y-2">
+              <p className="font-medium text-amber-800">{presentation.severeWeather.warning.detail}</p>
+              <ul className="list-disc space-y-1 pl-5 text-slate-600">
+                {presentation.severeWeather.warning.mitigations.map((option) => (
+                  <li key={option.mitigation}>{option.label}: {option.description} €{formatNumber(option.costPerHectare)}/ha, {Math.round(option.successChance * 100)}% chance to avoid {Math.round(option.damageReduction * 100)}% of the damage.</li>
+                ))}
+              </ul>
+              {presentation.severeWeather.warning.vineyards.length === 0 ? <p className="text-slate-500">No growing vineyards to protect.</p> : (
+                <div className="flex flex-wrap gap-2">
+                  {presentation.severeWeather.warning.vineyards.map((vineyard) => (
+                    <div key={vineyard.id} className="flex items-center gap-2 rounded border px-2 py-1">
+                      <span className="font-medium">{vineyard.name}</span>
+                      {vineyard.protectedBy ? <span className="text-xs text-emerald-700">{vineyard.protectedBy} ready</span>
+                        : mitigatingVineyardIds.has(vineyard.id) ? <span className="text-xs text-sky-700">Setting up...</span>
+                        : presentation.severeWeather.warning!.mitigations.map((option) => (
+                          <button key={option.mitigation} type="button" className="rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-900 hover:bg-amber-200" onClick={() => { void handleScheduleMitigation(vineyard.id, option.mitigation); }}>
+                            Schedule {option.label.toLowerCase()}
+                          </button>
+                        ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : <p className="text-slate-500">The forecast does not warn of severe weather next week.</p>}
+          {presentation.severeWeather.damage.length > 0 && (
+            <Table>
+              <TableHeader><TableRow><TableHead>Vineyard</TableHead><TableHead>Date</TableHead><TableHead>Event</TableHead><TableHead>Crop lost</TableHead><TableHead>Health lost</TableHead><TableHead>Mitigation</TableHead></TableRow></TableHeader>
+              <TableBody>
+                {presentation.severeWeather.damage.map((record, index) => (
+                  <TableRow key={`${record.vineyardId}-${index}`}>
+                    <TableCell className="font-medium">{record.vineyardName}</TableCell>
+                    <TableCell>{record.date}</TableCell>
+                    <TableCell>{record.event}</TableCell>
+                    <TableCell className="text-red-700">{percent(record.yieldLoss)}</TableCell>
+                    <TableCell className="text-red-700">{percent(record.healthLoss)}</TableCell>
+                    <TableCell className="text-slate-600">{record.mitigation ?? 'None'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Vineyard Weather Impact Preview</CardTitle>
@@ -68,14 +135,15 @@ export function WeatherCenterPage() {
         </CardHeader>
         <CardContent className="overflow-x-auto">
           <Table>
-            <TableHeader><TableRow><TableHead>Vineyard</TableHead><TableHead>Status</TableHead><TableHead>Ripeness</TableHead><TableHead>Health</TableHead><TableHead>Site note</TableHead></TableRow></TableHeader>
+            <TableHeader><TableRow><TableHead>Vineyard</TableHead><TableHead>Status</TableHead><TableHead>Ripeness</TableHead><TableHead>Health</TableHead><TableHead>Soil moisture</TableHead><TableHead>Site note</TableHead></TableRow></TableHeader>
             <TableBody>
-              {presentation.rows.length === 0 ? <TableRow><TableCell colSpan={5} className="py-8 text-center text-slate-500">No planted vineyards available for weather preview.</TableCell></TableRow> : presentation.rows.map((row) => (
+              {presentation.rows.length === 0 ? <TableRow><TableCell colSpan={6} className="py-8 text-center text-slate-500">No planted vineyards available for weather preview.</TableCell></TableRow> : presentation.rows.map((row) => (
                 <TableRow key={row.id}>
                   <TableCell className="font-medium">{row.name}</TableCell>
                   <TableCell><VineyardStatusBadge status={row.status as any} /></TableCell>
                   <TableCell><div>{percent(row.ripeness.current)} → {percent(row.ripeness.projected)}</div><div className={`text-xs ${deltaClass(row.ripeness.weatherContribution)}`}>Weather {signedPercent(row.ripeness.weatherContribution)}</div></TableCell>
                   <TableCell><div>{percent(row.health.current)} → {percent(row.health.projected)}</div><div className={`text-xs ${deltaClass(row.health.weatherContribution)}`}>Weather {signedPercent(row.health.weatherContribution)}</div></TableCell>
+                  <TableCell><div className={row.moisture.stressed ? 'text-red-700' : undefined}>{percent(row.moisture.current)} → {percent(row.moisture.projected)}</div><div className={`text-xs ${deltaClass(row.moisture.weatherChange)}`}>Weather {signedPercent(row.moisture.weatherChange)}</div>{row.moisture.irrigation > 0 && <div className="text-xs text-sky-700">Irrigation {signedPercent(row.moisture.irrigation)}</div>}{row.moisture.stressed && <div className="text-xs text-red-700">Water stress</div>}</TableCell>
                   <TableCell className="text-sm text-slate-600"><p className="font-medium text-slate-700">{row.siteSummary}</p><p className="mt-1">{row.siteNote}</p><button type="button" className="mt-1 text-left underline decoration-dotted underline-offset-2" onClick={() => setExpandedVineyardId(expandedVineyardId === row.id ? null : row.id)}>{expandedVineyardId === row.id ? 'Hide explanation' : 'Why this forecast?'}</button>{expandedVineyardId === row.id && <p className="mt-1">{row.explanation}</p>}</TableCell>
                 </TableRow>
               ))}
@@ -18,6 +18,7 @@ import {
   WineAnchorsTab
 } from '@/components/pages/winepedia/index';
 import { loanLenderFeature } from '@/lib/features/loanLender';
+import { wineLogFeature } from '@/lib/features/wineLog';
 import { Button, Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui';
 
 interface WinepediaTab {
@@ -33,6 +34,7 @@ interface WinepediaProps extends PageProps {
 export default function Winepedia({ view }: WinepediaProps) {
   const [activeTab, setActiveTab] = useState(view === 'customers' ? 'customers' : 'grapeVarieties');
   const loanLenderTabs = useMemo(() => loanLenderFeature.ui.getWinepediaTabs(), []);
+  const wineLogTabs = useMemo(() => wineLogFeature.ui.getWinepediaTabs(), []);
   const tabs = useMemo<WinepediaTab[]>(() => {
     const baseTabs: WinepediaTab[] = [
       { id: 'grapeVarieties', label: 'Grape Variety', component: GrapeVarietiesTab },
@@ -50,11 +52,12 @@ export default function Winepedia({ view }: WinepediaProps) {
       { id: 'grapeBuyers', label: 'Grape Buyers', component: GrapeBuyersTab },
       { id: 'economy', label: 'Economy', component: EconomyTab },
       { id: 'weather', label: 'Weather', component: WeatherTab },
-      ...loanLenderTabs.map((tab) => ({ id: tab.id, label: tab.label, component: tab.component }))
+      ...loanLenderTabs.map((tab) => ({ id: tab.id, label: tab.label, component: tab.component })),
+      ...wineLogTabs.map((tab) => ({ id: tab.id, label: tab.label, component: tab.component }))
     ];
 
     return baseTabs.sort((a, b) => a.label.localeCompare(b.label));
-  }, [loanLenderTabs]);
+  }, [loanLenderTabs, wineLogTabs]);
 
   useEffect(() => {
     if (view === 'customers') {
@@ -1,17 +1,21 @@
 
 import React, { useMemo, useCallback, useState } from 'react';
 import { useLoadingState, useGameStateWithData, useWineBatchStructureIndex, useFormattedStructureIndex, useStructureIndexQuality } from '@/hooks';
-import { getAllWineBatches, getOwnedStorageVessels, bottleWine, isActionAvailable, getStorageVesselDisplayName, getWineBatchDisplayName, isBatchEmptyingInProgress } from '@/lib/services';
+import { getAllWineBatches, getOwnedStorageVessels, isActionAvailable, getStorageVesselDisplayName, getWineBatchDisplayName, isBatchEmptyingInProgress, isBatchBlendingInProgress, isBatchCellarOperationInProgress, getBlendCandidates, getMaturationVesselProfiles, getWeeklyMaturationProfile, startMaturation, isBatchSparklingInProgress, startSparklingActivity, stopFermentationEarly, calculateFortificationCost, isBatchSplitAvailable, notificationService } from '@/lib/services';
 import { activitiesFeature } from '@/lib/features/activities';
 import type { StorageVessel } from '@/lib/types/storageVessels';
-import { WineBatch } from '@/lib/types/types';
-import { Button, BuyMarketModal, WineModal, SellGrapesModal } from '../ui';
+import { NotificationCategory, WineBatch } from '@/lib/types/types';
+import { Button, BuyMarketModal, WineModal, SellGrapesModal, BottlingOptionsModal, SplitBatchModal } from '../ui';
 import { FeatureDisplay } from '../ui/components/FeatureDisplay';
 import { UnifiedTooltip, tooltipStyles, TooltipSection } from '../ui/shadCN/tooltip';
 import { getQualityCategory, getColorClass, getCharacteristicDisplayName, formatNumber, getCharacteristicEffectColorInfo, getCharacteristicEffectColorClass } from '@/lib/utils/utils';
 import { BASE_BALANCED_RANGES } from '@/lib/constants/grapeConstants';
 import { isFermentationActionAvailable } from '@/lib/services/wine/winery/fermentationManager';
-import { getCombinedFermentationEffects } from '@/lib/services/wine/characteristics/fermentationCharacteristics';
+import { getCombinedFermentationEffects, getFermentationDecisionInfo, getSelectedFermentationDecisions } from '@/lib/services/wine/characteristics/fermentationCharacteristics';
+import { getMaturationMaterialLabel, getWeeklyMaturationEffects, type MaturationVesselProfile } from '@/lib/services/wine/characteristics/maturationCharacteristics';
+import { getWeeklyTirageEffects } from '@/lib/services/wine/characteristics/sparklingCharacteristics';
+import { SPARKLING_MIN_TIRAGE_WEEKS } from '@/lib/constants/sparklingConstants';
+import { CELLAR_OPERATIONS } from '@/lib/constants/cellarOperationConstants';
 import { resolveWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
 import { CharacteristicIcon } from '@/lib/utils/icons';
 import { getTasteQualityIndex } from '@/lib/services/wine/winescore/wineScoreCalculation';
@@ -48,6 +52,8 @@ const FermentationStatusBadge: React.FC<{ batch: WineBatch }> = ({ batch }) => {
   
   const method = batch.fermentationOptions?.method || 'Basic';
   const temperature = batch.fermentationOptions?.temperature || 'Ambient';
+  const decisionInfo = getFermentationDecisionInfo();
+  const decisions = batch.fermentationOptions ? getSelectedFermentationDecisions(batch.fermentationOptions) : [];
   
   return (
     <div className="mt-2">
@@ -55,20 +61,17 @@ const FermentationStatusBadge: React.FC<{ batch: WineBatch }> = ({ batch }) => {
         <span className="w-2 h-2 bg-purple-600 rounded-full mr-2 animate-pulse"></span>
         Fermenting ({method}, {temperature})
       </div>
+      {decisions.length > 0 && (
+        <div className="text-xs text-gray-600 mt-1">
+          {decisions.map(decision => decisionInfo[decision].label).join(' • ')}
+        </div>
+      )}
     </div>
   );
 };
 
-// Component for displaying expected fermentation effects
-const FermentationEffectsDisplay: React.FC<{ batch: WineBatch }> = ({ batch }) => {
-  if (batch.state !== 'must_fermenting' || !batch.fermentationOptions) return null;
-  
-  const method = batch.fermentationOptions.method;
-  const temperature = batch.fermentationOptions.temperature;
-  
-  // Get combined effects for this fermentation setup
-  const effects = getCombinedFermentationEffects(method, temperature, resolveWineAnchors(batch.wineAnchors));
-  
+// Component for displaying expected weekly characteristic effects
+const WeeklyEffectsDisplay: React.FC<{ batch: WineBatch; effects: Array<{ characteristic: keyof WineBatch['characteristics']; modifier: number }> }> = ({ batch, effects }) => {
   if (effects.length === 0) return null;
   
   return (
@@ -84,7 +87,7 @@ const FermentationEffectsDisplay: React.FC<{ batch: WineBatch }> = ({ batch }) =
             </div>
           );
           
-          // Use ideal-range-aware color coding for fermentation effects
+          // Use ideal-range-aware color coding for weekly effects
           const currentValue = batch.characteristics[effect.characteristic] || 0;
           const balancedRange = BASE_BALANCED_RANGES[effect.characteristic];
           const balancedRangeCopy: [number, number] = [balancedRange[0], balancedRange[1]];
@@ -123,11 +126,75 @@ const FermentationEffectsDisplay: React.FC<{ batch: WineBatch }> = ({ batch }) =
   );
 };
 
+// Component for displaying expected fermentation effects
+const FermentationEffectsDisplay: React.FC<{ batch: WineBatch }> = ({ batch }) => {
+  if (batch.state !== 'must_fermenting' || !batch.fermentationOptions) return null;
+  
+  const method = batch.fermentationOptions.method;
+  const temperature = batch.fermentationOptions.temperature;
+  
+  // Get combined effects for this fermentation setup
+  const effects = getCombinedFermentationEffects(
+    method,
+    temperature,
+    resolveWineAnchors(batch.wineAnchors),
+    getSelectedFermentationDecisions(batch.fermentationOptions)
+  );
+  
+  return <WeeklyEffectsDisplay batch={batch} effects={effects} />;
+};
+
+// Component for vessel maturation status and its expected weekly effects
+const MaturationDisplay: React.FC<{ batch: WineBatch; profile?: MaturationVesselProfile }> = ({ batch, profile }) => {
+  if (batch.state !== 'maturing') return null;
+  
+  const materials = profile?.materials.map(getMaturationMaterialLabel).join(', ') || 'Unknown vessels';
+  const weeklyProfile = profile ? getWeeklyMaturationProfile(batch, profile) : undefined;
+  const effects = weeklyProfile ? getWeeklyMaturationEffects(weeklyProfile, batch.characteristics, resolveWineAnchors(batch.wineAnchors)) : [];
+  
+  return (
+    <div className="mt-2">
+      <div className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+        <span className="w-2 h-2 bg-amber-600 rounded-full mr-2"></span>
+        Maturing {batch.maturationWeeks || 0} weeks ({materials})
+      </div>
+      {profile && (
+        <div className="text-xs text-gray-600 mt-1">
+          Wood influence: {formatNumber(profile.woodInfluence * 100, { decimals: 0 })}% • Oxygen exchange: {formatNumber(profile.oxygenExchange * 100, { decimals: 0 })}%
+          {weeklyProfile?.imprint && <> • Vessel memory: {formatNumber(weeklyProfile.imprint.release * 100, { decimals: 0 })}%</>}
+        </div>
+      )}
+      <WeeklyEffectsDisplay batch={batch} effects={effects} />
+    </div>
+  );
+};
+
+// Component for Traditional Method sparkling status (en tirage or riddled) and its expected weekly effects
+const SparklingDisplay: React.FC<{ batch: WineBatch }> = ({ batch }) => {
+  if (batch.state !== 'tirage' && batch.state !== 'riddled') return null;
+
+  const tirageWeeks = batch.tirageWeeks || 0;
+  const effects = batch.state === 'tirage' ? getWeeklyTirageEffects(tirageWeeks, resolveWineAnchors(batch.wineAnchors)) : [];
+
+  return (
+    <div className="mt-2">
+      <div className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+        <span className="w-2 h-2 bg-yellow-600 rounded-full mr-2"></span>
+        {batch.state === 'tirage' ? `En tirage ${tirageWeeks} weeks` : `Riddled after ${tirageWeeks} weeks on lees`}
+      </div>
+      {batch.state === 'tirage' && tirageWeeks < SPARKLING_MIN_TIRAGE_WEEKS && (
+        <div className="text-xs text-gray-600 mt-1">Riddling possible after {SPARKLING_MIN_TIRAGE_WEEKS} weeks on the lees</div>
+      )}
+      <WeeklyEffectsDisplay batch={batch} effects={effects} />
+    </div>
+  );
+};
 
 const Winery: React.FC = () => {
   const { withLoading } = useLoadingState();
   const wineBatches = useGameStateWithData(getAllWineBatches, [] as WineBatch[]);
   const vessels = useGameStateWithData(getOwnedStorageVessels, [] as StorageVessel[], { topic: 'storage_vessels' });
+  const maturationProfiles = useGameStateWithData(getMaturationVesselProfiles, {} as Record<string, MaturationVesselProfile>, { topic: 'storage_vessels' });
   useGameStateWithData(activitiesFeature.reads.getAll, [], { topic: 'activities' });
   const [isBuyMarketOpen, setIsBuyMarketOpen] = useState(false);
   
@@ -137,6 +204,11 @@ const Winery: React.FC = () => {
     fermentation: null as WineBatch | null,
     wine: null as WineBatch | null,
     sellGrapes: null as WineBatch | null,
+    blending: null as WineBatch | null,
+    disgorgement: null as WineBatch | null,
+    cellarOperation: null as WineBatch | null,
+    bottling: null as WineBatch | null,
+    split: null as WineBatch | null,
   });
 
   // Generic modal handlers
@@ -149,13 +221,34 @@ const Winery: React.FC = () => {
     setModals(prev => ({ ...prev, [type]: null }));
   }, []);
 
-  const handleAction = useCallback((batchId: string, action: 'bottle') => withLoading(async () => {
+  const handleAction = useCallback((batchId: string, action: 'mature' | 'arrest' | 'fortify' | 'tirage' | 'riddling') => withLoading(async () => {
     switch (action) {
-      case 'bottle':
-        await bottleWine(batchId);
+      case 'mature': {
+        const result = await startMaturation(batchId);
+        if (!result.success) {
+          await notificationService.addMessage(result.error || 'Failed to start maturation', 'winery.handleAction', 'Maturation Error', NotificationCategory.SYSTEM);
+        }
+        break;
+      }
+      case 'arrest':
+      case 'fortify': {
+        const result = await stopFermentationEarly(batchId, action === 'arrest' ? 'arrested' : 'fortified');
+        if (!result.success) {
+          await notificationService.addMessage(result.error || 'Failed to stop fermentation', 'winery.handleAction', 'Sweet Wine Error', NotificationCategory.SYSTEM);
+        }
         break;
+      }
+      case 'tirage':
+      case 'riddling': {
+        const batch = wineBatches.find(candidate => candidate.id === batchId);
+        const result = batch ? await startSparklingActivity(batch, action) : { success: false, error: 'Wine batch not found' };
+        if (!result.success) {
+          await notificationService.addMessage(result.error || 'Failed to start sparkling wine step', 'winery.handleAction', 'Sparkling Wine Error', NotificationCategory.SYSTEM);
+        }
+        break;
+      }
     }
-  }), [withLoading]);
+  }), [withLoading, wineBatches]);
 
   // Filter active batches (memoized)
   const activeBatches = useMemo(() => wineBatches.filter(batch => batch.state !== 'bottled'), [wineBatches]);
@@ -215,6 +308,8 @@ const Winery: React.FC = () => {
               <p className="text-xl font-bold text-gray-900">
                 {activeBatches.filter(batch => batch.state === 'must_fermenting').length} Fermenting
               </p>
+              <p className="text-xs text-gray-500">{activeBatches.filter(batch => batch.state === 'maturing').length} maturing in vessel</p>
+              <p className="text-xs text-gray-500">{activeBatches.filter(batch => batch.state === 'tirage' || batch.state === 'riddled').length} sparkling en tirage</p>
               <p className="text-xs text-gray-500">Wine in progress</p>
             </div>
             <div className="p-2 rounded-lg bg-purple-100 text-purple-800">
@@ -252,6 +347,10 @@ const Winery: React.FC = () => {
                 const displayName = getWineBatchDisplayName(batch);
                 const batchVessels = vessels.filter((vessel) => vessel.activeWineBatchId === batch.id || vessel.activePlanId === batch.storagePlanId);
                 const emptyingInProgress = isBatchEmptyingInProgress(batch.id);
+                const blendingInProgress = isBatchBlendingInProgress(batch.id);
+                const sparklingInProgress = isBatchSparklingInProgress(batch.id);
+                const cellarOperationInProgress = isBatchCellarOperationInProgress(batch.id);
+                const productionLocked = emptyingInProgress || blendingInProgress || sparklingInProgress || cellarOperationInProgress;
                 return (
                   <div key={batch.id} className="border rounded-lg p-4 hover:bg-gray-50">
                   {/* Wine Batch Header */}
@@ -266,7 +365,7 @@ const Winery: React.FC = () => {
                         Wine Details
                       </Button>
 
-                      {!emptyingInProgress && isActionAvailable(batch, 'crush') && (
+                      {!productionLocked && isActionAvailable(batch, 'crush') && (
                         <>
                           <Button onClick={() => openModal('crushing', batch.id)} size="sm" className="bg-orange-600 hover:bg-orange-700">
                             Crush Grapes
@@ -274,25 +373,87 @@ const Winery: React.FC = () => {
                         </>
                       )}
 
-                      {!emptyingInProgress && <Button onClick={() => openModal('sellGrapes', batch.id)} size="sm" variant="outline" className="text-amber-600 border-amber-600 hover:bg-amber-50">
+                      {!productionLocked && <Button onClick={() => openModal('sellGrapes', batch.id)} size="sm" variant="outline" className="text-amber-600 border-amber-600 hover:bg-amber-50">
                         Sell Grapes
                       </Button>}
                       
-                      {!emptyingInProgress && isFermentationActionAvailable(batch, 'ferment') && (
+                      {!productionLocked && isFermentationActionAvailable(batch, 'ferment') && (
                         <Button onClick={() => openModal('fermentation', batch.id)} size="sm" className="bg-purple-600 hover:bg-purple-700">
                           Start Fermentation
                         </Button>
                       )}
                       
-                      {!emptyingInProgress && isFermentationActionAvailable(batch, 'bottle') && (
-                        <Button onClick={() => handleAction(batch.id, 'bottle')} size="sm" className="bg-green-600 hover:bg-green-700">
+                      {!productionLocked && getBlendCandidates(batch, activeBatches).length > 0 && (
+                        <Button onClick={() => openModal('blending', batch.id)} size="sm" variant="outline" className="text-rose-700 border-rose-700 hover:bg-rose-50">
+                          Blend
+                        </Button>
+                      )}
+
+                      {!productionLocked && (['racking', 'fining', 'filtration'] as const).some(operation => isActionAvailable(batch, operation)) && (
+                        <Button onClick={() => openModal('cellarOperation', batch.id)} size="sm" variant="outline" className="text-sky-700 border-sky-700 hover:bg-sky-50">
+                          Cellar Work
+                        </Button>
+                      )}
+
+                      {!productionLocked && isBatchSplitAvailable(batch) && (
+                        <Button onClick={() => openModal('split', batch.id)} size="sm" variant="outline" className="text-teal-700 border-teal-700 hover:bg-teal-50">
+                          Split Batch
+                        </Button>
+                      )}
+
+                      {!productionLocked && isActionAvailable(batch, 'mature') && (
+                        <Button onClick={() => handleAction(batch.id, 'mature')} size="sm" className="bg-amber-700 hover:bg-amber-800">
+                          Start Maturation
+                        </Button>
+                      )}
+
+                      {!productionLocked && isActionAvailable(batch, 'stop_fermentation') && (
+                        <>
+                          <Button onClick={() => handleAction(batch.id, 'arrest')} size="sm" variant="outline" className="text-rose-700 border-rose-700 hover:bg-rose-50">
+                            Arrest Fermentation
+                          </Button>
+                          <Button
+                            onClick={() => handleAction(batch.id, 'fortify')}
+                            size="sm"
+                            variant="outline"
+                            className="text-rose-900 border-rose-900 hover:bg-rose-50"
+                            title={`Adds grape spirit for ${formatNumber(calculateFortificationCost(batch).cost, { currency: true })}`}
+                          >
+                            Fortify
+                          </Button>
+                        </>
+                      )}
+
+                      {!productionLocked && isFermentationActionAvailable(batch, 'bottle') && (
+                        <Button onClick={() => openModal('bottling', batch.id)} size="sm" className="bg-green-600 hover:bg-green-700">
                           Bottle Wine
                         </Button>
                       )}
+
+                      {!productionLocked && isActionAvailable(batch, 'tirage') && (
+                        <Button onClick={() => handleAction(batch.id, 'tirage')} size="sm" variant="outline" className="text-yellow-700 border-yellow-700 hover:bg-yellow-50">
+                          Tirage (Sparkling)
+                        </Button>
+                      )}
+
+                      {!productionLocked && isActionAvailable(batch, 'riddling') && (
+                        <Button onClick={() => handleAction(batch.id, 'riddling')} size="sm" className="bg-yellow-600 hover:bg-yellow-700">
+                          Riddle Bottles
+                        </Button>
+                      )}
+
+                      {!productionLocked && isActionAvailable(batch, 'disgorgement') && (
+                        <Button onClick={() => openModal('disgorgement', batch.id)} size="sm" className="bg-yellow-700 hover:bg-yellow-800">
+                          Disgorge
+                        </Button>
+                      )}
                     </div>
                   </div>
 
                   {emptyingInProgress && <div className="mb-3 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">An Empty Vessel maintenance activity is in progress. Production actions are unavailable until it is cancelled or completed.</div>}
+                  {sparklingInProgress && <div className="mb-3 rounded border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs text-yellow-800">A sparkling wine step is in progress. Production actions are unavailable until it is cancelled or completed.</div>}
+                  {cellarOperationInProgress && <div className="mb-3 rounded border border-sky-200 bg-sky-50 px-3 py-2 text-xs text-sky-800">A cellar operation (racking, fining or filtration) is in progress. Production actions are unavailable until it is cancelled or completed.</div>}
+                  {blendingInProgress && <div className="mb-3 rounded border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-800">This batch is part of a pending Blend Wine activity. Production actions are unavailable until it is cancelled or completed.</div>}
 
                   {/* 4-Grid Layout */}
                   <div className="grid grid-cols-4 gap-4">
@@ -300,7 +461,7 @@ const Winery: React.FC = () => {
                     <div className="space-y-2">
                       <div className="text-xs font-medium text-gray-800">Overview</div>
                       <div className="text-xs text-gray-600">
-                        {batch.quantity} {batch.state === 'bottled' ? 'bottles' : 'kg'} • Harvest {batch.harvestStartDate.year}
+                        {batch.quantity} {batch.state === 'tirage' || batch.state === 'riddled' ? 'bottles' : 'kg'} • Harvest {batch.harvestStartDate.year}
                       </div>
                       <WineBatchStructureDisplay batch={batch} />
                       <TasteQualityDisplay batch={batch} />
@@ -314,12 +475,19 @@ const Winery: React.FC = () => {
                         </span>
                       </div>
                       {batchVessels.length > 0 && <div className="text-xs text-gray-600">Stored: <span className="font-medium text-gray-800">{batchVessels.map(getStorageVesselDisplayName).join(', ')}</span></div>}
+                      {(batch.cellarOperations?.length ?? 0) > 0 && <div className="text-xs text-gray-600">Cellar work: <span className="font-medium text-gray-800">{batch.cellarOperations!.map(operation => CELLAR_OPERATIONS[operation].label).join(', ')}</span></div>}
                       
                       {/* Fermentation Status Badge */}
                       <FermentationStatusBadge batch={batch} />
                       
                       {/* Fermentation Effects Display */}
                       <FermentationEffectsDisplay batch={batch} />
+
+                      {/* Vessel Maturation Display */}
+                      <MaturationDisplay batch={batch} profile={maturationProfiles[batch.id]} />
+
+                      {/* Sparkling Tirage Display */}
+                      <SparklingDisplay batch={batch} />
                     </div>
 
                     {/* Column 2: Evolving Features */}
@@ -387,6 +555,25 @@ const Winery: React.FC = () => {
         batch: modals.fermentation,
       })}
 
+      {activitiesFeature.ui.renderBlendingOptions({
+        isOpen: !!modals.blending,
+        onClose: () => closeModal('blending'),
+        batch: modals.blending,
+        batches: activeBatches,
+      })}
+
+      {activitiesFeature.ui.renderCellarOperationOptions({
+        isOpen: !!modals.cellarOperation,
+        onClose: () => closeModal('cellarOperation'),
+        batch: modals.cellarOperation,
+      })}
+
+      {activitiesFeature.ui.renderDisgorgementOptions({
+        isOpen: !!modals.disgorgement,
+        onClose: () => closeModal('disgorgement'),
+        batch: modals.disgorgement,
+      })}
+
       <WineModal
         isOpen={!!modals.wine}
         onClose={() => closeModal('wine')}
@@ -394,6 +581,18 @@ const Winery: React.FC = () => {
         wineName={modals.wine ? getWineBatchDisplayName(modals.wine) : 'Wine'}
       />
 
+      <BottlingOptionsModal
+        isOpen={!!modals.bottling}
+        onClose={() => closeModal('bottling')}
+        batch={modals.bottling}
+      />
+
+      <SplitBatchModal
+        isOpen={!!modals.split}
+        onClose={() => closeModal('split')}
+        batch={modals.split}
+      />
+
       <SellGrapesModal
         isOpen={!!modals.sellGrapes}
         onClose={() => closeModal('sellGrapes')}
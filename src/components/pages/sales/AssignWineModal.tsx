@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { WineContract, WineBatch } from '@/lib/types/types';
+import { WineContract, WineBatch, WineStyle, SweetnessStyle, FarmingCertification } from '@/lib/types/types';
 import { fulfillContract, getEligibleWinesForContract } from '@/lib/services/sales/contractService';
 import { formatNumber } from '@/lib/utils/utils';
 import { formatCompletedWineName } from '@/lib/services/wine/winery/inventoryService';
@@ -7,6 +7,9 @@ import { useWinePriceCalculator } from '@/hooks';
 import { X, CheckCircle2, AlertCircle } from 'lucide-react';
 import { LoadingProps } from '@/lib/types/UItypes';
 import { getTasteQualityIndex } from '@/lib/services/wine/winescore/wineScoreCalculation';
+import { WINE_STYLE_LABELS } from '@/lib/constants/grapeConstants';
+import { SWEETNESS_STYLE_LABELS } from '@/lib/constants/sweetWineConstants';
+import { FARMING_METHODS } from '@/lib/constants/farmingConstants';
 
 interface AssignWineModalProps extends LoadingProps {
   isOpen: boolean;
@@ -127,6 +130,12 @@ const AssignWineModal: React.FC<AssignWineModalProps> = ({
       case 'grapeColor':
         const color = req.params?.targetGrapeColor || 'any';
         return `Color: ${color.charAt(0).toUpperCase() + color.slice(1)}`;
+      case 'wineStyle':
+        return `Style: ${req.params?.targetWineStyle ? WINE_STYLE_LABELS[req.params.targetWineStyle as WineStyle] : 'Any'}`;
+      case 'sweetnessStyle':
+        return `Sweetness: ${req.params?.targetSweetnessStyle ? SWEETNESS_STYLE_LABELS[req.params.targetSweetnessStyle as SweetnessStyle] : 'Any'}`;
+      case 'certification':
+        return `Certified: ${req.params?.targetCertification ? FARMING_METHODS[req.params.targetCertification as FarmingCertification].label : 'Any'}`;
       case 'altitude':
         return `Altitude >= ${(req.value * 100).toFixed(0)}% (regional)`;
       case 'aspect':
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { useGameStateWithData } from '@/hooks';
+import { BottleMarketStyle, WineBatch } from '@/lib/types/types';
+import { getBottleMarket, getBottleMarketConditions, getBottleMarketStyle } from '@/lib/services';
+import { BOTTLE_MARKET_COUNTRIES, BOTTLE_MARKET_STYLES, BOTTLE_MARKET_STYLE_LABELS } from '@/lib/constants/bottleMarketConstants';
+import { formatNumber, formatPercent } from '@/lib/utils/utils';
+import { getFlagIcon } from '@/lib/utils';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell, UnifiedTooltip } from '../../ui';
+
+interface BottleMarketTabProps {
+  bottledWines: WineBatch[];
+}
+
+const priceClass = (priceFactor: number) => (
+  priceFactor >= 1.05 ? 'text-green-600' : priceFactor <= 0.95 ? 'text-red-600' : 'text-gray-900'
+);
+
+const BottleMarketTab: React.FC<BottleMarketTabProps> = ({ bottledWines }) => {
+  const segments = useGameStateWithData(
+    () => getBottleMarket(),
+    [],
+    { topic: 'bottle_market' }
+  );
+
+  const stockedStyles = useMemo(
+    () => new Set<BottleMarketStyle>(bottledWines.filter(batch => batch.quantity > 0).map(getBottleMarketStyle)),
+    [bottledWines]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white rounded-lg shadow p-3">
+        <h3 className="text-sm font-semibold">Bottle Market</h3>
+        <p className="text-gray-500 text-xs">
+          Price level and order size by customer country and wine style. Demand follows the economy and the season,
+          supply follows regional production and harvest weather, and our own sales saturate the market they go into.
+          Selling below a wine's value saturates it faster.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Country</TableHead>
+              {BOTTLE_MARKET_STYLES.map(style => (
+                <TableHead key={style} className={stockedStyles.has(style) ? 'font-semibold text-amber-700' : undefined}>
+                  {BOTTLE_MARKET_STYLE_LABELS[style]}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {BOTTLE_MARKET_COUNTRIES.map(country => (
+              <TableRow key={country}>
+                <TableCell className="font-medium">
+                  <span className={`${getFlagIcon(country)} mr-1`}></span>
+                  {country}
+                </TableCell>
+                {BOTTLE_MARKET_STYLES.map(style => {
+                  const segment = segments.find(s => s.country === country && s.style === style);
+                  if (!segment) {
+                    return <TableCell key={style} className="text-gray-400">—</TableCell>;
+                  }
+                  const conditions = getBottleMarketConditions(segment);
+                  return (
+                    <TableCell key={style}>
+                      <UnifiedTooltip
+                        content={
+                          <div className="text-xs space-y-1">
+                            <div className="font-semibold">{BOTTLE_MARKET_STYLE_LABELS[style]} in {country}</div>
+                            <div>Demand: <span className="font-medium">{formatNumber(conditions.demand, { decimals: 2, forceDecimals: true })}</span></div>
+                            <div>Supply: <span className="font-medium">{formatNumber(conditions.supply, { decimals: 2, forceDecimals: true })}</span></div>
+                            <div>Saturated by our sales: <span className="font-medium">{formatPercent(conditions.saturation, 0, true)}</span></div>
+                            <div className="border-t pt-1">
+                              <div>Price Factor: <span className="font-medium">{formatNumber(conditions.priceFactor, { decimals: 2, forceDecimals: true })}x</span></div>
+                              <div>Quantity Factor: <span className="font-medium">{formatNumber(conditions.quantityFactor, { decimals: 2, forceDecimals: true })}x</span></div>
+                            </div>
+                          </div>
+                        }
+                        variant="default"
+                      >
+                        <div className="cursor-help">
+                          <span className={`font-medium ${priceClass(conditions.priceFactor)}`}>
+                            {formatNumber(conditions.priceFactor, { decimals: 2, forceDecimals: true })}x
+                          </span>
+                          {conditions.saturation >= 0.05 && (
+                            <span className="ml-1 text-[10px] text-red-500">{formatPercent(conditions.saturation, 0, true)} sat.</span>
+                          )}
+                        </div>
+                      </UnifiedTooltip>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default BottleMarketTab;
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { useGameState, useGameStateWithData } from '@/hooks';
+import { WineBatch, WorkCategory } from '@/lib/types/types';
+import {
+  calculateCellarDoorCapacity,
+  calculateCellarDoorVisitors,
+  createTastingRoomBuildActivity,
+  getAllVineyards,
+  getCellarDoorRetailPrice,
+  getRegionTourism,
+  getTastingRoom,
+  getWineBatchDisplayName,
+  setTastingRoomStaff
+} from '@/lib/services';
+import { activitiesFeature } from '@/lib/features/activities';
+import { staffFeature } from '@/lib/features/staff';
+import { CELLAR_DOOR, TASTING_ROOM_ACTIVITY_TYPE } from '@/lib/constants/cellarDoorConstants';
+import { formatNumber, formatPercent } from '@/lib/utils/utils';
+import { getFlagIcon } from '@/lib/utils';
+import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell, Button } from '../../ui';
+
+interface CellarDoorTabProps {
+  bottledWines: WineBatch[];
+  isLoading: boolean;
+  withLoading: (fn: () => Promise<void>) => Promise<void>;
+}
+
+const CellarDoorTab: React.FC<CellarDoorTabProps> = ({ bottledWines, isLoading, withLoading }) => {
+  const gameState = useGameState();
+  const room = useGameStateWithData(() => getTastingRoom(), null, { topic: 'cellar_door' });
+  const vineyards = useGameStateWithData(() => getAllVineyards(), []);
+  const staff = useGameStateWithData(() => staffFeature.records.getAll(), []);
+  const activities = useGameStateWithData(activitiesFeature.reads.getAll, []);
+  const [selectedVineyardId, setSelectedVineyardId] = useState<string>('');
+
+  const buildActivity = activities.find(
+    activity => activity.category === WorkCategory.BUILDING && activity.params.type === TASTING_ROOM_ACTIVITY_TYPE
+  );
+  const salesStaff = useMemo(() => [...staff].sort((a, b) => b.skills.sales - a.skills.sales), [staff]);
+  const lineup = bottledWines.filter(batch => batch.quantity > 0);
+
+  const handleBuild = async () => {
+    const vineyardId = selectedVineyardId || vineyards[0]?.id;
+    if (!vineyardId) return;
+    await withLoading(async () => {
+      await createTastingRoomBuildActivity(vineyardId);
+    });
+  };
+
+  const handleToggleStaff = async (staffId: string) => {
+    if (!room) return;
+    const staffIds = room.staffIds.includes(staffId)
+      ? room.staffIds.filter(id => id !== staffId)
+      : [...room.staffIds, staffId];
+    await withLoading(async () => {
+      await setTastingRoomStaff(staffIds);
+    });
+  };
+
+  if (!room) {
+    return (
+      <div className="bg-white rounded-lg shadow p-3 space-y-2">
+        <h3 className="text-sm font-semibold">Cellar Door</h3>
+        <p className="text-gray-500 text-xs">
+          A tasting room at one of our vineyards sells bottles straight to visitors at retail price
+          ({formatNumber(CELLAR_DOOR.retailMarkup, { decimals: 2, forceDecimals: true })}x the asking price).
+          Visitors come with the region's wine tourism, the season, the weather and our prestige, and sales staff serve them.
+        </p>
+        {buildActivity ? (
+          <p className="text-xs text-amber-700">The tasting room at {String(buildActivity.params.targetName ?? 'the vineyard')} is being built.</p>
+        ) : vineyards.length === 0 ? (
+          <p className="text-xs text-gray-500">Buy a vineyard to build a tasting room.</p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedVineyardId || vineyards[0]?.id}
+              onChange={(e) => setSelectedVineyardId(e.target.value)}
+              className="rounded border border-gray-300 bg-white px-1 py-0.5 text-xs"
+            >
+              {vineyards.map(vineyard => (
+                <option key={vineyard.id} value={vineyard.id}>
+                  {vineyard.name} ({vineyard.region}, tourism {formatNumber(getRegionTourism(vineyard.region), { decimals: 1, forceDecimals: true })}x)
+                </option>
+              ))}
+            </select>
+            <Button size="sm" onClick={handleBuild} disabled={isLoading}>
+              Build Tasting Room (€{formatNumber(CELLAR_DOOR.buildCost)})
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const assignedStaff = staff.filter(member => room.staffIds.includes(member.id));
+  const expectedVisitors = calculateCellarDoorVisitors(room, {
+    season: gameState.season || 'Spring',
+    weatherState: gameState.weatherState,
+    weatherIntensity: gameState.weatherIntensity,
+    prestige: gameState.prestige || 0
+  });
+  const capacity = calculateCellarDoorCapacity(assignedStaff);
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white rounded-lg shadow p-3">
+        <h3 className="text-sm font-semibold">
+          <span className={`${getFlagIcon(room.country)} mr-1`}></span>
+          Tasting Room at {room.vineyardName}
+        </h3>
+        <p className="text-gray-500 text-xs">
+          {room.region}, wine tourism {formatNumber(getRegionTourism(room.region), { decimals: 1, forceDecimals: true })}x.
+          Opened Week {room.builtAt.week}, {room.builtAt.season} {room.builtAt.year}.
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2 text-xs">
+          <div>
+            <div className="text-gray-500">Visitors this week</div>
+            <div className="font-medium">{formatNumber(expectedVisitors)}</div>
+          </div>
+          <div>
+            <div className="text-gray-500">Staff can serve</div>
+            <div className={`font-medium ${capacity < expectedVisitors ? 'text-red-600' : 'text-gray-900'}`}>
+              {capacity > 0 ? formatNumber(capacity) : 'Closed (no staff)'}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-500">Last week</div>
+            <div className="font-medium">
+              {room.lastWeek
+                ? `${formatNumber(room.lastWeek.bottlesSold)} bottles to ${formatNumber(room.lastWeek.served)}/${formatNumber(room.lastWeek.visitors)} visitors`
+                : '—'}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-500">Last week revenue</div>
+            <div className="font-medium">{room.lastWeek ? `€${formatNumber(room.lastWeek.revenue, { decimals: 2 })}` : '—'}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-3">
+        <h3 className="text-sm font-semibold">Tasting Room Staff ({room.staffIds.length}/{CELLAR_DOOR.maxStaff})</h3>
+        <p className="text-gray-500 text-xs mb-2">
+          Each staff member serves about {CELLAR_DOOR.visitorsPerStaff} visitors a week at {formatPercent(0.5, 0, true)} sales skill.
+        </p>
+        {salesStaff.length === 0 ? (
+          <p className="text-xs text-gray-500">Hire staff to serve at the tasting room.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {salesStaff.map(member => {
+              const assigned = room.staffIds.includes(member.id);
+              const full = !assigned && room.staffIds.length >= CELLAR_DOOR.maxStaff;
+              return (
+                <label key={member.id} className={`flex items-center gap-1 text-xs ${full ? 'text-gray-400' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={assigned}
+                    disabled={isLoading || full}
+                    onChange={() => { void handleToggleStaff(member.id); }}
+                  />
+                  {member.name} (Sales {formatPercent(member.skills.sales, 0, true)})
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Wine</TableHead>
+              <TableHead>In Stock</TableHead>
+              <TableHead>Retail Price</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lineup.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-gray-500">No bottled wine to pour.</TableCell>
+              </TableRow>
+            ) : lineup.map(batch => (
+              <TableRow key={batch.id}>
+                <TableCell className="font-medium">{getWineBatchDisplayName(batch)}</TableCell>
+                <TableCell>{formatNumber(batch.quantity)}</TableCell>
+                <TableCell>€{formatNumber(getCellarDoorRetailPrice(batch), { decimals: 2, forceDecimals: true })}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default CellarDoorTab;
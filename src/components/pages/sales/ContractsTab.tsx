@@ -1,11 +1,15 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { GrapeForwardContract, WineContract } from '@/lib/types/types';
+import { GrapeForwardContract, WineContract, WineStyle, SweetnessStyle, FarmingCertification } from '@/lib/types/types';
 import { acceptWinePresaleContract, rejectContract } from '@/lib/services/sales/contractService';
 import { getContractGenerationChance } from '@/lib/services/sales/contractGenerationService';
+import { canNegotiateContract } from '@/lib/services/sales/negotiationService';
 import { acceptForwardContract, autoDeliverForwardContract, getForwardContracts, rejectForwardContract } from '@/lib/services/sales/forwardContractService';
 import { researchUpgradeFeature } from '@/lib/features/researchUpgrade';
 import { RESEARCH_PROJECTS } from '@/lib/features/researchUpgrade/constants/researchCatalog';
 import { FORWARD_CONTRACT_CONFIG } from '@/lib/constants/contractConstants';
+import { WINE_STYLE_LABELS } from '@/lib/constants/grapeConstants';
+import { SWEETNESS_STYLE_LABELS } from '@/lib/constants/sweetWineConstants';
+import { FARMING_METHODS } from '@/lib/constants/farmingConstants';
 import { formatNumber, formatGameDateFromObject, formatPercent } from '@/lib/utils/utils';
 import { NormalizeScrewed1000To01WithTail } from '@/lib/utils/calculator';
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell, UnifiedTooltip } from '../../ui';
@@ -13,6 +17,7 @@ import { getFlagIcon } from '@/lib/utils';
 import { LoadingProps } from '@/lib/types/UItypes';
 import { Info } from 'lucide-react';
 import AssignWineModal from './AssignWineModal';
+import NegotiationModal, { NegotiationTarget } from './NegotiationModal';
 import { useTableSortWithAccessors, SortableColumn } from '@/hooks';
 import { useGameStateWithData } from '@/hooks';
 
@@ -54,6 +59,7 @@ const ContractsTab: React.FC<ContractsTabProps> = ({
   const [contractStatusFilter, setContractStatusFilter] = useState<'all' | 'offered' | 'pending' | 'fulfilled' | 'defaulted' | 'rejected' | 'expired'>('pending');
   const [selectedContract, setSelectedContract] = useState<WineContract | null>(null);
   const [showAssignModal, setShowAssignModal] = useState(false);
+  const [negotiatingContractId, setNegotiatingContractId] = useState<string | null>(null);
   const [contractsPage, setContractsPage] = useState<number>(1);
   const contractsPageSize = 20;
   const [contractChanceInfo, setContractChanceInfo] = useState<{
@@ -195,6 +201,12 @@ const ContractsTab: React.FC<ContractsTabProps> = ({
     loadContractTypeAccess();
   }, [contracts.length]);
 
+  // The contract being negotiated, kept in sync with the reloaded contracts so its history stays current
+  const negotiationTarget = useMemo<NegotiationTarget | null>(() => {
+    const contract = negotiatingContractId ? contracts.find(candidate => candidate.id === negotiatingContractId) : undefined;
+    return contract ? { kind: 'contract', contract } : null;
+  }, [contracts, negotiatingContractId]);
+
   // Handle assigning wine to contract
   const handleAssignWine = (contract: WineContract) => {
     setSelectedContract(contract);
@@ -271,6 +283,12 @@ const ContractsTab: React.FC<ContractsTabProps> = ({
       case 'grapeColor':
         const color = req.params?.targetGrapeColor || 'any';
         return `Color: ${color.charAt(0).toUpperCase() + color.slice(1)}`;
+      case 'wineStyle':
+        return `Style: ${req.params?.targetWineStyle ? WINE_STYLE_LABELS[req.params.targetWineStyle as WineStyle] : 'Any'}`;
+      case 'sweetnessStyle':
+        return `Sweetness: ${req.params?.targetSweetnessStyle ? SWEETNESS_STYLE_LABELS[req.params.targetSweetnessStyle as SweetnessStyle] : 'Any'}`;
+      case 'certification':
+        return `Certified: ${req.params?.targetCertification ? FARMING_METHODS[req.params.targetCertification as FarmingCertification].label : 'Any'}`;
       case 'altitude':
         return `Altitude >= ${(req.value * 100).toFixed(0)}% (regional)`;
       case 'aspect':
@@ -703,6 +721,15 @@ const ContractsTab: React.FC<ContractsTabProps> = ({
                           >
                             Accept
                           </button>
+                          {canNegotiateContract(contract) && (
+                            <button
+                              onClick={() => setNegotiatingContractId(contract.id)}
+                              disabled={isLoading}
+                              className="px-2 py-1 bg-amber-600 hover:bg-amber-700 text-white text-xs rounded disabled:opacity-50"
+                            >
+                              Negotiate
+                            </button>
+                          )}
                           <button
                             onClick={() => handleRejectContract(contract.id)}
                             disabled={isLoading}
@@ -721,6 +748,15 @@ const ContractsTab: React.FC<ContractsTabProps> = ({
                           >
                             Assign Wine
                           </button>
+                          {canNegotiateContract(contract) && (
+                            <button
+                              onClick={() => setNegotiatingContractId(contract.id)}
+                              disabled={isLoading}
+                              className="px-2 py-1 bg-amber-600 hover:bg-amber-700 text-white text-xs rounded disabled:opacity-50"
+                            >
+                              Negotiate
+                            </button>
+                          )}
                           <button
                             onClick={() => handleRejectContract(contract.id)}
                             disabled={isLoading}
@@ -865,6 +901,16 @@ const ContractsTab: React.FC<ContractsTabProps> = ({
           withLoading={withLoading}
         />
       )}
+
+      {negotiationTarget && (
+        <NegotiationModal
+          isOpen={true}
+          onClose={() => setNegotiatingContractId(null)}
+          target={negotiationTarget}
+          isLoading={isLoading}
+          withLoading={withLoading}
+        />
+      )}
     </div>
   );
 };
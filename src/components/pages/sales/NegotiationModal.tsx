@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { NegotiationRound, NegotiationTerms, WineContract, WineOrder } from '@/lib/types/types';
+import {
+  calculateCounterOfferAcceptance,
+  getContractNegotiationTerms,
+  getFailedNegotiationRounds,
+  getNegotiationCustomer,
+  getOrderNegotiationTerms,
+  negotiateContract,
+  negotiateWineOrder,
+  validateCounterOffer,
+  type NegotiationCustomer
+} from '@/lib/services';
+import { staffFeature } from '@/lib/features/staff';
+import { NEGOTIATION } from '@/lib/constants/negotiationConstants';
+import { formatGameDateFromObject, formatNumber, formatPercent } from '@/lib/utils/utils';
+import { useGameStateWithData } from '@/hooks';
+import { LoadingProps } from '@/lib/types/UItypes';
+import { X } from 'lucide-react';
+
+export type NegotiationTarget =
+  | { kind: 'order'; order: WineOrder }
+  | { kind: 'contract'; contract: WineContract };
+
+interface NegotiationModalProps extends LoadingProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: NegotiationTarget;
+  withLoading: (fn: () => Promise<void>) => Promise<void>;
+}
+
+function formatRoundTerms(terms: NegotiationTerms): string {
+  const schedule = terms.deliveriesPerYear !== undefined ? `, ${terms.deliveriesPerYear}×/yr, ${terms.durationYears} yr` : '';
+  return `${formatNumber(terms.quantity)} @ ${formatNumber(terms.pricePerBottle, { currency: true, decimals: 2 })}${schedule}`;
+}
+
+const NegotiationModal: React.FC<NegotiationModalProps> = ({
+  isOpen,
+  onClose,
+  target,
+  isLoading,
+  withLoading
+}) => {
+  const customerId = target.kind === 'order' ? target.order.customerId : target.contract.customerId;
+  const customerName = target.kind === 'order' ? target.order.customerName : target.contract.customerName;
+  const history: NegotiationRound[] = (target.kind === 'order' ? target.order.negotiationHistory : target.contract.negotiationHistory) ?? [];
+  const askingPrice = target.kind === 'order' ? target.order.askingPriceAtOrderTime : undefined;
+  const currentTerms = useMemo(
+    () => target.kind === 'order' ? getOrderNegotiationTerms(target.order) : getContractNegotiationTerms(target.contract),
+    [target]
+  );
+
+  const staff = useGameStateWithData(() => staffFeature.records.getAll(), []);
+  const salesStaff = useMemo(() => [...staff].sort((a, b) => b.skills.sales - a.skills.sales), [staff]);
+  const [customer, setCustomer] = useState<NegotiationCustomer | null>(null);
+  const [counter, setCounter] = useState<NegotiationTerms>(currentTerms);
+  const [staffId, setStaffId] = useState<string>('');
+  const [result, setResult] = useState<string | null>(null);
+
+  // Reset the counter when opened; after a turned-down round the player's counter is kept to adjust
+  useEffect(() => {
+    if (!isOpen) return;
+    setCounter(currentTerms);
+    setResult(null);
+  }, [isOpen, customerId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getNegotiationCustomer(customerId).then(setCustomer).catch(() => setCustomer(null));
+  }, [isOpen, customerId, history.length]);
+
+  useEffect(() => {
+    if (!staffId && salesStaff.length > 0) setStaffId(salesStaff[0].id);
+  }, [salesStaff, staffId]);
+
+  const selectedStaff = salesStaff.find(member => member.id === staffId);
+  const validation = validateCounterOffer(currentTerms, counter);
+  const acceptance = customer && validation.valid
+    ? calculateCounterOfferAcceptance({
+        currentTerms,
+        counterOffer: counter,
+        askingPrice,
+        priceMultiplier: customer.priceMultiplier,
+        relationship: customer.relationship,
+        salesSkill: selectedStaff?.skills.sales,
+        previousRounds: history.length
+      })
+    : null;
+  const failedRounds = getFailedNegotiationRounds(history);
+
+  const handleSubmit = () => withLoading(async () => {
+    const outcome = target.kind === 'order'
+      ? await negotiateWineOrder(target.order.id, counter, staffId || undefined)
+      : await negotiateContract(target.contract.id, counter, staffId || undefined);
+    if (!outcome.success || outcome.accepted || outcome.walkedAway) {
+      if (!outcome.success) alert(outcome.message);
+      onClose();
+      return;
+    }
+    setResult(outcome.message);
+  });
+
+  if (!isOpen) return null;
+
+  const updateCounter = (patch: Partial<NegotiationTerms>) => setCounter(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-amber-600 text-white px-4 py-3 flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Negotiate with {customerName}</h3>
+          <button onClick={onClose} className="hover:bg-amber-700 rounded p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto flex-1 p-4 space-y-3 text-sm">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-xs space-y-1">
+            <div>Current terms: <span className="font-medium">{formatRoundTerms(currentTerms)}</span></div>
+            {askingPrice !== undefined && (
+              <div>Our asking price at order time: <span className="font-medium">{formatNumber(askingPrice, { currency: true, decimals: 2 })}</span></div>
+            )}
+            {customer && (
+              <div>
+                Price multiplier: <span className="font-medium">{formatNumber(customer.priceMultiplier, { decimals: 2, forceDecimals: true })}x</span>,
+                relationship: <span className="font-medium">{formatNumber(customer.relationship, { decimals: 1 })}</span>
+              </div>
+            )}
+            <div className="text-gray-500">
+              Turned-down counters cost relationship; after {NEGOTIATION.maxFailedRounds} the customer withdraws ({failedRounds} so far).
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600">
+              Price per bottle (€)
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={counter.pricePerBottle}
+                onChange={(e) => updateCounter({ pricePerBottle: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              {target.kind === 'contract' ? 'Bottles per delivery' : 'Bottles'}
+              <input
+                type="number"
+                min="1"
+                value={counter.quantity}
+                onChange={(e) => updateCounter({ quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            {currentTerms.deliveriesPerYear !== undefined && (
+              <label className="text-xs text-gray-600">
+                Deliveries per year
+                <input
+                  type="number"
+                  min="1"
+                  max={NEGOTIATION.maxDeliveriesPerYear}
+                  value={counter.deliveriesPerYear ?? currentTerms.deliveriesPerYear}
+                  onChange={(e) => updateCounter({ deliveriesPerYear: parseInt(e.target.value) || 0 })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+            )}
+            {currentTerms.durationYears !== undefined && (
+              <label className="text-xs text-gray-600">
+                Duration (years)
+                <input
+                  type="number"
+                  min="1"
+                  max={NEGOTIATION.maxDurationYears}
+                  value={counter.durationYears ?? currentTerms.durationYears}
+                  onChange={(e) => updateCounter({ durationYears: parseInt(e.target.value) || 0 })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+            )}
+          </div>
+
+          <label className="block text-xs text-gray-600">
+            Negotiator
+            <select
+              value={staffId}
+              onChange={(e) => setStaffId(e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              <option value="">Nobody (no salesperson)</option>
+              {salesStaff.map(member => (
+                <option key={member.id} value={member.id}>
+                  {member.name} (Sales {formatPercent(member.skills.sales, 0, true)})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="text-xs">
+            {validation.valid ? (
+              <span>
+                Chance of acceptance: <span className="font-semibold">{acceptance !== null ? formatPercent(acceptance, 0, true) : '…'}</span>
+              </span>
+            ) : (
+              <span className="text-gray-500">{validation.reason}</span>
+            )}
+          </div>
+
+          {result && <div className="text-xs text-red-600">{result}</div>}
+
+          {history.length > 0 && (
+            <div className="border-t pt-2 text-xs space-y-1">
+              <div className="font-medium">Negotiation history</div>
+              {history.map((round, index) => (
+                <div key={index} className={round.accepted ? 'text-green-700' : 'text-red-600'}>
+                  {formatGameDateFromObject(round.date)}: {formatRoundTerms(round.counterOffer)}
+                  {' '}({formatPercent(round.acceptanceProbability, 0, true)}{round.staffName ? `, ${round.staffName}` : ''})
+                  {' '}{round.accepted ? 'accepted' : round.walkedAway ? 'customer withdrew' : 'turned down'}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 px-4 py-3 bg-gray-50 flex items-center justify-between">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-700 rounded text-sm">
+            Close
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isLoading || !validation.valid}
+            className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Make Counter-offer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NegotiationModal;
@@ -1,17 +1,20 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { WineOrder, WineBatch, Customer, CustomerCountry, CustomerType, EconomyPhase } from '@/lib/types/types';
-import { fulfillWineOrder, rejectWineOrder, generateCustomer } from '@/lib/services';
-import { formatNumber, formatPercent, formatGameDateFromObject, getBadgeColorClasses} from '@/lib/utils/utils';
+import { WineOrder, WineBatch, Customer, CustomerCountry, CustomerType, EconomyPhase, MarketPreferenceMatch, BottleMarketConditions, ExportLandedCost } from '@/lib/types/types';
+import { fulfillWineOrder, rejectWineOrder, generateCustomer, getExportShipments } from '@/lib/services';
+import { formatNumber, formatPercent, formatGameDateFromObject, getBadgeColorClasses, getCharacteristicDisplayName } from '@/lib/utils/utils';
+import { FLAVOR_FAMILY_LABELS } from '@/lib/constants/taste/flavorFamilyLabels';
 import { useTableSortWithAccessors, SortableColumn } from '@/hooks';
 import { Table, TableHeader, TableBody, TableHead, TableRow, TableCell, UnifiedTooltip } from '../../ui';
 import { getFlagIcon, loadFormattedRelationshipBreakdown } from '@/lib/utils';
 import { calculateRelationshipBreakdown, clearRelationshipBreakdownCache } from '@/lib/services';
 import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
-import { useGameUpdates, useWinePriceCalculator } from '@/hooks';
+import { useGameUpdates, useGameStateWithData, useWinePriceCalculator } from '@/hooks';
 import { NavigationProps, LoadingProps } from '@/lib/types/UItypes';
 import { getCurrentCompany } from '@/lib/services';
 import { SALES_CONSTANTS } from '@/lib/constants/constants';
+import { BOTTLE_MARKET_STYLE_LABELS } from '@/lib/constants/bottleMarketConstants';
 import { calculateEstimatedPriceBreakdown } from '@/lib/services/wine/winescore/wineScoreCalculation';
+import NegotiationModal, { NegotiationTarget } from './NegotiationModal';
 
 /**
  * Create minimal customer object for relationship breakdown from order data
@@ -37,6 +40,56 @@ function createCustomerFromOrderData(
   };
 }
 
+/**
+ * Explain how well the wine's structure and taste matched the customer's preference
+ */
+function PreferenceMatchDetails({ preference }: { preference: MarketPreferenceMatch }) {
+  return (
+    <div className="border-t pt-1 mt-1">
+      <div className="font-medium">Taste & Structure Match: {formatPercent(preference.match, 0, true)}</div>
+      <div>Structure: <span className="font-medium">{formatPercent(preference.structureMatch, 0, true)}</span>, Taste: <span className="font-medium">{formatPercent(preference.flavorMatch, 0, true)}</span></div>
+      {preference.likedFlavors.length > 0 && (
+        <div className="text-green-600">Likes: {preference.likedFlavors.map(family => FLAVOR_FAMILY_LABELS[family]).join(', ')}</div>
+      )}
+      {preference.dislikedFlavors.length > 0 && (
+        <div className="text-red-600">Dislikes: {preference.dislikedFlavors.map(family => FLAVOR_FAMILY_LABELS[family]).join(', ')}</div>
+      )}
+      <div className="text-gray-500">Furthest from preference: {getCharacteristicDisplayName(preference.furthestChannel)}</div>
+    </div>
+  );
+}
+
+/**
+ * Explain the bottle market the order was placed in
+ */
+function BottleMarketDetails({ market }: { market: BottleMarketConditions }) {
+  return (
+    <div className="border-t pt-1 mt-1">
+      <div className="font-medium">Bottle Market: {BOTTLE_MARKET_STYLE_LABELS[market.style]} in {market.country}</div>
+      <div>Demand: <span className="font-medium">{formatNumber(market.demand, { decimals: 2, forceDecimals: true })}</span>, Supply: <span className="font-medium">{formatNumber(market.supply, { decimals: 2, forceDecimals: true })}</span></div>
+      <div className={market.saturation > 0.25 ? 'text-red-600' : 'text-gray-500'}>Saturated by our sales: {formatPercent(market.saturation, 0, true)}</div>
+    </div>
+  );
+}
+
+/**
+ * Explain what an export customer's landed bid leaves the winery after duty and shipping
+ */
+function ExportCostDetails({ exportCost }: { exportCost: ExportLandedCost }) {
+  return (
+    <div className="border-t pt-1 mt-1">
+      <div className="font-medium">Export to {exportCost.country}</div>
+      <div>Landed Bid: <span className="font-medium">{formatNumber(exportCost.landedPrice, { currency: true, decimals: 2 })}</span></div>
+      <div className="text-red-600">Import Duty ({formatPercent(exportCost.importDutyRate, 0, true)}): −{formatNumber(exportCost.importDuty, { currency: true, decimals: 2 })}</div>
+      <div className="text-red-600">Shipping: −{formatNumber(exportCost.shippingCost, { currency: true, decimals: 2 })}</div>
+      <div className={exportCost.exCellarPrice <= 0 ? 'text-red-600' : undefined}>Ex-Cellar Bid: <span className="font-medium">{formatNumber(exportCost.exCellarPrice, { currency: true, decimals: 2 })}</span></div>
+      <div className="text-gray-500">
+        Ships in {exportCost.shippingWeeks} week{exportCost.shippingWeeks === 1 ? '' : 's'}, paid on arrival; {formatPercent(exportCost.transportRisk, 0, true)} risk of transport damage
+      </div>
+    </div>
+  );
+}
+
 interface OrdersTabProps extends NavigationProps, LoadingProps {
   allOrders: WineOrder[];
   allBatches: WineBatch[];
@@ -63,6 +116,7 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
     randomRoll: number;
     economyPhase: EconomyPhase;
     economyFrequencyMultiplier: number;
+    marketDemandMultiplier: number;
   } | null>(null);
   const [relationshipBreakdowns, setRelationshipBreakdowns] = useState<{[key: string]: string}>({});
   const [computedRelationships, setComputedRelationships] = useState<{[key: string]: number}>({});
@@ -75,6 +129,7 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
   }>}>({});
   const [isLoadingRelationships, setIsLoadingRelationships] = useState<boolean>(false);
   const [ordersPage, setOrdersPage] = useState<number>(1);
+  const [negotiatingOrderId, setNegotiatingOrderId] = useState<string | null>(null);
   const ordersPageSize = 20;
 
   // Use shared price calculator hook for consistent pricing with prestige bonuses
@@ -348,6 +403,12 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
     return () => { unsubscribe(); };
   }, [subscribe, allOrders.length, isLoadingRelationships]);
 
+  const shipmentsInTransit = useGameStateWithData(
+    async () => (await getExportShipments()).filter(shipment => shipment.status === 'in_transit'),
+    [],
+    { topic: 'export_shipments' }
+  );
+
   // Handle order fulfillment
   const handleFulfillOrder = (orderId: string) => withLoading(async () => {
     const success = await fulfillWineOrder(orderId);
@@ -356,6 +417,12 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
     }
   });
 
+  // The order being negotiated, kept in sync with the reloaded orders so its history stays current
+  const negotiationTarget = useMemo<NegotiationTarget | null>(() => {
+    const order = negotiatingOrderId ? allOrders.find(candidate => candidate.id === negotiatingOrderId) : undefined;
+    return order ? { kind: 'order', order } : null;
+  }, [allOrders, negotiatingOrderId]);
+
   // Handle order rejection
   const handleRejectOrder = (orderId: string) => withLoading(async () => {
     await rejectWineOrder(orderId);
@@ -434,9 +501,10 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                       <div>Pending Penalty: <span className="font-medium">{formatNumber(orderChanceInfo.pendingPenalty, { decimals: 2, forceDecimals: true })}x</span></div>
                       <div>Economy Phase: <span className="font-medium">{orderChanceInfo.economyPhase}</span></div>
                       <div>Economy Effect: <span className="font-medium">×{formatNumber(orderChanceInfo.economyFrequencyMultiplier, { decimals: 2, forceDecimals: true })}</span></div>
+                      <div>Market Demand: <span className="font-medium">×{formatNumber(orderChanceInfo.marketDemandMultiplier, { decimals: 2, forceDecimals: true })}</span></div>
                       <div className="border-t pt-1">
                         <div>Final Chance: <span className="font-bold text-blue-300">{formatPercent(orderChanceInfo.finalChance, 1, true)}</span></div>
-                        <div className="text-[10px] text-gray-400 mt-1">Base × Pending × Economy</div>
+                        <div className="text-[10px] text-gray-400 mt-1">Base × Pending × Economy × Market</div>
                       </div>
                     </div>
                   </div>
@@ -464,6 +532,27 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
         </div>
       </div>
 
+      {/* Export Shipments */}
+      {shipmentsInTransit.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-3">
+          <h3 className="text-sm font-semibold">Export Shipments in Transit</h3>
+          <p className="text-gray-500 text-xs mb-1">Export customers pay for the bottles that arrive; import duty is paid on arrival.</p>
+          <div className="space-y-0.5 text-xs">
+            {shipmentsInTransit.map(shipment => (
+              <div key={shipment.id} className="flex justify-between">
+                <span>
+                  <span className={`${getFlagIcon(shipment.country)} mr-1`}></span>
+                  {formatNumber(shipment.bottles)} × {shipment.wineName} to {shipment.customerName}
+                </span>
+                <span className="text-gray-500">
+                  {formatNumber(shipment.bottles * (shipment.landedPrice - shipment.importDuty), { currency: true, decimals: 2 })} on arrival
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Order Management */}
       {pendingOrders.length > 0 && (
         <div className="bg-white rounded-lg shadow p-3">
@@ -761,6 +850,12 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                               {order.calculationData?.difficulty && (
                                 <div>Difficulty Factor: <span className="font-medium">{formatNumber(order.calculationData.difficulty.quantityFactor, { decimals: 3, forceDecimals: true })}x</span></div>
                               )}
+                              {order.calculationData?.preference && (
+                                <div>Taste & Structure Factor: <span className="font-medium">{formatNumber(order.calculationData.preference.quantityFactor, { decimals: 3, forceDecimals: true })}x</span></div>
+                              )}
+                              {order.calculationData?.market && (
+                                <div>Bottle Market Factor: <span className="font-medium">{formatNumber(order.calculationData.market.quantityFactor, { decimals: 3, forceDecimals: true })}x</span></div>
+                              )}
                               <div className="border-t pt-1">
                                 <div className="font-medium">Final Quantity: <span className="font-bold">{order.requestedQuantity}</span></div>
                               </div>
@@ -818,6 +913,12 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                         {Math.abs(estimatedPriceBreakdown.featurePriceMultiplier - 1) > 0.0005 && (
                                           <div>Feature Multiplier: <span className="font-medium">{formatNumber(estimatedPriceBreakdown.featurePriceMultiplier, { decimals: 3, forceDecimals: true })}x</span></div>
                                         )}
+                                        {Math.abs(estimatedPriceBreakdown.sweetWinePriceMultiplier - 1) > 0.0005 && (
+                                          <div>Sweet Wine Multiplier: <span className="font-medium">{formatNumber(estimatedPriceBreakdown.sweetWinePriceMultiplier, { decimals: 3, forceDecimals: true })}x</span></div>
+                                        )}
+                                        {Math.abs(estimatedPriceBreakdown.bottleFormatPriceMultiplier - 1) > 0.0005 && (
+                                          <div>Bottle Format: <span className="font-medium">{formatNumber(estimatedPriceBreakdown.bottleFormatPriceMultiplier, { decimals: 3, forceDecimals: true })}x</span></div>
+                                        )}
                                         {Math.abs(estimatedPriceBreakdown.companyPrestigeMultiplier - 1) > 0.0005 && (
                                           <div>Company Prestige: <span className="font-medium">{formatNumber(estimatedPriceBreakdown.companyPrestigeMultiplier, { decimals: 3, forceDecimals: true })}x</span></div>
                                         )}
@@ -832,10 +933,18 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                   {order.calculationData?.difficulty && (
                                     <div>Difficulty Factor: <span className="font-medium">{formatNumber(order.calculationData.difficulty.priceFactor, { decimals: 3, forceDecimals: true })}x</span></div>
                                   )}
+                                  {order.calculationData?.preference && (
+                                    <div>Taste & Structure Factor: <span className="font-medium">{formatNumber(order.calculationData.preference.priceFactor, { decimals: 3, forceDecimals: true })}x</span></div>
+                                  )}
+                                  {order.calculationData?.market && (
+                                    <div>Bottle Market Factor: <span className="font-medium">{formatNumber(order.calculationData.market.priceFactor, { decimals: 3, forceDecimals: true })}x</span></div>
+                                  )}
                                   <div>Combined Multiplier: <span className="font-medium">
                                     {formatNumber(
                                       (order.calculationData.relationshipAdjustedMultiplier ?? (order.calculationData.finalPriceMultiplier * (order.calculationData.relationshipBonusMultiplier ?? 1)))
-                                      * (order.calculationData?.difficulty?.priceFactor ?? 1),
+                                      * (order.calculationData?.difficulty?.priceFactor ?? 1)
+                                      * (order.calculationData?.preference?.priceFactor ?? 1)
+                                      * (order.calculationData?.market?.priceFactor ?? 1),
                                       { decimals: 3, forceDecimals: true }
                                     )}x
                                   </span></div>
@@ -845,6 +954,24 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                       <div className="text-[10px] mt-1">Wine features reduce customer bid price</div>
                                     </div>
                                   )}
+                                  {order.calculationData.sparklingPriceMultiplier !== undefined && Math.abs(order.calculationData.sparklingPriceMultiplier - 1) > 0.0005 && (
+                                    <div className={order.calculationData.sparklingPriceMultiplier > 1 ? 'text-green-600' : 'text-red-600'}>
+                                      Sparkling Demand: <span className="font-medium">{formatNumber(order.calculationData.sparklingPriceMultiplier, { decimals: 3, forceDecimals: true })}x</span>
+                                      <div className="text-[10px] mt-1">Customer type and country demand for Traditional Method sparkling</div>
+                                    </div>
+                                  )}
+                                  {order.calculationData.packagingPriceMultiplier !== undefined && Math.abs(order.calculationData.packagingPriceMultiplier - 1) > 0.0005 && (
+                                    <div className={order.calculationData.packagingPriceMultiplier > 1 ? 'text-green-600' : 'text-red-600'}>
+                                      Packaging: <span className="font-medium">{formatNumber(order.calculationData.packagingPriceMultiplier, { decimals: 3, forceDecimals: true })}x</span>
+                                      <div className="text-[10px] mt-1">Customer type preference for the bottle format and closure</div>
+                                    </div>
+                                  )}
+                                  {order.calculationData.farmingPriceMultiplier !== undefined && Math.abs(order.calculationData.farmingPriceMultiplier - 1) > 0.0005 && (
+                                    <div className={order.calculationData.farmingPriceMultiplier > 1 ? 'text-green-600' : 'text-red-600'}>
+                                      Certification: <span className="font-medium">{formatNumber(order.calculationData.farmingPriceMultiplier, { decimals: 3, forceDecimals: true })}x</span>
+                                      <div className="text-[10px] mt-1">Customer type premium for certified organic or biodynamic wine</div>
+                                    </div>
+                                  )}
                                   <div className="border-t pt-1 mt-1">
                                     <div className="text-[10px] text-gray-500 mb-1">
                                       {(() => {
@@ -852,16 +979,41 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                                         if (order.calculationData?.featurePriceMultiplier !== undefined) {
                                           parts.push('Features');
                                         }
+                                        if (order.calculationData?.sparklingPriceMultiplier !== undefined && Math.abs(order.calculationData.sparklingPriceMultiplier - 1) > 0.0005) {
+                                          parts.push('Sparkling');
+                                        }
+                                        if (order.calculationData?.packagingPriceMultiplier !== undefined && Math.abs(order.calculationData.packagingPriceMultiplier - 1) > 0.0005) {
+                                          parts.push('Packaging');
+                                        }
+                                        if (order.calculationData?.farmingPriceMultiplier !== undefined && Math.abs(order.calculationData.farmingPriceMultiplier - 1) > 0.0005) {
+                                          parts.push('Certification');
+                                        }
                                         if (order.calculationData?.difficulty) {
                                           parts.push('Difficulty');
                                         }
+                                        if (order.calculationData?.preference) {
+                                          parts.push('Taste & Structure');
+                                        }
+                                        if (order.calculationData?.market) {
+                                          parts.push('Market');
+                                        }
                                         const label = hasAskingPriceShift ? 'Order Asking' : 'Asking';
                                         parts[0] = label;
-                                        return `Formula: ${parts.join(' × ')}`;
+                                        const exportDeductions = order.calculationData?.exportCost ? ' − Duty − Shipping' : '';
+                                        return `Formula: ${parts.join(' × ')}${exportDeductions}`;
                                       })()}
                                     </div>
                                     <div>Final Bid: <span className="font-bold">{formatNumber(order.offeredPrice, { currency: true, decimals: 2 })}</span></div>
                                   </div>
+                                  {order.calculationData.preference && (
+                                    <PreferenceMatchDetails preference={order.calculationData.preference} />
+                                  )}
+                                  {order.calculationData.market && (
+                                    <BottleMarketDetails market={order.calculationData.market} />
+                                  )}
+                                  {order.calculationData.exportCost && (
+                                    <ExportCostDetails exportCost={order.calculationData.exportCost} />
+                                  )}
                                 </div>
                               </>
                             ) : (
@@ -897,6 +1049,9 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                               {order.calculationData?.difficulty && (
                                 <div>Difficulty Rejection Factor: <span className="font-medium">{formatNumber(order.calculationData.difficulty.rejectionFactor, { decimals: 3, forceDecimals: true })}x</span></div>
                               )}
+                              {order.calculationData?.preference && (
+                                <div>Taste & Structure Rejection Factor: <span className="font-medium">{formatNumber(order.calculationData.preference.rejectionFactor, { decimals: 3, forceDecimals: true })}x</span></div>
+                              )}
                               <div className="border-t pt-1">
                                 <div className="font-medium">
                                   {premiumPercent > 0 ? (
@@ -958,6 +1113,13 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                           >
                             Accept
                           </button>
+                          <button
+                            onClick={() => setNegotiatingOrderId(order.id)}
+                            disabled={isLoading}
+                            className="text-amber-600 hover:text-amber-900 disabled:text-gray-400"
+                          >
+                            Negotiate
+                          </button>
                           <button
                             onClick={() => handleRejectOrder(order.id)}
                             disabled={isLoading}
@@ -1186,6 +1348,13 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
                       >
                         Accept
                       </button>
+                      <button
+                        onClick={() => setNegotiatingOrderId(order.id)}
+                        disabled={isLoading}
+                        className="flex-1 bg-amber-600 text-white px-4 py-2 rounded hover:bg-amber-700 disabled:bg-gray-400 text-sm font-medium"
+                      >
+                        Negotiate
+                      </button>
                       <button
                         onClick={() => handleRejectOrder(order.id)}
                         disabled={isLoading}
@@ -1229,6 +1398,16 @@ const OrdersTab: React.FC<OrdersTabProps> = ({
           </>
         )}
       </div>
+
+      {negotiationTarget && (
+        <NegotiationModal
+          isOpen={true}
+          onClose={() => setNegotiatingOrderId(null)}
+          target={negotiationTarget}
+          isLoading={isLoading}
+          withLoading={withLoading}
+        />
+      )}
     </div>
   );
 };
@@ -119,6 +119,8 @@ const EstimatedPriceDisplay: React.FC<{
  vineyardPrestige
  );
  const hasFeatureMultiplier = Math.abs(breakdown.featurePriceMultiplier - 1) > 0.0005;
+ const hasSweetWineMultiplier = Math.abs(breakdown.sweetWinePriceMultiplier - 1) > 0.0005;
+ const hasBottleFormatMultiplier = Math.abs(breakdown.bottleFormatPriceMultiplier - 1) > 0.0005;
  const hasCompanyPrestige = Math.abs(breakdown.companyPrestigeMultiplier - 1) > 0.0005;
  const hasVineyardPrestige = Math.abs(breakdown.vineyardPrestigeMultiplier - 1) > 0.0005;
 
@@ -158,6 +160,12 @@ const EstimatedPriceDisplay: React.FC<{
  {hasFeatureMultiplier && (
  <div>Feature Multiplier: <span className="font-medium">{formatNumber(breakdown.featurePriceMultiplier, { decimals: 2, forceDecimals: true })} x</span></div>
  )}
+ {hasSweetWineMultiplier && (
+ <div>Sweet Wine Multiplier: <span className="font-medium">{formatNumber(breakdown.sweetWinePriceMultiplier, { decimals: 2, forceDecimals: true })}x </span></div>
+ )}
+ {hasBottleFormatMultiplier && (
+ <div>Bottle Format Multiplier: <span className="font-medium">{formatNumber(breakdown.bottleFormatPriceMultiplier, { decimals: 2, forceDecimals: true })}x </span></div>
+ )}
  {hasCompanyPrestige && (
  <div>Company Prestige Multiplier: <span className="font-medium">{formatNumber(breakdown.companyPrestigeMultiplier, { decimals: 2, forceDecimals: true })}x </span></div>
  )}
@@ -166,10 +174,10 @@ const EstimatedPriceDisplay: React.FC<{
  )}
  <div className="border-t pt-1 mt-1">Final Estimated Price: <span className="font-medium">{formatNumber(breakdown.finalPrice, { currency: true, decimals: 2 })}</span></div>
  <div className="border-t pt-1 mt-2 text-[10px] text-gray-500">
- Formula: Base Price (Wine Score x Base Rate) x Score Curve x Land Multiplier{hasFeatureMultiplier ? ' x Feature Multiplier' : ''}{hasCompanyPrestige ? ' x Company Prestige' : ''}{hasVineyardPrestige ? ' x Vineyard Prestige' : ''}
+ Formula: Base Price (Wine Score x Base Rate) x Score Curve x Land Multiplier{hasFeatureMultiplier ? ' x Feature Multiplier' : ''}{hasSweetWineMultiplier ? ' x Sweet Wine' : ''}{hasBottleFormatMultiplier ? ' x Bottle Format' : ''}{hasCompanyPrestige ? ' x Company Prestige' : ''}{hasVineyardPrestige ? ' x Vineyard Prestige' : ''}
  </div>
  <div className="text-[10px] text-gray-500">
- = {formatNumber(breakdown.wineScore, { decimals: 3, forceDecimals: true })} x {formatNumber(breakdown.baseRate, { decimals: 2, forceDecimals: true })} x {formatNumber(breakdown.wineScoreMultiplier, { decimals: 3, forceDecimals: true })} x {formatNumber(breakdown.landValuePriceMultiplier, { decimals: 3, forceDecimals: true })}{hasFeatureMultiplier ? ` x ${formatNumber(breakdown.featurePriceMultiplier, { decimals: 3, forceDecimals: true })}` : ''}{hasCompanyPrestige ? ` x ${formatNumber(breakdown.companyPrestigeMultiplier, { decimals: 3, forceDecimals: true })}` : ''}{hasVineyardPrestige ? ` x ${formatNumber(breakdown.vineyardPrestigeMultiplier, { decimals: 3, forceDecimals: true })}` : ''}
+ = {formatNumber(breakdown.wineScore, { decimals: 3, forceDecimals: true })} x {formatNumber(breakdown.baseRate, { decimals: 2, forceDecimals: true })} x {formatNumber(breakdown.wineScoreMultiplier, { decimals: 3, forceDecimals: true })} x {formatNumber(breakdown.landValuePriceMultiplier, { decimals: 3, forceDecimals: true })}{hasFeatureMultiplier ? ` x ${formatNumber(breakdown.featurePriceMultiplier, { decimals: 3, forceDecimals: true })}` : ''}{hasSweetWineMultiplier ? ` x ${formatNumber(breakdown.sweetWinePriceMultiplier, { decimals: 3, forceDecimals: true })}` : ''}{hasBottleFormatMultiplier ? ` x ${formatNumber(breakdown.bottleFormatPriceMultiplier, { decimals: 3, forceDecimals: true })}` : ''}{hasCompanyPrestige ? ` x ${formatNumber(breakdown.companyPrestigeMultiplier, { decimals: 3, forceDecimals: true })}` : ''}{hasVineyardPrestige ? ` x ${formatNumber(breakdown.vineyardPrestigeMultiplier, { decimals: 3, forceDecimals: true })}` : ''}
  </div>
  </div>
  }
@@ -30,6 +30,12 @@ export function CountriesTab() {
                     {formatPercent(data.wineTradition, 0, true)}
                   </span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="font-medium text-gray-700">Sparkling Affinity:</span>
+                  <span className={`font-bold ${getColorClass(data.sparklingAffinity)}`}>
+                    {formatPercent(data.sparklingAffinity, 0, true)}
+                  </span>
+                </div>
               </div>
               
               <div className="border-t pt-3">
@@ -36,6 +36,10 @@ export function CustomerTypesTab() {
                   <span className="font-medium text-gray-700">Multiple Order Penalty:</span>
                   <p className="text-gray-600">{formatPercent(config.multipleOrderPenalty, 0, true)}</p>
                 </div>
+                <div>
+                  <span className="font-medium text-gray-700">Sparkling Wine Bid:</span>
+                  <p className="text-gray-600">{formatPercent(config.sparklingPriceMultiplier, 0, true)}</p>
+                </div>
               </div>
             </div>
           </GridCard>
@@ -1,7 +1,92 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
 import { ECONOMY_PHASES, ECONOMY_SALES_MULTIPLIERS } from '@/lib/constants/economyConstants';
 import { ECONOMY_INTEREST_MULTIPLIERS } from '@/lib/constants/economyConstants';
 import { BUY_MARKET_FIXED_SPREAD } from '@/lib/constants/buyGrapeMarketConstants';
 import { BUYER_ECONOMY_LIMIT_MULTIPLIERS, BUYER_ECONOMY_PRICE_MULTIPLIERS, BUYER_ECONOMY_VOLATILITY_AMPLITUDE, BUYER_ECONOMY_VOLATILITY_PRESSURE } from '@/lib/constants/grapeBuyerMarketConstants';
+import { BOTTLE_MARKET_COUNTRIES, BOTTLE_MARKET_ECONOMY_DEMAND, BOTTLE_MARKET_ECONOMY_SENSITIVITY, BOTTLE_MARKET_STYLES, BOTTLE_MARKET_STYLE_LABELS } from '@/lib/constants/bottleMarketConstants';
+import { useGameStateWithData } from '@/hooks';
+import { getBottleMarket } from '@/lib/services';
+import { BottleMarketStyle, CustomerCountry } from '@/lib/types/types';
+import { formatNumber } from '@/lib/utils/utils';
+
+const COUNTRY_LINE_COLORS: Record<CustomerCountry, string> = {
+  'France': '#3b82f6',
+  'Germany': '#f59e0b',
+  'Italy': '#10b981',
+  'Spain': '#ef4444',
+  'United States': '#8b5cf6',
+  'United Kingdom': '#0ea5e9',
+  'Scandinavia': '#64748b',
+  'Japan': '#ec4899',
+  'China': '#a16207'
+};
+
+const toNumber = (value: unknown): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : Number(value ?? 0)
+);
+
+/**
+ * Weekly bottle market price level per country for one wine style
+ */
+function BottleMarketChart() {
+  const [style, setStyle] = useState<BottleMarketStyle>('red');
+  const segments = useGameStateWithData(
+    () => getBottleMarket(),
+    [],
+    { topic: 'bottle_market' }
+  );
+
+  const chartData = useMemo(() => {
+    const styleSegments = segments.filter(segment => segment.style === style);
+    const weeks = styleSegments[0]?.history ?? [];
+    return weeks.map(point => {
+      const row: Record<string, string | number> = { label: `W${point.week} ${point.season.slice(0, 2)} ${point.year}` };
+      for (const segment of styleSegments) {
+        const match = segment.history.find(h => h.week === point.week && h.season === point.season && h.year === point.year);
+        if (match) row[segment.country] = match.priceIndex;
+      }
+      return row;
+    });
+  }, [segments, style]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <p className="font-medium">Bottle Market: Price Level by Country</p>
+        <div className="flex space-x-1 text-xs">
+          {BOTTLE_MARKET_STYLES.map(option => (
+            <button
+              key={option}
+              onClick={() => setStyle(option)}
+              className={`px-2 py-0.5 rounded ${style === option ? 'bg-amber-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              {BOTTLE_MARKET_STYLE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {chartData.length === 0 ? (
+        <p className="text-xs text-gray-500">No market history yet. Prices are recorded each week as the game advances.</p>
+      ) : (
+        <div className="h-56 w-full max-w-4xl mx-auto">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} minTickGap={24} />
+              <YAxis domain={['auto', 'auto']} tickFormatter={(value) => formatNumber(value, { decimals: 2, forceDecimals: true })} />
+              <RechartsTooltip formatter={(value, name) => [`×${formatNumber(toNumber(value), { decimals: 2, forceDecimals: true })}`, name]} />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              {BOTTLE_MARKET_COUNTRIES.map(country => (
+                <Line key={country} type="monotone" dataKey={country} stroke={COUNTRY_LINE_COLORS[country]} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
 
 export function EconomyTab() {
   return (
@@ -15,6 +100,7 @@ export function EconomyTab() {
         <p className="font-medium">Where Economy Phase Is Currently Applied</p>
         <ul className="text-xs space-y-1 list-disc pl-4">
           <li>Customer acquisition and order generation frequency.</li>
+          <li>Bottle market demand per country and wine style.</li>
           <li>Order quantity pressure and high-price tolerance behavior.</li>
           <li>Multiple-order chance through penalty modulation.</li>
           <li>Loan effective interest rates.</li>
@@ -46,6 +132,14 @@ export function EconomyTab() {
                 <td className="py-1 pr-2">Higher</td>
                 <td className="py-1 pr-2">High</td>
               </tr>
+              <tr className="border-b">
+                <td className="py-1 pr-2 font-medium">Bottle Market Demand</td>
+                <td className="py-1 pr-2">Weak</td>
+                <td className="py-1 pr-2">Soft</td>
+                <td className="py-1 pr-2">Baseline</td>
+                <td className="py-1 pr-2">Firm</td>
+                <td className="py-1 pr-2">Strong</td>
+              </tr>
               <tr className="border-b">
                 <td className="py-1 pr-2 font-medium">Loan Interest</td>
                 <td className="py-1 pr-2">High</td>
@@ -116,6 +210,42 @@ export function EconomyTab() {
           </div>
         </div>
 
+        {/* Bottle market */}
+        <div>
+          <p className="font-medium mb-1">Bottle Market: Economy Demand</p>
+          <p className="text-xs text-gray-300 mb-2">
+            Each country and wine style has its own demand and supply. Demand drifts toward the economy phase and the
+            season, supply toward regional production and harvest weather, and our own sales saturate the market they
+            go into, cheap sales most of all. The price level moves customer bids; demand and saturation move order size.
+          </p>
+          <div className="overflow-x-auto max-w-4xl mx-auto">
+            <table className="w-full text-left text-xs border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-1 pr-2">Phase</th>
+                  {BOTTLE_MARKET_STYLES.map(style => (
+                    <th key={`bottle-head-${style}`} className="py-1 pr-2">{BOTTLE_MARKET_STYLE_LABELS[style]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ECONOMY_PHASES.map((phase) => (
+                  <tr key={`bottle-${phase}`} className="border-b">
+                    <td className="py-1 pr-2 font-medium">{phase}</td>
+                    {BOTTLE_MARKET_STYLES.map(style => (
+                      <td key={`bottle-${phase}-${style}`} className="py-1 pr-2">
+                        ×{(1 + (BOTTLE_MARKET_ECONOMY_DEMAND[phase] - 1) * BOTTLE_MARKET_ECONOMY_SENSITIVITY[style]).toFixed(2)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <BottleMarketChart />
+
         {/* Loan interest */}
         <div>
           <p className="font-medium mb-1">Loan Interest Multipliers</p>
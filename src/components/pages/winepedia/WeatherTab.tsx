@@ -36,6 +36,20 @@ export function WeatherTab() {
         <div className="overflow-x-auto"><table className="w-full text-left text-xs"><thead><tr className="border-b"><th className="p-1">State</th>{reference.marketMatrix[0].intensities.map((cell) => <th className="p-1" key={cell.intensity}>{cell.intensity}</th>)}</tr></thead><tbody>{reference.marketMatrix.map((row) => <tr className="border-b" key={row.state}><td className="p-1 font-medium">{getWeatherIcon(row.state)} {row.state}</td>{row.intensities.map((cell) => <td className="p-1" key={cell.intensity}>×{cell.priceMultiplier.toFixed(2)} / ×{cell.supplyMultiplier.toFixed(2)}</td>)}</tr>)}</tbody></table></div>
       </section>
 
+      <section>
+        <p className="mb-1 font-medium">Vintage weather effects</p>
+        <p className="mb-2 text-xs text-slate-500">{reference.vintageRules} See Vintage Reports to compare vintages across vineyards and years.</p>
+        <div className="overflow-x-auto"><table className="w-full text-left text-xs"><thead><tr className="border-b"><th className="p-1">State</th><th className="p-1">Yield</th><th className="p-1">Quality</th><th className="p-1">Sugar</th><th className="p-1">Acid</th></tr></thead><tbody>{reference.vintageMatrix.map((row) => <tr className="border-b" key={row.state}><td className="p-1 font-medium">{getWeatherIcon(row.state)} {row.state}</td>{[row.yield, row.quality, row.sugar, row.acid].map((value, index) => <td className="p-1" key={index}>{value >= 0 ? '+' : ''}{value.toFixed(2)}</td>)}</tr>)}</tbody></table></div>
+        <p className="mt-1 text-xs text-slate-500">Per full-weight growing-season week, divided by the season length.</p>
+      </section>
+
+      <section><p className="font-medium">Soil moisture and irrigation</p><p className="text-slate-500">{reference.moistureRules}</p></section>
+      <section>
+        <p className="font-medium">Severe weather and mitigation</p>
+        <ul className="mt-1 list-disc space-y-1 pl-5 text-slate-500">
+          {reference.severeWeatherRules.map((rule) => <li key={rule}>{rule}</li>)}
+        </ul>
+      </section>
       <section><p className="font-medium">Forecast behavior</p><p className="text-slate-500">{reference.forecastBehavior}</p></section>
       <section><p className="font-medium">Current scope</p><p className="text-slate-500">{reference.scope}</p></section>
     </div>
@@ -1,14 +1,153 @@
 import { SimpleCard } from '@/components/ui';
+import {
+  SPARKLING_DISGORGEMENT_LOSS,
+  SPARKLING_DOSAGES,
+  SPARKLING_FULL_AUTOLYSIS_WEEKS,
+  SPARKLING_MIN_TIRAGE_WEEKS,
+  SPARKLING_SECONDARY_FERMENTATION_WEEKS
+} from '@/lib/constants/sparklingConstants';
+import { FORTIFICATION, SWEET_WINE_SWEET_THRESHOLD } from '@/lib/constants/sweetWineConstants';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS } from '@/lib/constants/bottlingConstants';
+import { CELLAR_OPERATIONS } from '@/lib/constants/cellarOperationConstants';
+import { formatNumber } from '@/lib/utils/utils';
+
+const STILL_WINE_STEPS = [
+  { name: 'Crushing', description: 'Grapes are destemmed and crushed into must. Rosé and saignée options decide how long the juice stays on the skins.' },
+  { name: 'Fermentation', description: 'Yeast converts sugar to alcohol. Method and temperature shape the weekly changes to sweetness, body and aroma. Malolactic conversion softens acidity, and bâtonnage or sur-lie aging build lees character.' },
+  { name: 'Maturation (optional)', description: 'The wine rests in its storage vessels. Oak, steel and concrete each develop the wine differently week by week.' },
+  { name: 'Bottling', description: 'The wine leaves its vessels and is bottled at 1.5 kg per bottle, ready for sale and bottle aging.' }
+];
 
 export function WinemakingTab() {
+  const sparklingSteps = [
+    {
+      name: 'Tirage',
+      description: `A fermenting or maturing base wine is bottled with liqueur de tirage and crown-capped. A second fermentation in bottle lasts about ${SPARKLING_SECONDARY_FERMENTATION_WEEKS} weeks, drying the wine and lifting its acidity.`
+    },
+    {
+      name: 'Aging on the lees',
+      description: `After the second fermentation the wine rests on its lees. Autolysis adds body and bready, toasty aroma, fastest in the first ${SPARKLING_FULL_AUTOLYSIS_WEEKS} weeks. Wines with strong lees character gain the most.`
+    },
+    {
+      name: 'Riddling',
+      description: `Once the wine has spent at least ${SPARKLING_MIN_TIRAGE_WEEKS} weeks on the lees, the bottles are turned until the sediment collects in the neck.`
+    },
+    {
+      name: 'Disgorgement',
+      description: `The lees plug is frozen and removed, and the dosage is added. About ${formatNumber(SPARKLING_DISGORGEMENT_LOSS * 100, { smartDecimals: true })}% of bottles are lost. The wine is then bottled and ready for sale.`
+    }
+  ];
+
   return (
     <SimpleCard
       title="Winemaking Process"
       description="Understand the steps involved in creating fine wines"
     >
       <div className="space-y-6">
-        <div className="text-center py-8">
-          <p className="text-gray-600">Content coming soon...</p>
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Still Wine</h3>
+          <ol className="space-y-2 list-decimal list-inside text-sm">
+            {STILL_WINE_STEPS.map(step => (
+              <li key={step.name}>
+                <span className="font-medium">{step.name}:</span>{' '}
+                <span className="text-gray-600">{step.description}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Cellar Work</h3>
+          <p className="text-sm text-gray-600 mb-2">
+            Before bottling, stored wine can be worked in the cellar. Each operation costs a little volume and structure but lowers the risk of oxidation and a stuck fermentation.
+          </p>
+          <ul className="space-y-2 list-disc list-inside text-sm">
+            {Object.values(CELLAR_OPERATIONS).map(info => (
+              <li key={info.label}>
+                <span className="font-medium">{info.label}:</span>{' '}
+                <span className="text-gray-600">{info.description}. About {formatNumber(info.volumeLoss * 100, { smartDecimals: true })}% of the volume is lost.</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500 mt-2">
+            Racking moves the wine into other Storage Vessels. The vessels it leaves are dirty and need cleaning. Filtration is not possible during fermentation.
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Sweet and Fortified Wine</h3>
+          <p className="text-sm text-gray-600 mb-2">
+            Wine that ferments to the end is dry. To keep sugar in the wine, stop fermentation early. The earlier you stop it, the more sugar stays. Late harvest and noble rot grapes add extra sugar.
+          </p>
+          <ul className="space-y-2 list-disc list-inside text-sm">
+            <li>
+              <span className="font-medium">Arrest Fermentation:</span>{' '}
+              <span className="text-gray-600">The yeast is chilled and filtered out. The wine is off-dry, or sweet once its sweetness reaches {formatNumber(SWEET_WINE_SWEET_THRESHOLD * 100, { smartDecimals: true })}%.</span>
+            </li>
+            <li>
+              <span className="font-medium">Fortify:</span>{' '}
+              <span className="text-gray-600">Grape spirit is added, port style. This costs {formatNumber(FORTIFICATION.SPIRIT_COST_PER_LITRE, { currency: true })} per litre of spirit, {formatNumber(FORTIFICATION.SPIRIT_LITRES_PER_LITRE * 100, { smartDecimals: true })} L per 100 L of wine. It adds body.</span>
+            </li>
+          </ul>
+          <p className="text-xs text-gray-500 mt-2">
+            Sweet and fortified wines follow their own price curve. Great examples earn a large premium, and weak ones sell at a discount. Some contracts ask for a specific sweetness style. Sweet wines are often bottled in half bottles.
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Bottling</h3>
+          <p className="text-sm text-gray-600 mb-2">
+            At bottling you choose a bottle format and a closure. The format sets how many bottles the wine fills. Both change how fast the wine ages in bottle, its oxidation risk and what each customer type will pay. Bottles and closures are charged as packaging.
+          </p>
+          <ul className="space-y-2 list-disc list-inside text-sm">
+            {Object.entries(BOTTLE_FORMATS).map(([format, info]) => (
+              <li key={format}>
+                <span className="font-medium">{info.label}:</span>{' '}
+                <span className="text-gray-600">
+                  Priced at {formatNumber(info.priceFactor * 100, { smartDecimals: true })}% of a standard bottle. Ages at {formatNumber(info.agingSpeed * 100, { smartDecimals: true })}% speed. Costs {formatNumber(info.packagingCostPerBottle, { currency: true, decimals: 2 })} per bottle.
+                </span>
+              </li>
+            ))}
+            {Object.entries(BOTTLE_CLOSURES).map(([closure, info]) => (
+              <li key={closure}>
+                <span className="font-medium">{info.label}:</span>{' '}
+                <span className="text-gray-600">{info.description}. Costs {formatNumber(info.costPerBottle, { currency: true, decimals: 2 })} per bottle.</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500 mt-2">
+            Collectors pay more for magnums and natural corks. Chain stores prefer bag-in-box and screwcaps.
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Traditional Method Sparkling</h3>
+          <p className="text-sm text-gray-600 mb-2">
+            Instead of bottling, a base wine can follow the Traditional Method. Each step is an activity that needs work and costs materials per bottle.
+          </p>
+          <ol className="space-y-2 list-decimal list-inside text-sm">
+            {sparklingSteps.map(step => (
+              <li key={step.name}>
+                <span className="font-medium">{step.name}:</span>{' '}
+                <span className="text-gray-600">{step.description}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div>
+          <h4 className="font-medium text-gray-700 mb-2">Dosage Options</h4>
+          <div className="space-y-1 text-sm">
+            {Object.entries(SPARKLING_DOSAGES).map(([dosage, info]) => (
+              <div key={dosage} className="flex justify-between items-center">
+                <span className="text-gray-600">{info.label}: {info.description}</span>
+                <span className="font-medium">+{formatNumber(info.sweetness * 100, { smartDecimals: true })}% sweetness</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Customers pay more or less for sparkling wine depending on their type and country. See the Customer Types and Countries tabs.
+          </p>
         </div>
       </div>
     </SimpleCard>
@@ -42,6 +42,8 @@ export * from './modals/UImodals/StartingConditionsModal';
 // Default exports (must use named export syntax)
 export { default as WineModal } from './modals/UImodals/wineModal';
 export { default as SellGrapesModal } from './modals/activitymodals/SellGrapesModal';
+export { default as BottlingOptionsModal } from './modals/activitymodals/BottlingOptionsModal';
+export { default as SplitBatchModal } from './modals/activitymodals/SplitBatchModal';
 export { default as BuyMarketModal } from './market/BuyMarketModal';
 export { default as VineyardModal } from './modals/UImodals/vineyardModal';
 
@@ -15,6 +15,7 @@ import { purchaseBuyMarketOfferForDomain } from '@/lib/services/market/buyMarket
 import { formatNumber, getColorClass, getQualityInfo } from '@/lib/utils';
 import { calculateCompanyValue } from '@/lib/services/finance/financeService';
 import { getGameState } from '@/lib/services/core/gameState';
+import { getStorageVesselImprintSummary } from '@/lib/services/wine/winery/storageVesselImprintService';
 import { STORAGE_VESSEL_REFERENCE_CAPACITY_LITRES } from '@/lib/constants/storageVesselConstants';
 import {
   BUY_MARKET_COUNTERPARTY_LEVELS,
@@ -135,6 +136,7 @@ export const StorageVesselMarketPanel: React.FC<StorageVesselMarketPanelProps> =
   const marketState = getGameState();
   const selectedRelationship = selectedOffer?.counterpartyRelationship;
   const currentYear = marketState.currentYear ?? 0;
+  const marketDate = useMemo(() => ({ week: marketState.week ?? 1, season: marketState.season ?? 'Spring', year: currentYear }), [currentYear, marketState.season, marketState.week]);
 
   const trustPreview = useMemo(() => {
     if (!selectedOffer) return null;
@@ -169,9 +171,18 @@ export const StorageVesselMarketPanel: React.FC<StorageVesselMarketPanelProps> =
     { key: 'capacity', header: headerWithTooltip('Capacity', 'Fixed capacity for each individually owned vessel.'), sortable: true, className: 'text-right', render: (offer) => `${offer.payload.capacityLitres.toLocaleString()} L` },
     { key: 'material', header: 'Material', sortable: false, className: 'text-right capitalize', render: (offer) => offer.payload.material.replace('_', ' ') },
     { key: 'age', header: headerWithTooltip('Cask age', 'Production year and current cask age.'), sortable: true, className: 'text-right', render: (offer) => `${Math.max(0, (currentYear || offer.payload.productionYear) - offer.payload.productionYear)} years (${offer.payload.productionYear})` },
-    { key: 'quality', header: headerWithTooltip('Quality', 'Cask quality is shown now; its gameplay effects remain deferred.'), sortable: true, className: 'text-right', render: (offer) => <span className={getColorClass(offer.payload.qualityScore)}>{getQualityInfo(offer.payload.qualityScore).category} ({offer.payload.qualityScore.toFixed(2)})</span> },
+    { key: 'quality', header: headerWithTooltip('Quality', 'Cask quality refines wood extraction while wine matures in the vessel.'), sortable: true, className: 'text-right', render: (offer) => <span className={getColorClass(offer.payload.qualityScore)}>{getQualityInfo(offer.payload.qualityScore).category} ({offer.payload.qualityScore.toFixed(2)})</span> },
     { key: 'condition', header: 'Condition', sortable: false, className: 'text-right', render: (offer) => `${Math.round((offer.payload.condition ?? 1) * 100)}%` },
-    { key: 'fills', header: 'Fills', sortable: false, className: 'text-right', render: (offer) => offer.payload.fillHistory ?? 0 },
+    {
+      key: 'fills',
+      header: headerWithTooltip('Fills', 'Completed fills. Used casks also show the memory their recent fills left behind.'),
+      sortable: false,
+      className: 'text-right',
+      render: (offer) => {
+        const imprintSummary = offer.listedVessel ? getStorageVesselImprintSummary(offer.listedVessel, marketDate) : null;
+        return <div>{offer.payload.fillHistory ?? 0}{imprintSummary && <div className="text-[11px] text-purple-300">{imprintSummary}</div>}</div>;
+      },
+    },
     { key: 'cleanliness', header: 'Cleanliness', sortable: false, className: 'text-right capitalize', render: (offer) => offer.payload.cleanliness ?? 'clean' },
     { key: 'available', header: headerWithTooltip('Supply', 'Global assets are one-off. Local supplier stock is company-specific.'), sortable: true, className: 'text-right', render: (offer) => offer.source.kind === 'supplier_stock' ? `${offer.availableUnits} vessels` : '1 vessel' },
     {
@@ -188,7 +199,7 @@ export const StorageVesselMarketPanel: React.FC<StorageVesselMarketPanelProps> =
       className: 'w-[160px] text-right',
       render: (offer) => <div onClick={(event) => event.stopPropagation()}><MarketQuickBuyRowAction quantity={getQuantity(offer)} maxQuantity={offer.availableUnits} unitLabel="vessel(s)" disabled={loading} onQuantityChange={(quantity) => setQuantityByOfferId((current) => ({ ...current, [offer.id]: quantity }))} />{errorByOfferId[offer.id] && <div className="mt-1 flex justify-end gap-1 text-[11px] text-red-300"><AlertTriangle className="h-3 w-3" />{errorByOfferId[offer.id]}</div>}</div>,
     },
-  ], [currentYear, errorByOfferId, getQuantity, headerWithTooltip, loading]);
+  ], [currentYear, errorByOfferId, getQuantity, headerWithTooltip, loading, marketDate]);
 
   const handlePurchase = useCallback(async () => {
     if (!selectedOffer) return;
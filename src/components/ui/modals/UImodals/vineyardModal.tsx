@@ -1,23 +1,125 @@
-import React from 'react';
-import { Vineyard as VineyardType } from '@/lib/types/types';
+import React, { useState } from 'react';
+import { Vineyard as VineyardType, VineyardHistoryEvent, VineyardHistoryEventType } from '@/lib/types/types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../../shadCN/dialog';
 import { Card, CardContent, CardHeader, CardTitle } from '../../shadCN/card';
 import { Badge } from '../../shadCN/badge';
 import { Separator } from '../../shadCN/separator';
 import { TooltipSection, TooltipRow, tooltipStyles, UnifiedTooltip } from '../../shadCN/tooltip';
-import { Grape, MapPin, Ruler, Mountain, Compass, BarChart3 } from 'lucide-react';
+import { Grape, MapPin, Ruler, Mountain, Compass, BarChart3, History, LayoutGrid } from 'lucide-react';
 import { DialogProps } from '@/lib/types/UItypes';
 import { formatNumber, getBadgeColorClasses, getFlagIcon, formatPercent, getColorCategory, getColorClass, getRangeColor } from '@/lib/utils';
-import { getAltitudeRating, getAspectRating, calculateVineyardExpectedYield } from '@/lib/services';
+import { getAltitudeRating, getAspectRating, calculateVineyardExpectedYield, getParcelName, getVineyardDisplayName } from '@/lib/services';
+import { VINEYARD_PARCELS } from '@/lib/constants/vineyardConstants';
+import { ROOTSTOCKS, VINE_CLONES } from '@/lib/constants/plantingMaterialConstants';
 import { REGION_ALTITUDE_RANGES, REGION_ASPECT_RATINGS, REGION_PRESTIGE_RANKINGS, REGION_PRICE_RANGES } from '@/lib/constants/vineyardConstants';
 import { getRegionalPriceRange } from '@/lib/services';
 import { getVineyardLandValueModifierFactors } from '@/lib/services/wine/winescore/landValueModifierCalculation';
 
 interface VineyardModalProps extends DialogProps {
   vineyard: VineyardType | null;
+  history?: VineyardHistoryEvent[]; // Lifecycle events for this vineyard, oldest first
+  grapeTenureYears?: number;
+  parcels?: VineyardType[]; // Every parcel of this vineyard's estate, the original vineyard first
+  onSplitParcel?: (options: { name: string; hectares: number }) => void;
 }
 
-const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard }) => {
+const HISTORY_EVENT_LABELS: Record<VineyardHistoryEventType, string> = {
+  purchased: 'Purchased',
+  planted: 'Planted',
+  uprooted: 'Uprooted',
+  replanted: 'Replanted',
+  sold: 'Sold'
+};
+
+function describeHistoryEvent(event: VineyardHistoryEvent): string {
+  const share = event.intensity !== undefined && event.intensity < 1 ? ` (${formatPercent(event.intensity, 0, true)} of vines)` : '';
+  switch (event.eventType) {
+    case 'purchased':
+      return `Bought for ${formatNumber(event.amount ?? 0, { currency: true })}`;
+    case 'planted':
+      return `${event.grape ?? 'Vines'} at ${formatNumber(event.density ?? 0, { decimals: 0 })} vines/ha`;
+    case 'uprooted':
+    case 'replanted':
+      return `${event.grape ?? 'Vines'}${share}`;
+    case 'sold':
+      return `Sold for ${formatNumber(event.amount ?? 0, { currency: true })}`;
+  }
+}
+
+const ParcelsCard: React.FC<{
+  vineyard: VineyardType;
+  parcels: VineyardType[];
+  onSplitParcel?: (options: { name: string; hectares: number }) => void;
+}> = ({ vineyard, parcels, onSplitParcel }) => {
+  const [name, setName] = useState('');
+  const [hectares, setHectares] = useState(Math.max(VINEYARD_PARCELS.minHectares, Number((vineyard.hectares / 2).toFixed(2))));
+  const maxHectares = Number((vineyard.hectares - VINEYARD_PARCELS.minHectares).toFixed(2));
+  const canSplit = maxHectares >= VINEYARD_PARCELS.minHectares && parcels.length < VINEYARD_PARCELS.maxPerEstate;
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="text-xs font-medium flex items-center gap-2">
+          <LayoutGrid className="h-4 w-4" /> Parcels
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="py-3 text-sm space-y-3">
+        <div className="text-xs text-muted-foreground">
+          Parcels share the estate's soil, altitude, aspect and land value; each grows its own grape and is planted, cleared and harvested on its own.
+        </div>
+        <div className="divide-y">
+          {parcels.map((parcel) => (
+            <div key={parcel.id} className="py-1.5 flex items-center justify-between gap-3 text-xs">
+              <div className="flex items-center gap-2">
+                <span className={parcel.id === vineyard.id ? 'font-semibold' : ''}>{getParcelName(parcel)}</span>
+                <Badge variant="outline">{parcel.grape ?? 'Unplanted'}</Badge>
+                <span className="text-muted-foreground">{parcel.status}</span>
+              </div>
+              <span className="text-muted-foreground whitespace-nowrap">
+                {parcel.hectares} ha · Health {formatPercent(parcel.vineyardHealth, 0, true)}
+                {parcel.grape ? ` · Ripeness ${formatPercent(parcel.ripeness, 0, true)}` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+        {onSplitParcel && canSplit && (
+          <div className="flex flex-wrap items-end gap-2 text-xs">
+            <label className="flex flex-col gap-1">
+              <span className="text-muted-foreground">New parcel name</span>
+              <input
+                className="border rounded px-2 py-1"
+                value={name}
+                placeholder="e.g. North Block"
+                onChange={(event) => setName(event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-muted-foreground">Hectares (of {vineyard.hectares})</span>
+              <input
+                type="number"
+                className="border rounded px-2 py-1 w-24"
+                min={VINEYARD_PARCELS.minHectares}
+                max={maxHectares}
+                step={0.1}
+                value={hectares}
+                onChange={(event) => setHectares(Number(event.target.value))}
+              />
+            </label>
+            <button
+              className="px-2 py-1 rounded font-medium bg-green-600 hover:bg-green-700 text-white disabled:bg-gray-300 disabled:text-gray-500"
+              disabled={!name.trim() || hectares < VINEYARD_PARCELS.minHectares || hectares > maxHectares}
+              onClick={() => onSplitParcel({ name, hectares })}
+            >
+              Split off {getParcelName(vineyard)}
+            </button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard, history = [], grapeTenureYears = 0, parcels = [], onSplitParcel }) => {
   if (!vineyard) return null;
 
   const altitudeRating = getAltitudeRating(vineyard.country, vineyard.region, vineyard.altitude);
@@ -65,7 +167,7 @@ const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard
             <div>
               <div className="text-white text-lg font-semibold flex items-center gap-2">
                 <Grape className="h-5 w-5" />
-                {vineyard.name}
+                {getVineyardDisplayName(vineyard)}
               </div>
               <div className="text-white/80 text-xs flex items-center gap-2">
                 <span className={getFlagIcon(vineyard.country)} />
@@ -226,6 +328,15 @@ const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard
                   <span className="text-muted-foreground">Density</span>
                   <span className="font-medium">{vineyard.density > 0 ? `${formatNumber(vineyard.density, { decimals: 0 })} vines/ha` : 'Not planted'}</span>
                 </div>
+                {(vineyard.rootstock || vineyard.vineClone) && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Planting material</span>
+                    <span className="font-medium">
+                      {VINE_CLONES[vineyard.vineClone ?? 'standard'].label}
+                      {vineyard.rootstock ? ` on ${ROOTSTOCKS[vineyard.rootstock].label}` : ''}
+                    </span>
+                  </div>
+                )}
                 
                 {/* Vineyard Health */}
                 <div className="pt-2">
@@ -489,6 +600,36 @@ const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard
                                   value={formatPercent(yieldBreakdown.breakdown.health, 1)}
                                   valueRating={yieldBreakdown.breakdown.health}
                                 />
+                                {yieldBreakdown.breakdown.farming !== 1 && (
+                                  <TooltipRow
+                                    label="Farming Method"
+                                    value={formatPercent(yieldBreakdown.breakdown.farming, 1)}
+                                  />
+                                )}
+                                {yieldBreakdown.breakdown.canopy !== 1 && (
+                                  <TooltipRow
+                                    label="Canopy Work"
+                                    value={formatPercent(yieldBreakdown.breakdown.canopy, 1)}
+                                  />
+                                )}
+                                {yieldBreakdown.breakdown.vintage !== 1 && (
+                                  <TooltipRow
+                                    label="Vintage Weather"
+                                    value={formatPercent(yieldBreakdown.breakdown.vintage, 1)}
+                                  />
+                                )}
+                                {yieldBreakdown.breakdown.weather !== 1 && (
+                                  <TooltipRow
+                                    label="Severe Weather"
+                                    value={formatPercent(yieldBreakdown.breakdown.weather, 1)}
+                                  />
+                                )}
+                                {yieldBreakdown.breakdown.disease !== 1 && (
+                                  <TooltipRow
+                                    label="Vine Disease"
+                                    value={formatPercent(yieldBreakdown.breakdown.disease, 1)}
+                                  />
+                                )}
                               </TooltipSection>
                             </div>
                           }
@@ -556,6 +697,46 @@ const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard
                               {formatPercent(yieldBreakdown.breakdown.health, 1)}
                             </span>
                           </div>
+                          {yieldBreakdown.breakdown.farming !== 1 && (
+                            <div className="text-xs flex justify-between">
+                              <span>Farming Method:</span>
+                              <span className={`font-medium ${getColorClass(yieldBreakdown.breakdown.farming)}`}>
+                                {formatPercent(yieldBreakdown.breakdown.farming, 1)}
+                              </span>
+                            </div>
+                          )}
+                          {yieldBreakdown.breakdown.canopy !== 1 && (
+                            <div className="text-xs flex justify-between">
+                              <span>Canopy Work:</span>
+                              <span className={`font-medium ${getColorClass(yieldBreakdown.breakdown.canopy)}`}>
+                                {formatPercent(yieldBreakdown.breakdown.canopy, 1)}
+                              </span>
+                            </div>
+                          )}
+                          {yieldBreakdown.breakdown.vintage !== 1 && (
+                            <div className="text-xs flex justify-between">
+                              <span>Vintage Weather:</span>
+                              <span className={`font-medium ${getColorClass(yieldBreakdown.breakdown.vintage)}`}>
+                                {formatPercent(yieldBreakdown.breakdown.vintage, 1)}
+                              </span>
+                            </div>
+                          )}
+                          {yieldBreakdown.breakdown.weather !== 1 && (
+                            <div className="text-xs flex justify-between">
+                              <span>Severe Weather:</span>
+                              <span className={`font-medium ${getColorClass(yieldBreakdown.breakdown.weather)}`}>
+                                {formatPercent(yieldBreakdown.breakdown.weather, 1)}
+                              </span>
+                            </div>
+                          )}
+                          {yieldBreakdown.breakdown.disease !== 1 && (
+                            <div className="text-xs flex justify-between">
+                              <span>Vine Disease:</span>
+                              <span className={`font-medium ${getColorClass(yieldBreakdown.breakdown.disease)}`}>
+                                {formatPercent(yieldBreakdown.breakdown.disease, 1)}
+                              </span>
+                            </div>
+                          )}
                           <div className="border-t pt-1 mt-1">
                             <div className="text-xs flex justify-between font-medium">
                               <span>Combined:</span>
@@ -638,7 +819,7 @@ const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard
                         </UnifiedTooltip>
                       </div>
                       <div className="text-xs text-gray-600">
-                        Annual adjustments to total value: planted grape suitability (up to ~5%), vine age × prestige (up to ~3%), vineyard prestige (up to ~2%).
+                        Annual adjustments to total value: planted grape suitability (up to ~5%), vine age × prestige (up to ~3%), vineyard prestige (up to ~2%), years with the same grape (up to ~3%).
                       </div>
                       <div className="space-y-1">
                         <div className="font-medium text-gray-700 mb-1">Regional Price Range ({vineyard.region}):</div>
@@ -677,6 +858,49 @@ const VineyardModal: React.FC<VineyardModalProps> = ({ isOpen, onClose, vineyard
               return null;
             }
           })()}
+
+          {/* Estate Parcels */}
+          {(parcels.length > 0 || onSplitParcel) && (
+            <ParcelsCard
+              key={vineyard.id}
+              vineyard={vineyard}
+              parcels={parcels.length > 0 ? parcels : [vineyard]}
+              onSplitParcel={onSplitParcel}
+            />
+          )}
+
+          {/* Vineyard History */}
+          <Card>
+            <CardHeader className="py-3">
+              <CardTitle className="text-xs font-medium flex items-center gap-2">
+                <History className="h-4 w-4" /> Vineyard History
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="py-3 text-sm space-y-2">
+              <div className="text-xs text-muted-foreground">
+                {vineyard.grape
+                  ? `${vineyard.grape} planted for ${grapeTenureYears} year${grapeTenureYears === 1 ? '' : 's'}`
+                  : 'No grape planted'}
+              </div>
+              {history.length === 0 ? (
+                <div className="text-xs text-muted-foreground">No purchases, plantings or clearing of vines recorded yet.</div>
+              ) : (
+                <div className="divide-y">
+                  {[...history].reverse().map((event) => (
+                    <div key={event.id} className="py-1.5 flex items-center justify-between gap-3 text-xs">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{HISTORY_EVENT_LABELS[event.eventType]}</Badge>
+                        <span>{describeHistoryEvent(event)}</span>
+                      </div>
+                      <span className="text-muted-foreground whitespace-nowrap">
+                        Week {event.week}, {event.season} {event.year}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </DialogContent>
     </Dialog>
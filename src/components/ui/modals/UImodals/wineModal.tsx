@@ -5,7 +5,7 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '../../shadCN/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '../../shadCN/card';
 import { Badge } from '../../shadCN/badge';
 import { TooltipSection, TooltipRow, tooltipStyles, UnifiedTooltip } from '../../shadCN/tooltip';
-import { Wine, Calendar, MapPin, Award, AlertTriangle, TrendingUp, BarChart3, Radar, History } from 'lucide-react';
+import { Wine, Calendar, MapPin, Award, AlertTriangle, TrendingUp, BarChart3, Radar, History, Grape } from 'lucide-react';
 import { DialogProps } from '@/lib/types/UItypes';
 import { formatNumber, getFlagIcon } from '@/lib/utils';
 import { getCharacteristicIconSrc } from '@/lib/utils/icons';
@@ -22,7 +22,10 @@ import {
   analyzeWineAnchorDownstreamImpact,
   isWineAnchorImpactDebugAvailable
 } from '@/lib/services/wine/debug/wineAnchorImpactDebugService';
-import { GRAPE_CONST } from '@/lib/constants/grapeConstants';
+import { GRAPE_CONST, WINE_STYLE_LABELS } from '@/lib/constants/grapeConstants';
+import { SWEETNESS_STYLE_LABELS } from '@/lib/constants/sweetWineConstants';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS, DEFAULT_BOTTLE_CLOSURE, DEFAULT_BOTTLE_FORMAT } from '@/lib/constants/bottlingConstants';
+import { getSweetnessStyle } from '@/lib/services/wine/characteristics/sweetWineCharacteristics';
 
 interface WineModalProps extends DialogProps {
   wineBatch: WineBatch | null;
@@ -126,6 +129,8 @@ export const WineModal: React.FC<WineModalProps> = ({
   const landValueModifier: number = wineBatch.landValueModifier;
   const currentWineScore = estimatedPriceBreakdown.wineScore;
   const hasFeatureMultiplier = Math.abs(estimatedPriceBreakdown.featurePriceMultiplier - 1) > 0.0005;
+  const hasSweetWineMultiplier = Math.abs(estimatedPriceBreakdown.sweetWinePriceMultiplier - 1) > 0.0005;
+  const hasBottleFormatMultiplier = Math.abs(estimatedPriceBreakdown.bottleFormatPriceMultiplier - 1) > 0.0005;
   const hasCompanyPrestigeMultiplier = Math.abs(estimatedPriceBreakdown.companyPrestigeMultiplier - 1) > 0.0005;
   const hasVineyardPrestigeMultiplier = Math.abs(estimatedPriceBreakdown.vineyardPrestigeMultiplier - 1) > 0.0005;
   const qualityCategory = getQualityCategory(currentTasteQualityIndex);
@@ -187,6 +192,7 @@ export const WineModal: React.FC<WineModalProps> = ({
       wineScoreMultiplier: 'Wine Score Multiplier',
       landValuePriceMultiplier: 'Land Value Multiplier',
       featurePriceMultiplier: 'Feature Multiplier',
+      sweetWinePriceMultiplier: 'Sweet Wine Multiplier',
       prePrestigePrice: 'Pre-Prestige Price',
       companyPrestigeMultiplier: 'Company Prestige Multiplier',
       vineyardPrestigeMultiplier: 'Vineyard Prestige Multiplier',
@@ -597,6 +603,22 @@ export const WineModal: React.FC<WineModalProps> = ({
                         </span>
                       </div>
                     )}
+                    {hasSweetWineMultiplier && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Sweet wine multiplier:</span>
+                        <span className="font-medium">
+                          {formatNumber(estimatedPriceBreakdown.sweetWinePriceMultiplier, { decimals: 2, forceDecimals: true })}x
+                        </span>
+                      </div>
+                    )}
+                    {hasBottleFormatMultiplier && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Bottle format:</span>
+                        <span className="font-medium">
+                          {formatNumber(estimatedPriceBreakdown.bottleFormatPriceMultiplier, { decimals: 2, forceDecimals: true })}x
+                        </span>
+                      </div>
+                    )}
                     {hasCompanyPrestigeMultiplier && (
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Company prestige:</span>
@@ -886,6 +908,22 @@ export const WineModal: React.FC<WineModalProps> = ({
                       <span className="text-muted-foreground">Color:</span>
                       <span className="font-medium capitalize">{wineBatch.grapeColor}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Style:</span>
+                      <span className="font-medium">{WINE_STYLE_LABELS[wineBatch.wineStyle]}{wineBatch.sparkling ? ' • Traditional Method sparkling' : ''}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Sweetness:</span>
+                      <span className="font-medium">{SWEETNESS_STYLE_LABELS[getSweetnessStyle(wineBatch)]}</span>
+                    </div>
+                    {wineBatch.state === 'bottled' && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Packaging:</span>
+                        <span className="font-medium">
+                          {BOTTLE_FORMATS[wineBatch.bottleFormat ?? DEFAULT_BOTTLE_FORMAT].label} • {BOTTLE_CLOSURES[wineBatch.bottleClosure ?? DEFAULT_BOTTLE_CLOSURE].label}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Natural Yield:</span>
                       <span className="font-medium">{formatNumber(wineBatch.naturalYield * 100, { smartDecimals: true })}%</span>
@@ -1115,6 +1153,24 @@ export const WineModal: React.FC<WineModalProps> = ({
                   </Card>
                 )}
 
+                {wineBatch.blendComponents && wineBatch.blendComponents.length > 1 && (
+                  <Card>
+                    <CardHeader className="py-3">
+                      <CardTitle className="text-xs font-medium flex items-center gap-2">
+                        <Grape className="h-4 w-4" /> Blend Composition
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="py-3 text-sm space-y-2">
+                      {wineBatch.blendComponents.map((component) => (
+                        <div key={`${component.vineyardId}:${component.grape}`} className="flex justify-between gap-3">
+                          <span className="text-muted-foreground">{component.grape} - {component.vineyardName}</span>
+                          <span className="font-medium">{formatNumber(component.share * 100, { decimals: 1 })}%</span>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader className="py-3">
                     <CardTitle className="text-xs font-medium">Characteristic origins</CardTitle>
@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { NotificationCategory, type BottleClosure, type BottleFormat, type WineBatch } from '@/lib/types/types';
+import { DialogProps } from '@/lib/types/UItypes';
+import { Button, Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS, getBottleAgingSpeed, getBottleOxidationRiskMultiplier } from '@/lib/constants/bottlingConstants';
+import { bottleWine, calculateBottlingPlan, DEFAULT_BOTTLING_OPTIONS, type BottlingOptions } from '@/lib/services/wine/winery/fermentationManager';
+import { getWineBatchDisplayName } from '@/lib/services/wine/winery/inventoryService';
+import { notificationService } from '@/lib/services/core/notificationService';
+import { formatNumber } from '@/lib/utils/utils';
+
+interface BottlingOptionsModalProps extends DialogProps {
+  batch: WineBatch | null;
+}
+
+const formatMultiplier = (value: number): string => `${formatNumber(value, { decimals: 2, forceDecimals: true })}x`;
+
+/**
+ * Bottling Options Modal
+ * Chooses the bottle format, closure and how much of the batch to bottle, previews the bottle count
+ * and packaging bill, then bottles the wine
+ */
+const BottlingOptionsModal: React.FC<BottlingOptionsModalProps> = ({ isOpen, onClose, batch }) => {
+  const [options, setOptions] = useState<BottlingOptions>(DEFAULT_BOTTLING_OPTIONS);
+  const [isBottling, setIsBottling] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setOptions(DEFAULT_BOTTLING_OPTIONS);
+  }, [isOpen]);
+
+  const plan = useMemo(() => (batch ? calculateBottlingPlan(batch, options) : { bottles: 0, packagingCost: 0, volumeLitres: 0, partial: false }), [batch, options]);
+
+  if (!batch) return null;
+
+  const format = BOTTLE_FORMATS[options.format];
+  const batchVolumeLitres = Math.floor(batch.volumeLitres ?? 0);
+
+  const handleBottle = async () => {
+    setIsBottling(true);
+    try {
+      const success = await bottleWine(batch.id, options);
+      if (!success) {
+        await notificationService.addMessage(`Could not bottle ${getWineBatchDisplayName(batch)}.`, 'bottlingOptionsModal.handleBottle', 'Bottling Error', NotificationCategory.SYSTEM);
+      }
+      onClose();
+    } finally {
+      setIsBottling(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Bottle Wine</DialogTitle>
+          <DialogDescription>
+            Choose the bottle format and closure for {Math.round(batch.volumeLitres ?? 0).toLocaleString()} L of {getWineBatchDisplayName(batch)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="text-sm">
+          <label className="flex items-center gap-2">
+            <span className="font-semibold text-gray-800">Litres to bottle</span>
+            <input
+              type="number"
+              min={1}
+              max={batchVolumeLitres}
+              step={1}
+              value={Math.floor(plan.volumeLitres)}
+              onChange={(event) => setOptions(prev => ({ ...prev, volumeLitres: Number(event.target.value) || 0 }))}
+              className="w-28 rounded border p-1"
+            />
+            <span className="text-xs text-gray-500">of {batchVolumeLitres.toLocaleString()} L</span>
+          </label>
+          {plan.partial && (
+            <p className="mt-1 text-xs text-gray-500">
+              The bottles become a new batch of this lot; the remaining {Math.round((batch.volumeLitres ?? 0) - plan.volumeLitres).toLocaleString()} L keeps maturing in its Storage Vessels.
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <h4 className="mb-2 text-sm font-semibold text-gray-800">Bottle Format</h4>
+            <div className="space-y-2">
+              {(Object.keys(BOTTLE_FORMATS) as BottleFormat[]).map((formatId) => (
+                <label key={formatId} className={`flex cursor-pointer items-start gap-2 rounded border p-2 text-sm ${options.format === formatId ? 'border-green-600 bg-green-50' : 'border-gray-200'}`}>
+                  <input type="radio" name="bottle-format" checked={options.format === formatId} onChange={() => setOptions(prev => ({ ...prev, format: formatId }))} />
+                  <span>
+                    <span className="font-medium">{BOTTLE_FORMATS[formatId].label}</span>
+                    <span className="block text-xs text-gray-500">
+                      Aging {formatMultiplier(BOTTLE_FORMATS[formatId].agingSpeed)} • Oxidation {formatMultiplier(BOTTLE_FORMATS[formatId].oxidationRiskMultiplier)}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="mb-2 text-sm font-semibold text-gray-800">Closure</h4>
+            <div className="space-y-2">
+              {(Object.keys(BOTTLE_CLOSURES) as BottleClosure[]).map((closureId) => (
+                <label key={closureId} className={`flex cursor-pointer items-start gap-2 rounded border p-2 text-sm ${options.closure === closureId ? 'border-green-600 bg-green-50' : 'border-gray-200'}`}>
+                  <input type="radio" name="bottle-closure" checked={options.closure === closureId} onChange={() => setOptions(prev => ({ ...prev, closure: closureId }))} />
+                  <span>
+                    <span className="font-medium">{BOTTLE_CLOSURES[closureId].label}</span>
+                    <span className="block text-xs text-gray-500">{BOTTLE_CLOSURES[closureId].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-1 rounded border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+          <div>Bottles: <span className="font-medium">{plan.bottles.toLocaleString()}</span> ({format.label})</div>
+          <div>Price per bottle: {formatNumber(format.priceFactor * 100, { smartDecimals: true })}% of a standard bottle</div>
+          <div>
+            Bottle aging speed: {formatMultiplier(getBottleAgingSpeed({ bottleFormat: options.format, bottleClosure: options.closure }))} • Oxidation risk in bottle: {formatMultiplier(getBottleOxidationRiskMultiplier({ bottleFormat: options.format, bottleClosure: options.closure }))}
+          </div>
+          <div>Packaging: <span className="font-medium">{formatNumber(plan.packagingCost, { currency: true })}</span></div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isBottling}>Cancel</Button>
+          <Button onClick={handleBottle} disabled={isBottling || plan.bottles < 1} className="bg-green-600 hover:bg-green-700">
+            {isBottling ? 'Bottling…' : `Bottle ${plan.bottles.toLocaleString()} × ${format.label}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BottlingOptionsModal;
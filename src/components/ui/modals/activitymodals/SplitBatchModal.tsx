@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { NotificationCategory, type WineBatch } from '@/lib/types/types';
+import type { StorageVessel } from '@/lib/types/storageVessels';
+import { DialogProps } from '@/lib/types/UItypes';
+import { Button, Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui';
+import { splitWineBatch, validateBatchSplit } from '@/lib/services/wine/winery/batchSplitManager';
+import { getAvailableStorageVessels } from '@/lib/services/wine/winery/storageVesselAllocationService';
+import { getStorageVesselDisplayName } from '@/lib/services/wine/winery/storageVesselService';
+import { getWineBatchDisplayName } from '@/lib/services/wine/winery/inventoryService';
+import { notificationService } from '@/lib/services/core/notificationService';
+
+interface SplitBatchModalProps extends DialogProps {
+  batch: WineBatch | null;
+}
+
+/**
+ * Split Batch Modal
+ * Chooses how many litres to split off a batch and the Storage Vessels that will hold them
+ */
+const SplitBatchModal: React.FC<SplitBatchModalProps> = ({ isOpen, onClose, batch }) => {
+  const [splitLitres, setSplitLitres] = useState(0);
+  const [availableVessels, setAvailableVessels] = useState<StorageVessel[]>([]);
+  const [selectedVesselIds, setSelectedVesselIds] = useState<string[]>([]);
+  const [isSplitting, setIsSplitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSplitLitres(Math.floor((batch?.volumeLitres ?? 0) / 2));
+    setSelectedVesselIds([]);
+    void getAvailableStorageVessels().then(setAvailableVessels).catch(() => setAvailableVessels([]));
+  }, [isOpen, batch]);
+
+  if (!batch) return null;
+
+  const volumeLitres = batch.volumeLitres ?? 0;
+  const validation = validateBatchSplit(batch, splitLitres);
+  const selectedCapacity = availableVessels.filter((vessel) => selectedVesselIds.includes(vessel.id)).reduce((total, vessel) => total + vessel.capacityLitres, 0);
+  const needsVessels = selectedCapacity < splitLitres;
+
+  const handleSplit = async () => {
+    setIsSplitting(true);
+    try {
+      const result = await splitWineBatch(batch, splitLitres, selectedVesselIds);
+      if (!result.success) {
+        await notificationService.addMessage(result.error || `Could not split ${getWineBatchDisplayName(batch)}.`, 'splitBatchModal.handleSplit', 'Split Batch Error', NotificationCategory.SYSTEM);
+      }
+      onClose();
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Split Batch</DialogTitle>
+          <DialogDescription>
+            Split part of {getWineBatchDisplayName(batch)} ({Math.round(volumeLitres).toLocaleString()} L) into a batch of its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex items-center gap-2 text-sm">
+          <span className="font-semibold text-gray-800">Litres to split off</span>
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, Math.floor(volumeLitres) - 1)}
+            step={1}
+            value={splitLitres}
+            onChange={(event) => setSplitLitres(Number(event.target.value) || 0)}
+            className="w-28 rounded border p-1"
+          />
+          <span className="text-xs text-gray-500">{Math.round(Math.max(0, volumeLitres - splitLitres)).toLocaleString()} L stays in the current vessels</span>
+        </label>
+
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+          <h4 className="mb-2 font-semibold text-blue-900">Target Storage Vessels</h4>
+          <div className="flex justify-between py-1 text-sm">
+            <span>Selected Storage:</span>
+            <span className={needsVessels ? 'text-red-600' : 'text-green-600'}>{selectedCapacity.toLocaleString()} L / {Math.ceil(splitLitres).toLocaleString()} L</span>
+          </div>
+          <div className="mt-3 grid gap-2 sm:grid-cols-2">
+            {availableVessels.length === 0 && <div className="text-sm text-red-600 sm:col-span-2">No free Storage Vessels to split into.</div>}
+            {availableVessels.map((vessel) => (
+              <label key={vessel.id} className="flex cursor-pointer items-center gap-2 rounded border border-gray-200 bg-white p-2 text-sm">
+                <input type="checkbox" checked={selectedVesselIds.includes(vessel.id)} onChange={(event) => setSelectedVesselIds((current) => event.target.checked ? [...current, vessel.id] : current.filter((id) => id !== vessel.id))} />
+                <span>{getStorageVesselDisplayName(vessel)} ({vessel.capacityLitres.toLocaleString()} L, {vessel.cleanliness})</span>
+              </label>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-blue-800">The new batch keeps the lot's history and evolves on its own from now on. Vessels the current batch no longer fills are released dirty.</p>
+        </div>
+
+        {!validation.valid && <div className="text-xs text-red-600">{validation.reason}</div>}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSplitting}>Cancel</Button>
+          <Button onClick={handleSplit} disabled={isSplitting || !validation.valid || needsVessels} className="bg-teal-700 hover:bg-teal-800">
+            {isSplitting ? 'Splitting…' : `Split off ${Math.round(splitLitres).toLocaleString()} L`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SplitBatchModal;
@@ -0,0 +1,90 @@
+import type { BottleMarketStyle, CustomerCountry, EconomyPhase, Season } from '@/lib/types/types';
+
+/**
+ * Bottle market: weekly demand and supply for each wine style in each customer country.
+ * Demand follows the economy phase and the season, supply follows regional production and
+ * harvest weather, and the player's own sales saturate the market they are sold into.
+ */
+
+export const BOTTLE_MARKET_STYLES: readonly BottleMarketStyle[] = ['red', 'white', 'rose', 'sparkling'] as const;
+
+export const BOTTLE_MARKET_COUNTRIES: readonly CustomerCountry[] = [
+  'France', 'Germany', 'Italy', 'Spain', 'United States', 'United Kingdom', 'Scandinavia', 'Japan', 'China'
+] as const;
+
+export const BOTTLE_MARKET_STYLE_LABELS: Record<BottleMarketStyle, string> = {
+  red: 'Red',
+  white: 'White',
+  rose: 'Rosé',
+  sparkling: 'Sparkling'
+};
+
+// Bottles a market takes from outside suppliers in an average week; the player's sales fill it
+export const BOTTLE_MARKET_WEEKLY_CAPACITY: Record<CustomerCountry, Record<BottleMarketStyle, number>> = {
+  'France': { red: 1200, white: 900, rose: 600, sparkling: 450 },
+  'Germany': { red: 700, white: 1000, rose: 250, sparkling: 550 },
+  'Italy': { red: 1100, white: 800, rose: 300, sparkling: 450 },
+  'Spain': { red: 900, white: 500, rose: 350, sparkling: 300 },
+  'United States': { red: 1600, white: 1300, rose: 600, sparkling: 650 },
+  'United Kingdom': { red: 900, white: 900, rose: 400, sparkling: 700 },
+  'Scandinavia': { red: 500, white: 450, rose: 200, sparkling: 250 },
+  'Japan': { red: 600, white: 550, rose: 150, sparkling: 400 },
+  'China': { red: 1300, white: 350, rose: 100, sparkling: 200 }
+};
+
+// Domestic production against domestic demand: well-stocked producing countries pay less, import markets more
+export const BOTTLE_MARKET_REGIONAL_SUPPLY: Record<CustomerCountry, Record<BottleMarketStyle, number>> = {
+  'France': { red: 1.1, white: 1.05, rose: 1.1, sparkling: 1.1 },
+  'Germany': { red: 0.85, white: 1.05, rose: 0.9, sparkling: 0.95 },
+  'Italy': { red: 1.1, white: 1, rose: 0.95, sparkling: 1.05 },
+  'Spain': { red: 1.1, white: 0.95, rose: 1, sparkling: 1 },
+  'United States': { red: 0.95, white: 0.95, rose: 0.9, sparkling: 0.9 },
+  'United Kingdom': { red: 0.85, white: 0.85, rose: 0.85, sparkling: 0.9 },
+  'Scandinavia': { red: 0.8, white: 0.8, rose: 0.8, sparkling: 0.8 },
+  'Japan': { red: 0.8, white: 0.85, rose: 0.8, sparkling: 0.8 },
+  'China': { red: 0.85, white: 0.8, rose: 0.8, sparkling: 0.8 }
+};
+
+export const BOTTLE_MARKET_SEASONALITY: Record<BottleMarketStyle, Record<Season, number>> = {
+  red: { Spring: 0.95, Summer: 0.85, Fall: 1.05, Winter: 1.15 },
+  white: { Spring: 1.05, Summer: 1.15, Fall: 0.95, Winter: 0.85 },
+  rose: { Spring: 1.1, Summer: 1.3, Fall: 0.85, Winter: 0.75 },
+  sparkling: { Spring: 0.9, Summer: 0.95, Fall: 0.95, Winter: 1.25 }
+};
+
+export const BOTTLE_MARKET_ECONOMY_DEMAND: Record<EconomyPhase, number> = {
+  Crash: 0.75,
+  Recession: 0.88,
+  Stable: 1,
+  Expansion: 1.1,
+  Boom: 1.22
+};
+
+// How strongly each style follows the economy; sparkling is the first thing cut and the first thing bought
+export const BOTTLE_MARKET_ECONOMY_SENSITIVITY: Record<BottleMarketStyle, number> = {
+  red: 1,
+  white: 1,
+  rose: 0.8,
+  sparkling: 1.6
+};
+
+export const BOTTLE_MARKET_DYNAMICS = {
+  demandReversion: 0.25, // Share of the gap to the target demand closed each week
+  supplyReversion: 0.15, // Share of the gap to the target supply closed each week
+  weeklyNoise: 0.03, // Demand and supply move randomly by up to this much each week
+  weatherSupplyWeight: 0.5, // Share of the weather market pressure that tightens bottle supply
+  saturationRecovery: 0.12, // Share of saturation that clears each week
+  absorptionWeeks: 4, // Weeks of a market's capacity the player has to sell to saturate it fully
+  dumpingWeight: 1.5, // Extra saturation per bottle sold at no price at all, scaled by the discount to the wine's value
+  historyWeeks: 52,
+  indexRange: [0.5, 1.6]
+} as const;
+
+export const BOTTLE_MARKET_IMPACT = {
+  priceElasticity: 0.5, // Price level = (demand / supply) ^ elasticity
+  saturationPriceImpact: 0.35, // Price drop at full saturation
+  saturationQuantityImpact: 0.5, // Quantity drop at full saturation
+  priceRange: [0.6, 1.4],
+  quantityRange: [0.4, 1.6],
+  frequencyRange: [0.6, 1.4] // Customer acquisition chance across the markets for the wines in stock
+} as const;
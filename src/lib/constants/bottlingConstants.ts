@@ -0,0 +1,112 @@
+import type { BottleClosure, BottleFormat, CustomerType, WineBatch } from '@/lib/types/types';
+
+/**
+ * Bottling: the bottle format and closure are chosen when the wine is bottled.
+ * The format sets how many bottles the volume fills and how each bottle is priced;
+ * both choices change how fast the wine develops in bottle, its oxidation risk,
+ * how each customer type values it, and the packaging bill.
+ */
+
+export interface BottleFormatInfo {
+  label: string;
+  litresPerBottle: number;
+  priceFactor: number; // Bottle price relative to a standard 750 ml bottle
+  agingSpeed: number; // Bottle aging speed relative to a standard bottle
+  oxidationRiskMultiplier: number;
+  packagingCostPerBottle: number; // € for the bottle (or bag and box) and label
+  customerPriceMultipliers: Record<CustomerType, number>;
+}
+
+export interface BottleClosureInfo {
+  label: string;
+  description: string;
+  agingSpeed: number;
+  oxidationRiskMultiplier: number;
+  costPerBottle: number;
+  customerPriceMultipliers: Record<CustomerType, number>;
+}
+
+export const DEFAULT_BOTTLE_FORMAT: BottleFormat = 'standard';
+export const DEFAULT_BOTTLE_CLOSURE: BottleClosure = 'natural_cork';
+
+// Smaller bottles hold more oxygen per litre and age faster; a magnum ages slowly and collectors pay for it.
+// Bag-in-box is for early drinking: it barely develops and the bag lets oxygen in.
+export const BOTTLE_FORMATS: Record<BottleFormat, BottleFormatInfo> = {
+  half: {
+    label: 'Half Bottle (375 ml)',
+    litresPerBottle: 0.375,
+    priceFactor: 0.6,
+    agingSpeed: 1.3,
+    oxidationRiskMultiplier: 1.2,
+    packagingCostPerBottle: 0.8,
+    customerPriceMultipliers: { 'Restaurant': 1.05, 'Wine Shop': 1.0, 'Private Collector': 0.95, 'Chain Store': 0.95 }
+  },
+  standard: {
+    label: 'Standard (750 ml)',
+    litresPerBottle: 0.75,
+    priceFactor: 1,
+    agingSpeed: 1,
+    oxidationRiskMultiplier: 1,
+    packagingCostPerBottle: 1,
+    customerPriceMultipliers: { 'Restaurant': 1, 'Wine Shop': 1, 'Private Collector': 1, 'Chain Store': 1 }
+  },
+  magnum: {
+    label: 'Magnum (1.5 L)',
+    litresPerBottle: 1.5,
+    priceFactor: 2.2,
+    agingSpeed: 0.75,
+    oxidationRiskMultiplier: 0.8,
+    packagingCostPerBottle: 3.5,
+    customerPriceMultipliers: { 'Restaurant': 1.05, 'Wine Shop': 1.05, 'Private Collector': 1.2, 'Chain Store': 0.85 }
+  },
+  bag_in_box: {
+    label: 'Bag-in-Box (3 L)',
+    litresPerBottle: 3,
+    priceFactor: 3,
+    agingSpeed: 0.3,
+    oxidationRiskMultiplier: 1.8,
+    packagingCostPerBottle: 2.2,
+    customerPriceMultipliers: { 'Restaurant': 0.9, 'Wine Shop': 0.85, 'Private Collector': 0.5, 'Chain Store': 1.15 }
+  }
+};
+
+export const BOTTLE_CLOSURES: Record<BottleClosure, BottleClosureInfo> = {
+  natural_cork: {
+    label: 'Natural Cork',
+    description: 'Lets in a trace of oxygen for classic bottle development',
+    agingSpeed: 1,
+    oxidationRiskMultiplier: 1,
+    costPerBottle: 0.5,
+    customerPriceMultipliers: { 'Restaurant': 1.02, 'Wine Shop': 1.03, 'Private Collector': 1.08, 'Chain Store': 1 }
+  },
+  screwcap: {
+    label: 'Screwcap',
+    description: 'Near-airtight: keeps wine fresh but slows its development',
+    agingSpeed: 0.8,
+    oxidationRiskMultiplier: 0.6,
+    costPerBottle: 0.15,
+    customerPriceMultipliers: { 'Restaurant': 1, 'Wine Shop': 0.98, 'Private Collector': 0.9, 'Chain Store': 1.03 }
+  },
+  synthetic: {
+    label: 'Synthetic Cork',
+    description: 'Cheap and consistent, but lets in more oxygen over time',
+    agingSpeed: 1.1,
+    oxidationRiskMultiplier: 1.4,
+    costPerBottle: 0.1,
+    customerPriceMultipliers: { 'Restaurant': 0.97, 'Wine Shop': 0.95, 'Private Collector': 0.85, 'Chain Store': 1 }
+  }
+};
+
+type BottlingChoice = Pick<WineBatch, 'bottleFormat' | 'bottleClosure'>;
+
+// Bottle aging speed relative to a standard bottle with a natural cork
+export function getBottleAgingSpeed(wine: BottlingChoice): number {
+  return BOTTLE_FORMATS[wine.bottleFormat ?? DEFAULT_BOTTLE_FORMAT].agingSpeed
+    * BOTTLE_CLOSURES[wine.bottleClosure ?? DEFAULT_BOTTLE_CLOSURE].agingSpeed;
+}
+
+// Oxidation risk in bottle relative to a standard bottle with a natural cork
+export function getBottleOxidationRiskMultiplier(wine: BottlingChoice): number {
+  return BOTTLE_FORMATS[wine.bottleFormat ?? DEFAULT_BOTTLE_FORMAT].oxidationRiskMultiplier
+    * BOTTLE_CLOSURES[wine.bottleClosure ?? DEFAULT_BOTTLE_CLOSURE].oxidationRiskMultiplier;
+}
@@ -65,12 +65,16 @@ export const MARKET_CRUSHING_PROFILE_BY_COLOR: Record<'red' | 'white', CrushingO
     destemming: true,
     coldSoak: true,
     pressingIntensity: 0.52,
+    skinContact: 'full',
+    saigneeShare: 0,
   },
   white: {
     method: 'Pneumatic Press',
     destemming: false,
     coldSoak: false,
     pressingIntensity: 0.36,
+    skinContact: 'full',
+    saigneeShare: 0,
   },
 };
 
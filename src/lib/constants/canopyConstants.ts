@@ -0,0 +1,78 @@
+import type { CanopyTask, Season } from '@/lib/types/types';
+
+/**
+ * Canopy management: in-season field work between planting and harvest. Each task gives up
+ * some of this season's crop (and shoot thinning a little of the vine's yield) for faster
+ * ripening, lower rot and green-flavor risk, and riper sugar and phenolic potential at harvest.
+ */
+
+export interface CanopyTaskInfo {
+  label: string;
+  description: string;
+  seasons: Season[]; // Seasons the task can be started in
+  rate: number; // hectares/week
+  initialWork: number;
+  seasonYieldMultiplier: number; // This season's crop
+  vineYieldLoss: number; // Subtracted from the persistent vine yield when the task completes
+  ripenessSpeedBonus: number; // Added to the weekly ripeness increase multiplier
+  greyRotRiskMultiplier: number;
+  greenFlavorRiskMultiplier: number;
+  sugarPotentialShift: number; // Harvest anchor shift
+  phenolicPotentialShift: number; // Harvest anchor shift
+}
+
+export const CANOPY_TASKS: Record<CanopyTask, CanopyTaskInfo> = {
+  leafRemoval: {
+    label: 'Leaf Removal',
+    description: 'Pull leaves around the bunches to let in sun and air',
+    seasons: ['Spring', 'Summer'],
+    rate: 0.6,
+    initialWork: 4,
+    seasonYieldMultiplier: 0.97, // Some sunburnt berries
+    vineYieldLoss: 0,
+    ripenessSpeedBonus: 0.06,
+    greyRotRiskMultiplier: 0.6,
+    greenFlavorRiskMultiplier: 0.7,
+    sugarPotentialShift: 0.02,
+    phenolicPotentialShift: 0.04
+  },
+  shootThinning: {
+    label: 'Shoot Thinning',
+    description: 'Remove surplus shoots so the remaining ones get more of the vine',
+    seasons: ['Spring'],
+    rate: 0.45,
+    initialWork: 5,
+    seasonYieldMultiplier: 0.92,
+    vineYieldLoss: 0.02, // Fewer fruiting positions kept on the vine
+    ripenessSpeedBonus: 0.04,
+    greyRotRiskMultiplier: 0.85,
+    greenFlavorRiskMultiplier: 0.9,
+    sugarPotentialShift: 0.02,
+    phenolicPotentialShift: 0.03
+  },
+  // Effects below are for dropping the whole crop; they scale with the share dropped
+  greenHarvest: {
+    label: 'Green Harvest',
+    description: 'Drop unripe bunches so the vine ripens the rest',
+    seasons: ['Summer'],
+    rate: 0.5,
+    initialWork: 4,
+    seasonYieldMultiplier: 0, // 1 - share of the crop dropped
+    vineYieldLoss: 0,
+    ripenessSpeedBonus: 0.5,
+    greyRotRiskMultiplier: 0.5,
+    greenFlavorRiskMultiplier: 0,
+    sugarPotentialShift: 0.15,
+    phenolicPotentialShift: 0.2
+  }
+};
+
+// Share of the crop dropped by a green harvest
+export const GREEN_HARVEST_SHARE = {
+  min: 0.1,
+  max: 0.5,
+  default: 0.2
+} as const;
+
+// Activity params type for canopy work (runs as a Clearing activity)
+export const CANOPY_ACTIVITY_TYPE = 'canopy_work';
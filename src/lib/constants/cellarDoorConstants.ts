@@ -0,0 +1,77 @@
+import type { Season, WeatherIntensity, WeatherState } from '@/lib/types/types';
+
+/**
+ * Cellar door: a tasting room built at one of the winery's vineyards sells bottles straight to
+ * visitors at retail price. Visitors come with the region's tourism, the season, the weather and
+ * the company's prestige; sales-skilled staff serve them, and each served visitor buys a few bottles,
+ * fewer the dearer the wine.
+ */
+
+export const CELLAR_DOOR = {
+  buildCost: 150000,
+  retailMarkup: 1.3, // Retail price over the wine's asking price
+  baseWeeklyVisitors: 60, // Visitors in an average week in a region of average tourism, at no prestige
+  maxPrestigeVisitorMultiplier: 3, // Visitor multiplier at the top of the prestige scale
+  visitorsPerStaff: 40, // Visitors one staff member serves in a week at 0.5 sales skill
+  bottlesPerVisitor: 1.2, // Bottles a served visitor buys of a wine at the reference price
+  referencePrice: 25, // Retail price at which visitors buy the full bottles per visitor
+  priceElasticity: 0.6,
+  maxStaff: 4
+} as const;
+
+// Wine tourism by region, 1.0 is average
+export const REGION_TOURISM: Record<string, number> = {
+  'Bordeaux': 1.4,
+  'Bourgogne': 1.3,
+  'Champagne': 1.5,
+  'Rhone Valley': 1,
+  'Jura': 0.6,
+  'Ahr': 0.7,
+  'Mosel': 1.1,
+  'Pfalz': 0.9,
+  'Rheingau': 1,
+  'Rheinhessen': 0.7,
+  'Piedmont': 1.1,
+  'Puglia': 0.8,
+  'Sicily': 1,
+  'Tuscany': 1.6,
+  'Veneto': 1.1,
+  'Jumilla': 0.5,
+  'La Mancha': 0.5,
+  'Ribera del Duero': 0.8,
+  'Rioja': 1.2,
+  'Jerez': 1,
+  'Central Coast': 1,
+  'Finger Lakes': 0.8,
+  'Napa Valley': 1.8,
+  'Sonoma County': 1.4,
+  'Willamette Valley': 0.9
+};
+
+export const CELLAR_DOOR_SEASON_VISITORS: Record<Season, number> = {
+  Spring: 1,
+  Summer: 1.5,
+  Fall: 1.2,
+  Winter: 0.4
+};
+
+export const CELLAR_DOOR_WEATHER_VISITORS: Record<WeatherState, number> = {
+  Clear: 1.1,
+  Rain: 0.75,
+  Heat: 0.85,
+  Frost: 0.8,
+  Storm: 0.55,
+  Snow: 0.65
+};
+
+// How far the weather moves visitor numbers away from 1.0
+export const CELLAR_DOOR_WEATHER_INTENSITY: Record<WeatherIntensity, number> = {
+  VeryMild: 0.5,
+  Mild: 0.75,
+  Moderate: 1,
+  Severe: 1.25,
+  Extreme: 1.5
+};
+
+// Activity params type for building the tasting room (runs as a Building activity)
+export const TASTING_ROOM_ACTIVITY_TYPE = 'tasting_room_build';
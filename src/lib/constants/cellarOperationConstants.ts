@@ -0,0 +1,62 @@
+import type { CellarOperation, WineBatchState, WineCharacteristics } from '@/lib/types/types';
+
+/**
+ * Cellar operations on wine held in Storage Vessels: racking off the lees into other vessels,
+ * fining and filtration. Each trades a little volume and structure for lower fault risk.
+ */
+
+export type CellarOperationRiskFeature = 'oxidation' | 'stuck_fermentation';
+
+export interface CellarOperationInfo {
+  label: string;
+  description: string;
+  // States the batch may be in when the operation starts and completes.
+  states: readonly WineBatchState[];
+  // Share of the batch volume lost (lees left behind, fining sediment, filter pads).
+  volumeLoss: number;
+  // Litres handled per week and fixed setup work.
+  rate: number;
+  initialWork: number;
+  // Materials per litre (€): fining agents and filter pads; racking only needs labour.
+  costPerLitre: number;
+  characteristicEffects: Partial<Record<keyof WineCharacteristics, number>>;
+  // Multipliers on fault risk accumulation once the operation has been done at least once.
+  riskMultipliers: Partial<Record<CellarOperationRiskFeature, number>>;
+}
+
+export const CELLAR_OPERATIONS: Record<CellarOperation, CellarOperationInfo> = {
+  racking: {
+    label: 'Racking',
+    description: 'Move the wine off its lees into other Storage Vessels',
+    states: ['must_ready', 'must_fermenting', 'maturing'],
+    volumeLoss: 0.02,
+    rate: 12000,
+    initialWork: 25,
+    costPerLitre: 0,
+    characteristicEffects: { body: -0.01 },
+    riskMultipliers: { oxidation: 0.9, stuck_fermentation: 0.8 }
+  },
+  fining: {
+    label: 'Fining',
+    description: 'Settle out harsh phenolics and haze with a fining agent',
+    states: ['must_ready', 'must_fermenting', 'maturing'],
+    volumeLoss: 0.015,
+    rate: 15000,
+    initialWork: 15,
+    costPerLitre: 0.04,
+    characteristicEffects: { tannins: -0.03, body: -0.01 },
+    riskMultipliers: { oxidation: 0.8, stuck_fermentation: 0.95 }
+  },
+  filtration: {
+    label: 'Filtration',
+    description: 'Strip yeast, bacteria and haze through filter pads',
+    // Filtering a fermenting wine would strip the active yeast.
+    states: ['must_ready', 'maturing'],
+    volumeLoss: 0.01,
+    rate: 10000,
+    initialWork: 20,
+    costPerLitre: 0.06,
+    characteristicEffects: { aroma: -0.02, body: -0.015 },
+    riskMultipliers: { oxidation: 0.85, stuck_fermentation: 0.7 }
+  }
+};
@@ -44,6 +44,7 @@ type CustomerTypeConfig = {
   quantityRange: readonly [number, number];
   baseQuantityMultiplier: number;
   multipleOrderPenalty: number;
+  sparklingPriceMultiplier: number;
   difficultyPreference: DifficultyPreference;
 };
 
@@ -53,6 +54,7 @@ const CUSTOMER_TYPE_CONFIGS: Record<CustomerType, CustomerTypeConfig> = {
     quantityRange: [12, 80], // 2-13 cases (6 bottles each) - increased for better scaling
     baseQuantityMultiplier: 2.2, // Restaurants buy smaller amounts
     multipleOrderPenalty: 0.5, // Restaurants usually focus on specific wines
+    sparklingPriceMultiplier: 1.15, // Restaurants pour sparkling by the glass and bottle
     difficultyPreference: {
       target: 0.4,
       tolerance: 0.2,
@@ -65,6 +67,7 @@ const CUSTOMER_TYPE_CONFIGS: Record<CustomerType, CustomerTypeConfig> = {
     quantityRange: [18, 120], // 3-20 cases (6 bottles each) - increased for better scaling
     baseQuantityMultiplier: 5.5, // Wine shops buy moderate amounts
     multipleOrderPenalty: 0.6, // Wine shops need variety
+    sparklingPriceMultiplier: 1.05, // Wine shops sell sparkling for celebrations
     difficultyPreference: {
       target: 0.55,
       tolerance: 0.25,
@@ -77,6 +80,7 @@ const CUSTOMER_TYPE_CONFIGS: Record<CustomerType, CustomerTypeConfig> = {
     quantityRange: [3, 36], // 0.5-6 cases (6 bottles each) - increased for better scaling
     baseQuantityMultiplier: 0.5, // Private collectors buy smallest amounts
     multipleOrderPenalty: 0.8, // Collectors often buy diverse wines
+    sparklingPriceMultiplier: 1.10, // Collectors value long lees-aged cuvées
     difficultyPreference: {
       target: 0.75,
       tolerance: 0.18,
@@ -89,6 +93,7 @@ const CUSTOMER_TYPE_CONFIGS: Record<CustomerType, CustomerTypeConfig> = {
     quantityRange: [60, 300], // 10-50 cases (6 bottles each) - increased for better scaling
     baseQuantityMultiplier: 10.0, // Chain stores buy in bulk
     multipleOrderPenalty: 0.9, // Chain stores often buy multiple varietals
+    sparklingPriceMultiplier: 0.95, // Chain stores compete with cheaper tank-method sparkling
     difficultyPreference: {
       target: 0.3,
       tolerance: 0.18,
@@ -126,6 +131,7 @@ export const CUSTOMER_REGIONAL_DATA = {
   'France': { 
     purchasingPower: 0.85, // 85% = 15% below average
     wineTradition: 1.10,   // 110% = 10% above average
+    sparklingAffinity: 1.15, // 15% premium for Traditional Method sparkling
     customerTypeWeights: {
       'Restaurant': 0.35,
       'Wine Shop': 0.05,
@@ -136,6 +142,7 @@ export const CUSTOMER_REGIONAL_DATA = {
   'Germany': { 
     purchasingPower: 0.80, // 80% = 20% below average
     wineTradition: 0.75,  // 75% = 25% below average
+    sparklingAffinity: 1.05, // 5% premium (Sekt tradition)
     customerTypeWeights: {
       'Restaurant': 0.16,
       'Wine Shop': 0.10,
@@ -146,6 +153,7 @@ export const CUSTOMER_REGIONAL_DATA = {
   'Italy': { 
     purchasingPower: 0.75, // 75% = 25% below average
     wineTradition: 1.05,  // 105% = 5% above average
+    sparklingAffinity: 1.00, // neutral
     customerTypeWeights: {
       'Restaurant': 0.26,
       'Wine Shop': 0.10,
@@ -156,6 +164,7 @@ export const CUSTOMER_REGIONAL_DATA = {
   'Spain': { 
     purchasingPower: 0.70, // 70% = 30% below average
     wineTradition: 0.85,  // 85% = 15% below average
+    sparklingAffinity: 1.10, // 10% premium (Cava tradition)
     customerTypeWeights: {
       'Restaurant': 0.15,
       'Wine Shop': 0.12,
@@ -166,12 +175,58 @@ export const CUSTOMER_REGIONAL_DATA = {
   'United States': { 
     purchasingPower: 1.20, // 120% = 20% above average
     wineTradition: 0.60,  // 60% = 40% below average
+    sparklingAffinity: 1.00, // neutral
     customerTypeWeights: {
       'Restaurant': 0.08,
       'Wine Shop': 0.10,
       'Private Collector': 0.80,
       'Chain Store': 0.02
     }
+  },
+  // Export markets (open through export licence research)
+  'United Kingdom': { 
+    purchasingPower: 1.10, // 110% = 10% above average
+    wineTradition: 0.95,  // 95% = 5% below average
+    sparklingAffinity: 1.20, // 20% premium (a long-standing Champagne market)
+    customerTypeWeights: {
+      'Restaurant': 0.30,
+      'Wine Shop': 0.20,
+      'Private Collector': 0.40,
+      'Chain Store': 0.10
+    }
+  },
+  'Scandinavia': { 
+    purchasingPower: 1.25, // 125% = 25% above average
+    wineTradition: 0.70,  // 70% = 30% below average
+    sparklingAffinity: 1.00, // neutral
+    customerTypeWeights: {
+      'Restaurant': 0.25,
+      'Wine Shop': 0.05,
+      'Private Collector': 0.40,
+      'Chain Store': 0.30 // State retail monopolies
+    }
+  },
+  'Japan': { 
+    purchasingPower: 1.15, // 115% = 15% above average
+    wineTradition: 0.80,  // 80% = 20% below average
+    sparklingAffinity: 1.10, // 10% premium
+    customerTypeWeights: {
+      'Restaurant': 0.35,
+      'Wine Shop': 0.15,
+      'Private Collector': 0.40,
+      'Chain Store': 0.10
+    }
+  },
+  'China': { 
+    purchasingPower: 1.00, // 100% = average
+    wineTradition: 0.50,  // 50% = 50% below average
+    sparklingAffinity: 0.85, // 15% discount
+    customerTypeWeights: {
+      'Restaurant': 0.25,
+      'Wine Shop': 0.10,
+      'Private Collector': 0.50,
+      'Chain Store': 0.15
+    }
   }
 } as const;
 
@@ -1,4 +1,4 @@
-import { CustomerType, ContractRequirementType } from '../types/types';
+import { CustomerType, ContractRequirementType, FarmingCertification, SweetnessStyle, WineStyle } from '../types/types';
 import { COUNTRY_REGION_MAP } from './vineyardConstants';
 
 // ===== CONTRACT GENERATION CONFIG =====
@@ -99,6 +99,9 @@ export const CUSTOMER_REQUIREMENT_PREFERENCES: Record<CustomerType, WeightedRequ
     { type: 'structureIndex', weight: 1 },
     { type: 'minimumVintage', weight: 1 },
     { type: 'grapeColor', weight: 1 },
+    { type: 'wineStyle', weight: 0.6 },
+    { type: 'sweetnessStyle', weight: 0.3 },
+    { type: 'certification', weight: 0.4 },
     { type: 'characteristicMin', weight: 0.3 },
     { type: 'characteristicMax', weight: 0.3 },
     { type: 'characteristicDeviation', weight: 0.3 }
@@ -109,6 +112,9 @@ export const CUSTOMER_REQUIREMENT_PREFERENCES: Record<CustomerType, WeightedRequ
     { type: 'specificVintage', weight: 1 },
     { type: 'grape', weight: 1 },
     { type: 'grapeColor', weight: 1 },
+    { type: 'wineStyle', weight: 0.6 },
+    { type: 'sweetnessStyle', weight: 0.4 },
+    { type: 'certification', weight: 0.6 },
     { type: 'country', weight: 0.6 },
     { type: 'region', weight: 0.8 },
     { type: 'altitude', weight: 1 },
@@ -123,6 +129,8 @@ export const CUSTOMER_REQUIREMENT_PREFERENCES: Record<CustomerType, WeightedRequ
     { type: 'specificVintage', weight: 1 },
     { type: 'structureIndex', weight: 1 },
     { type: 'landValue', weight: 1 },
+    { type: 'sweetnessStyle', weight: 0.6 },
+    { type: 'certification', weight: 0.3 },
     { type: 'country', weight: 0.5 },
     { type: 'region', weight: 1 },
     { type: 'grape', weight: 1 },
@@ -136,6 +144,8 @@ export const CUSTOMER_REQUIREMENT_PREFERENCES: Record<CustomerType, WeightedRequ
     { type: 'tasteQuality', weight: 1 },
     { type: 'grape', weight: 1 },
     { type: 'grapeColor', weight: 1 },
+    { type: 'wineStyle', weight: 0.6 },
+    { type: 'certification', weight: 0.2 },
     { type: 'minimumVintage', weight: 1 }
   ]
 };
@@ -196,6 +206,21 @@ export const AVAILABLE_GRAPES = [
  */
 export const AVAILABLE_GRAPE_COLORS: ('red' | 'white')[] = ['red', 'white'];
 
+/**
+ * Available wine styles for style-specific requirements (style is set at crushing)
+ */
+export const AVAILABLE_WINE_STYLES: WineStyle[] = ['red', 'white', 'rose'];
+
+/**
+ * Sweetness styles for sweetness-style requirements (off-dry and sweet need arrested fermentation)
+ */
+export const AVAILABLE_SWEETNESS_STYLES: SweetnessStyle[] = ['dry', 'off_dry', 'sweet', 'fortified'];
+
+/**
+ * Farming certifications for certification requirements (biodynamic wine also meets organic)
+ */
+export const AVAILABLE_FARMING_CERTIFICATIONS: FarmingCertification[] = ['organic', 'biodynamic'];
+
 export const AVAILABLE_SITE_COUNTRIES = Object.keys(COUNTRY_REGION_MAP);
 
 export const AVAILABLE_SITE_REGIONS = Object.entries(COUNTRY_REGION_MAP).flatMap(
@@ -0,0 +1,83 @@
+import type { CustomerCountry, CustomerType, FlavorFamilyId, WineCharacteristics } from '@/lib/types/types';
+
+/**
+ * Customer market preferences: the structure and taste each customer looks for.
+ * Country sets the baseline (preferred structure levels and liked or disliked flavor families),
+ * customer type shifts it and sets how much the match matters, and each generated customer
+ * varies a little around the result.
+ */
+
+export const COUNTRY_STRUCTURE_PREFERENCES: Record<CustomerCountry, WineCharacteristics> = {
+  'France': { acidity: 0.6, aroma: 0.55, body: 0.55, spice: 0.45, sweetness: 0.25, tannins: 0.6 },
+  'Germany': { acidity: 0.7, aroma: 0.65, body: 0.45, spice: 0.35, sweetness: 0.45, tannins: 0.4 },
+  'Italy': { acidity: 0.65, aroma: 0.5, body: 0.55, spice: 0.5, sweetness: 0.25, tannins: 0.65 },
+  'Spain': { acidity: 0.5, aroma: 0.5, body: 0.65, spice: 0.55, sweetness: 0.3, tannins: 0.6 },
+  'United States': { acidity: 0.45, aroma: 0.6, body: 0.7, spice: 0.5, sweetness: 0.4, tannins: 0.55 },
+  'United Kingdom': { acidity: 0.6, aroma: 0.55, body: 0.55, spice: 0.45, sweetness: 0.3, tannins: 0.55 },
+  'Scandinavia': { acidity: 0.65, aroma: 0.6, body: 0.45, spice: 0.4, sweetness: 0.35, tannins: 0.45 },
+  'Japan': { acidity: 0.6, aroma: 0.65, body: 0.4, spice: 0.35, sweetness: 0.35, tannins: 0.4 },
+  'China': { acidity: 0.4, aroma: 0.55, body: 0.7, spice: 0.5, sweetness: 0.45, tannins: 0.6 }
+};
+
+export const COUNTRY_FLAVOR_AFFINITIES: Record<CustomerCountry, Partial<Record<FlavorFamilyId, number>>> = {
+  'France': { earth: 0.5, redFruit: 0.3, microbial: 0.3, flower: 0.2, tropicalFruit: -0.3 },
+  'Germany': { citrus: 0.5, treeFruit: 0.4, flower: 0.3, oakAging: -0.3 },
+  'Italy': { redFruit: 0.4, earth: 0.3, vegetable: 0.2, driedFruit: 0.2, tropicalFruit: -0.2 },
+  'Spain': { oakAging: 0.5, generalAging: 0.3, driedFruit: 0.3, blackFruit: 0.2 },
+  'United States': { blackFruit: 0.5, oakAging: 0.4, tropicalFruit: 0.3, vegetable: -0.4, earth: -0.2 },
+  'United Kingdom': { generalAging: 0.4, earth: 0.3, redFruit: 0.3, citrus: 0.2 },
+  'Scandinavia': { citrus: 0.4, treeFruit: 0.3, redFruit: 0.3, oakAging: -0.2 },
+  'Japan': { citrus: 0.4, flower: 0.4, treeFruit: 0.3, oakAging: -0.3, earth: -0.2 },
+  'China': { redFruit: 0.5, blackFruit: 0.4, oakAging: 0.3, vegetable: -0.4, microbial: -0.3 }
+};
+
+export interface CustomerTypeMarketPreference {
+  weight: number;
+  tolerance: number;
+  structureShift: Partial<WineCharacteristics>;
+  flavorAffinities: Partial<Record<FlavorFamilyId, number>>; // Added to the country's affinities
+}
+
+export const CUSTOMER_TYPE_MARKET_PREFERENCES: Record<CustomerType, CustomerTypeMarketPreference> = {
+  'Restaurant': {
+    weight: 0.45,
+    tolerance: 0.3,
+    structureShift: { acidity: 0.05, sweetness: -0.05 },
+    flavorAffinities: { citrus: 0.3, redFruit: 0.2, faults: -1 }
+  },
+  'Wine Shop': {
+    weight: 0.4,
+    tolerance: 0.3,
+    structureShift: {},
+    flavorAffinities: { flower: 0.2, earth: 0.2, faults: -1 }
+  },
+  'Private Collector': {
+    weight: 0.6,
+    tolerance: 0.22,
+    structureShift: { tannins: 0.1, body: 0.05 },
+    flavorAffinities: { earth: 0.4, generalAging: 0.5, oakAging: 0.3, faults: -1 }
+  },
+  'Chain Store': {
+    weight: 0.35,
+    tolerance: 0.35,
+    structureShift: { sweetness: 0.1, tannins: -0.1 },
+    flavorAffinities: { tropicalFruit: 0.4, redFruit: 0.3, vegetable: -0.4, faults: -1 }
+  }
+};
+
+export const CUSTOMER_PREFERENCE_VARIATION = {
+  structure: 0.08, // Each customer's preferred structure levels vary by up to this much
+  flavor: 0.2 // Each customer's flavor affinities vary by up to this much
+} as const;
+
+export const CUSTOMER_PREFERENCE_IMPACT = {
+  structureShare: 0.5, // Share of the match from structure; the rest comes from taste
+  flavorScale: 1.25, // Stretches the liked-minus-disliked flavor balance onto 0-1
+  pronouncedFlavor: 0.55, // Flavor level at which a liked or disliked family is called out
+  priceScale: 0.4,
+  priceRange: [0.75, 1.25],
+  quantityScale: 0.6,
+  quantityRange: [0.6, 1.5],
+  rejectionScale: 0.7,
+  rejectionRange: [0.6, 1.5]
+} as const;
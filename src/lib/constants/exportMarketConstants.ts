@@ -0,0 +1,30 @@
+import type { ExportMarketCountry } from '@/lib/types/types';
+
+/**
+ * Export markets: destinations beyond the home markets that open through export licence research.
+ * Export customers bid the price they pay landed, duty paid; the winery pays shipping when the order
+ * leaves the cellar and the import duty when it arrives, and is paid for the bottles that arrive intact.
+ */
+
+export interface ExportMarketConfig {
+  importDutyRate: number; // Share of the landed price paid as import duty and excise
+  shippingCostPerBottle: number; // Euros per bottle, paid on dispatch
+  shippingWeeks: number;
+  transportRisk: number; // Chance a shipment is damaged in transit
+  researchId: string; // Export licence research that opens the market
+}
+
+export const EXPORT_MARKET_COUNTRIES: readonly ExportMarketCountry[] = ['United Kingdom', 'Scandinavia', 'Japan', 'China'] as const;
+
+export const EXPORT_MARKETS: Record<ExportMarketCountry, ExportMarketConfig> = {
+  'United Kingdom': { importDutyRate: 0.12, shippingCostPerBottle: 0.6, shippingWeeks: 1, transportRisk: 0.02, researchId: 'mkt_export_licence_uk' },
+  'Scandinavia': { importDutyRate: 0.2, shippingCostPerBottle: 0.8, shippingWeeks: 2, transportRisk: 0.03, researchId: 'mkt_export_licence_scandinavia' },
+  'Japan': { importDutyRate: 0.15, shippingCostPerBottle: 2.2, shippingWeeks: 6, transportRisk: 0.06, researchId: 'mkt_export_licence_japan' },
+  'China': { importDutyRate: 0.3, shippingCostPerBottle: 1.9, shippingWeeks: 5, transportRisk: 0.08, researchId: 'mkt_export_licence_china' }
+};
+
+// Share of a damaged shipment's bottles that are lost
+export const EXPORT_TRANSPORT_DAMAGE = {
+  minLossShare: 0.05,
+  maxLossShare: 0.3
+} as const;
@@ -0,0 +1,59 @@
+import type { CustomerType, FarmingCertification, FarmingMethod } from '@/lib/types/types';
+
+/**
+ * Farming methods: organic and biodynamic farming give up synthetic sprays and fertilisers,
+ * so the vines yield less and lose health faster from the first year. Land value, vineyard
+ * prestige and customer premiums only follow once the conversion period is complete and the
+ * vineyard is certified.
+ */
+
+export interface FarmingMethodInfo {
+  label: string;
+  description: string;
+  yieldMultiplier: number;
+  healthDecayMultiplier: number;
+  landValueBonus: number; // Added to the land value multiplier once certified
+  prestigeMultiplier: number; // Applied to vineyard age and land prestige once certified
+  customerPriceMultipliers: Record<CustomerType, number>; // Applied to certified wine
+}
+
+export const DEFAULT_FARMING_METHOD: FarmingMethod = 'conventional';
+
+// Years farmed without synthetic inputs before a vineyard can be certified
+export const ORGANIC_CONVERSION_YEARS = 3;
+
+export const FARMING_METHODS: Record<FarmingMethod, FarmingMethodInfo> = {
+  conventional: {
+    label: 'Conventional',
+    description: 'Synthetic sprays and fertilisers keep yields up and disease down',
+    yieldMultiplier: 1,
+    healthDecayMultiplier: 1,
+    landValueBonus: 0,
+    prestigeMultiplier: 1,
+    customerPriceMultipliers: { 'Restaurant': 1, 'Wine Shop': 1, 'Private Collector': 1, 'Chain Store': 1 }
+  },
+  organic: {
+    label: 'Organic',
+    description: 'Copper, sulphur and cover crops instead of synthetic inputs',
+    yieldMultiplier: 0.85,
+    healthDecayMultiplier: 1.15,
+    landValueBonus: 0.03,
+    prestigeMultiplier: 1.15,
+    customerPriceMultipliers: { 'Restaurant': 1.06, 'Wine Shop': 1.08, 'Private Collector': 1.04, 'Chain Store': 1.03 }
+  },
+  biodynamic: {
+    label: 'Biodynamic',
+    description: 'Organic farming plus preparations and a calendar worked by hand',
+    yieldMultiplier: 0.78,
+    healthDecayMultiplier: 1.25,
+    landValueBonus: 0.05,
+    prestigeMultiplier: 1.3,
+    customerPriceMultipliers: { 'Restaurant': 1.1, 'Wine Shop': 1.1, 'Private Collector': 1.12, 'Chain Store': 1.02 }
+  }
+};
+
+// Biodynamic certification includes organic: a biodynamic wine meets an organic requirement
+export const FARMING_CERTIFICATION_RANK: Record<FarmingCertification, number> = {
+  organic: 1,
+  biodynamic: 2
+};
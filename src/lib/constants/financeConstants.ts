@@ -22,6 +22,7 @@ export const TRANSACTION_CATEGORIES = {
   // Income categories
   WINE_SALES: 'Wine Sales',
   GRAPE_SALES: 'Grape Sales',
+  CELLAR_DOOR_SALES: 'Cellar Door Sales',
   INITIAL_INVESTMENT: 'Initial Investment',
   DIVIDEND_PAYMENT: 'Dividend Payment',
   DIVIDEND_RECEIVED: 'Dividend Received',
@@ -30,6 +31,7 @@ export const TRANSACTION_CATEGORIES = {
   CONTRACT_FINAL_SETTLEMENT_IN: 'Contract Final Settlement In',
   FORWARD_ADVANCE_IN: 'Forward Advance In',
   FORWARD_FINAL_SETTLEMENT_IN: 'Forward Final Settlement In',
+  INSURANCE_CLAIM: 'Insurance Claim',
 
   // Expense categories
   STAFF_WAGES: 'Staff Wages',
@@ -42,8 +44,12 @@ export const TRANSACTION_CATEGORIES = {
   VINEYARD_PLANTING: 'Vineyard Planting',
   MAINTENANCE: 'Maintenance',
   SUPPLIES: 'Supplies',
+  PACKAGING: 'Packaging',
+  EXPORT_SHIPPING: 'Export Shipping',
+  IMPORT_DUTIES: 'Import Duties',
   UTILITIES: 'Utilities',
   RESEARCH: 'Research',
+  INSURANCE_PREMIUM: 'Insurance Premium',
   CONTRACT_DEFAULT_PENALTY_OUT: 'Contract Default Penalty Out',
   FORWARD_DEFAULT_PENALTY_OUT: 'Forward Default Penalty Out',
   OTHER: 'Other',
@@ -1,5 +1,5 @@
 // Grape constants - fragility, natural yield, color, oxidation, base characteristics, and descriptions
-import { GrapeVariety, WineCharacteristics } from '@/lib/types/types';
+import { GrapeVariety, VineDisease, WineCharacteristics, WineStyle } from '@/lib/types/types';
 import { SoilType } from './vineyardConstants';
 
 // Base balanced ranges for wine characteristics (ported from v3 ranges)
@@ -128,6 +128,18 @@ export const GRAPE_SUN_PREFERENCES = {
   }
 } as const satisfies Record<GrapeVariety, GrapeSunPreference>;
 
+// Share of disease and pest pressure each variety shrugs off (0-1). Vinifera vines have little
+// defence against phylloxera on their own roots, so those differences stay small.
+export const GRAPE_DISEASE_RESISTANCE = {
+  Barbera: { downyMildew: 0.3, powderyMildew: 0.4, phylloxera: 0.1 },
+  Chardonnay: { downyMildew: 0.3, powderyMildew: 0.1, phylloxera: 0.1 },
+  'Pinot Noir': { downyMildew: 0.2, powderyMildew: 0.15, phylloxera: 0.05 },
+  Primitivo: { downyMildew: 0.4, powderyMildew: 0.3, phylloxera: 0.15 },
+  'Sauvignon Blanc': { downyMildew: 0.25, powderyMildew: 0.2, phylloxera: 0.1 },
+  Tempranillo: { downyMildew: 0.2, powderyMildew: 0.25, phylloxera: 0.15 },
+  Sangiovese: { downyMildew: 0.35, powderyMildew: 0.35, phylloxera: 0.1 }
+} as const satisfies Record<GrapeVariety, Record<VineDisease, number>>;
+
 // ===== GRAPE SUITABILITY =====
 
 // Grape variety suitability by region (0-1 scale, where 1.0 is optimal)
@@ -170,6 +182,13 @@ export const REGION_GRAPE_SUITABILITY = {
 } as const satisfies Record<string, Record<string, Record<GrapeVariety, number>>>;
 
 
+// Display names for wine styles
+export const WINE_STYLE_LABELS: Record<WineStyle, string> = {
+  red: 'Red',
+  white: 'White',
+  rose: 'Rosé'
+};
+
 // Unified grape data interface
 export interface GrapeData {
   name: GrapeVariety;
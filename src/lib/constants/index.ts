@@ -13,9 +13,24 @@ export * from './timeConstants';
 export * from './creditRatingConstants';
 export * from './cooperativeConstants';
 export * from './grapeBuyerMarketConstants';
+export * from './customerPreferenceConstants';
+export * from './bottleMarketConstants';
+export * from './cellarDoorConstants';
+export * from './exportMarketConstants';
+export * from './negotiationConstants';
 export * from './grapeSupplierMarketConstants';
 export * from './buyGrapeMarketConstants';
 export * from './buyGoodsConstants';
 export * from './storageVesselConstants';
+export * from './sparklingConstants';
+export * from './sweetWineConstants';
+export * from './bottlingConstants';
+export * from './farmingConstants';
+export * from './canopyConstants';
+export * from './irrigationConstants';
+export * from './vineDiseaseConstants';
+export * from './plantingMaterialConstants';
+export * from './insuranceConstants';
+export * from './cellarOperationConstants';
 export * from './sellGrapesConstants';
 export * from './weatherConstants';
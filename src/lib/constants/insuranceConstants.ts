@@ -0,0 +1,32 @@
+import type { Season, WeatherForecastPattern } from '@/lib/types/types';
+
+/**
+ * Crop insurance: a policy covers one vineyard's crop for one growing season. The premium is
+ * a share of the insured crop value, raised for regions with harsh climates and for risky
+ * seasonal forecasts. At the end of the season the policy pays for the crop lost to weather
+ * damage recorded after purchase, or for the yield shortfall against the yield insured, above
+ * the deductible.
+ */
+
+export const CROP_INSURANCE = {
+  cropValueShare: 0.12, // Share of the vineyard's value insured for a season's crop
+  basePremiumRate: 0.05, // Premium as a share of the insured value at neutral risk
+  deductible: 0.1, // Share of the crop lost before the policy pays
+  insurableSeasons: ['Spring', 'Summer', 'Fall'] as readonly Season[]
+} as const;
+
+// Regional risk rises the further a region's baseline heat is from temperate: frost in cold regions, heat and drought in hot ones
+export const CROP_INSURANCE_REGIONAL_RISK = {
+  temperateHeat: 0.6,
+  weight: 1.2,
+  default: 1
+} as const;
+
+export const CROP_INSURANCE_PATTERN_RISK: Record<WeatherForecastPattern, number> = {
+  Stable: 0.85,
+  Wet: 1.05,
+  Dry: 1.05,
+  Cold: 1.25,
+  Heat: 1.15,
+  'Storm-prone': 1.3
+};
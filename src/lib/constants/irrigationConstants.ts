@@ -0,0 +1,30 @@
+/**
+ * Irrigation and water stress: soil moisture below the stress threshold slows ripening, costs
+ * vine health and, over a season, concentrates phenolics while lowering acidity. Irrigation is
+ * installed once per vineyard and then waters dry weeks in the growing season for a running cost.
+ */
+
+export const IRRIGATION = {
+  installCostPerHectare: 6000,
+  runningCostPerHectareWeek: 40, // Billed at the end of each season for the weeks watered
+  targetMoisture: 0.55, // Irrigation tops soil moisture up to this level
+  weeklyWater: 0.12 // Most soil moisture irrigation can add in one week
+} as const;
+
+export const WATER_STRESS = {
+  threshold: 0.35, // Soil moisture below this stresses the vines; stress is 1 at dry soil
+  ripenessSlowdown: 0.3, // Share of the week's ripening lost at full stress
+  weeklyHealthLoss: 0.004, // Extra health lost per week at full stress
+  seasonWeeks: 36, // Growing-season weeks; a whole season at full stress gives the full anchor shifts
+  acidPotentialShift: -0.06,
+  phenolicPotentialShift: 0.05
+} as const;
+
+// Where appellation rules forbid irrigating vines. A country without regions listed applies to all its regions.
+export const IRRIGATION_RESTRICTIONS: Record<string, { regions?: readonly string[]; reason: string }> = {
+  France: { reason: 'French appellation rules forbid irrigating vines.' },
+  Italy: { regions: ['Piedmont', 'Tuscany'], reason: 'DOCG rules forbid irrigating vines in this region.' }
+};
+
+// Activity params type for installing irrigation (runs as a Building activity)
+export const IRRIGATION_ACTIVITY_TYPE = 'irrigation_install';
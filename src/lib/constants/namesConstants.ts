@@ -103,6 +103,66 @@ const GERMAN_FEMALE_NAMES = [
   "Angelika", "Martina", "Elke", "Helga", "Dagmar", "Susanne", "Brigitte", "Karin"
 ] as const;
 
+// ===== BRITISH NAMES =====
+const BRITISH_MALE_NAMES = [
+  "Oliver", "George", "Harry", "Jack", "Charlie", "Thomas", "James", "William",
+  "Alfie", "Freddie", "Arthur", "Archie", "Edward", "Henry", "Joshua", "Samuel",
+  "Daniel", "Matthew", "Alexander", "Rupert", "Hugo", "Benedict", "Callum", "Rhys",
+  "Owen", "Angus", "Alistair", "Graham", "Nigel", "Simon"
+] as const;
+
+const BRITISH_FEMALE_NAMES = [
+  "Olivia", "Amelia", "Isla", "Ava", "Emily", "Sophie", "Grace", "Lily",
+  "Freya", "Charlotte", "Poppy", "Evie", "Imogen", "Harriet", "Florence", "Matilda",
+  "Eleanor", "Rosie", "Beatrice", "Phoebe", "Catherine", "Fiona", "Siobhan", "Gemma",
+  "Rebecca", "Hannah", "Victoria", "Jessica", "Lucy", "Megan"
+] as const;
+
+// ===== SCANDINAVIAN NAMES =====
+const SCANDINAVIAN_MALE_NAMES = [
+  "Lars", "Anders", "Erik", "Nils", "Johan", "Magnus", "Henrik", "Mikkel",
+  "Rasmus", "Søren", "Jonas", "Emil", "Oskar", "Axel", "Bjørn", "Sven",
+  "Gustav", "Frederik", "Mathias", "Kristian", "Torbjørn", "Olav", "Viggo", "Leif",
+  "Per", "Ole", "Jens", "Karl", "Håkon", "Fredrik"
+] as const;
+
+const SCANDINAVIAN_FEMALE_NAMES = [
+  "Ingrid", "Astrid", "Sofie", "Freja", "Ida", "Emma", "Maja", "Linnea",
+  "Elsa", "Karin", "Sigrid", "Nora", "Ebba", "Frida", "Mette", "Camilla",
+  "Hanne", "Kirsten", "Signe", "Liv", "Solveig", "Tove", "Agnes", "Alma",
+  "Wilma", "Selma", "Marit", "Inger", "Helle", "Birgitta"
+] as const;
+
+// ===== JAPANESE NAMES =====
+const JAPANESE_MALE_NAMES = [
+  "Haruto", "Sota", "Yuto", "Riku", "Takumi", "Ren", "Kenji", "Hiroshi",
+  "Takeshi", "Daiki", "Kaito", "Shota", "Yuki", "Kazuki", "Ryota", "Naoki",
+  "Satoshi", "Kenta", "Makoto", "Akira", "Koji", "Tatsuya", "Yusuke", "Masato",
+  "Shun", "Hayato", "Daisuke", "Kohei", "Tomoya", "Jun"
+] as const;
+
+const JAPANESE_FEMALE_NAMES = [
+  "Yui", "Aoi", "Hina", "Sakura", "Yuna", "Mei", "Haruka", "Aya",
+  "Yuko", "Keiko", "Akiko", "Naomi", "Emi", "Mai", "Rina", "Saki",
+  "Nanami", "Misaki", "Ayaka", "Kana", "Miyu", "Riko", "Chihiro", "Kaori",
+  "Tomoko", "Noriko", "Megumi", "Asuka", "Erika", "Mio"
+] as const;
+
+// ===== CHINESE NAMES =====
+const CHINESE_MALE_NAMES = [
+  "Wei", "Jun", "Hao", "Lei", "Ming", "Qiang", "Jian", "Tao",
+  "Yong", "Bo", "Chen", "Feng", "Gang", "Hui", "Jie", "Kai",
+  "Long", "Peng", "Rui", "Sheng", "Tian", "Xin", "Yang", "Zhen",
+  "Bin", "Cheng", "Dong", "Hong", "Liang", "Zhiwei"
+] as const;
+
+const CHINESE_FEMALE_NAMES = [
+  "Mei", "Li", "Xia", "Yan", "Jing", "Hui", "Ling", "Fang",
+  "Xiu", "Yun", "Lan", "Min", "Qing", "Ying", "Hong", "Juan",
+  "Na", "Ping", "Rong", "Shu", "Ting", "Wen", "Xue", "Yue",
+  "Zhen", "Lili", "Xiaomei", "Yuxin", "Jiayi", "Ruoxi"
+] as const;
+
 // ===== LAST NAMES BY COUNTRY =====
 const LAST_NAMES_BY_COUNTRY = {
   "Italy": [
@@ -149,6 +209,30 @@ const LAST_NAMES_BY_COUNTRY = {
     "Lopez", "Hill", "Scott", "Green", "Adams", "Baker", "Gonzalez", "Nelson",
     "Carter", "Mitchell", "Perez", "Roberts", "Turner", "Phillips", "Campbell",
     "Parker", "Evans", "Edwards", "Collins"
+  ],
+  "United Kingdom": [
+    "Smith", "Jones", "Taylor", "Brown", "Williams", "Wilson", "Johnson", "Davies",
+    "Robinson", "Wright", "Thompson", "Evans", "Walker", "White", "Roberts", "Green",
+    "Hall", "Wood", "Jackson", "Clarke", "Hughes", "Edwards", "Turner", "Harrison",
+    "Cooper", "Ward", "Morris", "Bennett", "Fletcher", "Ashworth"
+  ],
+  "Scandinavia": [
+    "Hansen", "Johansen", "Olsen", "Larsen", "Andersen", "Nielsen", "Pedersen", "Kristiansen",
+    "Jensen", "Karlsson", "Andersson", "Johansson", "Nilsson", "Eriksson", "Larsson", "Lindqvist",
+    "Berg", "Dahl", "Haugen", "Lund", "Holm", "Strand", "Bakke", "Lindberg",
+    "Sørensen", "Christensen", "Mortensen", "Svensson", "Gustafsson", "Lindström"
+  ],
+  "Japan": [
+    "Sato", "Suzuki", "Takahashi", "Tanaka", "Watanabe", "Ito", "Yamamoto", "Nakamura",
+    "Kobayashi", "Kato", "Yoshida", "Yamada", "Sasaki", "Yamaguchi", "Matsumoto", "Inoue",
+    "Kimura", "Hayashi", "Shimizu", "Yamazaki", "Mori", "Abe", "Ikeda", "Hashimoto",
+    "Ishikawa", "Ogawa", "Fujita", "Okada", "Goto", "Hasegawa"
+  ],
+  "China": [
+    "Wang", "Li", "Zhang", "Liu", "Chen", "Yang", "Huang", "Zhao",
+    "Wu", "Zhou", "Xu", "Sun", "Ma", "Zhu", "Hu", "Guo",
+    "He", "Lin", "Gao", "Luo", "Zheng", "Liang", "Xie", "Song",
+    "Tang", "Han", "Feng", "Deng", "Cao", "Peng"
   ]
 } as const;
 
@@ -159,28 +243,44 @@ const BUSINESS_SUFFIXES = {
     'Germany': ["Restaurant", "Gasthaus", "Weinhaus"],
     'Italy': ["Ristorante", "Trattoria", "Osteria"],
     'Spain': ["Restaurant", "Bistro", "Bodega"],
-    'United States': ["Restaurant", "Bistro"]
+    'United States': ["Restaurant", "Bistro"],
+    'United Kingdom': ["Restaurant", "Wine Bar", "Brasserie"],
+    'Scandinavia': ["Restaurant", "Vinbar", "Bistro"],
+    'Japan': ["Restaurant", "Wine Bar", "Bistro"],
+    'China': ["Restaurant", "Wine Bar", "Dining"]
   },
   'Wine Shop': {
     'France': ["Wine Merchants", "Wine & Spirits", "Wine Cellar"],
     'Germany': ["Wine Merchants", "Wine Gallery", "Vintage Wines"],
     'Italy': ["Wine Merchants", "Wine Cellar", "Vintage Wines"],
     'Spain': ["Wine Merchants", "Wine & Spirits", "Wine Cellar"],
-    'United States': ["Wine Merchants", "Wine & Spirits", "Wine Gallery"]
+    'United States': ["Wine Merchants", "Wine & Spirits", "Wine Gallery"],
+    'United Kingdom': ["Wine Merchants", "Vintners", "Wine Cellar"],
+    'Scandinavia': ["Wine Merchants", "Vinhandel", "Wine Cellar"],
+    'Japan': ["Wine Merchants", "Wine Shop", "Wine Cellar"],
+    'China': ["Wine Merchants", "Wine Import", "Wine Cellar"]
   },
   'Private Collector': {
     'France': ["Wines", "Wine Trading", "Fine Wines"],
     'Germany': ["Wines", "Wine Import", "Wine Selection"],
     'Italy': ["Wines", "Wine Trading", "Fine Wines"],
     'Spain': ["Wines", "Wine Trading", "Fine Wines"],
-    'United States': ["Wines", "Wine Trading", "Fine Wines"]
+    'United States': ["Wines", "Wine Trading", "Fine Wines"],
+    'United Kingdom': ["Wines", "Fine Wines", "Cellars"],
+    'Scandinavia': ["Wines", "Wine Import", "Fine Wines"],
+    'Japan': ["Wines", "Wine Trading", "Fine Wines"],
+    'China': ["Wines", "Wine Trading", "Fine Wines"]
   },
   'Chain Store': {
     'France': ["International", "Group", "Distribution"],
     'Germany': ["Corporation", "Holdings", "International"],
     'Italy': ["International", "Corporation", "Group"],
     'Spain': ["International", "Group", "Distribution"],
-    'United States': ["Inc.", "Corporation", "International"]
+    'United States': ["Inc.", "Corporation", "International"],
+    'United Kingdom': ["plc", "Group", "Retail"],
+    'Scandinavia': ["AB", "Group", "Distribution"],
+    'Japan': ["Co., Ltd.", "Holdings", "Corporation"],
+    'China': ["Group", "Holdings", "Trading Co."]
   }
 } as const;
 
@@ -251,6 +351,58 @@ export const NAMES = {
       'Private Collector': BUSINESS_SUFFIXES['Private Collector']['United States'],
       'Chain Store': BUSINESS_SUFFIXES['Chain Store']['United States']
     }
+  },
+  'United Kingdom': {
+    firstNames: {
+      male: BRITISH_MALE_NAMES,
+      female: BRITISH_FEMALE_NAMES
+    },
+    lastNames: LAST_NAMES_BY_COUNTRY['United Kingdom'],
+    businessSuffixes: {
+      'Restaurant': BUSINESS_SUFFIXES.Restaurant['United Kingdom'],
+      'Wine Shop': BUSINESS_SUFFIXES['Wine Shop']['United Kingdom'],
+      'Private Collector': BUSINESS_SUFFIXES['Private Collector']['United Kingdom'],
+      'Chain Store': BUSINESS_SUFFIXES['Chain Store']['United Kingdom']
+    }
+  },
+  'Scandinavia': {
+    firstNames: {
+      male: SCANDINAVIAN_MALE_NAMES,
+      female: SCANDINAVIAN_FEMALE_NAMES
+    },
+    lastNames: LAST_NAMES_BY_COUNTRY['Scandinavia'],
+    businessSuffixes: {
+      'Restaurant': BUSINESS_SUFFIXES.Restaurant['Scandinavia'],
+      'Wine Shop': BUSINESS_SUFFIXES['Wine Shop']['Scandinavia'],
+      'Private Collector': BUSINESS_SUFFIXES['Private Collector']['Scandinavia'],
+      'Chain Store': BUSINESS_SUFFIXES['Chain Store']['Scandinavia']
+    }
+  },
+  'Japan': {
+    firstNames: {
+      male: JAPANESE_MALE_NAMES,
+      female: JAPANESE_FEMALE_NAMES
+    },
+    lastNames: LAST_NAMES_BY_COUNTRY['Japan'],
+    businessSuffixes: {
+      'Restaurant': BUSINESS_SUFFIXES.Restaurant['Japan'],
+      'Wine Shop': BUSINESS_SUFFIXES['Wine Shop']['Japan'],
+      'Private Collector': BUSINESS_SUFFIXES['Private Collector']['Japan'],
+      'Chain Store': BUSINESS_SUFFIXES['Chain Store']['Japan']
+    }
+  },
+  'China': {
+    firstNames: {
+      male: CHINESE_MALE_NAMES,
+      female: CHINESE_FEMALE_NAMES
+    },
+    lastNames: LAST_NAMES_BY_COUNTRY['China'],
+    businessSuffixes: {
+      'Restaurant': BUSINESS_SUFFIXES.Restaurant['China'],
+      'Wine Shop': BUSINESS_SUFFIXES['Wine Shop']['China'],
+      'Private Collector': BUSINESS_SUFFIXES['Private Collector']['China'],
+      'Chain Store': BUSINESS_SUFFIXES['Chain Store']['China']
+    }
   }
 } as const;
 
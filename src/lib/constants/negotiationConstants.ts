@@ -0,0 +1,23 @@
+/**
+ * Negotiation: counter-offers on wine orders and contracts. The more a counter asks of the
+ * customer (a higher price, a different quantity or delivery schedule), the less likely they
+ * accept; big spenders, good relationships and a skilled salesperson at the table help, and
+ * every earlier round wears their patience thin.
+ */
+
+export const NEGOTIATION = {
+  priceTolerance: 0.08, // Price rise over the current terms an average customer accepts about a third of the time
+  overAskingWeight: 2, // Extra weight on asking more than our own asking price at order time
+  quantityIncreaseTolerance: 0.35, // Share more bottles than requested, judged like the price rise
+  quantityCutTolerance: 0.8, // Cutting the quantity weighs less than raising it
+  scheduleStepWeight: 0.4, // Per delivery a year or year of duration changed
+  relationshipWeight: 0.02, // Goodwill added per relationship point
+  noStaffSalesSkill: 0.25, // Negotiating without a salesperson at the table
+  patienceDecay: 0.8, // Acceptance kept for each earlier round
+  maxFailedRounds: 3, // The customer withdraws after this many turned-down counters
+  maxAcceptance: 0.98,
+  failedRelationshipPenalty: 1, // Relationship points lost per turned-down counter
+  walkAwayRelationshipPenalty: 3, // Relationship points lost when the customer withdraws
+  maxDeliveriesPerYear: 4,
+  maxDurationYears: 5
+} as const;
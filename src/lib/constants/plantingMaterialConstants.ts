@@ -0,0 +1,144 @@
+import type { Rootstock, VineClone, VineDisease } from '@/lib/types/types';
+
+/**
+ * Planting material: the rootstock vines are grafted onto and the clone of the grape variety, both
+ * chosen when planting or replanting. The rootstock sets vigour, drought tolerance, root-borne disease
+ * resistance and the soils it establishes best in; the clone trades crop size against concentration.
+ * Vines planted before planting material was recorded have neither and get no effects.
+ */
+
+export interface RootstockInfo {
+  label: string;
+  description: string;
+  vigour: number; // Multiplies the yearly vine-yield gains while vines establish; low vigour concentrates the fruit
+  ripeningMultiplier: number; // Vigorous rootstocks grow more canopy and ripen later
+  droughtResistance: number; // Share of water stress the roots hold off (0-1)
+  diseaseResistance: Partial<Record<VineDisease, number>>; // Added to the grape's own resistance
+  soilAffinity: string[]; // Soils the rootstock establishes best in
+}
+
+export const ROOTSTOCKS: Record<Rootstock, RootstockInfo> = {
+  ownRoots: {
+    label: 'Own Roots',
+    description: 'Ungrafted vines: pure expression of the variety, but defenceless against phylloxera outside sandy soils.',
+    vigour: 1,
+    ripeningMultiplier: 1,
+    droughtResistance: 0,
+    diseaseResistance: { phylloxera: -0.4 },
+    soilAffinity: ['Sand', 'Arenas', 'Volcanic', 'Volcanic Soil']
+  },
+  ripariaGloire: {
+    label: 'Riparia Gloire',
+    description: 'Low vigour and early ripening; thrives in deep, moist soils but suffers in drought.',
+    vigour: 0.9,
+    ripeningMultiplier: 1.06,
+    droughtResistance: 0,
+    diseaseResistance: { phylloxera: 0.3 },
+    soilAffinity: ['Loam', 'Alluvial', 'Loess', 'Clay']
+  },
+  rupestrisDuLot: {
+    label: 'Rupestris du Lot',
+    description: 'Very vigorous and deep rooting; big crops on poor, stony soils, ripening a little later.',
+    vigour: 1.15,
+    ripeningMultiplier: 0.95,
+    droughtResistance: 0.3,
+    diseaseResistance: { phylloxera: 0.3, downyMildew: -0.05, powderyMildew: -0.05 },
+    soilAffinity: ['Gravel', 'Granite', 'Schist', 'Slate', 'Quartzite']
+  },
+  so4: {
+    label: 'SO4',
+    description: 'Moderate vigour all-rounder that copes well with damp, heavy soils.',
+    vigour: 1.05,
+    ripeningMultiplier: 1,
+    droughtResistance: 0.1,
+    diseaseResistance: { phylloxera: 0.35 },
+    soilAffinity: ['Clay', 'Marl', 'Ferrous Clay', 'Barros']
+  },
+  richter110: {
+    label: '110 Richter',
+    description: 'Strongly drought tolerant with fairly high vigour; the choice for hot, dry sites.',
+    vigour: 1.1,
+    ripeningMultiplier: 0.97,
+    droughtResistance: 0.5,
+    diseaseResistance: { phylloxera: 0.35, downyMildew: -0.03, powderyMildew: -0.03 },
+    soilAffinity: ['Limestone', 'Sandstone', 'Red Earth', 'Galestro']
+  },
+  berlandieri41B: {
+    label: '41B',
+    description: 'Tolerates chalk and active limestone; modest vigour for concentrated, earlier fruit.',
+    vigour: 0.95,
+    ripeningMultiplier: 1.03,
+    droughtResistance: 0.25,
+    diseaseResistance: { phylloxera: 0.3 },
+    soilAffinity: ['Chalk', 'Clay-Limestone', 'Limestone', 'Albariza']
+  }
+};
+
+export interface VineCloneInfo {
+  label: string;
+  description: string;
+  premium: boolean; // Premium clones must be unlocked through research
+  naturalYieldMultiplier: number;
+  vineYieldGrowthMultiplier: number; // Multiplies the yearly vine-yield gains while vines establish
+  ripeningMultiplier: number;
+  phenolicPotentialShift: number;
+  aromaticPotentialShift: number;
+  acidPotentialShift: number;
+}
+
+export const VINE_CLONES: Record<VineClone, VineCloneInfo> = {
+  standard: {
+    label: 'Standard Clone',
+    description: 'The nursery\'s certified standard selection of the variety.',
+    premium: false,
+    naturalYieldMultiplier: 1,
+    vineYieldGrowthMultiplier: 1,
+    ripeningMultiplier: 1,
+    phenolicPotentialShift: 0,
+    aromaticPotentialShift: 0,
+    acidPotentialShift: 0
+  },
+  productive: {
+    label: 'Productive Clone',
+    description: 'Large bunches and berries for volume, with more dilute fruit.',
+    premium: false,
+    naturalYieldMultiplier: 1.15,
+    vineYieldGrowthMultiplier: 1.05,
+    ripeningMultiplier: 0.97,
+    phenolicPotentialShift: -0.03,
+    aromaticPotentialShift: -0.03,
+    acidPotentialShift: 0
+  },
+  smallBerry: {
+    label: 'Small-Berry Quality Clone',
+    description: 'Small, loose bunches with thick skins: less fruit, more colour and flavour.',
+    premium: true,
+    naturalYieldMultiplier: 0.88,
+    vineYieldGrowthMultiplier: 1,
+    ripeningMultiplier: 1.03,
+    phenolicPotentialShift: 0.03,
+    aromaticPotentialShift: 0.03,
+    acidPotentialShift: 0
+  },
+  massalSelection: {
+    label: 'Massal Selection',
+    description: 'Cuttings from the best old vines: low yields, diverse and complex fruit that keeps its freshness.',
+    premium: true,
+    naturalYieldMultiplier: 0.82,
+    vineYieldGrowthMultiplier: 0.95,
+    ripeningMultiplier: 1,
+    phenolicPotentialShift: 0.04,
+    aromaticPotentialShift: 0.05,
+    acidPotentialShift: 0.02
+  }
+};
+
+export const DEFAULT_ROOTSTOCK: Rootstock = 'so4';
+export const DEFAULT_VINE_CLONE: VineClone = 'standard';
+
+export const PLANTING_MATERIAL = {
+  soilAffinityBonus: 0.1, // Extra vine-yield growth when every soil suits the rootstock
+  vigourPhenolicShift: 0.2, // Phenolic potential gained per unit of vigour below 1 (lost above 1)
+  maxDiseaseResistance: 0.95,
+  replantMaterialShare: 0.5 // Replanting at least this share of the vines records the new rootstock and clone
+} as const;
@@ -0,0 +1,43 @@
+import type { BottleClosure, BottleFormat, SparklingDosage } from '@/lib/types/types';
+
+/**
+ * Traditional Method sparkling: tirage (bottling with liqueur de tirage), weeks on the lees
+ * in bottle, riddling, then disgorgement with dosage before the wine counts as bottled.
+ */
+
+export type SparklingStep = 'tirage' | 'riddling' | 'disgorgement';
+
+// The second fermentation (prise de mousse) runs over the first weeks en tirage; autolysis follows.
+export const SPARKLING_SECONDARY_FERMENTATION_WEEKS = 6;
+// Minimum time on the lees (secondary fermentation included) before riddling is allowed.
+export const SPARKLING_MIN_TIRAGE_WEEKS = 24;
+// Lees autolysis keeps developing but slows down after this many weeks.
+export const SPARKLING_FULL_AUTOLYSIS_WEEKS = 96;
+
+// Bottles handled per week and fixed setup work for each step.
+export const SPARKLING_WORK: Record<SparklingStep, { rate: number; initialWork: number }> = {
+  tirage: { rate: 1500, initialWork: 60 },
+  riddling: { rate: 3000, initialWork: 20 },
+  disgorgement: { rate: 1200, initialWork: 40 }
+};
+
+// Materials per bottle (€): tirage crown caps and liqueur; disgorgement cages and liqueur d'expédition.
+// The bottle and cork are packaging, charged at disgorgement like still-wine bottling.
+export const SPARKLING_COST_PER_BOTTLE: Record<SparklingStep, number> = {
+  tirage: 0.2,
+  riddling: 0.05,
+  disgorgement: 0.4
+};
+
+// The wine is sold in the standard bottle it went en tirage in, corked at disgorgement.
+export const SPARKLING_BOTTLE_FORMAT: BottleFormat = 'standard';
+export const SPARKLING_BOTTLE_CLOSURE: BottleClosure = 'natural_cork';
+
+// Share of bottles lost to the ejected lees plug, top-ups and breakage at disgorgement.
+export const SPARKLING_DISGORGEMENT_LOSS = 0.02;
+
+export const SPARKLING_DOSAGES: Record<SparklingDosage, { label: string; sweetness: number; description: string }> = {
+  brut_nature: { label: 'Brut Nature', sweetness: 0, description: 'No added sugar; bone dry and austere' },
+  brut: { label: 'Brut', sweetness: 0.04, description: 'A touch of sugar to round off the acidity' },
+  demi_sec: { label: 'Demi-Sec', sweetness: 0.15, description: 'Noticeably sweet; suits desserts' }
+};
@@ -29,6 +29,34 @@ export const STORAGE_VESSEL_AGE_RESIDUAL_MULTIPLIER = 0.03;
 export const STORAGE_VESSEL_MAX_GENERATED_AGE_YEARS = 40;
 export const STORAGE_VESSEL_FILL_HISTORY_PRICE_DECAY = 0.035;
 
+// Vessel memory: porous vessels keep a fading imprint of their last few fills.
+// The fill limit is mirrored by `record_storage_vessel_fill_imprints` in SQL.
+export const STORAGE_VESSEL_IMPRINT_MAX_FILLS = 3;
+export const STORAGE_VESSEL_IMPRINT_FULL_CONTACT_WEEKS = 26;
+export const STORAGE_VESSEL_IMPRINT_MIN_CONTACT_DEPOSIT = 0.3;
+export const STORAGE_VESSEL_IMPRINT_FILL_RETENTION = 0.5;
+export const STORAGE_VESSEL_IMPRINT_WEEKLY_RETENTION = 0.99;
+export const STORAGE_VESSEL_IMPRINT_MATERIAL_MEMORY = {
+  oak: 1,
+  chestnut: 0.85,
+  ceramic: 0.45,
+  concrete: 0.3,
+  plastic: 0.15,
+  stainless_steel: 0.02,
+} as const;
+// Share of each stored fill that survives one Clean Vessel; wood keeps absorbed compounds.
+export const STORAGE_VESSEL_IMPRINT_CLEANING_RETENTION = {
+  oak: 0.8,
+  chestnut: 0.75,
+  ceramic: 0.6,
+  concrete: 0.5,
+  plastic: 0.4,
+  stainless_steel: 0.1,
+} as const;
+// A full-strength imprint pulls maturing wine this far toward itself per week, for a limited number of weeks.
+export const STORAGE_VESSEL_IMPRINT_WEEKLY_RELEASE = 0.004;
+export const STORAGE_VESSEL_IMPRINT_RELEASE_WEEKS = 12;
+
 export const STORAGE_VESSEL_USED_MARKET_LISTING_WEEKS = 52;
 export const STORAGE_VESSEL_USED_MARKET_CONDITION_DECAY_PER_WEEK = {
   oak: 0.0035,
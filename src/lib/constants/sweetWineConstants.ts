@@ -0,0 +1,55 @@
+import type { SweetnessStyle, SweetWineMethod } from '@/lib/types/types';
+
+/**
+ * Sweet and fortified wines: fermentation is stopped while sugar remains, either by
+ * arresting it (chilling and filtering out the yeast) or by fortifying with grape spirit.
+ */
+
+// Share of the unfermented sugar potential kept as sweetness when fermentation stops.
+export const SWEET_WINE_RESIDUAL_SUGAR: Record<SweetWineMethod, number> = {
+  arrested: 0.45,
+  fortified: 0.55
+};
+
+// Extra residual sugar per point of feature severity: botrytised and late-picked grapes carry more sugar.
+export const SWEET_WINE_FEATURE_SUGAR_BONUS: Record<'late_harvest' | 'noble_rot', number> = {
+  late_harvest: 0.2,
+  noble_rot: 0.3
+};
+
+// Fortification adds grape spirit: warmth and body, slightly lower perceived acidity.
+// Spirit volume is not added to the batch; only its cost is charged. Batch volume is what its
+// Storage Vessels hold, the game has no alcohol-by-volume figure to keep in step, and the
+// spirit's effect on the wine is carried by these characteristic and anchor changes.
+export const FORTIFICATION = {
+  SPIRIT_LITRES_PER_LITRE: 0.2,
+  SPIRIT_COST_PER_LITRE: 8,
+  BODY_BOOST: 0.08,
+  ACIDITY_CHANGE: -0.02
+} as const;
+
+// Arrested wines at or above this sweetness count as sweet; below it they are off-dry.
+export const SWEET_WINE_SWEET_THRESHOLD = 0.75;
+
+export const SWEETNESS_STYLE_LABELS: Record<SweetnessStyle, string> = {
+  dry: 'Dry',
+  off_dry: 'Off-Dry',
+  sweet: 'Sweet',
+  fortified: 'Fortified'
+};
+
+export const SWEET_WINE_METHOD_LABELS: Record<SweetWineMethod, string> = {
+  arrested: 'Arrested Fermentation',
+  fortified: 'Fortified'
+};
+
+/**
+ * Sweet wine pricing curve per style: multiplier = min + (max - min) * wineScore^2.
+ * Great dessert and fortified wines command a steep premium; mediocre ones sell at a discount.
+ */
+export const SWEET_WINE_PRICE_CURVE: Record<SweetnessStyle, { min: number; max: number }> = {
+  dry: { min: 1, max: 1 },
+  off_dry: { min: 0.9, max: 1.2 },
+  sweet: { min: 0.8, max: 1.9 },
+  fortified: { min: 0.85, max: 1.7 }
+};
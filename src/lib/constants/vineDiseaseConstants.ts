@@ -0,0 +1,150 @@
+import type { Aspect, Season, VineDisease, VineTreatment } from '@/lib/types/types';
+
+/**
+ * Vine diseases and pests: downy mildew, powdery mildew (oidium) and phylloxera build up risk on a
+ * growing vineyard's pending features each week. Pressure rises with this year's wet and hot weeks,
+ * dense planting, shaded aspects and overgrown rows, and falls with the grape's resistance and any
+ * treatment applied this season. Once present, a disease spreads, costs health each week, takes part
+ * of the season's crop and is carried into the harvested grapes.
+ */
+
+export interface VineDiseaseInfo {
+  featureId: string; // Pending feature carrying the disease's risk and severity
+  label: string;
+  icon: string;
+  seasons: Season[]; // Seasons in which pressure builds
+  baseRate: number; // Weekly risk at neutral pressure
+  wetWeight: number; // Pressure added by a season of rain and storms
+  heatWeight: number; // Pressure added by a season of heat
+  densityWeight: number; // Pressure change per density step away from the reference
+  aspectWeight: number; // How much shaded, damp aspects matter
+  overgrowthWeight: number; // How much overgrown rows matter
+  spreadRate: number; // Weekly severity growth at neutral pressure once present
+  weeklyHealthLoss: number; // At full severity
+  yieldLoss: number; // Share of the season's crop lost at full severity
+}
+
+export const VINE_DISEASES: Record<VineDisease, VineDiseaseInfo> = {
+  downyMildew: {
+    featureId: 'downy_mildew',
+    label: 'Downy Mildew',
+    icon: '🍃',
+    seasons: ['Spring', 'Summer'],
+    baseRate: 0.003,
+    wetWeight: 3,
+    heatWeight: 0.5,
+    densityWeight: 0.3,
+    aspectWeight: 1,
+    overgrowthWeight: 2,
+    spreadRate: 0.02,
+    weeklyHealthLoss: 0.004,
+    yieldLoss: 0.4
+  },
+  powderyMildew: {
+    featureId: 'powdery_mildew',
+    label: 'Powdery Mildew',
+    icon: '🌫️',
+    seasons: ['Spring', 'Summer'],
+    baseRate: 0.003,
+    wetWeight: 0.5,
+    heatWeight: 2,
+    densityWeight: 0.4,
+    aspectWeight: 0.5,
+    overgrowthWeight: 2,
+    spreadRate: 0.02,
+    weeklyHealthLoss: 0.003,
+    yieldLoss: 0.35
+  },
+  phylloxera: {
+    featureId: 'phylloxera',
+    label: 'Phylloxera',
+    icon: '🐛',
+    seasons: ['Spring', 'Summer', 'Fall'],
+    baseRate: 0.0015,
+    wetWeight: 0,
+    heatWeight: 1,
+    densityWeight: 0.5,
+    aspectWeight: 0,
+    overgrowthWeight: 3,
+    spreadRate: 0.01,
+    weeklyHealthLoss: 0.008, // The louse slowly kills the roots
+    yieldLoss: 0.3
+  }
+};
+
+export const DISEASE_PRESSURE = {
+  referenceDensity: 5000, // Vines per hectare at which density is neutral
+  minDensityFactor: 0.6,
+  maxDensityFactor: 1.6
+} as const;
+
+// Dampness of each aspect: shaded slopes dry out slowly after rain, sunny ones quickly
+export const ASPECT_DAMPNESS: Record<Aspect, number> = {
+  North: 0.2,
+  Northeast: 0.15,
+  East: 0.05,
+  Southeast: -0.05,
+  South: -0.15,
+  Southwest: -0.1,
+  West: 0,
+  Northwest: 0.1
+};
+
+// Phylloxera cannot move through sandy soils, so vines on them are largely spared
+export const PHYLLOXERA_RESISTANT_SOILS = ['Sand', 'Arenas'];
+export const PHYLLOXERA_SANDY_SOIL_FACTOR = 0.2;
+
+export interface VineTreatmentInfo {
+  label: string;
+  description: string;
+  disease: VineDisease;
+  seasons: Season[]; // Seasons the treatment can be started in
+  costPerHectare: number; // Supplies charged on completion
+  rate: number; // hectares/week
+  initialWork: number;
+  riskReduction: number; // Share of the disease's risk removed on completion
+  severityReduction: number; // Share of a present disease's severity removed on completion
+  protection: number; // Share of the disease's pressure held off for the rest of the season
+}
+
+export const VINE_TREATMENTS: Record<VineTreatment, VineTreatmentInfo> = {
+  copperSpray: {
+    label: 'Copper Spray',
+    description: 'Spray copper on the leaves to stop downy mildew spores taking hold',
+    disease: 'downyMildew',
+    seasons: ['Spring', 'Summer'],
+    costPerHectare: 300,
+    rate: 1.2,
+    initialWork: 2,
+    riskReduction: 0.7,
+    severityReduction: 0.3,
+    protection: 0.75
+  },
+  sulfurSpray: {
+    label: 'Sulfur Spray',
+    description: 'Dust or spray sulfur over the canopy to keep powdery mildew down',
+    disease: 'powderyMildew',
+    seasons: ['Spring', 'Summer'],
+    costPerHectare: 200,
+    rate: 1.2,
+    initialWork: 2,
+    riskReduction: 0.7,
+    severityReduction: 0.3,
+    protection: 0.75
+  },
+  rootTreatment: {
+    label: 'Root Treatment',
+    description: 'Treat the soil around the roots to slow the spread of phylloxera',
+    disease: 'phylloxera',
+    seasons: ['Spring', 'Summer', 'Fall'],
+    costPerHectare: 1500,
+    rate: 0.4,
+    initialWork: 5,
+    riskReduction: 0.5,
+    severityReduction: 0.1,
+    protection: 0.6
+  }
+};
+
+// Activity params type for vine treatments (runs as a Clearing activity)
+export const VINE_TREATMENT_ACTIVITY_TYPE = 'vine_treatment';
@@ -381,3 +381,15 @@ export const SEASONAL_RIPENESS_RANDOMNESS = {
   Winter: { min: 0, max: 0 }        // No ripening
 } as const;
 
+// Grape tenure: land kept planted with the same grape gains value, rising linearly to the cap
+export const GRAPE_TENURE_LAND_VALUE = {
+  maxBonus: 0.03, // Added to the land value multiplier
+  fullBonusYears: 50
+} as const;
+
+// Estate parcels: blocks split off a vineyard that share its land but grow their own vines
+export const VINEYARD_PARCELS = {
+  minHectares: 0.1, // Smallest parcel, and the least a split must leave behind
+  maxPerEstate: 6,
+  mainParcelName: 'Main parcel' // Shown for the estate's original vineyard until it is named
+} as const;
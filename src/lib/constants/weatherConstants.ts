@@ -1,8 +1,11 @@
 import type {
   Season,
+  SevereWeatherEvent,
+  VintageRating,
   WeatherForecastConfidence,
   WeatherForecastPattern,
   WeatherIntensity,
+  WeatherMitigation,
   WeatherState,
 } from '@/lib/types/types';
 
@@ -167,3 +170,178 @@ export const WEATHER_SUITABILITY_EXPOSURE = {
   min: 0.9,
   max: 1.1,
 } as const;
+
+// Soil moisture: weekly water balance from the weather state (scaled by intensity), the season and the seasonal pattern.
+// Water-retentive soils gain more and lose less; higher sites lose less to evaporation.
+export const WEATHER_SOIL_MOISTURE = {
+  default: 0.6,
+  fieldCapacity: 0.85,
+  drainage: 0.5, // Share of the water above field capacity that drains away each week
+  altitudeEvaporation: 0.1, // Evaporation reduction at the top of the altitude exposure range
+} as const;
+
+export const WEATHER_SOIL_MOISTURE_BY_STATE: Record<WeatherState, number> = {
+  Clear: -0.025,
+  Rain: 0.07,
+  Heat: -0.06,
+  Frost: 0,
+  Storm: 0.09,
+  Snow: 0.03,
+};
+
+export const WEATHER_SOIL_MOISTURE_BY_SEASON: Record<Season, number> = {
+  Spring: -0.005,
+  Summer: -0.025,
+  Fall: 0,
+  Winter: 0.03,
+};
+
+export const WEATHER_SOIL_MOISTURE_BY_PATTERN: Record<WeatherForecastPattern, number> = {
+  Stable: 0,
+  Wet: 0.015,
+  Dry: -0.02,
+  Cold: 0.005,
+  Heat: -0.015,
+  'Storm-prone': 0.01,
+};
+
+// Vintage: each growing-season week adds its weather state, weighted by intensity and site exposure
+export const WEATHER_VINTAGE_INTENSITY_WEIGHTS: Record<WeatherIntensity, number> = {
+  VeryMild: 0.5,
+  Mild: 0.75,
+  Moderate: 1,
+  Severe: 1.35,
+  Extreme: 1.7,
+};
+
+// Effect of one full-weight week of each state, spread over a whole growing season (Spring to Fall)
+export const WEATHER_VINTAGE_EFFECTS: Record<WeatherState, { yield: number; quality: number; sugar: number; acid: number }> = {
+  Clear: { yield: 0.2, quality: 0.5, sugar: 0.08, acid: -0.02 },
+  Rain: { yield: 0.35, quality: -0.25, sugar: -0.06, acid: 0.04 },
+  Heat: { yield: -0.15, quality: 0.25, sugar: 0.2, acid: -0.12 },
+  Frost: { yield: -0.5, quality: -0.4, sugar: -0.1, acid: 0.1 },
+  Storm: { yield: -0.35, quality: -0.35, sugar: -0.04, acid: 0.02 },
+  Snow: { yield: -0.3, quality: -0.2, sugar: -0.08, acid: 0.08 },
+};
+
+export const WEATHER_VINTAGE_SEASON_WEEKS = 36;
+export const WEATHER_VINTAGE_BOUNDS = {
+  yield: { min: 0.6, max: 1.25 },
+  quality: { min: 0.8, max: 1.2 },
+  anchorShift: 0.1,
+} as const;
+// Share of the quality factor's deviation passed on to phenolic and aromatic potential
+export const WEATHER_VINTAGE_QUALITY_ANCHOR_WEIGHT = 0.5;
+
+export const WEATHER_VINTAGE_RATINGS: ReadonlyArray<{ minQuality: number; rating: VintageRating }> = [
+  { minQuality: 1.08, rating: 'Exceptional' },
+  { minQuality: 1.03, rating: 'Good' },
+  { minQuality: 0.97, rating: 'Average' },
+  { minQuality: 0.92, rating: 'Difficult' },
+  { minQuality: 0, rating: 'Poor' },
+];
+
+// Severe weather: a week of Severe or Extreme weather of the right state and season strikes the vineyards.
+// Losses are for intensity Severe and full site exposure; hail is local and only strikes some vineyards.
+export const SEVERE_WEATHER_EVENTS: Record<SevereWeatherEvent, {
+  label: string;
+  state: WeatherState;
+  seasons: readonly Season[];
+  minIntensity: WeatherIntensity;
+  strikeChance: number;
+  yieldLoss: number;
+  healthLoss: number;
+  pendingFeatureEffects: ReadonlyArray<{ featureId: string; riskAdd?: number; severityMultiplier?: number }>;
+  mitigation: WeatherMitigation;
+}> = {
+  springFrost: {
+    label: 'Spring frost',
+    state: 'Frost',
+    seasons: ['Spring'],
+    minIntensity: 'Severe',
+    strikeChance: 1,
+    yieldLoss: 0.2,
+    healthLoss: 0.04,
+    pendingFeatureEffects: [],
+    mitigation: 'frostCandles',
+  },
+  hail: {
+    label: 'Hail',
+    state: 'Storm',
+    seasons: ['Spring', 'Summer'],
+    minIntensity: 'Severe',
+    strikeChance: 0.5,
+    yieldLoss: 0.15,
+    healthLoss: 0.06,
+    // Split berries let grey rot in and spoil any noble rot
+    pendingFeatureEffects: [
+      { featureId: 'grey_rot', riskAdd: 0.15 },
+      { featureId: 'noble_rot', severityMultiplier: 0.5 },
+    ],
+    mitigation: 'hailNets',
+  },
+  heatwave: {
+    label: 'Heatwave',
+    state: 'Heat',
+    seasons: ['Summer'],
+    minIntensity: 'Severe',
+    strikeChance: 1,
+    yieldLoss: 0.08,
+    healthLoss: 0.03,
+    // Shrivelled berries dry out noble rot
+    pendingFeatureEffects: [{ featureId: 'noble_rot', riskAdd: -0.1, severityMultiplier: 0.7 }],
+    mitigation: 'kaolinSpray',
+  },
+};
+
+export const SEVERE_WEATHER_INTENSITY_SCALE: Partial<Record<WeatherIntensity, number>> = {
+  Severe: 1,
+  Extreme: 1.5,
+};
+
+// Mitigation set up in the week a severe event is forecast; it guards the vineyard against the next strike of
+// its event this season and is spent by that strike, whether or not it works
+export const WEATHER_MITIGATIONS: Record<WeatherMitigation, {
+  label: string;
+  description: string;
+  event: SevereWeatherEvent;
+  costPerHectare: number;
+  rate: number; // Hectares per week of work
+  initialWork: number;
+  successChance: number;
+  damageReduction: number; // Share of the damage avoided when the mitigation works
+}> = {
+  frostCandles: {
+    label: 'Frost candles',
+    description: 'Burn candles between the rows on the frost night to keep buds above freezing.',
+    event: 'springFrost',
+    costPerHectare: 1200,
+    rate: 1.5,
+    initialWork: 3,
+    successChance: 0.75,
+    damageReduction: 0.8,
+  },
+  hailNets: {
+    label: 'Hail nets',
+    description: 'Stretch nets over the rows to catch hailstones before they reach the fruit.',
+    event: 'hail',
+    costPerHectare: 2500,
+    rate: 0.5,
+    initialWork: 6,
+    successChance: 0.85,
+    damageReduction: 0.9,
+  },
+  kaolinSpray: {
+    label: 'Kaolin spray',
+    description: 'Coat the canopy with kaolin clay to reflect sunlight and cool the berries.',
+    event: 'heatwave',
+    costPerHectare: 400,
+    rate: 2,
+    initialWork: 2,
+    successChance: 0.7,
+    damageReduction: 0.6,
+  },
+};
+
+// Activity params type for setting up weather mitigation (runs as a Clearing activity)
+export const WEATHER_MITIGATION_ACTIVITY_TYPE = 'weather_mitigation';
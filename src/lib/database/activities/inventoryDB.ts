@@ -1,5 +1,5 @@
 import { supabase } from '../core/supabase';
-import { WineBatch, GrapeVariety, Season } from '../../types/types';
+import { WineBatch, GrapeVariety, Season, BottleClosure, BottleFormat } from '../../types/types';
 import { getCompanyQuery, getCurrentCompanyId } from '../../utils/companyUtils';
 import { GRAPE_CONST } from '../../constants/grapeConstants';
 import { buildGameDate } from '../dbMapperUtils';
@@ -67,12 +67,21 @@ export const toWineBatchRow = (batch: WineBatch, companyId = getCurrentCompanyId
         company_id: companyId,
         vineyard_id: batch.vineyardId,
         vineyard_name: batch.vineyardName,
+        parcel_name: batch.parcelName ?? null,
         grape_variety: batch.grape,
         quantity: Math.round(batch.quantity),
         volume_litres: batch.volumeLitres ?? null,
         storage_plan_id: batch.storagePlanId ?? null,
         state: batch.state,
         fermentation_progress: Math.round(batch.fermentationProgress || 0),
+        maturation_weeks: Math.round(batch.maturationWeeks || 0),
+        sparkling: batch.sparkling ?? false,
+        tirage_weeks: Math.round(batch.tirageWeeks || 0),
+        sweet_wine_method: batch.sweetWineMethod ?? null,
+        bottle_format: batch.bottleFormat ?? 'standard',
+        bottle_closure: batch.bottleClosure ?? 'natural_cork',
+        farming_certification: batch.farmingCertification ?? null,
+        cellar_operations: batch.cellarOperations ?? [],
         fermentation_options: batch.fermentationOptions, 
         land_value_modifier_harvest_snapshot: batch.landValueModifierHarvestSnapshot,
         structure_index_harvest_snapshot: batch.structureIndexHarvestSnapshot,
@@ -85,17 +94,20 @@ export const toWineBatchRow = (batch: WineBatch, companyId = getCurrentCompanyId
         estimated_price: batch.estimatedPrice,
         asking_price: batch.askingPrice,
         grape_color: batch.grapeColor,
+        wine_style: batch.wineStyle,
         natural_yield: batch.naturalYield,
         fragile: batch.fragile,
         prone_to_oxidation: batch.proneToOxidation,
         features: batch.features || [], // Store features as JSONB array
         origin_snapshot: batch.originSnapshot ?? null,
+        blend_components: batch.blendComponents ?? null,
         wine_anchors: batch.wineAnchors,
         harvest_start_week: Math.round(batch.harvestStartDate.week),
         harvest_start_season: batch.harvestStartDate.season,
         harvest_start_year: Math.round(batch.harvestStartDate.year),
         batch_number: batch.batchNumber ?? null,
         batch_group_size: batch.batchGroupSize ?? null,
+        parent_batch_id: batch.parentBatchId ?? null,
         harvest_end_week: Math.round(batch.harvestEndDate.week),
         harvest_end_season: batch.harvestEndDate.season,
         harvest_end_year: Math.round(batch.harvestEndDate.year),
@@ -158,6 +170,65 @@ export async function appendStorageBackedHarvestBatch(companyId: string, batch:
   return Boolean(data);
 }
 
+/**
+ * Atomically merge source batches into the target batch. Fully blended source rows are
+ * deleted and their live vessel allocations move onto the target plan; sources listed in
+ * `remainders` keep the given volume in their own vessels. Vessels left empty are released.
+ */
+export async function blendStorageBackedWineBatches(input: {
+  companyId: string;
+  batch: WineBatch;
+  sourceBatchIds: string[];
+  remainders: Array<{ batchId: string; volumeLitres: number; quantity: number }>;
+  releasedYear: number;
+  releasedSeason: Season;
+  releasedWeek: number;
+}): Promise<boolean> {
+  const { batch } = input;
+  if (!batch.storagePlanId) return false;
+  const { data, error } = await supabase.rpc('blend_storage_backed_wine_batches', {
+    p_company_id: input.companyId,
+    p_target_batch_id: batch.id,
+    p_target_plan_id: batch.storagePlanId,
+    p_source_batch_ids: input.sourceBatchIds,
+    p_remainders: input.remainders.map((remainder) => ({ id: remainder.batchId, volume_litres: remainder.volumeLitres, quantity: remainder.quantity })),
+    p_batch: toWineBatchRow(batch, input.companyId),
+    p_released_year: input.releasedYear,
+    p_released_season: input.releasedSeason,
+    p_released_week: input.releasedWeek,
+  });
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * Atomically split a crushed batch: the source keeps its storage plan with the remaining
+ * volume, and the split batch is inserted into its reserved plan, which becomes active.
+ * Vessels left empty on either plan are released.
+ */
+export async function splitStorageBackedWineBatch(input: {
+  companyId: string;
+  batch: WineBatch;
+  splitBatch: WineBatch;
+  activatedYear: number;
+  activatedSeason: Season;
+  activatedWeek: number;
+}): Promise<boolean> {
+  const { batch, splitBatch } = input;
+  if (!batch.storagePlanId || !splitBatch.storagePlanId) return false;
+  const { data, error } = await supabase.rpc('split_storage_backed_wine_batch', {
+    p_company_id: input.companyId,
+    p_batch: toWineBatchRow(batch, input.companyId),
+    p_split_batch: await prepareWineBatchForInsert(splitBatch, input.companyId),
+    p_split_plan_id: splitBatch.storagePlanId,
+    p_activated_year: input.activatedYear,
+    p_activated_season: input.activatedSeason,
+    p_activated_week: input.activatedWeek,
+  });
+  if (error) throw error;
+  return Boolean(data);
+}
+
 export async function bottleStorageBackedWineBatch(input: {
   companyId: string;
   batchId: string;
@@ -169,6 +240,8 @@ export async function bottleStorageBackedWineBatch(input: {
   landValueModifierBottlingSnapshot: number;
   structureIndexBottlingSnapshot: number;
   wineScoreBottlingSnapshot: number;
+  bottleFormat: BottleFormat;
+  bottleClosure: BottleClosure;
 }): Promise<boolean> {
   const { data, error } = await supabase.rpc('bottle_storage_backed_wine_batch', {
     p_company_id: input.companyId,
@@ -184,6 +257,106 @@ export async function bottleStorageBackedWineBatch(input: {
     p_released_year: input.bottledYear,
     p_released_season: input.bottledSeason,
     p_released_week: input.bottledWeek,
+    p_bottle_format: input.bottleFormat,
+    p_bottle_closure: input.bottleClosure,
+  });
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * Atomically split part of a stored batch into a new batch held in its reserved plan, which
+ * becomes active. The source keeps the rest of its volume; vessels it no longer fills are
+ * imprinted and released dirty.
+ */
+export async function splitOffStorageBackedWineBatch(input: {
+  companyId: string;
+  batchId: string;
+  splitBatch: WineBatch;
+  activatedYear: number;
+  activatedSeason: Season;
+  activatedWeek: number;
+}): Promise<boolean> {
+  const { splitBatch } = input;
+  if (!splitBatch.storagePlanId) return false;
+  const { data, error } = await supabase.rpc('split_off_storage_backed_wine_batch', {
+    p_company_id: input.companyId,
+    p_batch_id: input.batchId,
+    p_split_batch: await prepareWineBatchForInsert(splitBatch, input.companyId),
+    p_split_plan_id: splitBatch.storagePlanId,
+    p_activated_year: input.activatedYear,
+    p_activated_season: input.activatedSeason,
+    p_activated_week: input.activatedWeek,
+  });
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * Atomically bottle part of a stored batch as a new bottled batch. The source keeps maturing
+ * with the rest of its volume; vessels it no longer fills are imprinted and released dirty.
+ */
+export async function bottlePartOfStorageBackedWineBatch(input: {
+  companyId: string;
+  batchId: string;
+  bottledBatch: WineBatch;
+  releasedYear: number;
+  releasedSeason: Season;
+  releasedWeek: number;
+}): Promise<boolean> {
+  const { data, error } = await supabase.rpc('bottle_part_of_storage_backed_wine_batch', {
+    p_company_id: input.companyId,
+    p_batch_id: input.batchId,
+    p_bottled_batch: await prepareWineBatchForInsert(input.bottledBatch, input.companyId),
+    p_released_year: input.releasedYear,
+    p_released_season: input.releasedSeason,
+    p_released_week: input.releasedWeek,
+  });
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/** Move a storage-backed base wine into tirage bottles and release its Storage Vessels. */
+export async function tirageStorageBackedWineBatch(input: {
+  companyId: string;
+  batchId: string;
+  quantity: number;
+  year: number;
+  season: Season;
+  week: number;
+}): Promise<boolean> {
+  const { data, error } = await supabase.rpc('tirage_storage_backed_wine_batch', {
+    p_company_id: input.companyId,
+    p_batch_id: input.batchId,
+    p_quantity: input.quantity,
+    p_released_year: input.year,
+    p_released_season: input.season,
+    p_released_week: input.week,
+  });
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * Atomically persist a cellar operation. With a target plan (racking) the batch moves into
+ * that reserved plan and its old vessels are released dirty; otherwise the current plan is
+ * refilled with the reduced volume. Vessels left empty are released.
+ */
+export async function applyCellarOperationToWineBatch(input: {
+  companyId: string;
+  batch: WineBatch;
+  targetPlanId?: string;
+  releasedYear: number;
+  releasedSeason: Season;
+  releasedWeek: number;
+}): Promise<boolean> {
+  const { data, error } = await supabase.rpc('apply_cellar_operation_to_wine_batch', {
+    p_company_id: input.companyId,
+    p_batch: toWineBatchRow(input.batch, input.companyId),
+    p_target_plan_id: input.targetPlanId ?? null,
+    p_released_year: input.releasedYear,
+    p_released_season: input.releasedSeason,
+    p_released_week: input.releasedWeek,
   });
   if (error) throw error;
   return Boolean(data);
@@ -238,12 +411,21 @@ export const loadWineBatches = async (companyId?: string): Promise<WineBatch[]>
         id: row.id,
         vineyardId: row.vineyard_id,
         vineyardName: row.vineyard_name,
+        parcelName: row.parcel_name ?? undefined,
         grape: grapeVariety,
         quantity: row.quantity,
         volumeLitres: row.volume_litres ?? undefined,
         storagePlanId: row.storage_plan_id ?? undefined,
         state: row.state,
         fermentationProgress: row.fermentation_progress || 0,
+        maturationWeeks: row.maturation_weeks || 0,
+        sparkling: row.sparkling ?? false,
+        tirageWeeks: row.tirage_weeks || 0,
+        sweetWineMethod: row.sweet_wine_method ?? undefined,
+        bottleFormat: row.bottle_format ?? 'standard',
+        bottleClosure: row.bottle_closure ?? 'natural_cork',
+        farmingCertification: row.farming_certification ?? undefined,
+        cellarOperations: row.cellar_operations ?? [],
         fermentationOptions: row.fermentation_options || undefined, // Load fermentation options
         landValueModifierHarvestSnapshot,
         structureIndexHarvestSnapshot,
@@ -263,11 +445,13 @@ export const loadWineBatches = async (companyId?: string): Promise<WineBatch[]>
         estimatedPrice: row.estimated_price,
         askingPrice: row.asking_price, 
         grapeColor: row.grape_color || grapeData.grapeColor,
+        wineStyle: row.wine_style || row.grape_color || grapeData.grapeColor,
         naturalYield: row.natural_yield || grapeData.naturalYield,
         fragile: row.fragile || grapeData.fragile,
         proneToOxidation: row.prone_to_oxidation || grapeData.proneToOxidation,
         features: row.features || [],
         originSnapshot: row.origin_snapshot || undefined,
+        blendComponents: row.blend_components || undefined,
         wineAnchors: parseWineAnchorsFromDb(row.wine_anchors),
         harvestStartDate: buildGameDate(row.harvest_start_week, row.harvest_start_season, row.harvest_start_year)!,
         harvestEndDate: buildGameDate(row.harvest_end_week, row.harvest_end_season, row.harvest_end_year)!,
@@ -279,7 +463,8 @@ export const loadWineBatches = async (companyId?: string): Promise<WineBatch[]>
         
         agingProgress: row.aging_progress || 0,
         batchNumber: row.batch_number ?? undefined,
-        batchGroupSize: row.batch_group_size ?? undefined
+        batchGroupSize: row.batch_group_size ?? undefined,
+        parentBatchId: row.parent_batch_id ?? undefined
       };
     });
   } catch (error) {
@@ -17,6 +17,8 @@ const toVineyardRow = (
   id: vineyard.id,
   company_id: companyId,
   name: vineyard.name,
+  estate_id: vineyard.estateId ?? null,
+  parcel_name: vineyard.parcelName ?? null,
   country: vineyard.country,
   region: vineyard.region,
   hectares: options.roundHectares
@@ -37,6 +39,18 @@ const toVineyardRow = (
   vine_yield: numberOrDefault(vineyard.vineYield, 0.02),
   overgrowth: vineyard.overgrowth || { vegetation: 0, debris: 0, uproot: 0, replant: 0 },
   planting_health_bonus: numberOrDefault(vineyard.plantingHealthBonus, 0),
+  farming_method: vineyard.farmingMethod ?? 'conventional',
+  organic_years: numberOrDefault(vineyard.organicYears, 0),
+  biodynamic_years: numberOrDefault(vineyard.biodynamicYears, 0),
+  canopy_work: vineyard.canopyWork ?? null,
+  water_state: vineyard.waterState ?? null,
+  irrigation: vineyard.irrigation ?? null,
+  weather_damage: vineyard.weatherDamage ?? null,
+  weather_protection: vineyard.weatherProtection ?? null,
+  vine_treatments: vineyard.vineTreatments ?? null,
+  rootstock: vineyard.rootstock ?? null,
+  vine_clone: vineyard.vineClone ?? null,
+  vintage_weather: vineyard.vintageWeather ?? null,
   health_trend: vineyard.healthTrend ? JSON.stringify(vineyard.healthTrend) : null,
   pending_features: vineyard.pendingFeatures ? JSON.stringify(vineyard.pendingFeatures) : null,
   ...(options.updatedAt === undefined ? {} : { updated_at: options.updatedAt }),
@@ -124,6 +138,8 @@ export const loadVineyards = async (companyId?: string): Promise<Vineyard[]> =>
     return (data || []).map(row => ({
       id: row.id,
       name: row.name,
+      estateId: row.estate_id ?? undefined,
+      parcelName: row.parcel_name ?? undefined,
       country: row.country,
       region: row.region,
       hectares: row.hectares ? Number(Number(row.hectares).toFixed(2)) : 0,
@@ -142,6 +158,18 @@ export const loadVineyards = async (companyId?: string): Promise<Vineyard[]> =>
       vineYield: numberOrDefault(row.vine_yield, 0.02), // Default to 0.02 if not set (will be 0.02 for existing records)
       overgrowth: row.overgrowth || { vegetation: 0, debris: 0, uproot: 0, replant: 0 }, // Track overgrowth for each task type
       plantingHealthBonus: numberOrDefault(row.planting_health_bonus, 0), // Default to 0 (no gradual improvement)
+      farmingMethod: row.farming_method ?? 'conventional',
+      organicYears: numberOrDefault(row.organic_years, 0),
+      biodynamicYears: numberOrDefault(row.biodynamic_years, 0),
+      canopyWork: row.canopy_work ?? undefined,
+      waterState: row.water_state ?? undefined,
+      irrigation: row.irrigation ?? undefined,
+      weatherDamage: row.weather_damage ?? undefined,
+      weatherProtection: row.weather_protection ?? undefined,
+      vineTreatments: row.vine_treatments ?? undefined,
+      rootstock: row.rootstock ?? undefined,
+      vineClone: row.vine_clone ?? undefined,
+      vintageWeather: row.vintage_weather ?? undefined,
       healthTrend: row.health_trend ? JSON.parse(row.health_trend) : undefined, // Parse health trend from JSON
       pendingFeatures: row.pending_features ? JSON.parse(row.pending_features) : undefined // Parse pending features from JSON
     }));
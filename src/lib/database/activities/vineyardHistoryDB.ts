@@ -0,0 +1,70 @@
+import { supabase } from '../core/supabase';
+import { GrapeVariety, Season, VineyardHistoryEvent, VineyardHistoryEventType } from '../../types/types';
+import { getCompanyQuery, getCurrentCompanyId } from '../../utils/companyUtils';
+
+const VINEYARD_HISTORY_TABLE = 'vineyard_history';
+
+/**
+ * Vineyard History Database Operations
+ * Pure CRUD operations for vineyard lifecycle events
+ */
+
+export const insertVineyardHistoryEvent = async (event: VineyardHistoryEvent): Promise<void> => {
+  try {
+    const companyId = getCurrentCompanyId();
+    const { error } = await supabase
+      .from(VINEYARD_HISTORY_TABLE)
+      .insert({
+        id: event.id,
+        company_id: companyId,
+        vineyard_id: event.vineyardId,
+        vineyard_name: event.vineyardName,
+        event_type: event.eventType,
+        grape_variety: event.grape,
+        intensity: event.intensity ?? null,
+        density: event.density ?? null,
+        amount: event.amount ?? null,
+        week: event.week,
+        season: event.season,
+        year: event.year
+      });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Save vineyard history event failed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load lifecycle events in the order they happened, optionally for one vineyard
+ */
+export const loadVineyardHistory = async (vineyardId?: string, companyId?: string): Promise<VineyardHistoryEvent[]> => {
+  try {
+    let query = getCompanyQuery(VINEYARD_HISTORY_TABLE, companyId);
+    if (vineyardId) {
+      query = query.eq('vineyard_id', vineyardId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      vineyardId: row.vineyard_id,
+      vineyardName: row.vineyard_name,
+      eventType: row.event_type as VineyardHistoryEventType,
+      grape: (row.grape_variety ?? null) as GrapeVariety | null,
+      intensity: row.intensity === null || row.intensity === undefined ? undefined : Number(row.intensity),
+      density: row.density === null || row.density === undefined ? undefined : Number(row.density),
+      amount: row.amount === null || row.amount === undefined ? undefined : Number(row.amount),
+      week: row.week,
+      season: row.season as Season,
+      year: row.year
+    }));
+  } catch (error) {
+    console.error('Error loading vineyard history:', error);
+    return [];
+  }
+};
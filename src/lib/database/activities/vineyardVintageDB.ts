@@ -0,0 +1,66 @@
+import { supabase } from '../core/supabase';
+import { GrapeVariety, VineyardVintage } from '../../types/types';
+import { getCompanyQuery, getCurrentCompanyId } from '../../utils/companyUtils';
+
+const VINEYARD_VINTAGES_TABLE = 'vineyard_vintages';
+
+/**
+ * Vineyard Vintage Database Operations
+ * Pure CRUD operations for yearly vintage records
+ */
+
+/**
+ * Save vintage records; a vineyard has one record per year
+ */
+export const upsertVineyardVintages = async (vintages: VineyardVintage[]): Promise<void> => {
+  if (vintages.length === 0) return;
+
+  try {
+    const companyId = getCurrentCompanyId();
+    const { error } = await supabase
+      .from(VINEYARD_VINTAGES_TABLE)
+      .upsert(vintages.map(vintage => ({
+        id: vintage.id,
+        company_id: companyId,
+        vineyard_id: vintage.vineyardId,
+        vineyard_name: vintage.vineyardName,
+        grape_variety: vintage.grape,
+        region: vintage.region,
+        country: vintage.country,
+        year: vintage.year,
+        weather: vintage.weather,
+        yield_factor: vintage.yieldFactor,
+        quality_factor: vintage.qualityFactor
+      })), { onConflict: 'company_id,vineyard_id,year' });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Save vineyard vintages failed:', error);
+    throw error;
+  }
+};
+
+export const loadVineyardVintages = async (companyId?: string): Promise<VineyardVintage[]> => {
+  try {
+    const { data, error } = await getCompanyQuery(VINEYARD_VINTAGES_TABLE, companyId)
+      .order('year', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      vineyardId: row.vineyard_id,
+      vineyardName: row.vineyard_name,
+      grape: (row.grape_variety ?? null) as GrapeVariety | null,
+      region: row.region,
+      country: row.country,
+      year: row.year,
+      weather: row.weather,
+      yieldFactor: Number(row.yield_factor),
+      qualityFactor: Number(row.quality_factor)
+    }));
+  } catch (error) {
+    console.error('Error loading vineyard vintages:', error);
+    return [];
+  }
+};
@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+import { CropInsurancePolicy } from '../../types/types';
+import { getCompanyQuery, getCurrentCompanyId } from '../../utils/companyUtils';
+import { toOptionalNumber, toOptionalString } from '../dbMapperUtils';
+
+const CROP_INSURANCE_TABLE = 'crop_insurance_policies';
+
+/**
+ * Crop Insurance Database Operations
+ * Pure CRUD operations for crop insurance policies
+ */
+
+const toPolicyRow = (policy: CropInsurancePolicy, companyId: string) => ({
+  id: policy.id,
+  company_id: companyId,
+  vineyard_id: policy.vineyardId,
+  vineyard_name: policy.vineyardName,
+  season: policy.season,
+  year: policy.year,
+  purchased_week: policy.purchasedWeek,
+  insured_value: policy.insuredValue,
+  insured_yield_kg: policy.insuredYieldKg,
+  premium: policy.premium,
+  deductible: policy.deductible,
+  status: policy.status,
+  payout: policy.payout,
+  claim_basis: policy.claimBasis ?? null,
+  loss_share: policy.lossShare ?? null
+});
+
+/**
+ * Save policies; a vineyard has at most one policy per season
+ */
+export const upsertCropInsurancePolicies = async (policies: CropInsurancePolicy[]): Promise<void> => {
+  if (policies.length === 0) return;
+
+  try {
+    const companyId = getCurrentCompanyId();
+    const { error } = await supabase
+      .from(CROP_INSURANCE_TABLE)
+      .upsert(policies.map(policy => toPolicyRow(policy, companyId)), { onConflict: 'company_id,vineyard_id,year,season' });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Save crop insurance policies failed:', error);
+    throw error;
+  }
+};
+
+export const loadCropInsurancePolicies = async (companyId?: string): Promise<CropInsurancePolicy[]> => {
+  try {
+    const { data, error } = await getCompanyQuery(CROP_INSURANCE_TABLE, companyId)
+      .order('year', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      id: row.id,
+      vineyardId: row.vineyard_id,
+      vineyardName: row.vineyard_name,
+      season: row.season,
+      year: row.year,
+      purchasedWeek: row.purchased_week,
+      insuredValue: Number(row.insured_value),
+      insuredYieldKg: Number(row.insured_yield_kg),
+      premium: Number(row.premium),
+      deductible: Number(row.deductible),
+      status: row.status,
+      payout: Number(row.payout ?? 0),
+      claimBasis: toOptionalString(row.claim_basis) as CropInsurancePolicy['claimBasis'],
+      lossShare: toOptionalNumber(row.loss_share)
+    }));
+  } catch (error) {
+    console.error('Error loading crop insurance policies:', error);
+    return [];
+  }
+};
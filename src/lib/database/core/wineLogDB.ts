@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import { getCurrentCompanyId } from '../../utils/companyUtils';
-import type { GrapeVariety, WineCharacteristics, WineLogEntry } from '../../types/types';
+import type { BottleClosure, BottleFormat, GrapeVariety, WineCharacteristics, WineLogEntry, WineStyle } from '../../types/types';
+import { GRAPE_CONST } from '../../constants/grapeConstants';
 import { buildGameDate } from '../dbMapperUtils';
 
 const WINE_LOG_TABLE = 'wine_log';
@@ -15,7 +16,9 @@ export interface WineLogData {
   company_id: string;
   vineyard_id: string;
   vineyard_name: string;
+  parcel_name?: string | null;
   grape_variety: string;
+  wine_style?: WineStyle;
   vintage: number;
   quantity: number;
   taste_quality_index: number;
@@ -24,6 +27,10 @@ export interface WineLogData {
   wine_score: number;
   characteristics: WineCharacteristics;
   estimated_price: number;
+  bottle_format?: BottleFormat;
+  bottle_closure?: BottleClosure;
+  batch_id?: string;
+  parent_batch_id?: string | null;
   harvest_week: number;
   harvest_season: string;
   harvest_year: number;
@@ -46,7 +53,9 @@ function mapWineLogFromDB(row: any): WineLogEntry {
     id: row.id,
     vineyardId: row.vineyard_id,
     vineyardName: row.vineyard_name,
+    parcelName: row.parcel_name ?? undefined,
     grape: row.grape_variety as GrapeVariety,
+    wineStyle: row.wine_style ?? GRAPE_CONST[row.grape_variety as GrapeVariety]?.grapeColor ?? 'red',
     vintage: row.vintage,
     quantity: row.quantity,
     tasteQualityIndex: row.taste_quality_index,
@@ -55,6 +64,10 @@ function mapWineLogFromDB(row: any): WineLogEntry {
     wineScore: row.wine_score,
     characteristics: row.characteristics,
     estimatedPrice: row.estimated_price,
+    bottleFormat: row.bottle_format ?? 'standard',
+    bottleClosure: row.bottle_closure ?? 'natural_cork',
+    batchId: row.batch_id ?? undefined,
+    parentBatchId: row.parent_batch_id ?? undefined,
     harvestDate: harvestDate!, // Non-null assertion: validated above
     bottledDate: bottledDate!   // Non-null assertion: validated above
   };
@@ -5,6 +5,21 @@ import { getCurrentCompanyId } from '../../utils/companyUtils';
 import { getCompanyQuery } from '../../utils/companyUtils';
 import { SALES_CONSTANTS } from '../../constants/constants';
 
+const toCustomerRow = (customer: Customer) => ({
+  id: customer.id,
+  company_id: getCurrentCompanyId(),
+  name: customer.name,
+  country: customer.country,
+  customer_type: customer.customerType,
+  market_share: customer.marketShare,
+  purchasing_power: customer.purchasingPower,
+  wine_tradition: customer.wineTradition,
+  price_multiplier: customer.priceMultiplier,
+  relationship: customer.relationship || 0,
+  active_customer: customer.activeCustomer || false,
+  market_preference: customer.marketPreference ?? null
+});
+
 /**
  * Save customers to database for a specific company
  */
@@ -33,19 +48,7 @@ export async function saveCustomers(customers: Customer[]): Promise<void> {
     }
 
     // Insert new customers (map to database format)
-    const customersForDB = customers.map(customer => ({
-      id: customer.id,
-      company_id: getCurrentCompanyId(),
-      name: customer.name,
-      country: customer.country,
-      customer_type: customer.customerType,
-      market_share: customer.marketShare,
-      purchasing_power: customer.purchasingPower,
-      wine_tradition: customer.wineTradition,
-      price_multiplier: customer.priceMultiplier,
-      relationship: customer.relationship || 0,
-      active_customer: customer.activeCustomer || false
-    }));
+    const customersForDB = customers.map(toCustomerRow);
 
     const { error: insertError } = await supabase
       .from('customers')
@@ -62,6 +65,22 @@ export async function saveCustomers(customers: Customer[]): Promise<void> {
   }
 }
 
+/**
+ * Add customers to the company's existing customers (e.g. when an export market opens)
+ */
+export async function addCustomers(customers: Customer[]): Promise<void> {
+  if (customers.length === 0) return;
+
+  const { error } = await supabase
+    .from('customers')
+    .insert(customers.map(toCustomerRow));
+
+  if (error) {
+    console.error('Error adding customers:', error);
+    throw error;
+  }
+}
+
 /**
  * Load customers from database for a specific company
  */
@@ -95,7 +114,8 @@ export async function loadCustomers(): Promise<Customer[] | null> {
         priceMultiplier: row.price_multiplier,
         relationship: row.relationship,
         activeCustomer: row.active_customer || false,
-        difficultyPreference: typeConfig?.difficultyPreference
+        difficultyPreference: typeConfig?.difficultyPreference,
+        marketPreference: row.market_preference ?? undefined
       };
     });
     
@@ -217,7 +237,8 @@ export async function loadActiveCustomers(): Promise<Customer[]> {
         priceMultiplier: row.price_multiplier,
         relationship: row.company_customers.relationship,
         activeCustomer: row.company_customers.active_customer,
-        difficultyPreference: typeConfig?.difficultyPreference
+        difficultyPreference: typeConfig?.difficultyPreference,
+        marketPreference: row.market_preference ?? undefined
       };
     });
     
@@ -35,7 +35,8 @@ export const saveWineOrder = async (order: WineOrder): Promise<void> => {
         expires_week: order.expiresWeek,
         expires_season: order.expiresSeason,
         expires_year: order.expiresYear,
-        calculation_data: order.calculationData || null
+        calculation_data: order.calculationData || null,
+        negotiation_history: order.negotiationHistory ?? []
       });
 
     if (error) throw error;
@@ -96,7 +97,8 @@ export const loadWineOrders = async (status?: string, companyId?: string): Promi
       expiresWeek: row.expires_week || 1,
       expiresSeason: (row.expires_season || 'Spring') as Season,
       expiresYear: row.expires_year || 2024,
-      calculationData: row.calculation_data || undefined
+      calculationData: row.calculation_data || undefined,
+      negotiationHistory: Array.isArray(row.negotiation_history) && row.negotiation_history.length > 0 ? row.negotiation_history : undefined
     }));
   } catch (error) {
     return [];
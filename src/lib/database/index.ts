@@ -1,6 +1,8 @@
 // Database barrel exports - CRUD only (no business logic)
 export * from './activities/vineyardDB';
 export * from './activities/inventoryDB';
+export * from './activities/vineyardVintageDB';
+export * from './activities/vineyardHistoryDB';
 export * from './core/gamestateDB';
 export * from './core/staffDB';
 export * from './core/highscoresDB';
@@ -10,6 +12,7 @@ export * from './core/transactionsDB';
 export * from './core/wineLogDB';
 export * from './core/lendersDB';
 export * from './core/loansDB';
+export * from './core/cropInsuranceDB';
 export * from './customers/customerDB';
 export * from './customers/relationshipBoostsDB';
 export * from './core/researchUnlocksDB';
@@ -18,6 +21,9 @@ export * from './sales/grapeSupplierMarketDB';
 export * from './sales/grapeBuyerLoyaltyDB';
 export * from './sales/grapeSupplierLoyaltyDB';
 export * from './sales/cooperativeDB';
+export * from './sales/bottleMarketDB';
+export * from './sales/tastingRoomDB';
+export * from './sales/exportShipmentDB';
 export * from './market/buyMarketOffersDB';
 export * from './market/grapeMarketOffersDB';
 export * from './market/buyMarketCounterpartyRelationshipsDB';
@@ -1,6 +1,6 @@
 import { supabase } from '@/lib/database/core/supabase';
 import type { PersistedTransactionRow } from '@/lib/services/finance/financeService';
-import type { StorageVessel, StorageVesselCleanliness, StorageVesselMarketListing, StorageVesselMaterial } from '@/lib/types/storageVessels';
+import type { StorageVessel, StorageVesselCleanliness, StorageVesselImprintFill, StorageVesselMarketListing, StorageVesselMaterial } from '@/lib/types/storageVessels';
 
 interface ListingRow {
   id: string;
@@ -52,6 +52,7 @@ function mapMarketVessel(row: Record<string, unknown>): StorageVessel {
     ownerKind: row.owner_kind as StorageVessel['ownerKind'], ownerCompanyId: typeof row.owner_company_id === 'string' ? row.owner_company_id : undefined,
     vesselType: row.vessel_type as StorageVessel['vesselType'], material: row.material as StorageVessel['material'],
     qualityScore: Number(row.quality_score), condition: Number(row.condition), fillHistory: Number(row.fill_history),
+    imprintFills: Array.isArray(row.imprint_fills) ? row.imprint_fills as StorageVesselImprintFill[] : [],
     productionYear: Number(row.production_year), capacityLitres: Number(row.capacity_litres), acquisitionPrice: Number(row.acquisition_price),
     sourceOfferId: String(row.source_offer_id), operationalStatus: row.operational_status as StorageVessel['operationalStatus'],
     cleanliness: row.cleanliness as StorageVessel['cleanliness'], occupancy: 'available',
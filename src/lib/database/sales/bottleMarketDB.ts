@@ -0,0 +1,57 @@
+import { supabase } from '../core/supabase';
+import { BottleMarketSegment } from '../../types/types';
+import { getCompanyQuery, getCurrentCompanyId } from '../../utils/companyUtils';
+
+const BOTTLE_MARKET_TABLE = 'bottle_market_segments';
+
+/**
+ * Bottle Market Database Operations
+ * Pure CRUD operations for the company's bottle market segments (one per country and wine style)
+ */
+
+const toSegmentRow = (segment: BottleMarketSegment, companyId: string) => ({
+  company_id: companyId,
+  country: segment.country,
+  style: segment.style,
+  demand: segment.demand,
+  supply: segment.supply,
+  saturation: segment.saturation,
+  history: segment.history,
+  updated_at: new Date().toISOString()
+});
+
+export const upsertBottleMarketSegments = async (segments: BottleMarketSegment[]): Promise<void> => {
+  if (segments.length === 0) return;
+
+  try {
+    const companyId = getCurrentCompanyId();
+    const { error } = await supabase
+      .from(BOTTLE_MARKET_TABLE)
+      .upsert(segments.map(segment => toSegmentRow(segment, companyId)), { onConflict: 'company_id,country,style' });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Save bottle market segments failed:', error);
+    throw error;
+  }
+};
+
+export const loadBottleMarketSegments = async (companyId?: string): Promise<BottleMarketSegment[]> => {
+  try {
+    const { data, error } = await getCompanyQuery(BOTTLE_MARKET_TABLE, companyId);
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      country: row.country,
+      style: row.style,
+      demand: Number(row.demand),
+      supply: Number(row.supply),
+      saturation: Number(row.saturation ?? 0),
+      history: Array.isArray(row.history) ? row.history : []
+    }));
+  } catch (error) {
+    console.error('Error loading bottle market segments:', error);
+    return [];
+  }
+};
@@ -44,6 +44,7 @@ function mapRowToContract(row: any): WineContract {
     acceptedYear: row.accepted_year || undefined,
     fulfilledWineBatchIds: row.fulfilled_wine_batch_ids || undefined,
     relationshipAtCreation: row.relationship_at_creation,
+    negotiationHistory: Array.isArray(row.negotiation_history) && row.negotiation_history.length > 0 ? row.negotiation_history : undefined,
     createdAt: toOptionalDate(row.created_at),
     updatedAt: toOptionalDate(row.updated_at)
   };
@@ -94,7 +95,8 @@ export async function saveWineContract(contract: WineContract): Promise<void> {
       accepted_season: contract.acceptedSeason || null,
       accepted_year: contract.acceptedYear || null,
       fulfilled_wine_batch_ids: contract.fulfilledWineBatchIds || null,
-      relationship_at_creation: contract.relationshipAtCreation
+      relationship_at_creation: contract.relationshipAtCreation,
+      negotiation_history: contract.negotiationHistory ?? []
     });
 
   if (error) {
@@ -0,0 +1,91 @@
+import { supabase } from '../core/supabase';
+import { ExportShipment } from '../../types/types';
+import { getCompanyQuery, getCurrentCompanyId } from '../../utils/companyUtils';
+import { buildGameDate } from '../dbMapperUtils';
+
+const EXPORT_SHIPMENTS_TABLE = 'export_shipments';
+
+/**
+ * Export Shipment Database Operations
+ * Pure CRUD operations for bottles shipped to export customers
+ */
+
+function mapRowToExportShipment(row: any): ExportShipment {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    customerId: row.customer_id,
+    customerName: row.customer_name,
+    country: row.country,
+    wineBatchId: row.wine_batch_id,
+    wineName: row.wine_name,
+    bottles: row.bottles,
+    landedPrice: Number(row.landed_price),
+    importDuty: Number(row.import_duty),
+    shippingCost: Number(row.shipping_cost),
+    transportRisk: Number(row.transport_risk),
+    shippedAt: buildGameDate(row.shipped_week, row.shipped_season, row.shipped_year) ?? { week: 1, season: 'Spring', year: 2024 },
+    arrivesAt: row.arrives_at,
+    status: row.status,
+    bottlesLost: row.bottles_lost ?? undefined,
+    settledValue: row.settled_value != null ? Number(row.settled_value) : undefined
+  };
+}
+
+export async function saveExportShipment(shipment: ExportShipment): Promise<void> {
+  const { error } = await supabase
+    .from(EXPORT_SHIPMENTS_TABLE)
+    .upsert({
+      id: shipment.id,
+      company_id: getCurrentCompanyId(),
+      order_id: shipment.orderId,
+      customer_id: shipment.customerId,
+      customer_name: shipment.customerName,
+      country: shipment.country,
+      wine_batch_id: shipment.wineBatchId,
+      wine_name: shipment.wineName,
+      bottles: shipment.bottles,
+      landed_price: shipment.landedPrice,
+      import_duty: shipment.importDuty,
+      shipping_cost: shipment.shippingCost,
+      transport_risk: shipment.transportRisk,
+      shipped_week: shipment.shippedAt.week,
+      shipped_season: shipment.shippedAt.season,
+      shipped_year: shipment.shippedAt.year,
+      arrives_at: shipment.arrivesAt,
+      status: shipment.status,
+      bottles_lost: shipment.bottlesLost ?? null,
+      settled_value: shipment.settledValue ?? null,
+      updated_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error saving export shipment:', error);
+    throw error;
+  }
+}
+
+export async function loadExportShipments(): Promise<ExportShipment[]> {
+  const { data, error } = await getCompanyQuery(EXPORT_SHIPMENTS_TABLE)
+    .order('arrives_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading export shipments:', error);
+    return [];
+  }
+
+  return (data || []).map(mapRowToExportShipment);
+}
+
+export async function loadExportShipmentsInTransit(): Promise<ExportShipment[]> {
+  const { data, error } = await getCompanyQuery(EXPORT_SHIPMENTS_TABLE)
+    .eq('status', 'in_transit')
+    .order('arrives_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading export shipments in transit:', error);
+    return [];
+  }
+
+  return (data || []).map(mapRowToExportShipment);
+}
@@ -0,0 +1,61 @@
+import { supabase } from '../core/supabase';
+import { TastingRoom } from '../../types/types';
+import { getCompanyQuery, getCurrentCompanyId } from '../../utils/companyUtils';
+import { buildGameDate } from '../dbMapperUtils';
+
+const TASTING_ROOM_TABLE = 'tasting_rooms';
+
+/**
+ * Tasting Room Database Operations
+ * Pure CRUD operations for the company's tasting room (at most one per company)
+ */
+
+const toTastingRoomRow = (room: TastingRoom, companyId: string) => ({
+  company_id: companyId,
+  vineyard_id: room.vineyardId,
+  vineyard_name: room.vineyardName,
+  country: room.country,
+  region: room.region,
+  built_week: room.builtAt.week,
+  built_season: room.builtAt.season,
+  built_year: room.builtAt.year,
+  staff_ids: room.staffIds,
+  last_week: room.lastWeek ?? null,
+  updated_at: new Date().toISOString()
+});
+
+export const saveTastingRoom = async (room: TastingRoom): Promise<void> => {
+  try {
+    const companyId = getCurrentCompanyId();
+    const { error } = await supabase
+      .from(TASTING_ROOM_TABLE)
+      .upsert(toTastingRoomRow(room, companyId), { onConflict: 'company_id' });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Save tasting room failed:', error);
+    throw error;
+  }
+};
+
+export const loadTastingRoom = async (companyId?: string): Promise<TastingRoom | null> => {
+  try {
+    const { data, error } = await getCompanyQuery(TASTING_ROOM_TABLE, companyId).maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      vineyardId: data.vineyard_id,
+      vineyardName: data.vineyard_name,
+      country: data.country,
+      region: data.region,
+      builtAt: buildGameDate(data.built_week, data.built_season, data.built_year) ?? { week: 1, season: 'Spring', year: 2024 },
+      staffIds: Array.isArray(data.staff_ids) ? data.staff_ids : [],
+      lastWeek: data.last_week ?? undefined
+    };
+  } catch (error) {
+    console.error('Error loading tasting room:', error);
+    return null;
+  }
+};
@@ -1,5 +1,5 @@
 import { supabase } from '../core/supabase';
-import type { StorageVessel, StorageVesselAllocation, StorageVesselAllocationPlan, StorageVesselOccupancy } from '@/lib/types/storageVessels';
+import type { StorageVessel, StorageVesselAllocation, StorageVesselAllocationPlan, StorageVesselImprintFill, StorageVesselOccupancy } from '@/lib/types/storageVessels';
 
 const TABLE = 'storage_vessels';
 
@@ -13,6 +13,7 @@ interface StorageVesselRow {
   quality_score: number;
   condition: number;
   fill_history: number;
+  imprint_fills: StorageVesselImprintFill[] | null;
   production_year: number;
   capacity_litres: number;
   acquisition_price: number;
@@ -35,6 +36,7 @@ function fromRow(row: StorageVesselRow): StorageVessel {
     qualityScore: row.quality_score,
     condition: row.condition,
     fillHistory: row.fill_history,
+    imprintFills: row.imprint_fills ?? [],
     productionYear: row.production_year,
     capacityLitres: row.capacity_litres,
     acquisitionPrice: row.acquisition_price,
@@ -59,6 +61,7 @@ function toRow(vessel: StorageVessel): StorageVesselRow {
     quality_score: vessel.qualityScore,
     condition: vessel.condition,
     fill_history: vessel.fillHistory,
+    imprint_fills: vessel.imprintFills,
     production_year: vessel.productionYear,
     capacity_litres: vessel.capacityLitres,
     acquisition_price: vessel.acquisitionPrice,
@@ -404,6 +404,19 @@ const AVERAGE_HECTARE_VALUE_ACHIEVEMENTS = createTieredAchievements(
 
 // ===== VINEYARD-SPECIFIC ACHIEVEMENTS =====
 
+// Vineyard Grape Tenure Achievements (years the same grape stays planted, from the vineyard history)
+const VINEYARD_TIME_ACHIEVEMENTS = createTieredAchievements(
+  'vineyard_time',
+  'Vineyard Heritage',
+  'Keep the same grape planted in a single vineyard for {threshold} years',
+  '🌳',
+  'vineyard',
+  'vineyard_time_same_grape',
+  [5, 10, 25, 50, 100], // Realistic progression: 5, 10, 25, 50, 100 years with the same grape
+  [],
+  { includeVineyard: true, vineyardDecayMultiplier: 0.5 }
+);
+
 // Vineyard Wine Variety Achievements (realistic for 5-6 grape varieties)
 const VINEYARD_WINE_VARIETY_ACHIEVEMENTS = createTieredAchievements(
   'vineyard_wine_variety',
@@ -509,8 +522,7 @@ export const ALL_ACHIEVEMENTS: AchievementConfig[] = [
   ...AVERAGE_HECTARE_VALUE_ACHIEVEMENTS,
   
   // ===== VINEYARD-SPECIFIC ACHIEVEMENTS =====
-  // Vineyard grape-tenure achievements remain deferred until grape changes
-  // have durable historical tracking. Do not expose impossible progress.
+  ...VINEYARD_TIME_ACHIEVEMENTS,
   ...VINEYARD_WINE_VARIETY_ACHIEVEMENTS,
   ...VINEYARD_BOTTLE_PRODUCTION_ACHIEVEMENTS,
   ...VINEYARD_SALES_COUNT_ACHIEVEMENTS,
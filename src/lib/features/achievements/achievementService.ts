@@ -7,6 +7,9 @@ import { getCompanyFinancialSnapshot } from '@/lib/services/finance/financeServi
 import { calculateAbsoluteWeeks } from '@/lib/utils';
 import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
 import { loadVineyards } from '@/lib/database/activities/vineyardDB';
+import { loadVineyardHistory } from '@/lib/database/activities/vineyardHistoryDB';
+import { getGrapeTenureYears } from '@/lib/services/vineyard/vineyardHistoryService';
+import { countVineyardEstates } from '@/lib/services/vineyard/vineyardParcelService';
 import { wineLogFeature } from '@/lib/features/wineLog';
 import { triggerGameUpdate } from '@/hooks/useGameUpdates';
 import { notificationService } from '@/lib/services/core/notificationService';
@@ -180,11 +183,12 @@ async function buildAchievementContext(
   companyId: string,
   gameState: Pick<GameState, 'week' | 'season' | 'currentYear' | 'foundedYear' | 'money' | 'prestige'>
 ): Promise<AchievementCheckContext> {
-  const [vineyards, wineOrders, wineContracts, wineBatches] = await Promise.all([
+  const [vineyards, wineOrders, wineContracts, wineBatches, vineyardHistory] = await Promise.all([
     loadVineyards(companyId),
     loadWineOrders(undefined, companyId),
     loadWineContracts(companyId),
     loadWineBatches(companyId),
+    loadVineyardHistory(undefined, companyId),
   ]);
   
   // Calculate company age
@@ -281,7 +285,7 @@ async function buildAchievementContext(
       id: vineyard.id,
       name: vineyard.name,
       grape: vineyard.grape,
-      yearsWithSameGrape: 0,
+      yearsWithSameGrape: getGrapeTenureYears(vineyard, vineyardHistory, gameState.currentYear),
       winesProduced: vineyardWines.length,
       bottlesProduced: vineyardBottles,
       salesCount: vineyardSales.length,
@@ -302,7 +306,7 @@ async function buildAchievementContext(
     totalSalesValue,
     totalWinesProduced,
     totalBottlesProduced,
-    vineyardCount: vineyards.length,
+    vineyardCount: countVineyardEstates(vineyards),
     totalAssets: financialData.totalAssets,
     cellarValue: financialData.wineValue,
     totalVineyardValue: financialData.allVineyardsValue,
@@ -397,7 +401,9 @@ function checkAchievementCondition(
       return thresholdResult(context.vineyardCount, condition.threshold, 'vineyards');
       
     case 'vineyard_time_same_grape':
-      return { isMet: false, progress: 0, target: condition.threshold, unit: 'years' };
+      // Check if any vineyard has kept its current grape for the threshold number of years
+      const maxYearsWithSameGrape = Math.max(...context.vineyards.map(v => v.yearsWithSameGrape), 0);
+      return thresholdResult(maxYearsWithSameGrape, condition.threshold, 'years');
       
     case 'vineyard_wine_variety_count':
       // Check if any vineyard has produced the threshold number of different grape varieties
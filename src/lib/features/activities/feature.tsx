@@ -1,15 +1,23 @@
 import { createElement, lazy, Suspense, type ComponentType } from 'react';
 import type { ActivitiesFeature } from './featureTypes';
 import { calculateActivityStaffWorkPreview, getActivityStaffWorkContext } from './services/activityWorkPreviewService';
+import { calculateBlendingWork } from './services/workcalculators/blendingWorkCalculator';
+import { calculateCanopyWork } from './services/workcalculators/canopyWorkCalculator';
+import { calculateCellarOperationWork } from './services/workcalculators/cellarOperationWorkCalculator';
 import { calculateClearingWork } from './services/workcalculators/clearingWorkCalculator';
 import { calculateCrushingWork, validateCrushingBatch } from './services/workcalculators/crushingWorkCalculator';
 import { calculateFermentationWork } from './services/workcalculators/fermentationWorkCalculator';
 import { calculateHarvestWork } from './services/workcalculators/harvestingWorkCalculator';
+import { calculateIrrigationWork } from './services/workcalculators/irrigationWorkCalculator';
 import { calculateLandSearchWork } from './services/workcalculators/landSearchWorkCalculator';
 import { calculateLenderSearchCost, calculateLenderSearchWork } from './services/workcalculators/lenderSearchWorkCalculator';
 import { calculateResearchCost, calculateResearchWork } from './services/workcalculators/researchWorkCalculator';
+import { calculateSparklingWork } from './services/workcalculators/sparklingWorkCalculator';
 import { calculateCleanStorageVesselWork, calculateEmptyStorageVesselWork } from './services/workcalculators/storageVesselMaintenanceWorkCalculator';
 import { calculateTakeLoanWork } from './services/workcalculators/takeLoanWorkCalculator';
+import { calculateTastingRoomWork } from './services/workcalculators/tastingRoomWorkCalculator';
+import { calculateWeatherMitigationWork } from './services/workcalculators/weatherMitigationWorkCalculator';
+import { calculateVineTreatmentWork } from './services/workcalculators/vineTreatmentWorkCalculator';
 import { DEFAULT_VINE_DENSITY, WORK_CATEGORY_INFO, getClearingTask, getTaskTypeDisplayName, isStaffSpecializationCategory, getStaffSpecializationDisplayName } from './constants/activityConstants';
 
 const manager = () => import('./services/activitymanagers/activityManager');
@@ -21,10 +29,14 @@ const LandSearchResultsModal = lazy(() => import('./ui/modals/LandSearchResultsM
 const PlantingOptionsModal = lazy(() => import('./ui/modals/PlantingOptionsModal'));
 const HarvestOptionsModal = lazy(() => import('./ui/modals/HarvestOptionsModal'));
 const ClearingOptionsModal = lazy(() => import('./ui/modals/ClearingOptionsModal'));
+const CanopyOptionsModal = lazy(() => import('./ui/modals/CanopyOptionsModal').then(module => ({ default: module.CanopyOptionsModal })));
 const StaffSearchOptionsModal = lazy(() => import('./ui/modals/StaffSearchOptionsModal').then(module => ({ default: module.StaffSearchOptionsModal })));
 const StaffSearchResultsModal = lazy(() => import('./ui/modals/StaffSearchResultsModal').then(module => ({ default: module.StaffSearchResultsModal })));
 const CrushingOptionsModal = lazy(() => import('./ui/modals/CrushingOptionsModal'));
 const FermentationOptionsModal = lazy(() => import('./ui/modals/FermentationOptionsModal').then(module => ({ default: module.FermentationOptionsModal })));
+const BlendingOptionsModal = lazy(() => import('./ui/modals/BlendingOptionsModal').then(module => ({ default: module.BlendingOptionsModal })));
+const DisgorgementOptionsModal = lazy(() => import('./ui/modals/DisgorgementOptionsModal').then(module => ({ default: module.DisgorgementOptionsModal })));
+const CellarOperationOptionsModal = lazy(() => import('./ui/modals/CellarOperationOptionsModal').then(module => ({ default: module.CellarOperationOptionsModal })));
 
 const renderLazy = (component: ComponentType<any>, props: object = {}) =>
   createElement(Suspense, { fallback: null }, createElement(component, props));
@@ -54,19 +66,27 @@ export const activitiesFeature: ActivitiesFeature = {
   work: {
     getContext: getActivityStaffWorkContext,
     getPreview: calculateActivityStaffWorkPreview,
+    calculateBlending: calculateBlendingWork,
+    calculateCanopy: calculateCanopyWork,
+    calculateCellarOperation: calculateCellarOperationWork,
     calculateClearing: calculateClearingWork,
     calculateCrushing: calculateCrushingWork,
     validateCrushingBatch,
     calculateFermentation: calculateFermentationWork,
     calculateHarvest: calculateHarvestWork,
+    calculateIrrigation: calculateIrrigationWork,
     calculateLandSearch: calculateLandSearchWork,
     calculateLenderSearch: calculateLenderSearchWork,
     calculateLenderSearchCost,
     calculateResearch: calculateResearchWork,
     calculateResearchCost,
+    calculateSparkling: calculateSparklingWork,
     calculateCleanStorageVessel: calculateCleanStorageVesselWork,
     calculateEmptyStorageVessel: calculateEmptyStorageVesselWork,
     calculateTakeLoan: calculateTakeLoanWork,
+    calculateTastingRoom: calculateTastingRoomWork,
+    calculateWeatherMitigation: calculateWeatherMitigationWork,
+    calculateVineTreatment: calculateVineTreatmentWork,
   },
   ticks: {
     progress: () => manager().then(({ progressActivities }) => progressActivities()),
@@ -80,9 +100,13 @@ export const activitiesFeature: ActivitiesFeature = {
     renderPlantingOptions: props => renderLazy(PlantingOptionsModal, props),
     renderHarvestOptions: props => renderLazy(HarvestOptionsModal, props),
     renderClearingOptions: props => renderLazy(ClearingOptionsModal, props),
+    renderCanopyOptions: props => renderLazy(CanopyOptionsModal, props),
     renderStaffSearchOptions: props => renderLazy(StaffSearchOptionsModal, props),
     renderStaffSearchResults: props => renderLazy(StaffSearchResultsModal, props),
     renderCrushingOptions: props => renderLazy(CrushingOptionsModal, props),
     renderFermentationOptions: props => renderLazy(FermentationOptionsModal, props),
+    renderBlendingOptions: props => renderLazy(BlendingOptionsModal, props),
+    renderDisgorgementOptions: props => renderLazy(DisgorgementOptionsModal, props),
+    renderCellarOperationOptions: props => renderLazy(CellarOperationOptionsModal, props),
   },
 };
@@ -12,10 +12,14 @@ import type { LandSearchResultsModal } from './ui/modals/LandSearchResultsModal'
 import type PlantingOptionsModal from './ui/modals/PlantingOptionsModal';
 import type HarvestOptionsModal from './ui/modals/HarvestOptionsModal';
 import type ClearingOptionsModal from './ui/modals/ClearingOptionsModal';
+import type { CanopyOptionsModal } from './ui/modals/CanopyOptionsModal';
 import type { StaffSearchOptionsModal } from './ui/modals/StaffSearchOptionsModal';
 import type { StaffSearchResultsModal } from './ui/modals/StaffSearchResultsModal';
 import type CrushingOptionsModal from './ui/modals/CrushingOptionsModal';
 import type { FermentationOptionsModal } from './ui/modals/FermentationOptionsModal';
+import type { BlendingOptionsModal } from './ui/modals/BlendingOptionsModal';
+import type { DisgorgementOptionsModal } from './ui/modals/DisgorgementOptionsModal';
+import type { CellarOperationOptionsModal } from './ui/modals/CellarOperationOptionsModal';
 import type { ClearingTask } from './constants/activityConstants';
 
 export interface ActivityCreationResult {
@@ -59,19 +63,27 @@ export interface ActivitiesFeature {
       assignedStaffIds?: string[],
     ): Promise<ActivityStaffWorkContext>;
     getPreview(activity: Activity, assignedStaff: Staff[], context: ActivityStaffWorkContext): ActivityStaffWorkPreview;
+    calculateBlending: typeof import('./services/workcalculators/blendingWorkCalculator').calculateBlendingWork;
+    calculateCanopy: typeof import('./services/workcalculators/canopyWorkCalculator').calculateCanopyWork;
+    calculateCellarOperation: typeof import('./services/workcalculators/cellarOperationWorkCalculator').calculateCellarOperationWork;
     calculateClearing: typeof import('./services/workcalculators/clearingWorkCalculator').calculateClearingWork;
     calculateCrushing: typeof import('./services/workcalculators/crushingWorkCalculator').calculateCrushingWork;
     validateCrushingBatch: typeof import('./services/workcalculators/crushingWorkCalculator').validateCrushingBatch;
     calculateFermentation: typeof import('./services/workcalculators/fermentationWorkCalculator').calculateFermentationWork;
     calculateHarvest: typeof import('./services/workcalculators/harvestingWorkCalculator').calculateHarvestWork;
+    calculateIrrigation: typeof import('./services/workcalculators/irrigationWorkCalculator').calculateIrrigationWork;
     calculateLandSearch: typeof import('./services/workcalculators/landSearchWorkCalculator').calculateLandSearchWork;
     calculateLenderSearch: typeof import('./services/workcalculators/lenderSearchWorkCalculator').calculateLenderSearchWork;
     calculateLenderSearchCost: typeof import('./services/workcalculators/lenderSearchWorkCalculator').calculateLenderSearchCost;
     calculateResearch: typeof import('./services/workcalculators/researchWorkCalculator').calculateResearchWork;
     calculateResearchCost: typeof import('./services/workcalculators/researchWorkCalculator').calculateResearchCost;
+    calculateSparkling: typeof import('./services/workcalculators/sparklingWorkCalculator').calculateSparklingWork;
     calculateCleanStorageVessel: typeof import('./services/workcalculators/storageVesselMaintenanceWorkCalculator').calculateCleanStorageVesselWork;
     calculateEmptyStorageVessel: typeof import('./services/workcalculators/storageVesselMaintenanceWorkCalculator').calculateEmptyStorageVesselWork;
     calculateTakeLoan: typeof import('./services/workcalculators/takeLoanWorkCalculator').calculateTakeLoanWork;
+    calculateTastingRoom: typeof import('./services/workcalculators/tastingRoomWorkCalculator').calculateTastingRoomWork;
+    calculateWeatherMitigation: typeof import('./services/workcalculators/weatherMitigationWorkCalculator').calculateWeatherMitigationWork;
+    calculateVineTreatment: typeof import('./services/workcalculators/vineTreatmentWorkCalculator').calculateVineTreatmentWork;
   };
   ticks: {
     progress(): Promise<void>;
@@ -85,10 +97,14 @@ export interface ActivitiesFeature {
     renderPlantingOptions(props: ComponentProps<typeof PlantingOptionsModal>): ReactNode;
     renderHarvestOptions(props: ComponentProps<typeof HarvestOptionsModal>): ReactNode;
     renderClearingOptions(props: ComponentProps<typeof ClearingOptionsModal>): ReactNode;
+    renderCanopyOptions(props: ComponentProps<typeof CanopyOptionsModal>): ReactNode;
     renderStaffSearchOptions(props: ComponentProps<typeof StaffSearchOptionsModal>): ReactNode;
     renderStaffSearchResults(props: ComponentProps<typeof StaffSearchResultsModal>): ReactNode;
     renderCrushingOptions(props: ComponentProps<typeof CrushingOptionsModal>): ReactNode;
     renderFermentationOptions(props: ComponentProps<typeof FermentationOptionsModal>): ReactNode;
+    renderBlendingOptions(props: ComponentProps<typeof BlendingOptionsModal>): ReactNode;
+    renderDisgorgementOptions(props: ComponentProps<typeof DisgorgementOptionsModal>): ReactNode;
+    renderCellarOperationOptions(props: ComponentProps<typeof CellarOperationOptionsModal>): ReactNode;
   };
 }
 
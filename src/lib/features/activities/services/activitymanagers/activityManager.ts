@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Activity, ActivityCreationOptions, ActivityProgress, NotificationCategory, WorkCategory } from '@/lib/types/types';
-import { getGameState, updateGameState, notificationService, completePlanting, createWineBatchFromHarvest, calculateVineyardYield, completeClearingActivity, handlePartialPlanting, handlePartialHarvesting } from '@/lib/services';
+import { getGameState, updateGameState, notificationService, completePlanting, createWineBatchFromHarvest, calculateVineyardYield, completeClearingActivity, completeCanopyActivity, completeIrrigationInstall, completeTastingRoomBuild, completeWeatherMitigation, completeVineTreatment, handlePartialPlanting, handlePartialHarvesting } from '@/lib/services';
 import { completeLandSearch } from './landSearchManager';
 import { saveActivityToDb, loadActivitiesFromDb, updateActivityInDb, removeActivityFromDb, hasActiveActivity, getActivitiesByTarget } from '@/lib/database/activities/activityDB';
 import { loadVineyards, saveVineyard } from '@/lib/database/activities/vineyardDB';
@@ -15,6 +15,15 @@ import { completeStaffSearch, completeHiringProcess } from './staffSearchManager
 import { triggerGameUpdateImmediate } from '@/hooks/useGameUpdates';
 import { releaseStorageAllocationPlan, releaseReservedStorageAllocationPlan } from '@/lib/services/wine/winery/storageVesselAllocationService';
 import { completeCleanStorageVesselActivity, completeEmptyStorageVesselActivity } from '@/lib/services/wine/winery/storageVesselMaintenanceService';
+import { completeBlendingActivity } from '@/lib/services/wine/winery/blendingManager';
+import { completeCellarOperationActivity } from '@/lib/services/wine/winery/cellarOperationManager';
+import { CELLAR_OPERATIONS } from '@/lib/constants/cellarOperationConstants';
+import { CANOPY_ACTIVITY_TYPE } from '@/lib/constants/canopyConstants';
+import { IRRIGATION_ACTIVITY_TYPE } from '@/lib/constants/irrigationConstants';
+import { TASTING_ROOM_ACTIVITY_TYPE } from '@/lib/constants/cellarDoorConstants';
+import { WEATHER_MITIGATION_ACTIVITY_TYPE } from '@/lib/constants/weatherConstants';
+import { VINE_TREATMENT_ACTIVITY_TYPE } from '@/lib/constants/vineDiseaseConstants';
+import { completeSparklingActivity, getSparklingActivityStep } from '@/lib/services/wine/winery/sparklingManager';
 import { formatNumber } from '@/lib/utils';
 import { createWeatherWeekContext, resolveWeatherOperationImpact } from '@/lib/features/weather';
 
@@ -117,15 +126,57 @@ const completionHandlers: Record<WorkCategory, (activity: Activity) => Promise<v
   },
 
   [WorkCategory.FERMENTATION]: async (activity: Activity) => {
+    if (getSparklingActivityStep(activity)) {
+      const result = await completeSparklingActivity(activity);
+      if (!result.success) {
+        notificationService.addMessage(result.error ?? 'The sparkling wine step could not be completed.', 'winemaking.sparkling', 'Sparkling Wine', NotificationCategory.WINEMAKING_PROCESS);
+        throw new Error(result.error ?? 'The sparkling wine step could not be completed.');
+      }
+      const message = result.step === 'tirage'
+        ? `${activity.params.targetName} is now en tirage, aging on its lees in bottle.`
+        : result.step === 'riddling'
+          ? `Riddled ${activity.params.targetName}; the lees have settled in the neck, ready for disgorgement.`
+          : `Disgorged ${activity.params.targetName}; the sparkling wine is bottled and ready for sale.`;
+      notificationService.addMessage(message, 'winemaking.sparkling', 'Sparkling Wine', NotificationCategory.WINEMAKING_PROCESS);
+      return;
+    }
     await completeFermentationSetup(activity);
     notificationService.addMessage(`Successfully started fermentation for ${activity.params.targetName}!`, 'winemaking.fermentation', 'Fermentation', NotificationCategory.WINEMAKING_PROCESS);
   },
 
   [WorkCategory.MAINTENANCE]: async (activity: Activity) => {
     const activityType = activity.params.type;
-    if (activityType !== 'empty_storage_vessel' && activityType !== 'clean_storage_vessel') {
+    if (activityType !== 'empty_storage_vessel' && activityType !== 'clean_storage_vessel' && activityType !== 'blend_wine_batches' && activityType !== 'cellar_operation') {
       throw new Error(`Unknown maintenance activity type: ${String(activityType ?? 'missing')}`);
     }
+    if (activityType === 'cellar_operation') {
+      const result = await completeCellarOperationActivity(activity);
+      if (!result.success || !result.operation) {
+        notificationService.addMessage(result.error ?? 'The cellar operation could not be completed.', 'winemaking.cellarOperation', 'Cellar Operation', NotificationCategory.WINEMAKING_PROCESS);
+        throw new Error(result.error ?? 'The cellar operation could not be completed.');
+      }
+      notificationService.addMessage(
+        `${CELLAR_OPERATIONS[result.operation].label} of ${activity.params.targetName ?? 'the wine'} is complete. ${Math.round(result.lostLitres ?? 0)} L were lost; ${Math.round(result.batch?.volumeLitres ?? 0)} L remain.`,
+        'winemaking.cellarOperation',
+        'Cellar Operation',
+        NotificationCategory.WINEMAKING_PROCESS,
+      );
+      return;
+    }
+    if (activityType === 'blend_wine_batches') {
+      const result = await completeBlendingActivity(activity);
+      if (!result.success) {
+        notificationService.addMessage(result.error ?? 'The batches could not be blended.', 'winemaking.blending', 'Blending', NotificationCategory.WINEMAKING_PROCESS);
+        throw new Error(result.error ?? 'The batches could not be blended.');
+      }
+      notificationService.addMessage(
+        `Blended ${result.blendedBatchCount ?? 0} batches into ${activity.params.targetName ?? 'the largest batch'} (${Math.round(result.batch?.volumeLitres ?? 0)} L).`,
+        'winemaking.blending',
+        'Blending',
+        NotificationCategory.WINEMAKING_PROCESS,
+      );
+      return;
+    }
     if (activityType === 'clean_storage_vessel') {
       const result = await completeCleanStorageVesselActivity(activity);
       if (!result.success) {
@@ -149,11 +200,31 @@ const completionHandlers: Record<WorkCategory, (activity: Activity) => Promise<v
   },
 
   [WorkCategory.CLEARING]: async (activity: Activity) => {
+    if (activity.params.type === CANOPY_ACTIVITY_TYPE) {
+      await completeCanopyActivity(activity);
+      return;
+    }
+    if (activity.params.type === WEATHER_MITIGATION_ACTIVITY_TYPE) {
+      await completeWeatherMitigation(activity);
+      return;
+    }
+    if (activity.params.type === VINE_TREATMENT_ACTIVITY_TYPE) {
+      await completeVineTreatment(activity);
+      return;
+    }
     await completeClearingActivity(activity);
   },
 
-  [WorkCategory.BUILDING]: async (_activity: Activity) => {
-    // TODO: Implement building completion
+  [WorkCategory.BUILDING]: async (activity: Activity) => {
+    if (activity.params.type === IRRIGATION_ACTIVITY_TYPE) {
+      await completeIrrigationInstall(activity);
+      return;
+    }
+    if (activity.params.type === TASTING_ROOM_ACTIVITY_TYPE) {
+      await completeTastingRoomBuild(activity);
+      return;
+    }
+    console.warn(`Unknown building activity type for ${activity.id}; no completion handler executed.`);
   },
 
   [WorkCategory.UPGRADING]: async (_activity: Activity) => {
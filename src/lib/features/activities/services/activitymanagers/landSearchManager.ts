@@ -1,7 +1,7 @@
 import { Activity, WorkCategory, NotificationCategory } from '@/lib/types/types';
 import { getGameState, updateGameState } from '@/lib/services/core/gameState';
 import { createActivity } from './activityManager';
-import { notificationService, addTransaction, calculateLandSearchCost, generateVineyardSearchResults, LandSearchOptions, getAllVineyards } from '@/lib/services';
+import { notificationService, addTransaction, calculateLandSearchCost, generateVineyardSearchResults, LandSearchOptions, countVineyardEstates, getAllVineyards } from '@/lib/services';
 import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
 import { calculateLandSearchWork } from '../workcalculators/landSearchWorkCalculator';
 import { formatNumber } from '@/lib/utils/utils';
@@ -28,7 +28,7 @@ export async function startLandSearch(options: LandSearchOptions): Promise<strin
 
     const vineyardCapacity = buildVineyardCapacityState({
       currentTotalHectares: vineyards.reduce((sum, vineyard) => sum + (vineyard.hectares || 0), 0),
-      currentVineyardCount: vineyards.length,
+      currentVineyardCount: countVineyardEstates(vineyards),
       unlockedPerVineyardValues,
       unlockedTotalHectareValues,
       unlockedVineyardCountValues
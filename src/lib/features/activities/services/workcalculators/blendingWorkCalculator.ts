@@ -0,0 +1,30 @@
+import { INITIAL_WORK, TASK_RATES } from '@/lib/features/activities/constants/activityConstants';
+import { WorkCategory } from '@/lib/types/types';
+import { calculateTotalWork, type WorkFactor } from './workCalculator';
+
+// Each batch beyond the first adds racking, tasting trials and vessel hookups.
+const BLEND_COMPONENT_WORK_MODIFIER = 0.1;
+
+export interface BlendingWorkEstimate {
+  totalWork: number;
+  factors: WorkFactor[];
+}
+
+/** Calculate cellar work to assemble several batches into one blend. */
+export function calculateBlendingWork(volumeLitres: number, batchCount: number): BlendingWorkEstimate {
+  const safeVolumeLitres = Math.max(1, volumeLitres);
+  const extraBatches = Math.max(0, Math.floor(batchCount) - 1);
+  const componentModifier = extraBatches * BLEND_COMPONENT_WORK_MODIFIER;
+  const rate = TASK_RATES[WorkCategory.MAINTENANCE];
+  const initialWork = INITIAL_WORK[WorkCategory.MAINTENANCE];
+
+  return {
+    totalWork: calculateTotalWork(safeVolumeLitres, { rate, initialWork, workModifiers: [componentModifier] }),
+    factors: [
+      { label: 'Wine to blend', value: safeVolumeLitres, unit: 'L', isPrimary: true },
+      { label: 'Blending rate', value: rate, unit: 'L/week' },
+      { label: 'Cellar preparation', value: initialWork, unit: 'work units' },
+      { label: 'Blend components', value: Math.max(1, Math.floor(batchCount)), unit: 'batches', modifier: componentModifier, modifierLabel: 'assemblage trials' },
+    ],
+  };
+}
@@ -0,0 +1,45 @@
+import type { CanopyTask, Vineyard } from '@/lib/types/types';
+import { CANOPY_TASKS } from '@/lib/constants/canopyConstants';
+import { DEFAULT_VINE_DENSITY } from '@/lib/features/activities/constants/activityConstants';
+import { calculateTotalWork, type WorkFactor } from './workCalculator';
+import { getVineyardAltitudeModifier, getVineyardSoilModifier } from './vineyardWorkModifiers';
+
+/**
+ * Calculate work for one canopy task on a growing vineyard.
+ * Canopy work is done vine by vine, so denser plantings take longer; steep, high sites slow the crew.
+ */
+export function calculateCanopyWork(
+  vineyard: Vineyard,
+  task: CanopyTask
+): { totalWork: number; factors: WorkFactor[] } {
+  const { label, rate, initialWork } = CANOPY_TASKS[task];
+  const soilModifier = getVineyardSoilModifier(vineyard.soil);
+  const terrainModifier = getVineyardAltitudeModifier(vineyard);
+
+  const factors: WorkFactor[] = [
+    { label: 'Vineyard Area', value: vineyard.hectares, unit: 'hectares', isPrimary: true },
+    { label: `${label} Rate`, value: rate, unit: 'hectares/week' },
+    { label: 'Initial Setup Work', value: initialWork, unit: 'work units' },
+    { label: 'Soil Type', value: vineyard.soil.join(', '), modifier: soilModifier, modifierLabel: 'soil difficulty' }
+  ];
+
+  if (Math.abs(terrainModifier) > 0.01) {
+    factors.push({ label: 'Terrain Difficulty', value: `${vineyard.altitude}m altitude`, modifier: terrainModifier, modifierLabel: 'altitude effect' });
+  }
+
+  const densityModifier = vineyard.density > 0 ? (vineyard.density / DEFAULT_VINE_DENSITY) - 1 : 0;
+  if (Math.abs(densityModifier) > 0.05) {
+    factors.push({ label: 'Vine Density', value: `${vineyard.density.toFixed(0)} vines/ha`, modifier: densityModifier, modifierLabel: 'density effect' });
+  }
+
+  return {
+    totalWork: calculateTotalWork(vineyard.hectares, {
+      rate,
+      initialWork,
+      useDensityAdjustment: true,
+      density: vineyard.density,
+      workModifiers: [soilModifier, terrainModifier]
+    }),
+    factors
+  };
+}
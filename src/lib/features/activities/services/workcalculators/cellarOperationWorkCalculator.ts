@@ -0,0 +1,35 @@
+import type { CellarOperation } from '@/lib/types/types';
+import { CELLAR_OPERATIONS } from '@/lib/constants/cellarOperationConstants';
+import { calculateTotalWork, type WorkFactor } from './workCalculator';
+
+const OPERATION_LABELS: Record<CellarOperation, { rate: string; setup: string; cost: string }> = {
+  racking: { rate: 'Racking rate', setup: 'Pump & hose setup', cost: 'Racking materials' },
+  fining: { rate: 'Fining rate', setup: 'Fining trials', cost: 'Fining agents' },
+  filtration: { rate: 'Filtration rate', setup: 'Filter setup', cost: 'Filter pads' }
+};
+
+/**
+ * Calculate work and material cost for one cellar operation on a stored batch
+ */
+export function calculateCellarOperationWork(
+  volumeLitres: number,
+  operation: CellarOperation
+): { totalWork: number; factors: WorkFactor[]; cost: number } {
+  const safeVolumeLitres = Math.max(1, volumeLitres);
+  const { rate, initialWork, costPerLitre } = CELLAR_OPERATIONS[operation];
+  const cost = Math.round(safeVolumeLitres * costPerLitre * 100) / 100;
+  const labels = OPERATION_LABELS[operation];
+
+  const factors: WorkFactor[] = [
+    { label: 'Wine volume', value: safeVolumeLitres, unit: 'L', isPrimary: true },
+    { label: labels.rate, value: rate, unit: 'L/week' },
+    { label: labels.setup, value: initialWork, unit: 'work units' }
+  ];
+  if (cost > 0) factors.push({ label: labels.cost, value: cost, unit: '€', isPrimary: false });
+
+  return {
+    totalWork: calculateTotalWork(safeVolumeLitres, { rate, initialWork }),
+    factors,
+    cost
+  };
+}
@@ -1,10 +1,14 @@
 import { WineBatch, Activity, WorkCategory } from '@/lib/types/types';
 import { calculateTotalWork, WorkFactor } from './workCalculator';
 import { TASK_RATES, INITIAL_WORK } from '@/lib/features/activities/constants/activityConstants';
-import { getCrushingMethodInfo, CrushingOptions, modifyCrushingCharacteristics } from '@/lib/services/wine/characteristics/crushingCharacteristics';
+import { getCrushingMethodInfo, getCrushingWineStyle, getSaigneeBleedOptions, getSaigneeSplit, CrushingOptions, modifyCrushingCharacteristics } from '@/lib/services/wine/characteristics/crushingCharacteristics';
 import { resolveWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
-import { updateWineBatch } from '@/lib/database/activities/inventoryDB';
+import { splitStorageBackedWineBatch, updateWineBatch } from '@/lib/database/activities/inventoryDB';
 import { loadWineBatches } from '@/lib/database/activities/inventoryDB';
+import { getRequiredStorageLitres } from '@/lib/services/wine/winery/storageVesselAllocationService';
+import { getGameState } from '@/lib/services/core/gameState';
+import { GAME_INITIALIZATION } from '@/lib/constants/constants';
+import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
 import { addTransaction } from '@/lib/services';
 import { processEventTrigger } from '@/lib/services/wine/features/featureService';
 import { getTasteQualityIndex } from '@/lib/services/wine/winescore/wineScoreCalculation';
@@ -51,6 +55,11 @@ export function calculateCrushingWork(
   if (options.coldSoak) {
     workModifiers.push(0.15); // 15% more work
   }
+
+  // Saignée bleeds juice into separate vessels
+  if (options.saigneeShare > 0) {
+    workModifiers.push(0.1); // 10% more work
+  }
   
   // Calculate total work
   const totalWork = calculateTotalWork(tons, {
@@ -96,6 +105,15 @@ export function calculateCrushingWork(
       modifierLabel: 'pre-fermentation soak'
     });
   }
+
+  if (options.saigneeShare > 0) {
+    factors.push({
+      label: 'Saignée Bleed-off',
+      value: `${Math.round(options.saigneeShare * 100)}%`,
+      modifier: 0.1,
+      modifierLabel: 'rosé transfer'
+    });
+  }
   
   // Add cost if applicable
   if (cost > 0) {
@@ -125,13 +143,119 @@ export function validateCrushingBatch(batch: WineBatch): { valid: boolean; reaso
   return { valid: true };
 }
 
+/**
+ * Apply crushing options to a batch: characteristics, crushing events, anchors, structure and wine style
+ */
+async function crushWineBatch(batch: WineBatch, options: CrushingOptions): Promise<WineBatch> {
+  // Apply crushing effects to characteristics and get breakdown
+  const { 
+    characteristics: modifiedCharacteristics, 
+    breakdown: crushingBreakdown,
+    yieldMultiplier
+  } = modifyCrushingCharacteristics({
+    baseCharacteristics: batch.characteristics,
+    ...options,
+    wineAnchors: resolveWineAnchors(batch.wineAnchors)
+  });
+
+  // Apply yield multiplier to batch quantity
+  const finalQuantity = Math.round(batch.quantity * yieldMultiplier);
+
+  // Combine existing breakdown with new crushing breakdown
+  const combinedBreakdown = {
+    effects: [
+      ...(batch.breakdown?.effects || []),
+      ...crushingBreakdown.effects
+    ],
+    anchorEffects: [...(batch.breakdown?.anchorEffects || [])]
+  };
+
+  // Process crushing event triggers (e.g., green flavor, oxidation from fragile grapes)
+  // Taste quality is computed from the current taste profile in this phase.
+  const updatedBatch = {
+    ...batch,
+    characteristics: modifiedCharacteristics,
+    breakdown: combinedBreakdown,
+    tasteQualityIndex: getTasteQualityIndex(batch)
+  };
+  const batchWithEventFeatures = await processEventTrigger(
+    updatedBatch,
+    'crushing',
+    { options, batch: updatedBatch }  // Pass context with options and batch for event triggers
+  );
+
+  const anchorsBeforeCrushing = resolveWineAnchors(batchWithEventFeatures.wineAnchors);
+  const wineAnchors = applyCrushingToWineAnchors(anchorsBeforeCrushing, options);
+  const crushingAnchorEffects = diffAnchorEffects(
+    anchorsBeforeCrushing,
+    wineAnchors,
+    `Crushing (${options.method})`
+  );
+
+  const charsAfterCrush = batchWithEventFeatures.characteristics || modifiedCharacteristics;
+  const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
+  const structureIndexResult = calculateStructureIndex(
+    charsAfterCrush,
+    structureRanges,
+    RANGE_ADJUSTMENTS,
+    RULES
+  );
+
+  const batchAfterCrush: WineBatch = {
+    ...batchWithEventFeatures,
+    state: 'must_ready',
+    characteristics: charsAfterCrush,
+    breakdown: appendAnchorEffects(batchWithEventFeatures.breakdown || combinedBreakdown, crushingAnchorEffects),
+    features: batchWithEventFeatures.features,
+    quantity: finalQuantity,
+    structureIndex: structureIndexResult.score,
+    wineAnchors,
+    wineStyle: getCrushingWineStyle(batch.grapeColor, options.skinContact)
+  };
+  return { ...batchAfterCrush, tasteQualityIndex: getTasteQualityIndex(batchAfterCrush) };
+}
+
+/**
+ * Saignée: bleed the rosé share off the grapes into its reserved Storage Vessels and crush
+ * both portions separately, so each keeps its own anchors and extraction state
+ */
+async function completeSaigneeCrushing(
+  batch: WineBatch,
+  options: CrushingOptions,
+  storagePlanId: string,
+  saigneeBatchId: string
+): Promise<boolean> {
+  const companyId = getCurrentCompanyId();
+  if (!companyId) return false;
+
+  const split = getSaigneeSplit(batch.quantity, getRequiredStorageLitres(batch), options.saigneeShare);
+  const red = await crushWineBatch({ ...batch, ...split.remaining }, options);
+  const rose = await crushWineBatch({
+    ...batch,
+    ...split.bleed,
+    id: saigneeBatchId,
+    storagePlanId,
+    batchNumber: undefined,
+    batchGroupSize: undefined
+  }, getSaigneeBleedOptions(options));
+
+  const gameState = getGameState();
+  return splitStorageBackedWineBatch({
+    companyId,
+    batch: red,
+    splitBatch: rose,
+    activatedYear: gameState.currentYear ?? GAME_INITIALIZATION.STARTING_YEAR,
+    activatedSeason: gameState.season ?? GAME_INITIALIZATION.STARTING_SEASON,
+    activatedWeek: gameState.week ?? GAME_INITIALIZATION.STARTING_WEEK
+  });
+}
+
 /**
  * Complete crushing activity - update batch characteristics and stage
  */
 export async function completeCrushing(activity: Activity): Promise<void> {
+  const { batchId, crushingOptions, cost, storagePlanId, saigneeBatchId } = activity.params;
   try {
-    const { batchId, crushingOptions, cost } = activity.params;
-    
     if (!batchId || !crushingOptions) {
       console.error('Missing crushing parameters');
       return;
@@ -145,90 +269,28 @@ export async function completeCrushing(activity: Activity): Promise<void> {
       return;
     }
 
-    // Apply crushing effects to characteristics and get breakdown
-    const { 
-      characteristics: modifiedCharacteristics, 
-      breakdown: crushingBreakdown,
-      yieldMultiplier,
-      qualityPenalty
-    } = modifyCrushingCharacteristics({
-      baseCharacteristics: batch.characteristics,
-      ...(crushingOptions as CrushingOptions),
-      wineAnchors: resolveWineAnchors(batch.wineAnchors)
-    });
+    // Activities started before skin contact existed crush as full-contact reds
+    const opts: CrushingOptions = { skinContact: 'full', saigneeShare: 0, ...crushingOptions };
+    if (opts.saigneeShare > 0) {
+      if (!storagePlanId || !saigneeBatchId || !(await completeSaigneeCrushing(batch, opts, storagePlanId, saigneeBatchId))) {
+        throw new Error('The saignée rosé could not be moved into its Storage Vessels.');
+      }
+    } else {
+      const batchAfterCrush = await crushWineBatch(batch, opts);
 
-    // Apply yield multiplier to batch quantity
-    const finalQuantity = Math.round(batch.quantity * yieldMultiplier);
-    
-    // Taste quality is computed from the current taste profile in this phase.
-    const currentTasteQualityIndex = getTasteQualityIndex(batch);
-    void qualityPenalty;
-    const finalTasteQualityIndex = currentTasteQualityIndex;
-
-    // Note: Special features were removed for this iteration
-
-    // Combine existing breakdown with new crushing breakdown
-    const combinedBreakdown = {
-      effects: [
-        ...(batch.breakdown?.effects || []),
-        ...crushingBreakdown.effects
-      ],
-      anchorEffects: [...(batch.breakdown?.anchorEffects || [])]
-    };
-
-    // Process crushing event triggers (e.g., green flavor, oxidation from fragile grapes)
-    const updatedBatch = {
-      ...batch,
-      characteristics: modifiedCharacteristics,
-      breakdown: combinedBreakdown,
-      tasteQualityIndex: finalTasteQualityIndex
-    };
-    const batchWithEventFeatures = await processEventTrigger(
-      updatedBatch,
-      'crushing',
-      { options: crushingOptions, batch: updatedBatch }  // Pass context with options and batch for event triggers
-    );
-
-    const opts = crushingOptions as CrushingOptions;
-    const anchorsBeforeCrushing = resolveWineAnchors(batchWithEventFeatures.wineAnchors);
-    const wineAnchors = applyCrushingToWineAnchors(anchorsBeforeCrushing, opts);
-    const crushingAnchorEffects = diffAnchorEffects(
-      anchorsBeforeCrushing,
-      wineAnchors,
-      `Crushing (${opts.method})`
-    );
-
-    const charsAfterCrush = batchWithEventFeatures.characteristics || modifiedCharacteristics;
-    const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
-    const structureIndexResult = calculateStructureIndex(
-      charsAfterCrush,
-      structureRanges,
-      RANGE_ADJUSTMENTS,
-      RULES
-    );
-
-    const batchAfterCrush: WineBatch = {
-      ...batchWithEventFeatures,
-      state: 'must_ready',
-      characteristics: charsAfterCrush,
-      breakdown: appendAnchorEffects(batchWithEventFeatures.breakdown || combinedBreakdown, crushingAnchorEffects),
-      features: batchWithEventFeatures.features,
-      quantity: finalQuantity,
-      structureIndex: structureIndexResult.score,
-      wineAnchors
-    };
-
-    // Update the batch: change state to 'must_ready' and apply new characteristics, breakdown, features, quantity, and taste quality
-    await updateWineBatch(batchId, {
-      state: batchAfterCrush.state,
-      characteristics: batchAfterCrush.characteristics,
-      breakdown: batchAfterCrush.breakdown,
-      features: batchAfterCrush.features,
-      quantity: batchAfterCrush.quantity,
-      tasteQualityIndex: getTasteQualityIndex(batchAfterCrush),
-      structureIndex: batchAfterCrush.structureIndex,
-      wineAnchors: batchAfterCrush.wineAnchors
-    });
+      // Update the batch: change state to 'must_ready' and apply new characteristics, breakdown, features, quantity, and taste quality
+      await updateWineBatch(batchId, {
+        state: batchAfterCrush.state,
+        characteristics: batchAfterCrush.characteristics,
+        breakdown: batchAfterCrush.breakdown,
+        features: batchAfterCrush.features,
+        quantity: batchAfterCrush.quantity,
+        tasteQualityIndex: batchAfterCrush.tasteQualityIndex,
+        structureIndex: batchAfterCrush.structureIndex,
+        wineAnchors: batchAfterCrush.wineAnchors,
+        wineStyle: batchAfterCrush.wineStyle
+      });
+    }
 
     // Deduct costs if any
     if (cost && cost > 0) {
@@ -241,7 +303,7 @@ export async function completeCrushing(activity: Activity): Promise<void> {
 
   } catch (error) {
     console.error('Error completing crushing activity:', error);
+    // A failed saignée split keeps the activity so its reserved vessels are not stranded
+    if ((crushingOptions as CrushingOptions | undefined)?.saigneeShare) throw error;
   }
 }
-
-
@@ -4,12 +4,12 @@
 import { WineBatch, Activity, WorkCategory } from '@/lib/types/types';
 import { calculateTotalWork, WorkFactor } from './workCalculator';
 import { TASK_RATES, INITIAL_WORK } from '@/lib/features/activities/constants/activityConstants';
-import { getFermentationMethodInfo, getFermentationTemperatureInfo, FermentationOptions } from '@/lib/services/wine/characteristics/fermentationCharacteristics';
+import { getFermentationMethodInfo, getFermentationTemperatureInfo, getFermentationDecisionInfo, getSelectedFermentationDecisions, FermentationOptions } from '@/lib/services/wine/characteristics/fermentationCharacteristics';
 import { updateWineBatch } from '@/lib/database/activities/inventoryDB';
 import { loadWineBatches } from '@/lib/database/activities/inventoryDB';
 import { addTransaction } from '@/lib/services';
 import { processEventTrigger } from '@/lib/services/wine/features/featureService';
-import { applyFermentationSetupToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import { applyFermentationDecisionsToWineAnchors, applyFermentationSetupToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
 import { getAnchorAdjustedStructureRanges } from '@/lib/services/wine/anchors/wineAnchorCharacteristicBridge';
 import { calculateStructureIndex, RANGE_ADJUSTMENTS, RULES } from '@/lib/wineStructure';
 import { BASE_BALANCED_RANGES } from '@/lib/constants/grapeConstants';
@@ -46,6 +46,13 @@ export function calculateFermentationWork(
   if (methodModifier !== 0) {
     workModifiers.push(methodModifier);
   }
+
+  // Malolactic and lees-management work modifiers
+  const decisionInfo = getFermentationDecisionInfo();
+  const decisions = getSelectedFermentationDecisions(options);
+  for (const decision of decisions) {
+    workModifiers.push(decisionInfo[decision].workModifier);
+  }
   
   // Calculate total work
   const totalWork = calculateTotalWork(tons, {
@@ -54,8 +61,9 @@ export function calculateFermentationWork(
     workModifiers
   });
   
-  // Calculate total cost (method cost + temperature cost)
-  const cost = methodData.costPenalty + temperatureData.costModifier;
+  // Calculate total cost (method cost + temperature cost + decision costs)
+  const decisionCost = decisions.reduce((sum, decision) => sum + decisionInfo[decision].cost, 0);
+  const cost = methodData.costPenalty + temperatureData.costModifier + decisionCost;
   
   // Build factors for display
   const factors: WorkFactor[] = [
@@ -80,6 +88,16 @@ export function calculateFermentationWork(
     isPrimary: false
   });
   
+  // Add decision factors
+  for (const decision of decisions) {
+    factors.push({
+      label: decisionInfo[decision].label,
+      value: 'Yes',
+      modifier: decisionInfo[decision].workModifier,
+      modifierLabel: 'lees & acid management'
+    });
+  }
+  
   // Add costs if applicable
   if (methodData.costPenalty > 0) {
     factors.push({
@@ -98,6 +116,15 @@ export function calculateFermentationWork(
       isPrimary: false
     });
   }
+
+  if (decisionCost > 0) {
+    factors.push({
+      label: 'Lees & Malolactic Cost',
+      value: decisionCost,
+      unit: '€',
+      isPrimary: false
+    });
+  }
   
   return { totalWork, factors, cost };
 }
@@ -151,15 +178,23 @@ export async function completeFermentationSetup(activity: Activity): Promise<voi
 
     const opts = fermentationOptions as FermentationOptions;
     const anchorsBeforeSetup = resolveWineAnchors(batchWithEventFeatures.wineAnchors);
-    const wineAnchors = applyFermentationSetupToWineAnchors(
+    const anchorsAfterSetup = applyFermentationSetupToWineAnchors(
       anchorsBeforeSetup,
       opts
     );
-    const setupAnchorEffects = diffAnchorEffects(
-      anchorsBeforeSetup,
-      wineAnchors,
-      `Fermentation setup (${opts.method}, ${opts.temperature})`
+    const { wineAnchors, anchorEffects: decisionAnchorEffects } = applyFermentationDecisionsToWineAnchors(
+      anchorsAfterSetup,
+      opts,
+      'setup'
     );
+    const setupAnchorEffects = [
+      ...diffAnchorEffects(
+        anchorsBeforeSetup,
+        anchorsAfterSetup,
+        `Fermentation setup (${opts.method}, ${opts.temperature})`
+      ),
+      ...decisionAnchorEffects
+    ];
 
     const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
     const structureIndexResult = calculateStructureIndex(
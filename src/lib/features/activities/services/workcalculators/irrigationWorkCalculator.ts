@@ -0,0 +1,39 @@
+import type { Vineyard } from '@/lib/types/types';
+import { WorkCategory } from '@/lib/types/types';
+import { INITIAL_WORK, TASK_RATES } from '@/lib/features/activities/constants/activityConstants';
+import { calculateIrrigationInstallCost } from '@/lib/services/vineyard/irrigationService';
+import { calculateTotalWork, type WorkFactor } from './workCalculator';
+import { getVineyardAltitudeModifier, getVineyardSoilModifier } from './vineyardWorkModifiers';
+
+/**
+ * Calculate work for installing irrigation on a vineyard.
+ * Installation is a building project sized by its cost; hard soils and steep, high sites slow the crew laying the lines.
+ */
+export function calculateIrrigationWork(vineyard: Vineyard): { totalWork: number; factors: WorkFactor[] } {
+  const installCost = calculateIrrigationInstallCost(vineyard);
+  const rate = TASK_RATES[WorkCategory.BUILDING];
+  const initialWork = INITIAL_WORK[WorkCategory.BUILDING];
+  const soilModifier = getVineyardSoilModifier(vineyard.soil);
+  const terrainModifier = getVineyardAltitudeModifier(vineyard);
+
+  const factors: WorkFactor[] = [
+    { label: 'Vineyard Area', value: vineyard.hectares, unit: 'hectares', isPrimary: true },
+    { label: 'Installation Cost', value: installCost, unit: '€' },
+    { label: 'Building Rate', value: rate, unit: '€/week' },
+    { label: 'Initial Setup Work', value: initialWork, unit: 'work units' },
+    { label: 'Soil Type', value: vineyard.soil.join(', '), modifier: soilModifier, modifierLabel: 'soil difficulty' }
+  ];
+
+  if (Math.abs(terrainModifier) > 0.01) {
+    factors.push({ label: 'Terrain Difficulty', value: `${vineyard.altitude}m altitude`, modifier: terrainModifier, modifierLabel: 'altitude effect' });
+  }
+
+  return {
+    totalWork: calculateTotalWork(installCost, {
+      rate,
+      initialWork,
+      workModifiers: [soilModifier, terrainModifier]
+    }),
+    factors
+  };
+}
@@ -0,0 +1,40 @@
+import { WineBatch } from '@/lib/types/types';
+import { SPARKLING_COST_PER_BOTTLE, SPARKLING_WORK, type SparklingStep } from '@/lib/constants/sparklingConstants';
+import { calculateTotalWork, type WorkFactor } from './workCalculator';
+
+const STEP_LABELS: Record<SparklingStep, { rate: string; setup: string; cost: string }> = {
+  tirage: { rate: 'Tirage bottling rate', setup: 'Bottling line setup', cost: 'Crown caps & liqueur de tirage' },
+  riddling: { rate: 'Riddling rate', setup: 'Pupitre setup', cost: 'Riddling materials' },
+  disgorgement: { rate: 'Disgorgement rate', setup: 'Neck freezing setup', cost: 'Cages & dosage liqueur' }
+};
+
+/** Bottles the batch fills or occupies: still wine is converted at 1.5 kg per bottle, like bottling. */
+export function getSparklingBottleCount(batch: WineBatch): number {
+  return batch.state === 'tirage' || batch.state === 'riddled'
+    ? Math.max(0, Math.floor(batch.quantity))
+    : Math.max(0, Math.floor(batch.quantity / 1.5));
+}
+
+/**
+ * Calculate work and material cost for one Traditional Method sparkling step
+ */
+export function calculateSparklingWork(
+  batch: WineBatch,
+  step: SparklingStep
+): { totalWork: number; factors: WorkFactor[]; cost: number } {
+  const bottles = Math.max(1, getSparklingBottleCount(batch));
+  const { rate, initialWork } = SPARKLING_WORK[step];
+  const cost = Math.round(bottles * SPARKLING_COST_PER_BOTTLE[step] * 100) / 100;
+  const labels = STEP_LABELS[step];
+
+  return {
+    totalWork: calculateTotalWork(bottles, { rate, initialWork }),
+    factors: [
+      { label: 'Bottles', value: bottles, unit: 'bottles', isPrimary: true },
+      { label: labels.rate, value: rate, unit: 'bottles/week' },
+      { label: labels.setup, value: initialWork, unit: 'work units' },
+      { label: labels.cost, value: cost, unit: '€', isPrimary: false }
+    ],
+    cost
+  };
+}
@@ -0,0 +1,36 @@
+import type { Vineyard } from '@/lib/types/types';
+import { WorkCategory } from '@/lib/types/types';
+import { INITIAL_WORK, TASK_RATES } from '@/lib/features/activities/constants/activityConstants';
+import { CELLAR_DOOR } from '@/lib/constants/cellarDoorConstants';
+import { calculateTotalWork, type WorkFactor } from './workCalculator';
+import { getVineyardAltitudeModifier } from './vineyardWorkModifiers';
+
+/**
+ * Calculate work for building the tasting room at a vineyard.
+ * Construction is sized by its cost; steep, high sites slow the builders.
+ */
+export function calculateTastingRoomWork(vineyard: Vineyard): { totalWork: number; factors: WorkFactor[] } {
+  const buildCost = CELLAR_DOOR.buildCost;
+  const rate = TASK_RATES[WorkCategory.BUILDING];
+  const initialWork = INITIAL_WORK[WorkCategory.BUILDING];
+  const terrainModifier = getVineyardAltitudeModifier(vineyard);
+
+  const factors: WorkFactor[] = [
+    { label: 'Construction Cost', value: buildCost, unit: '€', isPrimary: true },
+    { label: 'Building Rate', value: rate, unit: '€/week' },
+    { label: 'Initial Setup Work', value: initialWork, unit: 'work units' }
+  ];
+
+  if (Math.abs(terrainModifier) > 0.01) {
+    factors.push({ label: 'Terrain Difficulty', value: `${vineyard.altitude}m altitude`, modifier: terrainModifier, modifierLabel: 'altitude effect' });
+  }
+
+  return {
+    totalWork: calculateTotalWork(buildCost, {
+      rate,
+      initialWork,
+      workModifiers: [terrainModifier]
+    }),
+    factors
+  };
+}
@@ -0,0 +1,39 @@
+import type { Vineyard, WeatherMitigation } from '@/lib/types/types';
+import { WEATHER_MITIGATIONS } from '@/lib/constants/weatherConstants';
+import { calculateTotalWork, type WorkFactor } from './workCalculator';
+import { getVineyardAltitudeModifier, getVineyardSoilModifier } from './vineyardWorkModifiers';
+
+/**
+ * Calculate work for setting up weather mitigation on a vineyard ahead of a forecast severe event.
+ * The crew works along every row, so denser plantings take longer; steep, high sites slow them down.
+ */
+export function calculateWeatherMitigationWork(
+  vineyard: Vineyard,
+  mitigation: WeatherMitigation
+): { totalWork: number; factors: WorkFactor[] } {
+  const { label, rate, initialWork } = WEATHER_MITIGATIONS[mitigation];
+  const soilModifier = getVineyardSoilModifier(vineyard.soil);
+  const terrainModifier = getVineyardAltitudeModifier(vineyard);
+
+  const factors: WorkFactor[] = [
+    { label: 'Vineyard Area', value: vineyard.hectares, unit: 'hectares', isPrimary: true },
+    { label: `${label} Rate`, value: rate, unit: 'hectares/week' },
+    { label: 'Initial Setup Work', value: initialWork, unit: 'work units' },
+    { label: 'Soil Type', value: vineyard.soil.join(', '), modifier: soilModifier, modifierLabel: 'soil difficulty' }
+  ];
+
+  if (Math.abs(terrainModifier) > 0.01) {
+    factors.push({ label: 'Terrain Difficulty', value: `${vineyard.altitude}m altitude`, modifier: terrainModifier, modifierLabel: 'altitude effect' });
+  }
+
+  return {
+    totalWork: calculateTotalWork(vineyard.hectares, {
+      rate,
+      initialWork,
+      useDensityAdjustment: true,
+      density: vineyard.density,
+      workModifiers: [soilModifier, terrainModifier]
+    }),
+    factors
+  };
+}
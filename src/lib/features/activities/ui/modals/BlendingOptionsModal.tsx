@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { WineBatch, NotificationCategory, WorkCategory } from '@/lib/types/types';
+import { calculateBlendingWork } from '../../services/workcalculators/blendingWorkCalculator';
+import { buildBlendedWineBatch, getBlendCandidates, getBlendContributionLitres, getBlendTargetBatch, startBlendingActivity, validateBlendSelection, type BlendPortions } from '@/lib/services/wine/winery/blendingManager';
+import { getRequiredStorageLitres } from '@/lib/services/wine/winery/storageVesselAllocationService';
+import { getWineBatchDisplayName } from '@/lib/services/wine/winery/inventoryService';
+import ActivityOptionsModal, { type ActivityOptionField } from '../activityOptionsModal';
+import { notificationService } from '@/lib/services';
+import { formatNumber, getColorClass } from '@/lib/utils/utils';
+import { DialogProps } from '@/lib/types/UItypes';
+
+/**
+ * Blending Options Modal
+ * Selects partner batches and the share of each to blend, and previews the volume-weighted result
+ */
+
+const PORTION_FIELD_PREFIX = 'portion:';
+
+interface BlendingOptionsModalProps extends DialogProps {
+  batch: WineBatch | null;
+  batches: WineBatch[];
+}
+
+export const BlendingOptionsModal: React.FC<BlendingOptionsModalProps> = ({
+  isOpen,
+  batch,
+  batches,
+  onClose
+}) => {
+  const [options, setOptions] = useState<Record<string, any>>({ partnerBatchIds: [] as string[] });
+
+  const candidates = useMemo(() => (batch ? getBlendCandidates(batch, batches) : []), [batch, batches]);
+  const selectedBatches = useMemo(() => {
+    if (!batch) return [];
+    const partnerIds = (options.partnerBatchIds as string[]) || [];
+    return [batch, ...candidates.filter(candidate => partnerIds.includes(candidate.id))];
+  }, [batch, candidates, options.partnerBatchIds]);
+  // Sliders are in percent of each partner batch; the selected batch always blends in full.
+  const portions = useMemo<BlendPortions>(() => Object.fromEntries(
+    selectedBatches.slice(1).map(selected => [selected.id, ((options[`${PORTION_FIELD_PREFIX}${selected.id}`] as number | undefined) ?? 100) / 100])
+  ), [selectedBatches, options]);
+
+  const validation = useMemo(() => validateBlendSelection(selectedBatches, portions), [selectedBatches, portions]);
+  const preview = useMemo(() => (validation.valid ? buildBlendedWineBatch(selectedBatches, { portions }) : null), [selectedBatches, portions, validation.valid]);
+  const totalLitres = selectedBatches.reduce((sum, selected) => sum + getBlendContributionLitres(selected, portions), 0);
+  const workCalculation = useMemo(() => calculateBlendingWork(totalLitres, selectedBatches.length), [totalLitres, selectedBatches.length]);
+
+  const fields: ActivityOptionField[] = [
+    {
+      id: 'partnerBatchIds',
+      label: 'Blend Partners',
+      type: 'checkbox-group',
+      checkboxOptions: candidates.map(candidate => ({
+        value: candidate.id,
+        label: getWineBatchDisplayName(candidate),
+        description: `${formatNumber(getRequiredStorageLitres(candidate), { decimals: 0 })} L`
+      })),
+      tooltip: `Only batches at the same production stage and from the same vintage can be blended.
+
+The largest fully blended batch keeps its identity and Storage Vessels; other fully blended batches' vessels join its storage plan, and vessels left empty after consolidation return to service (dirty).`
+    },
+    ...selectedBatches.slice(1).map<ActivityOptionField>(selected => ({
+      id: `${PORTION_FIELD_PREFIX}${selected.id}`,
+      label: `Share of ${getWineBatchDisplayName(selected)} (%)`,
+      type: 'range',
+      min: 5,
+      max: 100,
+      step: 5,
+      tooltip: 'Percentage of this batch to add to the blend. Any remainder stays in its current Storage Vessels as a separate batch.'
+    }))
+  ];
+
+  const handleOptionsChange = (newOptions: Record<string, any>) => {
+    setOptions(prev => {
+      const next = { ...prev, ...newOptions };
+      for (const partnerId of (next.partnerBatchIds as string[]) || []) {
+        const portionKey = `${PORTION_FIELD_PREFIX}${partnerId}`;
+        if (next[portionKey] === undefined) next[portionKey] = 100;
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!batch) return;
+    const result = await startBlendingActivity(selectedBatches.map(selected => selected.id), portions);
+    if (!result.success) {
+      await notificationService.addMessage(result.error || 'Failed to start blending activity', 'blendingOptionsModal.handleSubmit', 'Blending Error', NotificationCategory.SYSTEM);
+    }
+    onClose();
+  };
+
+  if (!batch || !isOpen) return null;
+
+  const target = getBlendTargetBatch(selectedBatches, portions);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <ActivityOptionsModal
+        onClose={onClose}
+        title="Blend Wine Batches"
+        subtitle={`Assemble ${getWineBatchDisplayName(batch)} with other ${batch.harvestStartDate.year} batches. Characteristics, anchors and features are weighted by volume.`}
+        category={WorkCategory.MAINTENANCE}
+        fields={fields}
+        workEstimate={{ totalWork: validation.valid ? workCalculation.totalWork : 0 }}
+        workFactors={validation.valid ? workCalculation.factors : undefined}
+        onSubmit={handleSubmit}
+        submitLabel="Start Blending"
+        canSubmit={() => validation.valid}
+        disabledMessage={candidates.length === 0 ? 'No other batches at this stage and vintage are available to blend.' : validation.reason}
+        options={options}
+        onOptionsChange={handleOptionsChange}
+        maxWidth="2xl"
+        maxHeight="90vh"
+      >
+        {preview && target && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 mb-4 text-sm">
+            <h4 className="font-semibold text-purple-900 mb-3">Blend Preview</h4>
+            <div className="space-y-1 mb-3">
+              {(preview.blendComponents ?? []).map(component => (
+                <div key={`${component.vineyardId}:${component.grape}`} className="flex justify-between">
+                  <span className="text-purple-800">{component.grape} - {component.vineyardName}</span>
+                  <span className="font-mono text-purple-900">{formatNumber(component.share * 100, { decimals: 1 })}%</span>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2 border-t border-purple-200 pt-2">
+              <div className="flex justify-between">
+                <span className="text-purple-700">Surviving batch:</span>
+                <span className="font-medium text-purple-900 text-right">{getWineBatchDisplayName(target)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-purple-700">Blended volume:</span>
+                <span className="font-mono text-purple-900">{formatNumber(preview.volumeLitres ?? 0, { decimals: 0 })} L</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-purple-700">Structure:</span>
+                <span className={`font-mono ${getColorClass(preview.structureIndex)}`}>{formatNumber(preview.structureIndex * 100, { smartDecimals: true })}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-purple-700">Taste quality:</span>
+                <span className={`font-mono ${getColorClass(preview.tasteQualityIndex)}`}>{formatNumber(preview.tasteQualityIndex * 100, { smartDecimals: true })}%</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </ActivityOptionsModal>
+    </div>
+  );
+};
+
+export default BlendingOptionsModal;
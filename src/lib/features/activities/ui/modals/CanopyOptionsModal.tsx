@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CanopyTask, Vineyard, WorkCategory } from '@/lib/types/types';
+import { CANOPY_TASKS, GREEN_HARVEST_SHARE } from '@/lib/constants/canopyConstants';
+import { calculateCanopyWork } from '../../services/workcalculators/canopyWorkCalculator';
+import { buildCanopyWorkedVineyard, getCanopyEffects, validateCanopyTask } from '@/lib/services/vineyard/canopyService';
+import { calculateVineyardYield, getGameState } from '@/lib/services';
+import ActivityOptionsModal, { type ActivityOptionField } from '../activityOptionsModal';
+import { formatNumber } from '@/lib/utils/utils';
+import { DialogProps } from '@/lib/types/UItypes';
+
+/**
+ * Canopy Options Modal
+ * Chooses leaf removal, shoot thinning or a green harvest for a growing vineyard and shows the projected effects
+ */
+
+interface CanopyOptionsModalProps extends DialogProps {
+  vineyard: Vineyard | null;
+  onSubmit: (options: { task: CanopyTask; greenHarvestShare?: number }) => void;
+}
+
+const formatMultiplier = (value: number): string => `×${formatNumber(value, { decimals: 2, forceDecimals: true })}`;
+const formatShift = (value: number): string => `${value >= 0 ? '+' : ''}${formatNumber(value * 100, { smartDecimals: true })}%`;
+
+export const CanopyOptionsModal: React.FC<CanopyOptionsModalProps> = ({
+  isOpen,
+  vineyard,
+  onClose,
+  onSubmit
+}) => {
+  const [options, setOptions] = useState<{ task: CanopyTask; greenHarvestPercent: number }>({
+    task: 'leafRemoval',
+    greenHarvestPercent: Math.round(GREEN_HARVEST_SHARE.default * 100)
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const season = getGameState().season ?? 'Spring';
+    const firstAvailable = (Object.keys(CANOPY_TASKS) as CanopyTask[]).find((task) => CANOPY_TASKS[task].seasons.includes(season));
+    setOptions({ task: firstAvailable ?? 'leafRemoval', greenHarvestPercent: Math.round(GREEN_HARVEST_SHARE.default * 100) });
+  }, [isOpen, vineyard?.id]);
+
+  const season = getGameState().season ?? 'Spring';
+  const info = CANOPY_TASKS[options.task];
+  const greenHarvestShare = options.task === 'greenHarvest' ? options.greenHarvestPercent / 100 : undefined;
+  const validation = useMemo(
+    () => (vineyard ? validateCanopyTask(vineyard, options.task, season, greenHarvestShare) : { valid: false }),
+    [vineyard, options.task, season, greenHarvestShare]
+  );
+  const workCalculation = useMemo(() => (vineyard ? calculateCanopyWork(vineyard, options.task) : { totalWork: 0, factors: [] }), [vineyard, options.task]);
+
+  const projection = useMemo(() => {
+    if (!vineyard) return null;
+    const worked = buildCanopyWorkedVineyard(vineyard, options.task, greenHarvestShare);
+    return {
+      current: getCanopyEffects(vineyard.canopyWork),
+      projected: getCanopyEffects(worked.canopyWork),
+      currentYield: calculateVineyardYield(vineyard),
+      projectedYield: calculateVineyardYield(worked),
+      vineYieldAfter: worked.vineYield
+    };
+  }, [vineyard, options.task, greenHarvestShare]);
+
+  const fields: ActivityOptionField[] = [
+    {
+      id: 'task',
+      label: 'Canopy Task',
+      type: 'select',
+      defaultValue: options.task,
+      options: (Object.keys(CANOPY_TASKS) as CanopyTask[]).map((task) => ({
+        value: task,
+        label: `${CANOPY_TASKS[task].label} (${CANOPY_TASKS[task].seasons.join('/')})`,
+        description: CANOPY_TASKS[task].description,
+        disabled: !CANOPY_TASKS[task].seasons.includes(season)
+      })),
+      required: true,
+      tooltip: 'Canopy work gives up some of this season\'s crop for faster ripening, less rot and riper fruit at harvest. Each task can be done once per season.'
+    },
+    ...(options.task === 'greenHarvest'
+      ? [{
+        id: 'greenHarvestPercent',
+        label: 'Crop Dropped (%)',
+        type: 'range' as const,
+        defaultValue: options.greenHarvestPercent,
+        min: Math.round(GREEN_HARVEST_SHARE.min * 100),
+        max: Math.round(GREEN_HARVEST_SHARE.max * 100),
+        step: 5,
+        tooltip: 'The more bunches are dropped, the faster and riper the rest of the crop ripens.'
+      }]
+      : [])
+  ];
+
+  const handleSubmit = (submittedOptions: Record<string, any>) => {
+    const task = submittedOptions.task as CanopyTask;
+    onSubmit({
+      task,
+      greenHarvestShare: task === 'greenHarvest' ? Number(submittedOptions.greenHarvestPercent) / 100 : undefined
+    });
+  };
+
+  if (!vineyard || !isOpen || !projection) return null;
+
+  const rows: Array<{ label: string; current: string; projected: string }> = [
+    { label: 'Expected yield', current: `${formatNumber(projection.currentYield, { decimals: 0 })} kg`, projected: `${formatNumber(projection.projectedYield, { decimals: 0 })} kg` },
+    { label: 'Vine yield', current: formatNumber(vineyard.vineYield, { decimals: 2, forceDecimals: true }), projected: formatNumber(projection.vineYieldAfter, { decimals: 2, forceDecimals: true }) },
+    { label: 'Ripening speed', current: formatMultiplier(projection.current.ripenessMultiplier), projected: formatMultiplier(projection.projected.ripenessMultiplier) },
+    { label: 'Grey rot risk', current: formatMultiplier(projection.current.greyRotRiskMultiplier), projected: formatMultiplier(projection.projected.greyRotRiskMultiplier) },
+    { label: 'Green flavor risk', current: formatMultiplier(projection.current.greenFlavorRiskMultiplier), projected: formatMultiplier(projection.projected.greenFlavorRiskMultiplier) },
+    { label: 'Sugar potential', current: formatShift(projection.current.sugarPotentialShift), projected: formatShift(projection.projected.sugarPotentialShift) },
+    { label: 'Phenolic potential', current: formatShift(projection.current.phenolicPotentialShift), projected: formatShift(projection.projected.phenolicPotentialShift) }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <ActivityOptionsModal
+        onClose={onClose}
+        title={`Canopy Work: ${vineyard.name}`}
+        subtitle={`In-season field work on ${vineyard.hectares} hectares of ${vineyard.grape ?? 'vines'}.`}
+        category={WorkCategory.CLEARING}
+        fields={fields}
+        workEstimate={{ totalWork: validation.valid ? workCalculation.totalWork : 0 }}
+        workFactors={validation.valid ? workCalculation.factors : undefined}
+        onSubmit={handleSubmit}
+        submitLabel={`Start ${info.label}`}
+        canSubmit={() => validation.valid}
+        disabledMessage={validation.reason}
+        options={options}
+        onOptionsChange={newOptions => setOptions(prev => ({ ...prev, ...newOptions }))}
+        maxWidth="lg"
+        maxHeight="90vh"
+      >
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
+          <h4 className="font-semibold text-green-900 mb-2">Projected Effects This Season</h4>
+          <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm">
+            <span className="text-gray-500" />
+            <span className="text-gray-500">Now</span>
+            <span className="text-gray-500">After {info.label}</span>
+            {rows.map((row) => (
+              <React.Fragment key={row.label}>
+                <span className="text-gray-700">{row.label}</span>
+                <span className="font-mono">{row.current}</span>
+                <span className={`font-mono ${row.current === row.projected ? '' : 'font-semibold text-green-800'}`}>{row.projected}</span>
+              </React.Fragment>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-green-800">Sugar and phenolic potential shift the grapes' anchors at harvest. Canopy effects last until the start of next year.</p>
+        </div>
+      </ActivityOptionsModal>
+    </div>
+  );
+};
+
+export default CanopyOptionsModal;
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CellarOperation, NotificationCategory, WineBatch, WorkCategory } from '@/lib/types/types';
+import type { StorageVessel } from '@/lib/types/storageVessels';
+import { calculateCellarOperationWork } from '../../services/workcalculators/cellarOperationWorkCalculator';
+import {
+  getCellarOperationVolumeAfter,
+  startCellarOperationActivity,
+  validateCellarOperation
+} from '@/lib/services/wine/winery/cellarOperationManager';
+import { getAvailableStorageVessels } from '@/lib/services/wine/winery/storageVesselAllocationService';
+import { getStorageVesselDisplayName } from '@/lib/services/wine/winery/storageVesselService';
+import { getWineBatchDisplayName } from '@/lib/services/wine/winery/inventoryService';
+import { CELLAR_OPERATIONS } from '@/lib/constants/cellarOperationConstants';
+import ActivityOptionsModal, { type ActivityOptionField } from '../activityOptionsModal';
+import { notificationService } from '@/lib/services';
+import { formatNumber } from '@/lib/utils/utils';
+import { DialogProps } from '@/lib/types/UItypes';
+
+/**
+ * Cellar Operation Options Modal
+ * Chooses racking, fining or filtration for a stored batch; racking also picks the target vessels
+ */
+
+interface CellarOperationOptionsModalProps extends DialogProps {
+  batch: WineBatch | null;
+}
+
+const RISK_LABELS: Record<string, string> = {
+  oxidation: 'Oxidation',
+  stuck_fermentation: 'Stuck fermentation'
+};
+
+export const CellarOperationOptionsModal: React.FC<CellarOperationOptionsModalProps> = ({
+  isOpen,
+  batch,
+  onClose
+}) => {
+  const [options, setOptions] = useState<{ operation: CellarOperation }>({ operation: 'racking' });
+  const [availableVessels, setAvailableVessels] = useState<StorageVessel[]>([]);
+  const [selectedVesselIds, setSelectedVesselIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedVesselIds([]);
+    void getAvailableStorageVessels().then(setAvailableVessels).catch(() => setAvailableVessels([]));
+  }, [isOpen]);
+
+  const info = CELLAR_OPERATIONS[options.operation];
+  const volumeLitres = batch?.volumeLitres ?? 0;
+  const volumeAfter = batch ? getCellarOperationVolumeAfter(batch, options.operation) : 0;
+  const selectedCapacity = availableVessels.filter((vessel) => selectedVesselIds.includes(vessel.id)).reduce((total, vessel) => total + vessel.capacityLitres, 0);
+  const validation = useMemo(() => (batch ? validateCellarOperation(batch, options.operation) : { valid: false }), [batch, options.operation]);
+  const workCalculation = useMemo(() => calculateCellarOperationWork(volumeLitres, options.operation), [volumeLitres, options.operation]);
+  const needsVessels = options.operation === 'racking' && selectedCapacity < volumeAfter;
+
+  const fields: ActivityOptionField[] = [
+    {
+      id: 'operation',
+      label: 'Operation',
+      type: 'select',
+      defaultValue: options.operation,
+      options: Object.entries(CELLAR_OPERATIONS).map(([operation, operationInfo]) => ({
+        value: operation,
+        label: operationInfo.label,
+        description: `${operationInfo.description} (-${formatNumber(operationInfo.volumeLoss * 100, { smartDecimals: true })}% volume)`
+      })),
+      required: true,
+      tooltip: 'Cellar work trades a little volume and structure for a lower risk of wine faults.'
+    }
+  ];
+
+  const handleSubmit = async (submittedOptions: Record<string, any>) => {
+    if (!batch) return;
+    const operation = submittedOptions.operation as CellarOperation;
+    const result = await startCellarOperationActivity(batch, operation, operation === 'racking' ? selectedVesselIds : []);
+    if (!result.success) {
+      await notificationService.addMessage(result.error || 'Failed to start cellar operation', 'cellarOperationOptionsModal.handleSubmit', 'Cellar Operation Error', NotificationCategory.SYSTEM);
+    }
+    onClose();
+  };
+
+  if (!batch || !isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <ActivityOptionsModal
+        onClose={onClose}
+        title="Cellar Work"
+        subtitle={`Rack, fine or filter ${Math.round(volumeLitres).toLocaleString()} L of ${getWineBatchDisplayName(batch)}.`}
+        category={WorkCategory.MAINTENANCE}
+        fields={fields}
+        workEstimate={{ totalWork: validation.valid ? workCalculation.totalWork : 0 }}
+        workFactors={validation.valid ? workCalculation.factors : undefined}
+        onSubmit={handleSubmit}
+        submitLabel={`Start ${info.label}`}
+        canSubmit={() => validation.valid && !needsVessels}
+        disabledMessage={validation.valid ? 'Select enough Storage Vessels to hold the racked wine.' : validation.reason}
+        options={options}
+        onOptionsChange={newOptions => setOptions(prev => ({ ...prev, ...newOptions }))}
+        maxWidth="lg"
+        maxHeight="90vh"
+      >
+        <div className="bg-amber-50 border border-amber-200 rounded p-3 mb-4 text-xs text-amber-800 space-y-1">
+          <div>About {formatNumber(info.volumeLoss * 100, { smartDecimals: true })}% of the volume is lost: {Math.round(volumeAfter).toLocaleString()} L will remain.</div>
+          <div>
+            Wine profile:{' '}
+            {Object.entries(info.characteristicEffects).map(([characteristic, modifier]) => `${characteristic} ${formatNumber((modifier ?? 0) * 100, { smartDecimals: true })}%`).join(', ')}
+          </div>
+          <div>
+            Fault risk:{' '}
+            {Object.entries(info.riskMultipliers).map(([featureId, multiplier]) => `${RISK_LABELS[featureId] ?? featureId} -${formatNumber((1 - (multiplier ?? 1)) * 100, { smartDecimals: true })}%`).join(', ')}
+            {batch.cellarOperations?.includes(options.operation) && ' (already applied to this batch; repeating it does not lower the risk further)'}
+          </div>
+        </div>
+
+        {options.operation === 'racking' && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+            <h4 className="font-semibold text-blue-900 mb-2">Target Storage Vessels</h4>
+            <div className="flex justify-between py-1 text-sm">
+              <span>Selected Storage:</span>
+              <span className={needsVessels ? 'text-red-600' : 'text-green-600'}>{selectedCapacity.toLocaleString()} L / {Math.ceil(volumeAfter).toLocaleString()} L</span>
+            </div>
+            <div className="mt-3 grid gap-2 sm:grid-cols-2">
+              {availableVessels.length === 0 && <div className="text-sm text-red-600 sm:col-span-2">No free Storage Vessels to rack into.</div>}
+              {availableVessels.map((vessel) => (
+                <label key={vessel.id} className="flex cursor-pointer items-center gap-2 rounded border border-gray-200 bg-white p-2 text-sm">
+                  <input type="checkbox" checked={selectedVesselIds.includes(vessel.id)} onChange={(event) => setSelectedVesselIds((current) => event.target.checked ? [...current, vessel.id] : current.filter((id) => id !== vessel.id))} />
+                  <span>{getStorageVesselDisplayName(vessel)} ({vessel.capacityLitres.toLocaleString()} L, {vessel.cleanliness})</span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-blue-800">The vessels are reserved when racking starts. The current vessels are released dirty once the wine has moved.</p>
+          </div>
+        )}
+      </ActivityOptionsModal>
+    </div>
+  );
+};
+
+export default CellarOperationOptionsModal;
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Vineyard } from '@/lib/types/types';
+import { Rootstock, VineClone, Vineyard } from '@/lib/types/types';
 import { formatNumber, getColorClass } from '@/lib/utils/utils';
 import WorkCalculationTable from '../workCalculationTable';
 import { calculateClearingWork } from '../../services/workcalculators/clearingWorkCalculator';
 import { getGameState } from '@/lib/services';
 import { calculateClearingHealth } from '@/lib/services/vineyard/clearingRules';
+import { getAvailableVineClones, type PlantingMaterial } from '@/lib/services/vineyard/plantingMaterialService';
+import { DEFAULT_ROOTSTOCK, DEFAULT_VINE_CLONE, PLANTING_MATERIAL, ROOTSTOCKS, VINE_CLONES } from '@/lib/constants/plantingMaterialConstants';
+import { researchUpgradeFeature } from '@/lib/features/researchUpgrade';
 
 interface ClearingOptionsModalProps {
   isOpen: boolean;
@@ -13,6 +16,7 @@ interface ClearingOptionsModalProps {
   onSubmit: (options: {
     tasks: { [key: string]: boolean };
     replantingIntensity: number;
+    material?: PlantingMaterial;
   }) => void;
 }
 
@@ -35,6 +39,9 @@ const ClearingOptionsModal: React.FC<ClearingOptionsModalProps> = ({
     replantingIntensity: 100,
   });
 
+  const [material, setMaterial] = useState<PlantingMaterial>({ rootstock: DEFAULT_ROOTSTOCK, vineClone: DEFAULT_VINE_CLONE });
+  const [availableClones, setAvailableClones] = useState<VineClone[]>(getAvailableVineClones([]));
+
   const [workEstimate, setWorkEstimate] = useState({
     totalWork: 0,
     timeEstimate: 'Calculating...',
@@ -62,7 +69,13 @@ const ClearingOptionsModal: React.FC<ClearingOptionsModalProps> = ({
         },
         replantingIntensity: 100,
       });
+      setMaterial({
+        rootstock: vineyard.rootstock ?? DEFAULT_ROOTSTOCK,
+        vineClone: vineyard.vineClone ?? DEFAULT_VINE_CLONE
+      });
       setProjectedHealth(vineyard.vineyardHealth);
+      researchUpgradeFeature.unlocks.getUnlockedItems('vine_clone')
+        .then(unlocked => setAvailableClones(getAvailableVineClones(unlocked)));
     }
   }, [isOpen, vineyard]);
 
@@ -126,7 +139,7 @@ const ClearingOptionsModal: React.FC<ClearingOptionsModalProps> = ({
     if (!options.tasks['uproot-vines'] && !options.tasks['replant-vines']) {
       finalOptions.replantingIntensity = 100;
     }
-    onSubmit(finalOptions);
+    onSubmit(options.tasks['replant-vines'] ? { ...finalOptions, material } : finalOptions);
   };
 
   const canSubmit = (): boolean => {
@@ -345,6 +358,40 @@ const ClearingOptionsModal: React.FC<ClearingOptionsModalProps> = ({
                   </div>
                 )}
                 
+                {options.tasks['replant-vines'] && (
+                  <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs text-gray-700">
+                    <label className="flex flex-col gap-1">
+                      Rootstock
+                      <select
+                        value={material.rootstock}
+                        onChange={(e) => setMaterial(prev => ({ ...prev, rootstock: e.target.value as Rootstock }))}
+                        className="rounded border border-gray-300 px-2 py-1 text-sm"
+                        title={ROOTSTOCKS[material.rootstock].description}
+                      >
+                        {(Object.keys(ROOTSTOCKS) as Rootstock[]).map(rootstock => (
+                          <option key={rootstock} value={rootstock}>{ROOTSTOCKS[rootstock].label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Clone
+                      <select
+                        value={material.vineClone}
+                        onChange={(e) => setMaterial(prev => ({ ...prev, vineClone: e.target.value as VineClone }))}
+                        className="rounded border border-gray-300 px-2 py-1 text-sm"
+                        title={VINE_CLONES[material.vineClone].description}
+                      >
+                        {availableClones.map(clone => (
+                          <option key={clone} value={clone}>{VINE_CLONES[clone].label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="sm:col-span-2 text-gray-500">
+                      The new rootstock and clone replace the vineyard's planting material when at least {PLANTING_MATERIAL.replantMaterialShare * 100}% of the vines are replanted.
+                    </div>
+                  </div>
+                )}
+
                 {options.tasks['replant-vines'] && options.replantingIntensity === 100 && (
                   <div className="mt-2 p-2 bg-blue-100 border border-blue-300 rounded text-xs text-blue-800">
                     <strong>ℹ️ Note:</strong> 100% replanting will replace all vines with new ones of the same grape variety and density. You will NOT be able to choose a different grape variety.
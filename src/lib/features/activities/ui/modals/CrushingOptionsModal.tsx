@@ -1,10 +1,12 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { WineBatch, NotificationCategory } from '@/lib/types/types';
 import { WorkCategory } from '@/lib/types/types';
 import type { WorkFactor } from '../../services/workcalculators/workCalculator';
 import { calculateCrushingWork, validateCrushingBatch } from '../../services/workcalculators/crushingWorkCalculator';
-import { getCrushingMethodInfo, CrushingOptions } from '@/lib/services/wine/characteristics/crushingCharacteristics';
-import { startCrushingActivity } from '@/lib/services/wine/winery/crushingManager';
+import { getCrushingMethodInfo, getSkinContactInfo, CrushingOptions, SAIGNEE_MAX_SHARE } from '@/lib/services/wine/characteristics/crushingCharacteristics';
+import { getSaigneeStorageLitres, startCrushingActivity } from '@/lib/services/wine/winery/crushingManager';
+import { getAvailableStorageVessels } from '@/lib/services/wine/winery/storageVesselAllocationService';
+import type { StorageVessel } from '@/lib/types/storageVessels';
 import ActivityOptionsModal, { type ActivityOptionField, type ActivityWorkEstimate } from '../activityOptionsModal';
 import { FeatureDisplay } from '@/components/ui';
 import { notificationService } from '@/lib/services';
@@ -35,11 +37,24 @@ export const CrushingOptionsModal: React.FC<CrushingOptionsModalProps> = ({
     method: 'Mechanical Press',
     destemming: true,
     coldSoak: false,
-    pressingIntensity: 0.5 // Default to medium pressure
+    pressingIntensity: 0.5, // Default to medium pressure
+    skinContact: 'full',
+    saigneeShare: 0
   });
+  const [availableVessels, setAvailableVessels] = useState<StorageVessel[]>([]);
+  const [selectedVesselIds, setSelectedVesselIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    void getAvailableStorageVessels().then(setAvailableVessels).catch(() => setAvailableVessels([]));
+  }, [isOpen]);
 
   // Helper data and functions
   const methodInfo = getCrushingMethodInfo();
+  const skinContactInfo = getSkinContactInfo();
+  const isRedGrape = batch?.grapeColor === 'red';
+  const saigneeLitres = batch ? getSaigneeStorageLitres(batch, options) : 0;
+  const selectedCapacity = availableVessels.filter((vessel) => selectedVesselIds.includes(vessel.id)).reduce((total, vessel) => total + vessel.capacityLitres, 0);
   
   // Get max pressure for selected method
   const maxPressure = methodInfo[options.method]?.maxPressure || 1.0;
@@ -136,7 +151,34 @@ MAX PRESSURE BY METHOD:
 • Hand Press: 50% (gentle only)
 • Mechanical: 80% (good range)
 • Pneumatic: 100% (full control)`
-    }
+    },
+    ...(isRedGrape ? [{
+      id: 'skinContact',
+      label: 'Skin Contact',
+      type: 'select' as const,
+      defaultValue: options.skinContact,
+      options: Object.entries(skinContactInfo).map(([value, info]) => ({
+        value,
+        label: `${info.label} - ${info.description}`
+      })),
+      required: true,
+      tooltip: `Skin contact decides the wine style of red grapes.
+
+Processing Effects:
+${Object.values(skinContactInfo).map((info) => `• ${info.label}: ${info.effects}`).join('\n')}`
+    }] : []),
+    ...(isRedGrape && options.skinContact === 'full' ? [{
+      id: 'saigneeShare',
+      label: `Saignée Bleed-off (${formatNumber(options.saigneeShare * 100, { smartDecimals: true })}% of the must as rosé)`,
+      type: 'range' as const,
+      defaultValue: options.saigneeShare,
+      min: 0,
+      max: SAIGNEE_MAX_SHARE,
+      step: 0.05,
+      tooltip: `Bleed off part of the juice early as a separate rosé batch.
+
+The remaining red must is concentrated (more body and tannins). The rosé needs its own Storage Vessels, reserved when crushing starts.`
+    }] : [])
   ];
 
   // Work calculation
@@ -220,11 +262,13 @@ MAX PRESSURE BY METHOD:
       method: submittedOptions.method as CrushingOptions['method'],
       destemming: submittedOptions.destemming === 'true',
       coldSoak: submittedOptions.coldSoak === 'true',
-      pressingIntensity: parseFloat(submittedOptions.pressingIntensity) || 0.5
+      pressingIntensity: parseFloat(submittedOptions.pressingIntensity) || 0.5,
+      skinContact: (submittedOptions.skinContact || 'full') as CrushingOptions['skinContact'],
+      saigneeShare: parseFloat(submittedOptions.saigneeShare) || 0
     };
     
     // Use crushing manager to start the activity
-    const result = await startCrushingActivity(batch, crushingOptions);
+    const result = await startCrushingActivity(batch, crushingOptions, crushingOptions.saigneeShare > 0 ? selectedVesselIds : []);
     
     if (!result.success) {
       await notificationService.addMessage(result.error || 'Failed to start crushing activity', 'crushingOptionsModal.handleStartCrushing', 'Crushing Error', NotificationCategory.SYSTEM);
@@ -242,6 +286,13 @@ MAX PRESSURE BY METHOD:
     if ('coldSoak' in convertedOptions) {
       convertedOptions.coldSoak = convertedOptions.coldSoak === 'true';
     }
+    if ('saigneeShare' in convertedOptions) {
+      convertedOptions.saigneeShare = parseFloat(convertedOptions.saigneeShare) || 0;
+    }
+    // Saignée only applies to full skin contact
+    if (convertedOptions.skinContact && convertedOptions.skinContact !== 'full') {
+      convertedOptions.saigneeShare = 0;
+    }
     
     // Clamp pressingIntensity to method's max pressure when method changes
     if ('method' in convertedOptions && 'pressingIntensity' in convertedOptions) {
@@ -276,7 +327,9 @@ MAX PRESSURE BY METHOD:
     const hasValidIntensity = typeof currentOptions.pressingIntensity === 'number' || 
                              !isNaN(parseFloat(currentOptions.pressingIntensity));
     
-    return validation.valid && currentOptions.method && hasValidDestemming && hasValidColdSoak && hasValidIntensity;
+    const hasSaigneeStorage = saigneeLitres <= 0 || selectedCapacity >= saigneeLitres;
+    
+    return validation.valid && currentOptions.method && hasValidDestemming && hasValidColdSoak && hasValidIntensity && hasSaigneeStorage;
   };
 
   // Early returns
@@ -443,6 +496,27 @@ MAX PRESSURE BY METHOD:
           </div>
         </div>
         
+        {/* Saignée Storage */}
+        {saigneeLitres > 0 && (
+          <div className="bg-pink-50 border border-pink-200 rounded-lg p-4 mb-4">
+            <h4 className="font-semibold text-pink-900 mb-2">Saignée Rosé Storage</h4>
+            <div className="flex justify-between py-1 text-sm">
+              <span>Selected Storage:</span>
+              <span className={selectedCapacity >= saigneeLitres ? 'text-green-600' : 'text-red-600'}>{selectedCapacity.toLocaleString()} L / {saigneeLitres.toLocaleString()} L</span>
+            </div>
+            <div className="mt-3 grid gap-2 sm:grid-cols-2">
+              {availableVessels.length === 0 && <div className="text-sm text-red-600 sm:col-span-2">No free Storage Vessels for the rosé.</div>}
+              {availableVessels.map((vessel) => (
+                <label key={vessel.id} className="flex cursor-pointer items-center gap-2 rounded border border-gray-200 bg-white p-2 text-sm">
+                  <input type="checkbox" checked={selectedVesselIds.includes(vessel.id)} onChange={(event) => setSelectedVesselIds((current) => event.target.checked ? [...current, vessel.id] : current.filter((id) => id !== vessel.id))} />
+                  <span>{vessel.capacityLitres.toLocaleString()} L {vessel.material} {vessel.vesselType.replace('_', ' ')}</span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-pink-800">The vessels are reserved when crushing starts and receive the bled-off juice as a separate rosé batch.</p>
+          </div>
+        )}
+
         {/* Feature Badges (if present) */}
         {featureRiskData && featureRiskData.presentFeatures.filter(f => f.qualityImpact && Math.abs(f.qualityImpact) > 0.001).length > 0 && (
           <div className="mb-4 flex items-center gap-2">
@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { WineBatch, NotificationCategory, SparklingDosage, WorkCategory } from '@/lib/types/types';
+import { calculateSparklingWork } from '../../services/workcalculators/sparklingWorkCalculator';
+import { startSparklingActivity, validateSparklingStep } from '@/lib/services/wine/winery/sparklingManager';
+import { getWineBatchDisplayName } from '@/lib/services/wine/winery/inventoryService';
+import { SPARKLING_DISGORGEMENT_LOSS, SPARKLING_DOSAGES } from '@/lib/constants/sparklingConstants';
+import ActivityOptionsModal, { type ActivityOptionField } from '../activityOptionsModal';
+import { notificationService } from '@/lib/services';
+import { formatNumber } from '@/lib/utils/utils';
+import { DialogProps } from '@/lib/types/UItypes';
+
+/**
+ * Disgorgement Options Modal
+ * Chooses the dosage for riddled Traditional Method bottles and starts disgorgement
+ */
+
+interface DisgorgementOptionsModalProps extends DialogProps {
+  batch: WineBatch | null;
+}
+
+export const DisgorgementOptionsModal: React.FC<DisgorgementOptionsModalProps> = ({
+  isOpen,
+  batch,
+  onClose
+}) => {
+  const [options, setOptions] = useState<{ dosage: SparklingDosage }>({ dosage: 'brut' });
+
+  const validation = useMemo(() => (batch ? validateSparklingStep(batch, 'disgorgement') : { valid: false }), [batch]);
+  const workCalculation = useMemo(() => (batch ? calculateSparklingWork(batch, 'disgorgement') : null), [batch]);
+
+  const fields: ActivityOptionField[] = [
+    {
+      id: 'dosage',
+      label: 'Dosage',
+      type: 'select',
+      defaultValue: options.dosage,
+      options: Object.entries(SPARKLING_DOSAGES).map(([dosage, info]) => ({
+        value: dosage,
+        label: info.label,
+        description: `${info.description} (+${formatNumber(info.sweetness * 100, { smartDecimals: true })}% sweetness)`
+      })),
+      required: true,
+      tooltip: 'The liqueur d\'expédition added after the lees plug is removed. It sets the final sweetness of the wine.'
+    }
+  ];
+
+  const handleSubmit = async (submittedOptions: Record<string, any>) => {
+    if (!batch) return;
+    const result = await startSparklingActivity(batch, 'disgorgement', submittedOptions.dosage as SparklingDosage);
+    if (!result.success) {
+      await notificationService.addMessage(result.error || 'Failed to start disgorgement', 'disgorgementOptionsModal.handleSubmit', 'Sparkling Wine Error', NotificationCategory.SYSTEM);
+    }
+    onClose();
+  };
+
+  if (!batch || !isOpen) return null;
+
+  const bottlesAfter = Math.floor(batch.quantity * (1 - SPARKLING_DISGORGEMENT_LOSS));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <ActivityOptionsModal
+        onClose={onClose}
+        title="Disgorge Sparkling Wine"
+        subtitle={`Remove the lees from ${batch.quantity} riddled bottles of ${getWineBatchDisplayName(batch)}, add the dosage and finish the wine for sale.`}
+        category={WorkCategory.FERMENTATION}
+        fields={fields}
+        workEstimate={{ totalWork: validation.valid ? workCalculation?.totalWork ?? 0 : 0 }}
+        workFactors={validation.valid ? workCalculation?.factors : undefined}
+        onSubmit={handleSubmit}
+        submitLabel="Start Disgorgement"
+        canSubmit={() => validation.valid}
+        disabledMessage={validation.reason}
+        options={options}
+        onOptionsChange={newOptions => setOptions(prev => ({ ...prev, ...newOptions }))}
+        maxWidth="lg"
+        maxHeight="90vh"
+      >
+        <div className="bg-amber-50 border border-amber-200 rounded p-3 mb-4 text-xs text-amber-800">
+          About {formatNumber(SPARKLING_DISGORGEMENT_LOSS * 100, { smartDecimals: true })}% of bottles are lost to the lees plug and topping up: {bottlesAfter} bottles will be finished.
+        </div>
+      </ActivityOptionsModal>
+    </div>
+  );
+};
+
+export default DisgorgementOptionsModal;
@@ -4,7 +4,17 @@ import { WineBatch, NotificationCategory } from '@/lib/types/types';
 import { WorkCategory } from '@/lib/types/types';
 import type { WorkFactor } from '../../services/workcalculators/workCalculator';
 import { calculateFermentationWork, validateFermentationBatch } from '../../services/workcalculators/fermentationWorkCalculator';
-import { getFermentationMethodInfo, getFermentationTemperatureInfo, FermentationOptions } from '@/lib/services/wine/characteristics/fermentationCharacteristics';
+import {
+  FERMENTATION_DECISIONS,
+  getFermentationDecisionInfo,
+  getFermentationMethodInfo,
+  getFermentationTemperatureInfo,
+  getSelectedFermentationDecisions,
+  FermentationDecision,
+  FermentationOptions
+} from '@/lib/services/wine/characteristics/fermentationCharacteristics';
+import { applyFermentationDecisionsToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import { resolveWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
 import { startFermentationActivity } from '@/lib/services/wine/winery/fermentationManager';
 import ActivityOptionsModal, { type ActivityOptionField, type ActivityWorkEstimate } from '../activityOptionsModal';
 import { notificationService } from '@/lib/services';
@@ -45,9 +55,11 @@ export const FermentationOptionsModal: React.FC<FermentationOptionsModalProps> =
   // Helper data and functions
   const methodInfo = getFermentationMethodInfo();
   const temperatureInfo = getFermentationTemperatureInfo();
+  const decisionInfo = getFermentationDecisionInfo();
+  const selectedDecisions = getSelectedFermentationDecisions(options);
 
   // Modal-level tooltip text (moved from inline panel)
-  const modalTooltip = `This activity sets up fermentation. Once started, characteristics develop automatically each game week based on method and temperature. Duration is player-controlled: fermentation continues until you bottle the wine.`;
+  const modalTooltip = `This activity sets up fermentation. Once started, characteristics develop automatically each game week based on method, temperature and lees management. Duration is player-controlled: fermentation continues until you bottle the wine.`;
 
   // Helper function to parse characteristic effects and create visual display
   const parseCharacteristicEffects = (effectsText: string): Array<{ value: number; characteristic: string }> => {
@@ -68,16 +80,26 @@ export const FermentationOptionsModal: React.FC<FermentationOptionsModalProps> =
     return effects.sort((a, b) => a.characteristic.localeCompare(b.characteristic));
   };
 
-  // Helper function to get oxidation risk modifier based on fermentation method
-  const getOxidationRiskModifier = (method: FermentationOptions['method']): number => {
-    switch (method) {
+  // Helper function to turn an anchor key (e.g. leesState) into a readable label
+  const getAnchorDisplayName = (anchor: string): string =>
+    anchor
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/^./, (value) => value.toUpperCase());
+
+  // Helper function to get oxidation risk modifier based on fermentation method and lees management
+  const getOxidationRiskModifier = (fermentationOptions: FermentationOptions): number => {
+    let multiplier = 1;
+    switch (fermentationOptions.method) {
       case 'Temperature Controlled':
-        return -0.4; // 40% decrease
+        multiplier *= 0.6; // 40% decrease
+        break;
       case 'Extended Maceration':
-        return 0.4;  // 40% increase
-      default:
-        return 0;    // No change
+        multiplier *= 1.4; // 40% increase
+        break;
     }
+    if (fermentationOptions.batonnage) multiplier *= 1.2; // Stirring lets in oxygen
+    if (fermentationOptions.surLie) multiplier *= 0.9;    // Lees keep the wine reductive
+    return multiplier - 1;
   };
 
 
@@ -91,24 +113,44 @@ export const FermentationOptionsModal: React.FC<FermentationOptionsModalProps> =
     const cleanMethodEffects = methodEffects.replace(/^Weekly:\s*/, '').replace(/\s+per week$/, '');
     const cleanTemperatureEffects = temperatureEffects.replace(/^Weekly:\s*/, '').replace(/\s+per week$/, '');
 
+    const cleanDecisionEffects = selectedDecisions
+      .map(decision => decisionInfo[decision].weeklyEffects.replace(/^Weekly:\s*/, '').replace(/\s+per week$/, ''))
+      .join(', ');
+
     // Parse effects for visual display
     const methodEffectsParsed = parseCharacteristicEffects(cleanMethodEffects);
     const temperatureEffectsParsed = parseCharacteristicEffects(cleanTemperatureEffects);
+    const decisionEffectsParsed = parseCharacteristicEffects(cleanDecisionEffects);
 
     // Combine effects intelligently
     let combined = cleanMethodEffects;
     if (cleanTemperatureEffects !== 'No additional effects') {
       combined += ` + ${cleanTemperatureEffects}`;
     }
+    if (cleanDecisionEffects) {
+      combined += ` + ${cleanDecisionEffects}`;
+    }
 
     return {
       method: cleanMethodEffects,
       temperature: cleanTemperatureEffects,
       combined: combined,
       methodParsed: methodEffectsParsed,
-      temperatureParsed: temperatureEffectsParsed
+      temperatureParsed: temperatureEffectsParsed,
+      decisionsParsed: decisionEffectsParsed
+    };
+  }, [options.method, options.temperature, selectedDecisions.join(','), methodInfo, temperatureInfo, decisionInfo]);
+
+  // Projected anchor effects of each malolactic / lees-management decision (same labels as the debug breakdown)
+  const decisionAnchorPreview = useMemo(() => {
+    if (!batch || selectedDecisions.length === 0) return null;
+
+    const anchors = resolveWineAnchors(batch.wineAnchors);
+    return {
+      setup: applyFermentationDecisionsToWineAnchors(anchors, options, 'setup').anchorEffects,
+      weekly: applyFermentationDecisionsToWineAnchors(anchors, options, 'weekly').anchorEffects
     };
-  }, [options.method, options.temperature, methodInfo, temperatureInfo]);
+  }, [batch, options, selectedDecisions.length]);
 
   // Feature risk calculations using helper service (same pattern as CrushingOptionsModal.tsx)
   const featureRiskData = useMemo(() => {
@@ -211,6 +253,23 @@ Selected Temperature Effects: ${temperatureInfo[options.temperature]?.effects ||
 Weekly Development: ${temperatureInfo[options.temperature]?.weeklyEffects || 'No additional effects'}
 
 Note: These effects apply each week while fermentation is active.`
+    },
+    {
+      id: 'decisions',
+      label: 'Malolactic & Lees Management',
+      type: 'checkbox-group',
+      defaultValue: selectedDecisions,
+      checkboxOptions: FERMENTATION_DECISIONS.map(decision => {
+        const info = decisionInfo[decision];
+        return {
+          value: decision,
+          label: info.label,
+          description: `${info.description} - ${info.effects} (+${formatNumber(info.workModifier * 100, { smartDecimals: true })}% work, ${info.cost > 0 ? `+${formatNumber(info.cost, { currency: true })}` : 'No cost'}) | ${info.weeklyEffects}`
+        };
+      }),
+      tooltip: `Optional decisions taken at fermentation setup. Malolactic conversion softens acidity; bâtonnage and sur-lie build lees character.
+
+Each decision adds setup work and shifts the wine's anchors at setup and every fermenting week.`
     }
   ];
 
@@ -229,9 +288,13 @@ Note: These effects apply each week while fermentation is active.`
   const handleSubmit = async (submittedOptions: Record<string, any>) => {
     if (!batch) return;
     
+    const decisions = (submittedOptions.decisions as FermentationDecision[] | undefined) || [];
     const fermentationOptions: FermentationOptions = {
       method: submittedOptions.method as FermentationOptions['method'],
-      temperature: submittedOptions.temperature as FermentationOptions['temperature']
+      temperature: submittedOptions.temperature as FermentationOptions['temperature'],
+      malolactic: decisions.includes('malolactic'),
+      batonnage: decisions.includes('batonnage'),
+      surLie: decisions.includes('surLie')
     };
     
     // Use fermentation manager to start the activity
@@ -245,7 +308,11 @@ Note: These effects apply each week while fermentation is active.`
   };
 
   const handleOptionsChange = (newOptions: Record<string, any>) => {
-    setOptions((prev: FermentationOptions) => ({ ...prev, ...newOptions }));
+    const { decisions, ...rest } = newOptions;
+    const decisionFlags = Array.isArray(decisions)
+      ? Object.fromEntries(FERMENTATION_DECISIONS.map(decision => [decision, decisions.includes(decision)]))
+      : {};
+    setOptions((prev: FermentationOptions) => ({ ...prev, ...rest, ...decisionFlags }));
   };
 
   // Validation
@@ -434,6 +501,39 @@ Note: These effects apply each week while fermentation is active.`
             </div>
           </div>
 
+          {/* Malolactic & Lees Management Effects */}
+          {combinedEffects.decisionsParsed.length > 0 && (
+            <div>
+              <div className="font-medium text-green-800 mb-1">
+                {selectedDecisions.map(decision => decisionInfo[decision].label).join(', ')}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {combinedEffects.decisionsParsed.map((effect, index) => {
+                  const modifier = effect.value / 100;
+                  const currentValue = batch?.characteristics[effect.characteristic as keyof typeof batch.characteristics] || 0;
+                  const balancedRange = BASE_BALANCED_RANGES[effect.characteristic as keyof typeof BASE_BALANCED_RANGES];
+                  const balancedRangeCopy: [number, number] = [balancedRange[0], balancedRange[1]];
+                  const colorInfo = getCharacteristicEffectColorInfo(currentValue, modifier, balancedRangeCopy);
+                  const colorClass = getCharacteristicEffectColorClass(currentValue, modifier, balancedRangeCopy);
+                  const bgClass = colorInfo.isGood ? 'bg-green-100' : 'bg-red-100';
+
+                  return (
+                    <div key={index} className={`flex items-center ${bgClass} px-2 py-1 rounded text-xs`}>
+                      <img
+                        src={getCharacteristicIconSrc(effect.characteristic)}
+                        alt={effect.characteristic}
+                        className="w-3 h-3 mr-1"
+                      />
+                      <span className={colorClass}>
+                        {effect.value > 0 ? '+' : ''}{effect.value}%
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Total Development */}
           <div className="border-t border-green-300 pt-2 mt-2">
             <div className="font-medium text-green-800 mb-1">Total Weekly Development</div>
@@ -481,6 +581,36 @@ Note: These effects apply each week while fermentation is active.`
         </div>
       </div>
       
+      {/* Projected Anchor Effects of lees & malolactic decisions */}
+      {decisionAnchorPreview && (
+        <div className="bg-blue-50 border border-blue-200 rounded p-3">
+          <h4 className="font-medium text-blue-800 mb-2 flex items-center">
+            <span className="mr-2">🧪</span>
+            Projected Wine Profile Effects
+          </h4>
+          <div className="text-xs text-blue-800 space-y-2">
+            {[
+              { title: 'At setup', effects: decisionAnchorPreview.setup },
+              { title: 'Each fermenting week', effects: decisionAnchorPreview.weekly }
+            ].map(group => (
+              <div key={group.title}>
+                <div className="font-medium mb-1">{group.title}</div>
+                <div className="flex flex-wrap gap-1">
+                  {group.effects.map((effect, index) => (
+                    <span key={index} className="bg-white border border-blue-200 px-2 py-0.5 rounded">
+                      {effect.description}: {getAnchorDisplayName(effect.anchor)}{' '}
+                      <span className={effect.modifier > 0 ? 'text-green-700' : 'text-red-700'}>
+                        {effect.modifier > 0 ? '+' : ''}{formatNumber(effect.modifier * 100, { smartDecimals: true })}%
+                      </span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Fermentation Risk Calculations */}
       {featureRiskData && (featureRiskData.presentFeatures.filter(f => f.qualityImpact && Math.abs(f.qualityImpact) > 0.001).length > 0 || featureRiskData.atRiskFeatures.length > 0 || featureRiskData.eventRisks.length > 0) && (
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
@@ -493,14 +623,14 @@ Note: These effects apply each week while fermentation is active.`
           <div className="bg-amber-100 border border-amber-200 rounded p-3">
             <div className="flex items-center justify-between mb-2">
               <span className="font-medium">⚠️ Oxidation Risk:</span>
-              <span className={`font-mono ${getOxidationRiskModifier(options.method) < 0 ? 'text-green-600' : 'text-red-600'}`}>
-                {formatNumber(Math.abs(getOxidationRiskModifier(options.method) * 100), { smartDecimals: true })}%
+              <span className={`font-mono ${getOxidationRiskModifier(options) < 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatNumber(Math.abs(getOxidationRiskModifier(options) * 100), { smartDecimals: true })}%
               </span>
             </div>
             <p className="text-xs text-amber-700">
-              {getOxidationRiskModifier(options.method) < 0
-                ? `Temperature Controlled reduces oxidation risk by ${formatNumber(Math.abs(getOxidationRiskModifier(options.method) * 100), { smartDecimals: true })}%`
-                : `Extended Maceration increases oxidation risk by ${formatNumber(getOxidationRiskModifier(options.method) * 100, { smartDecimals: true })}%`
+              {getOxidationRiskModifier(options) < 0
+                ? `Your fermentation setup reduces oxidation risk by ${formatNumber(Math.abs(getOxidationRiskModifier(options) * 100), { smartDecimals: true })}%`
+                : `Your fermentation setup increases oxidation risk by ${formatNumber(getOxidationRiskModifier(options) * 100, { smartDecimals: true })}%`
               }
             </p>
           </div>
@@ -544,7 +674,7 @@ Note: These effects apply each week while fermentation is active.`
       <ActivityOptionsModal
         onClose={onClose}
         title={`Start Fermentation`}
-        subtitle={`Configure fermentation process for ${batch.quantity}kg of ${batch.grape} must from ${batch.vineyardName}. Choose method and temperature control that will affect weekly characteristic development.`}
+        subtitle={`Configure fermentation process for ${batch.quantity}kg of ${batch.grape} must from ${batch.vineyardName}. Choose method, temperature control and lees management that will affect weekly characteristic development.`}
         category={WorkCategory.FERMENTATION}
         fields={fields}
         workEstimate={workCalculation?.workEstimate || { totalWork: 0 }}
@@ -552,7 +682,7 @@ Note: These effects apply each week while fermentation is active.`
         onSubmit={handleSubmit}
         submitLabel="Start Fermentation Activity"
         canSubmit={canSubmit}
-        options={options}
+        options={{ ...options, decisions: selectedDecisions }}
         onOptionsChange={handleOptionsChange}
         maxWidth="2xl"
         maxHeight="90vh"
@@ -11,7 +11,7 @@ import { WeatherOperationStatusNotice } from '@/components/ui/components/Weather
 import { notificationService } from '@/lib/services';
 import { formatNumber } from '@/lib/utils';
 import { DialogProps } from '@/lib/types/UItypes';
-import { previewFeatureRisks } from '@/lib/services';
+import { getVineyardDisplayName, previewFeatureRisks } from '@/lib/services';
 import { getFeatureConfig } from '@/lib/services/wine/features/constants/commonFeaturesUtil';
 import { createWeatherWeekContext, resolveWeatherOperationImpact } from '@/lib/features/weather';
 import { addStorageVesselCapacity, createStorageAllocationPlan, getAvailableStorageVessels, getStoragePlanCapacityLitres, initializeHarvestVolumeLitres, releaseStorageAllocationPlan, releaseUnusedStorageVesselCapacity } from '@/lib/services/wine/winery/storageVesselAllocationService';
@@ -98,11 +98,11 @@ export const HarvestOptionsModal: React.FC<HarvestOptionsModalProps> = ({
 
     const activityId = uuidv4();
     const harvestBaseline = continuingBatch?.quantity ?? 0;
-    const initialParams = { grape: vineyard.grape, harvestBaseline, harvestedSoFar: harvestBaseline, targetName: vineyard.name, outputBatchId: continuingBatch?.id ?? uuidv4(), storageVesselIds: continuingBatch ? [] : selectedVesselIds };
+    const initialParams = { grape: vineyard.grape, harvestBaseline, harvestedSoFar: harvestBaseline, targetName: getVineyardDisplayName(vineyard), outputBatchId: continuingBatch?.id ?? uuidv4(), storageVesselIds: continuingBatch ? [] : selectedVesselIds };
     const creation = await activitiesFeature.lifecycle.createWithResult({
       id: activityId,
       category: WorkCategory.HARVESTING,
-      title: `Harvesting ${vineyard.name}`,
+      title: `Harvesting ${getVineyardDisplayName(vineyard)}`,
       totalWork: Math.max(0.1, harvestCalculation.workEstimate.totalWork * remainingYield / Math.max(0.1, harvestCalculation.expectedYield)),
       activityDetails: `Remaining yield: ${formatNumber(remainingYield, { smartDecimals: true })} kg`,
       targetId: vineyard.id,
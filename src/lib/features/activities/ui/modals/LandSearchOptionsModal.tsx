@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { LandSearchOptions, calculateLandSearchCost, getAccessibleRegions, calculateRegionDistribution, getAllVineyards } from '@/lib/services';
+import { LandSearchOptions, calculateLandSearchCost, getAccessibleRegions, calculateRegionDistribution, countVineyardEstates, getAllVineyards } from '@/lib/services';
 import { calculateLandSearchWork } from '../../services/workcalculators/landSearchWorkCalculator';
 import { startLandSearch } from '../../services/activitymanagers/landSearchManager';
 import { ASPECTS, GRAPE_VARIETIES } from '@/lib/types/types';
@@ -128,7 +128,7 @@ export const LandSearchOptionsModal: React.FC<LandSearchOptionsModalProps> = ({
 
         setVineyardCapacity(buildVineyardCapacityState({
           currentTotalHectares: vineyards.reduce((sum, vineyard) => sum + (vineyard.hectares || 0), 0),
-          currentVineyardCount: vineyards.length,
+          currentVineyardCount: countVineyardEstates(vineyards),
           unlockedPerVineyardValues,
           unlockedTotalHectareValues,
           unlockedVineyardCountValues
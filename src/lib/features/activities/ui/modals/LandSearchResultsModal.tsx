@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { VineyardPurchaseOption, getAllVineyards } from '@/lib/services';
+import { VineyardPurchaseOption, countVineyardEstates, getAllVineyards } from '@/lib/services';
 import { formatNumber, getFlagIcon, getBadgeColorClasses, setModalMinimized } from '@/lib/utils';
 import { Button, Badge, UnifiedTooltip } from '@/components/ui';
 import { X, Minimize2 } from 'lucide-react';
@@ -84,7 +84,7 @@ export const LandSearchResultsModal: React.FC<LandSearchResultsModalProps> = ({
 
         setVineyardCapacity(buildVineyardCapacityState({
           currentTotalHectares: vineyards.reduce((sum, vineyard) => sum + (vineyard.hectares || 0), 0),
-          currentVineyardCount: vineyards.length,
+          currentVineyardCount: countVineyardEstates(vineyards),
           unlockedPerVineyardValues,
           unlockedTotalHectareValues,
           unlockedVineyardCountValues
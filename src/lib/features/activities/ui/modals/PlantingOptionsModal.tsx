@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { GrapeVariety, Vineyard, NotificationCategory } from '@/lib/types/types';
+import { GrapeVariety, Rootstock, VineClone, Vineyard, NotificationCategory } from '@/lib/types/types';
 import { getGameState, initializePlanting } from '@/lib/services';
 import { activitiesFeature } from '@/lib/features/activities';
 import { WorkCategory } from '@/lib/types/types';
@@ -11,7 +11,8 @@ import { WeatherOperationStatusNotice } from '@/components/ui/components/Weather
 import { notificationService } from '@/lib/services';
 import { DEFAULT_VINE_DENSITY } from '@/lib/features/activities/constants/activityConstants';
 import { DialogProps } from '@/lib/types/UItypes';
-import { calculateGrapeSuitabilityMetrics } from '@/lib/services';
+import { calculateGrapeSuitabilityMetrics, getAvailableVineClones, getRootstockSoilFit, getVineyardDisplayName } from '@/lib/services';
+import { DEFAULT_ROOTSTOCK, DEFAULT_VINE_CLONE, ROOTSTOCKS, VINE_CLONES } from '@/lib/constants/plantingMaterialConstants';
 import { getBadgeColorClasses, formatNumber } from '@/lib/utils';
 import { GRAPE_VARIETIES } from '@/lib/types/types';
 import { researchUpgradeFeature } from '@/lib/features/researchUpgrade';
@@ -34,9 +35,12 @@ export const PlantingOptionsModal: React.FC<PlantingOptionsModalProps> = ({
 }) => {
   // State initialization
   const [unlockedGrapes, setUnlockedGrapes] = useState<GrapeVariety[]>([]);
+  const [availableClones, setAvailableClones] = useState<VineClone[]>(getAvailableVineClones([]));
   const [options, setOptions] = useState({
     grape: 'Chardonnay' as GrapeVariety,
-    density: DEFAULT_VINE_DENSITY
+    density: DEFAULT_VINE_DENSITY,
+    rootstock: DEFAULT_ROOTSTOCK as Rootstock,
+    vineClone: DEFAULT_VINE_CLONE as VineClone
   });
 
   // Load unlocked grapes on mount
@@ -48,6 +52,7 @@ export const PlantingOptionsModal: React.FC<PlantingOptionsModalProps> = ({
       ) as GrapeVariety[];
       
       setUnlockedGrapes(unlockedGrapes);
+      setAvailableClones(getAvailableVineClones(await researchUpgradeFeature.unlocks.getUnlockedItems('vine_clone')));
       
       // If current selection is not unlocked, switch to first unlocked grape
       if (unlockedGrapes.length > 0 && !unlockedGrapes.includes(options.grape)) {
@@ -85,6 +90,24 @@ export const PlantingOptionsModal: React.FC<PlantingOptionsModalProps> = ({
       step: 500,
       required: true,
       tooltip: `Recommended density is around ${DEFAULT_VINE_DENSITY}. Higher density can increase yield but may affect quality and require more work.`
+    },
+    {
+      id: 'rootstock',
+      label: 'Rootstock',
+      type: 'select',
+      defaultValue: options.rootstock,
+      options: (Object.keys(ROOTSTOCKS) as Rootstock[]).map(rootstock => ({ value: rootstock, label: ROOTSTOCKS[rootstock].label })),
+      required: true,
+      tooltip: ROOTSTOCKS[options.rootstock].description
+    },
+    {
+      id: 'vineClone',
+      label: 'Clone',
+      type: 'select',
+      defaultValue: options.vineClone,
+      options: availableClones.map(clone => ({ value: clone, label: VINE_CLONES[clone].label })),
+      required: true,
+      tooltip: `${VINE_CLONES[options.vineClone].description} Premium clones are unlocked through research.`
     }
   ];
 
@@ -127,18 +150,22 @@ export const PlantingOptionsModal: React.FC<PlantingOptionsModalProps> = ({
     if (!vineyard || !workCalculation) return;
     const grape = submittedOptions.grape as GrapeVariety;
     const density = submittedOptions.density as number;
+    const rootstock = submittedOptions.rootstock as Rootstock;
+    const vineClone = submittedOptions.vineClone as VineClone;
 
     // Create against fresh service-side weather validation before mutating the vineyard.
     const creation = await activitiesFeature.lifecycle.createWithResult({
       category: WorkCategory.PLANTING,
-      title: `Planting ${vineyard.name}`,
+      title: `Planting ${getVineyardDisplayName(vineyard)}`,
       totalWork: workCalculation.workEstimate.totalWork,
-      activityDetails: `Grape: ${grape}, Density: ${density} vines/ha`,
+      activityDetails: `Grape: ${grape} (${VINE_CLONES[vineClone].label} on ${ROOTSTOCKS[rootstock].label}), Density: ${density} vines/ha`,
       targetId: vineyard.id,
       params: {
         grape,
         density,
-        targetName: vineyard.name
+        rootstock,
+        vineClone,
+        targetName: getVineyardDisplayName(vineyard)
       },
       isCancellable: true
     });
@@ -154,7 +181,7 @@ export const PlantingOptionsModal: React.FC<PlantingOptionsModalProps> = ({
     }
 
     // Initialize planting only after the authoritative service validation succeeds.
-    const initialized = await initializePlanting(vineyard.id, grape);
+    const initialized = await initializePlanting(vineyard.id, grape, { rootstock, vineClone });
     if (!initialized) {
       await activitiesFeature.lifecycle.cancel(creation.activityId);
       await notificationService.addMessage('Failed to initialize planting.', 'plantingOptionsModal.handlePlant', 'Planting Error', NotificationCategory.SYSTEM);
@@ -205,6 +232,17 @@ export const PlantingOptionsModal: React.FC<PlantingOptionsModalProps> = ({
         onOptionsChange={handleOptionsChange}
       >
         {weatherImpact && <WeatherOperationStatusNotice operation="planting" impact={weatherImpact} />}
+        <div className="bg-gray-50 p-3 rounded-lg border border-gray-200 mb-4 text-xs text-gray-600 space-y-1">
+          <div>
+            <span className="font-semibold text-gray-700">{ROOTSTOCKS[options.rootstock].label}:</span>{' '}
+            {ROOTSTOCKS[options.rootstock].description}{' '}
+            Suits {formatNumber(getRootstockSoilFit(options.rootstock, vineyard.soil) * 100, { smartDecimals: true })}% of this vineyard's soils.
+          </div>
+          <div>
+            <span className="font-semibold text-gray-700">{VINE_CLONES[options.vineClone].label}:</span>{' '}
+            {VINE_CLONES[options.vineClone].description}
+          </div>
+        </div>
         {/* Grape Suitability Info */}
         {grapeSuitability !== null && grapeSuitabilityMetrics && (() => {
           const colors = getBadgeColorClasses(grapeSuitability);
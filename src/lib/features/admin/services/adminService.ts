@@ -309,6 +309,7 @@ export async function adminGenerateTestOrders(): Promise<{ totalOrdersCreated: n
 export async function adminGenerateTestContract(): Promise<{ success: boolean; message: string }> {
   const { getAllCustomers } = await import('@/lib/services/sales/createCustomer');
   const { generateContractForCustomer } = await import('@/lib/services/sales/contractGenerationService');
+  const { isExportMarketCountry } = await import('@/lib/services/sales/exportService');
   const { saveWineContract } = await import('@/lib/database/sales/contractDB');
 
   // Get or create customers
@@ -323,8 +324,12 @@ export async function adminGenerateTestContract(): Promise<{ success: boolean; m
     return { success: false, message: 'No customers available' };
   }
 
-  // Select a random customer
-  const customer = getRandomFromArray(allCustomers);
+  // Select a random customer; export customers only buy through shipped orders
+  const contractCustomers = allCustomers.filter(candidate => !isExportMarketCountry(candidate.country));
+  if (contractCustomers.length === 0) {
+    return { success: false, message: 'No customers available' };
+  }
+  const customer = getRandomFromArray(contractCustomers);
 
   // Use the real contract generation logic (same quantity/pricing as normal contracts)
   // This shares the exact same calculateContractPricing function as normal gameplay
@@ -450,7 +455,7 @@ export async function adminGenerateTestForwardPresaleContract(): Promise<{ succe
   const finalPaymentAmount = Math.round((totalValue - upfrontPaidAmount) * 100) / 100;
   const defaultPenaltyAmount = Math.round(upfrontPaidAmount * FORWARD_CONTRACT_CONFIG.defaultPenaltyPercentOnAdvance * 100) / 100;
 
-  const targetStates = ['grapes', 'must_ready', 'must_fermenting', 'bottled', 'any'] as const;
+  const targetStates = ['grapes', 'must_ready', 'must_fermenting', 'maturing', 'bottled', 'any'] as const;
   const targetState = getRandomFromArray(targetStates);
 
   await saveForwardContract({
@@ -419,6 +419,7 @@ export async function createGrapeBatch(
     cleanliness: 'clean',
     condition: 1,
     fillHistory: 0,
+    imprintFills: [],
     occupancy: 'available',
     purchasedYear: harvestDate.year,
     purchasedSeason: harvestDate.season,
@@ -450,7 +451,9 @@ export async function createMustReadyBatch(
     method: stringParam(params, 'crushingMethod', 'Mechanical Press') as CrushingOptions['method'],
     destemming: booleanParam(params, 'destemming', true),
     coldSoak: booleanParam(params, 'coldSoak', false),
-    pressingIntensity: numberParam(params, 'pressingIntensity', 0.5)
+    pressingIntensity: numberParam(params, 'pressingIntensity', 0.5),
+    skinContact: stringParam(params, 'skinContact', 'full') as CrushingOptions['skinContact'],
+    saigneeShare: 0
   };
 
   const startResult = await startCrushingActivity(result.batch, crushingOptions);
@@ -31,6 +31,12 @@ const aspectOptions = ['North', 'Northeast', 'East', 'Southeast', 'South', 'Sout
 const crushingMethodOptions = ['Hand Press', 'Mechanical Press', 'Pneumatic Press']
   .map(value => ({ label: value, value }));
 
+const skinContactOptions = [
+  { label: 'Full (red)', value: 'full' },
+  { label: 'Short (rosé)', value: 'short' },
+  { label: 'None (white from red)', value: 'none' }
+];
+
 const fermentationMethodOptions = ['Basic', 'Temperature Controlled', 'Extended Maceration']
   .map(value => ({ label: value, value }));
 
@@ -136,7 +142,8 @@ const crushingStageParams: TestLabParamField[] = [
   { key: 'crushingMethod', label: 'Crushing method', type: 'select', defaultValue: 'Mechanical Press', options: crushingMethodOptions },
   { key: 'destemming', label: 'Destemming', type: 'boolean', defaultValue: true },
   { key: 'coldSoak', label: 'Cold soak', type: 'boolean', defaultValue: false },
-  { key: 'pressingIntensity', label: 'Pressing intensity', type: 'number', defaultValue: 0.5, min: 0, max: 1, step: 0.05 }
+  { key: 'pressingIntensity', label: 'Pressing intensity', type: 'number', defaultValue: 0.5, min: 0, max: 1, step: 0.05 },
+  { key: 'skinContact', label: 'Skin contact (red grapes)', type: 'select', defaultValue: 'full', options: skinContactOptions }
 ];
 
 // Fermentation setup params added when fermentation is started.
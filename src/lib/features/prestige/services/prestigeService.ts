@@ -4,6 +4,8 @@ import {
   saveVineyard,
 } from '@/lib/database/activities/vineyardDB';
 import { calculateGrapeSuitabilityContribution } from '@/lib/services/vineyard/vineyardValueCalc';
+import { getFarmingPrestigeMultiplier } from '@/lib/services/vineyard/farmingService';
+import { getEstateAreaShare, getEstateParcels, getVineyardEstateId } from '@/lib/services/vineyard/vineyardParcelService';
 import {
   vineyardAgePrestigeModifier,
   calculateAsymmetricalMultiplier,
@@ -65,6 +67,9 @@ type VineyardPrestigeFactors = {
   landScaled: number;
   density: number;
   densityModifier: number;
+  farmingModifier: number;
+  estateHectares: number;
+  estateShare: number;
 };
 
 export function calculateCompanyValuePrestige(
@@ -118,7 +123,7 @@ async function createBaseVineyardPrestigeEvents(
   try {
     const vineyards = await loadVineyards(companyId);
     await Promise.all(
-      vineyards.map((vineyard) => createVineyardFactorPrestigeEvents(vineyard, companyId)),
+      vineyards.map((vineyard) => createVineyardFactorPrestigeEvents(vineyard, vineyards, companyId)),
     );
   } catch (error) {
     console.error('Failed to create base vineyard prestige events:', error);
@@ -149,9 +154,16 @@ function calculateDensityPrestigeModifier(density: number): number {
   return Math.max(0.5, Math.min(1.5, modifier));
 }
 
-function computeVineyardPrestigeFactors(
+/**
+ * Age and land prestige of a vineyard. Parcels of one estate share it by area: each earns its
+ * share of the estate's age prestige and of the land prestige of the estate's full size,
+ * so splitting an estate into parcels does not add prestige.
+ */
+export function computeVineyardPrestigeFactors(
   vineyard: Vineyard,
+  vineyards: Vineyard[] = [vineyard],
 ): VineyardPrestigeFactors {
+  const { estateHectares, share: estateShare } = getEstateAreaShare(vineyard, vineyards);
   const grapeSuitability = calculateGrapeSuitabilityContribution(
     vineyard.grape as any,
     vineyard.region,
@@ -172,7 +184,9 @@ function computeVineyardPrestigeFactors(
   const densityModifier = calculateDensityPrestigeModifier(
     vineyard.density || 0,
   );
-  const ageScaled = ageScaledRaw * densityModifier;
+  // Certified organic or biodynamic farming adds prestige to both age and land
+  const farmingModifier = getFarmingPrestigeMultiplier(vineyard);
+  const ageScaled = ageScaledRaw * densityModifier * farmingModifier * estateShare;
 
   const maxLandValue = getMaxLandValue();
   // Normalize per-hectare value against max per-hectare benchmark using vineyard.landValue directly (€/ha)
@@ -183,16 +197,16 @@ function computeVineyardPrestigeFactors(
   let landWithSuitability01 = squashNormalizeTail(
     landBase01 * grapeSuitability,
   );
-  // Apply asym multiplier on per-hectare signal, then multiply by size factor (√hectares)
+  // Apply asym multiplier on per-hectare signal, then multiply by size factor (√estate hectares × parcel share)
   const landScaledPerHa = Math.max(
     0,
     calculateAsymmetricalMultiplier(landWithSuitability01) - 1,
   );
-  const landSizeFactor = Math.sqrt(vineyard.hectares || 0);
+  const landSizeFactor = Math.sqrt(estateHectares) * estateShare;
   const landScaledRaw = landScaledPerHa * landSizeFactor;
 
   // Apply density modifier to land prestige (lower density = higher prestige)
-  const landScaled = landScaledRaw * densityModifier;
+  const landScaled = landScaledRaw * densityModifier * farmingModifier;
 
   return {
     maxLandValue,
@@ -207,6 +221,9 @@ function computeVineyardPrestigeFactors(
     landScaled,
     density: vineyard.density || 0,
     densityModifier,
+    farmingModifier,
+    estateHectares,
+    estateShare,
   };
 }
 
@@ -469,10 +486,11 @@ export async function updateCompanyValuePrestige(): Promise<void> {
 
 async function createVineyardFactorPrestigeEvents(
   vineyard: any,
+  vineyards: Vineyard[],
   companyId = getCurrentCompanyId(),
 ): Promise<void> {
   try {
-    const factors = computeVineyardPrestigeFactors(vineyard);
+    const factors = computeVineyardPrestigeFactors(vineyard, vineyards);
 
     await updateBasePrestigeEvent(
       'vineyard_age',
@@ -488,6 +506,8 @@ async function createVineyardFactorPrestigeEvents(
           ageWithSuitability01: factors.ageWithSuitability01,
           density: factors.density,
           densityModifier: factors.densityModifier,
+          farmingModifier: factors.farmingModifier,
+          estateShare: factors.estateShare,
         },
       } as any,
       companyId,
@@ -505,6 +525,8 @@ async function createVineyardFactorPrestigeEvents(
           totalValue: vineyard.vineyardTotalValue,
           landValuePerHectare: factors.landValuePerHectare,
           hectares: vineyard.hectares,
+          estateHectares: factors.estateHectares,
+          estateShare: factors.estateShare,
           maxLandValue: factors.maxLandValue,
           landBase01: factors.landBase01,
           landWithSuitability01: factors.landWithSuitability01,
@@ -512,6 +534,7 @@ async function createVineyardFactorPrestigeEvents(
           landSizeFactor: factors.landSizeFactor,
           density: factors.density,
           densityModifier: factors.densityModifier,
+          farmingModifier: factors.farmingModifier,
         },
       } as any,
       companyId,
@@ -534,7 +557,11 @@ export async function updateBaseVineyardPrestigeEvent(
       return;
     }
 
-    await createVineyardFactorPrestigeEvents(vineyard, companyId);
+    // Every parcel of the estate is refreshed, since their shares of the estate move together
+    const parcels = getEstateParcels(vineyards, getVineyardEstateId(vineyard));
+    await Promise.all(
+      parcels.map((parcel) => createVineyardFactorPrestigeEvents(parcel, vineyards, companyId)),
+    );
   } catch (error) {
     console.error('Failed to update base vineyard prestige event:', error);
   }
@@ -1128,6 +1155,7 @@ export function getEventDisplayData(event: PrestigeEventDisplayInput): PrestigeE
       const ageBase = Number(metadata.ageBase01 ?? 0);
       const ageSuitAdj = Number(metadata.ageWithSuitability01 ?? 0);
       const densityMod = Number(metadata.densityModifier ?? 1);
+      const farmingMod = Number(metadata.farmingModifier ?? 1);
       return {
         title: `Vine Age: ${metadata.vineyardName} (${metadata.vineAge} years)`,
         titleBase: 'Vine Age',
@@ -1139,6 +1167,7 @@ export function getEventDisplayData(event: PrestigeEventDisplayInput): PrestigeE
           ageBase: ageBase,
           grapeSuitability: ageSuitAdj,
           densityModifier: densityMod,
+          farmingModifier: farmingMod,
           density: metadata.density,
           finalPrestige: event.amount,
         },
@@ -1164,6 +1193,7 @@ export function getEventDisplayData(event: PrestigeEventDisplayInput): PrestigeE
       const perHaAsym = Number(metadata.landScaledPerHa ?? 0);
       const sizeFactor = Number(metadata.landSizeFactor ?? 0);
       const densityMod = Number(metadata.densityModifier ?? 1);
+      const farmingMod = Number(metadata.farmingModifier ?? 1);
       const totalValue = Number(
         metadata.totalValue ??
           Number(metadata.landValuePerHectare ?? 0) *
@@ -1182,6 +1212,7 @@ export function getEventDisplayData(event: PrestigeEventDisplayInput): PrestigeE
           hectares: metadata.hectares,
           density: metadata.density,
           densityModifier: densityMod,
+          farmingModifier: farmingMod,
           suitability: suitAdj,
           sizeFactor: sizeFactor,
           asymScaling: perHaAsym,
@@ -53,6 +53,7 @@ type VineyardLandCalculationData = {
   hectares: number;
   density: number;
   densityModifier: number;
+  farmingModifier?: number;
   sizeFactor: number;
   asymScaling: number;
   suitability: number;
@@ -66,6 +67,7 @@ type VineyardAgeCalculationData = {
   ageBase: number;
   grapeSuitability: number;
   densityModifier: number;
+  farmingModifier?: number;
   finalPrestige: number;
 };
 
@@ -488,6 +490,12 @@ const PrestigeModal: React.FC<PrestigeModalInput> = ({
                   label="Density Modifier:"
                   value={`×${formatNumber(calculationData.densityModifier, { smartDecimals: true })}`}
                 />
+                {calculationData.farmingModifier !== undefined && calculationData.farmingModifier !== 1 && (
+                  <TooltipRow
+                    label="Farming Certification:"
+                    value={`×${formatNumber(calculationData.farmingModifier, { smartDecimals: true })}`}
+                  />
+                )}
                 <TooltipRow
                   label="Size Factor:"
                   value={formatNumber(calculationData.sizeFactor, {
@@ -616,6 +624,12 @@ const PrestigeModal: React.FC<PrestigeModalInput> = ({
                     'higher_better',
                   )}
                 />
+                {calculationData.farmingModifier !== undefined && calculationData.farmingModifier !== 1 && (
+                  <TooltipRow
+                    label="Farming Certification:"
+                    value={`×${formatNumber(calculationData.farmingModifier, { smartDecimals: true })}`}
+                  />
+                )}
                 <TooltipRow
                   label="Final Prestige:"
                   value={formatNumber(calculationData.finalPrestige, {
@@ -25,7 +25,9 @@ export type UnlockType =
       | 'grape_buyer_slots'        // Adds seasonal grape buyer slots in market generation
       | 'grape_buyer_limit_multiplier' // Multiplies seasonal hard limits for grape buyers
       | 'grape_buyer_multiplier_bonus' // Adds flat grape buyer price multiplier bonus
-      | 'grape_buyer_country_access'; // Unlocks additional country pools for seasonal grape buyers
+      | 'grape_buyer_country_access' // Unlocks additional country pools for seasonal grape buyers
+      | 'vine_clone'               // Unlocks a premium vine clone for planting (enforced in PlantingOptionsModal and initializePlanting)
+      | 'export_market';           // Opens an export market and brings in its customers (enforced in exportManager)
 
 /**
  * Generic unlock definition for research projects
@@ -120,6 +122,8 @@ export const RESEARCH_PROJECT_ECONOMICS: Record<string, ResearchProjectEconomics
       tech_fermentation: { workAmount: 500, moneyCost: 61000 },
       tech_fermentation_extended: { workAmount: 600, moneyCost: 88000 },
       tech_vineyard_health_monitoring: { workAmount: 500, moneyCost: 61000 },
+      agri_clone_selection: { workAmount: 450, moneyCost: 42000 },
+      agri_massal_selection: { workAmount: 650, moneyCost: 95000 },
       agri_barbera: { workAmount: 450, moneyCost: 20500 },
       agri_chardonnay: { workAmount: 500, moneyCost: 37500 },
       agri_pinot_noir: { workAmount: 550, moneyCost: 52000 },
@@ -174,6 +178,10 @@ export const RESEARCH_PROJECT_ECONOMICS: Record<string, ResearchProjectEconomics
       mkt_cross_border_buyer_network: { workAmount: 900, moneyCost: 122000 },
       mkt_transatlantic_buyer_desk: { workAmount: 1400, moneyCost: 226000 },
       mkt_old_world_exchange: { workAmount: 2300, moneyCost: 450000 },
+      mkt_export_licence_uk: { workAmount: 300, moneyCost: 28000 },
+      mkt_export_licence_scandinavia: { workAmount: 450, moneyCost: 46000 },
+      mkt_export_licence_japan: { workAmount: 850, moneyCost: 112000 },
+      mkt_export_licence_china: { workAmount: 1300, moneyCost: 195000 },
       eff_bulk_chain_optimization: { workAmount: 500, moneyCost: 57000 },
       eff_contract_fulfillment_grid: { workAmount: 1050, moneyCost: 158000 },
       tech_market_signal_engine: { workAmount: 600, moneyCost: 86000 },
@@ -1124,6 +1132,54 @@ export const RESEARCH_PROJECTS: ResearchProject[] = [
       // ===== AGRICULTURE (Grape Research) =====
       // Grape research projects are automatically generated based on difficulty
       ...GRAPE_VARIETIES.map(grape => createGrapeResearchProject(grape)),
+
+      // ===== AGRICULTURE (Planting Material) =====
+      {
+            id: 'agri_clone_selection',
+            title: 'Clonal Selection Programme',
+            description: 'Trial certified quality clones with nurseries to source small-berry, low-yielding vines.',
+            complexity: 5,
+            benefits: [
+                  'Unlocks the Small-Berry Quality Clone for planting and replanting',
+                  'Smaller crops with more colour and flavour',
+                  `+${calculateResearchPrestigeFromComplexity(5)} Prestige points`
+            ],
+            category: 'agriculture',
+            icon: '🌱',
+            prestigeReward: calculateResearchPrestigeFromComplexity(5),
+            requiredPrestige: 2,
+            prerequisites: ['tech_soil_analysis'],
+            unlocks: [{ type: 'vine_clone', value: 'smallBerry', displayName: 'Small-Berry Quality Clone' }],
+            workProfile: {
+                  scopeWorkAmount: 150,
+                  complexityCurve: { kind: 'exponential', base: 1.08 },
+                  categoryModifier: 0.2,
+                  extraInitialWork: 30
+            }
+      },
+      {
+            id: 'agri_massal_selection',
+            title: 'Massal Selection Nursery',
+            description: 'Propagate cuttings from your best old vines to plant diverse, complex massal selections.',
+            complexity: 7,
+            benefits: [
+                  'Unlocks Massal Selection vines for planting and replanting',
+                  'Low yields of complex fruit that keeps its freshness',
+                  `+${calculateResearchPrestigeFromComplexity(7)} Prestige points`
+            ],
+            category: 'agriculture',
+            icon: '🍇',
+            prestigeReward: calculateResearchPrestigeFromComplexity(7),
+            requiredPrestige: 3,
+            prerequisites: ['agri_clone_selection'],
+            unlocks: [{ type: 'vine_clone', value: 'massalSelection', displayName: 'Massal Selection' }],
+            workProfile: {
+                  scopeWorkAmount: 175,
+                  complexityCurve: { kind: 'exponential', base: 1.09 },
+                  categoryModifier: 0.22,
+                  extraInitialWork: 45
+            }
+      },
       
       // ===== EFFICIENCY =====
       ...VINEYARD_SIZE_RESEARCH_PROJECTS,
@@ -1335,6 +1391,97 @@ export const RESEARCH_PROJECTS: ResearchProject[] = [
                   extraInitialWork: 84
             }
       },
+      {
+            id: 'mkt_export_licence_uk',
+            title: 'United Kingdom Export Licence',
+            description: 'Register with UK excise and appoint an importer to ship bottles across the Channel.',
+            complexity: 5,
+            benefits: [
+                  'Opens the United Kingdom wine market',
+                  `+${calculateResearchPrestigeFromComplexity(5)} Prestige points`
+            ],
+            category: 'marketing',
+            icon: '🚢',
+            prestigeReward: calculateResearchPrestigeFromComplexity(5),
+            requiredPrestige: 2,
+            prerequisites: ['mkt_research'],
+            unlocks: [{ type: 'export_market', value: 'United Kingdom', displayName: 'United Kingdom market' }],
+            workProfile: {
+                  scopeWorkAmount: 120,
+                  complexityCurve: { kind: 'exponential', base: 1.06 },
+                  categoryModifier: 0.02,
+                  extraInitialWork: 24
+            }
+      },
+      {
+            id: 'mkt_export_licence_scandinavia',
+            title: 'Scandinavian Monopoly Listing',
+            description: 'Qualify for the tenders of the Nordic state retail monopolies and their restaurant trade.',
+            complexity: 6,
+            benefits: [
+                  'Opens the Scandinavian wine market',
+                  `+${calculateResearchPrestigeFromComplexity(6)} Prestige points`
+            ],
+            category: 'marketing',
+            icon: '❄️',
+            prestigeReward: calculateResearchPrestigeFromComplexity(6),
+            requiredPrestige: 3,
+            requiredCompanyValue: 900000,
+            prerequisites: ['mkt_export_licence_uk'],
+            unlocks: [{ type: 'export_market', value: 'Scandinavia', displayName: 'Scandinavian market' }],
+            workProfile: {
+                  scopeWorkAmount: 150,
+                  complexityCurve: { kind: 'exponential', base: 1.07 },
+                  categoryModifier: 0.04,
+                  extraInitialWork: 32
+            }
+      },
+      {
+            id: 'mkt_export_licence_japan',
+            title: 'Japan Export Licence',
+            description: 'Meet Japanese labelling and food safety rules and set up refrigerated sea freight to Tokyo.',
+            complexity: 8,
+            benefits: [
+                  'Opens the Japanese wine market',
+                  `+${calculateResearchPrestigeFromComplexity(8)} Prestige points`
+            ],
+            category: 'marketing',
+            icon: '🗾',
+            prestigeReward: calculateResearchPrestigeFromComplexity(8),
+            requiredPrestige: 4,
+            requiredCompanyValue: 1800000,
+            prerequisites: ['mkt_export_licence_uk'],
+            unlocks: [{ type: 'export_market', value: 'Japan', displayName: 'Japanese market' }],
+            workProfile: {
+                  scopeWorkAmount: 210,
+                  complexityCurve: { kind: 'exponential', base: 1.09 },
+                  categoryModifier: 0.1,
+                  extraInitialWork: 52
+            }
+      },
+      {
+            id: 'mkt_export_licence_china',
+            title: 'China Import Registration',
+            description: 'Register with Chinese customs and build distributor ties for the fast-growing mainland market.',
+            complexity: 9,
+            benefits: [
+                  'Opens the Chinese wine market',
+                  `+${calculateResearchPrestigeFromComplexity(9)} Prestige points`
+            ],
+            category: 'marketing',
+            icon: '🏮',
+            prestigeReward: calculateResearchPrestigeFromComplexity(9),
+            requiredPrestige: 5,
+            requiredCompanyValue: 3000000,
+            prerequisites: ['mkt_export_licence_japan'],
+            unlocks: [{ type: 'export_market', value: 'China', displayName: 'Chinese market' }],
+            workProfile: {
+                  scopeWorkAmount: 250,
+                  complexityCurve: { kind: 'exponential', base: 1.09 },
+                  categoryModifier: 0.14,
+                  extraInitialWork: 68
+            }
+      },
       {
             id: 'eff_bulk_chain_optimization',
             title: 'Bulk Chain Optimization',
@@ -12,6 +12,7 @@ export const MARKET_UNLOCK_TYPES: ReadonlySet<UnlockType> = new Set([
   'grape_buyer_limit_multiplier',
   'grape_buyer_multiplier_bonus',
   'grape_buyer_country_access',
+  'export_market',
 ]);
 
 export const CHAINED_RESEARCH_UNLOCK_TYPES: ReadonlySet<UnlockType> = new Set([
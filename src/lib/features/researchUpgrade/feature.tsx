@@ -98,7 +98,9 @@ export const researchUpgradeFeature: ResearchUpgradeFeature = {
         grape_buyer_slots: 'grape buyer slot',
         grape_buyer_limit_multiplier: 'grape buyer seasonal limit upgrade',
         grape_buyer_multiplier_bonus: 'grape buyer multiplier upgrade',
-        grape_buyer_country_access: 'grape buyer country access'
+        grape_buyer_country_access: 'grape buyer country access',
+        vine_clone: 'vine clone',
+        export_market: 'export market'
       };
 
       return `${displayName} ${typeLabels[type] || 'item'} is locked. Complete the required research to unlock it.`;
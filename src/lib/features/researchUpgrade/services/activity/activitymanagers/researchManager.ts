@@ -254,6 +254,12 @@ export async function completeResearch(activity: Activity): Promise<void> {
                               case 'grape_buyer_country_access':
                                     unlockMessages.push(`${displayName} grape buyer market access`);
                                     break;
+                              case 'vine_clone':
+                                    unlockMessages.push(`${displayName} vines for planting`);
+                                    break;
+                              case 'export_market':
+                                    unlockMessages.push(`${displayName} for export orders`);
+                                    break;
                               default:
                                     unlockMessages.push(`${displayName}`);
                         }
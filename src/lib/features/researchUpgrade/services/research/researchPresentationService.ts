@@ -45,7 +45,7 @@ export const RESEARCH_DISPLAY_GROUPS = [
   {
     id: 'varietal_research',
     title: 'Varietal Research',
-    description: 'Grape unlocks and cultivar-specific growing expertise.',
+    description: 'Grape and clone unlocks and cultivar-specific growing expertise.',
   },
 ] as const;
 
@@ -186,6 +186,10 @@ export function getUnlockTypeLabel(type: UnlockType): string {
       return 'Buyer price bonus';
     case 'grape_buyer_country_access':
       return 'Buyer country access';
+    case 'vine_clone':
+      return 'Vine clone';
+    case 'export_market':
+      return 'Export market';
     default:
       return type;
   }
@@ -203,7 +207,7 @@ export function getResearchDisplayGroup(project: ResearchProject): ResearchDispl
     return RESEARCH_DISPLAY_GROUP_BY_ID.foundation_governance;
   }
 
-  if (unlockTypes.has('grape')) {
+  if (unlockTypes.has('grape') || unlockTypes.has('vine_clone')) {
     return RESEARCH_DISPLAY_GROUP_BY_ID.varietal_research;
   }
 
@@ -756,6 +760,13 @@ function formatResearchUnlockDetail(unlock: ResearchUnlock): ResearchRewardDetai
     };
   }
 
+  if (unlock.type === 'vine_clone') {
+    return {
+      label: 'Planting',
+      value: `Unlock ${unlock.displayName || unlock.value} vines for planting`,
+    };
+  }
+
   if (unlock.type === 'fermentation_technology') {
     return {
       label: 'Fermentation method',
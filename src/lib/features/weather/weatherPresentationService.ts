@@ -1,18 +1,27 @@
 import {
+  SEVERE_WEATHER_EVENTS,
+  SEVERE_WEATHER_INTENSITY_SCALE,
   WEATHER_FORECAST_HIT_RATE,
   WEATHER_INTENSITIES,
   WEATHER_INTENSITY_MARKET_MULTIPLIER,
   WEATHER_MARKET_PRESSURE,
+  WEATHER_MITIGATIONS,
   WEATHER_OPERATION_LIMITS,
   WEATHER_SITE_EXPOSURE_BOUNDS,
+  WEATHER_SOIL_MOISTURE,
   WEATHER_STATES,
   WEATHER_VINEYARD_MULTIPLIERS,
+  WEATHER_VINTAGE_BOUNDS,
+  WEATHER_VINTAGE_EFFECTS,
+  WEATHER_VINTAGE_SEASON_WEEKS,
 } from '@/lib/constants/weatherConstants';
-import type { Vineyard, WeatherIntensity, WeatherState } from '@/lib/types/types';
+import { IRRIGATION, WATER_STRESS } from '@/lib/constants/irrigationConstants';
+import type { SevereWeatherEvent, Vineyard, VintageWeather, WeatherIntensity, WeatherMitigation, WeatherState } from '@/lib/types/types';
 import { getWeatherMarketContext } from './weatherMarketService';
-import { getNextWeatherDate } from './weatherResolver';
-import type { VineyardMetricProjection, VineyardWeeklyProjection, WeatherOperation, WeatherOperationImpact, WeatherWeekContext } from './weatherTypes';
+import { getForecastSevereWeatherEvent, getNextWeatherDate, resolveSevereWeatherEvent } from './weatherResolver';
+import type { VineyardMetricProjection, VineyardMoistureProjection, VineyardWeeklyProjection, WeatherOperation, WeatherOperationImpact, WeatherWeekContext } from './weatherTypes';
 import { projectVineyardWeek } from './weatherVineyardService';
+import { getMitigationsForEvent, isProtectedAgainst } from '@/lib/services/vineyard/severeWeatherService';
 
 const WEATHER_ICONS: Record<WeatherState, string> = {
   Clear: '☀️', Rain: '🌧️', Heat: '🌡️', Frost: '🧊', Storm: '⛈️', Snow: '❄️',
@@ -32,6 +41,14 @@ export interface VineyardWeatherMetricPresentation {
   projected: number;
 }
 
+export interface VineyardWeatherMoisturePresentation {
+  current: number;
+  weatherChange: number;
+  irrigation: number;
+  projected: number;
+  stressed: boolean;
+}
+
 export interface VineyardWeatherRowPresentation {
   id: string;
   name: string;
@@ -41,6 +58,35 @@ export interface VineyardWeatherRowPresentation {
   explanation: string;
   ripeness: VineyardWeatherMetricPresentation;
   health: VineyardWeatherMetricPresentation;
+  moisture: VineyardWeatherMoisturePresentation;
+}
+
+export interface WeatherMitigationOptionPresentation {
+  mitigation: WeatherMitigation;
+  label: string;
+  description: string;
+  costPerHectare: number;
+  successChance: number;
+  damageReduction: number;
+}
+
+export interface SevereWeatherPresentation {
+  current: string | null;
+  warning: {
+    event: SevereWeatherEvent;
+    detail: string;
+    mitigations: WeatherMitigationOptionPresentation[];
+    vineyards: Array<{ id: string; name: string; protectedBy?: string }>;
+  } | null;
+  damage: Array<{
+    vineyardId: string;
+    vineyardName: string;
+    date: string;
+    event: string;
+    yieldLoss: number;
+    healthLoss: number;
+    mitigation?: string;
+  }>;
 }
 
 export interface WeatherCenterPresentation {
@@ -49,6 +95,7 @@ export interface WeatherCenterPresentation {
   seasonalOutlook: string;
   outlooks: Array<{ label: string; detail: string }>;
   rows: VineyardWeatherRowPresentation[];
+  severeWeather: SevereWeatherPresentation;
 }
 
 export interface VineyardWeatherTooltipPresentation {
@@ -58,6 +105,7 @@ export interface VineyardWeatherTooltipPresentation {
   siteNote: string;
   ripeness: VineyardWeatherMetricPresentation;
   health: VineyardWeatherMetricPresentation;
+  moisture: VineyardWeatherMoisturePresentation;
 }
 
 export interface WeatherOperationPresentation {
@@ -83,6 +131,16 @@ function toMetricPresentation(metric: VineyardMetricProjection): VineyardWeather
   };
 }
 
+function toMoisturePresentation(moisture: VineyardMoistureProjection): VineyardWeatherMoisturePresentation {
+  return {
+    current: moisture.current,
+    weatherChange: moisture.weatherDelta,
+    irrigation: moisture.irrigation,
+    projected: moisture.projected,
+    stressed: moisture.stress > 0,
+  };
+}
+
 function toRow(vineyard: Vineyard, projection: VineyardWeeklyProjection): VineyardWeatherRowPresentation {
   return {
     id: vineyard.id,
@@ -93,6 +151,7 @@ function toRow(vineyard: Vineyard, projection: VineyardWeeklyProjection): Vineya
     explanation: `Normal weekly vineyard progression is adjusted by the forecast. ${projection.siteNote}`,
     ripeness: toMetricPresentation(projection.ripeness),
     health: toMetricPresentation(projection.health),
+    moisture: toMoisturePresentation(projection.moisture),
   };
 }
 
@@ -124,6 +183,45 @@ function getForecastWeatherContext(weather: WeatherWeekContext): WeatherWeekCont
   };
 }
 
+function buildSevereWeather(weather: WeatherWeekContext, vineyards: Vineyard[]): SevereWeatherPresentation {
+  const currentEvent = resolveSevereWeatherEvent(weather);
+  const forecastEvent = getForecastSevereWeatherEvent(weather);
+  const forecastDate = getNextWeatherDate(weather.date);
+
+  return {
+    current: currentEvent
+      ? `${SEVERE_WEATHER_EVENTS[currentEvent].label} (${weather.intensity}) this week.`
+      : null,
+    warning: forecastEvent
+      ? {
+        event: forecastEvent,
+        detail: `The forecast warns of ${SEVERE_WEATHER_EVENTS[forecastEvent].label.toLowerCase()} (${weather.forecast.intensity}) next week. Unprotected growing vines can lose up to ${Math.round(SEVERE_WEATHER_EVENTS[forecastEvent].yieldLoss * (SEVERE_WEATHER_INTENSITY_SCALE[weather.forecast.intensity] ?? 1) * WEATHER_SITE_EXPOSURE_BOUNDS.max * 100)}% of this season's crop.`,
+        mitigations: getMitigationsForEvent(forecastEvent).map((mitigation) => ({ mitigation, ...WEATHER_MITIGATIONS[mitigation] })),
+        vineyards: vineyards
+          .filter((vineyard) => vineyard.grape && vineyard.status === 'Growing')
+          .map((vineyard) => ({
+            id: vineyard.id,
+            name: vineyard.name,
+            protectedBy: vineyard.weatherProtection && isProtectedAgainst(vineyard, forecastEvent, forecastDate)
+              ? WEATHER_MITIGATIONS[vineyard.weatherProtection.mitigation].label
+              : undefined,
+          })),
+      }
+      : null,
+    damage: vineyards.flatMap((vineyard) => (vineyard.weatherDamage?.events ?? []).map((record) => ({
+      vineyardId: vineyard.id,
+      vineyardName: vineyard.name,
+      date: `Week ${record.week}, ${record.season} ${record.year}`,
+      event: `${SEVERE_WEATHER_EVENTS[record.event].label} (${record.intensity})`,
+      yieldLoss: record.yieldLoss,
+      healthLoss: record.healthLoss,
+      mitigation: record.mitigation
+        ? `${WEATHER_MITIGATIONS[record.mitigation].label} ${record.mitigated ? 'held' : 'failed'}`
+        : undefined,
+    }))),
+  };
+}
+
 export function buildWeatherCenterPresentation(input: { companyId: string; weather: WeatherWeekContext; vineyards: Vineyard[] }): WeatherCenterPresentation {
   const rows = input.vineyards
     .filter((vineyard) => vineyard.grape)
@@ -143,6 +241,7 @@ export function buildWeatherCenterPresentation(input: { companyId: string; weath
     seasonalOutlook: `${input.weather.seasonalPattern} seasonal outlook`,
     outlooks: buildOutlooks(input.weather),
     rows,
+    severeWeather: buildSevereWeather(input.weather, input.vineyards),
   };
 }
 
@@ -156,6 +255,7 @@ export function buildVineyardWeatherTooltip(input: { companyId: string; vineyard
     siteNote: projection.siteNote,
     ripeness: toMetricPresentation(projection.ripeness),
     health: toMetricPresentation(projection.health),
+    moisture: toMoisturePresentation(projection.moisture),
   };
 }
 
@@ -182,6 +282,20 @@ export function buildWeatherOperationPresentation(
   };
 }
 
+/** Share of a vintage's weighted growing-season weather per state, largest first. */
+export function buildVintageWeatherMix(weather: VintageWeather): Array<{ state: WeatherState; icon: string; share: number }> {
+  const weights: Record<WeatherState, number> = {
+    Clear: weather.clear, Rain: weather.rain, Heat: weather.heat, Frost: weather.frost, Storm: weather.storm, Snow: weather.snow,
+  };
+  const total = WEATHER_STATES.reduce((sum, state) => sum + weights[state], 0);
+  if (total <= 0) return [];
+
+  return WEATHER_STATES
+    .map((state) => ({ state, icon: getWeatherIcon(state), share: weights[state] / total }))
+    .filter((entry) => entry.share > 0)
+    .sort((left, right) => right.share - left.share);
+}
+
 export function buildWeatherReference() {
   return {
     formula: 'final weekly change = normal seasonal change × weather multiplier; weather contribution = final weekly change − normal seasonal change.',
@@ -209,6 +323,19 @@ export function buildWeatherReference() {
       `Planting is blocked in ${WEATHER_OPERATION_LIMITS.plantingUnavailableSeasons.join(', ')}. Weather is checked each week, so completion estimates can change.`,
     ],
     forecastBehavior: `Week-ahead forecasts are labeled with their confidence. Typical hit rates are High ${WEATHER_FORECAST_HIT_RATE.High * 100}%, Medium ${WEATHER_FORECAST_HIT_RATE.Medium * 100}%, and Low ${WEATHER_FORECAST_HIT_RATE.Low * 100}%.`,
-    scope: 'Weather modifies weekly vineyard ripeness and health, grape-market volatility, and planting/harvesting work pace. It does not currently create event chains, mitigation actions, research, or direct wine-score effects.',
+    vintageRules: `Each growing-season week on unharvested vines adds its weather to the vineyard's vintage, weighted by intensity and site exposure. Effects are spread over a ${WEATHER_VINTAGE_SEASON_WEEKS}-week season: yield ×${WEATHER_VINTAGE_BOUNDS.yield.min}–×${WEATHER_VINTAGE_BOUNDS.yield.max}, quality ×${WEATHER_VINTAGE_BOUNDS.quality.min}–×${WEATHER_VINTAGE_BOUNDS.quality.max}, and harvest anchor shifts up to ±${WEATHER_VINTAGE_BOUNDS.anchorShift}. The vintage is recorded at the start of the next year.`,
+    moistureRules: `Soil moisture (0–100%) changes each week with the weather, season, and seasonal outlook; water-retentive soils hold more and higher sites lose less to evaporation. Water above ${Math.round(WEATHER_SOIL_MOISTURE.fieldCapacity * 100)}% drains away. Below ${Math.round(WATER_STRESS.threshold * 100)}% planted vines are water-stressed: ripening slows by up to ${Math.round(WATER_STRESS.ripenessSlowdown * 100)}%, health drops by up to ${WATER_STRESS.weeklyHealthLoss * 100}% a week, and the harvest gains phenolics and loses acidity. Installed irrigation tops moisture up to ${Math.round(IRRIGATION.targetMoisture * 100)}% in the growing season, where local rules allow it.`,
+    severeWeatherRules: [
+      ...(Object.keys(SEVERE_WEATHER_EVENTS) as SevereWeatherEvent[]).map((event) => {
+        const config = SEVERE_WEATHER_EVENTS[event];
+        return `${config.label}: ${config.minIntensity} or Extreme ${config.state} in ${config.seasons.join(' or ')}${config.strikeChance < 1 ? `, striking about ${Math.round(config.strikeChance * 100)}% of vineyards` : ''}. Growing vines lose ${Math.round(config.yieldLoss * 100)}% of the season's crop and ${Math.round(config.healthLoss * 100)}% health at Severe intensity, ×${SEVERE_WEATHER_INTENSITY_SCALE.Extreme} at Extreme, scaled by site exposure.`;
+      }),
+      ...(Object.keys(WEATHER_MITIGATIONS) as WeatherMitigation[]).map((mitigation) => {
+        const config = WEATHER_MITIGATIONS[mitigation];
+        return `${config.label} (against ${SEVERE_WEATHER_EVENTS[config.event].label.toLowerCase()}): €${config.costPerHectare}/ha, ${Math.round(config.successChance * 100)}% chance to avoid ${Math.round(config.damageReduction * 100)}% of the damage. Scheduled when the forecast warns of the event; it guards the vineyard for the rest of that season or until the event strikes.`;
+      }),
+    ],
+    vintageMatrix: WEATHER_STATES.map((state) => ({ state, ...WEATHER_VINTAGE_EFFECTS[state] })),
+    scope: 'Weather modifies weekly vineyard ripeness, health, and soil moisture, each vineyard\'s vintage yield and harvest anchors, grape-market volatility, and planting/harvesting work pace. Severe spring frost, hail, and heatwaves damage the season\'s crop, vine health, and pending rot; irrigation, frost candles, hail nets, and kaolin spray mitigate. Weather does not currently create research.',
   };
 }
@@ -6,10 +6,11 @@ import {
   WEATHER_INTENSITIES,
   WEATHER_INTENSITY_BY_STATE,
   WEATHER_STATE_BY_SEASON,
+  SEVERE_WEATHER_EVENTS,
   type WeightedChoice,
 } from '@/lib/constants/weatherConstants';
 import { SEASON_ORDER, WEEKS_PER_SEASON } from '@/lib/constants/timeConstants';
-import type { GameDate, GameState, Season, WeatherForecastConfidence, WeatherForecastPattern, WeatherIntensity, WeatherState } from '@/lib/types/types';
+import type { GameDate, GameState, Season, SevereWeatherEvent, WeatherForecastConfidence, WeatherForecastPattern, WeatherIntensity, WeatherState } from '@/lib/types/types';
 import type { ResolveWeatherWeekInput, WeatherWeekContext } from './weatherTypes';
 
 export function createWeatherWeekContext(gameState: Partial<GameState>): WeatherWeekContext {
@@ -143,3 +144,23 @@ export function resolveWeatherWeek(input: ResolveWeatherWeekInput): WeatherWeekC
     forecast: { ...forecast, confidence: input.forecastConfidence },
   };
 }
+
+/** The severe event a week of weather brings, if any: the right state and season at a high enough intensity. */
+export function resolveSevereWeatherEvent(weather: Pick<WeatherWeekContext, 'date' | 'state' | 'intensity'>): SevereWeatherEvent | null {
+  const intensityIndex = WEATHER_INTENSITIES.indexOf(weather.intensity);
+  const match = (Object.entries(SEVERE_WEATHER_EVENTS) as Array<[SevereWeatherEvent, typeof SEVERE_WEATHER_EVENTS[SevereWeatherEvent]]>).find(([, event]) =>
+    event.state === weather.state
+    && event.seasons.includes(weather.date.season)
+    && intensityIndex >= WEATHER_INTENSITIES.indexOf(event.minIntensity)
+  );
+  return match ? match[0] : null;
+}
+
+/** The severe event next week's forecast warns of, if any. */
+export function getForecastSevereWeatherEvent(weather: WeatherWeekContext): SevereWeatherEvent | null {
+  return resolveSevereWeatherEvent({
+    date: getNextWeatherDate(weather.date),
+    state: weather.forecast.state,
+    intensity: weather.forecast.intensity,
+  });
+}
@@ -1,10 +1,12 @@
 import type {
   GameDate,
   Season,
+  SevereWeatherEvent,
   Vineyard,
   WeatherForecastConfidence,
   WeatherForecastPattern,
   WeatherIntensity,
+  WeatherMitigation,
   WeatherState,
 } from '@/lib/types/types';
 
@@ -62,9 +64,28 @@ export interface VineyardMetricProjection {
   projected: number;
 }
 
+export interface VineyardMoistureProjection {
+  current: number;
+  weatherDelta: number;
+  irrigation: number;
+  projected: number;
+  stress: number;
+}
+
+export interface SevereWeatherDamage {
+  event: SevereWeatherEvent;
+  intensity: WeatherIntensity;
+  severity: number; // Intensity scale times site exposure, after any mitigation
+  yieldLoss: number;
+  healthLoss: number;
+  mitigation?: WeatherMitigation;
+  mitigated?: boolean;
+}
+
 export interface VineyardWeeklyProjection {
   ripeness: VineyardMetricProjection;
   health: VineyardMetricProjection;
+  moisture: VineyardMoistureProjection;
   siteExposure: number;
   siteSummary: string;
   siteNote: string;
@@ -78,3 +99,13 @@ export interface VineyardWeekProjectionInput {
   healthDecayMultiplier?: number;
   ripenessGrowthActive?: boolean;
 }
+
+export interface VintageConditions {
+  weeks: number;
+  yieldFactor: number;
+  qualityFactor: number;
+  sugarPotentialShift: number;
+  acidPotentialShift: number;
+  phenolicPotentialShift: number;
+  aromaticPotentialShift: number;
+}
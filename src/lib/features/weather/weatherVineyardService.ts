@@ -1,24 +1,49 @@
-import { clamp } from '@/lib/utils';
+import { clamp } from '@/lib/utils/utils';
 import {
+  SEVERE_WEATHER_EVENTS,
+  SEVERE_WEATHER_INTENSITY_SCALE,
   WEATHER_ASPECT_EXPOSURE,
   WEATHER_ALTITUDE_EXPOSURE,
   WEATHER_SITE_EXPOSURE_BOUNDS,
   WEATHER_SITE_NOTE_THRESHOLDS,
+  WEATHER_SOIL_MOISTURE,
+  WEATHER_SOIL_MOISTURE_BY_PATTERN,
+  WEATHER_SOIL_MOISTURE_BY_SEASON,
+  WEATHER_SOIL_MOISTURE_BY_STATE,
   WEATHER_SOIL_RESPONSE_BOUNDS,
   WEATHER_SOIL_RESPONSE_KEYWORDS,
+  WEATHER_MITIGATIONS,
   WEATHER_SUITABILITY_EXPOSURE,
   WEATHER_VINEYARD_MULTIPLIERS,
+  WEATHER_VINTAGE_BOUNDS,
+  WEATHER_VINTAGE_EFFECTS,
+  WEATHER_VINTAGE_INTENSITY_WEIGHTS,
+  WEATHER_VINTAGE_QUALITY_ANCHOR_WEIGHT,
+  WEATHER_VINTAGE_RATINGS,
+  WEATHER_VINTAGE_SEASON_WEEKS,
 } from '@/lib/constants/weatherConstants';
+import { WATER_STRESS } from '@/lib/constants/irrigationConstants';
+import type { GameDate, Vineyard, VintageRating, VintageWeather, WeatherState } from '@/lib/types/types';
+import type { WineFeature } from '@/lib/types/wineFeatures';
 import {
   calculateWeeklyBaselineHealthDelta,
   calculateWeeklyBaselineRipenessDelta,
   isRipenessGrowthActiveForWeek,
 } from '@/lib/services/vineyard/vineyardProgressionService';
 import { calculateGrapeSuitabilityContribution } from '@/lib/services/vineyard/vineyardValueCalc';
+import { getIrrigationWater, getSoilMoisture, getWaterStress } from '@/lib/services/vineyard/irrigationService';
+import { isProtectedAgainst } from '@/lib/services/vineyard/severeWeatherService';
+import { getVineDiseaseEffects } from '@/lib/services/vineyard/vineDiseaseService';
+import { getPlantingMaterialEffects } from '@/lib/services/vineyard/plantingMaterialService';
+import { resolveSevereWeatherEvent } from './weatherResolver';
 import type {
+  SevereWeatherDamage,
+  VintageConditions,
   VineyardMetricProjection,
+  VineyardMoistureProjection,
   VineyardWeekProjectionInput,
   VineyardWeeklyProjection,
+  WeatherWeekContext,
 } from './weatherTypes';
 
 const MIN_VINEYARD_HEALTH = 0.1;
@@ -104,6 +129,57 @@ function buildMetricProjection(current: number, normalDelta: number, baseMultipl
   };
 }
 
+// Water stress slows ripening, and water stress and vine disease add health loss on top of the weather-adjusted week
+function applyWaterStress(projection: VineyardMetricProjection, multiplier: number, extraDelta: number, min: number, max: number): VineyardMetricProjection {
+  if (multiplier === 1 && extraDelta === 0) return projection;
+
+  const finalDelta = projection.finalDelta * multiplier + extraDelta;
+  return {
+    ...projection,
+    weatherContribution: finalDelta - projection.normalDelta,
+    finalDelta,
+    projected: clamp(projection.current + finalDelta, min, max),
+  };
+}
+
+/**
+ * Soil moisture after this week's weather and any irrigation.
+ * Water-retentive soils gain more and lose less; higher sites lose less to evaporation.
+ */
+export function projectSoilMoisture(
+  vineyard: Vineyard,
+  weather: Pick<WeatherWeekContext, 'date' | 'state' | 'intensity' | 'seasonalPattern'>,
+): VineyardMoistureProjection {
+  const current = getSoilMoisture(vineyard);
+  const { waterRetention } = calculateSoilResponse(vineyard.soil);
+  const altitudeNormalized = clamp(
+    (vineyard.altitude - WEATHER_ALTITUDE_EXPOSURE.reference) / WEATHER_ALTITUDE_EXPOSURE.range,
+    -1,
+    1,
+  );
+  const rawDelta = WEATHER_SOIL_MOISTURE_BY_STATE[weather.state] * WEATHER_VINTAGE_INTENSITY_WEIGHTS[weather.intensity]
+    + WEATHER_SOIL_MOISTURE_BY_SEASON[weather.date.season]
+    + WEATHER_SOIL_MOISTURE_BY_PATTERN[weather.seasonalPattern];
+  const scaledDelta = rawDelta >= 0
+    ? rawDelta * waterRetention
+    : rawDelta * (2 - waterRetention) * (1 - altitudeNormalized * WEATHER_SOIL_MOISTURE.altitudeEvaporation);
+
+  let afterWeather = clamp(current + scaledDelta, 0, 1);
+  if (afterWeather > WEATHER_SOIL_MOISTURE.fieldCapacity) {
+    afterWeather -= (afterWeather - WEATHER_SOIL_MOISTURE.fieldCapacity) * WEATHER_SOIL_MOISTURE.drainage;
+  }
+  const irrigation = getIrrigationWater(vineyard, afterWeather, weather.date.season);
+  const projected = clamp(afterWeather + irrigation, 0, 1);
+
+  return {
+    current,
+    weatherDelta: afterWeather - current,
+    irrigation,
+    projected,
+    stress: getWaterStress(projected),
+  };
+}
+
 function getSiteNote(siteExposure: number): string {
   if (siteExposure > WEATHER_SITE_NOTE_THRESHOLDS.amplified) return 'Site amplifies this weather.';
   if (siteExposure < WEATHER_SITE_NOTE_THRESHOLDS.buffered) return 'Site buffers this weather.';
@@ -185,26 +261,178 @@ export function projectVineyardWeek(input: VineyardWeekProjectionInput): Vineyar
     healthDecayMultiplier,
   );
   const siteExposure = calculateSiteExposure(input);
+  const moisture = projectSoilMoisture(vineyard, weather);
+  // Only planted vines in the growing season feel water stress
+  const waterStress = vineyard.grape && weather.date.season !== 'Winter'
+    ? moisture.stress * (1 - getPlantingMaterialEffects(vineyard).droughtResistance)
+    : 0;
+  const diseaseHealthLoss = vineyard.grape ? getVineDiseaseEffects(vineyard).weeklyHealthLoss : 0;
+  const ripeness = buildMetricProjection(
+    ripenessCurrent,
+    ripenessNormalDelta,
+    WEATHER_VINEYARD_MULTIPLIERS.ripeness[weather.state][weather.intensity],
+    siteExposure,
+    0,
+    1,
+  );
+  const health = buildMetricProjection(
+    healthCurrent,
+    healthNormalDelta,
+    WEATHER_VINEYARD_MULTIPLIERS.health[weather.state][weather.intensity],
+    siteExposure,
+    MIN_VINEYARD_HEALTH,
+    MAX_VINEYARD_HEALTH,
+  );
+  const moistureDetails = [
+    ...(waterStress > 0 ? ['Dry soil is stressing the vines.'] : []),
+    ...(diseaseHealthLoss > 0 ? ['Disease is weakening the vines.'] : []),
+    ...(moisture.irrigation > 0 ? ['Irrigation is topping up the soil.'] : []),
+  ];
 
   return {
-    ripeness: buildMetricProjection(
-      ripenessCurrent,
-      ripenessNormalDelta,
-      WEATHER_VINEYARD_MULTIPLIERS.ripeness[weather.state][weather.intensity],
-      siteExposure,
+    ripeness: applyWaterStress(
+      ripeness,
+      ripeness.finalDelta > 0 ? 1 - waterStress * WATER_STRESS.ripenessSlowdown : 1,
+      0,
       0,
       1,
     ),
-    health: buildMetricProjection(
-      healthCurrent,
-      healthNormalDelta,
-      WEATHER_VINEYARD_MULTIPLIERS.health[weather.state][weather.intensity],
-      siteExposure,
-      MIN_VINEYARD_HEALTH,
-      MAX_VINEYARD_HEALTH,
-    ),
+    health: applyWaterStress(health, 1, -waterStress * WATER_STRESS.weeklyHealthLoss - diseaseHealthLoss, MIN_VINEYARD_HEALTH, MAX_VINEYARD_HEALTH),
+    moisture,
     siteExposure,
     siteSummary: getSiteSummary(input),
-    siteNote: [getSiteNote(siteExposure), ...getWeatherSiteDetails(input)].join(' '),
+    siteNote: [getSiteNote(siteExposure), ...getWeatherSiteDetails(input), ...moistureDetails].join(' '),
+  };
+}
+
+const VINTAGE_WEATHER_KEYS: Record<WeatherState, Exclude<keyof VintageWeather, 'weeks'>> = {
+  Clear: 'clear',
+  Rain: 'rain',
+  Heat: 'heat',
+  Frost: 'frost',
+  Storm: 'storm',
+  Snow: 'snow',
+};
+
+/** Add one growing-season week to a vineyard's vintage weather; the site's exposure scales how much the week counts. */
+export function accumulateVintageWeather(
+  vintageWeather: VintageWeather | undefined,
+  weather: Pick<WeatherWeekContext, 'state' | 'intensity'>,
+  siteExposure: number,
+): VintageWeather {
+  const current = vintageWeather ?? { weeks: 0, clear: 0, rain: 0, heat: 0, frost: 0, storm: 0, snow: 0 };
+  const key = VINTAGE_WEATHER_KEYS[weather.state];
+  return {
+    ...current,
+    weeks: current.weeks + 1,
+    [key]: current[key] + WEATHER_VINTAGE_INTENSITY_WEIGHTS[weather.intensity] * siteExposure,
+  };
+}
+
+/**
+ * Vintage factors from the weather accumulated so far this year.
+ * Effects are spread over a full growing season, so an early-season vintage stays close to neutral.
+ */
+export function deriveVintageConditions(vintageWeather: VintageWeather | undefined): VintageConditions {
+  const totals = { yield: 0, quality: 0, sugar: 0, acid: 0 };
+  for (const state of Object.keys(VINTAGE_WEATHER_KEYS) as WeatherState[]) {
+    const weight = vintageWeather?.[VINTAGE_WEATHER_KEYS[state]] ?? 0;
+    const effects = WEATHER_VINTAGE_EFFECTS[state];
+    totals.yield += weight * effects.yield;
+    totals.quality += weight * effects.quality;
+    totals.sugar += weight * effects.sugar;
+    totals.acid += weight * effects.acid;
+  }
+
+  const { anchorShift } = WEATHER_VINTAGE_BOUNDS;
+  const qualityFactor = clamp(1 + totals.quality / WEATHER_VINTAGE_SEASON_WEEKS, WEATHER_VINTAGE_BOUNDS.quality.min, WEATHER_VINTAGE_BOUNDS.quality.max);
+  const qualityShift = clamp((qualityFactor - 1) * WEATHER_VINTAGE_QUALITY_ANCHOR_WEIGHT, -anchorShift, anchorShift);
+  return {
+    weeks: vintageWeather?.weeks ?? 0,
+    yieldFactor: clamp(1 + totals.yield / WEATHER_VINTAGE_SEASON_WEEKS, WEATHER_VINTAGE_BOUNDS.yield.min, WEATHER_VINTAGE_BOUNDS.yield.max),
+    qualityFactor,
+    sugarPotentialShift: clamp(totals.sugar / WEATHER_VINTAGE_SEASON_WEEKS, -anchorShift, anchorShift),
+    acidPotentialShift: clamp(totals.acid / WEATHER_VINTAGE_SEASON_WEEKS, -anchorShift, anchorShift),
+    phenolicPotentialShift: qualityShift,
+    aromaticPotentialShift: qualityShift,
+  };
+}
+
+export function getVintageRating(qualityFactor: number): VintageRating {
+  return WEATHER_VINTAGE_RATINGS.find((entry) => qualityFactor >= entry.minQuality)?.rating ?? 'Poor';
+}
+
+/**
+ * Damage a severe weather week does to one vineyard, or null when there is no event or it misses the vineyard.
+ * Only growing vines are hit. Rolls are 0-1: `strike` against the event's strike chance, `mitigation` against
+ * the success chance of protection set up against this event this season.
+ */
+export function projectSevereWeatherDamage(
+  vineyard: Vineyard,
+  weather: WeatherWeekContext,
+  rolls: { strike: number; mitigation: number },
+): SevereWeatherDamage | null {
+  const event = resolveSevereWeatherEvent(weather);
+  if (!event || !vineyard.grape || vineyard.status !== 'Growing') return null;
+
+  const config = SEVERE_WEATHER_EVENTS[event];
+  if (rolls.strike >= config.strikeChance) return null;
+
+  const mitigation = isProtectedAgainst(vineyard, event, weather.date) ? vineyard.weatherProtection?.mitigation : undefined;
+  const mitigated = mitigation ? rolls.mitigation < WEATHER_MITIGATIONS[mitigation].successChance : undefined;
+  const reduction = mitigated && mitigation ? WEATHER_MITIGATIONS[mitigation].damageReduction : 0;
+
+  const exposure = calculateSiteExposure({ companyId: '', vineyard, weather });
+  const severity = (SEVERE_WEATHER_INTENSITY_SCALE[weather.intensity] ?? 1) * exposure * (1 - reduction);
+  return {
+    event,
+    intensity: weather.intensity,
+    severity,
+    yieldLoss: clamp(config.yieldLoss * severity, 0, 1),
+    healthLoss: config.healthLoss * severity,
+    mitigation,
+    mitigated,
+  };
+}
+
+function applyPendingFeatureEffects(features: WineFeature[], damage: SevereWeatherDamage): WineFeature[] {
+  const share = Math.min(1, damage.severity);
+  return features.map((feature) => {
+    const effect = SEVERE_WEATHER_EVENTS[damage.event].pendingFeatureEffects.find((entry) => entry.featureId === feature.id);
+    if (!effect) return feature;
+    return {
+      ...feature,
+      ...(effect.riskAdd !== undefined && feature.risk !== undefined && !feature.isPresent
+        ? { risk: clamp(feature.risk + effect.riskAdd * share, 0, 1) }
+        : {}),
+      ...(effect.severityMultiplier !== undefined
+        ? { severity: feature.severity * (1 - (1 - effect.severityMultiplier) * share) }
+        : {}),
+    };
+  });
+}
+
+/** Apply severe weather damage to a vineyard: health, this season's crop and pending features. Used protection is spent. */
+export function applySevereWeatherDamage(vineyard: Vineyard, damage: SevereWeatherDamage, date: GameDate): Vineyard {
+  const current = vineyard.weatherDamage ?? { yieldMultiplier: 1, events: [] };
+  return {
+    ...vineyard,
+    vineyardHealth: clamp(vineyard.vineyardHealth - damage.healthLoss, MIN_VINEYARD_HEALTH, MAX_VINEYARD_HEALTH),
+    pendingFeatures: vineyard.pendingFeatures ? applyPendingFeatureEffects(vineyard.pendingFeatures, damage) : vineyard.pendingFeatures,
+    weatherDamage: {
+      yieldMultiplier: current.yieldMultiplier * (1 - damage.yieldLoss),
+      events: [
+        ...current.events,
+        {
+          ...date,
+          event: damage.event,
+          intensity: damage.intensity,
+          yieldLoss: damage.yieldLoss,
+          healthLoss: damage.healthLoss,
+          ...(damage.mitigation ? { mitigation: damage.mitigation, mitigated: damage.mitigated } : {}),
+        },
+      ],
+    },
+    weatherProtection: damage.mitigation ? undefined : vineyard.weatherProtection,
   };
 }
@@ -2,6 +2,13 @@ import { createElement, lazy, Suspense } from 'react';
 import type { WineLogFeature } from './featureTypes';
 
 const WineLogPage = lazy(() => import('./ui/WineLogPage').then(({ WineLog }) => ({ default: WineLog })));
+const VintageReportTab = lazy(() => import('./ui/VintageReportTab'));
+
+const VintageReportWinepediaTab = () => createElement(
+  Suspense,
+  { fallback: createElement('div', { className: 'p-6 text-muted-foreground' }, 'Loading vintage reports...') },
+  createElement(VintageReportTab),
+);
 
 export const wineLogFeature: WineLogFeature = {
   records: {
@@ -24,5 +31,8 @@ export const wineLogFeature: WineLogFeature = {
       { fallback: createElement('div', { className: 'p-6 text-muted-foreground' }, 'Loading wine log...') },
       createElement(WineLogPage, { currentCompany }),
     ),
+    getWinepediaTabs: () => [
+      { id: 'vintageReports', label: 'Vintage Reports', component: VintageReportWinepediaTab },
+    ],
   },
 };
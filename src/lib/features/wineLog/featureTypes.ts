@@ -1,4 +1,4 @@
-import type { ReactElement } from 'react';
+import type { ComponentType, ReactElement } from 'react';
 import type { WineBatch, WineLogEntry } from '@/lib/types/types';
 
 export interface WineProductionSummary {
@@ -6,6 +6,12 @@ export interface WineProductionSummary {
   totalBottlesProduced: number;
 }
 
+export interface WineLogWinepediaTabRegistration {
+  id: string;
+  label: string;
+  component: ComponentType;
+}
+
 export interface WineLogFeature {
   records: {
     recordBottledWine(batch: WineBatch): Promise<void>;
@@ -14,5 +20,6 @@ export interface WineLogFeature {
   };
   ui: {
     renderPage(input: { currentCompany: import('@/lib/features/company').CompanyRecord | null }): ReactElement;
+    getWinepediaTabs(): WineLogWinepediaTabRegistration[];
   };
 }
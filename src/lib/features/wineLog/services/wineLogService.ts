@@ -1,16 +1,19 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Vineyard, WineBatch, WineLogEntry } from '@/lib/types/types';
+import type { Vineyard, VineyardVintage, WineBatch, WineLogEntry } from '@/lib/types/types';
 import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
 import { leaderboardsFeature } from '@/lib/features/leaderboards';
 import { getGameState, getCurrentCompany } from '@/lib/services/core/gameState';
 import {
   getWineProductionSummary as loadWineProductionSummary,
   insertWineLogEntry,
+  loadVineyards,
+  loadVineyardVintages,
   loadWineLog,
   loadWineLogByVineyard,
   type WineLogData,
 } from '@/lib/database';
 import { calculateWineScore, getTasteQualityIndex } from '@/lib/services/wine/winescore/wineScoreCalculation';
+import { buildVineyardVintage } from '@/lib/services/vineyard/vintageService';
 
 const getEntryTasteQualityIndex = (entry: Pick<WineLogEntry, 'tasteQualityIndex'>): number =>
   entry.tasteQualityIndex;
@@ -47,7 +50,9 @@ export async function recordBottledWine(wineBatch: WineBatch): Promise<void> {
       company_id: getCurrentCompanyId(),
       vineyard_id: wineBatch.vineyardId,
       vineyard_name: wineBatch.vineyardName,
+      parcel_name: wineBatch.parcelName ?? null,
       grape_variety: wineBatch.grape,
+      wine_style: wineBatch.wineStyle,
       vintage: wineBatch.harvestStartDate.year,
       quantity: wineBatch.quantity,
       taste_quality_index: tasteQualityIndex,
@@ -56,6 +61,10 @@ export async function recordBottledWine(wineBatch: WineBatch): Promise<void> {
       wine_score: wineScore, // Use bottled snapshot
       characteristics: wineBatch.characteristics,
       estimated_price: wineBatch.estimatedPrice,
+      bottle_format: wineBatch.bottleFormat ?? 'standard',
+      bottle_closure: wineBatch.bottleClosure ?? 'natural_cork',
+      batch_id: wineBatch.id,
+      parent_batch_id: wineBatch.parentBatchId ?? null,
       harvest_week: wineBatch.harvestStartDate.week,
       harvest_season: wineBatch.harvestStartDate.season,
       harvest_year: wineBatch.harvestStartDate.year,
@@ -118,6 +127,20 @@ export async function getWineProductionSummary(companyId?: string) {
   return loadWineProductionSummary(companyId);
 }
 
+/**
+ * Vintage reports for every vineyard and year, newest first
+ * Includes the current year's vintage so far for vineyards that are growing
+ */
+export async function getVintageReports(): Promise<VineyardVintage[]> {
+  const [recorded, vineyards] = await Promise.all([loadVineyardVintages(), loadVineyards()]);
+  const currentYear = getGameState().currentYear || 2024;
+  const inProgress = vineyards
+    .map(vineyard => buildVineyardVintage(vineyard, currentYear, true))
+    .filter((vintage): vintage is VineyardVintage => vintage !== null);
+
+  return [...inProgress, ...recorded.filter(vintage => vintage.year !== currentYear)];
+}
+
 
 /**
  * Update vineyard productivity highscore based on total production
@@ -4,6 +4,8 @@ import { SimpleCard, Badge, Button } from '@/components/ui';
 import { Wine } from 'lucide-react';
 import { formatNumber, formatGameDate, formatPercent } from '@/lib/utils/utils';
 import { UnifiedTooltip } from '@/components/ui/shadCN/tooltip';
+import { WINE_STYLE_LABELS } from '@/lib/constants/grapeConstants';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS } from '@/lib/constants/bottlingConstants';
 
 interface ProductionHistoryTabProps {
   paginatedWineLog: WineLogEntry[];
@@ -120,9 +122,11 @@ const ProductionHistoryTab: React.FC<ProductionHistoryTabProps> = ({
                         <div className="font-medium text-gray-900">
                           {entry.grape}
                         </div>
+                        <div className="text-xs text-gray-500">{WINE_STYLE_LABELS[entry.wineStyle]}</div>
                       </td>
                       <td className="py-3">
                         <div className="text-gray-600">{entry.vineyardName}</div>
+                        {entry.parcelName && <div className="text-xs text-gray-500">Parcel: {entry.parcelName}</div>}
                       </td>
                       <td className="py-3">
                         <Badge variant="outline">{entry.vintage}</Badge>
@@ -132,6 +136,8 @@ const ProductionHistoryTab: React.FC<ProductionHistoryTabProps> = ({
                       </td>
                       <td className="py-3">
                         <div className="font-medium">{entry.quantity} bottles</div>
+                        <div className="text-xs text-gray-500">{BOTTLE_FORMATS[entry.bottleFormat].label} · {BOTTLE_CLOSURES[entry.bottleClosure].label}</div>
+                        {entry.parentBatchId && <div className="text-xs text-gray-500">Part of a split lot</div>}
                       </td>
                       <td className="py-3">
                         <StructureAndQualityDisplay entry={entry} />
@@ -214,7 +220,7 @@ const ProductionHistoryTab: React.FC<ProductionHistoryTabProps> = ({
                     <div className="flex justify-between items-start mb-2">
                       <div>
                         <h3 className="text-lg font-bold text-gray-900">{entry.grape}</h3>
-                        <div className="text-sm text-gray-600 mt-1">{entry.vineyardName}</div>
+                        <div className="text-sm text-gray-600 mt-1">{WINE_STYLE_LABELS[entry.wineStyle]} · {entry.vineyardName}{entry.parcelName ? ` (${entry.parcelName})` : ''}</div>
                       </div>
                       <Badge variant="outline" className="text-sm">{entry.vintage}</Badge>
                     </div>
@@ -247,6 +253,16 @@ const ProductionHistoryTab: React.FC<ProductionHistoryTabProps> = ({
                         <span className="text-gray-600">Bottles:</span>
                         <span className="font-medium">{entry.quantity} bottles</span>
                       </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Packaging:</span>
+                        <span className="font-medium">{BOTTLE_FORMATS[entry.bottleFormat].label} · {BOTTLE_CLOSURES[entry.bottleClosure].label}</span>
+                      </div>
+                      {entry.parentBatchId && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Lot:</span>
+                          <span className="font-medium">Bottled separately from the rest of its lot</span>
+                        </div>
+                      )}
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Harvest Period:</span>
                         <span className="font-medium">{formatHarvestPeriod(entry.harvestDate)}</span>
@@ -5,6 +5,7 @@ import { Wine, TrendingUp, Award, BarChart3, MapPin, AlertTriangle } from 'lucid
 import { getColorClass, formatNumber, formatPercent, getQualityCategory } from '@/lib/utils/utils';
 import { UnifiedTooltip } from '@/components/ui/shadCN/tooltip';
 import { calculateAllVineyardAnalytics } from '../services/wineLogService';
+import { getVineyardDisplayName } from '@/lib/services/vineyard/vineyardParcelService';
 
 interface VineyardStatisticsTabProps {
   vineyards: Vineyard[];
@@ -37,7 +38,7 @@ const VineyardStatisticsTab: React.FC<VineyardStatisticsTabProps> = ({
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle className="text-lg">{vineyard.name}</CardTitle>
+                  <CardTitle className="text-lg">{getVineyardDisplayName(vineyard)}</CardTitle>
                   <CardDescription>{vineyard.region}, {vineyard.country}</CardDescription>
                 </div>
                 {analytics.totalVineyards > 1 && (
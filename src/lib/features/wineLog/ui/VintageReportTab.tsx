@@ -0,0 +1,174 @@
+import React from 'react';
+import type { VineyardVintage, VintageRating, WineLogEntry } from '@/lib/types/types';
+import { useGameStateWithData } from '@/hooks';
+import { SimpleCard, Badge } from '@/components/ui';
+import { CloudSun } from 'lucide-react';
+import { formatNumber, formatPercent } from '@/lib/utils/utils';
+import { buildVintageWeatherMix, getVintageRating } from '@/lib/features/weather';
+import { getVintageReports, getWineLogEntries } from '../services/wineLogService';
+
+/**
+ * Vintage Report
+ * Compares each vineyard's vintages across years: rating, yield and quality factors,
+ * growing-season weather and the wines bottled from that vintage
+ */
+
+const RATING_CLASSES: Record<VintageRating, string> = {
+  Exceptional: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  Good: 'bg-green-50 text-green-700 border-green-200',
+  Average: 'bg-gray-50 text-gray-700 border-gray-200',
+  Difficult: 'bg-amber-50 text-amber-800 border-amber-200',
+  Poor: 'bg-red-50 text-red-700 border-red-200'
+};
+
+const formatFactor = (value: number): string => `×${formatNumber(value, { decimals: 2, forceDecimals: true })}`;
+
+const RatingBadge: React.FC<{ vintage: VineyardVintage }> = ({ vintage }) => {
+  const rating = getVintageRating(vintage.qualityFactor);
+  return (
+    <Badge variant="outline" className={RATING_CLASSES[rating]}>
+      {rating}{vintage.inProgress ? ' (so far)' : ''}
+    </Badge>
+  );
+};
+
+const vintageKey = (vineyardId: string, year: number) => `${vineyardId}:${year}`;
+
+export const VintageReportTab: React.FC = () => {
+  const vintages = useGameStateWithData(getVintageReports, []);
+  const wineLog = useGameStateWithData(getWineLogEntries, []);
+
+  const winesByVintage = React.useMemo(() => {
+    const groups = new Map<string, WineLogEntry[]>();
+    wineLog.forEach(entry => {
+      const key = vintageKey(entry.vineyardId, entry.vintage);
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    });
+    return groups;
+  }, [wineLog]);
+
+  const comparison = React.useMemo(() => {
+    const years = Array.from(new Set(vintages.map(vintage => vintage.year))).sort((a, b) => b - a);
+    const vineyards = new Map<string, string>();
+    const byKey = new Map<string, VineyardVintage>();
+    vintages.forEach(vintage => {
+      if (!vineyards.has(vintage.vineyardId)) vineyards.set(vintage.vineyardId, vintage.vineyardName);
+      byKey.set(vintageKey(vintage.vineyardId, vintage.year), vintage);
+    });
+    return { years, vineyards: Array.from(vineyards.entries()), byKey };
+  }, [vintages]);
+
+  if (vintages.length === 0) {
+    return (
+      <SimpleCard title="Vintage Reports" description="How each year's weather shaped your vineyards">
+        <div className="text-center py-8 text-gray-500">
+          <CloudSun className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No vintages yet.</p>
+          <p className="text-sm mt-1">Planted vineyards start a vintage when their vines grow in Spring.</p>
+        </div>
+      </SimpleCard>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <SimpleCard
+        title="Vintage Comparison"
+        description="Rating with quality / yield factors for each vineyard and year. Quality shifts harvest anchors; yield scales the harvest."
+      >
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b">
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 pr-3">Vineyard</th>
+                {comparison.years.map(year => <th key={year} className="pb-2 pr-3">{year}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {comparison.vineyards.map(([vineyardId, vineyardName]) => (
+                <tr key={vineyardId}>
+                  <td className="py-2 pr-3 font-medium text-gray-900">{vineyardName}</td>
+                  {comparison.years.map(year => {
+                    const vintage = comparison.byKey.get(vintageKey(vineyardId, year));
+                    return (
+                      <td key={year} className="py-2 pr-3">
+                        {vintage ? (
+                          <div className="space-y-1">
+                            <RatingBadge vintage={vintage} />
+                            <div className="text-xs text-gray-500 font-mono">
+                              Q {formatFactor(vintage.qualityFactor)} · Y {formatFactor(vintage.yieldFactor)}
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-400">—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </SimpleCard>
+
+      <SimpleCard title="Vintage Reports" description={`${vintages.length} vintage${vintages.length !== 1 ? 's' : ''} across ${comparison.vineyards.length} vineyard${comparison.vineyards.length !== 1 ? 's' : ''}`}>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b">
+              <tr className="text-left text-gray-500">
+                <th className="pb-3">Vintage</th>
+                <th className="pb-3">Vineyard</th>
+                <th className="pb-3">Rating</th>
+                <th className="pb-3">Quality</th>
+                <th className="pb-3">Yield</th>
+                <th className="pb-3">Growing Season Weather</th>
+                <th className="pb-3">Wines Bottled</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {vintages.map(vintage => {
+                const wines = winesByVintage.get(vintageKey(vintage.vineyardId, vintage.year)) ?? [];
+                const averageScore = wines.length > 0
+                  ? wines.reduce((sum, entry) => sum + (entry.wineScore ?? (entry.tasteQualityIndex + entry.structureIndex) / 2), 0) / wines.length
+                  : null;
+                return (
+                  <tr key={vintage.id} className="hover:bg-gray-50">
+                    <td className="py-3"><Badge variant="outline">{vintage.year}</Badge></td>
+                    <td className="py-3">
+                      <div className="font-medium text-gray-900">{vintage.vineyardName}</div>
+                      <div className="text-xs text-gray-500">{vintage.grape ?? 'Unplanted'} · {vintage.region}, {vintage.country}</div>
+                    </td>
+                    <td className="py-3"><RatingBadge vintage={vintage} /></td>
+                    <td className="py-3 font-mono">{formatFactor(vintage.qualityFactor)}</td>
+                    <td className="py-3 font-mono">{formatFactor(vintage.yieldFactor)}</td>
+                    <td className="py-3">
+                      <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+                        {buildVintageWeatherMix(vintage.weather).slice(0, 3).map(entry => (
+                          <span key={entry.state}>{entry.icon} {entry.state} {formatPercent(entry.share, 0, true)}</span>
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-400">{vintage.weather.weeks} growing weeks</div>
+                    </td>
+                    <td className="py-3 text-xs text-gray-600">
+                      {wines.length > 0 ? (
+                        <>
+                          <div>{wines.reduce((sum, entry) => sum + entry.quantity, 0)} bottles</div>
+                          <div>Avg score {formatPercent(averageScore ?? 0, 0, true)}</div>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">None yet</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </SimpleCard>
+    </div>
+  );
+};
+
+export default VintageReportTab;
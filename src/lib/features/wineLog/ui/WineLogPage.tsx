@@ -2,13 +2,15 @@ import React, { useState, useCallback } from 'react';
 import { useGameStateWithData } from '@/hooks';
 import { getAllVineyards, getAllWineBatches } from '@/lib/services';
 import { getWineLogEntries } from '../services/wineLogService';
-import type { WineLogEntry, WineBatch } from '@/lib/types/types';
+import type { WineLogEntry, WineBatch, WineStyle } from '@/lib/types/types';
+import { WINE_STYLE_LABELS } from '@/lib/constants/grapeConstants';
 import { Tabs, TabsContent, TabsList, TabsTrigger, Card, CardContent, CardHeader, CardTitle, CardDescription, WineModal } from '@/components/ui';
 import { Wine, Award, BarChart3 } from 'lucide-react';
 import { getQualityCategory, getColorClass, formatNumber } from '@/lib/utils/utils';
 import { CompanyProps } from '@/lib/types/UItypes';
 import ProductionHistoryTab from './ProductionHistoryTab';
 import VineyardStatisticsTab from './VineyardStatisticsTab';
+import VintageReportTab from './VintageReportTab';
 
 const PAGE_SIZE = 20;
 
@@ -17,6 +19,7 @@ const batchLookupKey = (batch: Pick<WineBatch, 'vineyardId' | 'grape' | 'harvest
 
 export function WineLog({ currentCompany }: CompanyProps) {
   const [selectedVineyard, setSelectedVineyard] = useState<string>('all');
+  const [selectedStyle, setSelectedStyle] = useState<WineStyle | 'all'>('all');
   const [page, setPage] = useState<number>(1);
   
   // Wine modal state
@@ -33,10 +36,11 @@ export function WineLog({ currentCompany }: CompanyProps) {
   );
 
   const filteredWineLog = React.useMemo(() => 
-    selectedVineyard === 'all' 
-      ? wineLog 
-      : wineLog.filter(entry => entry.vineyardId === selectedVineyard),
-    [wineLog, selectedVineyard]
+    wineLog.filter(entry =>
+      (selectedVineyard === 'all' || entry.vineyardId === selectedVineyard) &&
+      (selectedStyle === 'all' || entry.wineStyle === selectedStyle)
+    ),
+    [wineLog, selectedVineyard, selectedStyle]
   );
 
   const paginatedWineLog = React.useMemo(() => {
@@ -46,7 +50,7 @@ export function WineLog({ currentCompany }: CompanyProps) {
 
   React.useEffect(() => {
     setPage(1);
-  }, [selectedVineyard]);
+  }, [selectedVineyard, selectedStyle]);
 
   const totalPages = Math.max(1, Math.ceil(filteredWineLog.length / PAGE_SIZE));
 
@@ -62,8 +66,9 @@ export function WineLog({ currentCompany }: CompanyProps) {
   
   // Find corresponding wine batch for a log entry (if still exists)
   const findCorrespondingBatch = useCallback((entry: WineLogEntry): WineBatch | undefined => {
-    return currentBatchByWine.get(`${entry.vineyardId}:${entry.grape}:${entry.vintage}`);
-  }, [currentBatchByWine]);
+    return (entry.batchId ? allBatches.find(batch => batch.id === entry.batchId) : undefined)
+      ?? currentBatchByWine.get(`${entry.vineyardId}:${entry.grape}:${entry.vintage}`);
+  }, [allBatches, currentBatchByWine]);
   
   // Handle opening wine modal
   const handleWineDetailsClick = useCallback((entry: WineLogEntry) => {
@@ -190,9 +195,10 @@ export function WineLog({ currentCompany }: CompanyProps) {
       </div>
 
       <Tabs defaultValue="history" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="history">Production History</TabsTrigger>
           <TabsTrigger value="vineyard-stats">Vineyard Statistics</TabsTrigger>
+          <TabsTrigger value="vintages">Vintage Reports</TabsTrigger>
         </TabsList>
 
         <TabsContent value="history" className="space-y-4">
@@ -227,6 +233,21 @@ export function WineLog({ currentCompany }: CompanyProps) {
                   );
                 })}
               </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                {(['all', ...Object.keys(WINE_STYLE_LABELS)] as Array<WineStyle | 'all'>).map(style => (
+                  <button
+                    key={style}
+                    onClick={() => setSelectedStyle(style)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      selectedStyle === style
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {style === 'all' ? 'All Styles' : WINE_STYLE_LABELS[style]} ({style === 'all' ? wineLog.length : wineLog.filter(entry => entry.wineStyle === style).length})
+                  </button>
+                ))}
+              </div>
             </CardContent>
           </Card>
 
@@ -252,6 +273,10 @@ export function WineLog({ currentCompany }: CompanyProps) {
             allBatches={allBatches}
           />
         </TabsContent>
+
+        <TabsContent value="vintages" className="space-y-4">
+          <VintageReportTab />
+        </TabsContent>
       </Tabs>
       
       {/* Wine Modal */}
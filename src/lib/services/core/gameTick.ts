@@ -1,5 +1,5 @@
 import { getGameState, updateGameState, getCurrentCompany } from '@/lib/services';
-import { generateSophisticatedWineOrders, notificationService, processEconomyPhaseTransition, calculateCompanyValue, updateVineyardRipeness, updateVineyardAges, updateVineyardVineYields, updateVineyardHealthDegradation, processWeeklyFeatureRisks, processWeeklyFermentation, processWeeklyBuyMarketLifecycle, refreshBuyMarketForSeason, generateForwardContracts, expireAndDefaultForwardContracts } from '@/lib/services';
+import { generateSophisticatedWineOrders, updateBottleMarket, processCellarDoorSales, openExportMarkets, processExportShipments, notificationService, processEconomyPhaseTransition, calculateCompanyValue, updateVineyardRipeness, recordVineyardVintages, updateVineyardAges, updateVineyardVineYields, updateVineyardHealthDegradation, updateVineyardWaterState, billVineyardIrrigation, processSevereWeather, settleCropInsurance, processWeeklyFeatureRisks, processWeeklyFermentation, processWeeklyMaturation, processWeeklyTirage, processWeeklyBuyMarketLifecycle, refreshBuyMarketForSeason, generateForwardContracts, expireAndDefaultForwardContracts } from '@/lib/services';
 import { staffFeature } from '@/lib/features/staff';
 import { prestigeFeature } from '@/lib/features/prestige';
 import { activitiesFeature } from '@/lib/features/activities';
@@ -77,6 +77,9 @@ const executeGameTick = async (): Promise<void> => {
     season = SEASON_ORDER[nextSeasonIndex];
     newSeason = season; // Store the new season for combined notification
 
+    // Settle last season's crop insurance before a new year clears the vineyards' weather damage
+    await settleCropInsurance(previousSeason, previousYear);
+
     // If we're back to Spring, increment year
     if (season === 'Spring') {
       currentYear += 1;
@@ -121,10 +124,14 @@ const executeGameTick = async (): Promise<void> => {
   // Weather affects vineyard conditions before staff progress activities such as harvesting.
   await updateVineyardRipeness(season, week, weatherContext);
   await updateVineyardHealthDegradation(season, week, weatherContext);
+  await updateVineyardWaterState(season, week, weatherContext);
 
   // Progress all activities based on assigned staff work contribution
   await activitiesFeature.ticks.progress();
 
+  // Severe weather strikes after the week's work, so mitigation finished this week already protects the vines
+  await processSevereWeather(weatherContext);
+
   // Process weekly effects (wage payment will be handled here, but we'll suppress it if season changed)
   const wageMessage = await processWeeklyEffects(!!newSeason);
 
@@ -161,6 +168,9 @@ const executeGameTick = async (): Promise<void> => {
 const onSeasonChange = async (_previousSeason: string, _newSeason: string, skipNotification: boolean = false): Promise<string | null> => {
   // Season change notification is handled in the main processGameTick function
 
+  // Pay for the weeks irrigation ran last season
+  await billVineyardIrrigation();
+
   // Process economy phase transition
   return await processEconomyPhaseTransition(skipNotification);
 
@@ -172,6 +182,9 @@ const onSeasonChange = async (_previousSeason: string, _newSeason: string, skipN
  */
 const onNewYear = async (_previousYear: number, _newYear: number): Promise<void> => {
   // New year notification is handled in the main processGameTick function
+  // Record last year's vintages before the vineyards start a new one
+  await recordVineyardVintages(_previousYear);
+
   // Update vineyard ages
   await updateVineyardAges();
 
@@ -219,6 +232,25 @@ const processWeeklyEffects = async (suppressWageNotification: boolean = false):
       }
     })(),
 
+    // Move bottle market demand, supply and saturation on by one week
+    (async () => {
+      try {
+        await updateBottleMarket();
+      } catch (error) {
+        console.warn('Error during bottle market update:', error);
+      }
+    })(),
+
+    // Open licensed export markets and settle export shipments that have arrived
+    (async () => {
+      try {
+        await openExportMarkets();
+        await processExportShipments();
+      } catch (error) {
+        console.warn('Error during export processing:', error);
+      }
+    })(),
+
     // Generate new wine contracts from eligible customers
     (async () => {
       try {
@@ -358,6 +390,28 @@ const processWeeklyEffects = async (suppressWageNotification: boolean = false):
   // OPTIMIZATION: Wait for all tasks to complete in parallel
   await Promise.all(weeklyTasks);
 
+  // Maturing batches also accrue feature risks every week; run maturation after the
+  // parallel writers so neither full-row batch upsert overwrites the other.
+  try {
+    await processWeeklyMaturation();
+  } catch (error) {
+    console.warn('Error during weekly maturation processing:', error);
+  }
+
+  // Sparkling wine en tirage is rewritten every week as well
+  try {
+    await processWeeklyTirage();
+  } catch (error) {
+    console.warn('Error during weekly tirage processing:', error);
+  }
+
+  // Sell bottles to visitors at the tasting room; the stock decrement rewrites bottled batches
+  try {
+    await processCellarDoorSales();
+  } catch (error) {
+    console.warn('Error during cellar door sales:', error);
+  }
+
   // SAFETY NET: Apply feature effects to ensure all batches are consistent
   // Note: processWeeklyFeatureRisks now applies effects atomically when features change
   // This acts as a safety net for edge cases (e.g., batches created outside normal flow)
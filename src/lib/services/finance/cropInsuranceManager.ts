@@ -0,0 +1,136 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CropInsurancePolicy, NotificationCategory, Season, Vineyard } from '@/lib/types/types';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import { loadCropInsurancePolicies, upsertCropInsurancePolicies } from '../../database/core/cropInsuranceDB';
+import { loadVineyards } from '../../database/activities/vineyardDB';
+import { notificationService } from '../core/notificationService';
+import { getGameState } from '../core/gameState';
+import { calculateVineyardExpectedYield } from '../vineyard/vineyardService';
+import { addTransaction } from './financeService';
+import { triggerGameUpdate } from '../../../hooks/useGameUpdates';
+import { formatNumber } from '../../utils/utils';
+import { calculateCropInsuranceClaim, quoteCropInsurance, validateCropInsurancePurchase } from './cropInsuranceService';
+
+/**
+ * Expected yield the policy measures shortfall against: at full ripeness and without this season's canopy work,
+ * so neither harvest timing nor the player's own green harvesting counts as an insured loss
+ */
+export function getInsuredYieldKg(vineyard: Vineyard): number {
+  return calculateVineyardExpectedYield({ ...vineyard, ripeness: 1, canopyWork: undefined })?.totalYield ?? 0;
+}
+
+export async function getCropInsurancePolicies(): Promise<CropInsurancePolicy[]> {
+  return await loadCropInsurancePolicies();
+}
+
+/**
+ * Insure a vineyard's crop for the current season and pay the premium
+ */
+export async function buyCropInsurance(vineyardId: string): Promise<boolean> {
+  try {
+    const vineyard = (await loadVineyards()).find(v => v.id === vineyardId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const { season = 'Spring', week = 1, currentYear = 2024, money = 0, weatherForecastPattern = 'Stable' } = getGameState();
+    const validation = validateCropInsurancePurchase(vineyard, season, currentYear, await loadCropInsurancePolicies());
+    if (!validation.valid) {
+      await notificationService.addMessage(
+        validation.reason ?? 'This vineyard cannot be insured.',
+        'cropInsuranceManager.buyCropInsurance',
+        'Crop Insurance',
+        NotificationCategory.FINANCE_AND_STAFF
+      );
+      return false;
+    }
+
+    const quote = quoteCropInsurance(vineyard, weatherForecastPattern);
+    if (money < quote.premium) {
+      await notificationService.addMessage(
+        `Insufficient funds. You have ${formatNumber(money, { currency: true, decimals: 0 })} but the premium is ${formatNumber(quote.premium, { currency: true, decimals: 0 })}.`,
+        'cropInsuranceManager.buyCropInsurance',
+        'Insufficient Funds',
+        NotificationCategory.FINANCE_AND_STAFF
+      );
+      return false;
+    }
+
+    await upsertCropInsurancePolicies([{
+      id: uuidv4(),
+      vineyardId: vineyard.id,
+      vineyardName: vineyard.name,
+      season,
+      year: currentYear,
+      purchasedWeek: week,
+      insuredValue: quote.insuredValue,
+      insuredYieldKg: getInsuredYieldKg(vineyard),
+      premium: quote.premium,
+      deductible: quote.deductible,
+      status: 'active',
+      payout: 0
+    }]);
+    await addTransaction(-quote.premium, `Crop insurance premium for ${vineyard.name} (${season} ${currentYear})`, TRANSACTION_CATEGORIES.INSURANCE_PREMIUM);
+    triggerGameUpdate();
+
+    await notificationService.addMessage(
+      `${vineyard.name} is insured for ${season} ${currentYear}: up to ${formatNumber(quote.insuredValue, { currency: true, decimals: 0 })} for a premium of ${formatNumber(quote.premium, { currency: true, decimals: 0 })}.`,
+      'cropInsuranceManager.buyCropInsurance',
+      'Crop Insurance',
+      NotificationCategory.FINANCE_AND_STAFF
+    );
+    return true;
+  } catch (error) {
+    console.error('Error buying crop insurance:', error);
+    await notificationService.addMessage(
+      `Failed to buy crop insurance: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'cropInsuranceManager.buyCropInsurance',
+      'Crop Insurance Failed',
+      NotificationCategory.FINANCE_AND_STAFF
+    );
+    return false;
+  }
+}
+
+/**
+ * Settle the policies of a season that has just ended: pay claims and close every policy.
+ * Runs at each season change, before a new year clears the vineyards' weather damage.
+ */
+export async function settleCropInsurance(season: Season, year: number): Promise<void> {
+  try {
+    const policies = (await loadCropInsurancePolicies()).filter(policy =>
+      policy.status === 'active' && policy.season === season && policy.year === year
+    );
+    if (policies.length === 0) return;
+
+    const vineyards = await loadVineyards();
+    const settled: CropInsurancePolicy[] = [];
+    for (const policy of policies) {
+      const vineyard = vineyards.find(v => v.id === policy.vineyardId);
+      const claim = calculateCropInsuranceClaim(policy, vineyard, vineyard ? getInsuredYieldKg(vineyard) : 0);
+      if (claim.payout > 0) {
+        await addTransaction(claim.payout, `Crop insurance claim for ${policy.vineyardName} (${season} ${year})`, TRANSACTION_CATEGORIES.INSURANCE_CLAIM);
+      }
+      settled.push({
+        ...policy,
+        status: claim.payout > 0 ? 'claimed' : 'expired',
+        payout: claim.payout,
+        claimBasis: claim.claimBasis,
+        lossShare: claim.lossShare
+      });
+    }
+    await upsertCropInsurancePolicies(settled);
+
+    const claims = settled.filter(policy => policy.payout > 0);
+    await notificationService.addMessage(
+      claims.length > 0
+        ? `Crop insurance paid ${formatNumber(claims.reduce((sum, policy) => sum + policy.payout, 0), { currency: true, decimals: 0 })} for ${season} losses on ${claims.map(policy => policy.vineyardName).join(', ')}.`
+        : `Crop insurance for ${season} ${year} expired without a claim.`,
+      'cropInsuranceManager.settleCropInsurance',
+      'Crop Insurance',
+      NotificationCategory.FINANCE_AND_STAFF
+    );
+  } catch (error) {
+    console.error('Error settling crop insurance:', error);
+  }
+}
@@ -0,0 +1,90 @@
+import type { CropInsuranceClaimBasis, CropInsurancePolicy, Season, Vineyard, WeatherForecastPattern } from '@/lib/types/types';
+import { CROP_INSURANCE, CROP_INSURANCE_PATTERN_RISK, CROP_INSURANCE_REGIONAL_RISK } from '@/lib/constants/insuranceConstants';
+import { REGION_HEAT_PROFILE } from '@/lib/constants/vineyardConstants';
+
+/**
+ * Crop Insurance Service
+ * Premium quotes, purchase rules and claim calculation for seasonal crop insurance
+ */
+
+export interface CropInsuranceQuote {
+  insuredValue: number;
+  premium: number;
+  deductible: number;
+  regionalRisk: number;
+  patternRisk: number;
+}
+
+export interface CropInsuranceClaim {
+  lossShare: number;
+  claimBasis?: CropInsuranceClaimBasis;
+  payout: number;
+}
+
+/**
+ * Regional climate risk: regions far from temperate heat face more frost or heat damage
+ */
+export function getRegionalInsuranceRisk(country: string, region: string): number {
+  const heat = (REGION_HEAT_PROFILE as Record<string, Record<string, number>>)[country]?.[region];
+  if (heat === undefined) return CROP_INSURANCE_REGIONAL_RISK.default;
+  return 1 + Math.abs(heat - CROP_INSURANCE_REGIONAL_RISK.temperateHeat) * CROP_INSURANCE_REGIONAL_RISK.weight;
+}
+
+export function quoteCropInsurance(vineyard: Vineyard, pattern: WeatherForecastPattern): CropInsuranceQuote {
+  const insuredValue = Math.round(vineyard.vineyardTotalValue * CROP_INSURANCE.cropValueShare);
+  const regionalRisk = getRegionalInsuranceRisk(vineyard.country, vineyard.region);
+  const patternRisk = CROP_INSURANCE_PATTERN_RISK[pattern] ?? 1;
+  return {
+    insuredValue,
+    premium: Math.round(insuredValue * CROP_INSURANCE.basePremiumRate * regionalRisk * patternRisk),
+    deductible: CROP_INSURANCE.deductible,
+    regionalRisk,
+    patternRisk
+  };
+}
+
+/**
+ * Check whether a vineyard can be insured for a season
+ */
+export function validateCropInsurancePurchase(
+  vineyard: Vineyard,
+  season: Season,
+  year: number,
+  policies: CropInsurancePolicy[]
+): { valid: boolean; reason?: string } {
+  if (!vineyard.grape || vineyard.status !== 'Growing') {
+    return { valid: false, reason: 'Only vineyards with growing vines can be insured.' };
+  }
+  if (!CROP_INSURANCE.insurableSeasons.includes(season)) {
+    return { valid: false, reason: `There is no crop to insure in ${season}.` };
+  }
+  if (policies.some(policy => policy.vineyardId === vineyard.id && policy.season === season && policy.year === year)) {
+    return { valid: false, reason: `${vineyard.name} is already insured for ${season} ${year}.` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Claim for a policy at the end of its season. The loss is whichever is larger: the crop lost to weather
+ * damage recorded after purchase, or the shortfall of the current expected yield against the yield insured.
+ */
+export function calculateCropInsuranceClaim(policy: CropInsurancePolicy, vineyard: Vineyard | undefined, currentYieldKg: number): CropInsuranceClaim {
+  // A sold or cleared vineyard has no crop left to claim for
+  if (!vineyard?.grape) return { lossShare: 0, payout: 0 };
+
+  const coveredEvents = (vineyard.weatherDamage?.events ?? []).filter(event =>
+    event.year === policy.year && event.season === policy.season && event.week > policy.purchasedWeek
+  );
+  const weatherLoss = 1 - coveredEvents.reduce((left, event) => left * (1 - event.yieldLoss), 1);
+  const yieldShortfall = policy.insuredYieldKg > 0 ? Math.max(0, 1 - currentYieldKg / policy.insuredYieldKg) : 0;
+
+  const lossShare = Math.min(1, Math.max(weatherLoss, yieldShortfall));
+  const payout = Math.round(policy.insuredValue * Math.max(0, lossShare - policy.deductible));
+  if (payout <= 0) return { lossShare, payout: 0 };
+
+  return {
+    lossShare,
+    claimBasis: weatherLoss >= yieldShortfall ? 'weatherDamage' : 'yieldShortfall',
+    payout
+  };
+}
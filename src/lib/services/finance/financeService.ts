@@ -321,6 +321,8 @@ export const calculateFinancialData = async (
   
   const wineValue = wineBatches.reduce((sum, batch) => {
     const stageMultiplier = batch.state === 'bottled' ? 1 :
+                            batch.state === 'tirage' || batch.state === 'riddled' ? 0.8 :
+                            batch.state === 'maturing' ? 0.7 :
                             batch.state === 'must_ready' || batch.state === 'must_fermenting' ? 0.5 : 0.3;
 
     // Estimated price already includes wine score and land-value effects; don't multiply quality again.
@@ -550,6 +552,8 @@ export async function calculateFinancialDataRollingNWeeks(
   
   const wineValue = wineBatches.reduce((sum, batch) => {
     const stageMultiplier = batch.state === 'bottled' ? 1 :
+                            batch.state === 'tirage' || batch.state === 'riddled' ? 0.8 :
+                            batch.state === 'maturing' ? 0.7 :
                             batch.state === 'must_ready' || batch.state === 'must_fermenting' ? 0.5 : 0.3;
 
     // Estimated price already includes wine score and land-value effects; don't multiply quality again.
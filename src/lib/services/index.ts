@@ -6,13 +6,30 @@ export * from './core/gameTick';
 // Finance services
 export * from './finance/economyService';
 export * from './finance/financeService';
+export * from './finance/cropInsuranceManager';
+export * from './finance/cropInsuranceService';
 
 
 // Vineyard services
 export * from './vineyard/vineyardService';
 export * from './vineyard/vineyardManager';
 export * from './vineyard/clearingManager';
+export * from './vineyard/canopyManager';
+export * from './vineyard/irrigationManager';
+export * from './vineyard/severeWeatherManager';
+export * from './vineyard/vineDiseaseManager';
+export * from './vineyard/vineyardParcelManager';
+export * from './vineyard/vineyardHistoryManager';
 export * from './vineyard/vineyardValueCalc';
+export * from './vineyard/farmingService';
+export * from './vineyard/canopyService';
+export * from './vineyard/irrigationService';
+export * from './vineyard/severeWeatherService';
+export * from './vineyard/vineDiseaseService';
+export * from './vineyard/vintageService';
+export * from './vineyard/vineyardHistoryService';
+export * from './vineyard/vineyardParcelService';
+export * from './vineyard/plantingMaterialService';
 
 // Land search services
 export * from './vineyard/landSearchService';
@@ -20,8 +37,14 @@ export * from './vineyard/landSearchService';
 // Wine services
 export * from './wine/winery/inventoryService';
 export * from './wine/winery/fermentationManager';
+export * from './wine/winery/maturationManager';
+export * from './wine/winery/sparklingManager';
+export * from './wine/winery/sweetWineManager';
 export * from './wine/winery/wineryService';
 export * from './wine/winery/crushingManager';
+export * from './wine/winery/blendingManager';
+export * from './wine/winery/cellarOperationManager';
+export * from './wine/winery/batchSplitManager';
 export * from './wine/winescore/landValueModifierCalculation';
 export * from './wine/winescore/wineScoreCalculation';
 export * from './wine/features/featureService';
@@ -36,6 +59,15 @@ export * from './sales/salesOrderService';
 export * from './sales/createCustomer';
 export * from './sales/generateCustomer';
 export * from './sales/generateOrder';
+export * from './sales/customerPreferenceService';
+export * from './sales/bottleMarketService';
+export * from './sales/bottleMarketManager';
+export * from './sales/cellarDoorService';
+export * from './sales/cellarDoorManager';
+export * from './sales/exportService';
+export * from './sales/exportManager';
+export * from './sales/negotiationService';
+export * from './sales/negotiationManager';
 export * from './sales/grapeBuyerLoyaltyService';
 export * from './sales/grapeSupplierLoyaltyService';
 export * from './market/buyGoods/buyGoodsPricing';
@@ -59,4 +91,5 @@ export * from './market/storageVessels/storageVesselNamingService';
 export * from './wine/winery/storageVesselService';
 export * from './wine/winery/storageVesselAllocationService';
 export * from './wine/winery/storageVesselMaintenanceService';
+export * from './wine/winery/storageVesselImprintService';
 
@@ -398,6 +398,7 @@ export async function purchaseStorageVesselOffer(offerId: string, quantity: numb
     qualityScore: payload.qualityScore,
     condition: 1,
     fillHistory: 0,
+    imprintFills: [],
     productionYear: payload.productionYear,
     capacityLitres: payload.capacityLitres,
     acquisitionPrice: offer.effectivePricePerUnit,
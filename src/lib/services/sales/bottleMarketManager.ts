@@ -0,0 +1,80 @@
+import { BottleMarketSegment, CustomerCountry, WineBatch } from '@/lib/types/types';
+import { createWeatherWeekContext, getWeatherMarketContext } from '@/lib/features/weather';
+import { loadBottleMarketSegments, upsertBottleMarketSegments } from '../../database/sales/bottleMarketDB';
+import { getGameState } from '../core/gameState';
+import { triggerTopicUpdate } from '../../../hooks/useGameUpdates';
+import {
+  advanceBottleMarketSegment,
+  applyBottleMarketSale,
+  BottleMarketWeekContext,
+  completeBottleMarket,
+  getBottleMarketStyle
+} from './bottleMarketService';
+
+// Weekly updates and sales both read, change and save segments; run them one at a time
+let bottleMarketWriteTail: Promise<void> = Promise.resolve();
+
+function queueBottleMarketWrite(write: () => Promise<void>): Promise<void> {
+  const run = bottleMarketWriteTail.then(write);
+  bottleMarketWriteTail = run.catch(() => undefined);
+  return run;
+}
+
+function getBottleMarketWeekContext(): BottleMarketWeekContext {
+  const gameState = getGameState();
+  return {
+    week: gameState.week || 1,
+    season: gameState.season || 'Spring',
+    year: gameState.currentYear || 2024,
+    economyPhase: gameState.economyPhase || 'Stable',
+    weatherPriceMultiplier: getWeatherMarketContext(createWeatherWeekContext(gameState)).priceMultiplier
+  };
+}
+
+/**
+ * Every bottle market segment; segments the company has not stored yet start at their targets
+ */
+export async function getBottleMarket(): Promise<BottleMarketSegment[]> {
+  return completeBottleMarket(await loadBottleMarketSegments(), getBottleMarketWeekContext());
+}
+
+/**
+ * Move every segment on by one week. Called from the weekly game tick.
+ */
+export async function updateBottleMarket(): Promise<void> {
+  try {
+    await queueBottleMarketWrite(async () => {
+      const context = getBottleMarketWeekContext();
+      const segments = completeBottleMarket(await loadBottleMarketSegments(), context)
+        .map(segment => advanceBottleMarketSegment(segment, context));
+      await upsertBottleMarketSegments(segments);
+    });
+    triggerTopicUpdate('bottle_market');
+  } catch (error) {
+    console.error('Error updating bottle market:', error);
+  }
+}
+
+/**
+ * Saturate the market the bottles were sold into (customer country and wine style)
+ */
+export async function recordBottleMarketSale(
+  country: CustomerCountry,
+  wineBatch: Pick<WineBatch, 'wineStyle' | 'sparkling' | 'estimatedPrice'>,
+  bottles: number,
+  pricePerBottle: number
+): Promise<void> {
+  if (bottles <= 0) return;
+
+  try {
+    await queueBottleMarketWrite(async () => {
+      const style = getBottleMarketStyle(wineBatch);
+      const segment = (await getBottleMarket()).find(s => s.country === country && s.style === style);
+      if (!segment) return;
+      await upsertBottleMarketSegments([applyBottleMarketSale(segment, bottles, pricePerBottle, wineBatch.estimatedPrice)]);
+    });
+    triggerTopicUpdate('bottle_market');
+  } catch (error) {
+    console.error('Error recording bottle market sale:', error);
+  }
+}
@@ -0,0 +1,142 @@
+// Bottle market service - weekly demand and supply per country and wine style, and what they do to orders
+import {
+  BottleMarketConditions,
+  BottleMarketSegment,
+  BottleMarketStyle,
+  CustomerCountry,
+  EconomyPhase,
+  Season,
+  WineBatch
+} from '../../types/types';
+import {
+  BOTTLE_MARKET_COUNTRIES,
+  BOTTLE_MARKET_DYNAMICS,
+  BOTTLE_MARKET_ECONOMY_DEMAND,
+  BOTTLE_MARKET_ECONOMY_SENSITIVITY,
+  BOTTLE_MARKET_IMPACT,
+  BOTTLE_MARKET_REGIONAL_SUPPLY,
+  BOTTLE_MARKET_SEASONALITY,
+  BOTTLE_MARKET_STYLES,
+  BOTTLE_MARKET_WEEKLY_CAPACITY
+} from '../../constants/bottleMarketConstants';
+import { clamp, clamp01 } from '../../utils/utils';
+
+export interface BottleMarketWeekContext {
+  week: number;
+  season: Season;
+  year: number;
+  economyPhase: EconomyPhase;
+  weatherPriceMultiplier: number; // From the weather market context; above 1 when harvest weather is poor
+}
+
+const clampIndex = (value: number) => clamp(value, BOTTLE_MARKET_DYNAMICS.indexRange[0], BOTTLE_MARKET_DYNAMICS.indexRange[1]);
+
+export function getBottleMarketStyle(wineBatch: Pick<WineBatch, 'wineStyle' | 'sparkling'>): BottleMarketStyle {
+  return wineBatch.sparkling ? 'sparkling' : wineBatch.wineStyle;
+}
+
+/**
+ * Demand the segment drifts toward: the economy phase (more strongly for sparkling) and the season
+ */
+export function getBottleMarketDemandTarget(style: BottleMarketStyle, season: Season, economyPhase: EconomyPhase): number {
+  const economy = 1 + (BOTTLE_MARKET_ECONOMY_DEMAND[economyPhase] - 1) * BOTTLE_MARKET_ECONOMY_SENSITIVITY[style];
+  return clampIndex(economy * BOTTLE_MARKET_SEASONALITY[style][season]);
+}
+
+/**
+ * Supply the segment drifts toward: the country's own production, tightened by poor harvest weather
+ */
+export function getBottleMarketSupplyTarget(country: CustomerCountry, style: BottleMarketStyle, weatherPriceMultiplier: number): number {
+  const weather = 1 + (weatherPriceMultiplier - 1) * BOTTLE_MARKET_DYNAMICS.weatherSupplyWeight;
+  return clampIndex(BOTTLE_MARKET_REGIONAL_SUPPLY[country][style] / weather);
+}
+
+export function getBottleMarketPriceIndex(segment: Pick<BottleMarketSegment, 'demand' | 'supply' | 'saturation'>): number {
+  const balance = Math.pow(segment.demand / segment.supply, BOTTLE_MARKET_IMPACT.priceElasticity);
+  const saturation = 1 - clamp01(segment.saturation) * BOTTLE_MARKET_IMPACT.saturationPriceImpact;
+  return clamp(balance * saturation, BOTTLE_MARKET_IMPACT.priceRange[0], BOTTLE_MARKET_IMPACT.priceRange[1]);
+}
+
+export function createBottleMarketSegment(country: CustomerCountry, style: BottleMarketStyle, context: BottleMarketWeekContext): BottleMarketSegment {
+  return {
+    country,
+    style,
+    demand: getBottleMarketDemandTarget(style, context.season, context.economyPhase),
+    supply: getBottleMarketSupplyTarget(country, style, context.weatherPriceMultiplier),
+    saturation: 0,
+    history: []
+  };
+}
+
+/**
+ * Every country and style, keeping the segments given and creating the missing ones at their targets
+ */
+export function completeBottleMarket(segments: BottleMarketSegment[], context: BottleMarketWeekContext): BottleMarketSegment[] {
+  return BOTTLE_MARKET_COUNTRIES.flatMap(country => BOTTLE_MARKET_STYLES.map(style =>
+    segments.find(segment => segment.country === country && segment.style === style)
+      ?? createBottleMarketSegment(country, style, context)
+  ));
+}
+
+/**
+ * Move a segment on by one week. Demand and supply close part of the gap to their targets
+ * with some noise, saturation clears, and the week is added to the history.
+ * `random` returns 0-1; pass `() => 0.5` for no noise.
+ */
+export function advanceBottleMarketSegment(
+  segment: BottleMarketSegment,
+  context: BottleMarketWeekContext,
+  random: () => number = Math.random
+): BottleMarketSegment {
+  const noise = () => (random() - 0.5) * 2 * BOTTLE_MARKET_DYNAMICS.weeklyNoise;
+  const demandTarget = getBottleMarketDemandTarget(segment.style, context.season, context.economyPhase);
+  const supplyTarget = getBottleMarketSupplyTarget(segment.country, segment.style, context.weatherPriceMultiplier);
+
+  const demand = clampIndex(segment.demand + (demandTarget - segment.demand) * BOTTLE_MARKET_DYNAMICS.demandReversion + noise());
+  const supply = clampIndex(segment.supply + (supplyTarget - segment.supply) * BOTTLE_MARKET_DYNAMICS.supplyReversion + noise());
+  const saturation = clamp01(segment.saturation * (1 - BOTTLE_MARKET_DYNAMICS.saturationRecovery));
+  const next = { ...segment, demand, supply, saturation };
+
+  const history = [
+    ...segment.history,
+    { week: context.week, season: context.season, year: context.year, demand, supply, saturation, priceIndex: getBottleMarketPriceIndex(next) }
+  ].slice(-BOTTLE_MARKET_DYNAMICS.historyWeeks);
+
+  return { ...next, history };
+}
+
+/**
+ * Saturate a segment with bottles the player sold into it. Bottles sold below the wine's
+ * value count extra, so dumping a batch cheaply depresses the market more than selling it at its price.
+ */
+export function applyBottleMarketSale(segment: BottleMarketSegment, bottles: number, pricePerBottle: number, wineValue: number): BottleMarketSegment {
+  if (bottles <= 0) return segment;
+  const discount = wineValue > 0 ? clamp01(1 - pricePerBottle / wineValue) : 0;
+  const weightedBottles = bottles * (1 + discount * BOTTLE_MARKET_DYNAMICS.dumpingWeight);
+  const marketSize = BOTTLE_MARKET_WEEKLY_CAPACITY[segment.country][segment.style] * segment.demand * BOTTLE_MARKET_DYNAMICS.absorptionWeeks;
+  return { ...segment, saturation: clamp01(segment.saturation + weightedBottles / marketSize) };
+}
+
+export function getBottleMarketConditions(segment: BottleMarketSegment): BottleMarketConditions {
+  const quantity = segment.demand * (1 - clamp01(segment.saturation) * BOTTLE_MARKET_IMPACT.saturationQuantityImpact);
+  return {
+    country: segment.country,
+    style: segment.style,
+    demand: segment.demand,
+    supply: segment.supply,
+    saturation: segment.saturation,
+    priceFactor: getBottleMarketPriceIndex(segment),
+    quantityFactor: clamp(quantity, BOTTLE_MARKET_IMPACT.quantityRange[0], BOTTLE_MARKET_IMPACT.quantityRange[1])
+  };
+}
+
+/**
+ * How much more or less often customers come looking: average unsaturated demand
+ * across every country for the styles the player has in stock
+ */
+export function getBottleMarketFrequencyMultiplier(segments: BottleMarketSegment[], styles: BottleMarketStyle[]): number {
+  const relevant = segments.filter(segment => styles.includes(segment.style));
+  if (relevant.length === 0) return 1;
+  const average = relevant.reduce((sum, segment) => sum + getBottleMarketConditions(segment).quantityFactor, 0) / relevant.length;
+  return clamp(average, BOTTLE_MARKET_IMPACT.frequencyRange[0], BOTTLE_MARKET_IMPACT.frequencyRange[1]);
+}
@@ -0,0 +1,211 @@
+import { Activity, CustomerCountry, NotificationCategory, TastingRoom, WorkCategory } from '@/lib/types/types';
+import { activitiesFeature } from '@/lib/features/activities';
+import { staffFeature } from '@/lib/features/staff';
+import { CELLAR_DOOR, TASTING_ROOM_ACTIVITY_TYPE } from '@/lib/constants/cellarDoorConstants';
+import { BOTTLE_MARKET_COUNTRIES } from '@/lib/constants/bottleMarketConstants';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import { loadVineyards } from '../../database/activities/vineyardDB';
+import { bulkUpdateWineBatches, loadWineBatches } from '../../database/activities/inventoryDB';
+import { loadTastingRoom, saveTastingRoom } from '../../database/sales/tastingRoomDB';
+import { getCurrentPrestige, getGameState } from '../core/gameState';
+import { notificationService } from '../core/notificationService';
+import { addTransaction } from '../finance/financeService';
+import { triggerGameUpdate, triggerTopicUpdate } from '../../../hooks/useGameUpdates';
+import { formatNumber } from '../../utils/utils';
+import { recordBottleMarketSale } from './bottleMarketManager';
+import { simulateCellarDoorWeek, validateTastingRoomBuild } from './cellarDoorService';
+
+export async function getTastingRoom(): Promise<TastingRoom | null> {
+  return await loadTastingRoom();
+}
+
+async function isTastingRoomBuildInProgress(): Promise<boolean> {
+  const activities = await activitiesFeature.reads.getAll();
+  return activities.some(activity =>
+    activity.status !== 'cancelled'
+    && activity.category === WorkCategory.BUILDING
+    && activity.params.type === TASTING_ROOM_ACTIVITY_TYPE
+  );
+}
+
+/**
+ * Create a building activity that builds the winery's tasting room at one of its vineyards
+ */
+export async function createTastingRoomBuildActivity(vineyardId: string): Promise<boolean> {
+  try {
+    const vineyard = (await loadVineyards()).find(v => v.id === vineyardId);
+    const validation = validateTastingRoomBuild(vineyard, await loadTastingRoom(), await isTastingRoomBuildInProgress());
+    if (!validation.valid || !vineyard) {
+      await notificationService.addMessage(
+        validation.reason ?? 'The tasting room cannot be built here.',
+        'cellarDoorManager.createTastingRoomBuildActivity',
+        'Tasting Room',
+        NotificationCategory.SALES_ORDERS
+      );
+      return false;
+    }
+
+    const { totalWork } = activitiesFeature.work.calculateTastingRoom(vineyard);
+    const cost = CELLAR_DOOR.buildCost;
+
+    const result = await activitiesFeature.lifecycle.createWithResult({
+      category: WorkCategory.BUILDING,
+      title: `Build Tasting Room: ${vineyard.name}`,
+      totalWork,
+      activityDetails: `Tasting room at ${vineyard.name}, ${vineyard.region} (€${formatNumber(cost)} on completion)`,
+      targetId: vineyardId,
+      params: {
+        type: TASTING_ROOM_ACTIVITY_TYPE,
+        cost,
+        targetName: vineyard.name,
+      },
+      isCancellable: true,
+    });
+
+    if (!result.activityId) {
+      throw new Error(result.reason ?? 'The activity could not be created');
+    }
+    return true;
+  } catch (error) {
+    console.error('Error creating tasting room activity:', error);
+    await notificationService.addMessage(
+      `Failed to start building the tasting room: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'cellarDoorManager.createTastingRoomBuildActivity',
+      'Tasting Room Failed',
+      NotificationCategory.SALES_ORDERS
+    );
+    return false;
+  }
+}
+
+/**
+ * Complete the tasting room: pay for it and open it, unstaffed, at the vineyard
+ */
+export async function completeTastingRoomBuild(activity: Activity): Promise<void> {
+  try {
+    if (!activity.targetId) {
+      throw new Error('Tasting room activity has no target vineyard');
+    }
+
+    const vineyard = (await loadVineyards()).find(v => v.id === activity.targetId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const cost = Number(activity.params.cost) || CELLAR_DOOR.buildCost;
+    await addTransaction(-cost, `Tasting room at ${vineyard.name}`, TRANSACTION_CATEGORIES.BUILDING_CONSTRUCTION);
+
+    const gameState = getGameState();
+    await saveTastingRoom({
+      vineyardId: vineyard.id,
+      vineyardName: vineyard.name,
+      country: vineyard.country,
+      region: vineyard.region,
+      builtAt: { week: gameState.week || 1, season: gameState.season || 'Spring', year: gameState.currentYear || 2024 },
+      staffIds: []
+    });
+    triggerTopicUpdate('cellar_door');
+    triggerGameUpdate();
+
+    await notificationService.addMessage(
+      `The tasting room at ${vineyard.name} is built. Assign sales staff on the Cellar Door tab to open it to visitors.`,
+      'cellarDoorManager.completeTastingRoomBuild',
+      'Tasting Room Built',
+      NotificationCategory.SALES_ORDERS
+    );
+  } catch (error) {
+    console.error('Error completing tasting room:', error);
+    await notificationService.addMessage(
+      `Failed to complete the tasting room: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'cellarDoorManager.completeTastingRoomBuild',
+      'Tasting Room Failed',
+      NotificationCategory.SALES_ORDERS
+    );
+  }
+}
+
+/**
+ * Choose the staff serving at the tasting room
+ */
+export async function setTastingRoomStaff(staffIds: string[]): Promise<boolean> {
+  try {
+    const room = await loadTastingRoom();
+    if (!room) {
+      throw new Error('The winery has no tasting room');
+    }
+    if (staffIds.length > CELLAR_DOOR.maxStaff) {
+      throw new Error(`At most ${CELLAR_DOOR.maxStaff} staff can serve at the tasting room`);
+    }
+
+    await saveTastingRoom({ ...room, staffIds: [...new Set(staffIds)] });
+    triggerTopicUpdate('cellar_door');
+    return true;
+  } catch (error) {
+    console.error('Error setting tasting room staff:', error);
+    return false;
+  }
+}
+
+/**
+ * Sell a week of bottles at the cellar door at retail price. Called from the weekly game tick.
+ */
+export async function processCellarDoorSales(): Promise<void> {
+  try {
+    const room = await loadTastingRoom();
+    if (!room) return;
+
+    const gameState = getGameState();
+    const staffById = new Map((await staffFeature.records.getAll()).map(member => [member.id, member]));
+    const staff = room.staffIds.flatMap(id => staffById.get(id) ?? []);
+    const wineBatches = await loadWineBatches();
+
+    const week = simulateCellarDoorWeek(room, staff, wineBatches, {
+      season: gameState.season || 'Spring',
+      weatherState: gameState.weatherState,
+      weatherIntensity: gameState.weatherIntensity,
+      prestige: await getCurrentPrestige()
+    });
+
+    if (week.sales.length > 0) {
+      const batchById = new Map(wineBatches.map(batch => [batch.id, batch]));
+      await bulkUpdateWineBatches(week.sales.map(sale => ({
+        id: sale.batchId,
+        updates: { quantity: (batchById.get(sale.batchId)?.quantity ?? sale.bottles) - sale.bottles }
+      })));
+      await addTransaction(
+        week.revenue,
+        `Cellar Door: ${week.bottlesSold} bottles to ${week.served} visitors at ${room.vineyardName}`,
+        TRANSACTION_CATEGORIES.CELLAR_DOOR_SALES,
+        false
+      );
+
+      // Visitors buy in the tasting room's home market
+      if (BOTTLE_MARKET_COUNTRIES.includes(room.country as CustomerCountry)) {
+        for (const sale of week.sales) {
+          const batch = batchById.get(sale.batchId);
+          if (batch) {
+            await recordBottleMarketSale(room.country as CustomerCountry, batch, sale.bottles, sale.pricePerBottle);
+          }
+        }
+      }
+    }
+
+    await saveTastingRoom({
+      ...room,
+      staffIds: staff.map(member => member.id), // Drop staff who have left the company
+      lastWeek: {
+        date: { week: gameState.week || 1, season: gameState.season || 'Spring', year: gameState.currentYear || 2024 },
+        visitors: week.visitors,
+        served: week.served,
+        bottlesSold: week.bottlesSold,
+        revenue: week.revenue
+      }
+    });
+    triggerTopicUpdate('cellar_door');
+    if (week.sales.length > 0) {
+      triggerGameUpdate();
+    }
+  } catch (error) {
+    console.error('Error processing cellar door sales:', error);
+  }
+}
@@ -0,0 +1,161 @@
+// Cellar door service - tasting room visitors, staff capacity and the bottles they buy each week
+import {
+  Season,
+  Staff,
+  TastingRoom,
+  Vineyard,
+  WeatherIntensity,
+  WeatherState,
+  WineBatch
+} from '../../types/types';
+import {
+  CELLAR_DOOR,
+  CELLAR_DOOR_SEASON_VISITORS,
+  CELLAR_DOOR_WEATHER_INTENSITY,
+  CELLAR_DOOR_WEATHER_VISITORS,
+  REGION_TOURISM
+} from '../../constants/cellarDoorConstants';
+import { NormalizeScrewed1000To01WithTail } from '../../utils/calculator';
+
+export interface CellarDoorWeekContext {
+  season: Season;
+  weatherState?: WeatherState;
+  weatherIntensity?: WeatherIntensity;
+  prestige: number;
+}
+
+export interface CellarDoorSale {
+  batchId: string;
+  bottles: number;
+  pricePerBottle: number;
+  revenue: number;
+}
+
+export interface CellarDoorWeek {
+  visitors: number;
+  served: number;
+  sales: CellarDoorSale[];
+  bottlesSold: number;
+  revenue: number;
+}
+
+export function getRegionTourism(region: string): number {
+  return REGION_TOURISM[region] ?? 1;
+}
+
+/**
+ * Retail price per bottle at the cellar door: the wine's asking price with the retail markup
+ */
+export function getCellarDoorRetailPrice(wineBatch: Pick<WineBatch, 'askingPrice' | 'estimatedPrice'>): number {
+  const price = wineBatch.askingPrice ?? wineBatch.estimatedPrice;
+  return Math.round(price * CELLAR_DOOR.retailMarkup * 100) / 100;
+}
+
+/**
+ * Weather moves visitor numbers away from 1.0; the stronger the weather, the further
+ */
+export function getCellarDoorWeatherFactor(weatherState?: WeatherState, weatherIntensity?: WeatherIntensity): number {
+  if (!weatherState) return 1;
+  const intensity = weatherIntensity ? CELLAR_DOOR_WEATHER_INTENSITY[weatherIntensity] : 1;
+  return Math.max(0, 1 + (CELLAR_DOOR_WEATHER_VISITORS[weatherState] - 1) * intensity);
+}
+
+export function getCellarDoorPrestigeFactor(prestige: number): number {
+  return 1 + (CELLAR_DOOR.maxPrestigeVisitorMultiplier - 1) * NormalizeScrewed1000To01WithTail(prestige);
+}
+
+/**
+ * Visitors coming to the tasting room this week, from regional tourism, season, weather and prestige
+ */
+export function calculateCellarDoorVisitors(room: Pick<TastingRoom, 'region'>, context: CellarDoorWeekContext): number {
+  return Math.round(
+    CELLAR_DOOR.baseWeeklyVisitors
+      * getRegionTourism(room.region)
+      * CELLAR_DOOR_SEASON_VISITORS[context.season]
+      * getCellarDoorWeatherFactor(context.weatherState, context.weatherIntensity)
+      * getCellarDoorPrestigeFactor(context.prestige)
+  );
+}
+
+/**
+ * Visitors the tasting room staff can serve in a week; better salespeople serve more.
+ * Without staff the tasting room stays closed.
+ */
+export function calculateCellarDoorCapacity(staff: Pick<Staff, 'skills'>[]): number {
+  return Math.round(
+    staff
+      .slice(0, CELLAR_DOOR.maxStaff)
+      .reduce((sum, member) => sum + CELLAR_DOOR.visitorsPerStaff * (member.skills.sales / 0.5), 0)
+  );
+}
+
+/**
+ * Bottles a served visitor buys of one wine in the lineup; dearer wines sell fewer bottles
+ */
+export function getCellarDoorPriceAppeal(retailPrice: number): number {
+  if (retailPrice <= 0) return 0;
+  return Math.min(1.5, Math.pow(CELLAR_DOOR.referencePrice / retailPrice, CELLAR_DOOR.priceElasticity));
+}
+
+/**
+ * Split the served visitors' purchases over the bottled wines in stock. Visitors taste the whole
+ * lineup, so each wine gets an equal share of the visitors, scaled by its price appeal and capped by stock.
+ */
+export function allocateCellarDoorSales(served: number, wineBatches: WineBatch[]): CellarDoorSale[] {
+  const lineup = wineBatches.filter(batch => batch.state === 'bottled' && batch.quantity > 0);
+  if (served <= 0 || lineup.length === 0) return [];
+
+  const visitorsPerWine = served / lineup.length;
+  return lineup
+    .map(batch => {
+      const pricePerBottle = getCellarDoorRetailPrice(batch);
+      const wanted = Math.floor(visitorsPerWine * CELLAR_DOOR.bottlesPerVisitor * getCellarDoorPriceAppeal(pricePerBottle));
+      const bottles = Math.min(batch.quantity, wanted);
+      return {
+        batchId: batch.id,
+        bottles,
+        pricePerBottle,
+        revenue: Math.round(bottles * pricePerBottle * 100) / 100
+      };
+    })
+    .filter(sale => sale.bottles > 0);
+}
+
+/**
+ * One week at the cellar door: who came, who the staff could serve and what they bought
+ */
+export function simulateCellarDoorWeek(
+  room: Pick<TastingRoom, 'region'>,
+  staff: Pick<Staff, 'skills'>[],
+  wineBatches: WineBatch[],
+  context: CellarDoorWeekContext
+): CellarDoorWeek {
+  const visitors = calculateCellarDoorVisitors(room, context);
+  const served = Math.min(visitors, calculateCellarDoorCapacity(staff));
+  const sales = allocateCellarDoorSales(served, wineBatches);
+
+  return {
+    visitors,
+    served,
+    sales,
+    bottlesSold: sales.reduce((sum, sale) => sum + sale.bottles, 0),
+    revenue: Math.round(sales.reduce((sum, sale) => sum + sale.revenue, 0) * 100) / 100
+  };
+}
+
+export function validateTastingRoomBuild(
+  vineyard: Vineyard | undefined,
+  existingRoom: TastingRoom | null,
+  buildInProgress: boolean
+): { valid: boolean; reason?: string } {
+  if (existingRoom) {
+    return { valid: false, reason: `The winery already has a tasting room at ${existingRoom.vineyardName}.` };
+  }
+  if (buildInProgress) {
+    return { valid: false, reason: 'A tasting room is already being built.' };
+  }
+  if (!vineyard) {
+    return { valid: false, reason: 'Vineyard not found.' };
+  }
+  return { valid: true };
+}
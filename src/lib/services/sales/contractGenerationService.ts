@@ -1,5 +1,5 @@
 // Contract generation service - creates requirement-based contracts from customers
-import { WineContract, ContractRequirement, ContractRequirementType, Customer, CustomerType, GameDate } from '../../types/types';
+import { WineContract, ContractRequirement, ContractRequirementType, Customer, CustomerType, FarmingCertification, GameDate, SweetnessStyle, WineStyle } from '../../types/types';
 import { getAllCustomers } from './createCustomer';
 import { saveWineContract, getPendingContracts } from '../../database/sales/contractDB';
 import { getGameState, getCurrentPrestige } from '../core/gameState';
@@ -7,6 +7,7 @@ import { getCurrentCompanyId } from '../../utils/companyUtils';
 import { calculateAsymmetricalScaler01, NormalizeScrewed1000To01WithTail } from '../../utils/calculator';
 import { getRandomFromArray, randomInt } from '../../utils/utils';
 import { calculateExpiration } from './expirationService';
+import { isExportMarketCountry } from './exportService';
 import { v4 as uuidv4 } from 'uuid';
 import {
   CONTRACT_CONFIG,
@@ -16,6 +17,9 @@ import {
   CONTRACT_MIN_QUANTITIES,
   AVAILABLE_GRAPES,
   AVAILABLE_GRAPE_COLORS,
+  AVAILABLE_WINE_STYLES,
+  AVAILABLE_SWEETNESS_STYLES,
+  AVAILABLE_FARMING_CERTIFICATIONS,
   AVAILABLE_SITE_COUNTRIES,
   AVAILABLE_SITE_REGIONS,
   CONTRACT_PRICING,
@@ -170,6 +174,34 @@ function calculateRequirementDifficulty(requirement: ContractRequirement): {
       score = 0.2;
       break;
 
+    case 'wineStyle':
+      // Wine style requirement is easy, though rosé needs a dedicated crushing choice
+      difficulty = 'easy';
+      score = 0.25;
+      break;
+
+    case 'sweetnessStyle':
+      // Dry is the default outcome; sweet and fortified styles need fermentation stopped early
+      if (requirement.params?.targetSweetnessStyle === 'dry') {
+        difficulty = 'easy';
+        score = 0.15;
+      } else {
+        difficulty = 'medium';
+        score = 0.45;
+      }
+      break;
+
+    case 'certification':
+      // Certification takes years of conversion; biodynamic also gives up the most yield
+      if (requirement.params?.targetCertification === 'biodynamic') {
+        difficulty = 'hard';
+        score = 0.6;
+      } else {
+        difficulty = 'medium';
+        score = 0.45;
+      }
+      break;
+
     case 'country':
       // Country requirements are broad site parameters.
       difficulty = 'easy';
@@ -339,6 +371,14 @@ function calculateCustomerContractChance(
   };
 }
 
+/**
+ * Customers who can hold contracts. Export customers buy through shipped orders only:
+ * contract deliveries settle at once, without shipping, import duty or transit.
+ */
+async function getContractCustomers(): Promise<Customer[]> {
+  return (await getAllCustomers()).filter(customer => !isExportMarketCountry(customer.country));
+}
+
 /**
  * Get all eligible customers with their contract chances
  */
@@ -347,7 +387,7 @@ async function getEligibleCustomersWithChances(prestige: number): Promise<Array<
   chance: number;
 }>> {
   const unlockedContractCustomerTypes = await getUnlockedContractCustomerTypes();
-  const allCustomers = await getAllCustomers();
+  const allCustomers = await getContractCustomers();
   const eligible: Array<{ customer: Customer; chance: number }> = [];
   
   for (const customer of allCustomers) {
@@ -391,7 +431,7 @@ export async function generateContracts(): Promise<{
   try {
     // Check if we're at max pending contracts
     const pendingContracts = await getPendingContracts();
-    const allCustomers = await getAllCustomers();
+    const allCustomers = await getContractCustomers();
     const prestige = await getCurrentPrestige();
     
     // Removed debug logging
@@ -551,7 +591,7 @@ export async function getContractGenerationChance(): Promise<{
 }> {
   try {
     const pendingContracts = await getPendingContracts();
-    const allCustomers = await getAllCustomers();
+    const allCustomers = await getContractCustomers();
     const prestige = await getCurrentPrestige();
     const unlockedContractCustomerTypes = await getUnlockedContractCustomerTypes();
     
@@ -821,6 +861,12 @@ function generateRequirementWithDifficulty(
       return generateGrapeRequirement(customer);
     case 'grapeColor':
       return generateGrapeColorRequirement(customer);
+    case 'wineStyle':
+      return generateWineStyleRequirement(customer);
+    case 'sweetnessStyle':
+      return generateSweetnessStyleRequirement(customer);
+    case 'certification':
+      return generateCertificationRequirement(customer);
     case 'country':
       return generateCountryRequirement(customer);
     case 'region':
@@ -992,6 +1038,51 @@ function generateGrapeColorRequirement(_customer: Customer): ContractRequirement
   };
 }
 
+/**
+ * Generate wine style requirement (red, white or rosé)
+ */
+function generateWineStyleRequirement(_customer: Customer): ContractRequirement {
+  const targetWineStyle = getRandomFromArray(AVAILABLE_WINE_STYLES) as WineStyle;
+
+  return {
+    type: 'wineStyle',
+    value: 1, // Binary: must match
+    params: {
+      targetWineStyle
+    }
+  };
+}
+
+/**
+ * Generate sweetness style requirement (dry, off-dry, sweet or fortified)
+ */
+function generateSweetnessStyleRequirement(_customer: Customer): ContractRequirement {
+  const targetSweetnessStyle = getRandomFromArray(AVAILABLE_SWEETNESS_STYLES) as SweetnessStyle;
+
+  return {
+    type: 'sweetnessStyle',
+    value: 1, // Binary: must match
+    params: {
+      targetSweetnessStyle
+    }
+  };
+}
+
+/**
+ * Generate organic or biodynamic certification requirement
+ */
+function generateCertificationRequirement(_customer: Customer): ContractRequirement {
+  const targetCertification = getRandomFromArray(AVAILABLE_FARMING_CERTIFICATIONS) as FarmingCertification;
+
+  return {
+    type: 'certification',
+    value: 1, // Binary: must be certified at least this far
+    params: {
+      targetCertification
+    }
+  };
+}
+
 /**
  * Generate country site-parameter requirement.
  */
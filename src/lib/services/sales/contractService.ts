@@ -16,10 +16,13 @@ import {
   saveInventoryBatch
 } from '../wine/winery/inventoryService';
 import { getTasteQualityIndex } from '../wine/winescore/wineScoreCalculation';
+import { getSweetnessStyle } from '../wine/characteristics/sweetWineCharacteristics';
+import { meetsFarmingCertification } from '../vineyard/farmingService';
 import { formatNumber } from '../../utils/utils';
 import { getAllFeatureConfigs } from '../wine/features/constants/commonFeaturesUtil';
 import { TRANSACTION_CATEGORIES } from '../../constants/financeConstants';
 import { CONTRACT_PRESTIGE_CONFIG } from '../../constants/contractConstants';
+import { recordBottleMarketSale } from './bottleMarketManager';
 
 function isWinePresaleContract(contract: WineContract): boolean {
   return contract.contractMode === 'wine_presale';
@@ -190,6 +193,36 @@ async function validateRequirement(wine: WineBatch, requirement: ContractRequire
       }
       return { isValid: true, reason: '' };
 
+    case 'wineStyle':
+      if (requirement.params?.targetWineStyle && wine.wineStyle !== requirement.params.targetWineStyle) {
+        return {
+          isValid: false,
+          reason: `Style ${wine.wineStyle} != required ${requirement.params.targetWineStyle}`
+        };
+      }
+      return { isValid: true, reason: '' };
+
+    case 'sweetnessStyle': {
+      const sweetnessStyle = getSweetnessStyle(wine);
+      if (requirement.params?.targetSweetnessStyle && sweetnessStyle !== requirement.params.targetSweetnessStyle) {
+        return {
+          isValid: false,
+          reason: `Sweetness ${sweetnessStyle} != required ${requirement.params.targetSweetnessStyle}`
+        };
+      }
+      return { isValid: true, reason: '' };
+    }
+
+    case 'certification':
+      // Certification is taken from the grapes at harvest, not the vineyard's current state
+      if (requirement.params?.targetCertification && !meetsFarmingCertification(wine.farmingCertification, requirement.params.targetCertification)) {
+        return {
+          isValid: false,
+          reason: `Certification ${wine.farmingCertification ?? 'none'} != required ${requirement.params.targetCertification}`
+        };
+      }
+      return { isValid: true, reason: '' };
+
     case 'country':
       if (!wine.vineyardId) {
         return { isValid: false, reason: 'Wine has no vineyard data' };
@@ -447,6 +480,11 @@ export async function fulfillContract(
         : TRANSACTION_CATEGORIES.WINE_SALES,
       false
     );
+
+    // Contract volume saturates the customer's market like any other sale
+    for (const fulfilled of fulfilledWines) {
+      await recordBottleMarketSale(contract.customerCountry, fulfilled.wineBatch, fulfilled.quantity, contract.offeredPrice);
+    }
     
     // Create relationship boost
     const currentPrestige = await getCurrentPrestige();
@@ -6,6 +6,8 @@ import { NAMES } from '../../constants/namesConstants';
 import { calculateSkewedMultiplier, NormalizeScrewed1000To01WithTail } from '../../utils/calculator';
 import { saveCustomers, loadCustomers, updateCustomerRelationships, checkCustomersExist, loadActiveCustomers } from '../../database/customers/customerDB';
 import { calculateRelationshipBreakdown } from './relationshipService';
+import { generateCustomerMarketPreference } from './customerPreferenceService';
+import { isExportMarketCountry } from './exportService';
 import { getRandomFromArray, loadFormattedRelationshipBreakdown } from '../../utils/utils';
 
 // ===== CUSTOMER RELATIONSHIP MANAGEMENT =====
@@ -133,7 +135,8 @@ function createCustomerWithSpecificData(
     priceMultiplier: finalPriceMultiplier,
     relationship: calculateCustomerRelationship(marketShare, companyPrestige),
     activeCustomer: false, // Default to inactive until first order
-    difficultyPreference: customerTypeConfig.difficultyPreference
+    difficultyPreference: customerTypeConfig.difficultyPreference,
+    marketPreference: generateCustomerMarketPreference(country, customerType)
   };
 }
 
@@ -159,84 +162,90 @@ function selectRandomCustomerType(country: CustomerCountry): CustomerType {
 }
 
 /**
- * Generate customers for all countries based on the old iteration logic
- * Now uses the consolidated customer creation logic to avoid duplication
+ * Generate the customers of one country, adding customers until their market shares reach 100%
  */
-export function generateCustomersForAllCountries(companyPrestige: number = 1): Customer[] {
-  const allCustomers: Customer[] = [];
+export function generateCustomersForCountry(country: CustomerCountry, companyPrestige: number = 1): Customer[] {
+  const customers: Customer[] = [];
+  
+  // Generate customer types dynamically as we create customers
+  const customerTypes: CustomerType[] = [];
   
-  const countries = Object.keys(CUSTOMER_REGIONAL_DATA) as CustomerCountry[];
+  // Generate market shares until we reach 100% for this country
+  let totalMarketShare = 0;
+  const marketShares: number[] = [];
   
-  countries.forEach(country => {
-    // Generate customer types dynamically as we create customers
-    const customerTypes: CustomerType[] = [];
+  // Keep generating customers until we reach 100% market share for this country
+  while (totalMarketShare < 100.0) {
+    // Select customer type dynamically for each customer
+    const customerType = selectRandomCustomerType(country);
+    customerTypes.push(customerType);
     
-    // Generate market shares until we reach 100% for this country
-    let totalMarketShare = 0;
-    const marketShares: number[] = [];
+    // Generate market share for this customer
+    const randomValue1 = Math.random();
+    const steppedValue1 = calculateSkewedMultiplier(randomValue1);
     
-    // Keep generating customers until we reach 100% market share for this country
-    while (totalMarketShare < 100.0) {
-      // Select customer type dynamically for each customer
-      const customerType = selectRandomCustomerType(country);
-      customerTypes.push(customerType);
-      
-      // Generate market share for this customer
-      const randomValue1 = Math.random();
-      const steppedValue1 = calculateSkewedMultiplier(randomValue1);
-      
-      let numDraws = 1;
-      if (steppedValue1 >= 0.9) {
-        numDraws = 5;
-      } else if (steppedValue1 >= 0.7) {
-        numDraws = 4;
-      } else if (steppedValue1 >= 0.5) {
-        numDraws = 3;
-      } else if (steppedValue1 >= 0.1) {
-        numDraws = 2;
-      } else {
-        numDraws = 1;
-      }
-      
-      // Perform additional draws if needed
-      let minValue = steppedValue1;
-      for (let i = 1; i < numDraws; i++) {
-        const randomValue = Math.random();
-        const additionalValue = calculateSkewedMultiplier(randomValue);
-        minValue = Math.min(minValue, additionalValue);
-      }
-      
-      // Use market share multiplier from constants
-      const customermultiplier = CUSTOMER_MARKET_SHARE_MULTIPLIERS[customerType];
-      const marketShare = minValue * customermultiplier * 100;
-      
-      marketShares.push(marketShare);
-      totalMarketShare += marketShare;
-      
-      // Safety check to prevent infinite loops
-      if (marketShares.length > 1000) {
-        console.warn(`[Customer Generation] Safety limit reached for ${country}: ${marketShares.length} customers`);
-        break;
-      }
+    let numDraws = 1;
+    if (steppedValue1 >= 0.9) {
+      numDraws = 5;
+    } else if (steppedValue1 >= 0.7) {
+      numDraws = 4;
+    } else if (steppedValue1 >= 0.5) {
+      numDraws = 3;
+    } else if (steppedValue1 >= 0.1) {
+      numDraws = 2;
+    } else {
+      numDraws = 1;
     }
     
-    // If we exceeded 100%, adjust the last customer's share
-    if (totalMarketShare > 100.0) {
-      const excess = totalMarketShare - 100.0;
-      marketShares[marketShares.length - 1] -= excess;
-      totalMarketShare = 100.0;
+    // Perform additional draws if needed
+    let minValue = steppedValue1;
+    for (let i = 1; i < numDraws; i++) {
+      const randomValue = Math.random();
+      const additionalValue = calculateSkewedMultiplier(randomValue);
+      minValue = Math.min(minValue, additionalValue);
     }
     
-    // Create customers for this country
-    for (let i = 0; i < marketShares.length; i++) {
-      const selectedType = customerTypes[i];
-      const marketShare = marketShares[i] / 100; // Convert from percentage to 0-1 scale
-      const customer = createCustomerWithSpecificData(country, selectedType, marketShare, companyPrestige);
-      allCustomers.push(customer);
+    // Use market share multiplier from constants
+    const customermultiplier = CUSTOMER_MARKET_SHARE_MULTIPLIERS[customerType];
+    const marketShare = minValue * customermultiplier * 100;
+    
+    marketShares.push(marketShare);
+    totalMarketShare += marketShare;
+    
+    // Safety check to prevent infinite loops
+    if (marketShares.length > 1000) {
+      console.warn(`[Customer Generation] Safety limit reached for ${country}: ${marketShares.length} customers`);
+      break;
     }
-  });
+  }
+  
+  // If we exceeded 100%, adjust the last customer's share
+  if (totalMarketShare > 100.0) {
+    const excess = totalMarketShare - 100.0;
+    marketShares[marketShares.length - 1] -= excess;
+    totalMarketShare = 100.0;
+  }
+  
+  // Create customers for this country
+  for (let i = 0; i < marketShares.length; i++) {
+    const selectedType = customerTypes[i];
+    const marketShare = marketShares[i] / 100; // Convert from percentage to 0-1 scale
+    const customer = createCustomerWithSpecificData(country, selectedType, marketShare, companyPrestige);
+    customers.push(customer);
+  }
+  
+  return customers;
+}
+
+/**
+ * Generate customers for all home-market countries.
+ * Export market customers are generated when their market opens (see exportManager).
+ */
+export function generateCustomersForAllCountries(companyPrestige: number = 1): Customer[] {
+  const countries = (Object.keys(CUSTOMER_REGIONAL_DATA) as CustomerCountry[])
+    .filter(country => !isExportMarketCountry(country));
   
-  return allCustomers;
+  return countries.flatMap(country => generateCustomersForCountry(country, companyPrestige));
 }
 
 /**
@@ -0,0 +1,126 @@
+// Customer preference service - structure and taste preferences and how well a wine matches them
+import {
+  Customer,
+  CustomerCountry,
+  CustomerMarketPreference,
+  CustomerType,
+  FLAVOR_FAMILY_IDS,
+  FlavorFamilyId,
+  MarketPreferenceMatch,
+  WineCharacteristics,
+  WineFlavorFamilyProfile
+} from '../../types/types';
+import {
+  COUNTRY_FLAVOR_AFFINITIES,
+  COUNTRY_STRUCTURE_PREFERENCES,
+  CUSTOMER_PREFERENCE_IMPACT,
+  CUSTOMER_PREFERENCE_VARIATION,
+  CUSTOMER_TYPE_MARKET_PREFERENCES
+} from '../../constants/customerPreferenceConstants';
+import { clamp, clamp01 } from '../../utils/utils';
+
+const STRUCTURE_CHANNELS: (keyof WineCharacteristics)[] = ['acidity', 'aroma', 'body', 'spice', 'sweetness', 'tannins'];
+
+/**
+ * Build a customer's market preference from their country and customer type.
+ * `random` returns 0-1 and spreads individual customers around the baseline;
+ * pass `() => 0.5` for the baseline itself.
+ */
+export function generateCustomerMarketPreference(
+  country: CustomerCountry,
+  customerType: CustomerType,
+  random: () => number = Math.random
+): CustomerMarketPreference {
+  const countryStructure = COUNTRY_STRUCTURE_PREFERENCES[country];
+  const countryFlavors = COUNTRY_FLAVOR_AFFINITIES[country];
+  const typePreference = CUSTOMER_TYPE_MARKET_PREFERENCES[customerType];
+  const jitter = (range: number) => (random() - 0.5) * 2 * range;
+
+  const structure = {} as WineCharacteristics;
+  for (const channel of STRUCTURE_CHANNELS) {
+    structure[channel] = clamp01(
+      countryStructure[channel] + (typePreference.structureShift[channel] ?? 0) + jitter(CUSTOMER_PREFERENCE_VARIATION.structure)
+    );
+  }
+
+  const flavors = {} as WineFlavorFamilyProfile;
+  for (const family of FLAVOR_FAMILY_IDS) {
+    const base = (countryFlavors[family] ?? 0) + (typePreference.flavorAffinities[family] ?? 0);
+    flavors[family] = clamp(base + jitter(CUSTOMER_PREFERENCE_VARIATION.flavor), -1, 1);
+  }
+
+  return {
+    structure,
+    flavors,
+    tolerance: typePreference.tolerance,
+    weight: typePreference.weight
+  };
+}
+
+/**
+ * The customer's stored preference, or the baseline for their country and type for customers created before preferences existed
+ */
+export function resolveCustomerMarketPreference(customer: Pick<Customer, 'country' | 'customerType' | 'marketPreference'>): CustomerMarketPreference {
+  return customer.marketPreference ?? generateCustomerMarketPreference(customer.country, customer.customerType, () => 0.5);
+}
+
+/**
+ * Score a wine's structure and flavor families against a customer's preference.
+ * Structure channels please within the customer's tolerance of the preferred level; flavors
+ * the customer likes raise the match when pronounced and disliked ones lower it. The weighted
+ * match moves bid price, quantity and rejection chance, neutral (1.0) at a 0.5 match.
+ */
+export function evaluateMarketPreferenceMatch(
+  preference: CustomerMarketPreference,
+  characteristics: WineCharacteristics,
+  flavorFamilies: WineFlavorFamilyProfile
+): MarketPreferenceMatch {
+  const tolerance = preference.tolerance > 0 ? preference.tolerance : 0.0001;
+  let structureTotal = 0;
+  let furthestChannel: keyof WineCharacteristics = STRUCTURE_CHANNELS[0];
+  let furthestDistance = -1;
+  for (const channel of STRUCTURE_CHANNELS) {
+    const distance = Math.abs(characteristics[channel] - preference.structure[channel]);
+    structureTotal += Math.exp(-Math.pow(distance / tolerance, 2));
+    if (distance > furthestDistance) {
+      furthestDistance = distance;
+      furthestChannel = channel;
+    }
+  }
+  const structureMatch = structureTotal / STRUCTURE_CHANNELS.length;
+
+  let flavorBalance = 0;
+  let affinityTotal = 0;
+  for (const family of FLAVOR_FAMILY_IDS) {
+    const affinity = preference.flavors[family];
+    flavorBalance += affinity * (flavorFamilies[family] - 0.5);
+    affinityTotal += Math.abs(affinity);
+  }
+  const flavorMatch = affinityTotal > 0
+    ? clamp01(0.5 + (flavorBalance / affinityTotal) * CUSTOMER_PREFERENCE_IMPACT.flavorScale)
+    : 0.5;
+
+  const match = clamp01(
+    structureMatch * CUSTOMER_PREFERENCE_IMPACT.structureShare
+    + flavorMatch * (1 - CUSTOMER_PREFERENCE_IMPACT.structureShare)
+  );
+  const centered = (match - 0.5) * clamp01(preference.weight);
+  const impact = CUSTOMER_PREFERENCE_IMPACT;
+
+  const pronounced = (predicate: (affinity: number) => boolean): FlavorFamilyId[] => FLAVOR_FAMILY_IDS
+    .filter(family => predicate(preference.flavors[family]) && flavorFamilies[family] >= impact.pronouncedFlavor)
+    .sort((a, b) => Math.abs(preference.flavors[b]) * flavorFamilies[b] - Math.abs(preference.flavors[a]) * flavorFamilies[a])
+    .slice(0, 2);
+
+  return {
+    structureMatch,
+    flavorMatch,
+    match,
+    priceFactor: clamp(1 + centered * impact.priceScale, impact.priceRange[0], impact.priceRange[1]),
+    quantityFactor: clamp(1 + centered * impact.quantityScale, impact.quantityRange[0], impact.quantityRange[1]),
+    rejectionFactor: clamp(1 - centered * impact.rejectionScale, impact.rejectionRange[0], impact.rejectionRange[1]),
+    likedFlavors: pronounced(affinity => affinity > 0.1),
+    dislikedFlavors: pronounced(affinity => affinity < -0.1),
+    furthestChannel
+  };
+}
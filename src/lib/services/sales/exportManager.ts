@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExportMarketCountry, ExportShipment, NotificationCategory, WineOrder } from '@/lib/types/types';
+import { researchUpgradeFeature } from '@/lib/features/researchUpgrade';
+import { EXPORT_MARKET_COUNTRIES } from '@/lib/constants/exportMarketConstants';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import { addCustomers, loadCustomers } from '../../database/customers/customerDB';
+import { loadExportShipments, loadExportShipmentsInTransit, saveExportShipment } from '../../database/sales/exportShipmentDB';
+import { getCurrentPrestige, getGameState } from '../core/gameState';
+import { notificationService } from '../core/notificationService';
+import { addTransaction } from '../finance/financeService';
+import { triggerGameUpdate, triggerTopicUpdate } from '../../../hooks/useGameUpdates';
+import { calculateAbsoluteWeeks, formatNumber } from '../../utils/utils';
+import { generateCustomersForCountry } from './createCustomer';
+import { getExportShipmentArrival, isExportMarketCountry, resolveExportShipmentArrival } from './exportService';
+
+function getCurrentAbsoluteWeek(): number {
+  const gameState = getGameState();
+  return calculateAbsoluteWeeks(gameState.week || 1, gameState.season || 'Spring', gameState.currentYear || 2024);
+}
+
+/**
+ * Export markets the company holds an export licence for
+ */
+export async function getOpenExportMarkets(): Promise<ExportMarketCountry[]> {
+  const unlocked = await researchUpgradeFeature.unlocks.getUnlockedItems('export_market');
+  return EXPORT_MARKET_COUNTRIES.filter(country => unlocked.includes(country));
+}
+
+/**
+ * Bring in the customers of every newly opened export market. Called from the weekly game tick,
+ * so a market opens the week after its licence research completes.
+ */
+export async function openExportMarkets(): Promise<void> {
+  try {
+    const openMarkets = await getOpenExportMarkets();
+    if (openMarkets.length === 0) return;
+
+    const customers = await loadCustomers();
+    if (!customers || customers.length === 0) return; // Home customers are not set up yet
+
+    const countriesWithCustomers = new Set(customers.map(customer => customer.country));
+    const newMarkets = openMarkets.filter(country => !countriesWithCustomers.has(country));
+    if (newMarkets.length === 0) return;
+
+    const prestige = await getCurrentPrestige();
+    for (const country of newMarkets) {
+      const newCustomers = generateCustomersForCountry(country, prestige);
+      await addCustomers(newCustomers);
+      await notificationService.addMessage(
+        `The ${country} market is open: ${newCustomers.length} importers, restaurants and shops there may now order our wines.`,
+        'exportManager.openExportMarkets',
+        'Export Market Opened',
+        NotificationCategory.SALES_ORDERS
+      );
+    }
+    triggerGameUpdate();
+  } catch (error) {
+    console.error('Error opening export markets:', error);
+  }
+}
+
+/**
+ * Ship the bottles of an accepted export order. Shipping is paid now; the customer pays
+ * the landed price, and the winery the import duty, when the shipment arrives.
+ */
+export async function shipExportOrder(order: WineOrder, bottles: number): Promise<ExportShipment | null> {
+  const exportCost = order.calculationData?.exportCost;
+  if (!exportCost || !isExportMarketCountry(order.customerCountry) || bottles <= 0) return null;
+
+  const gameState = getGameState();
+  const shipment: ExportShipment = {
+    id: uuidv4(),
+    orderId: order.id,
+    customerId: order.customerId,
+    customerName: order.customerName,
+    country: order.customerCountry,
+    wineBatchId: order.wineBatchId,
+    wineName: order.wineName,
+    bottles,
+    landedPrice: exportCost.landedPrice,
+    importDuty: exportCost.importDuty,
+    shippingCost: exportCost.shippingCost,
+    transportRisk: exportCost.transportRisk,
+    shippedAt: { week: gameState.week || 1, season: gameState.season || 'Spring', year: gameState.currentYear || 2024 },
+    arrivesAt: getExportShipmentArrival(getCurrentAbsoluteWeek(), order.customerCountry),
+    status: 'in_transit'
+  };
+
+  await saveExportShipment(shipment);
+  await addTransaction(
+    -Math.round(bottles * exportCost.shippingCost * 100) / 100,
+    `Export Shipping: ${order.wineName} to ${order.customerName}, ${order.customerCountry} (${bottles} bottles)`,
+    TRANSACTION_CATEGORIES.EXPORT_SHIPPING,
+    false
+  );
+  triggerTopicUpdate('export_shipments');
+  return shipment;
+}
+
+/**
+ * Settle every export shipment that has arrived. Called from the weekly game tick.
+ * Each shipment is marked delivered before it is paid out, so a failed save leaves it
+ * in transit to settle next week instead of paying it twice.
+ */
+export async function processExportShipments(): Promise<void> {
+  try {
+    const currentWeek = getCurrentAbsoluteWeek();
+    const arrived = (await loadExportShipmentsInTransit()).filter(shipment => shipment.arrivesAt <= currentWeek);
+    if (arrived.length === 0) return;
+
+    for (const shipment of arrived) {
+      const arrival = resolveExportShipmentArrival(shipment);
+
+      try {
+        await saveExportShipment({
+          ...shipment,
+          status: 'delivered',
+          bottlesLost: arrival.bottlesLost,
+          settledValue: Math.round((arrival.revenue - arrival.importDuty) * 100) / 100
+        });
+      } catch (error) {
+        console.error(`Error settling export shipment ${shipment.id}:`, error);
+        continue;
+      }
+
+      if (arrival.revenue > 0) {
+        await addTransaction(
+          arrival.revenue,
+          `Export Sale: ${shipment.wineName} to ${shipment.customerName}, ${shipment.country} (${arrival.bottlesDelivered} bottles)`,
+          TRANSACTION_CATEGORIES.WINE_SALES,
+          false
+        );
+      }
+      if (arrival.importDuty > 0) {
+        await addTransaction(
+          -arrival.importDuty,
+          `Import Duty: ${shipment.wineName}, ${shipment.country} (${arrival.bottlesDelivered} bottles)`,
+          TRANSACTION_CATEGORIES.IMPORT_DUTIES,
+          false
+        );
+      }
+
+      await notificationService.addMessage(
+        arrival.bottlesLost > 0
+          ? `${shipment.wineName} arrived in ${shipment.country} damaged: ${arrival.bottlesLost} of ${shipment.bottles} bottles were lost in transit. ${shipment.customerName} paid €${formatNumber(arrival.revenue, { decimals: 2 })} for the rest.`
+          : `${shipment.bottles} bottles of ${shipment.wineName} arrived in ${shipment.country}. ${shipment.customerName} paid €${formatNumber(arrival.revenue, { decimals: 2 })}.`,
+        'exportManager.processExportShipments',
+        'Export Shipment Arrived',
+        NotificationCategory.SALES_ORDERS
+      );
+    }
+
+    triggerTopicUpdate('export_shipments');
+    triggerGameUpdate();
+  } catch (error) {
+    console.error('Error processing export shipments:', error);
+  }
+}
+
+export async function getExportShipments(): Promise<ExportShipment[]> {
+  return await loadExportShipments();
+}
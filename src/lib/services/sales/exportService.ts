@@ -0,0 +1,82 @@
+// Export service - landed price breakdown, shipping times and transport losses for export orders
+import { CustomerCountry, ExportLandedCost, ExportMarketCountry, ExportShipment } from '../../types/types';
+import { EXPORT_MARKETS, EXPORT_TRANSPORT_DAMAGE } from '../../constants/exportMarketConstants';
+
+export interface ExportShipmentArrival {
+  bottlesLost: number;
+  bottlesDelivered: number;
+  revenue: number; // Landed price of the delivered bottles, paid by the customer
+  importDuty: number; // Duty on the delivered bottles, paid by the winery
+}
+
+export function isExportMarketCountry(country: CustomerCountry | string): country is ExportMarketCountry {
+  return country in EXPORT_MARKETS;
+}
+
+/**
+ * Split an export customer's landed bid into import duty, shipping and what reaches the winery.
+ * The ex-cellar price is what the winery keeps per bottle once the order has arrived; it is
+ * negative when the bid does not cover duty and shipping.
+ */
+export function calculateExportLandedCost(country: ExportMarketCountry, landedPrice: number): ExportLandedCost {
+  const market = EXPORT_MARKETS[country];
+  const importDuty = Math.round(landedPrice * market.importDutyRate * 100) / 100;
+  const shippingCost = market.shippingCostPerBottle;
+
+  return {
+    country,
+    landedPrice,
+    importDuty,
+    shippingCost,
+    exCellarPrice: Math.round((landedPrice - importDuty - shippingCost) * 100) / 100,
+    importDutyRate: market.importDutyRate,
+    shippingWeeks: market.shippingWeeks,
+    transportRisk: market.transportRisk
+  };
+}
+
+/**
+ * Whether a landed bid leaves the winery anything once import duty and shipping are paid
+ */
+export function coversExportCosts(cost: ExportLandedCost): boolean {
+  return cost.exCellarPrice > 0;
+}
+
+/**
+ * Landed price at which an export customer's bid leaves the winery a given ex-cellar price
+ */
+export function getExportLandedPriceForExCellar(country: ExportMarketCountry, exCellarPrice: number): number {
+  const market = EXPORT_MARKETS[country];
+  return Math.round(((exCellarPrice + market.shippingCostPerBottle) / (1 - market.importDutyRate)) * 100) / 100;
+}
+
+/**
+ * Absolute week number in which a shipment dispatched this week arrives
+ */
+export function getExportShipmentArrival(absoluteWeek: number, country: ExportMarketCountry): number {
+  return absoluteWeek + EXPORT_MARKETS[country].shippingWeeks;
+}
+
+/**
+ * Settle a shipment on arrival. With its market's transport risk the shipment is damaged and
+ * loses a share of its bottles; the customer pays only for the bottles that arrive intact.
+ */
+export function resolveExportShipmentArrival(
+  shipment: Pick<ExportShipment, 'bottles' | 'landedPrice' | 'importDuty' | 'transportRisk'>,
+  random: () => number = Math.random
+): ExportShipmentArrival {
+  let bottlesLost = 0;
+  if (random() < shipment.transportRisk) {
+    const lossShare = EXPORT_TRANSPORT_DAMAGE.minLossShare
+      + random() * (EXPORT_TRANSPORT_DAMAGE.maxLossShare - EXPORT_TRANSPORT_DAMAGE.minLossShare);
+    bottlesLost = Math.min(shipment.bottles, Math.max(1, Math.round(shipment.bottles * lossShare)));
+  }
+  const bottlesDelivered = shipment.bottles - bottlesLost;
+
+  return {
+    bottlesLost,
+    bottlesDelivered,
+    revenue: Math.round(bottlesDelivered * shipment.landedPrice * 100) / 100,
+    importDuty: Math.round(bottlesDelivered * shipment.importDuty * 100) / 100
+  };
+}
@@ -92,7 +92,9 @@ function computeForwardPricePerUnit(input: {
 }): number {
   const base = input.targetState === 'bottled'
     ? 4.6 + Math.random() * 4.4
-    : 2.2 + Math.random() * 2.3;
+    : input.targetState === 'maturing'
+      ? 3.2 + Math.random() * 3.2
+      : 2.2 + Math.random() * 2.3;
   const prestigeBonus = 1 + input.prestigeNormalized * 0.3;
 
   const final = base
@@ -131,7 +133,7 @@ export async function generateForwardContracts(): Promise<number> {
     const createdAt = getCurrentDate();
     const due = getNextSeasonDate(createdAt.season, createdAt.year);
 
-    const targetStates: ForwardTargetState[] = ['grapes', 'must_ready', 'must_fermenting', 'bottled', 'any'];
+    const targetStates: ForwardTargetState[] = ['grapes', 'must_ready', 'must_fermenting', 'maturing', 'bottled', 'any'];
     const targetState = getRandomFromArray(targetStates);
 
     const quantityKg = computeForwardQuantityForBuyer(
@@ -254,7 +256,7 @@ export async function rejectForwardContract(contractId: string): Promise<{ succe
 }
 
 function isBatchEligible(contract: GrapeForwardContract, batch: any): boolean {
-  const sellableStates = ['grapes', 'must_ready', 'must_fermenting', 'bottled'];
+  const sellableStates = ['grapes', 'must_ready', 'must_fermenting', 'maturing', 'bottled'];
   if (!sellableStates.includes(batch.state)) return false;
   if (batch.quantity <= 0) return false;
   if (contract.targetState !== 'any' && batch.state !== contract.targetState) return false;
@@ -6,6 +6,8 @@ import { PRESTIGE_ORDER_GENERATION } from '../../constants/constants';
 import { NormalizeScrewed1000To01WithTail } from '../../utils/calculator';
 import { ECONOMY_SALES_MULTIPLIERS } from '../../constants/economyConstants';
 import { EconomyPhase } from '../../types/types';
+import { getBottleMarket } from './bottleMarketManager';
+import { getBottleMarketFrequencyMultiplier, getBottleMarketStyle } from './bottleMarketService';
 
 /**
  * Generate a customer based on company prestige
@@ -15,6 +17,7 @@ import { EconomyPhase } from '../../types/types';
  * - Uses NormalizeScrewed1000To01WithTail for consistent prestige scaling
  * - Maps normalized prestige (0-1) to chance range (5%-35%)
  * - Pending orders reduce chance to prevent spam
+ * - Bottle market demand for the styles in stock raises or lowers the chance
  * 
  * @param options - Configuration options for customer generation
  * @param options.dryRun - If true, returns chance info without rolling (for display purposes)
@@ -32,6 +35,7 @@ export async function generateCustomer(options: { dryRun?: boolean } = {}): Prom
     randomRoll: number;
     economyPhase: EconomyPhase;
     economyFrequencyMultiplier: number;
+    marketDemandMultiplier: number;
   };
 }> {
   const { dryRun = false } = options;
@@ -57,7 +61,8 @@ export async function generateCustomer(options: { dryRun?: boolean } = {}): Prom
         finalChance: 0,
         randomRoll: 0,
         economyPhase,
-        economyFrequencyMultiplier: frequencyMultiplier
+        economyFrequencyMultiplier: frequencyMultiplier,
+        marketDemandMultiplier: 1
       }
     };
   }
@@ -81,7 +86,11 @@ export async function generateCustomer(options: { dryRun?: boolean } = {}): Prom
   const gameState = getGameState();
   const economyPhase = (gameState.economyPhase || 'Stable') as EconomyPhase;
   const frequencyMultiplier = ECONOMY_SALES_MULTIPLIERS[economyPhase].frequencyMultiplier;
-  const finalChance = baseChance * pendingPenalty * frequencyMultiplier;
+
+  // Apply bottle market demand for the styles in stock
+  const stockedStyles = [...new Set(bottledWines.map(getBottleMarketStyle))];
+  const marketDemandMultiplier = getBottleMarketFrequencyMultiplier(await getBottleMarket(), stockedStyles);
+  const finalChance = baseChance * pendingPenalty * frequencyMultiplier * marketDemandMultiplier;
   
   // Only roll if not in dry run mode
   const randomRoll = dryRun ? 0 : Math.random();
@@ -98,7 +107,8 @@ export async function generateCustomer(options: { dryRun?: boolean } = {}): Prom
       finalChance,
       randomRoll,
       economyPhase,
-      economyFrequencyMultiplier: frequencyMultiplier
+      economyFrequencyMultiplier: frequencyMultiplier,
+      marketDemandMultiplier
     }
   };
 }
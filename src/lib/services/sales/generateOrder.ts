@@ -1,12 +1,14 @@
 // Order generation service - handles wine order creation with pricing and rejection logic
 import { v4 as uuidv4 } from 'uuid';
-import { WineOrder, Customer, WineBatch, Vineyard, GrapeVariety, DifficultyPreference } from '../../types/types';
+import { WineOrder, Customer, WineBatch, Vineyard, GrapeVariety, DifficultyPreference, BottleMarketConditions } from '../../types/types';
 import { loadVineyards } from '../../database/activities/vineyardDB';
 import { saveWineOrder } from '../../database/customers/salesDB';
 import { getGameState } from '../core/gameState';
 import { formatCompletedWineName } from '../wine/winery/inventoryService';
-import { SALES_CONSTANTS } from '../../constants/constants';
+import { CUSTOMER_REGIONAL_DATA, SALES_CONSTANTS } from '../../constants/constants';
 import { ECONOMY_SALES_MULTIPLIERS } from '../../constants/economyConstants';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS, DEFAULT_BOTTLE_CLOSURE, DEFAULT_BOTTLE_FORMAT } from '../../constants/bottlingConstants';
+import { FARMING_METHODS } from '../../constants/farmingConstants';
 import { calculateOrderAmount, calculateSkewedMultiplier } from '../../utils/calculator';
 import { calculateAbsoluteWeeks, clamp, randomInt } from '../../utils/utils';
 import { notificationService } from '../core/notificationService';
@@ -17,6 +19,9 @@ import { getCurrentPrestige } from '../core/gameState';
 import { activateCustomer } from '../../database/customers/customerDB';
 import { calculateEstimatedPrice, calculateFeaturePriceMultiplier, calculateGrapeDifficulty } from '@/lib/services';
 import { calculateExpiration } from './expirationService';
+import { evaluateMarketPreferenceMatch, resolveCustomerMarketPreference } from './customerPreferenceService';
+import { calculateExportLandedCost, coversExportCosts, isExportMarketCountry } from './exportService';
+import { computeWineTasteProfile } from '../wine/taste/wineTasteProfileService';
 
 // Use customer type configurations from constants
 const CUSTOMER_TYPE_CONFIG = SALES_CONSTANTS.CUSTOMER_TYPES;
@@ -75,6 +80,47 @@ function evaluateDifficultyImpact(grape: GrapeVariety, preference?: DifficultyPr
   };
 }
 
+/**
+ * Price multiplier for Traditional Method sparkling wine
+ * Combines the customer type's appetite for sparkling with their country's sparkling tradition.
+ * Still wines are unaffected (1.0).
+ */
+export function calculateSparklingPriceMultiplier(
+  wineBatch: Pick<WineBatch, 'sparkling'>,
+  customer: Pick<Customer, 'country' | 'customerType'>
+): number {
+  if (!wineBatch.sparkling) return 1;
+  const typeMultiplier = CUSTOMER_TYPE_CONFIG[customer.customerType]?.sparklingPriceMultiplier ?? 1;
+  const countryAffinity = CUSTOMER_REGIONAL_DATA[customer.country]?.sparklingAffinity ?? 1;
+  return typeMultiplier * countryAffinity;
+}
+
+/**
+ * Price multiplier for the bottle format and closure by customer type
+ * Collectors pay for magnums and natural cork, chain stores for bag-in-box and screwcaps.
+ * A standard bottle with a natural cork stays close to 1.0.
+ */
+export function calculatePackagingPriceMultiplier(
+  wineBatch: Pick<WineBatch, 'bottleFormat' | 'bottleClosure'>,
+  customer: Pick<Customer, 'customerType'>
+): number {
+  const formatMultiplier = BOTTLE_FORMATS[wineBatch.bottleFormat ?? DEFAULT_BOTTLE_FORMAT].customerPriceMultipliers[customer.customerType] ?? 1;
+  const closureMultiplier = BOTTLE_CLOSURES[wineBatch.bottleClosure ?? DEFAULT_BOTTLE_CLOSURE].customerPriceMultipliers[customer.customerType] ?? 1;
+  return formatMultiplier * closureMultiplier;
+}
+
+/**
+ * Customer price premium for wine from certified organic or biodynamic grapes.
+ * Wine shops and collectors pay the most for it; uncertified wine stays at 1.0.
+ */
+export function calculateFarmingPriceMultiplier(
+  wineBatch: Pick<WineBatch, 'farmingCertification'>,
+  customer: Pick<Customer, 'customerType'>
+): number {
+  if (!wineBatch.farmingCertification) return 1;
+  return FARMING_METHODS[wineBatch.farmingCertification].customerPriceMultipliers[customer.customerType] ?? 1;
+}
+
 // ===== REJECTION CALCULATIONS =====
 
 /**
@@ -121,7 +167,8 @@ export async function generateOrder(
   specificWineBatch: WineBatch, 
   multipleOrderModifier: number = 1.0,
   vineyard?: Vineyard,
-  currentPrestige?: number
+  currentPrestige?: number,
+  marketConditions?: BottleMarketConditions
 ): Promise<WineOrder | null> {
   // Use provided vineyard or load if not provided (for backwards compatibility)
   let vineyardData = vineyard;
@@ -139,6 +186,12 @@ export async function generateOrder(
   const config = CUSTOMER_TYPE_CONFIG[customer.customerType];
   const difficultyPreference = resolveDifficultyPreference(customer);
   const difficultyImpact = evaluateDifficultyImpact(specificWineBatch.grape, difficultyPreference);
+  // How well the wine's structure and taste suit this customer
+  const preferenceMatch = evaluateMarketPreferenceMatch(
+    resolveCustomerMarketPreference(customer),
+    specificWineBatch.characteristics,
+    computeWineTasteProfile(specificWineBatch).flavorFamilies
+  );
   
   // Calculate current relationship using provided prestige or fresh lookup
   const prestigeValue = currentPrestige ?? await getCurrentPrestige();
@@ -170,15 +223,45 @@ export async function generateOrder(
   // Apply feature price sensitivity (oxidation, etc.)
   const featurePriceMultiplier = calculateFeaturePriceMultiplier(specificWineBatch, customer.customerType);
   
-  // Use customer's individual price multiplier with relationship bonus and feature sensitivity
-  let bidPrice = askingPrice * relationshipAdjustedMultiplier * featurePriceMultiplier;
-  bidPrice *= difficultyImpact.priceFactor;
+  // Apply sparkling demand by customer type and country (1.0 for still wine)
+  const sparklingPriceMultiplier = calculateSparklingPriceMultiplier(specificWineBatch, customer);
+
+  // Apply customer type preference for the bottle format and closure
+  const packagingPriceMultiplier = calculatePackagingPriceMultiplier(specificWineBatch, customer);
+
+  // Apply customer type premium for certified organic or biodynamic wine
+  const farmingPriceMultiplier = calculateFarmingPriceMultiplier(specificWineBatch, customer);
+  
+  // Use customer's individual price multiplier with relationship bonus, feature sensitivity, sparkling demand, packaging and certification
+  let bidPrice = askingPrice * relationshipAdjustedMultiplier * featurePriceMultiplier * sparklingPriceMultiplier * packagingPriceMultiplier * farmingPriceMultiplier;
+  bidPrice *= difficultyImpact.priceFactor * preferenceMatch.priceFactor;
+  // Apply the customer's bottle market: demand over supply, depressed by the player's recent sales
+  const marketPriceFactor = marketConditions?.priceFactor ?? 1;
+  bidPrice *= marketPriceFactor;
   bidPrice = Math.round(bidPrice * 100) / 100;
   bidPrice = Math.max(0, Math.min(bidPrice, SALES_CONSTANTS.MAX_PRICE));
+
+  // Export customers bid their landed price; import duty and shipping come off what reaches the winery
+  const exportCost = isExportMarketCountry(customer.country)
+    ? calculateExportLandedCost(customer.country, bidPrice)
+    : undefined;
+  if (exportCost) {
+    if (!coversExportCosts(exportCost)) {
+      // Shipping and duty would cost more than the customer pays; no order is placed
+      await notificationService.addMessage(
+        `${customer.name} from ${customer.country} was interested in ${formatCompletedWineName(specificWineBatch)}, but their bid would not cover import duty and shipping.`,
+        'generateOrder.generateOrderForSpecificWine',
+        'Export Bid Too Low',
+        NotificationCategory.SALES_ORDERS
+      );
+      return null;
+    }
+    bidPrice = exportCost.exCellarPrice;
+  }
   
-  // Check for outright rejection based on price ratio
-  let rejectionProbability = calculateRejectionProbability(bidPrice, basePrice);
-  rejectionProbability = clamp(rejectionProbability * difficultyImpact.rejectionFactor, 0, 1);
+  // Check for outright rejection based on price ratio (against the wine's value in this market)
+  let rejectionProbability = calculateRejectionProbability(bidPrice, basePrice * marketPriceFactor);
+  rejectionProbability = clamp(rejectionProbability * difficultyImpact.rejectionFactor * preferenceMatch.rejectionFactor, 0, 1);
   
   // Apply relationship modifier to rejection probability (better relationships = less likely to reject)
   const relationshipRejectionModifier = 1 - currentRelationship * 0.005; // 0.5% reduction per relationship point
@@ -234,7 +317,7 @@ export async function generateOrder(
       { askingPrice: bidPrice }, // Customer's actual bid price
       askingPrice,               // Our asking price (what we want to charge)
       customer.customerType
-    ) * difficultyImpact.quantityFactor
+    ) * difficultyImpact.quantityFactor * preferenceMatch.quantityFactor * (marketConditions?.quantityFactor ?? 1)
   );
   
   // Generate baseline quantity from order type range, then scale by price sensitivity and customer characteristics
@@ -333,6 +416,9 @@ export async function generateOrder(
       relationshipBonusMultiplier: relationshipPriceBonus,
       relationshipAdjustedMultiplier,
       featurePriceMultiplier, // Feature impact on price (oxidation, etc.)
+      sparklingPriceMultiplier, // Sparkling demand by customer type and country
+      packagingPriceMultiplier, // Bottle format and closure preference by customer type
+      farmingPriceMultiplier, // Organic or biodynamic certification premium by customer type
       
       // Quantity calculation
       baseQuantity,
@@ -341,7 +427,7 @@ export async function generateOrder(
       finalQuantity: desiredQuantity,
       
       // Rejection analysis
-      baseRejectionProbability: calculateRejectionProbability(bidPrice, basePrice),
+      baseRejectionProbability: calculateRejectionProbability(bidPrice, basePrice * marketPriceFactor),
       multipleOrderModifier,
       finalRejectionProbability: rejectionProbability,
       randomValue: rejectionRandomValue,
@@ -352,7 +438,10 @@ export async function generateOrder(
         priceFactor: difficultyImpact.priceFactor,
         quantityFactor: difficultyImpact.quantityFactor,
         rejectionFactor: difficultyImpact.rejectionFactor
-      } : undefined
+      } : undefined,
+      preference: preferenceMatch,
+      market: marketConditions,
+      exportCost
     }
   };
   
@@ -0,0 +1,294 @@
+import {
+  GameDate,
+  NegotiationRound,
+  NegotiationTerms,
+  NotificationCategory,
+  WineOrder
+} from '@/lib/types/types';
+import { staffFeature } from '@/lib/features/staff';
+import { NEGOTIATION } from '@/lib/constants/negotiationConstants';
+import { SALES_CONSTANTS } from '@/lib/constants/constants';
+import { loadCustomers } from '../../database/customers/customerDB';
+import { getOrderById, saveWineOrder } from '../../database/customers/salesDB';
+import { getContractById, updateContractStatus, updateWineContract } from '../../database/sales/contractDB';
+import { getCurrentPrestige, getGameState } from '../core/gameState';
+import { notificationService } from '../core/notificationService';
+import { triggerGameUpdate, triggerTopicUpdate } from '../../../hooks/useGameUpdates';
+import { formatNumber, formatPercent } from '../../utils/utils';
+import { calculateCustomerRelationship } from './createCustomer';
+import { calculateCustomerRelationshipBoosts, createRelationshipPenalty } from './relationshipService';
+import { calculateExportLandedCost, getExportLandedPriceForExCellar, isExportMarketCountry } from './exportService';
+import {
+  calculateCounterOfferAcceptance,
+  canNegotiateContract,
+  canNegotiateOrder,
+  getContractNegotiationTerms,
+  getFailedNegotiationRounds,
+  getOrderNegotiationTerms,
+  validateCounterOffer
+} from './negotiationService';
+
+export interface NegotiationCustomer {
+  priceMultiplier: number;
+  relationship: number;
+}
+
+export interface NegotiationResult {
+  success: boolean;
+  accepted: boolean;
+  walkedAway: boolean;
+  acceptanceProbability: number;
+  message: string;
+}
+
+function getCurrentGameDate(): GameDate {
+  const gameState = getGameState();
+  return { week: gameState.week || 1, season: gameState.season || 'Spring', year: gameState.currentYear || 2024 };
+}
+
+function formatTerms(terms: NegotiationTerms): string {
+  const schedule = terms.deliveriesPerYear !== undefined
+    ? `, ${terms.deliveriesPerYear}×/year for ${terms.durationYears} year${terms.durationYears === 1 ? '' : 's'}`
+    : '';
+  return `${formatNumber(terms.quantity)} bottles at ${formatNumber(terms.pricePerBottle, { currency: true, decimals: 2 })}${schedule}`;
+}
+
+/**
+ * The customer's price multiplier and current relationship, as weighed in a negotiation
+ */
+export async function getNegotiationCustomer(customerId: string): Promise<NegotiationCustomer | null> {
+  const customer = (await loadCustomers())?.find(candidate => candidate.id === customerId);
+  if (!customer) return null;
+
+  const relationship = calculateCustomerRelationship(customer.marketShare, await getCurrentPrestige())
+    + await calculateCustomerRelationshipBoosts(customer.id);
+  return { priceMultiplier: customer.priceMultiplier, relationship };
+}
+
+/**
+ * Put a counter-offer to the customer and record the round. An accepted counter replaces the
+ * terms; a turned-down counter costs relationship, and after too many the customer withdraws.
+ */
+async function negotiate(
+  customerId: string,
+  customerName: string,
+  currentTerms: NegotiationTerms,
+  counterOffer: NegotiationTerms,
+  history: NegotiationRound[],
+  askingPrice: number | undefined,
+  staffId: string | undefined
+): Promise<{ round: NegotiationRound } | { error: string }> {
+  const validation = validateCounterOffer(currentTerms, counterOffer);
+  if (!validation.valid) return { error: validation.reason ?? 'Invalid counter-offer' };
+
+  const customer = await getNegotiationCustomer(customerId);
+  if (!customer) return { error: 'Customer not found' };
+
+  const staff = staffId ? (await staffFeature.records.getAll()).find(member => member.id === staffId) : undefined;
+  if (staffId && !staff) return { error: 'Staff member not found' };
+
+  const acceptanceProbability = calculateCounterOfferAcceptance({
+    currentTerms,
+    counterOffer,
+    askingPrice,
+    priceMultiplier: customer.priceMultiplier,
+    relationship: customer.relationship,
+    salesSkill: staff?.skills.sales,
+    previousRounds: history.length
+  });
+  const accepted = Math.random() < acceptanceProbability;
+  const walkedAway = !accepted && getFailedNegotiationRounds(history) + 1 >= NEGOTIATION.maxFailedRounds;
+
+  let relationshipPenalty: number | undefined;
+  if (!accepted) {
+    relationshipPenalty = walkedAway ? NEGOTIATION.walkAwayRelationshipPenalty : NEGOTIATION.failedRelationshipPenalty;
+    await createRelationshipPenalty(
+      customerId,
+      relationshipPenalty,
+      walkedAway ? `Negotiation broke down with ${customerName}` : `Counter-offer turned down by ${customerName}`
+    );
+  }
+
+  return {
+    round: {
+      date: getCurrentGameDate(),
+      previousTerms: currentTerms,
+      counterOffer,
+      staffId: staff?.id,
+      staffName: staff?.name,
+      acceptanceProbability,
+      accepted,
+      relationshipPenalty,
+      walkedAway: walkedAway || undefined
+    }
+  };
+}
+
+async function notifyNegotiationOutcome(customerName: string, subject: string, round: NegotiationRound, origin: string): Promise<string> {
+  const message = round.accepted
+    ? `${customerName} accepted our counter-offer on ${subject}: ${formatTerms(round.counterOffer)}.`
+    : round.walkedAway
+      ? `${customerName} broke off negotiations on ${subject} and withdrew.`
+      : `${customerName} turned down our counter-offer on ${subject} (${formatPercent(round.acceptanceProbability, 0, true)} chance) and holds to ${formatTerms(round.previousTerms)}.`;
+
+  await notificationService.addMessage(
+    message,
+    origin,
+    round.accepted ? 'Counter-offer Accepted' : round.walkedAway ? 'Negotiation Failed' : 'Counter-offer Rejected',
+    NotificationCategory.SALES_ORDERS
+  );
+  return message;
+}
+
+/**
+ * Counter a pending wine order on price and quantity
+ */
+export async function negotiateWineOrder(orderId: string, counterOffer: NegotiationTerms, staffId?: string): Promise<NegotiationResult> {
+  try {
+    const order = await getOrderById(orderId);
+    if (!order) return { success: false, accepted: false, walkedAway: false, acceptanceProbability: 0, message: 'Order not found' };
+    if (!canNegotiateOrder(order)) {
+      return { success: false, accepted: false, walkedAway: false, acceptanceProbability: 0, message: 'Only pending orders can be negotiated' };
+    }
+
+    const currentTerms = getOrderNegotiationTerms(order);
+    const counter: NegotiationTerms = { pricePerBottle: counterOffer.pricePerBottle, quantity: counterOffer.quantity };
+    const history = order.negotiationHistory ?? [];
+    const outcome = await negotiate(order.customerId, order.customerName, currentTerms, counter, history, order.askingPriceAtOrderTime, staffId);
+    if ('error' in outcome) {
+      return { success: false, accepted: false, walkedAway: false, acceptanceProbability: 0, message: outcome.error };
+    }
+
+    const { round } = outcome;
+    let updatedOrder: WineOrder = { ...order, negotiationHistory: [...history, round] };
+    if (round.accepted) {
+      const exportCost = order.calculationData?.exportCost;
+      updatedOrder = {
+        ...updatedOrder,
+        offeredPrice: counter.pricePerBottle,
+        requestedQuantity: counter.quantity,
+        totalValue: Math.min(Math.round(counter.quantity * counter.pricePerBottle * 100) / 100, SALES_CONSTANTS.MAX_PRICE),
+        calculationData: order.calculationData && exportCost && isExportMarketCountry(order.customerCountry)
+          ? {
+              ...order.calculationData,
+              exportCost: calculateExportLandedCost(
+                order.customerCountry,
+                getExportLandedPriceForExCellar(order.customerCountry, counter.pricePerBottle)
+              )
+            }
+          : order.calculationData
+      };
+    } else if (round.walkedAway) {
+      updatedOrder = { ...updatedOrder, status: 'rejected' };
+    }
+
+    await saveWineOrder(updatedOrder);
+    const message = await notifyNegotiationOutcome(order.customerName, order.wineName, round, 'negotiationManager.negotiateWineOrder');
+    triggerGameUpdate();
+
+    return {
+      success: true,
+      accepted: round.accepted,
+      walkedAway: Boolean(round.walkedAway),
+      acceptanceProbability: round.acceptanceProbability,
+      message
+    };
+  } catch (error) {
+    console.error('Error negotiating wine order:', error);
+    return {
+      success: false,
+      accepted: false,
+      walkedAway: false,
+      acceptanceProbability: 0,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Counter a contract on price, quantity per delivery and, for multi-year contracts, the delivery schedule
+ */
+export async function negotiateContract(contractId: string, counterOffer: NegotiationTerms, staffId?: string): Promise<NegotiationResult> {
+  try {
+    const contract = await getContractById(contractId);
+    if (!contract) return { success: false, accepted: false, walkedAway: false, acceptanceProbability: 0, message: 'Contract not found' };
+    if (!canNegotiateContract(contract)) {
+      return { success: false, accepted: false, walkedAway: false, acceptanceProbability: 0, message: 'The contract can no longer be negotiated' };
+    }
+
+    const currentTerms = getContractNegotiationTerms(contract);
+    const counter: NegotiationTerms = contract.terms
+      ? {
+          ...counterOffer,
+          deliveriesPerYear: counterOffer.deliveriesPerYear ?? contract.terms.deliveriesPerYear,
+          durationYears: counterOffer.durationYears ?? contract.terms.durationYears
+        }
+      : { pricePerBottle: counterOffer.pricePerBottle, quantity: counterOffer.quantity };
+    const history = contract.negotiationHistory ?? [];
+    const outcome = await negotiate(contract.customerId, contract.customerName, currentTerms, counter, history, undefined, staffId);
+    if ('error' in outcome) {
+      return { success: false, accepted: false, walkedAway: false, acceptanceProbability: 0, message: outcome.error };
+    }
+
+    const { round } = outcome;
+    const negotiationHistory = [...history, round];
+    if (round.accepted) {
+      const totalValue = Math.min(Math.round(counter.quantity * counter.pricePerBottle * 100) / 100, SALES_CONSTANTS.MAX_PRICE);
+      const patch: Record<string, any> = {
+        offered_price: counter.pricePerBottle,
+        requested_quantity: counter.quantity,
+        total_value: totalValue,
+        negotiation_history: negotiationHistory
+      };
+      if (contract.terms && counter.deliveriesPerYear !== undefined && counter.durationYears !== undefined) {
+        patch.terms = {
+          ...contract.terms,
+          deliveriesPerYear: counter.deliveriesPerYear,
+          durationYears: counter.durationYears,
+          totalDeliveries: counter.deliveriesPerYear * counter.durationYears
+        };
+      }
+      if (contract.contractMode === 'wine_presale') {
+        // The advance, final payment and default penalty follow the new contract value
+        const valueRatio = contract.totalValue > 0 ? totalValue / contract.totalValue : 1;
+        const upfrontPaidAmount = Math.round(totalValue * (contract.upfrontPercent ?? 0.25) * 100) / 100;
+        patch.upfront_paid_amount = upfrontPaidAmount;
+        patch.final_payment_amount = Math.round((totalValue - upfrontPaidAmount) * 100) / 100;
+        if (contract.defaultPenaltyAmount) {
+          patch.default_penalty_amount = Math.round(contract.defaultPenaltyAmount * valueRatio * 100) / 100;
+        }
+      }
+      await updateWineContract(contract.id, patch);
+    } else {
+      await updateWineContract(contract.id, { negotiation_history: negotiationHistory });
+      if (round.walkedAway) {
+        await updateContractStatus(contract.id, 'rejected', {
+          rejectedWeek: round.date.week,
+          rejectedSeason: round.date.season,
+          rejectedYear: round.date.year
+        });
+      }
+    }
+
+    const message = await notifyNegotiationOutcome(contract.customerName, 'their contract', round, 'negotiationManager.negotiateContract');
+    triggerGameUpdate();
+    triggerTopicUpdate('contracts');
+
+    return {
+      success: true,
+      accepted: round.accepted,
+      walkedAway: Boolean(round.walkedAway),
+      acceptanceProbability: round.acceptanceProbability,
+      message
+    };
+  } catch (error) {
+    console.error('Error negotiating contract:', error);
+    return {
+      success: false,
+      accepted: false,
+      walkedAway: false,
+      acceptanceProbability: 0,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,109 @@
+// Negotiation service - counter-offer terms, validation and the customer's chance of accepting
+import { NegotiationRound, NegotiationTerms, WineContract, WineOrder } from '../../types/types';
+import { NEGOTIATION } from '../../constants/negotiationConstants';
+
+export interface CounterOfferContext {
+  currentTerms: NegotiationTerms;
+  counterOffer: NegotiationTerms;
+  askingPrice?: number; // Our asking price when the order was placed (orders only)
+  priceMultiplier: number; // The customer's individual price multiplier
+  relationship: number;
+  salesSkill?: number; // Sales skill of the staff member negotiating; none means no salesperson
+  previousRounds: number;
+}
+
+export function getOrderNegotiationTerms(order: WineOrder): NegotiationTerms {
+  return { pricePerBottle: order.offeredPrice, quantity: order.requestedQuantity };
+}
+
+export function getContractNegotiationTerms(contract: WineContract): NegotiationTerms {
+  return {
+    pricePerBottle: contract.offeredPrice,
+    quantity: contract.requestedQuantity,
+    deliveriesPerYear: contract.terms?.deliveriesPerYear,
+    durationYears: contract.terms?.durationYears
+  };
+}
+
+export function getFailedNegotiationRounds(history: NegotiationRound[] | undefined): number {
+  return (history ?? []).filter(round => !round.accepted).length;
+}
+
+export function canNegotiateOrder(order: WineOrder): boolean {
+  return order.status === 'pending';
+}
+
+/**
+ * Pre-sales can be negotiated while offered, other contracts until their first delivery
+ */
+export function canNegotiateContract(contract: WineContract): boolean {
+  if (contract.status === 'offered') return true;
+  return contract.status === 'pending'
+    && contract.contractMode !== 'wine_presale'
+    && (contract.terms?.deliveriesCompleted ?? 0) === 0
+    && (contract.fulfilledWineBatchIds?.length ?? 0) === 0;
+}
+
+export function validateCounterOffer(
+  currentTerms: NegotiationTerms,
+  counterOffer: NegotiationTerms
+): { valid: boolean; reason?: string } {
+  if (!(counterOffer.pricePerBottle > 0)) {
+    return { valid: false, reason: 'The price must be above zero.' };
+  }
+  if (!Number.isInteger(counterOffer.quantity) || counterOffer.quantity < 1) {
+    return { valid: false, reason: 'The quantity must be at least one bottle.' };
+  }
+  if (currentTerms.deliveriesPerYear !== undefined) {
+    const deliveries = counterOffer.deliveriesPerYear ?? currentTerms.deliveriesPerYear;
+    if (!Number.isInteger(deliveries) || deliveries < 1 || deliveries > NEGOTIATION.maxDeliveriesPerYear) {
+      return { valid: false, reason: `Deliveries per year must be between 1 and ${NEGOTIATION.maxDeliveriesPerYear}.` };
+    }
+  }
+  if (currentTerms.durationYears !== undefined) {
+    const duration = counterOffer.durationYears ?? currentTerms.durationYears;
+    if (!Number.isInteger(duration) || duration < 1 || duration > NEGOTIATION.maxDurationYears) {
+      return { valid: false, reason: `The duration must be between 1 and ${NEGOTIATION.maxDurationYears} years.` };
+    }
+  }
+  const unchanged = counterOffer.pricePerBottle === currentTerms.pricePerBottle
+    && counterOffer.quantity === currentTerms.quantity
+    && (counterOffer.deliveriesPerYear ?? currentTerms.deliveriesPerYear) === currentTerms.deliveriesPerYear
+    && (counterOffer.durationYears ?? currentTerms.durationYears) === currentTerms.durationYears;
+  if (unchanged) {
+    return { valid: false, reason: 'The counter-offer does not change the terms.' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Chance the customer accepts a counter-offer. What the counter asks of them (a higher price,
+ * especially above our own asking price, a different quantity or schedule) is weighed against
+ * their goodwill: their price multiplier, relationship and the negotiating salesperson's skill.
+ * A lower price earns credit that can pay for other changes.
+ */
+export function calculateCounterOfferAcceptance(context: CounterOfferContext): number {
+  const { currentTerms, counterOffer } = context;
+
+  const priceChange = counterOffer.pricePerBottle / currentTerms.pricePerBottle - 1;
+  const overAsking = context.askingPrice && context.askingPrice > 0
+    ? Math.max(0, counterOffer.pricePerBottle / context.askingPrice - 1)
+    : 0;
+  const priceDemand = (priceChange + NEGOTIATION.overAskingWeight * overAsking)
+    / (NEGOTIATION.priceTolerance * Math.max(0.1, context.priceMultiplier));
+
+  const quantityRatio = counterOffer.quantity / currentTerms.quantity;
+  const quantityDemand = Math.max(0, quantityRatio - 1) / NEGOTIATION.quantityIncreaseTolerance
+    + Math.max(0, 1 - quantityRatio) / NEGOTIATION.quantityCutTolerance;
+
+  const scheduleSteps = Math.abs((counterOffer.deliveriesPerYear ?? currentTerms.deliveriesPerYear ?? 0) - (currentTerms.deliveriesPerYear ?? 0))
+    + Math.abs((counterOffer.durationYears ?? currentTerms.durationYears ?? 0) - (currentTerms.durationYears ?? 0));
+  const scheduleDemand = scheduleSteps * NEGOTIATION.scheduleStepWeight;
+
+  const salesSkill = context.salesSkill ?? NEGOTIATION.noStaffSalesSkill;
+  const goodwill = (1 + Math.max(0, context.relationship) * NEGOTIATION.relationshipWeight) * (0.5 + salesSkill);
+
+  const demand = Math.max(0, priceDemand + quantityDemand + scheduleDemand);
+  const acceptance = Math.exp(-demand / goodwill) * Math.pow(NEGOTIATION.patienceDecay, context.previousRounds);
+  return Math.max(0, Math.min(NEGOTIATION.maxAcceptance, acceptance));
+}
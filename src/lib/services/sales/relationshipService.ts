@@ -38,6 +38,29 @@ export async function createRelationshipBoost(
   });
 }
 
+/**
+ * Create a negative relationship boost of a fixed number of relationship points
+ * (e.g. when a customer turns down a counter-offer). It decays like any other boost.
+ */
+export async function createRelationshipPenalty(
+  customerId: string,
+  points: number,
+  description: string
+): Promise<void> {
+  await insertRelationshipBoost({
+    id: uuidv4(),
+    customer_id: customerId,
+    amount: -Math.abs(points),
+    created_game_week: calculateAbsoluteWeeks(
+      getGameState().week!,
+      getGameState().season!,
+      getGameState().currentYear!
+    ),
+    decay_rate: 0.95,
+    description,
+  });
+}
+
 /**
  * Calculate current relationship boost for a customer (amounts are pre-decayed on weekly ticks)
  */
@@ -51,7 +74,7 @@ export async function decayRelationshipBoostsOneWeek(): Promise<void> {
   try {
     const boostRows = await listRelationshipBoostsForDecay();
     const toDelete = boostRows
-      .filter((row) => (row.amount || 0) * (row.decay_rate || 1) < relationshipMinAmount)
+      .filter((row) => Math.abs((row.amount || 0) * (row.decay_rate || 1)) < relationshipMinAmount)
       .map((row) => row.id);
 
     await Promise.all(boostRows
@@ -14,6 +14,8 @@ import { getPendingOrders } from './salesService';
 import { createRelationshipBoost } from './relationshipService';
 import { updateWineOrderStatus } from '../../database/customers/salesDB';
 import { calculateAbsoluteWeeks, formatNumber, getRandomFromArray } from '../../utils/utils';
+import { getBottleMarket } from './bottleMarketManager';
+import { getBottleMarketConditions, getBottleMarketStyle } from './bottleMarketService';
 
 
 /**
@@ -36,6 +38,7 @@ export async function generateSophisticatedWineOrders(): Promise<{
     randomRoll: number;
     economyPhase: EconomyPhase;
     economyFrequencyMultiplier: number;
+    marketDemandMultiplier: number;
   };
 }> {
   // Step 1: Check if company prestige allows customer acquisition
@@ -69,10 +72,11 @@ export async function generateSophisticatedWineOrders(): Promise<{
     // Customer is browsing wine selection (no logging needed)
   
   try {
-    // Step 3: Load all available wines and vineyards once (batched operations)
-    const [allBatches, allVineyards] = await Promise.all([
+    // Step 3: Load all available wines, vineyards and the bottle market once (batched operations)
+    const [allBatches, allVineyards, bottleMarket] = await Promise.all([
       loadWineBatches(),
-      loadVineyards()
+      loadVineyards(),
+      getBottleMarket()
     ]);
     const availableWines = allBatches.filter(batch => batch.state === 'bottled' && batch.quantity > 0);
     
@@ -108,8 +112,13 @@ export async function generateSophisticatedWineOrders(): Promise<{
         continue; // Skip if vineyard not found
       }
       
+      // The customer's market for this wine's style
+      const style = getBottleMarketStyle(wineBatch);
+      const segment = bottleMarket.find(s => s.country === customer.country && s.style === style);
+      const marketConditions = segment ? getBottleMarketConditions(segment) : undefined;
+      
       // Use optimized generateOrder with pre-loaded data
-      const order = await generateOrder(customer, wineBatch, multipleOrderModifier, vineyard, currentPrestige);
+      const order = await generateOrder(customer, wineBatch, multipleOrderModifier, vineyard, currentPrestige, marketConditions);
       
       if (order) {
         orders.push(order);
@@ -10,6 +10,8 @@ import { getCurrentPrestige } from '../core/gameState';
 import { SALES_CONSTANTS } from '../../constants/constants';
 import { getAllFeatureConfigs } from '../wine/features/constants/commonFeaturesUtil';
 import { getInventoryBatchById, saveInventoryBatch } from '../wine/winery/inventoryService';
+import { recordBottleMarketSale } from './bottleMarketManager';
+import { shipExportOrder } from './exportManager';
 
 // ===== ORDER MANAGEMENT =====
 
@@ -76,13 +78,22 @@ export async function fulfillWineOrder(orderId: string): Promise<boolean> {
     }
   }
   
-  // Add money to player account through finance system
-  await addTransaction(
-    fulfillableValue,
-    `Wine Sale: ${order.wineName}${fulfillableQuantity < order.requestedQuantity ? ` (${fulfillableQuantity}/${order.requestedQuantity} bottles)` : ''}`,
-    'Wine Sales',
-    false
-  );
+  const exportCost = order.calculationData?.exportCost;
+  if (exportCost) {
+    // Export orders ship now and are paid for when they arrive
+    await shipExportOrder(order, fulfillableQuantity);
+  } else {
+    // Add money to player account through finance system
+    await addTransaction(
+      fulfillableValue,
+      `Wine Sale: ${order.wineName}${fulfillableQuantity < order.requestedQuantity ? ` (${fulfillableQuantity}/${order.requestedQuantity} bottles)` : ''}`,
+      'Wine Sales',
+      false
+    );
+  }
+
+  // Saturate the customer's market; selling below the wine's value depresses it further
+  await recordBottleMarketSale(order.customerCountry, wineBatch, fulfillableQuantity, exportCost?.landedPrice ?? order.offeredPrice);
   
   // Create relationship boost and prestige event for successful order
   try {
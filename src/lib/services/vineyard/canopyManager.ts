@@ -0,0 +1,126 @@
+import { Activity, CanopyTask, NotificationCategory, WorkCategory } from '@/lib/types/types';
+import { activitiesFeature } from '@/lib/features/activities';
+import { CANOPY_ACTIVITY_TYPE, CANOPY_TASKS, GREEN_HARVEST_SHARE } from '@/lib/constants/canopyConstants';
+import { loadVineyards, saveVineyard } from '../../database/activities/vineyardDB';
+import { notificationService } from '../core/notificationService';
+import { getGameState } from '../core/gameState';
+import { triggerGameUpdate } from '../../../hooks/useGameUpdates';
+import { buildCanopyWorkedVineyard, validateCanopyTask } from './canopyService';
+
+/**
+ * Create a canopy work activity (leaf removal, shoot thinning or green harvest) for a growing vineyard
+ */
+export async function createCanopyActivity(
+  vineyardId: string,
+  task: CanopyTask,
+  greenHarvestShare?: number
+): Promise<boolean> {
+  try {
+    const vineyard = (await loadVineyards()).find(v => v.id === vineyardId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const share = task === 'greenHarvest' ? greenHarvestShare ?? GREEN_HARVEST_SHARE.default : undefined;
+    const validation = validateCanopyTask(vineyard, task, getGameState().season ?? 'Spring', share);
+    if (!validation.valid) {
+      await notificationService.addMessage(
+        validation.reason ?? 'This canopy work cannot be started now.',
+        'canopyManager.createCanopyActivity',
+        'Canopy Work',
+        NotificationCategory.VINEYARD_OPERATIONS
+      );
+      return false;
+    }
+
+    const { totalWork } = activitiesFeature.work.calculateCanopy(vineyard, task);
+    const label = CANOPY_TASKS[task].label;
+
+    const result = await activitiesFeature.lifecycle.createWithResult({
+      category: WorkCategory.CLEARING,
+      title: `${label}: ${vineyard.name}`,
+      totalWork,
+      activityDetails: share !== undefined
+        ? `Drop ${Math.round(share * 100)}% of the crop`
+        : CANOPY_TASKS[task].description,
+      targetId: vineyardId,
+      params: {
+        type: CANOPY_ACTIVITY_TYPE,
+        task,
+        greenHarvestShare: share,
+        grape: vineyard.grape,
+        targetName: vineyard.name,
+        vineyardHectares: vineyard.hectares,
+      },
+      isCancellable: true,
+    });
+
+    if (!result.activityId) {
+      throw new Error(result.reason ?? 'The activity could not be created');
+    }
+    return true;
+  } catch (error) {
+    console.error('Error creating canopy activity:', error);
+    await notificationService.addMessage(
+      `Failed to start canopy work: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'canopyManager.createCanopyActivity',
+      'Canopy Work Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+    return false;
+  }
+}
+
+/**
+ * Complete a canopy work activity and record it on the vineyard for this season.
+ * The vineyard is checked again first: work finishing after harvest, replanting or out of season is dropped.
+ */
+export async function completeCanopyActivity(activity: Activity): Promise<void> {
+  try {
+    const task = activity.params?.task as CanopyTask | undefined;
+    if (!activity.targetId || !task || !CANOPY_TASKS[task]) {
+      throw new Error('Canopy activity has no target vineyard or task');
+    }
+
+    const vineyard = (await loadVineyards()).find(v => v.id === activity.targetId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const greenHarvestShare = activity.params?.greenHarvestShare as number | undefined;
+    const label = CANOPY_TASKS[task].label;
+    const plantedGrape = activity.params?.grape as string | undefined;
+    const validation = plantedGrape && vineyard.grape !== plantedGrape
+      ? { valid: false, reason: 'The vineyard was replanted while the work was under way.' }
+      : validateCanopyTask(vineyard, task, getGameState().season ?? 'Spring', greenHarvestShare);
+    if (!validation.valid) {
+      await notificationService.addMessage(
+        `${label} on ${vineyard.name} no longer applies and was dropped. ${validation.reason ?? ''}`.trim(),
+        'canopyManager.completeCanopyActivity',
+        'Canopy Work Dropped',
+        NotificationCategory.VINEYARD_OPERATIONS
+      );
+      return;
+    }
+
+    await saveVineyard(buildCanopyWorkedVineyard(vineyard, task, greenHarvestShare));
+    triggerGameUpdate();
+
+    await notificationService.addMessage(
+      task === 'greenHarvest'
+        ? `${label} completed on ${vineyard.name}: ${Math.round((greenHarvestShare ?? 0) * 100)}% of the crop was dropped so the rest ripens faster.`
+        : `${label} completed on ${vineyard.name}.`,
+      'canopyManager.completeCanopyActivity',
+      'Canopy Work Completed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  } catch (error) {
+    console.error('Error completing canopy activity:', error);
+    await notificationService.addMessage(
+      `Failed to complete canopy work: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'canopyManager.completeCanopyActivity',
+      'Canopy Work Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  }
+}
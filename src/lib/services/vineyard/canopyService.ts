@@ -0,0 +1,106 @@
+import type { CanopyTask, CanopyWork, Season, Vineyard } from '../../types/types';
+import { CANOPY_TASKS, GREEN_HARVEST_SHARE } from '@/lib/constants/canopyConstants';
+
+/**
+ * Canopy Service
+ * Effects of this season's canopy work on yield, ripening, fault risk and harvest anchors
+ */
+
+export interface CanopyEffects {
+  seasonYieldMultiplier: number;
+  ripenessMultiplier: number;
+  greyRotRiskMultiplier: number;
+  greenFlavorRiskMultiplier: number;
+  sugarPotentialShift: number;
+  phenolicPotentialShift: number;
+}
+
+// Share of each task's full effect: green harvest scales with the crop dropped
+function getCanopyTaskScale(canopyWork: CanopyWork, task: CanopyTask): number {
+  if (task === 'greenHarvest') return Math.max(0, Math.min(1, canopyWork.greenHarvestShare ?? 0));
+  return canopyWork[task] ? 1 : 0;
+}
+
+export function isCanopyTaskDone(canopyWork: CanopyWork | undefined, task: CanopyTask): boolean {
+  return getCanopyTaskScale(canopyWork ?? {}, task) > 0;
+}
+
+/**
+ * Combined effects of the canopy work done on a vineyard this season
+ */
+export function getCanopyEffects(canopyWork: CanopyWork | undefined): CanopyEffects {
+  const effects: CanopyEffects = {
+    seasonYieldMultiplier: 1,
+    ripenessMultiplier: 1,
+    greyRotRiskMultiplier: 1,
+    greenFlavorRiskMultiplier: 1,
+    sugarPotentialShift: 0,
+    phenolicPotentialShift: 0
+  };
+  if (!canopyWork) return effects;
+
+  for (const task of Object.keys(CANOPY_TASKS) as CanopyTask[]) {
+    const scale = getCanopyTaskScale(canopyWork, task);
+    if (scale <= 0) continue;
+    const info = CANOPY_TASKS[task];
+    effects.seasonYieldMultiplier *= 1 - (1 - info.seasonYieldMultiplier) * scale;
+    effects.ripenessMultiplier += info.ripenessSpeedBonus * scale;
+    effects.greyRotRiskMultiplier *= 1 - (1 - info.greyRotRiskMultiplier) * scale;
+    effects.greenFlavorRiskMultiplier *= 1 - (1 - info.greenFlavorRiskMultiplier) * scale;
+    effects.sugarPotentialShift += info.sugarPotentialShift * scale;
+    effects.phenolicPotentialShift += info.phenolicPotentialShift * scale;
+  }
+  return effects;
+}
+
+/**
+ * Canopy work for the season after one more task
+ */
+export function addCanopyTask(canopyWork: CanopyWork | undefined, task: CanopyTask, greenHarvestShare?: number): CanopyWork {
+  if (task === 'greenHarvest') {
+    return { ...canopyWork, greenHarvestShare: greenHarvestShare ?? GREEN_HARVEST_SHARE.default };
+  }
+  return { ...canopyWork, [task]: true };
+}
+
+/**
+ * Vineyard after a completed canopy task: the season's canopy work and any vine yield given up
+ */
+export function buildCanopyWorkedVineyard(vineyard: Vineyard, task: CanopyTask, greenHarvestShare?: number): Vineyard {
+  return {
+    ...vineyard,
+    canopyWork: addCanopyTask(vineyard.canopyWork, task, greenHarvestShare),
+    vineYield: Math.max(0.02, (vineyard.vineYield || 0.02) - CANOPY_TASKS[task].vineYieldLoss)
+  };
+}
+
+/**
+ * Check whether a canopy task can be started on a vineyard this week
+ */
+export function validateCanopyTask(
+  vineyard: Vineyard,
+  task: CanopyTask,
+  season: Season,
+  greenHarvestShare?: number
+): { valid: boolean; reason?: string } {
+  const info = CANOPY_TASKS[task];
+  if (!vineyard.grape || vineyard.status !== 'Growing') {
+    return { valid: false, reason: 'Canopy work is only possible on vines that are growing this season.' };
+  }
+  if (!info.seasons.includes(season)) {
+    return { valid: false, reason: `${info.label} can only be done in ${info.seasons.join(' or ')}.` };
+  }
+  if (isCanopyTaskDone(vineyard.canopyWork, task)) {
+    return { valid: false, reason: `${info.label} was already done on this vineyard this season.` };
+  }
+  if (task === 'greenHarvest') {
+    const share = greenHarvestShare ?? GREEN_HARVEST_SHARE.default;
+    if (share < GREEN_HARVEST_SHARE.min || share > GREEN_HARVEST_SHARE.max) {
+      return {
+        valid: false,
+        reason: `A green harvest drops between ${Math.round(GREEN_HARVEST_SHARE.min * 100)}% and ${Math.round(GREEN_HARVEST_SHARE.max * 100)}% of the crop.`
+      };
+    }
+  }
+  return { valid: true };
+}
@@ -4,10 +4,14 @@ import { updateVineyardHealth } from './clearingService';
 import { notificationService } from '../core/notificationService';
 import { NotificationCategory } from '@/lib/types/types';
 import { loadVineyards } from '../../database/activities/vineyardDB';
+import { recordVineyardHistoryEvent } from './vineyardHistoryManager';
+import { researchUpgradeFeature } from '@/lib/features/researchUpgrade';
+import { isVineCloneAvailable, type PlantingMaterial } from './plantingMaterialService';
 
 export interface ClearingActivityOptions {
   tasks: { [key: string]: boolean };
   replantingIntensity: number;
+  material?: PlantingMaterial; // Rootstock and clone of the replanted vines
 }
 
 // Work calculation is now handled by clearingWorkCalculator.ts
@@ -55,6 +59,19 @@ export async function createClearingActivity(
       return false;
     }
 
+    if (options.tasks['replant-vines'] && options.material) {
+      const unlockedClones = await researchUpgradeFeature.unlocks.getUnlockedItems('vine_clone');
+      if (!isVineCloneAvailable(options.material.vineClone, unlockedClones)) {
+        await notificationService.addMessage(
+          `This clone has not been researched yet and cannot be replanted.`,
+          'clearingManager.createClearingActivity',
+          'Clone Locked',
+          NotificationCategory.VINEYARD_OPERATIONS
+        );
+        return false;
+      }
+    }
+
     // Calculate work using the dedicated clearing work calculator
     const workResult = activitiesFeature.work.calculateClearing(vineyard, options);
     
@@ -75,6 +92,7 @@ export async function createClearingActivity(
       params: {
         tasks: options.tasks,
         replantingIntensity: options.replantingIntensity,
+        ...(options.tasks['replant-vines'] && options.material ? options.material : {}),
         selectedTasks: workResult.selectedTasks,
         vineyardHectares: vineyard.hectares, // Store for reference
       },
@@ -106,9 +124,25 @@ export async function completeClearingActivity(activity: Activity): Promise<void
     const vineyardId = activity.targetId;
     const tasks = activity.params?.tasks as { [key: string]: boolean } || {};
     const replantingIntensity = activity.params?.replantingIntensity as number || 100;
+    const material: PlantingMaterial | undefined = activity.params?.rootstock && activity.params?.vineClone
+      ? { rootstock: activity.params.rootstock, vineClone: activity.params.vineClone }
+      : undefined;
+
+    const vineyardBefore = (await loadVineyards()).find(v => v.id === vineyardId);
 
     // Apply health improvements to the vineyard using new calculation system
-    await updateVineyardHealth(vineyardId, tasks, replantingIntensity);
+    await updateVineyardHealth(vineyardId, tasks, replantingIntensity, material);
+
+    // Uprooting and replanting change the vines in the ground, so they go into the vineyard history
+    const vineEventType = tasks['uproot-vines'] ? 'uprooted' : tasks['replant-vines'] ? 'replanted' : null;
+    if (vineEventType && vineyardBefore?.grape) {
+      const vineyardAfter = (await loadVineyards()).find(v => v.id === vineyardId);
+      await recordVineyardHistoryEvent(vineyardBefore, vineEventType, {
+        // Uprooting that leaves the vineyard barren counts as a full uproot
+        intensity: vineyardAfter?.grape ? Math.min(1, replantingIntensity / 100) : 1,
+        density: vineyardAfter?.density ?? 0
+      });
+    }
 
     // Activity completion is handled automatically by the activity manager
     // when work reaches total work
@@ -1,17 +1,21 @@
 import { loadVineyards, saveVineyard } from '../../database/activities/vineyardDB';
 import { triggerGameUpdate } from '../../../hooks/useGameUpdates';
 import { calculateClearingHealth } from './clearingRules';
+import type { PlantingMaterial } from './plantingMaterialService';
+import { PLANTING_MATERIAL } from '@/lib/constants/plantingMaterialConstants';
 
 /**
  * Update vineyard health by applying health improvements from clearing activities
  * @param vineyardId - The vineyard ID
  * @param tasks - The clearing tasks that were completed
  * @param replantingIntensity - The intensity of replanting (0-100%)
+ * @param material - Rootstock and clone of the replanted vines
  */
 export async function updateVineyardHealth(
   vineyardId: string, 
   tasks: { [key: string]: boolean }, 
-  replantingIntensity: number = 100
+  replantingIntensity: number = 100,
+  material?: PlantingMaterial
 ): Promise<void> {
   try {
     const vineyards = await loadVineyards();
@@ -31,6 +35,8 @@ export async function updateVineyardHealth(
     let newStatus = vineyard.status;
     let newGrape = vineyard.grape;
     let newDensity = vineyard.density;
+    let newRootstock = vineyard.rootstock;
+    let newVineClone = vineyard.vineClone;
     
     // Handle uprooting: reduce density (mutually exclusive with replanting)
     if (tasks['uproot-vines']) {
@@ -43,6 +49,8 @@ export async function updateVineyardHealth(
         newDensity = 0;
         newVineAge = null;
         newVineYield = 0.02; // Reset to default yield
+        newRootstock = undefined;
+        newVineClone = undefined;
       } else {
         // Partial uprooting - reduce vine age and density proportionally
         if (vineyard.vineAge !== null) {
@@ -55,6 +63,8 @@ export async function updateVineyardHealth(
             newGrape = null;
             newDensity = 0;
             newVineAge = null;
+            newRootstock = undefined;
+            newVineClone = undefined;
           }
         }
       }
@@ -78,6 +88,12 @@ export async function updateVineyardHealth(
       // 100% replanting = 20% improvement over 5 years, 50% replanting = 10% improvement over 5 years
       const maxHealthImprovement = 0.2; // 20% maximum improvement
       newPlantingHealthBonus = maxHealthImprovement * intensity;
+
+      // Once the new vines make up most of the vineyard, their rootstock and clone define it
+      if (material && intensity >= PLANTING_MATERIAL.replantMaterialShare) {
+        newRootstock = material.rootstock;
+        newVineClone = material.vineClone;
+      }
       
       // Replanting never resets to barren - it keeps the same grape variety
       // 100% replanting just means all vines are replaced with new ones of the same variety
@@ -101,6 +117,8 @@ export async function updateVineyardHealth(
       status: newStatus,
       grape: newGrape,
       density: newDensity,
+      rootstock: newRootstock,
+      vineClone: newVineClone,
       overgrowth: updatedOvergrowth,
       plantingHealthBonus: newPlantingHealthBonus // Set gradual health improvement for replanting
     };
@@ -0,0 +1,113 @@
+import type { FarmingCertification, FarmingMethod, Vineyard, WineBatch } from '../../types/types';
+import {
+  DEFAULT_FARMING_METHOD,
+  FARMING_CERTIFICATION_RANK,
+  FARMING_METHODS,
+  ORGANIC_CONVERSION_YEARS
+} from '@/lib/constants/farmingConstants';
+
+/**
+ * Farming Service
+ * Farming method per vineyard, its organic conversion and the certification it earns
+ */
+
+type FarmingState = Pick<Vineyard, 'farmingMethod' | 'organicYears' | 'biodynamicYears'>;
+
+export function getFarmingMethod(vineyard: FarmingState): FarmingMethod {
+  return vineyard.farmingMethod ?? DEFAULT_FARMING_METHOD;
+}
+
+/**
+ * Conversion years counted towards the current method: organic years, or biodynamic years for biodynamic farming
+ */
+export function getFarmingConversionYears(vineyard: FarmingState): number {
+  const method = getFarmingMethod(vineyard);
+  if (method === 'conventional') return 0;
+  return method === 'biodynamic' ? vineyard.biodynamicYears ?? 0 : vineyard.organicYears ?? 0;
+}
+
+/**
+ * Certification held by the vineyard once a conversion period is complete. A biodynamic
+ * vineyard still converting keeps its organic certification, since its farming stays organic.
+ */
+export function getFarmingCertification(vineyard: FarmingState): FarmingCertification | null {
+  const method = getFarmingMethod(vineyard);
+  if (method === 'conventional') return null;
+  if (method === 'biodynamic' && (vineyard.biodynamicYears ?? 0) >= ORGANIC_CONVERSION_YEARS) return 'biodynamic';
+  return (vineyard.organicYears ?? 0) >= ORGANIC_CONVERSION_YEARS ? 'organic' : null;
+}
+
+/**
+ * Conversion years still needed before certification in the current method (0 when certified or farmed conventionally)
+ */
+export function getFarmingConversionYearsRemaining(vineyard: FarmingState): number {
+  if (getFarmingMethod(vineyard) === 'conventional') return 0;
+  return Math.max(0, ORGANIC_CONVERSION_YEARS - getFarmingConversionYears(vineyard));
+}
+
+export function getFarmingYieldMultiplier(vineyard: FarmingState): number {
+  return FARMING_METHODS[getFarmingMethod(vineyard)].yieldMultiplier;
+}
+
+export function getFarmingHealthDecayMultiplier(vineyard: FarmingState): number {
+  return FARMING_METHODS[getFarmingMethod(vineyard)].healthDecayMultiplier;
+}
+
+export function getFarmingLandValueBonus(vineyard: FarmingState): number {
+  const certification = getFarmingCertification(vineyard);
+  return certification ? FARMING_METHODS[certification].landValueBonus : 0;
+}
+
+export function getFarmingPrestigeMultiplier(vineyard: FarmingState): number {
+  const certification = getFarmingCertification(vineyard);
+  return certification ? FARMING_METHODS[certification].prestigeMultiplier : 1;
+}
+
+/**
+ * Check whether a certification meets a required one; biodynamic includes organic
+ */
+export function meetsFarmingCertification(
+  certification: FarmingCertification | null | undefined,
+  required: FarmingCertification
+): boolean {
+  return !!certification && FARMING_CERTIFICATION_RANK[certification] >= FARMING_CERTIFICATION_RANK[required];
+}
+
+/**
+ * Certification kept by wine made from several batches: the lowest one, if every batch is certified
+ */
+export function getSharedFarmingCertification(batches: Pick<WineBatch, 'farmingCertification'>[]): FarmingCertification | undefined {
+  let shared: FarmingCertification | undefined;
+  for (const batch of batches) {
+    if (!batch.farmingCertification) return undefined;
+    if (!shared || FARMING_CERTIFICATION_RANK[batch.farmingCertification] < FARMING_CERTIFICATION_RANK[shared]) {
+      shared = batch.farmingCertification;
+    }
+  }
+  return shared;
+}
+
+/**
+ * Farming state after another year: organic and biodynamic vineyards count one more organic year,
+ * and biodynamic vineyards one more biodynamic year
+ */
+export function advanceFarmingYear(vineyard: FarmingState): Required<FarmingState> {
+  const farmingMethod = getFarmingMethod(vineyard);
+  const organicYears = farmingMethod === 'conventional' ? 0 : (vineyard.organicYears ?? 0) + 1;
+  const biodynamicYears = farmingMethod === 'biodynamic' ? (vineyard.biodynamicYears ?? 0) + 1 : 0;
+  return { farmingMethod, organicYears, biodynamicYears };
+}
+
+/**
+ * Farming state after switching method. Going conventional ends both conversions; moving between
+ * organic and biodynamic keeps the organic years and restarts the biodynamic conversion.
+ */
+export function changeFarmingMethod(vineyard: FarmingState, farmingMethod: FarmingMethod): Required<FarmingState> {
+  const current = getFarmingMethod(vineyard);
+  const keepsOrganicYears = farmingMethod !== 'conventional' && current !== 'conventional';
+  return {
+    farmingMethod,
+    organicYears: keepsOrganicYears ? vineyard.organicYears ?? 0 : 0,
+    biodynamicYears: farmingMethod === current ? vineyard.biodynamicYears ?? 0 : 0
+  };
+}
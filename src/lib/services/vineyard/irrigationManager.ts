@@ -0,0 +1,146 @@
+import { Activity, NotificationCategory, WorkCategory } from '@/lib/types/types';
+import { activitiesFeature } from '@/lib/features/activities';
+import { IRRIGATION_ACTIVITY_TYPE } from '@/lib/constants/irrigationConstants';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import { bulkUpdateVineyards, loadVineyards, saveVineyard } from '../../database/activities/vineyardDB';
+import { notificationService } from '../core/notificationService';
+import { addTransaction } from '../finance/financeService';
+import { triggerGameUpdate } from '../../../hooks/useGameUpdates';
+import { formatNumber } from '../../utils/utils';
+import { calculateIrrigationInstallCost, calculateIrrigationRunningCost, validateIrrigationInstall } from './irrigationService';
+
+/**
+ * Create a building activity that installs irrigation on a vineyard where local rules allow it
+ */
+export async function createIrrigationInstallActivity(vineyardId: string): Promise<boolean> {
+  try {
+    const vineyard = (await loadVineyards()).find(v => v.id === vineyardId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const validation = validateIrrigationInstall(vineyard);
+    if (!validation.valid) {
+      await notificationService.addMessage(
+        validation.reason ?? 'Irrigation cannot be installed on this vineyard.',
+        'irrigationManager.createIrrigationInstallActivity',
+        'Irrigation',
+        NotificationCategory.VINEYARD_OPERATIONS
+      );
+      return false;
+    }
+
+    const { totalWork } = activitiesFeature.work.calculateIrrigation(vineyard);
+    const cost = calculateIrrigationInstallCost(vineyard);
+
+    const result = await activitiesFeature.lifecycle.createWithResult({
+      category: WorkCategory.BUILDING,
+      title: `Install Irrigation: ${vineyard.name}`,
+      totalWork,
+      activityDetails: `Drip irrigation for ${vineyard.hectares} ha (€${formatNumber(cost)} on completion)`,
+      targetId: vineyardId,
+      params: {
+        type: IRRIGATION_ACTIVITY_TYPE,
+        cost,
+        targetName: vineyard.name,
+        vineyardHectares: vineyard.hectares,
+      },
+      isCancellable: true,
+    });
+
+    if (!result.activityId) {
+      throw new Error(result.reason ?? 'The activity could not be created');
+    }
+    return true;
+  } catch (error) {
+    console.error('Error creating irrigation activity:', error);
+    await notificationService.addMessage(
+      `Failed to start irrigation installation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'irrigationManager.createIrrigationInstallActivity',
+      'Irrigation Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+    return false;
+  }
+}
+
+/**
+ * Complete an irrigation installation: pay for it and switch the new irrigation on
+ */
+export async function completeIrrigationInstall(activity: Activity): Promise<void> {
+  try {
+    if (!activity.targetId) {
+      throw new Error('Irrigation activity has no target vineyard');
+    }
+
+    const vineyard = (await loadVineyards()).find(v => v.id === activity.targetId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const cost = Number(activity.params.cost) || calculateIrrigationInstallCost(vineyard);
+    await addTransaction(-cost, `Irrigation installation for ${vineyard.name}`, TRANSACTION_CATEGORIES.BUILDING_CONSTRUCTION);
+    await saveVineyard({ ...vineyard, irrigation: { active: true, weeksWatered: 0 } });
+    triggerGameUpdate();
+
+    await notificationService.addMessage(
+      `Irrigation is installed on ${vineyard.name} and will water the vines in dry growing-season weeks.`,
+      'irrigationManager.completeIrrigationInstall',
+      'Irrigation Installed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  } catch (error) {
+    console.error('Error completing irrigation installation:', error);
+    await notificationService.addMessage(
+      `Failed to complete irrigation installation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'irrigationManager.completeIrrigationInstall',
+      'Irrigation Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  }
+}
+
+/**
+ * Switch installed irrigation on or off
+ */
+export async function setVineyardIrrigationActive(vineyardId: string, active: boolean): Promise<boolean> {
+  try {
+    const vineyard = (await loadVineyards()).find(v => v.id === vineyardId);
+    if (!vineyard?.irrigation) {
+      throw new Error('Irrigation is not installed on this vineyard');
+    }
+
+    await saveVineyard({ ...vineyard, irrigation: { ...vineyard.irrigation, active } });
+    triggerGameUpdate();
+    return true;
+  } catch (error) {
+    console.error('Error switching irrigation:', error);
+    return false;
+  }
+}
+
+/**
+ * Bill the running costs of last season's irrigation and start counting again.
+ * Runs at each season change.
+ */
+export async function billVineyardIrrigation(): Promise<void> {
+  try {
+    const watered = (await loadVineyards()).filter(v => (v.irrigation?.weeksWatered ?? 0) > 0);
+    if (watered.length === 0) return;
+
+    const total = watered.reduce(
+      (sum, vineyard) => sum + calculateIrrigationRunningCost(vineyard, vineyard.irrigation?.weeksWatered ?? 0),
+      0
+    );
+    if (total > 0) {
+      await addTransaction(-total, `Irrigation running costs (${watered.map(v => v.name).join(', ')})`, TRANSACTION_CATEGORIES.UTILITIES, true);
+    }
+
+    await bulkUpdateVineyards(watered.map(vineyard => ({
+      ...vineyard,
+      irrigation: { active: vineyard.irrigation?.active ?? false, weeksWatered: 0 }
+    })));
+  } catch (error) {
+    console.error('Error billing vineyard irrigation:', error);
+  }
+}
@@ -0,0 +1,79 @@
+import type { Season, Vineyard } from '../../types/types';
+import { IRRIGATION, IRRIGATION_RESTRICTIONS, WATER_STRESS } from '@/lib/constants/irrigationConstants';
+import { WEATHER_SOIL_MOISTURE } from '@/lib/constants/weatherConstants';
+
+/**
+ * Irrigation Service
+ * Irrigation rules and costs, and the effects of water stress on the vines and harvest anchors
+ */
+
+export interface WaterStressEffects {
+  stressShare: number; // Share of a full season spent at full water stress (0-1)
+  acidPotentialShift: number;
+  phenolicPotentialShift: number;
+}
+
+export function getSoilMoisture(vineyard: Vineyard): number {
+  return vineyard.waterState?.soilMoisture ?? WEATHER_SOIL_MOISTURE.default;
+}
+
+/**
+ * Water stress for a soil moisture level: 0 at or above the threshold, rising to 1 for dry soil
+ */
+export function getWaterStress(soilMoisture: number): number {
+  if (soilMoisture >= WATER_STRESS.threshold) return 0;
+  return Math.min(1, (WATER_STRESS.threshold - Math.max(0, soilMoisture)) / WATER_STRESS.threshold);
+}
+
+/**
+ * Soil water added by irrigation this week, topping moisture up towards the target.
+ * Only active irrigation waters, and never in Winter.
+ */
+export function getIrrigationWater(vineyard: Vineyard, soilMoisture: number, season: Season): number {
+  if (!vineyard.irrigation?.active || season === 'Winter') return 0;
+  return Math.max(0, Math.min(IRRIGATION.weeklyWater, IRRIGATION.targetMoisture - soilMoisture));
+}
+
+/**
+ * Harvest anchor shifts from this year's water stress: drought concentrates phenolics and lowers acidity
+ */
+export function getWaterStressEffects(vineyard: Vineyard): WaterStressEffects {
+  const stressShare = Math.min(1, Math.max(0, vineyard.waterState?.stressWeeks ?? 0) / WATER_STRESS.seasonWeeks);
+  return {
+    stressShare,
+    acidPotentialShift: WATER_STRESS.acidPotentialShift * stressShare,
+    phenolicPotentialShift: WATER_STRESS.phenolicPotentialShift * stressShare
+  };
+}
+
+/**
+ * Whether irrigation is allowed in a region, with the rule that forbids it
+ */
+export function getIrrigationRule(country: string, region: string): { allowed: boolean; reason?: string } {
+  const restriction = IRRIGATION_RESTRICTIONS[country];
+  if (!restriction) return { allowed: true };
+  if (restriction.regions && !restriction.regions.includes(region)) return { allowed: true };
+  return { allowed: false, reason: restriction.reason };
+}
+
+export function calculateIrrigationInstallCost(vineyard: Vineyard): number {
+  return Math.round(vineyard.hectares * IRRIGATION.installCostPerHectare);
+}
+
+export function calculateIrrigationRunningCost(vineyard: Vineyard, weeksWatered: number): number {
+  return Math.round(vineyard.hectares * weeksWatered * IRRIGATION.runningCostPerHectareWeek);
+}
+
+/**
+ * Check whether irrigation can be installed on a vineyard
+ */
+export function validateIrrigationInstall(vineyard: Vineyard): { valid: boolean; reason?: string } {
+  if (vineyard.irrigation) {
+    return { valid: false, reason: 'Irrigation is already installed on this vineyard.' };
+  }
+  const rule = getIrrigationRule(vineyard.country, vineyard.region);
+  if (!rule.allowed) {
+    return { valid: false, reason: rule.reason };
+  }
+  return { valid: true };
+}
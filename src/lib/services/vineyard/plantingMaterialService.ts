@@ -0,0 +1,82 @@
+import type { Rootstock, VineClone, VineDisease, Vineyard } from '../../types/types';
+import { PLANTING_MATERIAL, ROOTSTOCKS, VINE_CLONES } from '@/lib/constants/plantingMaterialConstants';
+
+/**
+ * Planting Material Service
+ * Effects of a vineyard's rootstock and clone on vine establishment, crop size, ripening,
+ * drought and disease, and the harvest anchors; vines without recorded material are neutral
+ */
+
+export interface PlantingMaterial {
+  rootstock: Rootstock;
+  vineClone: VineClone;
+}
+
+export interface PlantingMaterialEffects {
+  vineYieldGrowthMultiplier: number; // Applied to the yearly vine-yield gains while vines establish
+  naturalYieldMultiplier: number;
+  ripeningMultiplier: number;
+  droughtResistance: number;
+  soilFit: number; // Share of the vineyard's soils that suit the rootstock
+  phenolicPotentialShift: number;
+  aromaticPotentialShift: number;
+  acidPotentialShift: number;
+}
+
+const NEUTRAL_EFFECTS: PlantingMaterialEffects = {
+  vineYieldGrowthMultiplier: 1,
+  naturalYieldMultiplier: 1,
+  ripeningMultiplier: 1,
+  droughtResistance: 0,
+  soilFit: 0,
+  phenolicPotentialShift: 0,
+  aromaticPotentialShift: 0,
+  acidPotentialShift: 0
+};
+
+export function getRootstockSoilFit(rootstock: Rootstock, soil: string[]): number {
+  if (soil.length === 0) return 0;
+  const affinity = ROOTSTOCKS[rootstock].soilAffinity;
+  return soil.filter(s => affinity.includes(s)).length / soil.length;
+}
+
+export function getPlantingMaterialEffects(vineyard: Vineyard): PlantingMaterialEffects {
+  if (!vineyard.grape || (!vineyard.rootstock && !vineyard.vineClone)) {
+    return NEUTRAL_EFFECTS;
+  }
+
+  const rootstock = vineyard.rootstock ? ROOTSTOCKS[vineyard.rootstock] : undefined;
+  const clone = VINE_CLONES[vineyard.vineClone ?? 'standard'];
+  const vigour = rootstock?.vigour ?? 1;
+  const soilFit = vineyard.rootstock ? getRootstockSoilFit(vineyard.rootstock, vineyard.soil) : 0;
+
+  return {
+    vineYieldGrowthMultiplier: vigour * clone.vineYieldGrowthMultiplier * (1 + PLANTING_MATERIAL.soilAffinityBonus * soilFit),
+    naturalYieldMultiplier: clone.naturalYieldMultiplier,
+    ripeningMultiplier: (rootstock?.ripeningMultiplier ?? 1) * clone.ripeningMultiplier,
+    droughtResistance: rootstock?.droughtResistance ?? 0,
+    soilFit,
+    phenolicPotentialShift: clone.phenolicPotentialShift + (1 - vigour) * PLANTING_MATERIAL.vigourPhenolicShift,
+    aromaticPotentialShift: clone.aromaticPotentialShift,
+    acidPotentialShift: clone.acidPotentialShift
+  };
+}
+
+/**
+ * Change in resistance to a disease from the rootstock, added to the grape's own resistance
+ */
+export function getRootstockDiseaseResistance(vineyard: Vineyard, disease: VineDisease): number {
+  return vineyard.rootstock ? ROOTSTOCKS[vineyard.rootstock].diseaseResistance[disease] ?? 0 : 0;
+}
+
+/**
+ * Clones available to plant: standard selections always, premium ones once researched
+ */
+export function getAvailableVineClones(unlockedClones: string[]): VineClone[] {
+  return (Object.keys(VINE_CLONES) as VineClone[])
+    .filter(clone => !VINE_CLONES[clone].premium || unlockedClones.includes(clone));
+}
+
+export function isVineCloneAvailable(clone: VineClone, unlockedClones: string[]): boolean {
+  return getAvailableVineClones(unlockedClones).includes(clone);
+}
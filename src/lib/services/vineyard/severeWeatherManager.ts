@@ -0,0 +1,178 @@
+import { Activity, NotificationCategory, Vineyard, WeatherMitigation, WorkCategory } from '@/lib/types/types';
+import { activitiesFeature } from '@/lib/features/activities';
+import {
+  applySevereWeatherDamage,
+  createWeatherWeekContext,
+  getForecastSevereWeatherEvent,
+  getNextWeatherDate,
+  projectSevereWeatherDamage,
+  resolveSevereWeatherEvent,
+  type SevereWeatherDamage,
+  type WeatherWeekContext
+} from '@/lib/features/weather';
+import { SEVERE_WEATHER_EVENTS, WEATHER_MITIGATIONS, WEATHER_MITIGATION_ACTIVITY_TYPE } from '@/lib/constants/weatherConstants';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import { bulkUpdateVineyards, loadVineyards, saveVineyard } from '../../database/activities/vineyardDB';
+import { notificationService } from '../core/notificationService';
+import { getGameState } from '../core/gameState';
+import { addTransaction } from '../finance/financeService';
+import { triggerGameUpdate } from '../../../hooks/useGameUpdates';
+import { formatNumber } from '../../utils/utils';
+import { calculateWeatherMitigationCost, getMitigationsForEvent, validateWeatherMitigation } from './severeWeatherService';
+
+function describeDamage(vineyard: Vineyard, damage: SevereWeatherDamage): string {
+  const losses = `${Math.round(damage.yieldLoss * 100)}% of the crop, ${Math.round(damage.healthLoss * 100)}% health`;
+  if (!damage.mitigation) return `${vineyard.name} (${losses})`;
+  const label = WEATHER_MITIGATIONS[damage.mitigation].label.toLowerCase();
+  return `${vineyard.name} (${damage.mitigated ? `${label} held` : `${label} failed`}: ${losses})`;
+}
+
+/**
+ * Resolve this week's severe weather on every growing vineyard, then warn of any severe event in next week's forecast.
+ * Runs weekly after activities progress, so mitigation finished this week already protects the vines.
+ */
+export async function processSevereWeather(weather: WeatherWeekContext): Promise<void> {
+  try {
+    const vineyards = await loadVineyards();
+    const event = resolveSevereWeatherEvent(weather);
+
+    if (event) {
+      const struck: Array<{ vineyard: Vineyard; damage: SevereWeatherDamage }> = [];
+      for (const vineyard of vineyards) {
+        const damage = projectSevereWeatherDamage(vineyard, weather, { strike: Math.random(), mitigation: Math.random() });
+        if (damage) struck.push({ vineyard, damage });
+      }
+
+      if (struck.length > 0) {
+        await bulkUpdateVineyards(struck.map(({ vineyard, damage }) => applySevereWeatherDamage(vineyard, damage, weather.date)));
+        triggerGameUpdate();
+        await notificationService.addMessage(
+          `${SEVERE_WEATHER_EVENTS[event].label} (${weather.intensity}) struck ${struck.map(({ vineyard, damage }) => describeDamage(vineyard, damage)).join(', ')}.`,
+          'severeWeatherManager.processSevereWeather',
+          SEVERE_WEATHER_EVENTS[event].label,
+          NotificationCategory.VINEYARD_OPERATIONS
+        );
+      }
+    }
+
+    const forecastEvent = getForecastSevereWeatherEvent(weather);
+    if (forecastEvent && vineyards.some(v => v.grape && v.status === 'Growing')) {
+      const mitigations = getMitigationsForEvent(forecastEvent).map(m => WEATHER_MITIGATIONS[m].label.toLowerCase()).join(' or ');
+      await notificationService.addMessage(
+        `The forecast warns of ${SEVERE_WEATHER_EVENTS[forecastEvent].label.toLowerCase()} (${weather.forecast.intensity}) next week. Protect your vines with ${mitigations} from the Weather Center.`,
+        'severeWeatherManager.processSevereWeather',
+        'Severe Weather Warning',
+        NotificationCategory.VINEYARD_OPERATIONS
+      );
+    }
+  } catch (error) {
+    console.error('Error processing severe weather:', error);
+  }
+}
+
+/**
+ * Create a field activity that sets up a mitigation against the severe event in next week's forecast
+ */
+export async function createWeatherMitigationActivity(vineyardId: string, mitigation: WeatherMitigation): Promise<boolean> {
+  try {
+    const vineyard = (await loadVineyards()).find(v => v.id === vineyardId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const weather = createWeatherWeekContext(getGameState());
+    const validation = validateWeatherMitigation(vineyard, mitigation, weather);
+    if (!validation.valid) {
+      await notificationService.addMessage(
+        validation.reason ?? 'This mitigation cannot be scheduled on this vineyard.',
+        'severeWeatherManager.createWeatherMitigationActivity',
+        'Weather Mitigation',
+        NotificationCategory.VINEYARD_OPERATIONS
+      );
+      return false;
+    }
+
+    const { label } = WEATHER_MITIGATIONS[mitigation];
+    const { totalWork } = activitiesFeature.work.calculateWeatherMitigation(vineyard, mitigation);
+    const cost = calculateWeatherMitigationCost(vineyard, mitigation);
+    const protectedDate = getNextWeatherDate(weather.date);
+
+    const result = await activitiesFeature.lifecycle.createWithResult({
+      category: WorkCategory.CLEARING,
+      title: `${label}: ${vineyard.name}`,
+      totalWork,
+      activityDetails: `${label} for ${vineyard.hectares} ha (€${formatNumber(cost)} on completion)`,
+      targetId: vineyardId,
+      params: {
+        type: WEATHER_MITIGATION_ACTIVITY_TYPE,
+        mitigation,
+        cost,
+        season: protectedDate.season,
+        year: protectedDate.year,
+        targetName: vineyard.name,
+        vineyardHectares: vineyard.hectares,
+      },
+      isCancellable: true,
+    });
+
+    if (!result.activityId) {
+      throw new Error(result.reason ?? 'The activity could not be created');
+    }
+    return true;
+  } catch (error) {
+    console.error('Error creating weather mitigation activity:', error);
+    await notificationService.addMessage(
+      `Failed to schedule weather mitigation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'severeWeatherManager.createWeatherMitigationActivity',
+      'Weather Mitigation Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+    return false;
+  }
+}
+
+/**
+ * Complete a weather mitigation: pay for it and protect the vineyard for the forecast week's season
+ */
+export async function completeWeatherMitigation(activity: Activity): Promise<void> {
+  try {
+    const mitigation = activity.params?.mitigation as WeatherMitigation | undefined;
+    if (!activity.targetId || !mitigation || !WEATHER_MITIGATIONS[mitigation]) {
+      throw new Error('Weather mitigation activity has no target vineyard or mitigation');
+    }
+
+    const vineyard = (await loadVineyards()).find(v => v.id === activity.targetId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const { label, event } = WEATHER_MITIGATIONS[mitigation];
+    const { season = 'Spring', currentYear = 2024 } = getGameState();
+    const cost = Number(activity.params.cost) || calculateWeatherMitigationCost(vineyard, mitigation);
+    await addTransaction(-cost, `${label} for ${vineyard.name}`, TRANSACTION_CATEGORIES.SUPPLIES);
+    await saveVineyard({
+      ...vineyard,
+      weatherProtection: {
+        mitigation,
+        season: activity.params.season ?? season,
+        year: Number(activity.params.year) || currentYear
+      }
+    });
+    triggerGameUpdate();
+
+    await notificationService.addMessage(
+      `${label} on ${vineyard.name} will guard the vines against the next ${SEVERE_WEATHER_EVENTS[event].label.toLowerCase()} this season.`,
+      'severeWeatherManager.completeWeatherMitigation',
+      'Weather Mitigation Ready',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  } catch (error) {
+    console.error('Error completing weather mitigation:', error);
+    await notificationService.addMessage(
+      `Failed to complete weather mitigation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'severeWeatherManager.completeWeatherMitigation',
+      'Weather Mitigation Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  }
+}
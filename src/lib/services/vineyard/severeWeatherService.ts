@@ -0,0 +1,61 @@
+import type { GameDate, SevereWeatherEvent, Vineyard, WeatherMitigation } from '../../types/types';
+import { SEVERE_WEATHER_EVENTS, WEATHER_MITIGATIONS } from '@/lib/constants/weatherConstants';
+import { getForecastSevereWeatherEvent, getNextWeatherDate } from '@/lib/features/weather/weatherResolver';
+import type { WeatherWeekContext } from '@/lib/features/weather/weatherTypes';
+
+/**
+ * Severe Weather Service
+ * Mitigation costs and rules, and the share of this season's crop left after severe weather
+ */
+
+export function calculateWeatherMitigationCost(vineyard: Vineyard, mitigation: WeatherMitigation): number {
+  return Math.round(vineyard.hectares * WEATHER_MITIGATIONS[mitigation].costPerHectare);
+}
+
+/**
+ * Mitigations that guard against an event
+ */
+export function getMitigationsForEvent(event: SevereWeatherEvent): WeatherMitigation[] {
+  return (Object.keys(WEATHER_MITIGATIONS) as WeatherMitigation[]).filter(mitigation => WEATHER_MITIGATIONS[mitigation].event === event);
+}
+
+/**
+ * Whether a vineyard is already protected against an event on a date
+ */
+export function isProtectedAgainst(vineyard: Vineyard, event: SevereWeatherEvent, date: GameDate): boolean {
+  const protection = vineyard.weatherProtection;
+  return !!protection
+    && protection.season === date.season
+    && protection.year === date.year
+    && WEATHER_MITIGATIONS[protection.mitigation].event === event;
+}
+
+/**
+ * Share of this season's crop left after this year's severe weather
+ */
+export function getWeatherDamageYieldMultiplier(vineyard: Vineyard): number {
+  return vineyard.weatherDamage?.yieldMultiplier ?? 1;
+}
+
+/**
+ * Check whether a mitigation can be scheduled: next week's forecast must warn of its event
+ */
+export function validateWeatherMitigation(
+  vineyard: Vineyard,
+  mitigation: WeatherMitigation,
+  weather: WeatherWeekContext
+): { valid: boolean; reason?: string } {
+  const { event } = WEATHER_MITIGATIONS[mitigation];
+  const eventLabel = SEVERE_WEATHER_EVENTS[event].label.toLowerCase();
+
+  if (!vineyard.grape || vineyard.status !== 'Growing') {
+    return { valid: false, reason: 'Only growing vines need protecting from severe weather.' };
+  }
+  if (getForecastSevereWeatherEvent(weather) !== event) {
+    return { valid: false, reason: `The forecast does not warn of ${eventLabel} next week.` };
+  }
+  if (isProtectedAgainst(vineyard, event, getNextWeatherDate(weather.date))) {
+    return { valid: false, reason: `${vineyard.name} is already protected against ${eventLabel}.` };
+  }
+  return { valid: true };
+}
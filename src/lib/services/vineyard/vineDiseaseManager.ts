@@ -0,0 +1,108 @@
+import { Activity, NotificationCategory, VineTreatment, WorkCategory } from '@/lib/types/types';
+import { activitiesFeature } from '@/lib/features/activities';
+import { VINE_DISEASES, VINE_TREATMENTS, VINE_TREATMENT_ACTIVITY_TYPE } from '@/lib/constants/vineDiseaseConstants';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import { loadVineyards, saveVineyard } from '../../database/activities/vineyardDB';
+import { notificationService } from '../core/notificationService';
+import { getGameState } from '../core/gameState';
+import { addTransaction } from '../finance/financeService';
+import { triggerGameUpdate } from '../../../hooks/useGameUpdates';
+import { formatNumber } from '../../utils/utils';
+import { buildTreatedVineyard, calculateVineTreatmentCost, validateVineTreatment } from './vineDiseaseService';
+
+/**
+ * Create a field activity that treats a growing vineyard against one disease or pest
+ */
+export async function createVineTreatmentActivity(vineyardId: string, treatment: VineTreatment): Promise<boolean> {
+  try {
+    const vineyard = (await loadVineyards()).find(v => v.id === vineyardId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const { season = 'Spring', currentYear = 2024 } = getGameState();
+    const validation = validateVineTreatment(vineyard, treatment, { season, year: currentYear });
+    if (!validation.valid) {
+      await notificationService.addMessage(
+        validation.reason ?? 'This treatment cannot be started now.',
+        'vineDiseaseManager.createVineTreatmentActivity',
+        'Vine Treatment',
+        NotificationCategory.VINEYARD_OPERATIONS
+      );
+      return false;
+    }
+
+    const { label } = VINE_TREATMENTS[treatment];
+    const { totalWork } = activitiesFeature.work.calculateVineTreatment(vineyard, treatment);
+    const cost = calculateVineTreatmentCost(vineyard, treatment);
+
+    const result = await activitiesFeature.lifecycle.createWithResult({
+      category: WorkCategory.CLEARING,
+      title: `${label}: ${vineyard.name}`,
+      totalWork,
+      activityDetails: `${label} for ${vineyard.hectares} ha (€${formatNumber(cost)} on completion)`,
+      targetId: vineyardId,
+      params: {
+        type: VINE_TREATMENT_ACTIVITY_TYPE,
+        treatment,
+        cost,
+        targetName: vineyard.name,
+        vineyardHectares: vineyard.hectares,
+      },
+      isCancellable: true,
+    });
+
+    if (!result.activityId) {
+      throw new Error(result.reason ?? 'The activity could not be created');
+    }
+    return true;
+  } catch (error) {
+    console.error('Error creating vine treatment activity:', error);
+    await notificationService.addMessage(
+      `Failed to start vine treatment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'vineDiseaseManager.createVineTreatmentActivity',
+      'Vine Treatment Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+    return false;
+  }
+}
+
+/**
+ * Complete a vine treatment: pay for it, knock its disease back and protect the vines for the rest of the season
+ */
+export async function completeVineTreatment(activity: Activity): Promise<void> {
+  try {
+    const treatment = activity.params?.treatment as VineTreatment | undefined;
+    if (!activity.targetId || !treatment || !VINE_TREATMENTS[treatment]) {
+      throw new Error('Vine treatment activity has no target vineyard or treatment');
+    }
+
+    const vineyard = (await loadVineyards()).find(v => v.id === activity.targetId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const { label, disease } = VINE_TREATMENTS[treatment];
+    const { season = 'Spring', currentYear = 2024 } = getGameState();
+    const cost = Number(activity.params.cost) || calculateVineTreatmentCost(vineyard, treatment);
+    await addTransaction(-cost, `${label} for ${vineyard.name}`, TRANSACTION_CATEGORIES.SUPPLIES);
+    await saveVineyard(buildTreatedVineyard(vineyard, treatment, { season, year: currentYear }));
+    triggerGameUpdate();
+
+    await notificationService.addMessage(
+      `${label} on ${vineyard.name} is done and will hold ${VINE_DISEASES[disease].label.toLowerCase()} back for the rest of the season.`,
+      'vineDiseaseManager.completeVineTreatment',
+      'Vine Treatment Complete',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  } catch (error) {
+    console.error('Error completing vine treatment:', error);
+    await notificationService.addMessage(
+      `Failed to complete vine treatment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'vineDiseaseManager.completeVineTreatment',
+      'Vine Treatment Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+  }
+}
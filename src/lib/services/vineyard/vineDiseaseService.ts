@@ -0,0 +1,191 @@
+import type { GameDate, Season, VineDisease, VineTreatment, Vineyard } from '../../types/types';
+import type { WineFeature } from '../../types/wineFeatures';
+import { GRAPE_DISEASE_RESISTANCE } from '@/lib/constants/grapeConstants';
+import { PLANTING_MATERIAL } from '@/lib/constants/plantingMaterialConstants';
+import {
+  ASPECT_DAMPNESS,
+  DISEASE_PRESSURE,
+  PHYLLOXERA_RESISTANT_SOILS,
+  PHYLLOXERA_SANDY_SOIL_FACTOR,
+  VINE_DISEASES,
+  VINE_TREATMENTS
+} from '@/lib/constants/vineDiseaseConstants';
+import { calculateOvergrowthModifier } from './overgrowthUtils';
+import { getRootstockDiseaseResistance } from './plantingMaterialService';
+
+/**
+ * Vine Disease Service
+ * Disease and pest pressure on growing vines, its weekly progress on pending features,
+ * its cost in health and yield, and field treatments against it
+ */
+
+export interface VineDiseaseEffects {
+  yieldMultiplier: number; // This season's crop left after present diseases
+  weeklyHealthLoss: number;
+}
+
+type DiseaseDate = Pick<GameDate, 'season' | 'year'>;
+
+/**
+ * The grape's resistance to a disease, adjusted by its rootstock (grafting is what keeps phylloxera out)
+ */
+export function getDiseaseResistance(vineyard: Vineyard, disease: VineDisease): number {
+  if (!vineyard.grape) return 0;
+  const resistance = GRAPE_DISEASE_RESISTANCE[vineyard.grape][disease] + getRootstockDiseaseResistance(vineyard, disease);
+  return Math.min(PLANTING_MATERIAL.maxDiseaseResistance, Math.max(0, resistance));
+}
+
+export function getVineDiseaseFeature(vineyard: Vineyard, disease: VineDisease): WineFeature | undefined {
+  return vineyard.pendingFeatures?.find(f => f.id === VINE_DISEASES[disease].featureId);
+}
+
+/**
+ * Share of a disease's pressure held off by treatment applied this season
+ */
+export function getTreatmentProtection(vineyard: Vineyard, disease: VineDisease, date: DiseaseDate): number {
+  return (vineyard.vineTreatments ?? []).reduce((held, record) => {
+    const info = VINE_TREATMENTS[record.treatment];
+    if (info.disease !== disease || record.season !== date.season || record.year !== date.year) return held;
+    return Math.max(held, info.protection);
+  }, 0);
+}
+
+/**
+ * Weekly disease pressure on a vineyard: 1 is a neutral site and season. Driven by this year's wet and
+ * hot weeks, density, aspect and overgrowth, less the grape's resistance and this season's treatment.
+ */
+export function calculateDiseasePressure(vineyard: Vineyard, disease: VineDisease, date: DiseaseDate): number {
+  const info = VINE_DISEASES[disease];
+  if (!vineyard.grape || !info.seasons.includes(date.season)) return 0;
+
+  const weather = vineyard.vintageWeather;
+  const weeks = Math.max(1, weather?.weeks ?? 0);
+  const wetShare = Math.min(1, ((weather?.rain ?? 0) + (weather?.storm ?? 0)) / weeks);
+  const heatShare = Math.min(1, (weather?.heat ?? 0) / weeks);
+  const weatherFactor = 1 + wetShare * info.wetWeight + heatShare * info.heatWeight;
+
+  const densityStep = (vineyard.density - DISEASE_PRESSURE.referenceDensity) / DISEASE_PRESSURE.referenceDensity;
+  const densityFactor = Math.min(
+    DISEASE_PRESSURE.maxDensityFactor,
+    Math.max(DISEASE_PRESSURE.minDensityFactor, 1 + densityStep * info.densityWeight)
+  );
+  const aspectFactor = 1 + (ASPECT_DAMPNESS[vineyard.aspect] ?? 0) * info.aspectWeight;
+  const overgrowthFactor = 1 + calculateOvergrowthModifier(vineyard.overgrowth?.vegetation ?? 0) * info.overgrowthWeight;
+  const soilFactor = disease === 'phylloxera' && vineyard.soil.some(soil => PHYLLOXERA_RESISTANT_SOILS.includes(soil))
+    ? PHYLLOXERA_SANDY_SOIL_FACTOR
+    : 1;
+
+  return weatherFactor * densityFactor * aspectFactor * overgrowthFactor * soilFactor
+    * (1 - getDiseaseResistance(vineyard, disease))
+    * (1 - getTreatmentProtection(vineyard, disease, date));
+}
+
+/**
+ * One week of a disease on a growing vineyard: risk builds with pressure until the disease breaks out
+ * (at a severity equal to its risk), after which it spreads. `roll` decides the outbreak.
+ */
+export function advanceVineDisease(
+  feature: WineFeature | undefined,
+  vineyard: Vineyard,
+  disease: VineDisease,
+  date: DiseaseDate,
+  roll: number = Math.random()
+): WineFeature {
+  const info = VINE_DISEASES[disease];
+  const current: WineFeature = feature ?? {
+    id: info.featureId,
+    name: info.label,
+    icon: info.icon,
+    isPresent: false,
+    severity: 0,
+    risk: 0
+  };
+  const pressure = calculateDiseasePressure(vineyard, disease, date);
+  if (pressure <= 0) return current;
+
+  if (current.isPresent) {
+    return { ...current, severity: Math.min(1, current.severity + info.spreadRate * pressure) };
+  }
+
+  const risk = Math.min(1, (current.risk ?? 0) + info.baseRate * pressure);
+  const breaksOut = risk >= 1 || roll < risk;
+  return breaksOut
+    ? { ...current, risk, isPresent: true, severity: risk }
+    : { ...current, risk };
+}
+
+/**
+ * Hook body shared by the disease features' `processVineyardFeatures`
+ */
+export function processVineDiseaseFeature(
+  features: WineFeature[],
+  vineyard: Vineyard,
+  disease: VineDisease,
+  gameState: { season: string; week: number; year: number }
+): WineFeature[] {
+  const featureId = VINE_DISEASES[disease].featureId;
+  const updated = advanceVineDisease(
+    features.find(f => f.id === featureId),
+    vineyard,
+    disease,
+    { season: gameState.season as Season, year: gameState.year }
+  );
+  const index = features.findIndex(f => f.id === featureId);
+  if (index < 0) return [...features, updated];
+  const next = [...features];
+  next[index] = updated;
+  return next;
+}
+
+/**
+ * Health and yield cost of the diseases present on a vineyard
+ */
+export function getVineDiseaseEffects(vineyard: Vineyard): VineDiseaseEffects {
+  const effects: VineDiseaseEffects = { yieldMultiplier: 1, weeklyHealthLoss: 0 };
+  for (const disease of Object.keys(VINE_DISEASES) as VineDisease[]) {
+    const feature = getVineDiseaseFeature(vineyard, disease);
+    if (!feature?.isPresent) continue;
+    const info = VINE_DISEASES[disease];
+    effects.yieldMultiplier *= 1 - info.yieldLoss * feature.severity;
+    effects.weeklyHealthLoss += info.weeklyHealthLoss * feature.severity;
+  }
+  return effects;
+}
+
+export function calculateVineTreatmentCost(vineyard: Vineyard, treatment: VineTreatment): number {
+  return Math.round(vineyard.hectares * VINE_TREATMENTS[treatment].costPerHectare);
+}
+
+/**
+ * Vineyard after a completed treatment: its disease knocked back and the treatment recorded for the season
+ */
+export function buildTreatedVineyard(vineyard: Vineyard, treatment: VineTreatment, date: DiseaseDate): Vineyard {
+  const info = VINE_TREATMENTS[treatment];
+  const featureId = VINE_DISEASES[info.disease].featureId;
+  return {
+    ...vineyard,
+    pendingFeatures: vineyard.pendingFeatures?.map(feature => feature.id !== featureId ? feature : {
+      ...feature,
+      risk: (feature.risk ?? 0) * (1 - info.riskReduction),
+      severity: feature.severity * (1 - info.severityReduction)
+    }),
+    vineTreatments: [...(vineyard.vineTreatments ?? []), { treatment, season: date.season, year: date.year }]
+  };
+}
+
+/**
+ * Check whether a treatment can be started on a vineyard this week
+ */
+export function validateVineTreatment(vineyard: Vineyard, treatment: VineTreatment, date: DiseaseDate): { valid: boolean; reason?: string } {
+  const info = VINE_TREATMENTS[treatment];
+  if (!vineyard.grape || vineyard.status !== 'Growing') {
+    return { valid: false, reason: 'Treatments are only possible on vines that are growing this season.' };
+  }
+  if (!info.seasons.includes(date.season)) {
+    return { valid: false, reason: `${info.label} can only be done in ${info.seasons.join(', ')}.` };
+  }
+  if ((vineyard.vineTreatments ?? []).some(r => r.treatment === treatment && r.season === date.season && r.year === date.year)) {
+    return { valid: false, reason: `${info.label} was already applied to ${vineyard.name} this season.` };
+  }
+  return { valid: true };
+}
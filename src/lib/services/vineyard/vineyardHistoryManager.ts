@@ -0,0 +1,28 @@
+import { Vineyard, VineyardHistoryEvent, VineyardHistoryEventType } from '@/lib/types/types';
+import { insertVineyardHistoryEvent, loadVineyardHistory } from '../../database/activities/vineyardHistoryDB';
+import { getGameState } from '../core/gameState';
+import { buildVineyardHistoryEvent } from './vineyardHistoryService';
+
+/**
+ * Record a lifecycle event for a vineyard at the current game date.
+ * A failed write is logged and never blocks the purchase, planting, clearing or sale itself.
+ */
+export async function recordVineyardHistoryEvent(
+  vineyard: Vineyard,
+  eventType: VineyardHistoryEventType,
+  details: Pick<VineyardHistoryEvent, 'intensity' | 'density' | 'amount'> = {}
+): Promise<void> {
+  try {
+    const { week = 1, season = 'Spring', currentYear = 2024 } = getGameState();
+    await insertVineyardHistoryEvent(
+      buildVineyardHistoryEvent(vineyard, eventType, { week, season, year: currentYear }, details)
+    );
+  } catch (error) {
+    console.error(`Failed to record ${eventType} history for vineyard ${vineyard.id}:`, error);
+  }
+}
+
+export async function getVineyardHistory(vineyardId?: string): Promise<VineyardHistoryEvent[]> {
+  return await loadVineyardHistory(vineyardId);
+}
+
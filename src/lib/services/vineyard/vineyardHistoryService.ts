@@ -0,0 +1,63 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { GameDate, Vineyard, VineyardHistoryEvent, VineyardHistoryEventType } from '../../types/types';
+import { GRAPE_TENURE_LAND_VALUE } from '../../constants/vineyardConstants';
+
+/**
+ * Vineyard History Service
+ * Lifecycle events (purchase, planting, uprooting, replanting, sale) and the grape tenure derived from them
+ */
+
+export function buildVineyardHistoryEvent(
+  vineyard: Vineyard,
+  eventType: VineyardHistoryEventType,
+  date: GameDate,
+  details: Pick<VineyardHistoryEvent, 'intensity' | 'density' | 'amount'> = {}
+): VineyardHistoryEvent {
+  return {
+    id: uuidv4(),
+    vineyardId: vineyard.id,
+    vineyardName: vineyard.name,
+    eventType,
+    grape: vineyard.grape,
+    week: date.week,
+    season: date.season,
+    year: date.year,
+    ...details
+  };
+}
+
+/**
+ * Year the current grape was established on the vineyard, or null when the history does not record it.
+ * History must be in the order the events happened. Replanting and partial uprooting keep the grape;
+ * a later planting (after a full uproot) starts a new tenure.
+ */
+export function getGrapeTenureStartYear(vineyard: Vineyard, history: VineyardHistoryEvent[]): number | null {
+  if (!vineyard.grape) return null;
+
+  const events = history.filter(event => event.vineyardId === vineyard.id);
+  for (let index = events.length - 1; index >= 0; index -= 1) {
+    const event = events[index];
+    if (event.eventType === 'planted' || event.eventType === 'purchased') {
+      return event.grape === vineyard.grape ? event.year : null;
+    }
+    if (event.eventType === 'uprooted' && (event.intensity ?? 1) >= 1) return null;
+  }
+  return null;
+}
+
+/**
+ * Whole years the current grape has been planted. Vines planted before history was recorded
+ * (such as starting vineyards) fall back to their vine age.
+ */
+export function getGrapeTenureYears(vineyard: Vineyard, history: VineyardHistoryEvent[], currentYear: number): number {
+  if (!vineyard.grape) return 0;
+
+  const startYear = getGrapeTenureStartYear(vineyard, history);
+  if (startYear === null) return Math.max(0, Math.floor(vineyard.vineAge ?? 0));
+  return Math.max(0, currentYear - startYear);
+}
+
+export function getGrapeTenureLandValueBonus(tenureYears: number): number {
+  const share = Math.min(1, Math.max(0, tenureYears) / GRAPE_TENURE_LAND_VALUE.fullBonusYears);
+  return GRAPE_TENURE_LAND_VALUE.maxBonus * share;
+}
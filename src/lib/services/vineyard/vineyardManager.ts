@@ -16,7 +16,18 @@ import {
   isRipenessGrowthActiveForWeek,
   calculateWinterRipenessDegradation
 } from './vineyardProgressionService';
-import { createWeatherWeekContext, projectVineyardWeek, type WeatherWeekContext } from '@/lib/features/weather';
+import { accumulateVintageWeather, createWeatherWeekContext, projectSoilMoisture, projectVineyardWeek, type WeatherWeekContext } from '@/lib/features/weather';
+import { advanceFarmingYear, getFarmingCertification, getFarmingHealthDecayMultiplier, getFarmingYieldMultiplier } from './farmingService';
+import { FARMING_METHODS } from '@/lib/constants/farmingConstants';
+import { getCanopyEffects } from './canopyService';
+import { getWeatherDamageYieldMultiplier } from './severeWeatherService';
+import { getVineDiseaseEffects } from './vineDiseaseService';
+import { getPlantingMaterialEffects } from './plantingMaterialService';
+import { buildVineyardVintage, getVineyardVintageConditions } from './vintageService';
+import { upsertVineyardVintages } from '../../database/activities/vineyardVintageDB';
+import { loadVineyardHistory } from '../../database/activities/vineyardHistoryDB';
+import { getGrapeTenureYears } from './vineyardHistoryService';
+import { apportionEstateLandValues } from './vineyardParcelService';
 
 export {
   calculateDynamicRipenessIncrease,
@@ -88,6 +99,11 @@ export interface VineyardYieldBreakdown {
     ripeness: number;
     vineYield: number;
     health: number;
+    farming: number;
+    canopy: number;
+    vintage: number;
+    weather: number;
+    disease: number;
     finalMultiplier: number;
   };
 }
@@ -104,7 +120,7 @@ export function calculateVineyardYieldBreakdown(vineyard: Vineyard): VineyardYie
   // Get grape metadata for natural yield and suitability
   const grapeMetadata = GRAPE_CONST[vineyard.grape];
   if (!grapeMetadata) return null;
-  const naturalYield = grapeMetadata.naturalYield; // 0-1 scale
+  const naturalYield = grapeMetadata.naturalYield * getPlantingMaterialEffects(vineyard).naturalYieldMultiplier; // 0-1 scale, scaled by the clone
   const grapeSuitabilityComponents = calculateGrapeSuitabilityMetrics(
     vineyard.grape,
     vineyard.region,
@@ -115,9 +131,14 @@ export function calculateVineyardYieldBreakdown(vineyard: Vineyard): VineyardYie
   );
   const grapeSuitability = grapeSuitabilityComponents.overall;
   
-  // Apply multipliers: suitability, natural yield, ripeness, vine yield, and health all affect final yield
+  // Apply multipliers: suitability, natural yield, ripeness, vine yield, health, farming method, this season's canopy work, the vintage, severe weather damage and vine diseases all affect final yield
   const vineYieldFactor = vineyard.vineYield || 0.02; // Use persistent vine yield factor
-  const yieldMultiplier = grapeSuitability * naturalYield * (vineyard.ripeness || 0) * vineYieldFactor * (vineyard.vineyardHealth || 1.0);
+  const farmingFactor = getFarmingYieldMultiplier(vineyard);
+  const canopyFactor = getCanopyEffects(vineyard.canopyWork).seasonYieldMultiplier;
+  const vintageFactor = getVineyardVintageConditions(vineyard).yieldFactor;
+  const weatherFactor = getWeatherDamageYieldMultiplier(vineyard);
+  const diseaseFactor = getVineDiseaseEffects(vineyard).yieldMultiplier;
+  const yieldMultiplier = grapeSuitability * naturalYield * (vineyard.ripeness || 0) * vineYieldFactor * (vineyard.vineyardHealth || 1.0) * farmingFactor * canopyFactor * vintageFactor * weatherFactor * diseaseFactor;
   const baseKg = totalVines * baseYieldPerVine;
   return {
     totalYield: Math.round(baseKg * yieldMultiplier),
@@ -131,6 +152,11 @@ export function calculateVineyardYieldBreakdown(vineyard: Vineyard): VineyardYie
       ripeness: vineyard.ripeness || 0,
       vineYield: vineYieldFactor,
       health: vineyard.vineyardHealth || 1.0,
+      farming: farmingFactor,
+      canopy: canopyFactor,
+      vintage: vintageFactor,
+      weather: weatherFactor,
+      disease: diseaseFactor,
       finalMultiplier: yieldMultiplier,
     },
   };
@@ -169,6 +195,7 @@ export async function updateVineyardRipeness(
       let newStatus = vineyard.status;
       let newRipeness = vineyard.ripeness || 0;
       let isRipenessDeclining = vineyard.isRipenessDeclining ?? false;
+      let vintageWeather = vineyard.vintageWeather;
       const plantingActivity = activities.find(
         (activity) => activity.category === WorkCategory.PLANTING &&
           activity.status === 'active' &&
@@ -268,6 +295,11 @@ export async function updateVineyardRipeness(
           isRipenessDeclining = false;
           newRipeness = ripenessProjection.ripeness.projected;
         }
+
+        // Growing-season weather on unharvested vines makes up this year's vintage
+        if (season !== 'Winter' && newStatus === 'Growing') {
+          vintageWeather = accumulateVintageWeather(vintageWeather, effectiveWeather, ripenessProjection.siteExposure);
+        }
       }
       
       // Handle winter ripeness penalties - calibrated exponential-style ramp
@@ -362,13 +394,15 @@ export async function updateVineyardRipeness(
       if (
         newStatus !== vineyard.status ||
         newRipeness !== vineyard.ripeness ||
-        isRipenessDeclining !== vineyard.isRipenessDeclining
+        isRipenessDeclining !== vineyard.isRipenessDeclining ||
+        vintageWeather !== vineyard.vintageWeather
       ) {
         const updatedVineyard = {
           ...vineyard,
           status: newStatus,
           ripeness: newRipeness,
-          isRipenessDeclining
+          isRipenessDeclining,
+          vintageWeather
         };
         
         vineyardsToUpdate.push(updatedVineyard);
@@ -413,6 +447,28 @@ export async function updateVineyardRipeness(
   }
 }
 
+/**
+ * Record each planted vineyard's vintage for the year that just ended
+ * Runs at the start of a new year, before the vintage weather is reset
+ */
+export async function recordVineyardVintages(year: number): Promise<void> {
+  try {
+    const vineyards = await loadVineyards();
+    const vintages = vineyards
+      .map(vineyard => buildVineyardVintage(vineyard, year))
+      .filter((vintage): vintage is NonNullable<typeof vintage> => vintage !== null);
+
+    await upsertVineyardVintages(vintages);
+  } catch (error) {
+    console.error('Error recording vineyard vintages:', error);
+  }
+}
+
+// Soil moisture carries over into the new year; last year's water stress does not
+function resetWaterStress(vineyard: Vineyard): Vineyard['waterState'] {
+  return vineyard.waterState ? { ...vineyard.waterState, stressWeeks: 0 } : undefined;
+}
+
 /**
  * Update vineyard ages at the start of a new year
  */
@@ -421,6 +477,19 @@ export async function updateVineyardAges(): Promise<void> {
     const vineyards = await loadVineyards();
     
     for (const vineyard of vineyards) {
+      // Organic and biodynamic vineyards count another conversion year, planted or not
+      const farming = advanceFarmingYear(vineyard);
+      const certification = getFarmingCertification(farming);
+      const newCertification = certification !== getFarmingCertification(vineyard) ? certification : null;
+      if (newCertification) {
+        await notificationService.addMessage(
+          `${vineyard.name} has completed its conversion and is now certified ${FARMING_METHODS[newCertification].label.toLowerCase()}.`,
+          'vineyardManager.farmingCertification',
+          'Farming Certification',
+          NotificationCategory.VINEYARD_OPERATIONS
+        );
+      }
+
       // Only age vines that are planted (have a grape variety) and have a vine age (not null)
       if (vineyard.grape && vineyard.vineAge !== null) {
         // Calculate gradual health improvement from planting/replanting
@@ -453,6 +522,13 @@ export async function updateVineyardAges(): Promise<void> {
 
         const updatedVineyard = {
           ...vineyard,
+          ...farming,
+          canopyWork: undefined, // Canopy work only lasts for the season it was done in
+          vintageWeather: undefined, // Last year's weather was recorded as its vintage
+          waterState: resetWaterStress(vineyard),
+          weatherDamage: undefined, // Severe weather damage only hits the season's crop
+          weatherProtection: undefined,
+          vineTreatments: undefined, // Treatments protect for the season they were applied in
           vineAge: vineyard.vineAge + 1,
           overgrowth: updatedOvergrowth,
           vineyardHealth: newHealth,
@@ -483,10 +559,25 @@ export async function updateVineyardAges(): Promise<void> {
 
         const updatedVineyard = {
           ...vineyard,
+          ...farming,
+          canopyWork: undefined,
+          vintageWeather: undefined,
+          waterState: resetWaterStress(vineyard),
+          weatherDamage: undefined,
+          weatherProtection: undefined,
+          vineTreatments: undefined,
           overgrowth: updatedOvergrowth
         };
         
         await saveVineyard(updatedVineyard);
+        if (newCertification) {
+          try {
+            const { prestigeFeature } = await import('@/lib/features/prestige');
+            await prestigeFeature.lifecycle.updateVineyard(vineyard.id);
+          } catch (error) {
+            console.error('Failed to update prestige after farming certification:', error);
+          }
+        }
       }
     }
   } catch (error) {
@@ -538,7 +629,7 @@ export async function updateVineyardHealthDegradation(
         vineyard,
         weather: effectiveWeather,
         plantingProgressRatio,
-        healthDecayMultiplier: permanentEffects.vineyardHealthDecayMultiplier,
+        healthDecayMultiplier: permanentEffects.vineyardHealthDecayMultiplier * getFarmingHealthDecayMultiplier(vineyard),
       });
       const newHealth = healthProjection.health.projected;
       const healthChange = newHealth - oldHealth;
@@ -577,11 +668,58 @@ export async function updateVineyardHealthDegradation(
   }
 }
 
+/**
+ * Update each vineyard's soil moisture from this week's weather and irrigation.
+ * Runs after ripeness and health so the stored moisture is the one their projections used.
+ * Growing-season water stress on planted vines accumulates for this year's harvest anchors.
+ */
+export async function updateVineyardWaterState(
+  season: string,
+  week: number,
+  weatherContext?: WeatherWeekContext
+): Promise<void> {
+  try {
+    const vineyards = await loadVineyards();
+    const currentState = getGameState();
+    const effectiveWeather = weatherContext ?? createWeatherWeekContext({
+      ...currentState,
+      currentYear: currentState.currentYear || 1,
+      season: season as Season,
+      week,
+    });
+    const isGrowingSeason = season !== 'Winter';
+
+    const vineyardsToUpdate = vineyards.map((vineyard): Vineyard => {
+      const moisture = projectSoilMoisture(vineyard, effectiveWeather);
+      const stressWeeks = (vineyard.waterState?.stressWeeks ?? 0)
+        + (isGrowingSeason && vineyard.grape ? moisture.stress * (1 - getPlantingMaterialEffects(vineyard).droughtResistance) : 0);
+      return {
+        ...vineyard,
+        waterState: { soilMoisture: moisture.projected, stressWeeks },
+        irrigation: vineyard.irrigation && moisture.irrigation > 0
+          ? { ...vineyard.irrigation, weeksWatered: vineyard.irrigation.weeksWatered + 1 }
+          : vineyard.irrigation
+      };
+    });
+
+    if (vineyardsToUpdate.length > 0) {
+      await bulkUpdateVineyards(vineyardsToUpdate);
+    }
+  } catch (error) {
+    console.error('Error updating vineyard water state:', error);
+  }
+}
+
 /**
  * Calculate the expected vine yield progression for a given age
  * This is the core progression logic used by both the yearly updater and the projection diagram
+ * The growth multiplier (rootstock vigour, clone and soil fit) scales the gains while vines establish
  */
-export function calculateVineYieldProgression(age: number, currentVineYield: number): { expectedDelta: number; targetValue?: number } {
+export function calculateVineYieldProgression(
+  age: number,
+  currentVineYield: number,
+  growthMultiplier: number = 1
+): { expectedDelta: number; targetValue?: number } {
   let expectedDelta = 0;
   let targetValue: number | undefined = undefined;
   
@@ -618,6 +756,10 @@ export function calculateVineYieldProgression(age: number, currentVineYield: num
     // Very old vines: minimal change
     expectedDelta = 0;
   }
+
+  if (expectedDelta > 0 && targetValue === undefined) {
+    expectedDelta *= growthMultiplier;
+  }
   
   return { expectedDelta, targetValue };
 }
@@ -626,12 +768,12 @@ export function calculateVineYieldProgression(age: number, currentVineYield: num
  * Calculate deterministic baseline vine yield for a given vine age.
  * Uses yearly expected deltas without randomness and mirrors progression charts.
  */
-export function calculateBaselineVineYieldForAge(vineAge: number): number {
+export function calculateBaselineVineYieldForAge(vineAge: number, growthMultiplier: number = 1): number {
   let currentYield = 0.02;
   const normalizedAge = Math.max(0, Math.floor(vineAge));
 
   for (let age = 0; age < normalizedAge; age++) {
-    const { expectedDelta, targetValue } = calculateVineYieldProgression(age, currentYield);
+    const { expectedDelta, targetValue } = calculateVineYieldProgression(age, currentYield, growthMultiplier);
 
     if (targetValue !== undefined) {
       currentYield = Math.max(0.01, targetValue);
@@ -658,7 +800,11 @@ export async function updateVineyardVineYields(): Promise<void> {
         const currentVineYield = vineyard.vineYield || 0.02;
         
         // Calculate expected yearly delta based on age
-        const { expectedDelta } = calculateVineYieldProgression(age, currentVineYield);
+        const { expectedDelta } = calculateVineYieldProgression(
+          age,
+          currentVineYield,
+          getPlantingMaterialEffects(vineyard).vineYieldGrowthMultiplier
+        );
         
         // Apply randomness: percentage-based ranges
         let actualDelta;
@@ -698,21 +844,18 @@ export async function updateVineyardVineYields(): Promise<void> {
 
 /**
  * Recalculate vineyard total values annually
- * Applies adjusted per-hectare calculation using planted state, vine age, and prestige
+ * Applies adjusted per-hectare calculation using planted state, vine age, prestige and grape tenure
  */
 export async function recalculateVineyardValues(): Promise<void> {
   try {
     const vineyards = await loadVineyards();
     if (vineyards.length === 0) return;
+    const history = await loadVineyardHistory();
+    const currentYear = getGameState().currentYear ?? 2024;
 
-    const updated = vineyards.map(v => {
-      const baselinePerHa = calculateLandValue(
-        v.country,
-        v.region,
-        v.altitude,
-        v.aspect
-      );
-      const adjustedPerHa = calculateAdjustedLandValue(
+    const adjusted = vineyards.map(v => ({
+      vineyard: v,
+      adjustedPerHa: calculateAdjustedLandValue(
         v.country,
         v.region,
         v.altitude,
@@ -721,11 +864,23 @@ export async function recalculateVineyardValues(): Promise<void> {
           grape: v.grape,
           vineAge: v.vineAge ?? 0,
           vineyardPrestige: v.vineyardPrestige ?? 0,
-          soil: v.soil
+          soil: v.soil,
+          farmingCertification: getFarmingCertification(v),
+          grapeTenureYears: getGrapeTenureYears(v, history, currentYear)
         }
+      )
+    }));
+    // Parcels of one estate share its land and so its value per hectare
+    const totalValues = apportionEstateLandValues(adjusted);
+
+    const updated = vineyards.map(v => {
+      const baselinePerHa = calculateLandValue(
+        v.country,
+        v.region,
+        v.altitude,
+        v.aspect
       );
-      const adjustedTotal = Math.round(adjustedPerHa * v.hectares);
-      return { ...v, landValue: baselinePerHa, vineyardTotalValue: adjustedTotal } as Vineyard;
+      return { ...v, landValue: baselinePerHa, vineyardTotalValue: totalValues.get(v.id) ?? v.vineyardTotalValue } as Vineyard;
     });
 
     await bulkUpdateVineyards(updated);
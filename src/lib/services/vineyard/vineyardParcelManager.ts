@@ -0,0 +1,73 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NotificationCategory } from '@/lib/types/types';
+import { activitiesFeature } from '@/lib/features/activities';
+import { prestigeFeature } from '@/lib/features/prestige';
+import { bulkUpdateVineyards, loadVineyards } from '../../database/activities/vineyardDB';
+import { loadCropInsurancePolicies } from '../../database/core/cropInsuranceDB';
+import { notificationService } from '../core/notificationService';
+import { triggerGameUpdate } from '../../../hooks/useGameUpdates';
+import { buildParcelSplit, getEstateParcels, getParcelName, getVineyardEstateId, validateParcelSplit, type ParcelSplitOptions } from './vineyardParcelService';
+
+/**
+ * Split a named parcel off a vineyard so part of the estate can be cleared and planted with another grape
+ */
+export async function splitVineyardParcel(vineyardId: string, options: ParcelSplitOptions): Promise<boolean> {
+  try {
+    const vineyards = await loadVineyards();
+    const vineyard = vineyards.find(v => v.id === vineyardId);
+    if (!vineyard) {
+      throw new Error('Vineyard not found');
+    }
+
+    const [activeOnTarget, policies] = await Promise.all([
+      activitiesFeature.reads.getByTarget(vineyardId),
+      loadCropInsurancePolicies()
+    ]);
+    const validation = validateParcelSplit(
+      vineyard,
+      getEstateParcels(vineyards, getVineyardEstateId(vineyard)),
+      options,
+      {
+        hasActiveActivity: activeOnTarget.length > 0,
+        isInsured: policies.some(policy => policy.vineyardId === vineyardId && policy.status === 'active')
+      }
+    );
+    if (!validation.valid) {
+      await notificationService.addMessage(
+        validation.reason ?? 'This vineyard cannot be split.',
+        'vineyardParcelManager.splitVineyardParcel',
+        'Vineyard Parcels',
+        NotificationCategory.VINEYARD_OPERATIONS
+      );
+      return false;
+    }
+
+    const { source, parcel } = buildParcelSplit(vineyard, uuidv4(), options);
+    await bulkUpdateVineyards([source, parcel]);
+
+    // Refreshes every parcel of the estate; they share the estate's age and land prestige by area
+    try {
+      await prestigeFeature.lifecycle.updateVineyard(parcel.id);
+    } catch (error) {
+      console.error('Failed to update prestige after splitting a parcel:', error);
+    }
+
+    triggerGameUpdate();
+    await notificationService.addMessage(
+      `${vineyard.name} now has a ${parcel.hectares} ha parcel, ${getParcelName(parcel)}, split off ${getParcelName(source)} (${source.hectares} ha left).`,
+      'vineyardParcelManager.splitVineyardParcel',
+      'Parcel Created',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+    return true;
+  } catch (error) {
+    console.error('Error splitting vineyard parcel:', error);
+    await notificationService.addMessage(
+      `Failed to split the vineyard: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'vineyardParcelManager.splitVineyardParcel',
+      'Parcel Split Failed',
+      NotificationCategory.VINEYARD_OPERATIONS
+    );
+    return false;
+  }
+}
@@ -0,0 +1,154 @@
+import type { Vineyard } from '../../types/types';
+import { VINEYARD_PARCELS } from '@/lib/constants/vineyardConstants';
+
+/**
+ * Vineyard Parcel Service
+ * Estates split into parcels: each parcel is its own vineyard with its own vines,
+ * sharing the estate's land (location, soil, altitude, aspect and land value)
+ */
+
+export interface ParcelSplitOptions {
+  name: string;
+  hectares: number;
+}
+
+/**
+ * Id of the estate a vineyard belongs to; an estate's original vineyard is its own estate
+ */
+export function getVineyardEstateId(vineyard: Vineyard): string {
+  return vineyard.estateId ?? vineyard.id;
+}
+
+/**
+ * All parcels of an estate, the estate's original vineyard first
+ */
+export function getEstateParcels(vineyards: Vineyard[], estateId: string): Vineyard[] {
+  return vineyards
+    .filter(v => getVineyardEstateId(v) === estateId)
+    .sort((a, b) => Number(a.estateId !== undefined) - Number(b.estateId !== undefined));
+}
+
+/**
+ * Total hectares of the vineyard's estate and the parcel's share of them
+ */
+export function getEstateAreaShare(vineyard: Vineyard, vineyards: Vineyard[]): { estateHectares: number; share: number } {
+  const parcels = getEstateParcels(vineyards, getVineyardEstateId(vineyard));
+  const estateHectares = (parcels.some(v => v.id === vineyard.id) ? parcels : [...parcels, vineyard])
+    .reduce((sum, v) => sum + Math.max(0, v.hectares || 0), 0);
+  return { estateHectares, share: estateHectares > 0 ? Math.max(0, vineyard.hectares || 0) / estateHectares : 1 };
+}
+
+/**
+ * Number of estates owned; parcels do not count as extra vineyards
+ */
+export function countVineyardEstates(vineyards: Vineyard[]): number {
+  return new Set(vineyards.map(getVineyardEstateId)).size;
+}
+
+/**
+ * Order vineyards so each estate's parcels follow it, keeping the estates in their original order
+ */
+export function sortVineyardsByEstate(vineyards: Vineyard[]): Vineyard[] {
+  const estateIds = [...new Set(vineyards.map(getVineyardEstateId))];
+  return estateIds.flatMap(estateId => getEstateParcels(vineyards, estateId));
+}
+
+export function getParcelName(vineyard: Vineyard): string {
+  return vineyard.parcelName ?? VINEYARD_PARCELS.mainParcelName;
+}
+
+/**
+ * Vineyard name with its parcel, for activity titles and anywhere parcels of one estate sit side by side
+ */
+export function getVineyardDisplayName(vineyard: Vineyard): string {
+  return vineyard.parcelName ? `${vineyard.name} – ${vineyard.parcelName}` : vineyard.name;
+}
+
+/**
+ * Check whether a new parcel can be split off a vineyard.
+ * Busy vineyards (an activity in progress) and insured crops keep their size until that work or cover ends.
+ */
+export function validateParcelSplit(
+  source: Vineyard,
+  estateParcels: Vineyard[],
+  options: ParcelSplitOptions,
+  blockers: { hasActiveActivity?: boolean; isInsured?: boolean } = {}
+): { valid: boolean; reason?: string } {
+  const name = options.name.trim();
+  if (!name) {
+    return { valid: false, reason: 'Give the new parcel a name.' };
+  }
+  if (estateParcels.some(parcel => getParcelName(parcel).toLowerCase() === name.toLowerCase())) {
+    return { valid: false, reason: `This estate already has a parcel called ${name}.` };
+  }
+  if (estateParcels.length >= VINEYARD_PARCELS.maxPerEstate) {
+    return { valid: false, reason: `An estate can have at most ${VINEYARD_PARCELS.maxPerEstate} parcels.` };
+  }
+  if (!Number.isFinite(options.hectares) || options.hectares < VINEYARD_PARCELS.minHectares) {
+    return { valid: false, reason: `A parcel needs at least ${VINEYARD_PARCELS.minHectares} ha.` };
+  }
+  if (source.hectares - options.hectares < VINEYARD_PARCELS.minHectares) {
+    return { valid: false, reason: `The split must leave at least ${VINEYARD_PARCELS.minHectares} ha in ${getParcelName(source)}.` };
+  }
+  if (blockers.hasActiveActivity) {
+    return { valid: false, reason: 'Finish or cancel the work in progress on this parcel before splitting it.' };
+  }
+  if (blockers.isInsured) {
+    return { valid: false, reason: 'This parcel\'s crop is insured this season; split it once the cover ends.' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Split a parcel off a vineyard. The new parcel takes the vines growing on its share of the land,
+ * so it starts with the same grape, density, age, ripeness, health and pending features; the
+ * estate's land value per hectare carries over, so value is divided by area.
+ */
+export function buildParcelSplit(
+  source: Vineyard,
+  parcelId: string,
+  options: ParcelSplitOptions
+): { source: Vineyard; parcel: Vineyard } {
+  const hectares = Number(options.hectares.toFixed(2));
+  const remainingHectares = Number((source.hectares - hectares).toFixed(2));
+  const parcelValue = Math.round(source.vineyardTotalValue * hectares / source.hectares);
+
+  return {
+    source: {
+      ...source,
+      hectares: remainingHectares,
+      vineyardTotalValue: source.vineyardTotalValue - parcelValue
+    },
+    parcel: {
+      ...source,
+      id: parcelId,
+      estateId: getVineyardEstateId(source),
+      parcelName: options.name.trim(),
+      hectares,
+      vineyardTotalValue: parcelValue,
+      pendingFeatures: source.pendingFeatures?.map(feature => ({ ...feature })),
+      vineTreatments: source.vineTreatments?.map(treatment => ({ ...treatment }))
+    }
+  };
+}
+
+/**
+ * Total value of each parcel from the estate's shared land. Each parcel's own per-hectare value
+ * (planting, vine age, prestige, certification) is pooled into one hectare-weighted value per
+ * estate, which every parcel then holds in proportion to its area.
+ */
+export function apportionEstateLandValues(parcels: Array<{ vineyard: Vineyard; adjustedPerHa: number }>): Map<string, number> {
+  const estates = new Map<string, { value: number; hectares: number }>();
+  for (const { vineyard, adjustedPerHa } of parcels) {
+    const estate = estates.get(getVineyardEstateId(vineyard)) ?? { value: 0, hectares: 0 };
+    estate.value += adjustedPerHa * vineyard.hectares;
+    estate.hectares += vineyard.hectares;
+    estates.set(getVineyardEstateId(vineyard), estate);
+  }
+
+  return new Map(parcels.map(({ vineyard, adjustedPerHa }) => {
+    const estate = estates.get(getVineyardEstateId(vineyard))!;
+    const estatePerHa = estate.hectares > 0 ? estate.value / estate.hectares : adjustedPerHa;
+    return [vineyard.id, Math.round(estatePerHa * vineyard.hectares)];
+  }));
+}
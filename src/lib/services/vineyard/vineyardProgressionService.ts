@@ -1,9 +1,11 @@
 import { ASPECT_RIPENESS_MODIFIERS, RIPENESS_INCREASE, SEASONAL_RIPENESS_RANDOMNESS } from '@/lib/constants/vineyardConstants';
 import type { Season, Vineyard } from '@/lib/types/types';
-import { deterministicSeasonalVariation } from '@/lib/utils';
+import { deterministicSeasonalVariation } from '@/lib/utils/consistencyUtils';
+import { getCanopyEffects } from './canopyService';
+import { getPlantingMaterialEffects } from './plantingMaterialService';
 
 /**
- * Calculate dynamic ripeness increase for a vineyard based on season, aspect, and randomness.
+ * Calculate dynamic ripeness increase for a vineyard based on season, aspect, randomness, this season's canopy work and the planting material.
  */
 export function calculateDynamicRipenessIncrease(
   vineyard: Vineyard,
@@ -16,9 +18,11 @@ export function calculateDynamicRipenessIncrease(
     return 0;
   }
 
+  const canopyMultiplier = getCanopyEffects(vineyard.canopyWork).ripenessMultiplier
+    * getPlantingMaterialEffects(vineyard).ripeningMultiplier;
   const randomnessRange = SEASONAL_RIPENESS_RANDOMNESS[season as keyof typeof SEASONAL_RIPENESS_RANDOMNESS];
   if (!randomnessRange || randomnessRange.min === randomnessRange.max) {
-    return baseIncrease;
+    return baseIncrease * canopyMultiplier;
   }
 
   const resolvedMultiplier = deterministicMultiplier
@@ -30,7 +34,7 @@ export function calculateDynamicRipenessIncrease(
 
   const aspectModifier = ASPECT_RIPENESS_MODIFIERS[vineyard.aspect as keyof typeof ASPECT_RIPENESS_MODIFIERS] || 0;
   const aspectMultiplier = 1 + aspectModifier;
-  const finalIncrease = baseIncrease * resolvedMultiplier * aspectMultiplier;
+  const finalIncrease = baseIncrease * resolvedMultiplier * aspectMultiplier * canopyMultiplier;
 
   return Math.max(0, finalIncrease);
 }
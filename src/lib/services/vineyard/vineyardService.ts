@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Vineyard, GrapeVariety } from '../../types/types';
+import { Vineyard, GrapeVariety, FarmingMethod } from '../../types/types';
 import { calculateVineyardYieldBreakdown, type VineyardYieldBreakdown } from './vineyardManager';
 import { getRandomAspect, getRandomAltitude, getRandomSoils, generateVineyardName } from './vineyardGeneration';
 import { saveVineyard, loadVineyards } from '../../database/activities/vineyardDB';
@@ -20,6 +20,12 @@ import { activitiesFeature } from '@/lib/features/activities';
 import { updateGameState } from '@/lib/services/core/gameState';
 import { researchUpgradeFeature } from '@/lib/features/researchUpgrade';
 import { buildVineyardCapacityState, getCapacityConstraintReason } from './vineyardCapacityService';
+import { changeFarmingMethod, getFarmingCertification, getFarmingConversionYearsRemaining, getFarmingMethod } from './farmingService';
+import { FARMING_METHODS } from '../../constants/farmingConstants';
+import { recordVineyardHistoryEvent } from './vineyardHistoryManager';
+import { countVineyardEstates, getVineyardEstateId } from './vineyardParcelService';
+import { isVineCloneAvailable, type PlantingMaterial } from './plantingMaterialService';
+import { DEFAULT_ROOTSTOCK, DEFAULT_VINE_CLONE } from '../../constants/plantingMaterialConstants';
 
 
 // Helper functions for random vineyard generation
@@ -146,7 +152,11 @@ export async function createVineyard(name?: string): Promise<Vineyard> {
 }
 
 // Initialize planting (called when planting activity starts)
-export async function initializePlanting(vineyardId: string, grape: GrapeVariety): Promise<boolean> {
+export async function initializePlanting(
+  vineyardId: string,
+  grape: GrapeVariety,
+  material: PlantingMaterial = { rootstock: DEFAULT_ROOTSTOCK, vineClone: DEFAULT_VINE_CLONE }
+): Promise<boolean> {
   const vineyards = await loadVineyards();
   const vineyard = vineyards.find(v => v.id === vineyardId);
 
@@ -154,10 +164,18 @@ export async function initializePlanting(vineyardId: string, grape: GrapeVariety
     return false;
   }
 
+  // Premium clones are only sold to wineries that have researched them
+  const unlockedClones = await researchUpgradeFeature.unlocks.getUnlockedItems('vine_clone');
+  if (!isVineCloneAvailable(material.vineClone, unlockedClones)) {
+    return false;
+  }
+
   // Set initial planting state
   const updatedVineyard: Vineyard = {
     ...vineyard,
     grape, // Set the grape variety
+    rootstock: material.rootstock,
+    vineClone: material.vineClone,
     vineAge: 0, // Newly planted vines
     density: 0, // Start with 0 density, will increase during planting
     vineyardHealth: vineyard.vineyardHealth || DEFAULT_VINEYARD_HEALTH,
@@ -172,7 +190,7 @@ export async function initializePlanting(vineyardId: string, grape: GrapeVariety
 }
 
 /**
- * Voluntary sale of a single vineyard by the player
+ * Voluntary sale of a vineyard estate by the player, together with all of its parcels
  * Applies a smaller penalty than forced seizure (default 10% vs 25%)
  */
 export async function sellVineyard(
@@ -187,12 +205,13 @@ export async function sellVineyard(
     if (!vineyard) {
       return { success: false, error: 'Vineyard not found' };
     }
+    const parcels = vineyards.filter(v => getVineyardEstateId(v) === getVineyardEstateId(vineyard));
 
-    const grossValue = vineyard.vineyardTotalValue || 0;
+    const grossValue = parcels.reduce((sum, parcel) => sum + (parcel.vineyardTotalValue || 0), 0);
     const proceeds = Math.max(0, Math.round(grossValue * (1 - penaltyRate)));
 
-    // Auto-cancel/remove any active activities on this vineyard
-    const activeOnTarget = await activitiesFeature.reads.getByTarget(vineyardId);
+    // Auto-cancel/remove any active activities on the estate's parcels
+    const activeOnTarget = (await Promise.all(parcels.map(parcel => activitiesFeature.reads.getByTarget(parcel.id)))).flat();
     if (activeOnTarget.length > 0) {
       for (const act of activeOnTarget) {
         await activitiesFeature.lifecycle.remove(act.id);
@@ -202,21 +221,27 @@ export async function sellVineyard(
       updateGameState({ activities: remaining.filter(a => a.status === 'active') });
     }
 
-    // Remove vineyard from portfolio
-    await deleteVineyards([vineyardId]);
+    // Remove the estate from portfolio; its history stays on record
+    await deleteVineyards(parcels.map(parcel => parcel.id));
+    for (const parcel of parcels) {
+      const parcelProceeds = grossValue > 0 ? Math.round(proceeds * (parcel.vineyardTotalValue || 0) / grossValue) : 0;
+      await recordVineyardHistoryEvent(parcel, 'sold', { density: parcel.density, amount: parcelProceeds });
+    }
+
+    const parcelNote = parcels.length > 1 ? ` with its ${parcels.length} parcels` : '';
 
     // Add proceeds to company money
     if (proceeds > 0) {
       await addTransaction(
         proceeds,
-        `Voluntary sale of ${vineyard.name} (${formatNumber(grossValue, { currency: true })} value, ${Math.round(penaltyRate * 100)}% fee)`,
+        `Voluntary sale of ${vineyard.name}${parcelNote} (${formatNumber(grossValue, { currency: true })} value, ${Math.round(penaltyRate * 100)}% fee)`,
         TRANSACTION_CATEGORIES.VINEYARD_SALE,
         false
       );
     }
 
     await notificationService.addMessage(
-      `Sold ${vineyard.name} for ${formatNumber(proceeds, { currency: true })} (after ${Math.round(penaltyRate * 100)}% fee).`,
+      `Sold ${vineyard.name}${parcelNote} for ${formatNumber(proceeds, { currency: true })} (after ${Math.round(penaltyRate * 100)}% fee).`,
       'vineyardService.sellVineyard',
       'Vineyard Sale',
       NotificationCategory.FINANCE_AND_STAFF
@@ -231,6 +256,48 @@ export async function sellVineyard(
   }
 }
 
+/**
+ * Change how a vineyard is farmed. Going conventional ends the conversion; moving to biodynamic
+ * starts the biodynamic conversion while the organic years, and any organic certification, are kept.
+ */
+export async function changeVineyardFarmingMethod(
+  vineyardId: string,
+  farmingMethod: FarmingMethod
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const vineyards = await loadVineyards();
+    const vineyard = vineyards.find((v) => v.id === vineyardId);
+    if (!vineyard) return { success: false, error: 'Vineyard not found' };
+    if (getFarmingMethod(vineyard) === farmingMethod) return { success: true };
+
+    const lostCertification = getFarmingCertification(vineyard);
+    const updatedVineyard: Vineyard = { ...vineyard, ...changeFarmingMethod(vineyard, farmingMethod) };
+    await saveVineyard(updatedVineyard);
+
+    try {
+      await prestigeFeature.lifecycle.updateVineyard(vineyard.id);
+    } catch (error) {
+      console.error('Failed to update prestige after changing farming method:', error);
+    }
+
+    const label = FARMING_METHODS[farmingMethod].label;
+    const yearsRemaining = getFarmingConversionYearsRemaining(updatedVineyard);
+    const keptCertification = getFarmingCertification(updatedVineyard);
+    const message = farmingMethod === 'conventional'
+      ? `${vineyard.name} is farmed conventionally again${lostCertification ? ` and has lost its ${FARMING_METHODS[lostCertification].label.toLowerCase()} certification` : ''}.`
+      : yearsRemaining > 0
+        ? `${vineyard.name} is now farmed ${label.toLowerCase()}ally${keptCertification ? ` and keeps its ${FARMING_METHODS[keptCertification].label.toLowerCase()} certification` : ''}. ${label} certification follows after ${yearsRemaining} more year${yearsRemaining === 1 ? '' : 's'} of conversion.`
+        : `${vineyard.name} is now farmed ${label.toLowerCase()}ally and certified ${label.toLowerCase()}.`;
+    await notificationService.addMessage(message, 'vineyardService.changeVineyardFarmingMethod', 'Farming Method', NotificationCategory.VINEYARD_OPERATIONS);
+
+    triggerGameUpdate();
+    return { success: true };
+  } catch (error) {
+    console.error('Error changing farming method:', error);
+    return { success: false, error: 'Failed to change farming method' };
+  }
+}
+
 /**
  * Annual vineyard value refresh
  * Recalculate vineyardTotalValue based on adjusted per-hectare value once per year
@@ -256,6 +323,7 @@ export async function completePlanting(vineyardId: string, targetDensity: number
   };
 
   await saveVineyard(updatedVineyard);
+  await recordVineyardHistoryEvent(updatedVineyard, 'planted', { density: targetDensity });
 
   // Add achievement prestige event for planting (uses base vineyard prestige as multiplier)
   try {
@@ -335,7 +403,7 @@ export async function purchaseVineyard(option: VineyardPurchaseOption): Promise<
 
     const vineyardCapacity = buildVineyardCapacityState({
       currentTotalHectares: existingVineyards.reduce((sum, vineyard) => sum + (vineyard.hectares || 0), 0),
-      currentVineyardCount: existingVineyards.length,
+      currentVineyardCount: countVineyardEstates(existingVineyards),
       unlockedPerVineyardValues,
       unlockedTotalHectareValues,
       unlockedVineyardCountValues
@@ -365,6 +433,7 @@ export async function purchaseVineyard(option: VineyardPurchaseOption): Promise<
 
     // Save the vineyard
     await saveVineyard(vineyard);
+    await recordVineyardHistoryEvent(vineyard, 'purchased', { amount: option.totalPrice });
 
     // Add transaction for the purchase
     await addTransaction(
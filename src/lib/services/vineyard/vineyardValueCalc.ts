@@ -15,7 +15,10 @@ import {
   GRAPE_SUN_PREFERENCES,
   GRAPE_SOIL_PREFERENCES
 } from '../../constants/grapeConstants';
-import { Aspect, GrapeVariety, Vineyard } from '../../types/types';
+import { FARMING_METHODS } from '../../constants/farmingConstants';
+import { Aspect, FarmingCertification, GrapeVariety, Vineyard } from '../../types/types';
+import { getFarmingCertification, getFarmingLandValueBonus } from './farmingService';
+import { getGrapeTenureLandValueBonus } from './vineyardHistoryService';
 import { NormalizeScrewed1000To01WithTail, vineyardAgePrestigeModifier } from '@/lib/utils/calculator';
 import { clamp01 } from '@/lib/utils/utils';
 
@@ -345,6 +348,8 @@ export function calculateGrapeSuitabilityContribution(
  * - +5% × grape suitability when planted (0–5%)
  * - +3% × (vineAge/200) × vineyardAgePrestigeModifier (0–3%)
  * - +2% × NormalizeScrewed1000To01WithTail(vineyardPrestige) (0–2%)
+ * - +3% organic / +5% biodynamic once certified
+ * - +3% × min(1, grapeTenureYears / 50) for keeping the same grape planted (0–3%)
  * Target: typical combined uplift ~5–10% at strong conditions.
  */
 export function calculateAdjustedLandValue(
@@ -357,6 +362,8 @@ export function calculateAdjustedLandValue(
     vineAge?: number | null;
     vineyardPrestige?: number;
     soil?: readonly SoilType[] | readonly string[];
+    farmingCertification?: FarmingCertification | null;
+    grapeTenureYears?: number;
   }
 ): number {
   const base = calculateLandValue(country, region, altitude, aspect);
@@ -381,14 +388,19 @@ export function calculateAdjustedLandValue(
   const prestigeNorm = NormalizeScrewed1000To01WithTail(Math.max(0, context?.vineyardPrestige ?? 0)); // 0–1
   const prestigeBonus = 0.02 * prestigeNorm;
 
-  const totalMultiplier = 1 + plantedBonus + ageBonus + prestigeBonus;
+  const farmingBonus = context?.farmingCertification ? FARMING_METHODS[context.farmingCertification].landValueBonus : 0;
+
+  const tenureBonus = context?.grape ? getGrapeTenureLandValueBonus(context.grapeTenureYears ?? 0) : 0;
+
+  const totalMultiplier = 1 + plantedBonus + ageBonus + prestigeBonus + farmingBonus + tenureBonus;
   return Math.round(base * totalMultiplier);
 }
 
 /**
  * Convenience: Compute current total vineyard value using adjusted per-hectare value.
+ * Grape tenure comes from the vineyard history, so callers that have it pass it in.
  */
-export function calculateAdjustedVineyardTotalValue(vineyard: Vineyard): number {
+export function calculateAdjustedVineyardTotalValue(vineyard: Vineyard, grapeTenureYears: number = 0): number {
   const perHa = calculateAdjustedLandValue(
     vineyard.country,
     vineyard.region,
@@ -398,7 +410,9 @@ export function calculateAdjustedVineyardTotalValue(vineyard: Vineyard): number
       grape: vineyard.grape,
       vineAge: vineyard.vineAge ?? 0,
       vineyardPrestige: vineyard.vineyardPrestige ?? 0,
-      soil: vineyard.soil
+      soil: vineyard.soil,
+      farmingCertification: getFarmingCertification(vineyard),
+      grapeTenureYears
     }
   );
   return Math.round(perHa * vineyard.hectares);
@@ -409,6 +423,8 @@ export interface LandValueAdjustmentBreakdown {
   plantedBonusPct: number; // 0-1
   ageBonusPct: number; // 0-1
   prestigeBonusPct: number; // 0-1
+  farmingBonusPct: number; // 0-1, certified organic or biodynamic land
+  tenureBonusPct: number; // 0-1, same grape kept planted
   totalMultiplier: number; // 1 + sum
   adjustedPerHa: number;
   adjustedTotal: number;
@@ -418,7 +434,7 @@ export interface LandValueAdjustmentBreakdown {
 /**
  * Return detailed breakdown of adjusted land value for a given vineyard
  */
-export function calculateAdjustedLandValueBreakdown(vineyard: Vineyard): LandValueAdjustmentBreakdown {
+export function calculateAdjustedLandValueBreakdown(vineyard: Vineyard, grapeTenureYears: number = 0): LandValueAdjustmentBreakdown {
   const basePerHa = calculateLandValue(
     vineyard.country,
     vineyard.region,
@@ -456,7 +472,11 @@ export function calculateAdjustedLandValueBreakdown(vineyard: Vineyard): LandVal
   const prestigeNorm = NormalizeScrewed1000To01WithTail(Math.max(0, vineyard.vineyardPrestige ?? 0));
   const prestigeBonusPct = 0.02 * prestigeNorm;
 
-  const totalMultiplier = 1 + plantedBonusPct + ageBonusPct + prestigeBonusPct;
+  const farmingBonusPct = getFarmingLandValueBonus(vineyard);
+
+  const tenureBonusPct = vineyard.grape ? getGrapeTenureLandValueBonus(grapeTenureYears) : 0;
+
+  const totalMultiplier = 1 + plantedBonusPct + ageBonusPct + prestigeBonusPct + farmingBonusPct + tenureBonusPct;
   const adjustedPerHa = Math.round(basePerHa * totalMultiplier);
   const adjustedTotal = Math.round(adjustedPerHa * vineyard.hectares);
 
@@ -465,6 +485,8 @@ export function calculateAdjustedLandValueBreakdown(vineyard: Vineyard): LandVal
     plantedBonusPct,
     ageBonusPct,
     prestigeBonusPct,
+    farmingBonusPct,
+    tenureBonusPct,
     totalMultiplier,
     adjustedPerHa,
     adjustedTotal,
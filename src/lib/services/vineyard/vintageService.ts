@@ -0,0 +1,36 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Vineyard, VineyardVintage } from '../../types/types';
+import { deriveVintageConditions } from '@/lib/features/weather/weatherVineyardService';
+import type { VintageConditions } from '@/lib/features/weather/weatherTypes';
+import { getVineyardDisplayName } from './vineyardParcelService';
+
+/**
+ * Vintage Service
+ * Per-vineyard vintage factors from this year's growing-season weather
+ */
+
+export function getVineyardVintageConditions(vineyard: Vineyard): VintageConditions {
+  return deriveVintageConditions(vineyard.vintageWeather);
+}
+
+/**
+ * Vintage record for a vineyard's year, or null when the vines saw no growing season
+ */
+export function buildVineyardVintage(vineyard: Vineyard, year: number, inProgress: boolean = false): VineyardVintage | null {
+  if (!vineyard.grape || !vineyard.vintageWeather?.weeks) return null;
+
+  const conditions = getVineyardVintageConditions(vineyard);
+  return {
+    id: uuidv4(),
+    vineyardId: vineyard.id,
+    vineyardName: getVineyardDisplayName(vineyard),
+    grape: vineyard.grape,
+    region: vineyard.region,
+    country: vineyard.country,
+    year,
+    weather: { ...vineyard.vintageWeather },
+    yieldFactor: conditions.yieldFactor,
+    qualityFactor: conditions.qualityFactor,
+    ...(inProgress ? { inProgress } : {})
+  };
+}
@@ -2,11 +2,20 @@
  * Process-phase anchor updates (after harvest).
  */
 import { GRAPE_CONST } from '@/lib/constants/grapeConstants';
-import { WineAnchorValues, WineBatch } from '@/lib/types/types';
+import { STORAGE_VESSEL_IMPRINT_WEEKLY_RELEASE } from '@/lib/constants/storageVesselConstants';
+import { SPARKLING_FULL_AUTOLYSIS_WEEKS, SPARKLING_SECONDARY_FERMENTATION_WEEKS } from '@/lib/constants/sparklingConstants';
+import { CellarOperation, SweetWineMethod, WineAnchorId, WineAnchorValues, WineBatch } from '@/lib/types/types';
 import { clamp01 } from '@/lib/utils/utils';
 import { CrushingOptions } from '@/lib/services/wine/characteristics/crushingCharacteristics';
-import { FermentationOptions } from '@/lib/services/wine/characteristics/fermentationCharacteristics';
+import {
+  FermentationDecision,
+  FermentationOptions,
+  getFermentationDecisionInfo,
+  getSelectedFermentationDecisions
+} from '@/lib/services/wine/characteristics/fermentationCharacteristics';
+import type { MaturationVesselProfile } from '@/lib/services/wine/characteristics/maturationCharacteristics';
 import { weightedMean } from '@/lib/services/wine/anchors/wineAnchorService';
+import { AnchorEffectEntry, diffAnchorEffects } from '@/lib/services/wine/debug/wineAnchorEffectUtils';
 
 const METHOD_EXTRACTION: Record<CrushingOptions['method'], number> = {
   'Hand Press': 0.42,
@@ -14,6 +23,13 @@ const METHOD_EXTRACTION: Record<CrushingOptions['method'], number> = {
   'Pneumatic Press': 0.54
 };
 
+/** Share of skin extraction kept by each skin contact choice (red grapes). */
+const SKIN_CONTACT_EXTRACTION: Record<CrushingOptions['skinContact'], number> = {
+  full: 1,
+  short: 0.45,
+  none: 0.2
+};
+
 const METHOD_PROFILE: Record<FermentationOptions['method'], number> = {
   Basic: 0.38,
   'Temperature Controlled': 0.62,
@@ -26,24 +42,51 @@ const TEMP_PROFILE: Record<FermentationOptions['temperature'], number> = {
   Warm: 0.72
 };
 
+/**
+ * Anchor deltas for malolactic and lees-management decisions, at setup and each fermenting week.
+ * Malolactic conversion consumes acid potential; bâtonnage builds lees fast but lets in oxygen;
+ * sur-lie builds lees slowly and keeps the wine reductive.
+ */
+const FERMENTATION_DECISION_ANCHOR_DELTAS: Record<
+  FermentationDecision,
+  Record<'setup' | 'weekly', Partial<WineAnchorValues>>
+> = {
+  malolactic: {
+    setup: { acidPotential: -0.08, fermentationState: 0.03, processFootprint: 0.03 },
+    weekly: { acidPotential: -0.006, processFootprint: 0.002 }
+  },
+  batonnage: {
+    setup: { leesState: 0.08, extractionState: 0.02, oxidationPressure: 0.02, processFootprint: 0.02 },
+    weekly: { leesState: 0.008, oxidationPressure: 0.002 }
+  },
+  surLie: {
+    setup: { leesState: 0.05, oxidationPressure: -0.02 },
+    weekly: { leesState: 0.006, oxidationPressure: -0.002 }
+  }
+};
+
 export function applyCrushingToWineAnchors(
   anchors: WineAnchorValues,
   options: CrushingOptions
 ): WineAnchorValues {
+  const skinContact = SKIN_CONTACT_EXTRACTION[options.skinContact];
+  const saignee = clamp01(options.saigneeShare);
   const extractionState = clamp01(
     weightedMean([
       { value: METHOD_EXTRACTION[options.method], weight: 0.45 },
       { value: clamp01(options.pressingIntensity), weight: 0.35 },
       { value: options.destemming ? 0.72 : 0.38, weight: 0.1 },
       { value: options.coldSoak ? 0.78 : 0.32, weight: 0.1 }
-    ])
+    ]) * skinContact + 0.25 * saignee
   );
 
+  // Shorter skin contact leaves phenolics behind on the skins; saignée concentrates what remains.
   const phenolicPotential = clamp01(
-    anchors.phenolicPotential +
+    anchors.phenolicPotential * (0.6 + 0.4 * skinContact) +
       0.06 * clamp01(options.pressingIntensity) +
       (options.coldSoak ? 0.03 : 0) +
-      (options.destemming ? 0.015 : 0)
+      (options.destemming ? 0.015 : 0) +
+      0.1 * saignee
   );
 
   const processFootprint = clamp01(
@@ -124,6 +167,124 @@ export function applyWeeklyFermentationContactToWineAnchors(
   };
 }
 
+export function applyFermentationDecisionToWineAnchors(
+  anchors: WineAnchorValues,
+  decision: FermentationDecision,
+  phase: 'setup' | 'weekly'
+): WineAnchorValues {
+  const next = { ...anchors };
+  const deltas = FERMENTATION_DECISION_ANCHOR_DELTAS[decision][phase];
+  for (const key of Object.keys(deltas) as WineAnchorId[]) {
+    next[key] = clamp01(next[key] + (deltas[key] ?? 0));
+  }
+  return next;
+}
+
+/**
+ * Apply every selected malolactic / lees-management decision in turn, diffing each one
+ * separately so the debug breakdown lists them as their own anchor effects.
+ */
+export function applyFermentationDecisionsToWineAnchors(
+  anchors: WineAnchorValues,
+  options: FermentationOptions,
+  phase: 'setup' | 'weekly'
+): { wineAnchors: WineAnchorValues; anchorEffects: AnchorEffectEntry[] } {
+  const decisionInfo = getFermentationDecisionInfo();
+  const anchorEffects: AnchorEffectEntry[] = [];
+  let wineAnchors = anchors;
+
+  for (const decision of getSelectedFermentationDecisions(options)) {
+    const next = applyFermentationDecisionToWineAnchors(wineAnchors, decision, phase);
+    const label = decisionInfo[decision].label;
+    anchorEffects.push(...diffAnchorEffects(wineAnchors, next, phase === 'setup' ? `${label} setup` : `Weekly ${label.toLowerCase()}`));
+    wineAnchors = next;
+  }
+
+  return { wineAnchors, anchorEffects };
+}
+
+/**
+ * Anchor deltas for cellar operations. Racking leaves the lees behind; fining strips
+ * phenolics and filtration some aromatics. Clearer wine holds up better against oxygen.
+ */
+const CELLAR_OPERATION_ANCHOR_DELTAS: Record<CellarOperation, Partial<WineAnchorValues>> = {
+  racking: { leesState: -0.1, processFootprint: 0.01 },
+  fining: { phenolicPotential: -0.04, oxidationPressure: -0.02, processFootprint: 0.02 },
+  filtration: { leesState: -0.05, aromaticPotential: -0.02, oxidationPressure: -0.01, processFootprint: 0.03 }
+};
+
+export function applyCellarOperationToWineAnchors(anchors: WineAnchorValues, operation: CellarOperation): WineAnchorValues {
+  const next = { ...anchors };
+  const deltas = CELLAR_OPERATION_ANCHOR_DELTAS[operation];
+  for (const key of Object.keys(deltas) as WineAnchorId[]) {
+    next[key] = clamp01(next[key] + (deltas[key] ?? 0));
+  }
+  return next;
+}
+
+/**
+ * Weekly vessel maturation: time in any vessel develops the wine, oxygen ingress
+ * raises oxidation pressure, wood leaves a process footprint and vessel memory
+ * nudges every anchor toward the vessels' previous fills.
+ */
+export function applyWeeklyMaturationToWineAnchors(
+  anchors: WineAnchorValues,
+  profile: MaturationVesselProfile
+): WineAnchorValues {
+  const maturationState = clamp01(
+    anchors.maturationState + 0.006 + 0.01 * profile.oxygenExchange + 0.008 * profile.woodInfluence
+  );
+  const oxidationPressure = clamp01(anchors.oxidationPressure + 0.008 * profile.oxygenExchange);
+  const processFootprint = clamp01(anchors.processFootprint + 0.004 * profile.woodInfluence);
+
+  const matured: WineAnchorValues = {
+    ...anchors,
+    maturationState,
+    oxidationPressure,
+    processFootprint
+  };
+  if (!profile.imprint) return matured;
+
+  const pull = STORAGE_VESSEL_IMPRINT_WEEKLY_RELEASE * profile.imprint.release;
+  for (const key of Object.keys(matured) as WineAnchorId[]) {
+    matured[key] = clamp01(matured[key] + ((profile.imprint.wineAnchors[key] ?? matured[key]) - matured[key]) * pull);
+  }
+  return matured;
+}
+
+/**
+ * Weekly tirage: the second fermentation in bottle, then yeast autolysis that keeps
+ * feeding the lees anchor. The crown-capped bottle is reductive, so oxidation eases.
+ */
+export function applyWeeklyTirageToWineAnchors(anchors: WineAnchorValues, tirageWeeks: number): WineAnchorValues {
+  const secondaryFermentation = tirageWeeks < SPARKLING_SECONDARY_FERMENTATION_WEEKS;
+  const autolysis = 1 - 0.5 * Math.min(1, tirageWeeks / SPARKLING_FULL_AUTOLYSIS_WEEKS);
+
+  return {
+    ...anchors,
+    fermentationState: clamp01(anchors.fermentationState + (secondaryFermentation ? 0.02 : 0)),
+    leesState: clamp01(anchors.leesState + 0.012 * autolysis),
+    maturationState: clamp01(anchors.maturationState + 0.004),
+    oxidationPressure: clamp01(anchors.oxidationPressure - 0.003),
+    processFootprint: clamp01(anchors.processFootprint + (secondaryFermentation ? 0.006 : 0.002))
+  };
+}
+
+/**
+ * Stopping fermentation early: the yeast never finishes, so fermentation state drops back
+ * and the unfermented sugar stays in the wine. Fortifying spirit leaves a larger footprint.
+ */
+export function applyFermentationStopToWineAnchors(anchors: WineAnchorValues, method: SweetWineMethod): WineAnchorValues {
+  const unfermented = 1 - anchors.fermentationState;
+
+  return {
+    ...anchors,
+    fermentationState: clamp01(anchors.fermentationState - (method === 'fortified' ? 0.06 : 0.1)),
+    sugarPotential: clamp01(anchors.sugarPotential + 0.15 * unfermented),
+    processFootprint: clamp01(anchors.processFootprint + (method === 'fortified' ? 0.08 : 0.04))
+  };
+}
+
 export function applyFeatureLayerAnchors(batch: WineBatch, anchors: WineAnchorValues): WineAnchorValues {
   const present = (batch.features || []).filter((f) => f.isPresent);
   const oxidationSeverity = clamp01(present.find((f) => f.id === 'oxidation')?.severity ?? 0);
@@ -1,6 +1,10 @@
 import { GRAPE_CONST } from '@/lib/constants/grapeConstants';
 import { ASPECT_SUN_EXPOSURE_OFFSETS } from '@/lib/constants/vineyardConstants';
 import { calculateGrapeSuitabilityMetrics } from '@/lib/services/vineyard/vineyardValueCalc';
+import { getCanopyEffects } from '@/lib/services/vineyard/canopyService';
+import { getVineyardVintageConditions } from '@/lib/services/vineyard/vintageService';
+import { getWaterStressEffects } from '@/lib/services/vineyard/irrigationService';
+import { getPlantingMaterialEffects } from '@/lib/services/vineyard/plantingMaterialService';
 import { GrapeVariety, Vineyard, Aspect, WineAnchorValues } from '@/lib/types/types';
 import { clamp01 } from '@/lib/utils/utils';
 
@@ -137,13 +141,21 @@ export function computeHarvestWineAnchors(
     ])
   );
 
+  // Canopy work this season concentrates the remaining fruit; the vintage's weather shifts ripeness and structure
+  const canopy = getCanopyEffects(vineyard.canopyWork);
+  const vintage = getVineyardVintageConditions(vineyard);
+  // Drought stress this year concentrates phenolics and lowers acidity
+  const waterStress = getWaterStressEffects(vineyard);
+  // Low-vigour rootstocks and quality clones concentrate the fruit; productive clones dilute it
+  const material = getPlantingMaterialEffects(vineyard);
+
   const sugarPotential = clamp01(
     weightedMean([
       { value: base.sweetness, weight: 0.35 },
       { value: ripeness, weight: 0.35 },
       { value: aspectSun, weight: 0.15 },
       { value: 1 - altitude, weight: 0.15 }
-    ])
+    ]) + canopy.sugarPotentialShift + vintage.sugarPotentialShift
   );
 
   const acidPotential = clamp01(
@@ -152,7 +164,7 @@ export function computeHarvestWineAnchors(
       { value: 1 - ripeness, weight: 0.25 },
       { value: altitude, weight: 0.15 },
       { value: suitability.sunExposure, weight: 0.15 }
-    ])
+    ]) + vintage.acidPotentialShift + waterStress.acidPotentialShift + material.acidPotentialShift
   );
 
   const isRed = grapeData.grapeColor === 'red';
@@ -163,7 +175,8 @@ export function computeHarvestWineAnchors(
       { value: rowCompetition, weight: 0.15 },
       { value: isRed ? 1 : 0.2, weight: 0.1 },
       { value: health, weight: 0.1 }
-    ])
+    ]) + canopy.phenolicPotentialShift + vintage.phenolicPotentialShift + waterStress.phenolicPotentialShift
+      + material.phenolicPotentialShift
   );
 
   const aromaticPotential = clamp01(
@@ -173,7 +186,7 @@ export function computeHarvestWineAnchors(
       { value: soilMinerality, weight: 0.12 },
       { value: siteWildness, weight: 0.08 },
       { value: ripeness, weight: 0.15 }
-    ])
+    ]) + vintage.aromaticPotentialShift + material.aromaticPotentialShift
   );
 
   const bodyPotential = clamp01(
@@ -0,0 +1,43 @@
+import { CellarOperation, WineBatch, WineCharacteristics } from '../../../types/types';
+import { CELLAR_OPERATIONS, type CellarOperationRiskFeature } from '@/lib/constants/cellarOperationConstants';
+import { clamp01 } from '@/lib/utils/utils';
+
+export interface CellarOperationEffect {
+  characteristic: keyof WineCharacteristics;
+  modifier: number;
+  description: string;
+}
+
+/**
+ * Apply the characteristic changes of one cellar operation
+ */
+export function applyCellarOperation(
+  characteristics: WineCharacteristics,
+  operation: CellarOperation
+): { characteristics: WineCharacteristics; effects: CellarOperationEffect[] } {
+  const info = CELLAR_OPERATIONS[operation];
+  const effects: CellarOperationEffect[] = Object.entries(info.characteristicEffects).map(([characteristic, modifier]) => ({
+    characteristic: characteristic as keyof WineCharacteristics,
+    modifier: modifier ?? 0,
+    description: info.label
+  }));
+
+  const next = { ...characteristics };
+  for (const effect of effects) {
+    next[effect.characteristic] = clamp01(next[effect.characteristic] + effect.modifier);
+  }
+  return { characteristics: next, effects };
+}
+
+/**
+ * Fault risk multiplier from the cellar operations done on a batch. Each operation counts once,
+ * however often it was repeated; features without an entry are unaffected.
+ */
+export function getCellarOperationRiskMultiplier(batch: Pick<WineBatch, 'cellarOperations'> | undefined, featureId: string): number {
+  const operations = new Set(batch?.cellarOperations ?? []);
+  let multiplier = 1;
+  for (const operation of operations) {
+    multiplier *= CELLAR_OPERATIONS[operation]?.riskMultipliers[featureId as CellarOperationRiskFeature] ?? 1;
+  }
+  return multiplier;
+}
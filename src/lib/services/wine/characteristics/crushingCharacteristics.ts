@@ -1,12 +1,20 @@
-import { WineCharacteristics, WineAnchorValues } from '../../../types/types';
+import { WineCharacteristics, WineAnchorValues, WineStyle } from '../../../types/types';
 import { scaleCharacteristicEffectModifiersByAnchors } from '@/lib/services/wine/anchors/wineAnchorCharacteristicBridge';
 
+/** Skin contact before pressing: full makes red wine, short makes rosé, none makes white wine from red grapes */
+export type CrushingSkinContact = 'full' | 'short' | 'none';
+
+/** Largest share of a red must that can be bled off as saignée rosé */
+export const SAIGNEE_MAX_SHARE = 0.25;
+
 export interface CrushingInputs {
   baseCharacteristics: WineCharacteristics;
   method: 'Hand Press' | 'Mechanical Press' | 'Pneumatic Press';
   destemming: boolean;
   coldSoak: boolean;
   pressingIntensity: number; // 0-1 scale, max depends on method
+  skinContact: CrushingSkinContact;
+  saigneeShare: number; // 0-SAIGNEE_MAX_SHARE of the must bled off as rosé
   /** Pre-crush snapshot; scales process deltas (crush must not read characteristics for anchors). */
   wineAnchors?: WineAnchorValues;
 }
@@ -16,6 +24,8 @@ export interface CrushingOptions {
   destemming: boolean;
   coldSoak: boolean;
   pressingIntensity: number; // 0-1 scale, max depends on method
+  skinContact: CrushingSkinContact; // Only red grapes can shorten skin contact
+  saigneeShare: number; // 0-SAIGNEE_MAX_SHARE of a red must bled off into a separate rosé batch
 }
 
 export interface CrushingEffect {
@@ -89,6 +99,70 @@ const COLD_SOAK_EFFECTS: CrushingEffect[] = [
   { characteristic: 'spice', modifier: 0.06, description: 'Cold Soak Pressing' }
 ];
 
+/**
+ * Skin contact effects configuration (red grapes only)
+ */
+const SKIN_CONTACT_EFFECTS: Record<CrushingSkinContact, CrushingEffect[]> = {
+  full: [],
+  short: [
+    { characteristic: 'tannins', modifier: -0.25, description: 'Short Skin Contact' },
+    { characteristic: 'body', modifier: -0.1, description: 'Short Skin Contact' },
+    { characteristic: 'spice', modifier: -0.05, description: 'Short Skin Contact' },
+    { characteristic: 'aroma', modifier: 0.05, description: 'Short Skin Contact' },
+    { characteristic: 'acidity', modifier: 0.03, description: 'Short Skin Contact' }
+  ],
+  none: [
+    { characteristic: 'tannins', modifier: -0.35, description: 'Direct Pressing' },
+    { characteristic: 'body', modifier: -0.15, description: 'Direct Pressing' },
+    { characteristic: 'spice', modifier: -0.08, description: 'Direct Pressing' },
+    { characteristic: 'acidity', modifier: 0.05, description: 'Direct Pressing' }
+  ]
+};
+
+/**
+ * Saignée concentration: bleeding off juice raises the skin-to-juice ratio of the red must left behind
+ */
+function getSaigneeConcentrationEffects(saigneeShare: number): CrushingEffect[] {
+  if (saigneeShare <= 0) return [];
+  return [
+    { characteristic: 'body', modifier: 0.3 * saigneeShare, description: 'Saignée Concentration' },
+    { characteristic: 'tannins', modifier: 0.3 * saigneeShare, description: 'Saignée Concentration' },
+    { characteristic: 'spice', modifier: 0.1 * saigneeShare, description: 'Saignée Concentration' }
+  ];
+}
+
+/**
+ * Wine style that a crush produces; white grapes always make white wine
+ */
+export function getCrushingWineStyle(grapeColor: 'red' | 'white', skinContact: CrushingSkinContact): WineStyle {
+  if (grapeColor === 'white') return 'white';
+  if (skinContact === 'short') return 'rose';
+  if (skinContact === 'none') return 'white';
+  return 'red';
+}
+
+/**
+ * Options for the juice bled off by saignée: it leaves the skins early as a rosé
+ */
+export function getSaigneeBleedOptions(options: CrushingOptions): CrushingOptions {
+  return { ...options, skinContact: 'short', saigneeShare: 0 };
+}
+
+/**
+ * Kilograms and litres bled off by saignée; the rest stays with the red batch
+ */
+export function getSaigneeSplit(quantity: number, volumeLitres: number, saigneeShare: number): {
+  bleed: { quantity: number; volumeLitres: number };
+  remaining: { quantity: number; volumeLitres: number };
+} {
+  const bleedLitres = Math.min(Math.max(1, Math.round(volumeLitres * saigneeShare)), Math.max(0, volumeLitres - 1));
+  const bleedQuantity = Math.round(quantity * saigneeShare);
+  return {
+    bleed: { quantity: bleedQuantity, volumeLitres: bleedLitres },
+    remaining: { quantity: quantity - bleedQuantity, volumeLitres: volumeLitres - bleedLitres }
+  };
+}
+
 /**
  * Crushing characteristics modifier
  * Applies crushing process options to base characteristics
@@ -99,7 +173,7 @@ export function modifyCrushingCharacteristics(inputs: CrushingInputs): {
   yieldMultiplier: number;
   qualityPenalty: number;
 } {
-  const { baseCharacteristics, method, destemming, coldSoak, pressingIntensity, wineAnchors } = inputs;
+  const { baseCharacteristics, method, destemming, coldSoak, pressingIntensity, skinContact, saigneeShare, wineAnchors } = inputs;
 
   // Collect all effects based on options
   const effects: CrushingEffect[] = [];
@@ -123,6 +197,10 @@ export function modifyCrushingCharacteristics(inputs: CrushingInputs): {
   const intensityEffects = getPressingIntensityEffects(pressingIntensity, method);
   effects.push(...intensityEffects);
 
+  // Add skin contact and saignée effects
+  effects.push(...SKIN_CONTACT_EFFECTS[skinContact]);
+  effects.push(...getSaigneeConcentrationEffects(saigneeShare));
+
   const scaledEffects = wineAnchors
     ? scaleCharacteristicEffectModifiersByAnchors(wineAnchors, effects)
     : effects;
@@ -274,3 +352,26 @@ export function getCrushingMethodInfo() {
     }
   };
 }
+
+/**
+ * Get skin contact information for UI display
+ */
+export function getSkinContactInfo(): Record<CrushingSkinContact, { label: string; description: string; effects: string }> {
+  return {
+    full: {
+      label: 'Full Skin Contact',
+      description: 'Ferment on the skins for a red wine',
+      effects: 'No change - colour, tannins and body come from the skins'
+    },
+    short: {
+      label: 'Short Skin Contact (Rosé)',
+      description: 'Press after a few hours on the skins for a rosé',
+      effects: 'Lowers tannins, body and spice, lifts aroma and acidity'
+    },
+    none: {
+      label: 'Direct Press (White from Red)',
+      description: 'Press immediately for a white wine from red grapes',
+      effects: 'Strongly lowers tannins, body and spice, lifts acidity'
+    }
+  };
+}
@@ -7,11 +7,20 @@ export interface FermentationInputs {
   temperature: 'Ambient' | 'Cool' | 'Warm';
   /** Weekly tick snapshot before `applyWeeklyFermentationContactToWineAnchors`. */
   wineAnchors?: WineAnchorValues;
+  decisions?: FermentationDecision[];
 }
 
+/** Optional malolactic and lees-management decisions taken at fermentation setup */
+export type FermentationDecision = 'malolactic' | 'batonnage' | 'surLie';
+
+export const FERMENTATION_DECISIONS: FermentationDecision[] = ['malolactic', 'batonnage', 'surLie'];
+
 export interface FermentationOptions {
   method: 'Basic' | 'Temperature Controlled' | 'Extended Maceration';
   temperature: 'Ambient' | 'Cool' | 'Warm';
+  malolactic?: boolean;
+  batonnage?: boolean;
+  surLie?: boolean;
 }
 
 export interface FermentationEffect {
@@ -68,6 +77,32 @@ const FERMENTATION_TEMPERATURE_EFFECTS: Record<FermentationInputs['temperature']
   ]
 };
 
+/**
+ * Malolactic and lees-management effects configuration
+ * These are applied each week during fermentation, on top of method and temperature
+ */
+const FERMENTATION_DECISION_EFFECTS: Record<FermentationDecision, FermentationEffect[]> = {
+  malolactic: [
+    { characteristic: 'acidity', modifier: -0.006, description: 'Malolactic Conversion' },
+    { characteristic: 'body', modifier: 0.003, description: 'Malolactic Conversion' }
+  ],
+  batonnage: [
+    { characteristic: 'body', modifier: 0.005, description: 'Bâtonnage' },
+    { characteristic: 'aroma', modifier: -0.002, description: 'Bâtonnage' }
+  ],
+  surLie: [
+    { characteristic: 'body', modifier: 0.002, description: 'Sur-Lie Aging' },
+    { characteristic: 'aroma', modifier: 0.003, description: 'Sur-Lie Aging' }
+  ]
+};
+
+/**
+ * Decisions switched on in the given fermentation options, in display order
+ */
+export function getSelectedFermentationDecisions(options: FermentationOptions): FermentationDecision[] {
+  return FERMENTATION_DECISIONS.filter(decision => options[decision]);
+}
+
 function applyEffects(
   characteristics: WineCharacteristics,
   effects: FermentationEffect[]
@@ -90,7 +125,8 @@ function applyEffects(
 export function getCombinedFermentationEffects(
   method: FermentationInputs['method'],
   temperature: FermentationInputs['temperature'],
-  wineAnchors?: WineAnchorValues
+  wineAnchors?: WineAnchorValues,
+  decisions: FermentationDecision[] = []
 ): FermentationEffect[] {
   const effects: FermentationEffect[] = [];
 
@@ -100,6 +136,11 @@ export function getCombinedFermentationEffects(
   // Add temperature effects
   effects.push(...FERMENTATION_TEMPERATURE_EFFECTS[temperature]);
 
+  // Add malolactic and lees-management effects
+  for (const decision of decisions) {
+    effects.push(...FERMENTATION_DECISION_EFFECTS[decision]);
+  }
+
   return wineAnchors ? scaleCharacteristicEffectModifiersByAnchors(wineAnchors, effects) : effects;
 }
 
@@ -111,10 +152,10 @@ export function applyWeeklyFermentationEffects(inputs: FermentationInputs): {
   characteristics: WineCharacteristics;
   breakdown: FermentationBreakdown;
 } {
-  const { baseCharacteristics, method, temperature, wineAnchors } = inputs;
+  const { baseCharacteristics, method, temperature, wineAnchors, decisions } = inputs;
 
   // Get combined effects
-  const effects = getCombinedFermentationEffects(method, temperature, wineAnchors);
+  const effects = getCombinedFermentationEffects(method, temperature, wineAnchors, decisions);
 
   // Apply all effects
   const finalCharacteristics = applyEffects(baseCharacteristics, effects);
@@ -183,3 +224,42 @@ export function getFermentationTemperatureInfo() {
     }
   };
 }
+
+/**
+ * Get malolactic and lees-management decision information for UI display
+ */
+export function getFermentationDecisionInfo(): Record<FermentationDecision, {
+  label: string;
+  description: string;
+  workModifier: number;
+  cost: number;
+  effects: string;
+  weeklyEffects: string;
+}> {
+  return {
+    malolactic: {
+      label: 'Malolactic Conversion',
+      description: 'Bacteria convert sharp malic acid into softer lactic acid',
+      workModifier: 0.1, // 10% more work for inoculation and monitoring
+      cost: 250, // €250 bacteria culture
+      effects: 'Lowers acid potential and softens the wine',
+      weeklyEffects: 'Weekly: -0.6% acidity, +0.3% body per week'
+    },
+    batonnage: {
+      label: 'Bâtonnage',
+      description: 'Stirring the lees back into the wine',
+      workModifier: 0.2, // 20% more work for regular stirring
+      cost: 100, // €100 stirring equipment
+      effects: 'Builds lees character and texture, lets in some oxygen',
+      weeklyEffects: 'Weekly: +0.5% body, -0.2% aroma per week'
+    },
+    surLie: {
+      label: 'Sur-Lie Aging',
+      description: 'Leaving the wine on its fine lees instead of racking',
+      workModifier: 0.05, // 5% more work for lees checks
+      cost: 0, // No extra cost
+      effects: 'Slowly builds lees character and protects from oxygen',
+      weeklyEffects: 'Weekly: +0.2% body, +0.3% aroma per week'
+    }
+  };
+}
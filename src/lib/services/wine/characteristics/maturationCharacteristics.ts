@@ -0,0 +1,168 @@
+import { GameDate, WineCharacteristics, WineAnchorValues } from '../../../types/types';
+import type { StorageVessel, StorageVesselMaterial } from '../../../types/storageVessels';
+import { scaleCharacteristicEffectModifiersByAnchors } from '@/lib/services/wine/anchors/wineAnchorCharacteristicBridge';
+import { getStorageVesselImprint, getStorageVesselImprintRelease } from '@/lib/services/wine/winery/storageVesselImprintService';
+import { STORAGE_VESSEL_IMPRINT_WEEKLY_RELEASE } from '@/lib/constants/storageVesselConstants';
+import { clamp01 } from '@/lib/utils/utils';
+
+export interface MaturationEffect {
+  characteristic: keyof WineCharacteristics;
+  modifier: number; // Per week modifier
+  description: string;
+}
+
+/**
+ * Litre-weighted influence of the vessels holding a maturing batch (0-1 scale).
+ * `woodInfluence` is extractable wood flavour; `oxygenExchange` is oxygen ingress through the vessel.
+ * `imprint` is the memory of previous fills the vessels release into this wine, if any.
+ */
+export interface MaturationVesselProfile {
+  woodInfluence: number;
+  oxygenExchange: number;
+  materials: StorageVesselMaterial[];
+  imprint?: {
+    characteristics: WineCharacteristics;
+    wineAnchors: WineAnchorValues;
+    release: number;
+  };
+}
+
+/**
+ * Material behaviour during maturation
+ * Wood gives flavour and breathes; inert tanks protect the wine
+ */
+const MATERIAL_MATURATION_PROFILE: Record<StorageVesselMaterial, { wood: number; oxygen: number; label: string }> = {
+  oak: { wood: 1, oxygen: 0.6, label: 'Oak' },
+  chestnut: { wood: 0.7, oxygen: 0.8, label: 'Chestnut' },
+  stainless_steel: { wood: 0, oxygen: 0.05, label: 'Stainless Steel' },
+  concrete: { wood: 0, oxygen: 0.3, label: 'Concrete' },
+  ceramic: { wood: 0, oxygen: 0.4, label: 'Ceramic' },
+  plastic: { wood: 0, oxygen: 0.5, label: 'Plastic' }
+};
+
+// Each previous fill leaches wood flavour; a fourth-fill cask gives about half of a new one.
+const FILL_HISTORY_WOOD_DECAY = 0.35;
+// Worn vessels leak oxygen: a vessel at 0 condition breathes this much more.
+const POOR_CONDITION_OXYGEN_BONUS = 0.8;
+
+const NEUTRAL_PROFILE: MaturationVesselProfile = { woodInfluence: 0, oxygenExchange: 0, materials: [] };
+
+export function getMaturationMaterialLabel(material: StorageVesselMaterial): string {
+  return MATERIAL_MATURATION_PROFILE[material].label;
+}
+
+/**
+ * Combine the vessels holding a batch into one profile, weighted by the litres each vessel holds.
+ * Quality refines wood extraction; fill history exhausts it; poor condition lets in more oxygen.
+ */
+export function getMaturationVesselProfile(
+  fills: Array<{ vessel: StorageVessel; litres: number }>,
+  date: GameDate
+): MaturationVesselProfile {
+  const weighted = fills.filter((fill) => fill.litres > 0);
+  const totalLitres = weighted.reduce((sum, fill) => sum + fill.litres, 0);
+  if (totalLitres <= 0) return NEUTRAL_PROFILE;
+
+  let woodInfluence = 0;
+  let oxygenExchange = 0;
+  const imprints: Array<{ characteristics: WineCharacteristics; wineAnchors: WineAnchorValues; release: number }> = [];
+  for (const { vessel, litres } of weighted) {
+    const material = MATERIAL_MATURATION_PROFILE[vessel.material];
+    const share = litres / totalLitres;
+    const freshness = 1 / (1 + Math.max(0, vessel.fillHistory) * FILL_HISTORY_WOOD_DECAY);
+    woodInfluence += share * material.wood * freshness * (0.5 + 0.5 * clamp01(vessel.qualityScore));
+    oxygenExchange += share * material.oxygen * (1 + (1 - clamp01(vessel.condition)) * POOR_CONDITION_OXYGEN_BONUS);
+
+    const imprint = getStorageVesselImprint(vessel, date);
+    if (imprint) {
+      imprints.push({ characteristics: imprint.characteristics, wineAnchors: imprint.wineAnchors, release: share * getStorageVesselImprintRelease(vessel, imprint) });
+    }
+  }
+
+  return {
+    woodInfluence: clamp01(woodInfluence),
+    oxygenExchange: clamp01(oxygenExchange),
+    materials: [...new Set(weighted.map((fill) => fill.vessel.material))],
+    imprint: combineImprints(imprints)
+  };
+}
+
+function combineImprints(
+  imprints: Array<{ characteristics: WineCharacteristics; wineAnchors: WineAnchorValues; release: number }>
+): MaturationVesselProfile['imprint'] {
+  const release = imprints.reduce((sum, imprint) => sum + imprint.release, 0);
+  if (release <= 0) return undefined;
+  const average = <T extends object>(pick: (imprint: typeof imprints[number]) => T): T => {
+    const result = { ...pick(imprints[0]) } as Record<string, number>;
+    for (const key of Object.keys(result)) {
+      result[key] = imprints.reduce((sum, imprint) => sum + (pick(imprint) as Record<string, number>)[key] * imprint.release, 0) / release;
+    }
+    return result as T;
+  };
+  return {
+    characteristics: average((imprint) => imprint.characteristics),
+    wineAnchors: average((imprint) => imprint.wineAnchors),
+    release: clamp01(release)
+  };
+}
+
+/**
+ * Get weekly maturation effects without applying them
+ * Used for displaying expected changes in UI
+ */
+export function getWeeklyMaturationEffects(
+  profile: MaturationVesselProfile,
+  characteristics: WineCharacteristics,
+  wineAnchors?: WineAnchorValues
+): MaturationEffect[] {
+  const { woodInfluence: wood, oxygenExchange: oxygen } = profile;
+  const effects: MaturationEffect[] = [];
+
+  if (wood > 0) {
+    effects.push(
+      { characteristic: 'tannins', modifier: 0.004 * wood, description: 'Wood Maturation' },
+      { characteristic: 'spice', modifier: 0.005 * wood, description: 'Wood Maturation' },
+      { characteristic: 'body', modifier: 0.002 * wood, description: 'Wood Maturation' },
+      { characteristic: 'aroma', modifier: 0.002 * wood, description: 'Wood Maturation' }
+    );
+  }
+  if (oxygen > 0) {
+    // Gentle oxygen softens tannin and acidity; heavy exposure starts to flatten aroma.
+    effects.push(
+      { characteristic: 'tannins', modifier: -0.003 * oxygen, description: 'Oxygen Exchange' },
+      { characteristic: 'acidity', modifier: -0.0015 * oxygen, description: 'Oxygen Exchange' }
+    );
+    if (oxygen > 0.5) {
+      effects.push({ characteristic: 'aroma', modifier: -0.004 * (oxygen - 0.5), description: 'Oxygen Exchange' });
+    }
+  }
+
+  const scaled = wineAnchors ? scaleCharacteristicEffectModifiersByAnchors(wineAnchors, effects) : effects;
+
+  // Vessel memory pulls the wine gently toward what the vessels held before.
+  if (profile.imprint) {
+    const pull = STORAGE_VESSEL_IMPRINT_WEEKLY_RELEASE * profile.imprint.release;
+    for (const key of Object.keys(characteristics) as Array<keyof WineCharacteristics>) {
+      const modifier = ((profile.imprint.characteristics[key] ?? characteristics[key]) - characteristics[key]) * pull;
+      if (modifier !== 0) scaled.push({ characteristic: key, modifier, description: 'Vessel Memory' });
+    }
+  }
+  return scaled;
+}
+
+/**
+ * Apply weekly maturation effects to wine characteristics
+ * Called each game tick for maturing batches
+ */
+export function applyWeeklyMaturationEffects(inputs: {
+  baseCharacteristics: WineCharacteristics;
+  profile: MaturationVesselProfile;
+  wineAnchors?: WineAnchorValues;
+}): { characteristics: WineCharacteristics; effects: MaturationEffect[] } {
+  const effects = getWeeklyMaturationEffects(inputs.profile, inputs.baseCharacteristics, inputs.wineAnchors);
+  const characteristics = { ...inputs.baseCharacteristics };
+  for (const effect of effects) {
+    characteristics[effect.characteristic] = clamp01(characteristics[effect.characteristic] + effect.modifier);
+  }
+  return { characteristics, effects };
+}
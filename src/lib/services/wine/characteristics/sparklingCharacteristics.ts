@@ -0,0 +1,66 @@
+import { SparklingDosage, WineAnchorValues, WineCharacteristics } from '../../../types/types';
+import { scaleCharacteristicEffectModifiersByAnchors } from '@/lib/services/wine/anchors/wineAnchorCharacteristicBridge';
+import { SPARKLING_DOSAGES, SPARKLING_SECONDARY_FERMENTATION_WEEKS } from '@/lib/constants/sparklingConstants';
+import { clamp01 } from '@/lib/utils/utils';
+
+export interface SparklingEffect {
+  characteristic: keyof WineCharacteristics;
+  modifier: number; // Per week modifier
+  description: string;
+}
+
+/**
+ * Get weekly tirage effects without applying them
+ * The second fermentation dries the wine and lifts its acidity; afterwards autolysis of the
+ * lees adds body and toasty, bready aroma in proportion to the lees anchor.
+ */
+export function getWeeklyTirageEffects(tirageWeeks: number, wineAnchors?: WineAnchorValues): SparklingEffect[] {
+  if (tirageWeeks < SPARKLING_SECONDARY_FERMENTATION_WEEKS) {
+    const effects: SparklingEffect[] = [
+      { characteristic: 'sweetness', modifier: -0.008, description: 'Second Fermentation' },
+      { characteristic: 'acidity', modifier: 0.002, description: 'Second Fermentation' },
+      { characteristic: 'body', modifier: 0.001, description: 'Second Fermentation' }
+    ];
+    return wineAnchors ? scaleCharacteristicEffectModifiersByAnchors(wineAnchors, effects) : effects;
+  }
+
+  const lees = clamp01(wineAnchors?.leesState ?? 0.5);
+  const effects: SparklingEffect[] = [
+    { characteristic: 'aroma', modifier: 0.002 + 0.003 * lees, description: 'Lees Autolysis' },
+    { characteristic: 'body', modifier: 0.001 + 0.002 * lees, description: 'Lees Autolysis' },
+    { characteristic: 'acidity', modifier: -0.0005, description: 'Lees Autolysis' }
+  ];
+  return wineAnchors ? scaleCharacteristicEffectModifiersByAnchors(wineAnchors, effects) : effects;
+}
+
+/**
+ * Apply weekly tirage effects to wine characteristics
+ * Called each game tick for batches en tirage
+ */
+export function applyWeeklyTirageEffects(inputs: {
+  baseCharacteristics: WineCharacteristics;
+  tirageWeeks: number;
+  wineAnchors?: WineAnchorValues;
+}): { characteristics: WineCharacteristics; effects: SparklingEffect[] } {
+  const effects = getWeeklyTirageEffects(inputs.tirageWeeks, inputs.wineAnchors);
+  const characteristics = { ...inputs.baseCharacteristics };
+  for (const effect of effects) {
+    characteristics[effect.characteristic] = clamp01(characteristics[effect.characteristic] + effect.modifier);
+  }
+  return { characteristics, effects };
+}
+
+/**
+ * Apply the dosage added at disgorgement; Brut Nature leaves the wine untouched
+ */
+export function applyDosage(
+  baseCharacteristics: WineCharacteristics,
+  dosage: SparklingDosage
+): { characteristics: WineCharacteristics; effects: SparklingEffect[] } {
+  const { sweetness, label } = SPARKLING_DOSAGES[dosage];
+  if (sweetness <= 0) return { characteristics: { ...baseCharacteristics }, effects: [] };
+  return {
+    characteristics: { ...baseCharacteristics, sweetness: clamp01(baseCharacteristics.sweetness + sweetness) },
+    effects: [{ characteristic: 'sweetness', modifier: sweetness, description: `Dosage (${label})` }]
+  };
+}
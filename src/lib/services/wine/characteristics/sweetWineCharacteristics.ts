@@ -0,0 +1,74 @@
+import { SweetnessStyle, SweetWineMethod, WineAnchorValues, WineBatch, WineCharacteristics } from '../../../types/types';
+import {
+  FORTIFICATION,
+  SWEET_WINE_FEATURE_SUGAR_BONUS,
+  SWEET_WINE_METHOD_LABELS,
+  SWEET_WINE_RESIDUAL_SUGAR,
+  SWEET_WINE_SWEET_THRESHOLD
+} from '@/lib/constants/sweetWineConstants';
+import { clamp01 } from '@/lib/utils/utils';
+
+export interface SweetWineEffect {
+  characteristic: keyof WineCharacteristics;
+  modifier: number;
+  description: string;
+}
+
+function presentFeatureSeverity(batch: Pick<WineBatch, 'features'>, featureId: string): number {
+  const feature = (batch.features || []).find(candidate => candidate.id === featureId && candidate.isPresent);
+  return clamp01(feature?.severity ?? 0);
+}
+
+/**
+ * Sweetness style used by contracts and pricing. Wines fermented to completion are dry
+ * whatever their grape sweetness; arrested wines are sweet once residual sugar is high.
+ */
+export function getSweetnessStyle(batch: Pick<WineBatch, 'sweetWineMethod' | 'characteristics'>): SweetnessStyle {
+  if (batch.sweetWineMethod === 'fortified') return 'fortified';
+  if (batch.sweetWineMethod === 'arrested') {
+    return batch.characteristics.sweetness >= SWEET_WINE_SWEET_THRESHOLD ? 'sweet' : 'off_dry';
+  }
+  return 'dry';
+}
+
+/**
+ * Sweetness kept when fermentation stops: the unfermented share of the sugar potential,
+ * plus extra sugar from late harvest and noble rot.
+ */
+export function calculateResidualSugar(
+  batch: Pick<WineBatch, 'features'>,
+  method: SweetWineMethod,
+  wineAnchors: WineAnchorValues
+): number {
+  const unfermentedSugar = wineAnchors.sugarPotential * (1 - wineAnchors.fermentationState);
+  const featureSugar =
+    presentFeatureSeverity(batch, 'late_harvest') * SWEET_WINE_FEATURE_SUGAR_BONUS.late_harvest +
+    presentFeatureSeverity(batch, 'noble_rot') * SWEET_WINE_FEATURE_SUGAR_BONUS.noble_rot;
+  return clamp01(SWEET_WINE_RESIDUAL_SUGAR[method] * unfermentedSugar + featureSugar);
+}
+
+/**
+ * Apply the characteristic changes of stopping fermentation early
+ */
+export function applyFermentationStop(
+  batch: Pick<WineBatch, 'characteristics' | 'features'>,
+  method: SweetWineMethod,
+  wineAnchors: WineAnchorValues
+): { characteristics: WineCharacteristics; effects: SweetWineEffect[] } {
+  const description = SWEET_WINE_METHOD_LABELS[method];
+  const effects: SweetWineEffect[] = [
+    { characteristic: 'sweetness', modifier: calculateResidualSugar(batch, method, wineAnchors), description }
+  ];
+  if (method === 'fortified') {
+    effects.push(
+      { characteristic: 'body', modifier: FORTIFICATION.BODY_BOOST, description },
+      { characteristic: 'acidity', modifier: FORTIFICATION.ACIDITY_CHANGE, description }
+    );
+  }
+
+  const characteristics = { ...batch.characteristics };
+  for (const effect of effects) {
+    characteristics[effect.characteristic] = clamp01(characteristics[effect.characteristic] + effect.modifier);
+  }
+  return { characteristics, effects };
+}
@@ -36,6 +36,7 @@ type PriceInputKey =
   | 'wineScoreMultiplier'
   | 'landValuePriceMultiplier'
   | 'featurePriceMultiplier'
+  | 'sweetWinePriceMultiplier'
   | 'prePrestigePrice'
   | 'companyPrestigeMultiplier'
   | 'vineyardPrestigeMultiplier'
@@ -47,6 +48,7 @@ interface PriceInputSnapshot {
   wineScoreMultiplier: number;
   landValuePriceMultiplier: number;
   featurePriceMultiplier: number;
+  sweetWinePriceMultiplier: number;
   prePrestigePrice: number;
   companyPrestigeMultiplier: number;
   vineyardPrestigeMultiplier: number;
@@ -108,6 +110,7 @@ const PRICE_INPUT_KEYS: PriceInputKey[] = [
   'wineScoreMultiplier',
   'landValuePriceMultiplier',
   'featurePriceMultiplier',
+  'sweetWinePriceMultiplier',
   'prePrestigePrice',
   'companyPrestigeMultiplier',
   'vineyardPrestigeMultiplier',
@@ -120,6 +123,7 @@ function pickPriceInputs(breakdown: EstimatedPriceBreakdown): PriceInputSnapshot
     wineScoreMultiplier: breakdown.wineScoreMultiplier,
     landValuePriceMultiplier: breakdown.landValuePriceMultiplier,
     featurePriceMultiplier: breakdown.featurePriceMultiplier,
+    sweetWinePriceMultiplier: breakdown.sweetWinePriceMultiplier,
     prePrestigePrice: breakdown.prePrestigePrice,
     companyPrestigeMultiplier: breakdown.companyPrestigeMultiplier,
     vineyardPrestigeMultiplier: breakdown.vineyardPrestigeMultiplier,
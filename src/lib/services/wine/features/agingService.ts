@@ -4,6 +4,7 @@
 
 import { WineBatch, GrapeVariety, GameDate } from '../../../types/types';
 import { GRAPE_CONST } from '../../../constants/grapeConstants';
+import { getBottleAgingSpeed } from '../../../constants/bottlingConstants';
 import { squashNormalizeTail } from '../../../utils/calculator';
 import { getGameState } from '../../core/gameState';
 import { calculateAbsoluteWeeks } from '@/lib/utils';
@@ -88,7 +89,8 @@ export function calculateAgingStatus(wine: WineBatch): AgingStatus {
   // Calculate aging progress using squashNormalizeTail for diminishing returns
   // Normalize age: 1.0 = latePeak years (100% target, but never reachable)
   // Allow values > 1.0 to represent aging beyond latePeak (diminishing returns)
-  const normalizedAge = ageInYears / profile.latePeak;
+  // Bottle format and closure speed up or slow down development
+  const normalizedAge = (ageInYears * getBottleAgingSpeed(wine)) / profile.latePeak;
   
   // Use squashNormalizeTail with maxTarget 0.9999 to create diminishing returns
   // threshold 0.9 means: values from 0.9-1.0+ get squashed toward 0.9999 (never quite 1.0)
@@ -1,5 +1,6 @@
 import { FeatureConfig } from '@/lib/types/wineFeatures';
 import { GRAPE_CONST } from '@/lib/constants/grapeConstants';
+import { getBottleAgingSpeed } from '@/lib/constants/bottlingConstants';
 import { formatNumber } from '@/lib/utils/utils';
 
 /**
@@ -39,9 +40,12 @@ export const BOTTLE_AGING_FEATURE: FeatureConfig = {
         'grapes': 0,           // No aging in grapes
         'must_ready': 0,       // No aging in must
         'must_fermenting': 0,  // No aging during fermentation
+        'maturing': 0,         // Vessel maturation is tracked by the maturation anchor, not bottle age
+        'tirage': 0,           // Time on the lees is tracked by the lees anchor until disgorgement
+        'riddled': 0,
         'bottled': (batch: any) => {
-          // Age-based growth with diminishing returns
-          const ageInYears = (batch.agingProgress || 0) / 52;
+          // Age-based growth with diminishing returns; bottle format and closure set the pace
+          const ageInYears = ((batch.agingProgress || 0) / 52) * getBottleAgingSpeed(batch);
           const grapeData = GRAPE_CONST[batch.grape as keyof typeof GRAPE_CONST];
           const profile = grapeData?.agingProfile;
           
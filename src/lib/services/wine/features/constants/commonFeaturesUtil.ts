@@ -9,6 +9,9 @@ import { TERROIR_FEATURE } from './terroir';
 import { BOTTLE_AGING_FEATURE } from './bottleAging';
 import { NOBLE_ROT_FEATURE } from './nobleRot';
 import { GREY_ROT_FEATURE } from './greyRot';
+import { DOWNY_MILDEW_FEATURE } from './downyMildew';
+import { POWDERY_MILDEW_FEATURE } from './powderyMildew';
+import { PHYLLOXERA_FEATURE } from './phylloxera';
 
 // ===== FEATURE REGISTRY FUNCTIONS =====
 
@@ -24,6 +27,9 @@ export const ACTIVE_FEATURES: FeatureConfig[] = [
   BOTTLE_AGING_FEATURE,       // Evolving behavior
   NOBLE_ROT_FEATURE,          // Accumulation + Evolving behavior
   GREY_ROT_FEATURE,           // Conditional Accumulation behavior
+  DOWNY_MILDEW_FEATURE,       // Vineyard Accumulation behavior
+  POWDERY_MILDEW_FEATURE,     // Vineyard Accumulation behavior
+  PHYLLOXERA_FEATURE,         // Vineyard Accumulation behavior
 ];
 
 /**
@@ -0,0 +1,69 @@
+import { FeatureConfig } from '@/lib/types/wineFeatures';
+import { VINE_DISEASES } from '@/lib/constants/vineDiseaseConstants';
+import { processVineDiseaseFeature } from '@/lib/services/vineyard/vineDiseaseService';
+
+/**
+ * Downy Mildew Feature
+ * - Behavior: Accumulation on growing vineyards (Spring and Summer)
+ * - Effect: Quality penalty, musty aromas and thinner wine from infected bunches
+ *
+ * Risk Accumulation:
+ * - Pressure rises with wet and warm weeks, dense planting, shaded aspects and overgrown rows
+ * - Grape resistance and this season's copper spray lower it
+ *
+ * Manifestation:
+ * - Breaks out on the accumulated risk, at a severity equal to that risk, then spreads weekly
+ * - While present it costs vine health and part of the season's crop
+ * - Carried into the grapes at harvest; it does not develop further after picking
+ */
+export const DOWNY_MILDEW_FEATURE: FeatureConfig = {
+  id: VINE_DISEASES.downyMildew.featureId,
+  name: VINE_DISEASES.downyMildew.label,
+  icon: VINE_DISEASES.downyMildew.icon,
+  description: 'Plasmopara viticola, a water mould that spreads in wet, warm weather. Infected bunches shrivel and give musty, dilute wine.',
+
+  behavior: 'accumulation',
+
+  behaviorConfig: {
+    baseRate: VINE_DISEASES.downyMildew.baseRate,
+    compound: false,
+    spawnActive: false,
+    stateMultipliers: {
+      'grapes': 0.0,         // Develops on the vine only (see processVineyardFeatures)
+      'must_ready': 0.0,
+      'must_fermenting': 0.0,
+      'maturing': 0.0,
+      'tirage': 0.0,
+      'riddled': 0.0,
+      'bottled': 0.0
+    },
+    severityFromRisk: true
+  },
+
+  effects: {
+    quality: {
+      type: 'linear',
+      amount: -0.15  // 15% quality penalty at 100% severity
+    },
+    price: {
+      type: 'customer_sensitivity'
+    },
+    characteristics: [
+      { characteristic: 'aroma', modifier: -0.12 },
+      { characteristic: 'body', modifier: -0.08 }
+    ]
+  },
+
+  customerSensitivity: {
+    'Restaurant': 0.90,
+    'Wine Shop': 0.88,
+    'Private Collector': 0.80,
+    'Chain Store': 0.95
+  },
+
+  displayPriority: 2,  // Show after the most serious faults
+  badgeColor: 'warning',
+
+  processVineyardFeatures: (features, vineyard, gameState) =>
+    processVineDiseaseFeature(features, vineyard, 'downyMildew', gameState)
+};
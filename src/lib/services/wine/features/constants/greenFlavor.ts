@@ -2,13 +2,14 @@ import { FeatureConfig } from '@/lib/types/wineFeatures';
 import { Vineyard } from '@/lib/types/types';
 import { CrushingOptions } from '@/lib/services/wine/characteristics/crushingCharacteristics';
 import { formatNumber } from '@/lib/utils/utils';
+import { getCanopyEffects } from '@/lib/services/vineyard/canopyService';
 
 /**
  * Green Flavor/Vegetal Character
  * 
  * A wine fault characterized by herbaceous, vegetal, or "green" flavors
  * Caused by:
- * - Harvesting underripe grapes (ripeness < 0.5)
+ * - Harvesting underripe grapes (ripeness < 0.5); canopy work this season lowers the risk
  * - Aggressive crushing with high pressure
  * - Crushing delicate grapes roughly
  * - Not destemming (stems = harsh vegetal compounds)
@@ -53,7 +54,7 @@ export const GREEN_FLAVOR_FEATURE: FeatureConfig = {
             return 0;
           }
           const ripeness = vineyard.ripeness || 0;
-          const baseRisk = Math.max(0, (0.5 - ripeness) * 0.6);
+          const baseRisk = Math.max(0, (0.5 - ripeness) * 0.6) * getCanopyEffects(vineyard.canopyWork).greenFlavorRiskMultiplier;
           
           // Grape color multiplier (white grapes 30% more prone to showing vegetal character)
           // This will be applied when batch is created with grape metadata
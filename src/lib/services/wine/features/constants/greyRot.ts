@@ -1,4 +1,5 @@
 import { FeatureConfig } from '@/lib/types/wineFeatures';
+import { getCanopyEffects } from '@/lib/services/vineyard/canopyService';
 
 /**
  * Grey Rot Feature
@@ -9,6 +10,7 @@ import { FeatureConfig } from '@/lib/types/wineFeatures';
  * - Risk only starts accumulating once Noble Rot manifests
  * - Accumulation rate increases over time (faster than Noble Rot evolution)
  * - Accumulates while Noble Rot is present and grapes are not harvested
+ * - Leaf removal, shoot thinning and green harvesting open up the canopy and slow accumulation
  * 
  * Manifestation:
  * - Manifests based on accumulated risk probability
@@ -45,6 +47,9 @@ export const GREY_ROT_FEATURE: FeatureConfig = {
       'grapes': 1.0,         // Accumulates while grapes are unprocessed
       'must_ready': 0.0,     // Stops once pressed into must
       'must_fermenting': 0.0, // No growth during fermentation
+      'maturing': 0.0,       // No growth in finished wine
+      'tirage': 0.0,
+      'riddled': 0.0,
       'bottled': 0.0         // No growth after bottling
     },
     
@@ -89,7 +94,7 @@ export const GREY_ROT_FEATURE: FeatureConfig = {
   // Feature interaction: stops Noble Rot evolution
   stopsEvolutionOf: ['noble_rot'],
 
-  processVineyardFeatures: (features, _vineyard, _gameState) => {
+  processVineyardFeatures: (features, vineyard, _gameState) => {
     let greyRotFeature = features.find(f => f.id === 'grey_rot');
     if (!greyRotFeature) {
       greyRotFeature = {
@@ -122,7 +127,8 @@ export const GREY_ROT_FEATURE: FeatureConfig = {
 
     const severityFactor = Math.max(0.25, nobleRotFeature.severity || 0);
     const compoundMultiplier = accumulationConfig.compound ? (1 + currentRisk) : 1;
-    const weeklyIncrease = baseRate * severityFactor * compoundMultiplier;
+    const canopyMultiplier = getCanopyEffects(vineyard.canopyWork).greyRotRiskMultiplier;
+    const weeklyIncrease = baseRate * severityFactor * compoundMultiplier * canopyMultiplier;
 
     const newRisk = Math.min(1, currentRisk + weeklyIncrease);
 
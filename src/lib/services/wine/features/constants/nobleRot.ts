@@ -70,6 +70,9 @@ export const NOBLE_ROT_FEATURE: FeatureConfig = {
       'grapes': 1.0,         // Full accumulation while grapes are unprocessed
       'must_ready': 0.0,     // Stops accumulating once processed
       'must_fermenting': 0.0,
+      'maturing': 0.0,
+      'tirage': 0.0,
+      'riddled': 0.0,
       'bottled': 0.0
     },
     
@@ -1,5 +1,6 @@
 import { FeatureConfig } from '@/lib/types/wineFeatures';
 import { formatNumber } from '@/lib/utils/utils';
+import { getBottleOxidationRiskMultiplier } from '@/lib/constants/bottlingConstants';
 
 /**
  * Oxidation Feature
@@ -11,6 +12,8 @@ import { formatNumber } from '@/lib/utils/utils';
  * Time-based accumulation:
  * - Weekly risk based on wine state (grapes most vulnerable, bottled least)
  * - Fermentation method influences risk (Temperature Controlled = less, Extended Maceration = more)
+ * - Lees management influences risk (bâtonnage stirs in oxygen, sur-lie keeps the wine reductive)
+ * - Bottle format and closure set oxygen ingress once bottled (screwcap least, bag-in-box most)
  * - Compound effect: risk accelerates over time
  * 
  * Event-triggered accumulation:
@@ -52,10 +55,18 @@ export const OXIDATION_FEATURE: FeatureConfig = {
           multiplier *= 1.4;  // 40% more oxidation risk (final: 1.12)
         }
         // 'Basic' fermentation uses base multiplier (0.8)
+
+        if (batch.fermentationOptions?.batonnage) multiplier *= 1.2;
+        if (batch.fermentationOptions?.surLie) multiplier *= 0.9;
         
         return multiplier;
       },
-      'bottled': 0.3         // Sealed environment greatly reduces risk
+      // Vessel oxygen exchange (wood, worn vessels) drives the oxidation pressure anchor
+      'maturing': (batch) => 0.4 + 0.8 * (batch.wineAnchors?.oxidationPressure ?? 0),
+      'tirage': 0.2,         // Crown-capped bottle on reductive lees
+      'riddled': 0.3,
+      // Sealed environment greatly reduces risk; format and closure set the remaining oxygen ingress
+      'bottled': (batch) => 0.3 * getBottleOxidationRiskMultiplier(batch)
     },
     
     // Risk modifiers from crushing events
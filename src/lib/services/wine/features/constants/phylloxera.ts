@@ -0,0 +1,69 @@
+import { FeatureConfig } from '@/lib/types/wineFeatures';
+import { VINE_DISEASES } from '@/lib/constants/vineDiseaseConstants';
+import { processVineDiseaseFeature } from '@/lib/services/vineyard/vineDiseaseService';
+
+/**
+ * Phylloxera Feature
+ * - Behavior: Accumulation on growing vineyards (Spring to Fall)
+ * - Effect: Small quality penalty and thin, dilute wine from weakened vines
+ *
+ * Risk Accumulation:
+ * - Pressure rises with warm weeks, dense planting and overgrown rows; sandy soils keep the louse out
+ * - Grape resistance (small for vinifera) and this season's root treatment lower it
+ *
+ * Manifestation:
+ * - Breaks out on the accumulated risk, at a severity equal to that risk, then spreads weekly
+ * - While present it costs a lot of vine health and part of the season's crop
+ * - Carried into the grapes at harvest; it does not develop further after picking
+ */
+export const PHYLLOXERA_FEATURE: FeatureConfig = {
+  id: VINE_DISEASES.phylloxera.featureId,
+  name: VINE_DISEASES.phylloxera.label,
+  icon: VINE_DISEASES.phylloxera.icon,
+  description: 'Daktulosphaira vitifoliae, a root louse that slowly starves the vine. Weakened vines give thin, dilute wine.',
+
+  behavior: 'accumulation',
+
+  behaviorConfig: {
+    baseRate: VINE_DISEASES.phylloxera.baseRate,
+    compound: false,
+    spawnActive: false,
+    stateMultipliers: {
+      'grapes': 0.0,         // Develops on the vine only (see processVineyardFeatures)
+      'must_ready': 0.0,
+      'must_fermenting': 0.0,
+      'maturing': 0.0,
+      'tirage': 0.0,
+      'riddled': 0.0,
+      'bottled': 0.0
+    },
+    severityFromRisk: true
+  },
+
+  effects: {
+    quality: {
+      type: 'linear',
+      amount: -0.08  // 8% quality penalty at 100% severity
+    },
+    price: {
+      type: 'customer_sensitivity'
+    },
+    characteristics: [
+      { characteristic: 'body', modifier: -0.12 },
+      { characteristic: 'tannins', modifier: -0.06 }
+    ]
+  },
+
+  customerSensitivity: {
+    'Restaurant': 0.95,
+    'Wine Shop': 0.95,
+    'Private Collector': 0.90,
+    'Chain Store': 1.0
+  },
+
+  displayPriority: 3,  // Show after the mildews
+  badgeColor: 'warning',
+
+  processVineyardFeatures: (features, vineyard, gameState) =>
+    processVineDiseaseFeature(features, vineyard, 'phylloxera', gameState)
+};
@@ -0,0 +1,69 @@
+import { FeatureConfig } from '@/lib/types/wineFeatures';
+import { VINE_DISEASES } from '@/lib/constants/vineDiseaseConstants';
+import { processVineDiseaseFeature } from '@/lib/services/vineyard/vineDiseaseService';
+
+/**
+ * Powdery Mildew (Oidium) Feature
+ * - Behavior: Accumulation on growing vineyards (Spring and Summer)
+ * - Effect: Quality penalty, mouldy off-flavors and harsher acidity from split berries
+ *
+ * Risk Accumulation:
+ * - Pressure rises with warm weeks, dense planting, shaded aspects and overgrown rows; rain matters little
+ * - Grape resistance and this season's sulfur spray lower it
+ *
+ * Manifestation:
+ * - Breaks out on the accumulated risk, at a severity equal to that risk, then spreads weekly
+ * - While present it costs vine health and part of the season's crop
+ * - Carried into the grapes at harvest; it does not develop further after picking
+ */
+export const POWDERY_MILDEW_FEATURE: FeatureConfig = {
+  id: VINE_DISEASES.powderyMildew.featureId,
+  name: VINE_DISEASES.powderyMildew.label,
+  icon: VINE_DISEASES.powderyMildew.icon,
+  description: 'Erysiphe necator (oidium), a fungus that coats leaves and berries in warm, shaded canopies. Berries split and give mouldy off-flavors.',
+
+  behavior: 'accumulation',
+
+  behaviorConfig: {
+    baseRate: VINE_DISEASES.powderyMildew.baseRate,
+    compound: false,
+    spawnActive: false,
+    stateMultipliers: {
+      'grapes': 0.0,         // Develops on the vine only (see processVineyardFeatures)
+      'must_ready': 0.0,
+      'must_fermenting': 0.0,
+      'maturing': 0.0,
+      'tirage': 0.0,
+      'riddled': 0.0,
+      'bottled': 0.0
+    },
+    severityFromRisk: true
+  },
+
+  effects: {
+    quality: {
+      type: 'linear',
+      amount: -0.2  // 20% quality penalty at 100% severity
+    },
+    price: {
+      type: 'customer_sensitivity'
+    },
+    characteristics: [
+      { characteristic: 'aroma', modifier: -0.15 },
+      { characteristic: 'acidity', modifier: 0.08 }
+    ]
+  },
+
+  customerSensitivity: {
+    'Restaurant': 0.88,
+    'Wine Shop': 0.85,
+    'Private Collector': 0.75,
+    'Chain Store': 0.92
+  },
+
+  displayPriority: 2,  // Show after the most serious faults
+  badgeColor: 'warning',
+
+  processVineyardFeatures: (features, vineyard, gameState) =>
+    processVineDiseaseFeature(features, vineyard, 'powderyMildew', gameState)
+};
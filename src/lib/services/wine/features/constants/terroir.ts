@@ -37,6 +37,9 @@ export const TERROIR_FEATURE: FeatureConfig = {
         'grapes': 0.01,         // Slow growth in grapes (minimal interaction)
         'must_ready': 3.0,     // Normal growth in must
         'must_fermenting': 5.0, // Fast growth during fermentation (microbial activity)
+        'maturing': 1.5,       // Steady growth while maturing in vessel
+        'tirage': 0.5,         // Slow growth on the lees in bottle
+        'riddled': 0.3,
         'bottled': 0.3         // Slow growth when bottled (limited oxygen)
       }
     }
@@ -21,6 +21,7 @@ import {
   scaleCharacteristicModifierByAnchors
 } from '../anchors/wineAnchorCharacteristicBridge';
 import { diffAnchorEffects } from '../debug/wineAnchorEffectUtils';
+import { getCellarOperationRiskMultiplier } from '../characteristics/cellarOperationCharacteristics';
 
 // ===== CORE INTERFACES =====
 
@@ -597,6 +598,7 @@ export function previewFeatureRisks(
     characteristics: { acidity: 0, aroma: 0, body: 0, spice: 0, sweetness: 0, tannins: 0 },
     estimatedPrice: 0,
     grapeColor: 'red' as const,
+    wineStyle: 'red' as const,
     naturalYield: 0,
     fragile: 0,
     proneToOxidation: 0,
@@ -995,9 +997,9 @@ export async function processEventTrigger(
         const conditionMet = trigger.condition(triggerContext);
 
         if (conditionMet) {
-          const riskIncrease = typeof trigger.riskIncrease === 'function'
+          const riskIncrease = (typeof trigger.riskIncrease === 'function'
             ? trigger.riskIncrease(triggerContext)
-            : trigger.riskIncrease;
+            : trigger.riskIncrease) * getCellarOperationRiskMultiplier(updatedBatch, config.id);
           
           const { features: newFeatures } = await applyRiskIncrease(
             updatedBatch, 
@@ -1264,9 +1266,9 @@ function previewEventRisksInternal(
           continue;
         }
 
-        const riskIncrease = typeof trigger.riskIncrease === 'function'
+        const riskIncrease = (typeof trigger.riskIncrease === 'function'
           ? trigger.riskIncrease(triggerContext)
-          : trigger.riskIncrease;
+          : trigger.riskIncrease) * getCellarOperationRiskMultiplier(batch, config.id);
         
         // Also check if riskIncrease returns 0 (additional safeguard)
         if (riskIncrease <= 0) {
@@ -1369,7 +1371,9 @@ function calculateRiskIncrease(batch: WineBatch, config: FeatureConfig, feature:
     ? batch.proneToOxidation 
     : 1.0;
   
-  return baseRate * stateMultiplier * compoundMultiplier * oxidationMultiplier;
+  const cellarMultiplier = getCellarOperationRiskMultiplier(batch, config.id);
+  
+  return baseRate * stateMultiplier * compoundMultiplier * oxidationMultiplier * cellarMultiplier;
 }
 
 /**
@@ -1803,7 +1807,9 @@ export function calculateWeeklyRiskIncrease(batch: WineBatch | undefined, featur
     featureMultiplier = batch.proneToOxidation || 1.0;
   }
   
-  return baseRate * stateMultiplier * compoundMultiplier * featureMultiplier;
+  const cellarMultiplier = getCellarOperationRiskMultiplier(batch, config.id);
+  
+  return baseRate * stateMultiplier * compoundMultiplier * featureMultiplier * cellarMultiplier;
 }
 
 function generateGroupLabel(combinations: Array<{ options: any; risk: number; label: string }>, event: string): string {
@@ -1954,7 +1960,7 @@ function getFeatureRiskCombinations(
         continue; // Skip this combination entirely
       }
       
-      const riskValue = trigger.riskIncrease(contextForRisk);
+      const riskValue = trigger.riskIncrease(contextForRisk) * getCellarOperationRiskMultiplier(batch, risk.featureId);
       
       // Skip combinations with zero or negative risk
       if (riskValue <= 0) {
@@ -376,7 +376,10 @@ export function calculateTasteQualityIndexFromProfile(
 
 export function calculateTasteQualityIndex(batch: WineBatch): TasteQualityIndexResult {
   const grapeData = GRAPE_CONST[batch.grape];
-  const grapeColor = grapeData?.grapeColor ?? batch.grapeColor;
+  // Rosé and white-from-red wines are judged against white targets once crushing has set their style.
+  const grapeColor = batch.wineStyle
+    ? (batch.wineStyle === 'red' ? 'red' : 'white')
+    : grapeData?.grapeColor ?? batch.grapeColor;
   const profile = computeWineTasteProfile(batch).flavorFamilies;
   return calculateTasteQualityIndexFromProfile(profile, {
     grape: batch.grape,
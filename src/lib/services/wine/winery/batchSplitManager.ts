@@ -0,0 +1,137 @@
+import { v4 as uuidv4 } from 'uuid';
+import { splitOffStorageBackedWineBatch } from '@/lib/database/activities/inventoryDB';
+import { getGameState } from '@/lib/services/core/gameState';
+import { GAME_INITIALIZATION } from '@/lib/constants/constants';
+import type { WineBatch, WineBatchState } from '@/lib/types/types';
+import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
+import { triggerTopicUpdate } from '@/hooks/useGameUpdates';
+import { findConflictingActivity } from './cellarOperationManager';
+import { getWineBatchDisplayName } from './inventoryService';
+import { isBatchSparklingInProgress } from './sparklingManager';
+import {
+  assertBatchHasUsableStorage,
+  createStorageAllocationPlan,
+  getRequiredStorageLitres,
+  releaseStorageAllocationPlan
+} from './storageVesselAllocationService';
+import { isBatchBlendingInProgress, isBatchCellarOperationInProgress, isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+
+/**
+ * Batch Split Manager
+ * Splits part of a lot into a batch of its own, held in newly reserved Storage Vessels.
+ * Partial bottling (see fermentationManager) builds its bottled part the same way. Each part
+ * gets its own batch number, storage and features from then on; `parentBatchId` names the lot.
+ */
+
+export const SPLITTABLE_BATCH_STATES: WineBatchState[] = ['grapes', 'must_ready', 'must_fermenting', 'maturing'];
+
+export interface BatchSplitResult {
+  success: boolean;
+  error?: string;
+  splitBatchId?: string;
+}
+
+function getBatchVolumeLitres(batch: WineBatch): number {
+  return batch.volumeLitres ?? getRequiredStorageLitres(batch);
+}
+
+/** The lot a batch belongs to: the original batch, however often it has been split. */
+export function getParentLotId(batch: WineBatch): string {
+  return batch.parentBatchId ?? batch.id;
+}
+
+/**
+ * Build the part split off a batch: a proportional share of the quantity and `splitLitres`
+ * of the volume, with a fresh id and batch number, linked to the parent lot
+ */
+export function buildSplitWineBatch(batch: WineBatch, splitLitres: number, overrides: Partial<WineBatch> = {}): WineBatch {
+  const volumeLitres = getBatchVolumeLitres(batch);
+  return {
+    ...batch,
+    id: uuidv4(),
+    quantity: volumeLitres > 0 ? Math.round(batch.quantity * (splitLitres / volumeLitres)) : 0,
+    volumeLitres: splitLitres,
+    parentBatchId: getParentLotId(batch),
+    batchNumber: undefined,
+    batchGroupSize: undefined,
+    ...overrides
+  };
+}
+
+/**
+ * Check whether `splitLitres` can be split off a batch; both parts must keep some wine
+ */
+export function validateBatchSplit(batch: WineBatch, splitLitres: number): { valid: boolean; reason?: string } {
+  if (!SPLITTABLE_BATCH_STATES.includes(batch.state)) {
+    return { valid: false, reason: 'Only grapes, must or wine held in Storage Vessels can be split.' };
+  }
+  if (!batch.storagePlanId || !batch.volumeLitres || batch.volumeLitres <= 0) {
+    return { valid: false, reason: 'This batch must be assigned to Storage Vessels before it can be split.' };
+  }
+  if (!Number.isFinite(splitLitres) || splitLitres <= 0 || splitLitres >= batch.volumeLitres) {
+    return { valid: false, reason: `Choose between 1 and ${Math.floor(batch.volumeLitres) - 1} L to split off.` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Check if a batch can be split right now: right stage and no pending production task
+ */
+export function isBatchSplitAvailable(batch: WineBatch): boolean {
+  return SPLITTABLE_BATCH_STATES.includes(batch.state)
+    && !!batch.storagePlanId
+    && !isBatchEmptyingInProgress(batch.id)
+    && !isBatchBlendingInProgress(batch.id)
+    && !isBatchCellarOperationInProgress(batch.id)
+    && !isBatchSparklingInProgress(batch.id)
+    && !findConflictingActivity(batch.id);
+}
+
+/**
+ * Split `splitLitres` off a batch into the selected Storage Vessels. The vessels are reserved
+ * first and released again if the split cannot be saved.
+ */
+export async function splitWineBatch(batch: WineBatch, splitLitres: number, vesselIds: string[]): Promise<BatchSplitResult> {
+  try {
+    const validation = validateBatchSplit(batch, splitLitres);
+    if (!validation.valid) return { success: false, error: validation.reason };
+    const conflict = findConflictingActivity(batch.id);
+    if (conflict) return { success: false, error: `Cannot split the batch while "${conflict.title}" is still in progress.` };
+    if (!isBatchSplitAvailable(batch)) {
+      return { success: false, error: 'This batch is locked by a pending production task.' };
+    }
+    const storageValidation = await assertBatchHasUsableStorage(batch);
+    if (!storageValidation.valid) return { success: false, error: storageValidation.reason };
+    if (vesselIds.length === 0) return { success: false, error: 'Select Storage Vessels for the split-off wine.' };
+
+    const companyId = getCurrentCompanyId();
+    if (!companyId) return { success: false, error: 'No active company selected.' };
+
+    const storagePlan = await createStorageAllocationPlan({ requiredLitres: Math.ceil(splitLitres), vesselIds });
+    if (!storagePlan.planId) {
+      return { success: false, error: storagePlan.error || 'Could not reserve Storage Vessels for the split-off wine.' };
+    }
+
+    const splitBatch = buildSplitWineBatch(batch, splitLitres, { storagePlanId: storagePlan.planId });
+    const gameState = getGameState();
+    const split = await splitOffStorageBackedWineBatch({
+      companyId,
+      batchId: batch.id,
+      splitBatch,
+      activatedYear: gameState.currentYear ?? GAME_INITIALIZATION.STARTING_YEAR,
+      activatedSeason: gameState.season ?? GAME_INITIALIZATION.STARTING_SEASON,
+      activatedWeek: gameState.week ?? GAME_INITIALIZATION.STARTING_WEEK
+    });
+    if (!split) {
+      await releaseStorageAllocationPlan(storagePlan.planId);
+      return { success: false, error: `${getWineBatchDisplayName(batch)} could not be split.` };
+    }
+
+    triggerTopicUpdate('storage_vessels');
+    triggerTopicUpdate('wine_batches');
+    return { success: true, splitBatchId: splitBatch.id };
+  } catch (error) {
+    console.error('Error splitting wine batch:', error);
+    return { success: false, error: 'Failed to split wine batch' };
+  }
+}
@@ -0,0 +1,451 @@
+import { blendStorageBackedWineBatches } from '@/lib/database/activities/inventoryDB';
+import { loadVineyards } from '@/lib/database/activities/vineyardDB';
+import { activitiesFeature } from '@/lib/features/activities';
+import { prestigeFeature } from '@/lib/features/prestige';
+import { getGameState } from '@/lib/services/core/gameState';
+import { GAME_INITIALIZATION } from '@/lib/constants/constants';
+import { BASE_BALANCED_RANGES, GRAPE_CONST } from '@/lib/constants/grapeConstants';
+import { calculateStructureIndex, RANGE_ADJUSTMENTS, RULES } from '@/lib/wineStructure';
+import { WorkCategory, type Activity, type GameDate, type Vineyard, type WineBatch, type WineBlendComponent, type WineCharacteristics } from '@/lib/types/types';
+import type { WineFeature } from '@/lib/types/wineFeatures';
+import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
+import { triggerTopicUpdate } from '@/hooks/useGameUpdates';
+import { SEASON_ORDER, WEEKS_PER_SEASON } from '@/lib/constants/timeConstants';
+import { combineWineAnchorSets, resolveWineAnchors, weightedMean } from '../anchors/wineAnchorService';
+import { getAnchorAdjustedStructureRanges } from '../anchors/wineAnchorCharacteristicBridge';
+import { calculateEstimatedPrice, getTasteQualityIndex } from '../winescore/wineScoreCalculation';
+import { getSharedFarmingCertification } from '../../vineyard/farmingService';
+import { getAllWineBatches, getWineBatchDisplayName } from './inventoryService';
+import { assertBatchHasUsableStorage, getRequiredStorageLitres, getStoragePlanCapacityLitres } from './storageVesselAllocationService';
+import { BLEND_WINE_BATCHES_ACTIVITY_TYPE, isBatchBlendingInProgress, isBatchCellarOperationInProgress, isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+
+/**
+ * Blending Manager
+ * Assembles several must or pre-bottling wine batches into one volume-weighted blend.
+ * The largest batch survives and keeps its storage plan; the other batches' vessels join that plan.
+ */
+
+type BlendableState = Extract<WineBatch['state'], 'must_ready' | 'must_fermenting' | 'maturing'>;
+type CharacteristicEffect = NonNullable<WineBatch['breakdown']>['effects'][number];
+type AnchorEffect = NonNullable<NonNullable<WineBatch['breakdown']>['anchorEffects']>[number];
+
+const BLENDABLE_STATES: readonly BlendableState[] = ['must_ready', 'must_fermenting', 'maturing'];
+const CHARACTERISTIC_KEYS: Array<keyof WineCharacteristics> = ['acidity', 'aroma', 'body', 'spice', 'sweetness', 'tannins'];
+
+export interface BlendingResult {
+  success: boolean;
+  error?: string;
+  batch?: WineBatch;
+  blendedBatchCount?: number;
+}
+
+/** Fraction (0-1] of each batch's volume that goes into the blend, keyed by batch id; omitted batches blend in full. */
+export type BlendPortions = Record<string, number>;
+
+/** What stays behind in a partially blended source batch. */
+export interface BlendRemainder {
+  batchId: string;
+  volumeLitres: number;
+  quantity: number;
+}
+
+export interface BlendBuildContext {
+  /** Surviving batch; defaults to the largest batch blended in full. */
+  targetBatchId?: string;
+  portions?: BlendPortions;
+  vineyard?: Vineyard;
+  companyPrestige?: number;
+  vineyardPrestige?: number;
+}
+
+function isBlendableState(state: WineBatch['state']): state is BlendableState {
+  return (BLENDABLE_STATES as readonly string[]).includes(state);
+}
+
+function getAbsoluteWeek(date: GameDate): number {
+  const seasonIndex = Math.max(0, SEASON_ORDER.indexOf(date.season));
+  return date.year * SEASON_ORDER.length * WEEKS_PER_SEASON + seasonIndex * WEEKS_PER_SEASON + date.week;
+}
+
+export function getBlendPortion(portions: BlendPortions | undefined, batchId: string): number {
+  return portions?.[batchId] ?? 1;
+}
+
+/** Litres of a batch that go into the blend. */
+export function getBlendContributionLitres(batch: WineBatch, portions?: BlendPortions): number {
+  return getRequiredStorageLitres(batch) * getBlendPortion(portions, batch.id);
+}
+
+/** Volume shares of each batch's contribution, in the same order as the input. */
+function getVolumeWeights(batches: WineBatch[], portions?: BlendPortions): number[] {
+  const volumes = batches.map((batch) => getBlendContributionLitres(batch, portions));
+  const total = volumes.reduce((sum, volume) => sum + volume, 0);
+  return volumes.map((volume) => volume / total);
+}
+
+function blendNumber(batches: WineBatch[], weights: number[], read: (batch: WineBatch) => number): number {
+  return weightedMean(batches.map((batch, index) => ({ value: read(batch), weight: weights[index] })));
+}
+
+/** Flatten nested blends so a re-blended batch still reports its original vineyards and varieties. */
+function blendComponents(batches: WineBatch[], weights: number[]): WineBlendComponent[] {
+  const merged = new Map<string, WineBlendComponent>();
+  batches.forEach((batch, index) => {
+    const parts = batch.blendComponents?.length
+      ? batch.blendComponents
+      : [{ vineyardId: batch.vineyardId, vineyardName: batch.vineyardName, grape: batch.grape, share: 1 }];
+    for (const part of parts) {
+      const key = `${part.vineyardId}:${part.grape}`;
+      const existing = merged.get(key);
+      const share = part.share * weights[index];
+      merged.set(key, existing ? { ...existing, share: existing.share + share } : { ...part, share });
+    }
+  });
+  return [...merged.values()].sort((a, b) => b.share - a.share);
+}
+
+/** Dilute feature severity and risk by volume; a fault present in any component stays present in the blend. */
+function blendFeatures(batches: WineBatch[], weights: number[]): WineFeature[] {
+  const featureIds: string[] = [];
+  const templates = new Map<string, WineFeature>();
+  for (const batch of batches) {
+    for (const feature of batch.features ?? []) {
+      if (!templates.has(feature.id)) {
+        featureIds.push(feature.id);
+        templates.set(feature.id, feature);
+      }
+    }
+  }
+
+  return featureIds.map((featureId) => {
+    const template = templates.get(featureId)!;
+    let severity = 0;
+    let risk = 0;
+    let hasRisk = false;
+    batches.forEach((batch, index) => {
+      const feature = batch.features?.find((candidate) => candidate.id === featureId);
+      if (!feature) return;
+      if (feature.isPresent) severity += feature.severity * weights[index];
+      if (feature.risk !== undefined) {
+        hasRisk = true;
+        risk += feature.risk * weights[index];
+      }
+    });
+    return {
+      ...template,
+      isPresent: severity > 0,
+      severity,
+      risk: hasRisk ? risk : undefined,
+    };
+  });
+}
+
+function mergeWeightedEffects<T extends { modifier: number; description: string }>(
+  batches: WineBatch[],
+  weights: number[],
+  read: (batch: WineBatch) => T[] | undefined,
+  key: (effect: T) => string
+): T[] {
+  const merged = new Map<string, T>();
+  batches.forEach((batch, index) => {
+    for (const effect of read(batch) ?? []) {
+      const effectKey = key(effect);
+      const existing = merged.get(effectKey);
+      const modifier = effect.modifier * weights[index];
+      merged.set(effectKey, existing ? { ...existing, modifier: existing.modifier + modifier } : { ...effect, modifier });
+    }
+  });
+  return [...merged.values()];
+}
+
+/**
+ * Partner varieties shift the grape base away from the surviving batch's variety.
+ * Each batch's effects are relative to its own `grape`, so recording that shift keeps
+ * "surviving grape base + effects" equal to the blended characteristics.
+ */
+function buildVarietyBaseEffects(batches: WineBatch[], weights: number[], dominantGrape: WineBatch['grape']): CharacteristicEffect[] {
+  const dominantBase = GRAPE_CONST[dominantGrape].baseCharacteristics;
+  return CHARACTERISTIC_KEYS.map((characteristic) => ({
+    characteristic,
+    modifier: blendNumber(batches, weights, (batch) => GRAPE_CONST[batch.grape].baseCharacteristics[characteristic]) - dominantBase[characteristic],
+    description: 'Blend partner varieties',
+  })).filter((effect) => Math.abs(effect.modifier) > 1e-6);
+}
+
+function blendOriginSnapshot(batches: WineBatch[], weights: number[], dominant: WineBatch): WineBatch['originSnapshot'] {
+  if (!dominant.originSnapshot) return undefined;
+  const provenance = dominant.originSnapshot.provenance;
+  if (!provenance) return { ...dominant.originSnapshot };
+
+  const withProvenance = batches
+    .map((batch, index) => ({ provenance: batch.originSnapshot?.provenance, weight: weights[index] }))
+    .filter((entry): entry is { provenance: NonNullable<typeof provenance>; weight: number } => Boolean(entry.provenance));
+  const blendField = (field: 'altitude' | 'density' | 'vineyardHealth' | 'ripeness' | 'vineAge' | 'landValue' | 'vineyardPrestige' | 'baseQualityScore') =>
+    weightedMean(withProvenance.map((entry) => ({ value: entry.provenance[field], weight: entry.weight })));
+
+  return {
+    ...dominant.originSnapshot,
+    provenance: {
+      ...provenance,
+      altitude: blendField('altitude'),
+      density: blendField('density'),
+      vineyardHealth: blendField('vineyardHealth'),
+      ripeness: blendField('ripeness'),
+      vineAge: blendField('vineAge'),
+      landValue: blendField('landValue'),
+      vineyardPrestige: blendField('vineyardPrestige'),
+      baseQualityScore: blendField('baseQualityScore'),
+    },
+  };
+}
+
+/**
+ * The largest batch blended in full survives the blend and keeps its storage plan;
+ * partially blended batches keep their remainder. Ties keep selection order.
+ */
+export function getBlendTargetBatch(batches: WineBatch[], portions?: BlendPortions): WineBatch | null {
+  return batches
+    .filter((batch) => getBlendPortion(portions, batch.id) >= 1)
+    .reduce<WineBatch | null>((largest, batch) =>
+      !largest || getRequiredStorageLitres(batch) > getRequiredStorageLitres(largest) ? batch : largest,
+    null);
+}
+
+/** Pure business rules for a blend selection; activity and storage checks happen when the activity starts. */
+export function validateBlendSelection(batches: WineBatch[], portions?: BlendPortions): { valid: boolean; reason?: string } {
+  if (batches.length < 2) return { valid: false, reason: 'Select at least two batches to blend.' };
+  if (new Set(batches.map((batch) => batch.id)).size !== batches.length) return { valid: false, reason: 'A batch cannot be blended with itself.' };
+  const [first] = batches;
+  if (!isBlendableState(first.state)) return { valid: false, reason: 'Only must, fermenting and maturing wine can be blended before bottling.' };
+  if (batches.some((batch) => batch.state !== first.state)) return { valid: false, reason: 'All batches in a blend must be at the same production stage.' };
+  if (batches.some((batch) => batch.harvestStartDate.year !== first.harvestStartDate.year)) return { valid: false, reason: 'Blends must share a single vintage.' };
+  if (batches.some((batch) => batch.wineStyle !== first.wineStyle)) return { valid: false, reason: 'All batches in a blend must share the same wine style.' };
+  if (batches.some((batch) => batch.sweetWineMethod !== first.sweetWineMethod)) return { valid: false, reason: 'All batches in a blend must share the same sweet wine method.' };
+  if (batches.some((batch) => getRequiredStorageLitres(batch) <= 0 || batch.quantity <= 0)) return { valid: false, reason: 'Every batch in a blend must contain wine.' };
+  if (batches.some((batch) => {
+    const portion = getBlendPortion(portions, batch.id);
+    return !Number.isFinite(portion) || portion <= 0 || portion > 1;
+  })) return { valid: false, reason: 'Each blend portion must be more than 0% and at most 100% of its batch.' };
+  if (!getBlendTargetBatch(batches, portions)) return { valid: false, reason: 'At least one batch must be blended in full to hold the blend.' };
+  return { valid: true };
+}
+
+/** Volume and grape quantity left in each partially blended batch. */
+export function getBlendRemainders(batches: WineBatch[], portions?: BlendPortions): BlendRemainder[] {
+  return batches
+    .filter((batch) => getBlendPortion(portions, batch.id) < 1)
+    .map((batch) => {
+      const keep = 1 - getBlendPortion(portions, batch.id);
+      return {
+        batchId: batch.id,
+        volumeLitres: Math.max(1, Math.round(getRequiredStorageLitres(batch) * keep)),
+        quantity: Math.max(1, Math.round(batch.quantity * keep)),
+      };
+    });
+}
+
+/** Batches that could join a blend with the given batch (same stage, vintage, style and sweet wine method, not locked by another task). */
+export function getBlendCandidates(batch: WineBatch, allBatches: WineBatch[]): WineBatch[] {
+  if (!isBlendableState(batch.state)) return [];
+  return allBatches.filter((candidate) =>
+    candidate.id !== batch.id
+    && candidate.state === batch.state
+    && candidate.harvestStartDate.year === batch.harvestStartDate.year
+    && candidate.wineStyle === batch.wineStyle
+    && candidate.sweetWineMethod === batch.sweetWineMethod
+    && candidate.quantity > 0
+    && !isBatchEmptyingInProgress(candidate.id)
+    && !isBatchBlendingInProgress(candidate.id)
+    && !isBatchCellarOperationInProgress(candidate.id)
+  );
+}
+
+/**
+ * Build the blended batch without persisting it. Anchors, characteristics, features,
+ * grape metadata and origin provenance are volume-weighted; structure and taste are recomputed.
+ */
+export function buildBlendedWineBatch(batches: WineBatch[], context: BlendBuildContext = {}): WineBatch {
+  const { portions } = context;
+  const validation = validateBlendSelection(batches, portions);
+  if (!validation.valid) throw new Error(validation.reason);
+
+  const target = batches.find((batch) => batch.id === context.targetBatchId) ?? getBlendTargetBatch(batches, portions)!;
+  const weights = getVolumeWeights(batches, portions);
+  const remainders = getBlendRemainders(batches, portions);
+  const keptFrom = (batch: WineBatch) => remainders.find((remainder) => remainder.batchId === batch.id);
+  const volumeLitres = batches.reduce((sum, batch) => sum + getRequiredStorageLitres(batch) - (keptFrom(batch)?.volumeLitres ?? 0), 0);
+  const quantity = batches.reduce((sum, batch) => sum + batch.quantity - (keptFrom(batch)?.quantity ?? 0), 0);
+
+  let wineAnchors = resolveWineAnchors(batches[0].wineAnchors);
+  let accumulatedWeight = weights[0];
+  for (let index = 1; index < batches.length; index++) {
+    wineAnchors = combineWineAnchorSets(wineAnchors, resolveWineAnchors(batches[index].wineAnchors), accumulatedWeight, weights[index]);
+    accumulatedWeight += weights[index];
+  }
+
+  const characteristics = Object.fromEntries(
+    CHARACTERISTIC_KEYS.map((key) => [key, blendNumber(batches, weights, (batch) => batch.characteristics[key])])
+  ) as unknown as WineCharacteristics;
+  const components = blendComponents(batches, weights);
+  const breakdown = {
+    effects: [
+      ...mergeWeightedEffects<CharacteristicEffect>(batches, weights, (batch) => batch.breakdown?.effects, (effect) => `${effect.characteristic}:${effect.description}`),
+      ...buildVarietyBaseEffects(batches, weights, target.grape),
+    ],
+    anchorEffects: mergeWeightedEffects<AnchorEffect>(batches, weights, (batch) => batch.breakdown?.anchorEffects, (effect) => `${effect.anchor}:${effect.description}`),
+  };
+
+  const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
+  const structureIndex = calculateStructureIndex(characteristics, structureRanges, RANGE_ADJUSTMENTS, RULES).score;
+  const harvestStartDate = batches.map((batch) => batch.harvestStartDate).reduce((earliest, date) => getAbsoluteWeek(date) < getAbsoluteWeek(earliest) ? date : earliest);
+  const harvestEndDate = batches.map((batch) => batch.harvestEndDate).reduce((latest, date) => getAbsoluteWeek(date) > getAbsoluteWeek(latest) ? date : latest);
+
+  const blended: WineBatch = {
+    ...target,
+    quantity,
+    volumeLitres,
+    fermentationProgress: target.state === 'must_fermenting' ? blendNumber(batches, weights, (batch) => batch.fermentationProgress ?? 0) : target.fermentationProgress,
+    maturationWeeks: target.state === 'maturing' ? Math.round(blendNumber(batches, weights, (batch) => batch.maturationWeeks ?? 0)) : target.maturationWeeks,
+    landValueModifierHarvestSnapshot: blendNumber(batches, weights, (batch) => batch.landValueModifierHarvestSnapshot),
+    structureIndexHarvestSnapshot: blendNumber(batches, weights, (batch) => batch.structureIndexHarvestSnapshot),
+    tasteQualityIndexHarvestSnapshot: blendNumber(batches, weights, (batch) => batch.tasteQualityIndexHarvestSnapshot),
+    landValueModifier: blendNumber(batches, weights, (batch) => batch.landValueModifier),
+    structureIndex,
+    characteristics,
+    breakdown,
+    naturalYield: blendNumber(batches, weights, (batch) => batch.naturalYield),
+    fragile: blendNumber(batches, weights, (batch) => batch.fragile),
+    proneToOxidation: blendNumber(batches, weights, (batch) => batch.proneToOxidation),
+    features: blendFeatures(batches, weights),
+    originSnapshot: blendOriginSnapshot(batches, weights, target),
+    blendComponents: components.length > 1 ? components : undefined,
+    farmingCertification: getSharedFarmingCertification(batches),
+    wineAnchors,
+    harvestStartDate,
+    harvestEndDate,
+  };
+  blended.tasteQualityIndex = getTasteQualityIndex(blended);
+  blended.estimatedPrice = calculateEstimatedPrice(blended, context.vineyard, context.companyPrestige, context.vineyardPrestige);
+  return blended;
+}
+
+function findConflictingActivity(batchIds: string[]): Activity | undefined {
+  return (getGameState().activities ?? []).find((activity) =>
+    (activity.status === 'active' || activity.status === 'paused')
+    && (batchIds.includes(activity.params.batchId) || batchIds.includes(activity.params.outputBatchId) || batchIds.includes(activity.targetId ?? ''))
+  );
+}
+
+async function resolveBlendBatches(batchIds: string[]): Promise<{ batches?: WineBatch[]; error?: string }> {
+  const allBatches = await getAllWineBatches();
+  const batches = batchIds.map((batchId) => allBatches.find((batch) => batch.id === batchId));
+  if (batches.some((batch) => !batch)) return { error: 'One of the blend batches no longer exists.' };
+  return { batches: batches as WineBatch[] };
+}
+
+function readBlendPortions(value: unknown): BlendPortions {
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(Object.entries(value as Record<string, unknown>).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+}
+
+/**
+ * Start a cancellable Maintenance activity that blends the selected batches.
+ * `portions` holds the fraction of each partner batch to blend; batches without an entry blend in full.
+ */
+export async function startBlendingActivity(batchIds: string[], portions: BlendPortions = {}): Promise<BlendingResult> {
+  try {
+    const resolved = await resolveBlendBatches(batchIds);
+    if (!resolved.batches) return { success: false, error: resolved.error };
+    const batches = resolved.batches;
+    const validation = validateBlendSelection(batches, portions);
+    if (!validation.valid) return { success: false, error: validation.reason };
+    if (batches.some((batch) => isBatchEmptyingInProgress(batch.id))) return { success: false, error: 'One of the selected batches is scheduled to be emptied.' };
+    if (batches.some((batch) => isBatchBlendingInProgress(batch.id))) return { success: false, error: 'One of the selected batches is already part of a pending blend.' };
+    if (batches.some((batch) => isBatchCellarOperationInProgress(batch.id))) return { success: false, error: 'One of the selected batches has a cellar operation in progress.' };
+    const conflict = findConflictingActivity(batches.map((batch) => batch.id));
+    if (conflict) return { success: false, error: `Cannot blend while "${conflict.title}" is still in progress.` };
+    for (const batch of batches) {
+      const storageValidation = await assertBatchHasUsableStorage(batch);
+      if (!storageValidation.valid) return { success: false, error: `${getWineBatchDisplayName(batch)}: ${storageValidation.reason}` };
+    }
+
+    const target = getBlendTargetBatch(batches, portions)!;
+    const sourceBatchIds = batches.filter((batch) => batch.id !== target.id).map((batch) => batch.id);
+    const volumeLitres = batches.reduce((sum, batch) => sum + getBlendContributionLitres(batch, portions), 0);
+    // Fully blended batches bring their vessels along; partial ones keep theirs for the remainder.
+    const fullBatches = batches.filter((batch) => getBlendPortion(portions, batch.id) >= 1);
+    const capacities = await Promise.all(fullBatches.map((batch) => getStoragePlanCapacityLitres(batch.storagePlanId!)));
+    if (capacities.reduce((sum, capacity) => sum + capacity, 0) < volumeLitres) {
+      return { success: false, error: 'The fully blended batches do not have enough Storage Vessel capacity to hold the blend.' };
+    }
+
+    const targetName = getWineBatchDisplayName(target);
+    const work = activitiesFeature.work.calculateBlending(volumeLitres, batches.length);
+    const activityResult = await activitiesFeature.lifecycle.createWithResult({
+      category: WorkCategory.MAINTENANCE,
+      title: `Blend Wine - ${targetName}`,
+      targetId: target.id,
+      totalWork: work.totalWork,
+      activityDetails: `Blend ${batches.length} batches (${Math.round(volumeLitres)} L) into ${targetName}`,
+      params: {
+        type: BLEND_WINE_BATCHES_ACTIVITY_TYPE,
+        batchId: target.id,
+        sourceBatchIds,
+        portions: Object.fromEntries(sourceBatchIds.map((batchId) => [batchId, getBlendPortion(portions, batchId)])),
+        volumeLitres,
+        targetName,
+      },
+      isCancellable: true,
+    });
+    return activityResult.activityId
+      ? { success: true, batch: target, blendedBatchCount: batches.length }
+      : { success: false, error: activityResult.reason ?? 'Could not start the blending activity.' };
+  } catch (error) {
+    console.error('Error starting blending activity:', error);
+    return { success: false, error: 'Failed to start blending activity' };
+  }
+}
+
+/** Rebuild the blend from current batch data (fermentation may have progressed) and persist it atomically. */
+export async function completeBlendingActivity(activity: Activity): Promise<BlendingResult> {
+  const targetId = typeof activity.params.batchId === 'string' ? activity.params.batchId : null;
+  const sourceBatchIds = Array.isArray(activity.params.sourceBatchIds) ? activity.params.sourceBatchIds as string[] : [];
+  if (!targetId || sourceBatchIds.length === 0) return { success: false, error: 'This blending activity has incomplete batch details.' };
+  const portions = readBlendPortions(activity.params.portions);
+
+  const resolved = await resolveBlendBatches([targetId, ...sourceBatchIds]);
+  if (!resolved.batches) return { success: false, error: resolved.error };
+  const batches = resolved.batches;
+  const validation = validateBlendSelection(batches, portions);
+  if (!validation.valid) return { success: false, error: validation.reason };
+
+  const companyId = getCurrentCompanyId();
+  if (!companyId) return { success: false, error: 'No active company selected.' };
+  const [vineyards, prestige] = await Promise.all([loadVineyards(), prestigeFeature.reads.calculateCurrent()]);
+  const target = batches[0];
+  const vineyard = vineyards.find((candidate) => candidate.id === target.vineyardId);
+  // The surviving batch was fixed when the activity started, even if volumes shifted since.
+  const blended = buildBlendedWineBatch(batches, {
+    targetBatchId: target.id,
+    portions,
+    vineyard,
+    companyPrestige: prestige.companyPrestige,
+    vineyardPrestige: vineyard?.vineyardPrestige,
+  });
+
+  const state = getGameState();
+  const completed = await blendStorageBackedWineBatches({
+    companyId,
+    batch: blended,
+    sourceBatchIds,
+    remainders: getBlendRemainders(batches, portions),
+    releasedYear: state.currentYear ?? GAME_INITIALIZATION.STARTING_YEAR,
+    releasedSeason: state.season ?? GAME_INITIALIZATION.STARTING_SEASON,
+    releasedWeek: state.week ?? GAME_INITIALIZATION.STARTING_WEEK,
+  });
+  if (!completed) return { success: false, error: 'Could not persist the blended batch and its Storage Vessels.' };
+
+  triggerTopicUpdate('storage_vessels');
+  triggerTopicUpdate('wine_batches');
+  return { success: true, batch: blended, blendedBatchCount: batches.length };
+}
@@ -0,0 +1,246 @@
+import { applyCellarOperationToWineBatch, loadWineBatches } from '@/lib/database/activities/inventoryDB';
+import { activitiesFeature } from '@/lib/features/activities';
+import { getGameState } from '@/lib/services/core/gameState';
+import { addTransaction } from '@/lib/services/finance/financeService';
+import { GAME_INITIALIZATION } from '@/lib/constants/constants';
+import { BASE_BALANCED_RANGES } from '@/lib/constants/grapeConstants';
+import { CELLAR_OPERATIONS } from '@/lib/constants/cellarOperationConstants';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import { calculateStructureIndex, RANGE_ADJUSTMENTS, RULES } from '@/lib/wineStructure';
+import { WorkCategory, type Activity, type CellarOperation, type WineBatch } from '@/lib/types/types';
+import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
+import { triggerTopicUpdate } from '@/hooks/useGameUpdates';
+import { applyCellarOperation } from '../characteristics/cellarOperationCharacteristics';
+import { resolveWineAnchors } from '../anchors/wineAnchorService';
+import { getAnchorAdjustedStructureRanges } from '../anchors/wineAnchorCharacteristicBridge';
+import { applyCellarOperationToWineAnchors } from '../anchors/wineAnchorProcess';
+import { diffAnchorEffects } from '../debug/wineAnchorEffectUtils';
+import { getTasteQualityIndex } from '../winescore/wineScoreCalculation';
+import { getWineBatchDisplayName } from './inventoryService';
+import {
+  assertBatchHasUsableStorage,
+  createStorageAllocationPlan,
+  getRequiredStorageLitres,
+  releaseStorageAllocationPlan
+} from './storageVesselAllocationService';
+import {
+  CELLAR_OPERATION_ACTIVITY_TYPE,
+  isBatchBlendingInProgress,
+  isBatchCellarOperationInProgress,
+  isBatchEmptyingInProgress
+} from './storageVesselMaintenanceService';
+import { isBatchSparklingInProgress } from './sparklingManager';
+
+/**
+ * Cellar Operation Manager
+ * Racking, fining and filtration of wine held in Storage Vessels. Each operation loses a
+ * little volume and structure in exchange for lower fault risk. Racking moves the wine into
+ * newly reserved vessels; the old ones are released dirty.
+ */
+
+export interface CellarOperationResult {
+  success: boolean;
+  error?: string;
+  operation?: CellarOperation;
+  batch?: WineBatch;
+  lostLitres?: number;
+}
+
+function getBatchVolumeLitres(batch: WineBatch): number {
+  return batch.volumeLitres ?? getRequiredStorageLitres(batch);
+}
+
+/** Litres left after the operation's volume loss. */
+export function getCellarOperationVolumeAfter(batch: WineBatch, operation: CellarOperation): number {
+  return getBatchVolumeLitres(batch) * (1 - CELLAR_OPERATIONS[operation].volumeLoss);
+}
+
+/**
+ * Check whether a batch is at the right stage for a cellar operation
+ */
+export function validateCellarOperation(batch: WineBatch, operation: CellarOperation): { valid: boolean; reason?: string } {
+  const info = CELLAR_OPERATIONS[operation];
+  if (!info.states.includes(batch.state)) {
+    return {
+      valid: false,
+      reason: operation === 'filtration' && batch.state === 'must_fermenting'
+        ? 'Filtering a fermenting wine would strip the active yeast.'
+        : `${info.label} is only possible for must or wine held in Storage Vessels.`
+    };
+  }
+  if (!batch.storagePlanId || !batch.volumeLitres || batch.volumeLitres <= 0) {
+    return { valid: false, reason: 'This batch must be assigned to Storage Vessels before cellar work can start.' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Check if a cellar operation can be started for a batch
+ */
+export function isCellarOperationAvailable(batch: WineBatch, operation: CellarOperation): boolean {
+  return validateCellarOperation(batch, operation).valid
+    && !isBatchCellarOperationInProgress(batch.id)
+    && !isBatchEmptyingInProgress(batch.id)
+    && !isBatchBlendingInProgress(batch.id)
+    && !isBatchSparklingInProgress(batch.id);
+}
+
+/**
+ * Apply a cellar operation to a batch in memory: volume loss, characteristic and anchor
+ * changes, recomputed structure and taste quality, and the operation appended to the history.
+ */
+export function buildCellarTreatedWineBatch(batch: WineBatch, operation: CellarOperation): WineBatch {
+  const info = CELLAR_OPERATIONS[operation];
+  const volumeBefore = getBatchVolumeLitres(batch);
+  const volumeLitres = getCellarOperationVolumeAfter(batch, operation);
+  const quantity = volumeBefore > 0 ? batch.quantity * (volumeLitres / volumeBefore) : batch.quantity;
+
+  const { characteristics, effects } = applyCellarOperation(batch.characteristics, operation);
+  const anchorsBefore = resolveWineAnchors(batch.wineAnchors);
+  const wineAnchors = applyCellarOperationToWineAnchors(anchorsBefore, operation);
+  const anchorEffects = diffAnchorEffects(anchorsBefore, wineAnchors, info.label);
+  const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
+  const structureIndex = calculateStructureIndex(characteristics, structureRanges, RANGE_ADJUSTMENTS, RULES).score;
+
+  const treated: WineBatch = {
+    ...batch,
+    quantity,
+    volumeLitres,
+    characteristics,
+    structureIndex,
+    wineAnchors,
+    cellarOperations: [...(batch.cellarOperations ?? []), operation],
+    breakdown: {
+      effects: [...(batch.breakdown?.effects || []), ...effects],
+      anchorEffects: [...(batch.breakdown?.anchorEffects || []), ...anchorEffects]
+    }
+  };
+  return { ...treated, tasteQualityIndex: getTasteQualityIndex(treated) };
+}
+
+/** Any pending activity that works on the batch (crushing, fermentation setup, cellar work, ...). */
+export function findConflictingActivity(batchId: string): Activity | undefined {
+  return (getGameState().activities ?? []).find((activity) =>
+    (activity.status === 'active' || activity.status === 'paused')
+    && (activity.params.batchId === batchId || activity.params.outputBatchId === batchId || activity.targetId === batchId)
+  );
+}
+
+/**
+ * Start a cellar operation. Racking first reserves the target vessels against a paused
+ * activity, so cancelling the activity releases them again.
+ */
+export async function startCellarOperationActivity(
+  batch: WineBatch,
+  operation: CellarOperation,
+  targetVesselIds: string[] = []
+): Promise<CellarOperationResult> {
+  try {
+    const validation = validateCellarOperation(batch, operation);
+    if (!validation.valid) return { success: false, error: validation.reason };
+    if (!isCellarOperationAvailable(batch, operation)) {
+      return { success: false, error: 'This batch is locked by a pending production task.' };
+    }
+    const conflict = findConflictingActivity(batch.id);
+    if (conflict) return { success: false, error: `Cannot start ${CELLAR_OPERATIONS[operation].label.toLowerCase()} while "${conflict.title}" is still in progress.` };
+    const storageValidation = await assertBatchHasUsableStorage(batch);
+    if (!storageValidation.valid) return { success: false, error: storageValidation.reason };
+    if (operation === 'racking' && targetVesselIds.length === 0) {
+      return { success: false, error: 'Select the Storage Vessels to rack the wine into.' };
+    }
+
+    const info = CELLAR_OPERATIONS[operation];
+    const volumeLitres = getBatchVolumeLitres(batch);
+    const { totalWork, cost } = activitiesFeature.work.calculateCellarOperation(volumeLitres, operation);
+    const targetName = getWineBatchDisplayName(batch);
+    const activityOptions = {
+      category: WorkCategory.MAINTENANCE,
+      title: `${info.label} - ${targetName}`,
+      targetId: batch.id,
+      totalWork,
+      activityDetails: `${info.description} (${Math.round(volumeLitres)} L)`,
+      params: {
+        type: CELLAR_OPERATION_ACTIVITY_TYPE,
+        operation,
+        batchId: batch.id,
+        sourceStoragePlanId: batch.storagePlanId,
+        cost,
+        targetName
+      },
+      isCancellable: true
+    };
+
+    if (operation !== 'racking') {
+      const activityResult = await activitiesFeature.lifecycle.createWithResult(activityOptions);
+      return activityResult.activityId
+        ? { success: true, operation, batch }
+        : { success: false, error: activityResult.reason ?? `Could not start the ${info.label.toLowerCase()} activity.` };
+    }
+
+    const creation = await activitiesFeature.lifecycle.createWithResult({ ...activityOptions, initialStatus: 'paused' });
+    if (!creation.activityId) {
+      return { success: false, error: creation.reason ?? 'Could not start the racking activity.' };
+    }
+    const storagePlan = await createStorageAllocationPlan({
+      requiredLitres: getCellarOperationVolumeAfter(batch, operation),
+      vesselIds: targetVesselIds,
+      activityId: creation.activityId
+    });
+    const activated = storagePlan.planId && await activitiesFeature.lifecycle.activate(creation.activityId, {
+      ...activityOptions.params,
+      storagePlanId: storagePlan.planId
+    });
+    if (!activated) {
+      if (storagePlan.planId) await releaseStorageAllocationPlan(storagePlan.planId);
+      await activitiesFeature.lifecycle.cancel(creation.activityId);
+      return { success: false, error: storagePlan.error || 'Could not reserve Storage Vessels to rack the wine into.' };
+    }
+    return { success: true, operation, batch };
+  } catch (error) {
+    console.error('Error starting cellar operation:', error);
+    return { success: false, error: 'Failed to start cellar operation' };
+  }
+}
+
+/**
+ * Complete a cellar operation against the current batch state and persist it atomically
+ */
+export async function completeCellarOperationActivity(activity: Activity): Promise<CellarOperationResult> {
+  const operation = activity.params.operation as CellarOperation | undefined;
+  const batchId = typeof activity.params.batchId === 'string' ? activity.params.batchId : null;
+  if (!operation || !CELLAR_OPERATIONS[operation] || !batchId) {
+    return { success: false, error: 'This cellar operation has incomplete batch details.' };
+  }
+  const targetPlanId = typeof activity.params.storagePlanId === 'string' ? activity.params.storagePlanId : undefined;
+  if (operation === 'racking' && !targetPlanId) return { success: false, error: 'This racking activity has no reserved Storage Vessels.' };
+
+  const batch = (await loadWineBatches()).find((candidate) => candidate.id === batchId);
+  if (!batch) return { success: false, error: 'The wine batch no longer exists.' };
+  const validation = validateCellarOperation(batch, operation);
+  if (!validation.valid) return { success: false, error: validation.reason };
+  if (batch.storagePlanId !== activity.params.sourceStoragePlanId) {
+    return { success: false, error: 'The batch has moved to other Storage Vessels since the operation started.' };
+  }
+
+  const companyId = getCurrentCompanyId();
+  if (!companyId) return { success: false, error: 'No active company selected.' };
+  const treated = buildCellarTreatedWineBatch(batch, operation);
+  const state = getGameState();
+  const completed = await applyCellarOperationToWineBatch({
+    companyId,
+    batch: treated,
+    targetPlanId: operation === 'racking' ? targetPlanId : undefined,
+    releasedYear: state.currentYear ?? GAME_INITIALIZATION.STARTING_YEAR,
+    releasedSeason: state.season ?? GAME_INITIALIZATION.STARTING_SEASON,
+    releasedWeek: state.week ?? GAME_INITIALIZATION.STARTING_WEEK
+  });
+  if (!completed) return { success: false, error: `${CELLAR_OPERATIONS[operation].label} could not be saved.` };
+
+  const cost = Number(activity.params.cost) || 0;
+  if (cost > 0) {
+    await addTransaction(-cost, `${CELLAR_OPERATIONS[operation].label} materials for ${activity.params.targetName ?? 'wine'}`, TRANSACTION_CATEGORIES.SUPPLIES);
+  }
+  triggerTopicUpdate('storage_vessels');
+  triggerTopicUpdate('wine_batches');
+  return { success: true, operation, batch: treated, lostLitres: getBatchVolumeLitres(batch) - (treated.volumeLitres ?? 0) };
+}
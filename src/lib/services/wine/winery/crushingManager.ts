@@ -1,13 +1,15 @@
 import { WineBatch } from '../../../types/types';
 import { WorkCategory } from '../../../types/types';
 import { activitiesFeature } from '@/lib/features/activities';
-import { CrushingOptions } from '../characteristics/crushingCharacteristics';
-import { assertBatchHasUsableStorage } from './storageVesselAllocationService';
+import { CrushingOptions, getSaigneeSplit, SAIGNEE_MAX_SHARE } from '../characteristics/crushingCharacteristics';
+import { assertBatchHasUsableStorage, createStorageAllocationPlan, getRequiredStorageLitres, releaseStorageAllocationPlan } from './storageVesselAllocationService';
 import { isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Crushing Manager
- * Handles crushing workflow, validation, and activity creation
+ * Handles crushing workflow, validation, and activity creation.
+ * Saignée reserves Storage Vessels for the bled-off rosé when crushing starts; the split happens on completion.
  */
 
 /**
@@ -29,14 +31,46 @@ export function validateCrushingActivity(batch: WineBatch, options: CrushingOpti
   if (!validMethods.includes(options.method)) {
     return { valid: false, reason: 'Invalid crushing method selected' };
   }
+
+  if (options.skinContact !== 'full' && batch.grapeColor !== 'red') {
+    return { valid: false, reason: 'Only red grapes can be pressed off their skins early' };
+  }
+
+  if (options.saigneeShare < 0 || options.saigneeShare > SAIGNEE_MAX_SHARE) {
+    return { valid: false, reason: `Saignée can bleed off at most ${SAIGNEE_MAX_SHARE * 100}% of the must` };
+  }
+
+  if (options.saigneeShare > 0 && (batch.grapeColor !== 'red' || options.skinContact !== 'full')) {
+    return { valid: false, reason: 'Saignée bleeds rosé from a red must with full skin contact' };
+  }
+
+  if (options.saigneeShare > 0) {
+    const { bleed, remaining } = getSaigneeSplit(batch.quantity, getRequiredStorageLitres(batch), options.saigneeShare);
+    if (bleed.quantity < 1 || bleed.volumeLitres < 1 || remaining.quantity < 1) {
+      return { valid: false, reason: 'This batch is too small to bleed off a saignée rosé' };
+    }
+  }
   
   return { valid: true };
 }
 
 /**
- * Start crushing activity for a wine batch
+ * Litres of rosé a saignée crush bleeds off, or 0 without saignée
  */
-export async function startCrushingActivity(batch: WineBatch, options: CrushingOptions): Promise<{ success: boolean; error?: string }> {
+export function getSaigneeStorageLitres(batch: WineBatch, options: CrushingOptions): number {
+  if (options.saigneeShare <= 0) return 0;
+  return getSaigneeSplit(batch.quantity, getRequiredStorageLitres(batch), options.saigneeShare).bleed.volumeLitres;
+}
+
+/**
+ * Start crushing activity for a wine batch.
+ * `saigneeVesselIds` hold the bled-off rosé and are required when the options include saignée.
+ */
+export async function startCrushingActivity(
+  batch: WineBatch,
+  options: CrushingOptions,
+  saigneeVesselIds: string[] = []
+): Promise<{ success: boolean; error?: string }> {
   try {
     if (isBatchEmptyingInProgress(batch.id)) {
       return { success: false, error: 'This batch is scheduled to be emptied.' };
@@ -54,13 +88,19 @@ export async function startCrushingActivity(batch: WineBatch, options: CrushingO
     // Calculate work and cost
     const { totalWork, cost } = activitiesFeature.work.calculateCrushing(batch, options);
     
-    // Create the crushing activity
-    const activityId = await activitiesFeature.lifecycle.create({
+    const saigneeLitres = getSaigneeStorageLitres(batch, options);
+    if (saigneeLitres > 0 && saigneeVesselIds.length === 0) {
+      return { success: false, error: 'Select Storage Vessels for the saignée rosé.' };
+    }
+
+    const activityOptions = {
       category: WorkCategory.CRUSHING,
       title: `Crushing ${batch.grape} from ${batch.vineyardName}`,
       targetId: batch.vineyardId,
       totalWork,
-      activityDetails: `Method: ${options.method}`,
+      activityDetails: saigneeLitres > 0
+        ? `Method: ${options.method}, saignée: ${saigneeLitres} L rosé`
+        : `Method: ${options.method}`,
       params: {
         batchId: batch.id,
         vineyardName: batch.vineyardName,
@@ -69,10 +109,36 @@ export async function startCrushingActivity(batch: WineBatch, options: CrushingO
         cost
       },
       isCancellable: true
+    };
+
+    // Create the crushing activity
+    if (saigneeLitres <= 0) {
+      const activityId = await activitiesFeature.lifecycle.create(activityOptions);
+      if (!activityId) {
+        return { success: false, error: 'Failed to create crushing activity' };
+      }
+      return { success: true };
+    }
+
+    // Saignée: reserve the rosé vessels against a paused activity, then start it
+    const creation = await activitiesFeature.lifecycle.createWithResult({ ...activityOptions, initialStatus: 'paused' });
+    if (!creation.activityId) {
+      return { success: false, error: creation.reason || 'Failed to create crushing activity' };
+    }
+    const storagePlan = await createStorageAllocationPlan({
+      requiredLitres: saigneeLitres,
+      vesselIds: saigneeVesselIds,
+      activityId: creation.activityId
     });
-    
-    if (!activityId) {
-      return { success: false, error: 'Failed to create crushing activity' };
+    const activated = storagePlan.planId && await activitiesFeature.lifecycle.activate(creation.activityId, {
+      ...activityOptions.params,
+      storagePlanId: storagePlan.planId,
+      saigneeBatchId: uuidv4()
+    });
+    if (!activated) {
+      if (storagePlan.planId) await releaseStorageAllocationPlan(storagePlan.planId);
+      await activitiesFeature.lifecycle.cancel(creation.activityId);
+      return { success: false, error: storagePlan.error || 'Could not reserve Storage Vessels for the saignée rosé.' };
     }
     
     return { success: true };
@@ -1,20 +1,26 @@
-import { WineBatch } from '../../../types/types';
-import { bottleStorageBackedWineBatch, loadWineBatches, bulkUpdateWineBatches, updateWineBatch } from '../../../database/activities/inventoryDB';
+import { BottleClosure, BottleFormat, WineBatch } from '../../../types/types';
+import { bottlePartOfStorageBackedWineBatch, bottleStorageBackedWineBatch, loadWineBatches, bulkUpdateWineBatches, updateWineBatch } from '../../../database/activities/inventoryDB';
 import { getGameState } from '../../core/gameState';
 import { wineLogFeature } from '@/lib/features/wineLog';
 import { processEventTrigger } from '../features/featureService';
 import { activitiesFeature } from '@/lib/features/activities';
 import { WorkCategory } from '@/lib/types/types';
-import { FermentationOptions, applyWeeklyFermentationEffects } from '../characteristics/fermentationCharacteristics';
+import { FermentationOptions, applyWeeklyFermentationEffects, getFermentationDecisionInfo, getSelectedFermentationDecisions } from '../characteristics/fermentationCharacteristics';
 import { resolveWineAnchors } from '../anchors/wineAnchorService';
 import { getAnchorAdjustedStructureRanges } from '../anchors/wineAnchorCharacteristicBridge';
 import { calculateStructureIndex, RANGE_ADJUSTMENTS, RULES } from '../../../wineStructure';
 import { BASE_BALANCED_RANGES } from '../../../constants/grapeConstants';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS, DEFAULT_BOTTLE_CLOSURE, DEFAULT_BOTTLE_FORMAT } from '../../../constants/bottlingConstants';
+import { TRANSACTION_CATEGORIES } from '../../../constants/financeConstants';
+import { addTransaction } from '../../finance/financeService';
 import { calculateWineScore, getTasteQualityIndex } from '../winescore/wineScoreCalculation';
-import { applyWeeklyFermentationContactToWineAnchors } from '../anchors/wineAnchorProcess';
+import { applyFermentationDecisionsToWineAnchors, applyWeeklyFermentationContactToWineAnchors } from '../anchors/wineAnchorProcess';
 import { diffAnchorEffects } from '../debug/wineAnchorEffectUtils';
-import { assertBatchHasUsableStorage } from './storageVesselAllocationService';
-import { isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+import { assertBatchHasUsableStorage, initializeHarvestVolumeLitres } from './storageVesselAllocationService';
+import { isBatchBlendingInProgress, isBatchCellarOperationInProgress, isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+import { getWineBatchDisplayName } from './inventoryService';
+import { buildSplitWineBatch } from './batchSplitManager';
+import { isBatchSparklingInProgress } from './sparklingManager';
 import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
 import { triggerGameUpdate } from '@/hooks/useGameUpdates';
 
@@ -34,6 +40,12 @@ export async function startFermentationActivity(
     if (isBatchEmptyingInProgress(batch.id)) {
       return { success: false, error: 'This batch is scheduled to be emptied.' };
     }
+    if (isBatchBlendingInProgress(batch.id)) {
+      return { success: false, error: 'This batch is part of a pending blend.' };
+    }
+    if (isBatchCellarOperationInProgress(batch.id)) {
+      return { success: false, error: 'This batch has a cellar operation in progress.' };
+    }
     // Validate batch state
     if (batch.state !== 'must_ready') {
       return { success: false, error: 'Batch must be in must_ready stage for fermentation' };
@@ -51,7 +63,10 @@ export async function startFermentationActivity(
       category: WorkCategory.FERMENTATION,
       title: `Fermentation Setup - ${batch.grape},  ${batch.harvestStartDate.year}, ${batch.vineyardName}`,
       totalWork,
-      activityDetails: `Method: ${options.method}, Temperature: ${options.temperature}`,
+      activityDetails: [
+        `Method: ${options.method}, Temperature: ${options.temperature}`,
+        ...getSelectedFermentationDecisions(options).map(decision => getFermentationDecisionInfo()[decision].label)
+      ].join(', '),
       targetId: batch.id,
       params: {
         batchId: batch.id,
@@ -70,20 +85,56 @@ export async function startFermentationActivity(
   }
 }
 
+export interface BottlingOptions {
+  format: BottleFormat;
+  closure: BottleClosure;
+  volumeLitres?: number; // Litres to bottle; the whole batch when omitted
+}
+
+export const DEFAULT_BOTTLING_OPTIONS: BottlingOptions = {
+  format: DEFAULT_BOTTLE_FORMAT,
+  closure: DEFAULT_BOTTLE_CLOSURE
+};
+
+/**
+ * Bottles filled from the bottled volume and the packaging bill for the chosen format and closure.
+ * Bottling less than the whole batch is partial: the rest stays in its Storage Vessels.
+ */
+export function calculateBottlingPlan(batch: WineBatch, options: BottlingOptions): { bottles: number; packagingCost: number; volumeLitres: number; partial: boolean } {
+  const format = BOTTLE_FORMATS[options.format];
+  const batchVolumeLitres = batch.volumeLitres ?? initializeHarvestVolumeLitres(batch.quantity);
+  // Less than a litre left over is bottled with the rest rather than kept as its own batch
+  const requestedLitres = Math.max(0, options.volumeLitres ?? batchVolumeLitres);
+  const partial = batchVolumeLitres - requestedLitres >= 1;
+  const volumeLitres = partial ? requestedLitres : batchVolumeLitres;
+  const bottles = Math.floor(volumeLitres / format.litresPerBottle);
+  const packagingCost = Math.round(bottles * (format.packagingCostPerBottle + BOTTLE_CLOSURES[options.closure].costPerBottle) * 100) / 100;
+  return { bottles, packagingCost, volumeLitres, partial };
+}
+
 /**
  * Bottling: Complete wine production (updated for new fermentation system)
+ * The bottle count follows the bottled volume and the chosen format; packaging is charged on success.
+ * Partial bottling moves the bottles into a new batch of the same lot while the rest keeps maturing.
  */
-export async function bottleWine(batchId: string): Promise<boolean> {
+export async function bottleWine(batchId: string, options: BottlingOptions = DEFAULT_BOTTLING_OPTIONS): Promise<boolean> {
   const batches = await loadWineBatches();
   const batch = batches.find(b => b.id === batchId);
 
-  // Updated to accept must_fermenting state (no wine_aging state)
-  if (!batch || batch.state !== 'must_fermenting') {
+  // Wine can be bottled straight from fermentation or after vessel maturation
+  if (!batch || (batch.state !== 'must_fermenting' && batch.state !== 'maturing')) {
     return false;
   }
-  if (isBatchEmptyingInProgress(batch.id)) return false;
+  if (isBatchEmptyingInProgress(batch.id) || isBatchBlendingInProgress(batch.id) || isBatchCellarOperationInProgress(batch.id) || isBatchSparklingInProgress(batch.id)) return false;
+  const { bottles, packagingCost, volumeLitres, partial } = calculateBottlingPlan(batch, options);
+  if (bottles < 1) return false;
 
   const gameState = getGameState();
+  const bottledDate = {
+    week: gameState.week || 1,
+    season: gameState.season || 'Spring',
+    year: gameState.currentYear || 2024
+  };
 
   // Calculate wine score at bottling for snapshot
   const wineScoreBottlingSnapshot = calculateWineScore(batch);
@@ -93,55 +144,95 @@ export async function bottleWine(batchId: string): Promise<boolean> {
   // Preserve all wine batch values and update necessary fields + create bottling snapshots
   const companyId = getCurrentCompanyId();
   if (!companyId) return false;
-  const success = await bottleStorageBackedWineBatch({
-    companyId,
-    batchId,
-    quantity: batch.quantity / 1.5,
-    bottledWeek: gameState.week || 1,
-    bottledSeason: gameState.season || 'Spring',
-    bottledYear: gameState.currentYear || 2024,
-    tasteQualityIndexBottlingSnapshot,
-    landValueModifierBottlingSnapshot,
-    structureIndexBottlingSnapshot: batch.structureIndex,
-    wineScoreBottlingSnapshot,
-  });
+  const bottledBatch = partial
+    ? buildSplitWineBatch(batch, volumeLitres, {
+      quantity: bottles,
+      state: 'bottled',
+      storagePlanId: undefined,
+      bottleFormat: options.format,
+      bottleClosure: options.closure,
+      bottledDate,
+      tasteQualityIndexBottlingSnapshot,
+      landValueModifierBottlingSnapshot,
+      structureIndexBottlingSnapshot: batch.structureIndex,
+      wineScoreBottlingSnapshot
+    })
+    : null;
+  const success = bottledBatch
+    ? await bottlePartOfStorageBackedWineBatch({
+      companyId,
+      batchId,
+      bottledBatch,
+      releasedYear: bottledDate.year,
+      releasedSeason: bottledDate.season,
+      releasedWeek: bottledDate.week
+    })
+    : await bottleStorageBackedWineBatch({
+      companyId,
+      batchId,
+      quantity: bottles,
+      bottledWeek: bottledDate.week,
+      bottledSeason: bottledDate.season,
+      bottledYear: bottledDate.year,
+      tasteQualityIndexBottlingSnapshot,
+      landValueModifierBottlingSnapshot,
+      structureIndexBottlingSnapshot: batch.structureIndex,
+      wineScoreBottlingSnapshot,
+      bottleFormat: options.format,
+      bottleClosure: options.closure,
+    });
 
   // Record the bottled wine in the production log and trigger bottling events
   if (success) {
-    triggerGameUpdate();
-    try {
-      // Get the updated batch to record in the log
-      const updatedBatches = await loadWineBatches();
-      const bottledBatch = updatedBatches.find(b => b.id === batchId);
-
-      if (bottledBatch && bottledBatch.state === 'bottled') {
-        await wineLogFeature.records.recordBottledWine(bottledBatch);
-
-        // Trigger bottling event for wine features (e.g., bottle aging)
-        const batchWithEventFeatures = await processEventTrigger(bottledBatch, 'bottling', {});
-
-        // Update batch if features modified characteristics or breakdown
-        if (batchWithEventFeatures.characteristics !== bottledBatch.characteristics ||
-          batchWithEventFeatures.breakdown !== bottledBatch.breakdown ||
-          batchWithEventFeatures.tasteQualityIndex !== bottledBatch.tasteQualityIndex) {
-          const updatedTasteQuality = getTasteQualityIndex(batchWithEventFeatures);
-          await updateWineBatch(batchId, {
-            characteristics: batchWithEventFeatures.characteristics,
-            breakdown: batchWithEventFeatures.breakdown,
-            tasteQualityIndex: updatedTasteQuality,
-            features: batchWithEventFeatures.features
-          });
-        }
-      }
-    } catch (error) {
-      console.error('Failed to record bottled wine in production log:', error);
-      // Don't fail the bottling process if logging fails
+    if (packagingCost > 0) {
+      await addTransaction(
+        -packagingCost,
+        `${bottles} ${BOTTLE_FORMATS[options.format].label} with ${BOTTLE_CLOSURES[options.closure].label.toLowerCase()} for ${getWineBatchDisplayName(batch)}`,
+        TRANSACTION_CATEGORIES.PACKAGING
+      );
     }
+    triggerGameUpdate();
+    await recordBottledWineBatch(bottledBatch?.id ?? batchId);
   }
 
   return success;
 }
 
+/**
+ * Record a freshly bottled batch in the production log and trigger bottling events
+ * Shared by still-wine bottling and sparkling disgorgement
+ */
+export async function recordBottledWineBatch(batchId: string): Promise<void> {
+  try {
+    // Get the updated batch to record in the log
+    const updatedBatches = await loadWineBatches();
+    const bottledBatch = updatedBatches.find(b => b.id === batchId);
+
+    if (bottledBatch && bottledBatch.state === 'bottled') {
+      await wineLogFeature.records.recordBottledWine(bottledBatch);
+
+      // Trigger bottling event for wine features (e.g., bottle aging)
+      const batchWithEventFeatures = await processEventTrigger(bottledBatch, 'bottling', {});
+
+      // Update batch if features modified characteristics or breakdown
+      if (batchWithEventFeatures.characteristics !== bottledBatch.characteristics ||
+        batchWithEventFeatures.breakdown !== bottledBatch.breakdown ||
+        batchWithEventFeatures.tasteQualityIndex !== bottledBatch.tasteQualityIndex) {
+        const updatedTasteQuality = getTasteQualityIndex(batchWithEventFeatures);
+        await updateWineBatch(batchId, {
+          characteristics: batchWithEventFeatures.characteristics,
+          breakdown: batchWithEventFeatures.breakdown,
+          tasteQualityIndex: updatedTasteQuality,
+          features: batchWithEventFeatures.features
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Failed to record bottled wine in production log:', error);
+    // Don't fail the bottling process if logging fails
+  }
+}
+
 /**
  * Check if fermentation action is available for a batch (updated for new system)
  */
@@ -165,7 +256,7 @@ export function isFermentationActionAvailable(batch: WineBatch, action: 'ferment
       return !hasActiveFermentation;
 
     case 'bottle':
-      return batch.state === 'must_fermenting'; // Updated: no wine_aging state
+      return batch.state === 'must_fermenting' || batch.state === 'maturing';
     default:
       return false;
   }
@@ -196,19 +287,28 @@ export async function processWeeklyFermentation(): Promise<void> {
         baseCharacteristics: batch.characteristics,
         method: batch.fermentationOptions.method,
         temperature: batch.fermentationOptions.temperature,
-        wineAnchors: resolveWineAnchors(batch.wineAnchors)
+        wineAnchors: resolveWineAnchors(batch.wineAnchors),
+        decisions: getSelectedFermentationDecisions(batch.fermentationOptions)
       });
 
       const anchorsBeforeWeeklyContact = resolveWineAnchors(batch.wineAnchors);
-      const wineAnchors = applyWeeklyFermentationContactToWineAnchors(
+      const anchorsAfterWeeklyContact = applyWeeklyFermentationContactToWineAnchors(
         anchorsBeforeWeeklyContact,
         batch.fermentationOptions
       );
-      const weeklyAnchorEffects = diffAnchorEffects(
-        anchorsBeforeWeeklyContact,
-        wineAnchors,
-        'Weekly fermentation contact'
+      const { wineAnchors, anchorEffects: decisionAnchorEffects } = applyFermentationDecisionsToWineAnchors(
+        anchorsAfterWeeklyContact,
+        batch.fermentationOptions,
+        'weekly'
       );
+      const weeklyAnchorEffects = [
+        ...diffAnchorEffects(
+          anchorsBeforeWeeklyContact,
+          anchorsAfterWeeklyContact,
+          'Weekly fermentation contact'
+        ),
+        ...decisionAnchorEffects
+      ];
 
       const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
       const structureIndexResult = calculateStructureIndex(
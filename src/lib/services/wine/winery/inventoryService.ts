@@ -19,6 +19,8 @@ import { REGION_ALTITUDE_RANGES } from '../../../constants/vineyardConstants';
 import { initializeBatchFeatures, processEventTrigger, simulateMarketFeatureLifecycle, type ProcessEventTriggerOptions } from '../features/featureService';
 import { SEASON_ORDER, WEEKS_PER_SEASON, WEEKS_PER_YEAR } from '@/lib/constants/timeConstants';
 import { calculateGrapeSuitabilityMetrics } from '../../vineyard/vineyardValueCalc';
+import { getFarmingCertification } from '../../vineyard/farmingService';
+import { getPlantingMaterialEffects } from '../../vineyard/plantingMaterialService';
 import {
   combineWineAnchorSets,
   computeHarvestWineAnchors,
@@ -27,9 +29,14 @@ import {
 } from '../anchors/wineAnchorService';
 import { getAnchorAdjustedStructureRanges } from '../anchors/wineAnchorCharacteristicBridge';
 import { appendAnchorEffects, buildAnchorEffectsFromNeutral, diffAnchorEffects } from '../debug/wineAnchorEffectUtils';
-import { CrushingOptions, modifyCrushingCharacteristics } from '../characteristics/crushingCharacteristics';
-import { FermentationOptions, applyWeeklyFermentationEffects } from '../characteristics/fermentationCharacteristics';
-import { applyCrushingToWineAnchors, applyFermentationSetupToWineAnchors, applyWeeklyFermentationContactToWineAnchors } from '../anchors/wineAnchorProcess';
+import { CrushingOptions, getCrushingWineStyle, modifyCrushingCharacteristics } from '../characteristics/crushingCharacteristics';
+import { FermentationOptions, applyWeeklyFermentationEffects, getSelectedFermentationDecisions } from '../characteristics/fermentationCharacteristics';
+import {
+  applyCrushingToWineAnchors,
+  applyFermentationDecisionsToWineAnchors,
+  applyFermentationSetupToWineAnchors,
+  applyWeeklyFermentationContactToWineAnchors
+} from '../anchors/wineAnchorProcess';
 import { activateStoragePlanForBatch, canStoragePlanHoldVolume, initializeHarvestVolumeLitres } from './storageVesselAllocationService';
 
 const DEFAULT_TASTE_QUALITY_INDEX = 0.5;
@@ -200,6 +207,7 @@ async function buildHarvestStageBatch(input: BuildHarvestStageBatchInput): Promi
     id: uuidv4(),
     vineyardId,
     vineyardName,
+    parcelName: vineyard.parcelName,
     grape,
     quantity,
     state: 'grapes',
@@ -217,9 +225,11 @@ async function buildHarvestStageBatch(input: BuildHarvestStageBatchInput): Promi
     },
     estimatedPrice: 0,
     grapeColor: grapeMetadata.grapeColor,
-    naturalYield: grapeMetadata.naturalYield,
+    wineStyle: grapeMetadata.grapeColor,
+    naturalYield: grapeMetadata.naturalYield * getPlantingMaterialEffects(vineyard).naturalYieldMultiplier,
     fragile: grapeMetadata.fragile,
     proneToOxidation: grapeMetadata.proneToOxidation,
+    farmingCertification: getFarmingCertification(vineyard) ?? undefined,
     features: initializeBatchFeatures(),
     originSnapshot: originSnapshot ? cloneJsonValue(originSnapshot) : undefined,
     harvestStartDate,
@@ -314,7 +324,8 @@ async function applyCrushingProfileToBatch(
       structureIndex: structureIndexResult.score,
       wineAnchors
     }),
-    wineAnchors
+    wineAnchors,
+    wineStyle: getCrushingWineStyle(batch.grapeColor, crushingOptions.skinContact)
   };
 
   if (batchAfterCrush.originSnapshot) {
@@ -345,15 +356,23 @@ async function applyFermentationSetupToBatch(
   );
 
   const anchorsBeforeSetup = resolveWineAnchors(batchWithEventFeatures.wineAnchors);
-  const wineAnchors = applyFermentationSetupToWineAnchors(
+  const anchorsAfterSetup = applyFermentationSetupToWineAnchors(
     anchorsBeforeSetup,
     fermentationOptions
   );
-  const setupAnchorEffects = diffAnchorEffects(
-    anchorsBeforeSetup,
-    wineAnchors,
-    `Fermentation setup (${fermentationOptions.method}, ${fermentationOptions.temperature})`
+  const { wineAnchors, anchorEffects: decisionAnchorEffects } = applyFermentationDecisionsToWineAnchors(
+    anchorsAfterSetup,
+    fermentationOptions,
+    'setup'
   );
+  const setupAnchorEffects = [
+    ...diffAnchorEffects(
+      anchorsBeforeSetup,
+      anchorsAfterSetup,
+      `Fermentation setup (${fermentationOptions.method}, ${fermentationOptions.temperature})`
+    ),
+    ...decisionAnchorEffects
+  ];
 
   const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
   const structureIndexResult = calculateStructureIndex(
@@ -400,19 +419,28 @@ function applyFermentationContactWeeks(
       baseCharacteristics: current.characteristics,
       method: current.fermentationOptions.method,
       temperature: current.fermentationOptions.temperature,
-      wineAnchors: resolveWineAnchors(current.wineAnchors)
+      wineAnchors: resolveWineAnchors(current.wineAnchors),
+      decisions: getSelectedFermentationDecisions(current.fermentationOptions)
     });
 
     const anchorsBeforeWeeklyContact = resolveWineAnchors(current.wineAnchors);
-    const wineAnchors = applyWeeklyFermentationContactToWineAnchors(
+    const anchorsAfterWeeklyContact = applyWeeklyFermentationContactToWineAnchors(
       anchorsBeforeWeeklyContact,
       current.fermentationOptions
     );
-    const weeklyAnchorEffects = diffAnchorEffects(
-      anchorsBeforeWeeklyContact,
-      wineAnchors,
-      'Weekly fermentation contact'
+    const { wineAnchors, anchorEffects: decisionAnchorEffects } = applyFermentationDecisionsToWineAnchors(
+      anchorsAfterWeeklyContact,
+      current.fermentationOptions,
+      'weekly'
     );
+    const weeklyAnchorEffects = [
+      ...diffAnchorEffects(
+        anchorsBeforeWeeklyContact,
+        anchorsAfterWeeklyContact,
+        'Weekly fermentation contact'
+      ),
+      ...decisionAnchorEffects
+    ];
     const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
     const structureIndexResult = calculateStructureIndex(
       newCharacteristics,
@@ -786,8 +814,21 @@ const getBatchSuffix = (batch: WineBatch): string | null => {
   return `Batch ${batchNumber}/${groupSize}`;
 };
 
+/** Multi-varietal blends are named after their varieties, largest share first. */
+export function getBatchGrapeLabel(batch: WineBatch): string {
+  const shareByGrape = new Map<string, number>();
+  for (const component of batch.blendComponents ?? []) {
+    shareByGrape.set(component.grape, (shareByGrape.get(component.grape) ?? 0) + component.share);
+  }
+  if (shareByGrape.size <= 1) {
+    return batch.grape;
+  }
+  const grapes = [...shareByGrape.entries()].sort((a, b) => b[1] - a[1]).map(([grape]) => grape);
+  return `${grapes.join('-')} Blend`;
+}
+
 export function getWineBatchDisplayName(batch: WineBatch): string {
-  const baseName = `${batch.grape} - ${batch.vineyardName}`;
+  const baseName = `${getBatchGrapeLabel(batch)} - ${batch.vineyardName}`;
   const suffix = getBatchSuffix(batch);
   return suffix ? `${baseName} (${suffix})` : baseName;
 }
@@ -828,7 +869,7 @@ export async function consumeInventoryBatchQuantity(batchId: string, quantity: n
 // Format completed wine name
 export function formatCompletedWineName(batch: WineBatch): string {
   if (batch.state === 'bottled') {
-    const baseName = `${batch.grape}, ${batch.vineyardName}, ${batch.harvestStartDate.year}`;
+    const baseName = `${getBatchGrapeLabel(batch)}, ${batch.vineyardName}, ${batch.harvestStartDate.year}`;
     const suffix = getBatchSuffix(batch);
     return suffix ? `${baseName} (${suffix})` : baseName;
   }
@@ -0,0 +1,150 @@
+import { WineBatch } from '../../../types/types';
+import { bulkUpdateWineBatches, loadWineBatches, updateWineBatch } from '../../../database/activities/inventoryDB';
+import { getCompanyStorageAllocations, getCompanyStorageVessels } from '../../../database/winery/storageVesselsDB';
+import { applyWeeklyMaturationEffects, getMaturationVesselProfile, MaturationVesselProfile } from '../characteristics/maturationCharacteristics';
+import { resolveWineAnchors } from '../anchors/wineAnchorService';
+import { getAnchorAdjustedStructureRanges } from '../anchors/wineAnchorCharacteristicBridge';
+import { applyWeeklyMaturationToWineAnchors } from '../anchors/wineAnchorProcess';
+import { calculateStructureIndex, RANGE_ADJUSTMENTS, RULES } from '../../../wineStructure';
+import { BASE_BALANCED_RANGES } from '../../../constants/grapeConstants';
+import { getTasteQualityIndex } from '../winescore/wineScoreCalculation';
+import { diffAnchorEffects } from '../debug/wineAnchorEffectUtils';
+import { assertBatchHasUsableStorage } from './storageVesselAllocationService';
+import { isBatchBlendingInProgress, isBatchCellarOperationInProgress, isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+import { isBatchSparklingInProgress } from './sparklingManager';
+import { getGameState } from '../../core/gameState';
+import { STORAGE_VESSEL_IMPRINT_RELEASE_WEEKS } from '@/lib/constants/storageVesselConstants';
+import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
+import { triggerGameUpdate } from '@/hooks/useGameUpdates';
+
+/**
+ * Maturation Manager
+ * Handles the post-fermentation stage where wine matures in its Storage Vessels before bottling
+ */
+
+/**
+ * Vessel profiles for every storage-backed batch, weighted by each vessel's filled litres
+ */
+export async function getMaturationVesselProfiles(): Promise<Record<string, MaturationVesselProfile>> {
+  const companyId = getCurrentCompanyId();
+  if (!companyId) return {};
+  const [batches, vesselsResult, allocationsResult] = await Promise.all([
+    loadWineBatches(),
+    getCompanyStorageVessels(companyId),
+    getCompanyStorageAllocations(companyId)
+  ]);
+  if (vesselsResult.error || allocationsResult.error) return {};
+
+  const { week = 1, season = 'Spring', currentYear = 2024 } = getGameState();
+  const date = { week, season, year: currentYear };
+  const vesselsById = new Map(vesselsResult.data.map(vessel => [vessel.id, vessel]));
+  const profiles: Record<string, MaturationVesselProfile> = {};
+  for (const batch of batches) {
+    if (!batch.storagePlanId) continue;
+    const fills = allocationsResult.data
+      .filter(allocation => allocation.planId === batch.storagePlanId && !allocation.releasedAt)
+      .flatMap(allocation => {
+        const vessel = vesselsById.get(allocation.vesselId);
+        return vessel ? [{ vessel, litres: allocation.filledLitres }] : [];
+      });
+    profiles[batch.id] = getMaturationVesselProfile(fills, date);
+  }
+  return profiles;
+}
+
+/**
+ * Vessel profile that applies this week: vessel memory is released during the
+ * first weeks of maturation only, which keeps its total influence bounded
+ */
+export function getWeeklyMaturationProfile(batch: WineBatch, profile: MaturationVesselProfile): MaturationVesselProfile {
+  return (batch.maturationWeeks || 0) < STORAGE_VESSEL_IMPRINT_RELEASE_WEEKS ? profile : { ...profile, imprint: undefined };
+}
+
+/**
+ * Check if a fermenting batch can move into vessel maturation
+ */
+export function isMaturationActionAvailable(batch: WineBatch): boolean {
+  return batch.state === 'must_fermenting'
+    && !isBatchEmptyingInProgress(batch.id)
+    && !isBatchBlendingInProgress(batch.id)
+    && !isBatchCellarOperationInProgress(batch.id)
+    && !isBatchSparklingInProgress(batch.id);
+}
+
+/**
+ * Start Maturation: finish fermentation and leave the wine to mature in its Storage Vessels
+ */
+export async function startMaturation(batchId: string): Promise<{ success: boolean; error?: string }> {
+  const batches = await loadWineBatches();
+  const batch = batches.find(b => b.id === batchId);
+  if (!batch || batch.state !== 'must_fermenting') {
+    return { success: false, error: 'Only fermenting wine can start maturation.' };
+  }
+  if (!isMaturationActionAvailable(batch)) {
+    return { success: false, error: 'This batch is locked by a pending Storage Vessel task.' };
+  }
+  const storageValidation = await assertBatchHasUsableStorage(batch);
+  if (!storageValidation.valid) {
+    return { success: false, error: storageValidation.reason };
+  }
+
+  const success = await updateWineBatch(batchId, { state: 'maturing', maturationWeeks: 0 });
+  if (!success) return { success: false, error: 'Failed to start maturation.' };
+  triggerGameUpdate();
+  return { success: true };
+}
+
+/**
+ * Process weekly maturation effects for all maturing batches
+ * Called by game tick system
+ */
+export async function processWeeklyMaturation(): Promise<void> {
+  try {
+    const batches = await loadWineBatches();
+    const maturingBatches = batches.filter(batch => batch.state === 'maturing' && batch.quantity > 0);
+    if (maturingBatches.length === 0) return;
+
+    const profiles = await getMaturationVesselProfiles();
+    const updates: Array<{ id: string; updates: Partial<WineBatch> }> = [];
+
+    for (const batch of maturingBatches) {
+      const vesselProfile = profiles[batch.id];
+      if (!vesselProfile) continue;
+      const profile = getWeeklyMaturationProfile(batch, vesselProfile);
+
+      const anchorsBeforeMaturation = resolveWineAnchors(batch.wineAnchors);
+      const { characteristics, effects } = applyWeeklyMaturationEffects({
+        baseCharacteristics: batch.characteristics,
+        profile,
+        wineAnchors: anchorsBeforeMaturation
+      });
+      const wineAnchors = applyWeeklyMaturationToWineAnchors(anchorsBeforeMaturation, profile);
+      const weeklyAnchorEffects = diffAnchorEffects(anchorsBeforeMaturation, wineAnchors, 'Vessel maturation');
+
+      const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
+      const structureIndex = calculateStructureIndex(characteristics, structureRanges, RANGE_ADJUSTMENTS, RULES).score;
+      const tasteQualityIndex = getTasteQualityIndex({ ...batch, characteristics, structureIndex, wineAnchors });
+
+      updates.push({
+        id: batch.id,
+        updates: {
+          characteristics,
+          structureIndex,
+          tasteQualityIndex,
+          wineAnchors,
+          maturationWeeks: (batch.maturationWeeks || 0) + 1,
+          breakdown: {
+            effects: [...(batch.breakdown?.effects || []), ...effects],
+            anchorEffects: [...(batch.breakdown?.anchorEffects || []), ...weeklyAnchorEffects]
+          }
+        }
+      });
+    }
+
+    if (updates.length > 0) {
+      await bulkUpdateWineBatches(updates);
+    }
+  } catch (error) {
+    console.error('Error processing weekly maturation:', error);
+  }
+}
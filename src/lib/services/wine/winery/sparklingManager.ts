@@ -0,0 +1,299 @@
+import { Activity, SparklingDosage, WineBatch, WorkCategory } from '../../../types/types';
+import { bulkUpdateWineBatches, loadWineBatches, tirageStorageBackedWineBatch, updateWineBatch } from '../../../database/activities/inventoryDB';
+import { getGameState } from '../../core/gameState';
+import { addTransaction } from '../../finance/financeService';
+import { activitiesFeature } from '@/lib/features/activities';
+import { applyDosage, applyWeeklyTirageEffects } from '../characteristics/sparklingCharacteristics';
+import { resolveWineAnchors } from '../anchors/wineAnchorService';
+import { getAnchorAdjustedStructureRanges } from '../anchors/wineAnchorCharacteristicBridge';
+import { applyWeeklyTirageToWineAnchors } from '../anchors/wineAnchorProcess';
+import { calculateStructureIndex, RANGE_ADJUSTMENTS, RULES } from '../../../wineStructure';
+import { BASE_BALANCED_RANGES } from '../../../constants/grapeConstants';
+import { SPARKLING_BOTTLE_CLOSURE, SPARKLING_BOTTLE_FORMAT, SPARKLING_DISGORGEMENT_LOSS, SPARKLING_DOSAGES, SPARKLING_MIN_TIRAGE_WEEKS, type SparklingStep } from '../../../constants/sparklingConstants';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS } from '../../../constants/bottlingConstants';
+import { TRANSACTION_CATEGORIES } from '../../../constants/financeConstants';
+import { calculateWineScore, getTasteQualityIndex } from '../winescore/wineScoreCalculation';
+import { diffAnchorEffects } from '../debug/wineAnchorEffectUtils';
+import { recordBottledWineBatch } from './fermentationManager';
+import { assertBatchHasUsableStorage } from './storageVesselAllocationService';
+import { isBatchBlendingInProgress, isBatchCellarOperationInProgress, isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+import { getWineBatchDisplayName } from './inventoryService';
+import { getCurrentCompanyId } from '@/lib/utils/companyUtils';
+import { triggerGameUpdate } from '@/hooks/useGameUpdates';
+
+/**
+ * Sparkling Manager
+ * Handles the Traditional Method: tirage of a base wine, lees aging in bottle,
+ * riddling and disgorgement into a finished, bottled sparkling wine
+ */
+
+const SPARKLING_ACTIVITY_TYPES: Record<SparklingStep, string> = {
+  tirage: 'sparkling_tirage',
+  riddling: 'sparkling_riddling',
+  disgorgement: 'sparkling_disgorgement'
+};
+
+const STEP_LABELS: Record<SparklingStep, string> = {
+  tirage: 'Tirage',
+  riddling: 'Riddling',
+  disgorgement: 'Disgorgement'
+};
+
+export interface SparklingStepResult {
+  success: boolean;
+  error?: string;
+  step?: SparklingStep;
+  batch?: WineBatch;
+}
+
+/** Sparkling step of a FERMENTATION activity, or null for a regular fermentation setup. */
+export function getSparklingActivityStep(activity: Pick<Activity, 'params'>): SparklingStep | null {
+  const entry = Object.entries(SPARKLING_ACTIVITY_TYPES).find(([, type]) => type === activity.params.type);
+  return entry ? entry[0] as SparklingStep : null;
+}
+
+/** A batch with a pending sparkling step is locked for other production actions. */
+export function isBatchSparklingInProgress(batchId: string): boolean {
+  return (getGameState().activities ?? []).some((activity) =>
+    (activity.status === 'active' || activity.status === 'paused')
+    && activity.category === WorkCategory.FERMENTATION
+    && getSparklingActivityStep(activity) !== null
+    && activity.params.batchId === batchId
+  );
+}
+
+/**
+ * Check whether a batch is at the right stage for a sparkling step
+ */
+export function validateSparklingStep(batch: WineBatch, step: SparklingStep): { valid: boolean; reason?: string } {
+  switch (step) {
+    case 'tirage':
+      if (batch.state !== 'must_fermenting' && batch.state !== 'maturing') {
+        return { valid: false, reason: 'Only fermenting or maturing base wine can go en tirage.' };
+      }
+      if (batch.quantity < 1.5) return { valid: false, reason: 'There is not enough wine to fill a bottle.' };
+      return { valid: true };
+    case 'riddling':
+      if (batch.state !== 'tirage') return { valid: false, reason: 'Only wine en tirage can be riddled.' };
+      if ((batch.tirageWeeks || 0) < SPARKLING_MIN_TIRAGE_WEEKS) {
+        return { valid: false, reason: `The wine needs at least ${SPARKLING_MIN_TIRAGE_WEEKS} weeks on its lees before riddling.` };
+      }
+      return { valid: true };
+    case 'disgorgement':
+      if (batch.state !== 'riddled') return { valid: false, reason: 'Only riddled bottles can be disgorged.' };
+      return { valid: true };
+  }
+}
+
+/**
+ * Check if a sparkling step can be started for a batch
+ */
+export function isSparklingActionAvailable(batch: WineBatch, step: SparklingStep): boolean {
+  return validateSparklingStep(batch, step).valid
+    && !isBatchSparklingInProgress(batch.id)
+    && !isBatchEmptyingInProgress(batch.id)
+    && !isBatchBlendingInProgress(batch.id)
+    && !isBatchCellarOperationInProgress(batch.id);
+}
+
+/**
+ * Start a sparkling step: create the activity; the batch changes and costs are applied on completion
+ */
+export async function startSparklingActivity(
+  batch: WineBatch,
+  step: SparklingStep,
+  dosage: SparklingDosage = 'brut'
+): Promise<SparklingStepResult> {
+  try {
+    const validation = validateSparklingStep(batch, step);
+    if (!validation.valid) return { success: false, error: validation.reason };
+    if (!isSparklingActionAvailable(batch, step)) {
+      return { success: false, error: 'This batch is locked by a pending production task.' };
+    }
+    if (step === 'tirage') {
+      const storageValidation = await assertBatchHasUsableStorage(batch);
+      if (!storageValidation.valid) return { success: false, error: storageValidation.reason };
+    }
+
+    const { totalWork, cost } = activitiesFeature.work.calculateSparkling(batch, step);
+    const targetName = getWineBatchDisplayName(batch);
+    const activityResult = await activitiesFeature.lifecycle.createWithResult({
+      category: WorkCategory.FERMENTATION,
+      title: `${STEP_LABELS[step]} - ${targetName}`,
+      totalWork,
+      activityDetails: step === 'disgorgement' ? `Dosage: ${SPARKLING_DOSAGES[dosage].label}` : `Traditional Method ${STEP_LABELS[step].toLowerCase()}`,
+      targetId: batch.id,
+      params: {
+        type: SPARKLING_ACTIVITY_TYPES[step],
+        batchId: batch.id,
+        grape: batch.grape,
+        dosage: step === 'disgorgement' ? dosage : undefined,
+        cost,
+        targetName
+      },
+      isCancellable: true
+    });
+    return activityResult.activityId
+      ? { success: true, step, batch }
+      : { success: false, error: activityResult.reason ?? `Could not start the ${STEP_LABELS[step].toLowerCase()} activity.` };
+  } catch (error) {
+    console.error('Error starting sparkling activity:', error);
+    return { success: false, error: 'Failed to start sparkling activity' };
+  }
+}
+
+async function chargeSparklingCost(activity: Activity, step: SparklingStep): Promise<void> {
+  const cost = Number(activity.params.cost) || 0;
+  if (cost > 0) {
+    await addTransaction(-cost, `${STEP_LABELS[step]} materials for ${activity.params.targetName ?? 'sparkling wine'}`, TRANSACTION_CATEGORIES.SUPPLIES);
+  }
+}
+
+/** Packaging for the bottles put en tirage: the standard bottle and the cork added at disgorgement. */
+async function chargeSparklingPackaging(batch: WineBatch): Promise<void> {
+  const bottles = Math.floor(batch.quantity);
+  const format = BOTTLE_FORMATS[SPARKLING_BOTTLE_FORMAT];
+  const closure = BOTTLE_CLOSURES[SPARKLING_BOTTLE_CLOSURE];
+  const packagingCost = Math.round(bottles * (format.packagingCostPerBottle + closure.costPerBottle) * 100) / 100;
+  if (packagingCost > 0) {
+    await addTransaction(
+      -packagingCost,
+      `${bottles} ${format.label} with ${closure.label.toLowerCase()} for ${getWineBatchDisplayName(batch)}`,
+      TRANSACTION_CATEGORIES.PACKAGING
+    );
+  }
+}
+
+/** Tirage moves the base wine into crown-capped bottles and frees its Storage Vessels. */
+async function completeTirage(batch: WineBatch): Promise<boolean> {
+  const companyId = getCurrentCompanyId();
+  if (!companyId) return false;
+  const { week = 1, season = 'Spring', currentYear = 2024 } = getGameState();
+  return tirageStorageBackedWineBatch({ companyId, batchId: batch.id, quantity: batch.quantity / 1.5, year: currentYear, season, week });
+}
+
+/** Disgorgement removes the lees plug, adds the dosage and finishes the wine as bottled. */
+async function completeDisgorgement(batch: WineBatch, dosage: SparklingDosage): Promise<boolean> {
+  const { week = 1, season = 'Spring', currentYear = 2024 } = getGameState();
+  const { characteristics, effects } = applyDosage(batch.characteristics, dosage);
+  const wineAnchors = resolveWineAnchors(batch.wineAnchors);
+  const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
+  const structureIndex = calculateStructureIndex(characteristics, structureRanges, RANGE_ADJUSTMENTS, RULES).score;
+  const disgorged: WineBatch = {
+    ...batch,
+    state: 'bottled',
+    quantity: Math.floor(batch.quantity * (1 - SPARKLING_DISGORGEMENT_LOSS)),
+    bottleFormat: SPARKLING_BOTTLE_FORMAT,
+    bottleClosure: SPARKLING_BOTTLE_CLOSURE,
+    characteristics,
+    structureIndex,
+    breakdown: {
+      effects: [...(batch.breakdown?.effects || []), ...effects],
+      anchorEffects: batch.breakdown?.anchorEffects || []
+    },
+    bottledDate: { week, season, year: currentYear }
+  };
+  const tasteQualityIndex = getTasteQualityIndex(disgorged);
+
+  return updateWineBatch(batch.id, {
+    state: disgorged.state,
+    quantity: disgorged.quantity,
+    bottleFormat: disgorged.bottleFormat,
+    bottleClosure: disgorged.bottleClosure,
+    characteristics,
+    structureIndex,
+    tasteQualityIndex,
+    breakdown: disgorged.breakdown,
+    bottledDate: disgorged.bottledDate,
+    tasteQualityIndexBottlingSnapshot: tasteQualityIndex,
+    landValueModifierBottlingSnapshot: batch.landValueModifier,
+    structureIndexBottlingSnapshot: structureIndex,
+    wineScoreBottlingSnapshot: calculateWineScore({ ...disgorged, tasteQualityIndex })
+  });
+}
+
+/**
+ * Complete a sparkling step activity against the current batch state
+ */
+export async function completeSparklingActivity(activity: Activity): Promise<SparklingStepResult> {
+  const step = getSparklingActivityStep(activity);
+  const batchId = typeof activity.params.batchId === 'string' ? activity.params.batchId : null;
+  if (!step || !batchId) return { success: false, error: 'This sparkling activity has incomplete batch details.' };
+
+  const batch = (await loadWineBatches()).find(candidate => candidate.id === batchId);
+  if (!batch) return { success: false, error: 'The sparkling wine batch no longer exists.' };
+  const validation = validateSparklingStep(batch, step);
+  if (!validation.valid) return { success: false, error: validation.reason };
+
+  let success: boolean;
+  switch (step) {
+    case 'tirage':
+      success = await completeTirage(batch);
+      break;
+    case 'riddling':
+      success = await updateWineBatch(batch.id, { state: 'riddled' });
+      break;
+    case 'disgorgement': {
+      const dosage = (activity.params.dosage as SparklingDosage | undefined) ?? 'brut';
+      success = await completeDisgorgement(batch, SPARKLING_DOSAGES[dosage] ? dosage : 'brut');
+      break;
+    }
+  }
+  if (!success) return { success: false, error: `${STEP_LABELS[step]} could not be saved.` };
+
+  await chargeSparklingCost(activity, step);
+  if (step === 'disgorgement') await chargeSparklingPackaging(batch);
+  triggerGameUpdate();
+  if (step === 'disgorgement') await recordBottledWineBatch(batch.id);
+  return { success: true, step, batch };
+}
+
+/**
+ * Process weekly lees aging for all batches en tirage
+ * Called by game tick system
+ */
+export async function processWeeklyTirage(): Promise<void> {
+  try {
+    const batches = await loadWineBatches();
+    const tirageBatches = batches.filter(batch => batch.state === 'tirage' && batch.quantity > 0);
+    if (tirageBatches.length === 0) return;
+
+    const updates: Array<{ id: string; updates: Partial<WineBatch> }> = [];
+    for (const batch of tirageBatches) {
+      const tirageWeeks = batch.tirageWeeks || 0;
+      const anchorsBeforeTirage = resolveWineAnchors(batch.wineAnchors);
+      const { characteristics, effects } = applyWeeklyTirageEffects({
+        baseCharacteristics: batch.characteristics,
+        tirageWeeks,
+        wineAnchors: anchorsBeforeTirage
+      });
+      const wineAnchors = applyWeeklyTirageToWineAnchors(anchorsBeforeTirage, tirageWeeks);
+      const weeklyAnchorEffects = diffAnchorEffects(anchorsBeforeTirage, wineAnchors, 'Lees aging en tirage');
+
+      const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
+      const structureIndex = calculateStructureIndex(characteristics, structureRanges, RANGE_ADJUSTMENTS, RULES).score;
+      const tasteQualityIndex = getTasteQualityIndex({ ...batch, characteristics, structureIndex, wineAnchors });
+
+      updates.push({
+        id: batch.id,
+        updates: {
+          characteristics,
+          structureIndex,
+          tasteQualityIndex,
+          wineAnchors,
+          tirageWeeks: tirageWeeks + 1,
+          breakdown: {
+            effects: [...(batch.breakdown?.effects || []), ...effects],
+            anchorEffects: [...(batch.breakdown?.anchorEffects || []), ...weeklyAnchorEffects]
+          }
+        }
+      });
+    }
+
+    if (updates.length > 0) {
+      await bulkUpdateWineBatches(updates);
+    }
+  } catch (error) {
+    console.error('Error processing weekly tirage:', error);
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  STORAGE_VESSEL_IMPRINT_CLEANING_RETENTION,
+  STORAGE_VESSEL_IMPRINT_FILL_RETENTION,
+  STORAGE_VESSEL_IMPRINT_FULL_CONTACT_WEEKS,
+  STORAGE_VESSEL_IMPRINT_MATERIAL_MEMORY,
+  STORAGE_VESSEL_IMPRINT_MIN_CONTACT_DEPOSIT,
+  STORAGE_VESSEL_IMPRINT_WEEKLY_RETENTION
+} from '@/lib/constants/storageVesselConstants';
+import { parseWineAnchorsFromDb, weightedMean } from '@/lib/services/wine/anchors/wineAnchorService';
+import type { StorageVessel, StorageVesselImprintFill } from '@/lib/types/storageVessels';
+import type { GameDate, WineAnchorValues, WineCharacteristics } from '@/lib/types/types';
+import { calculateAbsoluteWeeks, clamp01 } from '@/lib/utils/utils';
+
+/**
+ * Storage Vessel Imprint Service
+ * Derives vessel memory from the fills a vessel has held. Persistence records one snapshot per
+ * completed fill; strength, fading and material behaviour are evaluated here on read.
+ */
+
+export interface StorageVesselImprint {
+  /** 0-1 memory strength after fill age, later fills, cleaning, time and material. */
+  strength: number;
+  characteristics: WineCharacteristics;
+  wineAnchors: WineAnchorValues;
+  structureIndex: number;
+  sources: Array<{ grape: string; vintage: number }>;
+}
+
+function weightedAverage<T extends object>(entries: Array<{ values: T; weight: number }>): T {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  const result = { ...entries[0].values } as Record<string, number>;
+  for (const key of Object.keys(result)) {
+    result[key] = entries.reduce((sum, entry) => sum + ((entry.values as Record<string, number>)[key] ?? 0) * entry.weight, 0) / totalWeight;
+  }
+  return result as T;
+}
+
+/**
+ * Weight of one stored fill: longer contact leaves more behind, while each newer fill,
+ * idle week and cleaning washes it out. `index` is 0 for the most recent fill.
+ */
+export function getStorageVesselImprintFillWeight(
+  vessel: Pick<StorageVessel, 'material'>,
+  fill: StorageVesselImprintFill,
+  index: number,
+  date: GameDate
+): number {
+  const contact = STORAGE_VESSEL_IMPRINT_MIN_CONTACT_DEPOSIT
+    + (1 - STORAGE_VESSEL_IMPRINT_MIN_CONTACT_DEPOSIT) * Math.min(1, Math.max(0, fill.contactWeeks) / STORAGE_VESSEL_IMPRINT_FULL_CONTACT_WEEKS);
+  const idleWeeks = calculateAbsoluteWeeks(date.week, date.season, date.year, fill.completedWeek, fill.completedSeason, fill.completedYear) - 1;
+  return contact
+    * Math.pow(STORAGE_VESSEL_IMPRINT_FILL_RETENTION, index)
+    * Math.pow(STORAGE_VESSEL_IMPRINT_WEEKLY_RETENTION, Math.max(0, idleWeeks))
+    * Math.pow(STORAGE_VESSEL_IMPRINT_CLEANING_RETENTION[vessel.material], Math.max(0, fill.cleanings));
+}
+
+/**
+ * Current vessel memory, or null when the vessel has never completed a fill.
+ * Oak remembers most; stainless steel keeps almost nothing.
+ */
+export function getStorageVesselImprint(
+  vessel: Pick<StorageVessel, 'material' | 'imprintFills'>,
+  date: GameDate
+): StorageVesselImprint | null {
+  const weighted = (vessel.imprintFills ?? [])
+    .map((fill, index) => ({ fill, weight: getStorageVesselImprintFillWeight(vessel, fill, index, date) }))
+    .filter((entry) => entry.weight > 0);
+  if (weighted.length === 0) return null;
+
+  const strength = clamp01(weighted.reduce((sum, entry) => sum + entry.weight, 0))
+    * STORAGE_VESSEL_IMPRINT_MATERIAL_MEMORY[vessel.material];
+  if (strength <= 0) return null;
+
+  return {
+    strength,
+    characteristics: weightedAverage(weighted.map((entry) => ({ values: entry.fill.characteristics, weight: entry.weight }))),
+    wineAnchors: weightedAverage(weighted.map((entry) => ({ values: parseWineAnchorsFromDb(entry.fill.wineAnchors), weight: entry.weight }))),
+    structureIndex: weightedMean(weighted.map((entry) => ({ value: entry.fill.structureIndex, weight: entry.weight }))),
+    sources: weighted.map((entry) => ({ grape: entry.fill.grape, vintage: entry.fill.vintage }))
+  };
+}
+
+/** Share of the imprint a vessel can release into a new fill; sound vessels release it in a controlled way. */
+export function getStorageVesselImprintRelease(vessel: Pick<StorageVessel, 'condition'>, imprint: StorageVesselImprint): number {
+  return imprint.strength * (0.5 + 0.5 * clamp01(vessel.condition));
+}
+
+/** Short history line for vessel lists and market listings, e.g. "Merlot 2025, Syrah 2024 (42% memory)". */
+export function getStorageVesselImprintSummary(
+  vessel: Pick<StorageVessel, 'material' | 'imprintFills'>,
+  date: GameDate
+): string | null {
+  const imprint = getStorageVesselImprint(vessel, date);
+  if (!imprint) return null;
+  const sources = imprint.sources.map((source) => `${source.grape} ${source.vintage}`).join(', ');
+  return `${sources} (${Math.round(imprint.strength * 100)}% memory)`;
+}
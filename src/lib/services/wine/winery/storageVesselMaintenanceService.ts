@@ -10,6 +10,8 @@ import { getStorageVesselDisplayName } from './storageVesselService';
 
 const EMPTY_STORAGE_VESSEL_ACTIVITY_TYPE = 'empty_storage_vessel';
 const CLEAN_STORAGE_VESSEL_ACTIVITY_TYPE = 'clean_storage_vessel';
+export const BLEND_WINE_BATCHES_ACTIVITY_TYPE = 'blend_wine_batches';
+export const CELLAR_OPERATION_ACTIVITY_TYPE = 'cellar_operation';
 
 function refreshStorageVesselViews(): void {
   triggerTopicUpdate('storage_vessels');
@@ -60,6 +62,26 @@ export function isBatchEmptyingInProgress(batchId: string): boolean {
   );
 }
 
+/** Every batch in a pending blend (target and sources) is locked until the blend completes or is cancelled. */
+export function isBatchBlendingInProgress(batchId: string): boolean {
+  return (getGameState().activities ?? []).some((activity) =>
+    (activity.status === 'active' || activity.status === 'paused')
+    && activity.category === WorkCategory.MAINTENANCE
+    && activity.params.type === BLEND_WINE_BATCHES_ACTIVITY_TYPE
+    && (activity.params.batchId === batchId || (Array.isArray(activity.params.sourceBatchIds) && activity.params.sourceBatchIds.includes(batchId)))
+  );
+}
+
+/** A batch being racked, fined or filtered is locked until the cellar operation completes or is cancelled. */
+export function isBatchCellarOperationInProgress(batchId: string): boolean {
+  return (getGameState().activities ?? []).some((activity) =>
+    (activity.status === 'active' || activity.status === 'paused')
+    && activity.category === WorkCategory.MAINTENANCE
+    && activity.params.type === CELLAR_OPERATION_ACTIVITY_TYPE
+    && activity.params.batchId === batchId
+  );
+}
+
 export interface CleanStorageVesselResult {
   success: boolean;
   error?: string;
@@ -164,8 +186,13 @@ export async function startEmptyStorageVesselActivity(vesselId: string): Promise
   const activities = persistedActivities.length > 0 ? persistedActivities : (getGameState().activities ?? []);
   const blockingActivity = activities.find((activity) =>
     (activity.status === 'active' || activity.status === 'paused')
-    && activity.category !== WorkCategory.MAINTENANCE
-    && (activity.params.outputBatchId === batch.id || activity.params.batchId === batch.id || activity.params.storagePlanId === plan.id)
+    && (
+      (activity.category !== WorkCategory.MAINTENANCE
+        && (activity.params.outputBatchId === batch.id || activity.params.batchId === batch.id || activity.params.storagePlanId === plan.id))
+      || (activity.params.type === BLEND_WINE_BATCHES_ACTIVITY_TYPE
+        && (activity.params.batchId === batch.id || (Array.isArray(activity.params.sourceBatchIds) && activity.params.sourceBatchIds.includes(batch.id))))
+      || (activity.params.type === CELLAR_OPERATION_ACTIVITY_TYPE && activity.params.batchId === batch.id)
+    )
   );
   if (blockingActivity) {
     return { success: false, error: `Cannot empty ${getStorageVesselDisplayName(vessel)} while "${blockingActivity.title}" is still in progress. Cancel or complete that activity first.` };
@@ -37,6 +37,7 @@ export async function createPurchasedStorageVessels(
     qualityScore: payload.qualityScore,
     condition: 1,
     fillHistory: 0,
+    imprintFills: [],
     productionYear: payload.productionYear,
     capacityLitres: payload.capacityLitres,
     acquisitionPrice,
@@ -0,0 +1,107 @@
+import { SweetWineMethod, WineBatch } from '../../../types/types';
+import { loadWineBatches, updateWineBatch } from '../../../database/activities/inventoryDB';
+import { addTransaction } from '../../finance/financeService';
+import { applyFermentationStop } from '../characteristics/sweetWineCharacteristics';
+import { resolveWineAnchors } from '../anchors/wineAnchorService';
+import { getAnchorAdjustedStructureRanges } from '../anchors/wineAnchorCharacteristicBridge';
+import { applyFermentationStopToWineAnchors } from '../anchors/wineAnchorProcess';
+import { calculateStructureIndex, RANGE_ADJUSTMENTS, RULES } from '../../../wineStructure';
+import { BASE_BALANCED_RANGES } from '../../../constants/grapeConstants';
+import { FORTIFICATION, SWEET_WINE_METHOD_LABELS } from '../../../constants/sweetWineConstants';
+import { TRANSACTION_CATEGORIES } from '../../../constants/financeConstants';
+import { getTasteQualityIndex } from '../winescore/wineScoreCalculation';
+import { diffAnchorEffects } from '../debug/wineAnchorEffectUtils';
+import { assertBatchHasUsableStorage } from './storageVesselAllocationService';
+import { isBatchBlendingInProgress, isBatchCellarOperationInProgress, isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+import { isBatchSparklingInProgress } from './sparklingManager';
+import { getWineBatchDisplayName } from './inventoryService';
+import { triggerGameUpdate } from '@/hooks/useGameUpdates';
+
+/**
+ * Sweet Wine Manager
+ * Stops fermentation early to keep residual sugar, either arrested or fortified with spirit.
+ * The stopped wine rests in its Storage Vessels as maturing wine until bottling.
+ */
+
+/** Litres of grape spirit and their cost to fortify a batch; the spirit is costed, not added to the batch volume. */
+export function calculateFortificationCost(batch: WineBatch): { spiritLitres: number; cost: number } {
+  const spiritLitres = (batch.volumeLitres ?? batch.quantity) * FORTIFICATION.SPIRIT_LITRES_PER_LITRE;
+  return {
+    spiritLitres,
+    cost: Math.round(spiritLitres * FORTIFICATION.SPIRIT_COST_PER_LITRE * 100) / 100
+  };
+}
+
+/**
+ * Check if fermentation can be stopped early for a batch
+ */
+export function isSweetWineActionAvailable(batch: WineBatch): boolean {
+  return batch.state === 'must_fermenting'
+    && !batch.sweetWineMethod
+    && !isBatchEmptyingInProgress(batch.id)
+    && !isBatchBlendingInProgress(batch.id)
+    && !isBatchCellarOperationInProgress(batch.id)
+    && !isBatchSparklingInProgress(batch.id);
+}
+
+/**
+ * Stop fermentation early (arrested or fortified) and move the wine into maturation
+ */
+export async function stopFermentationEarly(
+  batchId: string,
+  method: SweetWineMethod
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const batch = (await loadWineBatches()).find(candidate => candidate.id === batchId);
+    if (!batch || batch.state !== 'must_fermenting') {
+      return { success: false, error: 'Only fermenting wine can have its fermentation stopped.' };
+    }
+    if (!isSweetWineActionAvailable(batch)) {
+      return { success: false, error: 'This batch is locked by a pending production task.' };
+    }
+    const storageValidation = await assertBatchHasUsableStorage(batch);
+    if (!storageValidation.valid) {
+      return { success: false, error: storageValidation.reason };
+    }
+
+    const anchorsBeforeStop = resolveWineAnchors(batch.wineAnchors);
+    const { characteristics, effects } = applyFermentationStop(batch, method, anchorsBeforeStop);
+    const wineAnchors = applyFermentationStopToWineAnchors(anchorsBeforeStop, method);
+    const anchorEffects = diffAnchorEffects(anchorsBeforeStop, wineAnchors, SWEET_WINE_METHOD_LABELS[method]);
+    const structureRanges = getAnchorAdjustedStructureRanges(BASE_BALANCED_RANGES, wineAnchors);
+    const structureIndex = calculateStructureIndex(characteristics, structureRanges, RANGE_ADJUSTMENTS, RULES).score;
+    const tasteQualityIndex = getTasteQualityIndex({ ...batch, characteristics, structureIndex, wineAnchors });
+
+    const success = await updateWineBatch(batchId, {
+      state: 'maturing',
+      maturationWeeks: 0,
+      sweetWineMethod: method,
+      characteristics,
+      structureIndex,
+      tasteQualityIndex,
+      wineAnchors,
+      breakdown: {
+        effects: [...(batch.breakdown?.effects || []), ...effects],
+        anchorEffects: [...(batch.breakdown?.anchorEffects || []), ...anchorEffects]
+      }
+    });
+    if (!success) return { success: false, error: 'Failed to stop fermentation.' };
+
+    if (method === 'fortified') {
+      const { spiritLitres, cost } = calculateFortificationCost(batch);
+      if (cost > 0) {
+        await addTransaction(
+          -cost,
+          `Grape spirit (${Math.round(spiritLitres)} L) to fortify ${getWineBatchDisplayName(batch)}`,
+          TRANSACTION_CATEGORIES.SUPPLIES
+        );
+      }
+    }
+
+    triggerGameUpdate();
+    return { success: true };
+  } catch (error) {
+    console.error('Error stopping fermentation:', error);
+    return { success: false, error: 'Failed to stop fermentation' };
+  }
+}
@@ -1,14 +1,19 @@
 // WineryService. Holds Validations and helpers for @winery.tsx
-import { WineBatch, WorkCategory } from '../../../types/types';
+import { CellarOperation, WineBatch, WorkCategory } from '../../../types/types';
+import type { SparklingStep } from '../../../constants/sparklingConstants';
 import { isFermentationActionAvailable } from './fermentationManager';
+import { isMaturationActionAvailable } from './maturationManager';
+import { isBatchSparklingInProgress, isSparklingActionAvailable } from './sparklingManager';
+import { isSweetWineActionAvailable } from './sweetWineManager';
+import { isCellarOperationAvailable } from './cellarOperationManager';
 import { getGameState } from '../../core/gameState';
-import { isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
+import { isBatchBlendingInProgress, isBatchCellarOperationInProgress, isBatchEmptyingInProgress } from './storageVesselMaintenanceService';
 
 // ===== Helper Functions =====
 
 // Check if action is available for a batch
-export function isActionAvailable(batch: WineBatch, action: 'crush' | 'ferment' | 'bottle'): boolean {
-  if (isBatchEmptyingInProgress(batch.id)) return false;
+export function isActionAvailable(batch: WineBatch, action: 'crush' | 'ferment' | 'mature' | 'stop_fermentation' | 'bottle' | SparklingStep | CellarOperation): boolean {
+  if (isBatchEmptyingInProgress(batch.id) || isBatchBlendingInProgress(batch.id) || isBatchSparklingInProgress(batch.id) || isBatchCellarOperationInProgress(batch.id)) return false;
   switch (action) {
     case 'crush':
       if (batch.state !== 'grapes') return false;
@@ -24,6 +29,18 @@ export function isActionAvailable(batch: WineBatch, action: 'crush' | 'ferment'
     case 'ferment':
     case 'bottle':
       return isFermentationActionAvailable(batch, action);
+    case 'mature':
+      return isMaturationActionAvailable(batch);
+    case 'stop_fermentation':
+      return isSweetWineActionAvailable(batch);
+    case 'tirage':
+    case 'riddling':
+    case 'disgorgement':
+      return isSparklingActionAvailable(batch, action);
+    case 'racking':
+    case 'fining':
+    case 'filtration':
+      return isCellarOperationAvailable(batch, action);
     default:
       return false;
   }
@@ -38,6 +55,12 @@ export function getBatchStatus(batch: WineBatch): string {
       return 'Must ready for fermentation';
     case 'must_fermenting':
       return 'Currently fermenting';
+    case 'maturing':
+      return `Maturing in vessel - ${batch.maturationWeeks || 0} weeks`;
+    case 'tirage':
+      return `En tirage on the lees - ${batch.tirageWeeks || 0} weeks`;
+    case 'riddled':
+      return 'Riddled - ready for disgorgement';
     case 'bottled':
       return `Completed - ${batch.quantity} bottles`;
     default:
@@ -50,5 +73,7 @@ export function getNextAction(batch: WineBatch): string | null {
   if (isActionAvailable(batch, 'crush')) return 'crush';
   if (isActionAvailable(batch, 'ferment')) return 'ferment';
   if (isActionAvailable(batch, 'bottle')) return 'bottle';
+  if (isActionAvailable(batch, 'riddling')) return 'riddling';
+  if (isActionAvailable(batch, 'disgorgement')) return 'disgorgement';
   return null;
 }
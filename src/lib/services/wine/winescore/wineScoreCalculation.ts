@@ -4,6 +4,9 @@ import { getAllFeatureConfigs } from '../features/constants/commonFeaturesUtil';
 import { calculateAsymmetricalMultiplier, NormalizeScrewed1000To01WithTail } from '../../../utils/calculator';
 import { clamp01 } from '../../../utils/utils';
 import { calculateTasteQualityIndex } from '../taste/tasteQualityIndexService';
+import { getSweetnessStyle } from '../characteristics/sweetWineCharacteristics';
+import { SWEET_WINE_PRICE_CURVE } from '../../../constants/sweetWineConstants';
+import { BOTTLE_FORMATS, DEFAULT_BOTTLE_FORMAT } from '../../../constants/bottlingConstants';
 
 export interface EstimatedPriceBreakdown {
   tasteQualityIndex: number;
@@ -15,6 +18,8 @@ export interface EstimatedPriceBreakdown {
   landValueModifier: number;
   landValuePriceMultiplier: number;
   featurePriceMultiplier: number;
+  sweetWinePriceMultiplier: number;
+  bottleFormatPriceMultiplier: number;
   prePrestigePrice: number;
   companyPrestigeMultiplier: number;
   vineyardPrestigeMultiplier: number;
@@ -98,6 +103,22 @@ export function calculateWineScore(wineBatch: WineBatch): number {
   return (tasteQualityIndex + structureIndex) / 2;
 }
 
+/**
+ * Sweet and fortified wines follow their own pricing curve on wine score:
+ * great examples command a steep premium, mediocre ones sell below a dry wine.
+ * Dry wines are unaffected (1.0).
+ */
+export function calculateSweetWinePriceMultiplier(wineBatch: WineBatch): number {
+  const curve = SWEET_WINE_PRICE_CURVE[getSweetnessStyle(wineBatch)];
+  const wineScore = calculateWineScore(wineBatch);
+  return curve.min + (curve.max - curve.min) * wineScore * wineScore;
+}
+
+/** Price of the bottle format relative to a standard 750 ml bottle. */
+export function calculateBottleFormatPriceMultiplier(wineBatch: WineBatch): number {
+  return BOTTLE_FORMATS[wineBatch.bottleFormat ?? DEFAULT_BOTTLE_FORMAT].priceFactor;
+}
+
 function resolvePrestigeMultiplier(prestige?: number): number {
   if (prestige === undefined) return 1;
   const normalizedPrestige = NormalizeScrewed1000To01WithTail(prestige);
@@ -119,8 +140,11 @@ export function calculateEstimatedPriceBreakdown(
   const landValueModifier = getLandValueModifier(wineBatch);
   const landValuePriceMultiplier = calculateLandValuePriceMultiplier(wineBatch);
   const featurePriceMultiplier = calculateFeatureMarketPriceMultiplier(wineBatch);
+  const sweetWinePriceMultiplier = calculateSweetWinePriceMultiplier(wineBatch);
+  const bottleFormatPriceMultiplier = calculateBottleFormatPriceMultiplier(wineBatch);
 
-  const prePrestigePrice = basePrice * wineScoreMultiplier * landValuePriceMultiplier * featurePriceMultiplier;
+  const prePrestigePrice = basePrice * wineScoreMultiplier * landValuePriceMultiplier * featurePriceMultiplier
+    * sweetWinePriceMultiplier * bottleFormatPriceMultiplier;
   const companyPrestigeMultiplier = resolvePrestigeMultiplier(companyPrestige);
   const vineyardPrestigeMultiplier = resolvePrestigeMultiplier(vineyardPrestige);
 
@@ -138,6 +162,8 @@ export function calculateEstimatedPriceBreakdown(
     landValueModifier,
     landValuePriceMultiplier,
     featurePriceMultiplier,
+    sweetWinePriceMultiplier,
+    bottleFormatPriceMultiplier,
     prePrestigePrice,
     companyPrestigeMultiplier,
     vineyardPrestigeMultiplier,
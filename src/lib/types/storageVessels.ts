@@ -1,4 +1,5 @@
 import type { BuyGoodsPriceQuoteInput } from '@/lib/types/market';
+import type { WineAnchorValues, WineCharacteristics } from '@/lib/types/types';
 
 export type StorageVesselType = 'cask' | 'steel_tank' | 'concrete_tank' | 'container';
 export type StorageVesselMaterial = 'oak' | 'chestnut' | 'stainless_steel' | 'concrete' | 'ceramic' | 'plastic';
@@ -38,6 +39,23 @@ export interface StorageVesselAllocation {
   releasedAt?: string;
 }
 
+/**
+ * Snapshot of a completed fill kept by the vessel (vessel memory).
+ * Written when the wine leaves the vessel; newest first, bounded to the last few fills.
+ */
+export interface StorageVesselImprintFill {
+  grape: string;
+  vintage: number;
+  characteristics: WineCharacteristics;
+  wineAnchors: WineAnchorValues;
+  structureIndex: number;
+  contactWeeks: number;
+  completedYear: number;
+  completedSeason: string;
+  completedWeek: number;
+  cleanings: number;
+}
+
 export interface StorageVessel {
   id: string;
   vesselName?: string;
@@ -48,6 +66,7 @@ export interface StorageVessel {
   qualityScore: number;
   condition: number;
   fillHistory: number;
+  imprintFills: StorageVesselImprintFill[];
   productionYear: number;
   capacityLitres: number;
   acquisitionPrice: number;
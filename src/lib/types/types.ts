@@ -59,10 +59,128 @@ export const ASPECTS = [
 ] as const;
 export type Aspect = typeof ASPECTS[number];
 
+// Farming method per vineyard; organic and biodynamic need a multi-year conversion before certification
+export type FarmingMethod = 'conventional' | 'organic' | 'biodynamic';
+
+// Certification earned once the conversion period is complete (snapshotted on harvested grapes)
+export type FarmingCertification = Exclude<FarmingMethod, 'conventional'>;
+
+// In-season canopy work: leaf removal, shoot thinning and green harvesting (dropping fruit)
+export type CanopyTask = 'leafRemoval' | 'shootThinning' | 'greenHarvest';
+
+// Canopy work completed on a vineyard this season; cleared at the start of each year
+export interface CanopyWork {
+  leafRemoval?: boolean;
+  shootThinning?: boolean;
+  greenHarvestShare?: number; // Share of the crop dropped (0-1)
+}
+
+// Soil water balance, updated weekly from the weather; stress weeks are cleared at the start of each year
+export interface VineyardWaterState {
+  soilMoisture: number; // Plant-available soil water (0-1)
+  stressWeeks: number;  // Growing-season weeks spent below the water stress threshold this year
+}
+
+// Installed irrigation; running costs are billed for the weeks watered each season
+export interface VineyardIrrigation {
+  active: boolean;
+  weeksWatered: number; // Weeks watered since the last seasonal bill
+}
+
+export type SevereWeatherEvent = 'springFrost' | 'hail' | 'heatwave';
+export type WeatherMitigation = 'frostCandles' | 'hailNets' | 'kaolinSpray';
+
+// One severe weather event that struck a vineyard, after any mitigation
+export interface WeatherDamageRecord extends GameDate {
+  event: SevereWeatherEvent;
+  intensity: WeatherIntensity;
+  yieldLoss: number;  // Share of this season's crop lost (0-1)
+  healthLoss: number; // Vineyard health lost
+  mitigation?: WeatherMitigation; // Protection in place when the event struck
+  mitigated?: boolean; // Whether the protection worked
+}
+
+// Severe weather damage this year; cleared at the start of each year
+export interface VineyardWeatherDamage {
+  yieldMultiplier: number; // This season's crop left after every event
+  events: WeatherDamageRecord[];
+}
+
+// Mitigation set up on a vineyard; guards against the next strike of its event this season, which spends it
+export interface WeatherProtection {
+  mitigation: WeatherMitigation;
+  season: Season;
+  year: number;
+}
+
+// Vine diseases and pests that build up pressure on growing vines
+export type VineDisease = 'downyMildew' | 'powderyMildew' | 'phylloxera';
+
+// Field treatments against vine diseases and pests
+export type VineTreatment = 'copperSpray' | 'sulfurSpray' | 'rootTreatment';
+
+// Treatment applied to a vineyard; keeps lowering its disease's pressure for the rest of that season
+export interface VineTreatmentRecord {
+  treatment: VineTreatment;
+  season: Season;
+  year: number;
+}
+
+// Rootstock the vines are grafted onto, chosen at planting or replanting
+export type Rootstock = 'ownRoots' | 'ripariaGloire' | 'rupestrisDuLot' | 'so4' | 'richter110' | 'berlandieri41B';
+
+// Clone (selection) of the grape variety, chosen at planting or replanting
+export type VineClone = 'standard' | 'productive' | 'smallBerry' | 'massalSelection';
+
+// Growing-season weather a vineyard has seen this year: weeks of each state, weighted by intensity and site exposure
+export interface VintageWeather {
+  weeks: number; // Growing-season weeks recorded
+  clear: number;
+  rain: number;
+  heat: number;
+  frost: number;
+  storm: number;
+  snow: number;
+}
+
+export type VintageRating = 'Exceptional' | 'Good' | 'Average' | 'Difficult' | 'Poor';
+
+// Vintage record for one vineyard and year, written at the start of the following year
+export interface VineyardVintage {
+  id: string;
+  vineyardId: string;
+  vineyardName: string;
+  grape: GrapeVariety | null;
+  region: string;
+  country: string;
+  year: number;
+  weather: VintageWeather;
+  yieldFactor: number; // Multiplier on that year's harvest yield
+  qualityFactor: number; // Above 1 for a good vintage; shifts harvest anchors
+  inProgress?: boolean; // Current year, not yet recorded
+}
+
+// Lifecycle events that change who owns a vineyard or what is planted on it
+export type VineyardHistoryEventType = 'purchased' | 'planted' | 'uprooted' | 'replanted' | 'sold';
+
+// One entry in a vineyard's lifecycle history; rows outlive the vineyard when it is sold
+export interface VineyardHistoryEvent extends GameDate {
+  id: string;
+  vineyardId: string;
+  vineyardName: string;
+  eventType: VineyardHistoryEventType;
+  grape: GrapeVariety | null; // Grape planted, uprooted or replanted; the grape on the vineyard for purchases and sales
+  intensity?: number; // Share of vines uprooted or replanted (0-1)
+  density?: number; // Vines per hectare after the event
+  amount?: number; // Purchase price or sale proceeds
+}
+
 // Vineyard interface - expanded with v3 parameters
 export interface Vineyard {
   id: string;
   name: string;
+  estateId?: string; // Set on parcels split off an estate: the id of the estate's original vineyard
+  parcelName?: string; // Name of this parcel within its estate
   country: string;
   region: string;
   hectares: number;
@@ -93,10 +211,18 @@ export interface Vineyard {
     netChange: number; // Total health change this season
   };
   pendingFeatures?: WineFeature[]; // Features that develop before harvest (e.g., Noble Rot)
-  // annualYieldFactor: number; // Random value simulating vintage yield Commented out as per request
-  // annualQualityFactor: number; // Random value simulating vintage quality Commented out as per request
-  // farmingMethod: FarmingMethod; // Commented out as per request
-  // organicYears: number; // Commented out as per request
+  vintageWeather?: VintageWeather; // This year's growing-season weather; sets the vintage yield and quality factors
+  farmingMethod?: FarmingMethod; // Conventional unless changed
+  organicYears?: number; // Years farmed organically or biodynamically since the last conventional year
+  biodynamicYears?: number; // Years farmed biodynamically since switching to biodynamic
+  canopyWork?: CanopyWork; // Canopy work done this season
+  waterState?: VineyardWaterState; // Soil moisture; starts at the field-capacity default when missing
+  irrigation?: VineyardIrrigation; // Present once irrigation is installed
+  weatherDamage?: VineyardWeatherDamage; // Severe weather damage this year
+  weatherProtection?: WeatherProtection; // Mitigation in place against the next severe event
+  vineTreatments?: VineTreatmentRecord[]; // Disease and pest treatments applied this year
+  rootstock?: Rootstock; // Missing on vines planted before rootstocks were recorded, which then have no rootstock effects
+  vineClone?: VineClone; // Missing on vines planted before clones were recorded, which then have no clone effects
   // upgrades?: string[]; // Commented out as per request
   // generateFarmlandPreview not implemented yet (Creates a specific Farmland instance based on country/region for starting conditions)
 }
@@ -210,8 +336,32 @@ export type WineBatchState =
   | 'grapes'           // Ready for crushing
   | 'must_ready'       // Ready for fermentation  
   | 'must_fermenting'  // Currently fermenting
+  | 'maturing'         // Post-fermentation maturation in storage vessels
+  | 'tirage'           // Traditional Method sparkling: second fermentation and lees aging in bottle
+  | 'riddled'          // Traditional Method sparkling: lees collected in the neck, awaiting disgorgement
   | 'bottled';         // Completed
 
+// Wine style - fixed at crushing; red grapes can also make rosé or white (blanc de noirs) wine
+export type WineStyle = 'red' | 'white' | 'rose';
+
+// Sugar added at disgorgement; sets the final sweetness of a Traditional Method sparkling wine
+export type SparklingDosage = 'brut_nature' | 'brut' | 'demi_sec';
+
+// Stopping fermentation early to keep residual sugar: arrested (chilled and filtered) or fortified with spirit (port style)
+export type SweetWineMethod = 'arrested' | 'fortified';
+
+// Bottle format chosen at bottling: 375 ml half bottle, 750 ml standard, 1.5 L magnum or 3 L bag-in-box
+export type BottleFormat = 'half' | 'standard' | 'magnum' | 'bag_in_box';
+
+// Closure chosen at bottling; sets the oxygen ingress of the bottled wine
+export type BottleClosure = 'natural_cork' | 'screwcap' | 'synthetic';
+
+// Cellar operations on wine held in Storage Vessels: racking off the lees into other vessels, fining and filtration
+export type CellarOperation = 'racking' | 'fining' | 'filtration';
+
+// Sweetness style derived from the production method and residual sweetness (contracts and pricing)
+export type SweetnessStyle = 'dry' | 'off_dry' | 'sweet' | 'fortified';
+
 export type MarketOfferOriginTag = 'trusted_carryover' | 'seasonal_rotation' | 'country_special';
 
 export interface MarketBatchProvenanceSnapshot {
@@ -241,19 +391,37 @@ export interface WineBatchOriginSnapshot {
   provenance?: MarketBatchProvenanceSnapshot;
 }
 
+/** One source share of a blended (assemblage) batch; shares sum to 1 across the blend. */
+export interface WineBlendComponent {
+  vineyardId: string;
+  vineyardName: string;
+  grape: GrapeVariety;
+  share: number; // 0-1 share of the blended volume
+}
+
 // Wine batch interface for winery operations
 export interface WineBatch {
   id: string;
   vineyardId: string;
   vineyardName: string;
+  parcelName?: string; // Estate parcel the grapes were harvested from
   grape: GrapeVariety;
   quantity: number; // in kg or bottles
   volumeLitres?: number; // Current physical liquid volume for non-bottled storage allocation
   storagePlanId?: string; // Required for non-bottled batches
   batchNumber?: number; // Sequential identifier for duplicate vintage/vineyard batches
   batchGroupSize?: number; // Total batches sharing the same vintage/vineyard combination
+  parentBatchId?: string; // Lot this batch was split or part-bottled from
   state: WineBatchState;
   fermentationProgress?: number; // 0-100% for fermentation tracking
+  maturationWeeks?: number; // Weeks spent in the maturing state
+  sparkling?: boolean; // Made by the Traditional Method (set at tirage)
+  tirageWeeks?: number; // Weeks spent en tirage on the lees
+  sweetWineMethod?: SweetWineMethod; // Set when fermentation is stopped early to keep residual sugar
+  bottleFormat?: BottleFormat; // Set at bottling (standard 750 ml unless chosen otherwise)
+  bottleClosure?: BottleClosure; // Set at bottling (natural cork unless chosen otherwise)
+  farmingCertification?: FarmingCertification; // Vineyard certification at harvest (kept by blends only if every part shares it)
+  cellarOperations?: CellarOperation[]; // Completed cellar operations, in order (an operation can repeat)
 
   // Wine scoring properties (0-1 scale)
   // Lifecycle: harvest snapshot -> current -> bottling snapshot
@@ -291,10 +459,14 @@ export interface WineBatch {
   fermentationOptions?: {
     method: 'Basic' | 'Temperature Controlled' | 'Extended Maceration';
     temperature: 'Ambient' | 'Cool' | 'Warm';
+    malolactic?: boolean;
+    batonnage?: boolean;
+    surLie?: boolean;
   };
 
   // Grape metadata (0-1 scale unless specified)
   grapeColor: 'red' | 'white';
+  wineStyle: WineStyle; // Matches grapeColor until crushing decides skin contact
   naturalYield: number; // 0-1 scale, affects harvest yield
   fragile: number; // 0-1 scale, affects work requirements (0=robust, 1=fragile)
   proneToOxidation: number; // 0-1 scale, affects wine stability
@@ -305,6 +477,9 @@ export interface WineBatch {
   // Source metadata for batches that do not map back to a real vineyard row
   originSnapshot?: WineBatchOriginSnapshot;
 
+  // Assemblage composition; absent for single-source batches. `grape`/`vineyardId` follow the largest share.
+  blendComponents?: WineBlendComponent[];
+
   /** Hidden backend anchors (0–1); computed at harvest, persisted; not shown in UI yet */
   wineAnchors: WineAnchorValues;
 
@@ -321,7 +496,9 @@ export interface WineLogEntry {
   id: string;
   vineyardId: string;
   vineyardName: string;
+  parcelName?: string;
   grape: GrapeVariety;
+  wineStyle: WineStyle;
   vintage: number; // Year the grapes were harvested
   quantity: number; // Bottles produced
   tasteQualityIndex: number; // Taste quality snapshot (0-1)
@@ -330,6 +507,10 @@ export interface WineLogEntry {
   wineScore: number; // Overall wine score
   characteristics: WineCharacteristics; // Individual wine characteristics
   estimatedPrice: number; // Estimated price per bottle when bottled
+  bottleFormat: BottleFormat;
+  bottleClosure: BottleClosure;
+  batchId?: string; // Batch the bottles came from (missing on older entries)
+  parentBatchId?: string; // Original lot when only part of it was bottled
   harvestDate: GameDate;
   bottledDate: GameDate;
   // created_at removed; use bottledDate for ordering
@@ -341,7 +522,10 @@ export interface WineLogEntry {
 export type CustomerType = 'Restaurant' | 'Wine Shop' | 'Private Collector' | 'Chain Store';
 
 // Customer countries and regional data
-export type CustomerCountry = 'France' | 'Germany' | 'Italy' | 'Spain' | 'United States';
+// Export destinations, opened by export licence research
+export type ExportMarketCountry = 'United Kingdom' | 'Scandinavia' | 'Japan' | 'China';
+
+export type CustomerCountry = 'France' | 'Germany' | 'Italy' | 'Spain' | 'United States' | ExportMarketCountry;
 
 export interface DifficultyPreference {
   target: number;    // Target difficulty score (0-1) this customer type is most comfortable with.
@@ -350,6 +534,14 @@ export interface DifficultyPreference {
   bias: number;      // Bias toward easier (0) or harder (1) grapes, 0.5 represents neutral.
 }
 
+// Structure and taste a customer looks for, seeded from their country and customer type
+export interface CustomerMarketPreference {
+  structure: WineCharacteristics; // Preferred level of each structure channel (0-1)
+  flavors: WineFlavorFamilyProfile; // Liking for each flavor family (-1 dislikes, 0 indifferent, 1 likes)
+  tolerance: number; // How far a structure channel may sit from the preferred level before it stops pleasing (0-1)
+  weight: number; // How strongly the match moves price, quantity and rejection (0-1)
+}
+
 // Customer characteristics for sophisticated order generation
 export interface Customer {
   id: string;
@@ -369,9 +561,7 @@ export interface Customer {
   relationship?: number; // 0-100 scale for relationship strength
   activeCustomer?: boolean; // True if customer has placed orders (actively interacting with company)
   difficultyPreference?: DifficultyPreference; // Difficulty affinity used when valuing wines
-  // TODO: If customer taste preferences are added, model them as one unified market-preference
-  // layer covering both structure and taste. Do not add taste-only preferences before structure
-  // has the same concept.
+  marketPreference?: CustomerMarketPreference; // Structure and taste preferences used when valuing wines
 }
 
 // Wine order interface for sales operations
@@ -410,6 +600,9 @@ export interface WineOrder {
     marketShareMultiplier: number;
     finalPriceMultiplier: number;
     featurePriceMultiplier?: number; // Feature impact on price (oxidation, etc.)
+    sparklingPriceMultiplier?: number; // Customer type and country appetite for Traditional Method sparkling
+    packagingPriceMultiplier?: number; // Customer type preference for the bottle format and closure
+    farmingPriceMultiplier?: number; // Customer type premium for certified organic or biodynamic wine
     relationshipBonusMultiplier: number;
     relationshipAdjustedMultiplier: number;
 
@@ -432,13 +625,147 @@ export interface WineOrder {
       quantityFactor: number;
       rejectionFactor: number;
     };
+    preference?: MarketPreferenceMatch;
+    market?: BottleMarketConditions;
+    exportCost?: ExportLandedCost; // Export orders only: the customer's landed bid less import duty and shipping
   };
+
+  negotiationHistory?: NegotiationRound[]; // Counter-offers made on this order, oldest first
+}
+
+// ===== NEGOTIATION TYPES =====
+
+// Terms a counter-offer can change; the schedule applies to multi-delivery contracts only
+export interface NegotiationTerms {
+  pricePerBottle: number;
+  quantity: number; // Bottles (per delivery for contracts)
+  deliveriesPerYear?: number;
+  durationYears?: number;
+}
+
+// One counter-offer and the customer's answer
+export interface NegotiationRound {
+  date: GameDate;
+  previousTerms: NegotiationTerms;
+  counterOffer: NegotiationTerms;
+  staffId?: string;
+  staffName?: string;
+  acceptanceProbability: number;
+  accepted: boolean;
+  relationshipPenalty?: number; // Relationship lost when the customer turned the counter down
+  walkedAway?: boolean; // The customer withdrew after too many failed counters
+}
+
+// ===== EXPORT TYPES =====
+
+// Per-bottle landed-cost math of an export order
+export interface ExportLandedCost {
+  country: ExportMarketCountry;
+  landedPrice: number; // What the customer pays per bottle delivered, duty paid
+  importDuty: number; // Per bottle, paid by the winery on arrival
+  shippingCost: number; // Per bottle, paid by the winery on dispatch
+  exCellarPrice: number; // What the winery keeps per bottle delivered
+  importDutyRate: number;
+  shippingWeeks: number;
+  transportRisk: number; // Chance the shipment is damaged in transit
+}
+
+// Bottles on their way to an export customer; the sale settles when they arrive
+export interface ExportShipment {
+  id: string;
+  orderId: string;
+  customerId: string;
+  customerName: string;
+  country: ExportMarketCountry;
+  wineBatchId: string;
+  wineName: string;
+  bottles: number;
+  landedPrice: number;
+  importDuty: number;
+  shippingCost: number;
+  transportRisk: number;
+  shippedAt: GameDate;
+  arrivesAt: number; // Absolute week
+  status: 'in_transit' | 'delivered';
+  bottlesLost?: number;
+  settledValue?: number; // Landed revenue less import duty for the delivered bottles
+}
+
+// How well a wine's structure and taste match a customer's market preference
+export interface MarketPreferenceMatch {
+  structureMatch: number; // 0-1
+  flavorMatch: number; // 0-1, 0.5 is neutral
+  match: number; // 0-1 combined
+  priceFactor: number;
+  quantityFactor: number;
+  rejectionFactor: number;
+  likedFlavors: FlavorFamilyId[]; // Pronounced flavors the customer likes
+  dislikedFlavors: FlavorFamilyId[]; // Pronounced flavors the customer dislikes
+  furthestChannel: keyof WineCharacteristics; // Structure channel furthest from the customer's preference
+}
+
+// ===== BOTTLE MARKET TYPES =====
+
+// Bottle market segments: still wines by style, Traditional Method sparkling on its own
+export type BottleMarketStyle = WineStyle | 'sparkling';
+
+export interface BottleMarketHistoryPoint {
+  week: number;
+  season: Season;
+  year: number;
+  demand: number;
+  supply: number;
+  saturation: number;
+  priceIndex: number;
+}
+
+// Weekly demand and supply for one wine style in one customer country
+export interface BottleMarketSegment {
+  country: CustomerCountry;
+  style: BottleMarketStyle;
+  demand: number; // Demand index, 1.0 is the long-run average
+  supply: number; // Supply index from regional production and harvest weather, 1.0 is the long-run average
+  saturation: number; // 0-1, how much of the market the player's recent sales have filled
+  history: BottleMarketHistoryPoint[]; // Most recent week last
+}
+
+// What a bottle market segment does to an order placed in it
+export interface BottleMarketConditions {
+  country: CustomerCountry;
+  style: BottleMarketStyle;
+  demand: number;
+  supply: number;
+  saturation: number;
+  priceFactor: number; // Market price level: demand over supply, depressed by saturation
+  quantityFactor: number;
+}
+
+// ===== CELLAR DOOR TYPES =====
+
+// One week of cellar-door trade
+export interface CellarDoorWeekResult {
+  date: GameDate;
+  visitors: number;
+  served: number; // Visitors the tasting room staff could serve
+  bottlesSold: number;
+  revenue: number;
+}
+
+// The winery's tasting room, built at one of its vineyards and selling bottles to visitors
+export interface TastingRoom {
+  vineyardId: string;
+  vineyardName: string;
+  country: string;
+  region: string;
+  builtAt: GameDate;
+  staffIds: string[]; // Staff serving visitors
+  lastWeek?: CellarDoorWeekResult;
 }
 
 // ===== CONTRACT TYPES =====
 
 // Requirement types for contracts
-export type ContractRequirementType = 'tasteQuality' | 'minimumVintage' | 'specificVintage' | 'structureIndex' | 'landValue' | 'country' | 'region' | 'grape' | 'grapeColor' | 'altitude' | 'aspect' | 'characteristicMin' | 'characteristicMax' | 'characteristicDeviation';
+export type ContractRequirementType = 'tasteQuality' | 'minimumVintage' | 'specificVintage' | 'structureIndex' | 'landValue' | 'country' | 'region' | 'grape' | 'grapeColor' | 'wineStyle' | 'sweetnessStyle' | 'certification' | 'altitude' | 'aspect' | 'characteristicMin' | 'characteristicMax' | 'characteristicDeviation';
 
 // Individual contract requirement
 export interface ContractRequirement {
@@ -452,6 +779,9 @@ export interface ContractRequirement {
     targetRegion?: string; // For region site parameter requirements
     targetGrape?: GrapeVariety; // For grape requirements
     targetGrapeColor?: 'red' | 'white'; // For grapeColor requirements
+    targetWineStyle?: WineStyle; // For wineStyle requirements
+    targetSweetnessStyle?: SweetnessStyle; // For sweetnessStyle requirements
+    targetCertification?: FarmingCertification; // For certification requirements
     targetCharacteristic?: keyof WineCharacteristics; // For characteristic requirements (acidity, aroma, body, spice, sweetness, tannins)
   };
 }
@@ -529,6 +859,8 @@ export interface WineContract {
   // Relationship context
   relationshipAtCreation: number; // Customer relationship when contract was offered
 
+  negotiationHistory?: NegotiationRound[]; // Counter-offers made on this contract, oldest first
+
   // Metadata
   createdAt?: Date;
   updatedAt?: Date;
@@ -537,7 +869,7 @@ export interface WineContract {
 // ===== FORWARD CONTRACT TYPES =====
 
 export type ForwardContractStatus = 'offered' | 'accepted' | 'fulfilled' | 'defaulted' | 'rejected' | 'expired';
-export type ForwardTargetState = 'grapes' | 'must_ready' | 'must_fermenting' | 'bottled' | 'any';
+export type ForwardTargetState = 'grapes' | 'must_ready' | 'must_fermenting' | 'maturing' | 'bottled' | 'any';
 
 export interface GrapeForwardContract {
   id: string;
@@ -783,6 +1115,27 @@ export interface Lender {
 
 export type LoanCategory = 'standard' | 'emergency' | 'restructured';
 
+export type CropInsuranceStatus = 'active' | 'claimed' | 'expired';
+export type CropInsuranceClaimBasis = 'weatherDamage' | 'yieldShortfall';
+
+// Crop insurance bought for one vineyard for one season; settled when the season ends
+export interface CropInsurancePolicy {
+  id: string;
+  vineyardId: string;
+  vineyardName: string;
+  season: Season;
+  year: number;
+  purchasedWeek: number; // Only weather damage after this week is covered
+  insuredValue: number; // Most the policy pays for a total loss
+  insuredYieldKg: number; // Full-ripeness expected yield when bought; shortfall is measured against it
+  premium: number;
+  deductible: number; // Share of the crop lost before the policy pays
+  status: CropInsuranceStatus;
+  payout: number;
+  claimBasis?: CropInsuranceClaimBasis;
+  lossShare?: number; // Covered share of the crop lost, before the deductible
+}
+
 export interface Loan {
   id: string;
   lenderId: string;
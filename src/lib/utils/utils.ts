@@ -925,6 +925,9 @@ export function getFlagIcon(countryName: string | undefined | null): string {
     "United States": "us",
     "US": "us",
     "Germany": "de",
+    "United Kingdom": "gb",
+    "Japan": "jp",
+    "China": "cn",
   };
   
   const flagCode = countryToFlagCode[countryName] || "xx";
@@ -29,6 +29,7 @@ function makeBatch(overrides: Partial<WineBatch> = {}): WineBatch {
     },
     estimatedPrice: 28,
     grapeColor: 'red',
+    wineStyle: 'red',
     naturalYield: 0.6,
     fragile: 0.35,
     proneToOxidation: 0.42,
@@ -44,14 +44,24 @@ const mocks = vi.hoisted(() => {
     updateVineyardRipeness: vi.fn(async () => {
       calls.push('updateVineyardRipeness');
     }),
+    recordVineyardVintages: vi.fn(async () => undefined),
     updateVineyardAges: vi.fn(async () => undefined),
     updateVineyardVineYields: vi.fn(async () => undefined),
     updateVineyardHealthDegradation: vi.fn(async () => {
       calls.push('updateVineyardHealthDegradation');
     }),
+    updateVineyardWaterState: vi.fn(async () => {
+      calls.push('updateVineyardWaterState');
+    }),
+    billVineyardIrrigation: vi.fn(async () => undefined),
+    settleCropInsurance: vi.fn(async () => undefined),
+    processSevereWeather: vi.fn(async () => {
+      calls.push('processSevereWeather');
+    }),
     getAllStaff: vi.fn(async () => []),
     processWeeklyFeatureRisks: vi.fn(async () => undefined),
     processWeeklyFermentation: vi.fn(async () => undefined),
+    processCellarDoorSales: vi.fn(async () => undefined),
     processSeasonalWages: vi.fn(async () => 'Seasonal wages paid'),
     processYearlyFounderDistributions: vi.fn(async () => undefined),
     processWeeklyBuyMarketLifecycle: vi.fn(async () => undefined),
@@ -134,12 +144,18 @@ vi.mock('@/lib/services', () => ({
   updateCellarCollectionPrestige: mocks.updateCellarCollectionPrestige,
   calculateCompanyValue: mocks.calculateCompanyValue,
   updateVineyardRipeness: mocks.updateVineyardRipeness,
+  recordVineyardVintages: mocks.recordVineyardVintages,
   updateVineyardAges: mocks.updateVineyardAges,
   updateVineyardVineYields: mocks.updateVineyardVineYields,
   updateVineyardHealthDegradation: mocks.updateVineyardHealthDegradation,
+  updateVineyardWaterState: mocks.updateVineyardWaterState,
+  billVineyardIrrigation: mocks.billVineyardIrrigation,
+  settleCropInsurance: mocks.settleCropInsurance,
+  processSevereWeather: mocks.processSevereWeather,
   getAllStaff: mocks.getAllStaff,
   processWeeklyFeatureRisks: mocks.processWeeklyFeatureRisks,
   processWeeklyFermentation: mocks.processWeeklyFermentation,
+  processCellarDoorSales: mocks.processCellarDoorSales,
   processSeasonalWages: mocks.processSeasonalWages,
   processYearlyFounderDistributions: mocks.processYearlyFounderDistributions,
   processWeeklyBuyMarketLifecycle: mocks.processWeeklyBuyMarketLifecycle,
@@ -247,6 +263,8 @@ describe('processGameTick', () => {
     expect(mocks.getWeatherSeenByActivityProgress()).toEqual({ state: 'Storm', intensity: 'Extreme' });
     expect(mocks.calls.indexOf('updateVineyardRipeness')).toBeLessThan(mocks.calls.indexOf('progressActivities'));
     expect(mocks.calls.indexOf('updateVineyardHealthDegradation')).toBeLessThan(mocks.calls.indexOf('progressActivities'));
+    expect(mocks.processSevereWeather).toHaveBeenCalledWith(expect.objectContaining({ state: 'Storm', intensity: 'Extreme' }));
+    expect(mocks.calls.indexOf('progressActivities')).toBeLessThan(mocks.calls.indexOf('processSevereWeather'));
   });
 
   it('restores minimized modals without advancing game time', async () => {
@@ -279,6 +297,7 @@ describe('processGameTick', () => {
       nextWeekForecastIntensity: expect.any(String),
     }));
     expect(mocks.resolveWeatherWeek).toHaveBeenCalledOnce();
+    expect(mocks.recordVineyardVintages).toHaveBeenCalledWith(2026);
     expect(mocks.updateVineyardAges).toHaveBeenCalledOnce();
     expect(mocks.updateVineyardVineYields).toHaveBeenCalledOnce();
     expect(mocks.processEconomyPhaseTransition).toHaveBeenCalledWith(true);
@@ -319,7 +338,8 @@ describe('processGameTick', () => {
     expect(mocks.triggerGameUpdate).toHaveBeenCalledTimes(2);
     expect(mocks.calls.indexOf('updateGameState')).toBeLessThan(mocks.calls.indexOf('progressActivities'));
     expect(mocks.calls.indexOf('updateVineyardRipeness')).toBeLessThan(mocks.calls.indexOf('progressActivities'));
-    expect(mocks.calls.indexOf('updateVineyardHealthDegradation')).toBeLessThan(mocks.calls.indexOf('progressActivities'));
+    expect(mocks.calls.indexOf('updateVineyardHealthDegradation')).toBeLessThan(mocks.calls.indexOf('updateVineyardWaterState'));
+    expect(mocks.calls.indexOf('updateVineyardWaterState')).toBeLessThan(mocks.calls.indexOf('progressActivities'));
     expect(mocks.calls.indexOf('progressActivities')).toBeLessThan(mocks.calls.indexOf('checkAndTriggerBookkeeping'));
   });
 
@@ -350,4 +370,30 @@ describe('processGameTick', () => {
     expect(mocks.loadWineBatches).toHaveBeenCalled();
     expect(mocks.processWeeklyFeatureRisks).toHaveBeenCalledOnce();
   });
+
+  it('sells cellar door stock only after feature-risk processing completes', async () => {
+    let resolveFeatureRisks: (() => void) | null = null;
+    mocks.processWeeklyFeatureRisks.mockImplementationOnce(
+      () =>
+        new Promise<undefined>((resolve) => {
+          resolveFeatureRisks = () => resolve(undefined);
+        })
+    );
+
+    const { processGameTick } = await import('@/lib/services/core/gameTick');
+    const tickPromise = processGameTick();
+
+    for (let i = 0; i < 20 && !resolveFeatureRisks; i += 1) {
+      await Promise.resolve();
+    }
+    expect(resolveFeatureRisks).toBeTypeOf('function');
+
+    // Both rewrite bottled batches, so the stock decrement must not run alongside feature risks.
+    expect(mocks.processCellarDoorSales).not.toHaveBeenCalled();
+
+    resolveFeatureRisks!();
+    await tickPromise;
+
+    expect(mocks.processCellarDoorSales).toHaveBeenCalledOnce();
+  });
 });
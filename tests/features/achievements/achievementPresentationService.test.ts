@@ -17,8 +17,10 @@ function achievement(id: string, isUnlocked: boolean): AchievementWithStatus {
 }
 
 describe('achievement presentation', () => {
-  it('does not expose grape-tenure tiers until grape-change history is persisted', () => {
-    expect(ALL_ACHIEVEMENTS.some((entry) => entry.id.startsWith('vineyard_time_tier_'))).toBe(false);
+  it('exposes grape-tenure tiers as a vineyard series now that vineyard history is persisted', () => {
+    const tenureTiers = ALL_ACHIEVEMENTS.filter((entry) => entry.id.startsWith('vineyard_time_tier_'));
+    expect(tenureTiers).toHaveLength(5);
+    expect(tenureTiers.every((entry) => entry.condition.type === 'vineyard_time_same_grape' && entry.prestige?.vineyard)).toBe(true);
   });
 
   it('shows unlocked tiers and the next tier in each series alongside individual achievements', () => {
@@ -63,6 +63,7 @@ function bottledWine(overrides: Partial<WineBatch> = {}): WineBatch {
     },
     estimatedPrice: 42,
     grapeColor: 'red',
+    wineStyle: 'red',
     naturalYield: 0.5,
     fragile: 0.3,
     proneToOxidation: 0.3,
@@ -105,6 +106,14 @@ describe('recordBottledWine', () => {
       })
     );
   });
+
+  it('snapshots the bottle format and closure chosen at bottling', async () => {
+    await recordBottledWine(bottledWine({ bottleFormat: 'magnum', bottleClosure: 'screwcap' }));
+
+    expect(mockedInsertWineLogEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ bottle_format: 'magnum', bottle_closure: 'screwcap' })
+    );
+  });
 });
 
 describe('calculateAllVineyardAnalytics', () => {
@@ -115,6 +124,7 @@ describe('calculateAllVineyardAnalytics', () => {
       vineyardId,
       vineyardName: vineyardId,
       grape: 'Pinot Noir',
+      wineStyle: 'red',
       vintage: 2026,
       quantity: 100,
       tasteQualityIndex: score,
@@ -123,6 +133,8 @@ describe('calculateAllVineyardAnalytics', () => {
       wineScore: score,
       characteristics: {} as WineLogEntry['characteristics'],
       estimatedPrice: price,
+      bottleFormat: 'standard',
+      bottleClosure: 'natural_cork',
       harvestDate: { week: 1, season: 'Fall', year: 2026 },
       bottledDate: { week: 8, season: 'Winter', year: 2026 },
     });
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { CropInsurancePolicy, Vineyard } from '@/lib/types/types';
+import { CROP_INSURANCE } from '@/lib/constants/insuranceConstants';
+import {
+  calculateCropInsuranceClaim,
+  getRegionalInsuranceRisk,
+  quoteCropInsurance,
+  validateCropInsurancePurchase
+} from '@/lib/services/finance/cropInsuranceService';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Hillside',
+    country: 'France',
+    region: 'Bordeaux',
+    hectares: 2,
+    grape: 'Chardonnay',
+    vineAge: 15,
+    soil: ['Gravel', 'Clay'],
+    altitude: 100,
+    aspect: 'South',
+    density: 6000,
+    vineyardHealth: 0.8,
+    landValue: 80000,
+    vineyardTotalValue: 200000,
+    status: 'Growing',
+    ripeness: 0.3,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+function policy(overrides: Partial<CropInsurancePolicy> = {}): CropInsurancePolicy {
+  return {
+    id: 'policy-1',
+    vineyardId: 'vineyard-1',
+    vineyardName: 'Hillside',
+    season: 'Summer',
+    year: 2026,
+    purchasedWeek: 2,
+    insuredValue: 24000,
+    insuredYieldKg: 10000,
+    premium: 1000,
+    deductible: CROP_INSURANCE.deductible,
+    status: 'active',
+    payout: 0,
+    ...overrides
+  };
+}
+
+function hail(week: number, yieldLoss: number) {
+  return { year: 2026, season: 'Summer' as const, week, event: 'hail' as const, intensity: 'Severe' as const, yieldLoss, healthLoss: 0.05 };
+}
+
+describe('crop insurance', () => {
+  it('prices premiums from regional climate risk, the forecast pattern and vineyard value', () => {
+    expect(getRegionalInsuranceRisk('France', 'Bordeaux')).toBeCloseTo(1);
+    expect(getRegionalInsuranceRisk('France', 'Champagne')).toBeGreaterThan(1);
+    expect(getRegionalInsuranceRisk('Italy', 'Puglia')).toBeGreaterThan(1);
+
+    const stable = quoteCropInsurance(vineyard(), 'Stable');
+    const stormy = quoteCropInsurance(vineyard(), 'Storm-prone');
+    const champagne = quoteCropInsurance(vineyard({ region: 'Champagne' }), 'Stable');
+    const larger = quoteCropInsurance(vineyard({ vineyardTotalValue: 400000 }), 'Stable');
+
+    expect(stable.insuredValue).toBe(200000 * CROP_INSURANCE.cropValueShare);
+    expect(stormy.premium).toBeGreaterThan(stable.premium);
+    expect(champagne.premium).toBeGreaterThan(stable.premium);
+    expect(larger.premium).toBeCloseTo(stable.premium * 2, -1);
+  });
+
+  it('insures growing vines once per season, outside Winter', () => {
+    expect(validateCropInsurancePurchase(vineyard(), 'Summer', 2026, []).valid).toBe(true);
+    expect(validateCropInsurancePurchase(vineyard(), 'Winter', 2026, []).valid).toBe(false);
+    expect(validateCropInsurancePurchase(vineyard({ status: 'Planted' }), 'Summer', 2026, []).valid).toBe(false);
+    expect(validateCropInsurancePurchase(vineyard(), 'Summer', 2026, [policy()]).valid).toBe(false);
+    expect(validateCropInsurancePurchase(vineyard(), 'Summer', 2026, [policy({ year: 2025 })]).valid).toBe(true);
+  });
+
+  it('pays for weather damage after purchase or yield shortfall, beyond the deductible', () => {
+    const struck = vineyard({ weatherDamage: { yieldMultiplier: 0.7, events: [hail(1, 0.5), hail(5, 0.3)] } });
+
+    // Only the hail after the week-2 purchase is covered
+    const weatherClaim = calculateCropInsuranceClaim(policy(), struck, 9500);
+    expect(weatherClaim.claimBasis).toBe('weatherDamage');
+    expect(weatherClaim.lossShare).toBeCloseTo(0.3);
+    expect(weatherClaim.payout).toBe(Math.round(24000 * (0.3 - CROP_INSURANCE.deductible)));
+
+    const shortfallClaim = calculateCropInsuranceClaim(policy(), vineyard(), 6000);
+    expect(shortfallClaim.claimBasis).toBe('yieldShortfall');
+    expect(shortfallClaim.payout).toBe(Math.round(24000 * (0.4 - CROP_INSURANCE.deductible)));
+
+    expect(calculateCropInsuranceClaim(policy(), vineyard(), 9500).payout).toBe(0);
+    expect(calculateCropInsuranceClaim(policy(), vineyard({ grape: null }), 0).payout).toBe(0);
+    expect(calculateCropInsuranceClaim(policy(), undefined, 0).payout).toBe(0);
+  });
+});
@@ -5,7 +5,7 @@ import type { StorageVessel, StorageVesselMarketListing } from '@/lib/types/stor
 
 const vessel = (material: StorageVessel['material'] = 'oak'): StorageVessel => ({
   id: 'vessel-1', vesselName: 'Alice #1', ownerKind: 'npc_market', vesselType: 'cask', material,
-  qualityScore: 0.7, condition: 0.8, fillHistory: 3, productionYear: 2020, capacityLitres: 500,
+  qualityScore: 0.7, condition: 0.8, fillHistory: 3, imprintFills: [], productionYear: 2020, capacityLitres: 500,
   acquisitionPrice: 1000, sourceOfferId: 'npc', operationalStatus: 'operational', cleanliness: 'dirty', occupancy: 'available',
   purchasedYear: 2026, purchasedSeason: 'Spring', purchasedWeek: 1,
 });
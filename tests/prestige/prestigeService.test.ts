@@ -265,6 +265,27 @@ describe('prestige service', () => {
     expect(event.amount_base).toBeLessThanOrEqual(2);
   });
 
+  it('shares age and land prestige across an estate\'s parcels so splitting adds none', async () => {
+    const { updateBaseVineyardPrestigeEvent } = await import('@/lib/features/prestige/services/prestigeService');
+    const { buildParcelSplit } = await import('@/lib/services/vineyard/vineyardParcelService');
+    const totalPrestige = () => mocks.upsertPrestigeEventBySource.mock.calls
+      .reduce((sum, call) => sum + ((call as unknown[])[2] as { amount_base: number }).amount_base, 0);
+    const estate = vineyard({ hectares: 3, vineAge: 25 });
+
+    mocks.setVineyards([estate]);
+    await updateBaseVineyardPrestigeEvent(estate.id);
+    const unsplit = totalPrestige();
+    mocks.upsertPrestigeEventBySource.mockClear();
+
+    const { source, parcel } = buildParcelSplit(estate, 'parcel-1', { name: 'Lower Block', hectares: 1 });
+    mocks.setVineyards([source, parcel]);
+    await updateBaseVineyardPrestigeEvent(parcel.id);
+
+    expect(unsplit).toBeGreaterThan(0);
+    expect(mocks.upsertPrestigeEventBySource).toHaveBeenCalledTimes(4);
+    expect(totalPrestige()).toBeCloseTo(unsplit, 10);
+  });
+
   it('uses fulfilled sale size and dynamic vineyard reputation for feature sale prestige', async () => {
     const { addFeaturePrestigeEvent } = await import('@/lib/features/prestige/services/prestigeService');
 
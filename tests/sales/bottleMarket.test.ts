@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { BOTTLE_MARKET_COUNTRIES, BOTTLE_MARKET_DYNAMICS, BOTTLE_MARKET_STYLES } from '@/lib/constants/bottleMarketConstants';
+import {
+  advanceBottleMarketSegment,
+  applyBottleMarketSale,
+  completeBottleMarket,
+  createBottleMarketSegment,
+  getBottleMarketConditions,
+  getBottleMarketFrequencyMultiplier,
+  getBottleMarketStyle,
+  type BottleMarketWeekContext
+} from '@/lib/services/sales/bottleMarketService';
+
+function context(overrides: Partial<BottleMarketWeekContext> = {}): BottleMarketWeekContext {
+  return { week: 1, season: 'Spring', year: 2025, economyPhase: 'Stable', weatherPriceMultiplier: 1, ...overrides };
+}
+
+const noNoise = () => 0.5;
+
+describe('bottle market', () => {
+  it('covers every country and style and sorts sparkling into its own market', () => {
+    const market = completeBottleMarket([], context());
+    expect(market).toHaveLength(BOTTLE_MARKET_COUNTRIES.length * BOTTLE_MARKET_STYLES.length);
+    expect(getBottleMarketStyle({ wineStyle: 'white', sparkling: true })).toBe('sparkling');
+    expect(getBottleMarketStyle({ wineStyle: 'rose' })).toBe('rose');
+  });
+
+  it('moves demand with the economy and the season, and supply with regional production and weather', () => {
+    let rose = createBottleMarketSegment('France', 'rose', context({ season: 'Winter' }));
+    for (let week = 1; week <= 12; week++) {
+      rose = advanceBottleMarketSegment(rose, context({ week, season: 'Summer', economyPhase: 'Boom' }), noNoise);
+    }
+    expect(rose.demand).toBeGreaterThan(createBottleMarketSegment('France', 'rose', context({ season: 'Winter' })).demand);
+    expect(rose.history).toHaveLength(12);
+    expect(rose.history[11].priceIndex).toBe(getBottleMarketConditions(rose).priceFactor);
+
+    const crash = createBottleMarketSegment('France', 'sparkling', context({ economyPhase: 'Crash' }));
+    const boom = createBottleMarketSegment('France', 'sparkling', context({ economyPhase: 'Boom' }));
+    expect(getBottleMarketConditions(boom).priceFactor).toBeGreaterThan(getBottleMarketConditions(crash).priceFactor);
+
+    // Producing countries are well stocked; poor harvest weather tightens supply everywhere
+    expect(createBottleMarketSegment('Germany', 'red', context()).supply).toBeLessThan(createBottleMarketSegment('France', 'red', context()).supply);
+    expect(createBottleMarketSegment('France', 'red', context({ weatherPriceMultiplier: 1.3 })).supply)
+      .toBeLessThan(createBottleMarketSegment('France', 'red', context()).supply);
+  });
+
+  it('lets the player saturate a market, dumping most of all, and recovers over the weeks', () => {
+    const segment = createBottleMarketSegment('Italy', 'red', context());
+    const atValue = applyBottleMarketSale(segment, 1000, 20, 20);
+    const dumped = applyBottleMarketSale(segment, 1000, 5, 20);
+
+    expect(atValue.saturation).toBeGreaterThan(0);
+    expect(dumped.saturation).toBeGreaterThan(atValue.saturation);
+    expect(getBottleMarketConditions(dumped).priceFactor).toBeLessThan(getBottleMarketConditions(segment).priceFactor);
+    expect(getBottleMarketConditions(dumped).quantityFactor).toBeLessThan(getBottleMarketConditions(segment).quantityFactor);
+
+    const nextWeek = advanceBottleMarketSegment(dumped, context({ week: 2 }), noNoise);
+    expect(nextWeek.saturation).toBeCloseTo(dumped.saturation * (1 - BOTTLE_MARKET_DYNAMICS.saturationRecovery));
+  });
+
+  it('brings customers more often when the markets for the wines in stock are strong', () => {
+    const boom = completeBottleMarket([], context({ season: 'Summer', economyPhase: 'Boom' }));
+    const crash = completeBottleMarket([], context({ season: 'Summer', economyPhase: 'Crash' }));
+    expect(getBottleMarketFrequencyMultiplier(boom, ['rose'])).toBeGreaterThan(1);
+    expect(getBottleMarketFrequencyMultiplier(crash, ['sparkling'])).toBeLessThan(1);
+    expect(getBottleMarketFrequencyMultiplier(boom, [])).toBe(1);
+  });
+});
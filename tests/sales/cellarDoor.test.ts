@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Staff, TastingRoom, WineBatch } from '@/lib/types/types';
+import { CELLAR_DOOR } from '@/lib/constants/cellarDoorConstants';
+import {
+  allocateCellarDoorSales,
+  calculateCellarDoorCapacity,
+  calculateCellarDoorVisitors,
+  getCellarDoorRetailPrice,
+  simulateCellarDoorWeek,
+  validateTastingRoomBuild,
+  type CellarDoorWeekContext
+} from '@/lib/services/sales/cellarDoorService';
+
+function context(overrides: Partial<CellarDoorWeekContext> = {}): CellarDoorWeekContext {
+  return { season: 'Spring', prestige: 1, ...overrides };
+}
+
+function bottled(id: string, quantity: number, estimatedPrice: number, askingPrice?: number): WineBatch {
+  return { id, state: 'bottled', quantity, estimatedPrice, askingPrice } as WineBatch;
+}
+
+const salesStaff = (sales: number) => ({ skills: { sales } } as Pick<Staff, 'skills'>);
+
+const room = (region: string) => ({ region });
+
+describe('cellar door', () => {
+  it('draws more visitors with tourism, summer, fair weather and prestige', () => {
+    const base = calculateCellarDoorVisitors(room('Rheinhessen'), context());
+    expect(calculateCellarDoorVisitors(room('Napa Valley'), context())).toBeGreaterThan(base);
+    expect(calculateCellarDoorVisitors(room('Rheinhessen'), context({ season: 'Summer' }))).toBeGreaterThan(base);
+    expect(calculateCellarDoorVisitors(room('Rheinhessen'), context({ season: 'Winter' }))).toBeLessThan(base);
+    expect(calculateCellarDoorVisitors(room('Rheinhessen'), context({ prestige: 500 }))).toBeGreaterThan(base);
+
+    const storm = calculateCellarDoorVisitors(room('Rheinhessen'), context({ weatherState: 'Storm', weatherIntensity: 'Moderate' }));
+    const severeStorm = calculateCellarDoorVisitors(room('Rheinhessen'), context({ weatherState: 'Storm', weatherIntensity: 'Extreme' }));
+    expect(storm).toBeLessThan(base);
+    expect(severeStorm).toBeLessThan(storm);
+  });
+
+  it('serves only as many visitors as the sales staff can handle and stays closed without staff', () => {
+    expect(calculateCellarDoorCapacity([])).toBe(0);
+    expect(calculateCellarDoorCapacity([salesStaff(0.5)])).toBe(CELLAR_DOOR.visitorsPerStaff);
+    expect(calculateCellarDoorCapacity([salesStaff(1)])).toBe(CELLAR_DOOR.visitorsPerStaff * 2);
+
+    const stock = [bottled('a', 500, 20)];
+    const closed = simulateCellarDoorWeek(room('Tuscany'), [], stock, context({ season: 'Summer' }));
+    expect(closed.visitors).toBeGreaterThan(0);
+    expect(closed.bottlesSold).toBe(0);
+
+    const open = simulateCellarDoorWeek(room('Tuscany'), [salesStaff(0.5)], stock, context({ season: 'Summer' }));
+    expect(open.served).toBe(Math.min(open.visitors, CELLAR_DOOR.visitorsPerStaff));
+    expect(open.revenue).toBeCloseTo(open.bottlesSold * getCellarDoorRetailPrice(stock[0]));
+  });
+
+  it('sells at retail price, fewer bottles of dearer wines, and never more than in stock', () => {
+    expect(getCellarDoorRetailPrice(bottled('a', 10, 20))).toBeCloseTo(20 * CELLAR_DOOR.retailMarkup);
+    expect(getCellarDoorRetailPrice(bottled('a', 10, 20, 30))).toBeCloseTo(30 * CELLAR_DOOR.retailMarkup);
+
+    const sales = allocateCellarDoorSales(100, [bottled('cheap', 500, 10), bottled('dear', 500, 80), bottled('few', 3, 10)]);
+    const byId = new Map(sales.map(sale => [sale.batchId, sale]));
+    expect(byId.get('cheap')!.bottles).toBeGreaterThan(byId.get('dear')!.bottles);
+    expect(byId.get('few')!.bottles).toBe(3);
+    expect(allocateCellarDoorSales(100, [{ ...bottled('grapes', 500, 10), state: 'maturing' }])).toEqual([]);
+  });
+
+  it('allows one tasting room per company', () => {
+    const vineyard = { id: 'v1', name: 'Home' } as Parameters<typeof validateTastingRoomBuild>[0];
+    const existing = { vineyardName: 'Home' } as TastingRoom;
+    expect(validateTastingRoomBuild(vineyard, null, false).valid).toBe(true);
+    expect(validateTastingRoomBuild(vineyard, existing, false).valid).toBe(false);
+    expect(validateTastingRoomBuild(vineyard, null, true).valid).toBe(false);
+  });
+});
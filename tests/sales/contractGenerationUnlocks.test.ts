@@ -43,11 +43,11 @@ vi.mock('@/lib/features/researchUpgrade', () => ({
   }
 }));
 
-function customer(type: Customer['customerType'], id: string): Customer {
+function customer(type: Customer['customerType'], id: string, country: Customer['country'] = 'France'): Customer {
   return {
     id,
     name: `${type} ${id}`,
-    country: 'France',
+    country,
     customerType: type,
     purchasingPower: 0.9,
     wineTradition: 0.9,
@@ -91,4 +91,17 @@ describe('contract generation unlock filtering', () => {
     expect(chance.customerTypeBreakdown['Chain Store'].total).toBe(1);
     expect(chance.customerTypeBreakdown['Private Collector'].total).toBe(0);
   });
+
+  it('offers no contracts to export customers, who buy through shipped orders', async () => {
+    mocks.getAllCustomers.mockResolvedValue([
+      customer('Wine Shop', 'w1'),
+      customer('Wine Shop', 'w2', 'Japan'),
+      customer('Wine Shop', 'w3', 'United Kingdom'),
+    ]);
+
+    const chance = await getContractGenerationChance();
+
+    expect(chance.customerTypeBreakdown['Wine Shop'].total).toBe(1);
+    expect(chance.totalCustomers).toBe(1);
+  });
 });
@@ -101,6 +101,7 @@ function bottledWine(overrides: Partial<WineBatch> = {}): WineBatch {
     },
     estimatedPrice: 18,
     grapeColor: 'white',
+    wineStyle: 'white',
     naturalYield: 0.5,
     fragile: 0.2,
     proneToOxidation: 0.2,
@@ -59,6 +59,7 @@ function wineBatch(overrides: Partial<WineBatch> = {}): WineBatch {
     },
     estimatedPrice: 0,
     grapeColor: 'red',
+    wineStyle: 'red',
     naturalYield: 0.5,
     fragile: 0.3,
     proneToOxidation: 0.3,
@@ -160,4 +161,52 @@ describe('contract requirements', () => {
     expect(mismatching.isValid).toBe(false);
     expect(mismatching.failedRequirements[0]).toContain('Region');
   });
+
+  it('validates wineStyle against the style set at crushing rather than grape colour', async () => {
+    const rose = wineBatch({ wineStyle: 'rose' });
+
+    const matching = await validateWineAgainstContract(
+      rose,
+      contract([{ type: 'wineStyle', value: 1, params: { targetWineStyle: 'rose' } }])
+    );
+    const mismatching = await validateWineAgainstContract(
+      rose,
+      contract([{ type: 'wineStyle', value: 1, params: { targetWineStyle: 'red' } }])
+    );
+
+    expect(matching.isValid).toBe(true);
+    expect(mismatching.isValid).toBe(false);
+    expect(mismatching.failedRequirements[0]).toContain('Style');
+  });
+
+  it('validates sweetnessStyle from the fermentation stop method and residual sweetness', async () => {
+    const sweet = wineBatch({ sweetWineMethod: 'arrested', characteristics: { ...wineBatch().characteristics, sweetness: 0.85 } });
+    const dry = wineBatch();
+
+    const matching = await validateWineAgainstContract(
+      sweet,
+      contract([{ type: 'sweetnessStyle', value: 1, params: { targetSweetnessStyle: 'sweet' } }])
+    );
+    const mismatching = await validateWineAgainstContract(
+      dry,
+      contract([{ type: 'sweetnessStyle', value: 1, params: { targetSweetnessStyle: 'sweet' } }])
+    );
+
+    expect(matching.isValid).toBe(true);
+    expect(mismatching.isValid).toBe(false);
+    expect(mismatching.failedRequirements[0]).toContain('Sweetness');
+  });
+
+  it('validates certification from the grapes at harvest, counting biodynamic as organic', async () => {
+    const organicRequirement = contract([{ type: 'certification', value: 1, params: { targetCertification: 'organic' } }]);
+    const biodynamicRequirement = contract([{ type: 'certification', value: 1, params: { targetCertification: 'biodynamic' } }]);
+
+    expect((await validateWineAgainstContract(wineBatch({ farmingCertification: 'biodynamic' }), organicRequirement)).isValid).toBe(true);
+    expect((await validateWineAgainstContract(wineBatch({ farmingCertification: 'organic' }), organicRequirement)).isValid).toBe(true);
+    expect((await validateWineAgainstContract(wineBatch({ farmingCertification: 'organic' }), biodynamicRequirement)).isValid).toBe(false);
+
+    const uncertified = await validateWineAgainstContract(wineBatch(), organicRequirement);
+    expect(uncertified.isValid).toBe(false);
+    expect(uncertified.failedRequirements[0]).toContain('Certification');
+  });
 });
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { FLAVOR_FAMILY_IDS, type WineCharacteristics, type WineFlavorFamilyProfile } from '@/lib/types/types';
+import { COUNTRY_STRUCTURE_PREFERENCES, CUSTOMER_TYPE_MARKET_PREFERENCES } from '@/lib/constants/customerPreferenceConstants';
+import {
+  evaluateMarketPreferenceMatch,
+  generateCustomerMarketPreference,
+  resolveCustomerMarketPreference
+} from '@/lib/services/sales/customerPreferenceService';
+
+function flavors(overrides: Partial<WineFlavorFamilyProfile> = {}): WineFlavorFamilyProfile {
+  const profile = Object.fromEntries(FLAVOR_FAMILY_IDS.map(family => [family, 0.5])) as WineFlavorFamilyProfile;
+  return { ...profile, ...overrides };
+}
+
+const baseline = () => 0.5;
+
+describe('customer market preferences', () => {
+  it('seeds preferences from country and customer type, with individual variation', () => {
+    const collector = generateCustomerMarketPreference('France', 'Private Collector', baseline);
+    expect(collector.structure.tannins).toBeCloseTo(COUNTRY_STRUCTURE_PREFERENCES.France.tannins + 0.1);
+    expect(collector.flavors.earth).toBeGreaterThan(0);
+    expect(collector.flavors.faults).toBeLessThan(0);
+    expect(collector.weight).toBe(CUSTOMER_TYPE_MARKET_PREFERENCES['Private Collector'].weight);
+
+    const american = generateCustomerMarketPreference('United States', 'Chain Store', baseline);
+    expect(american.flavors.vegetable).toBeLessThan(0);
+    expect(american.structure.sweetness).toBeGreaterThan(collector.structure.sweetness);
+
+    const varied = generateCustomerMarketPreference('France', 'Private Collector', () => 1);
+    expect(varied.structure.tannins).toBeGreaterThan(collector.structure.tannins);
+
+    expect(resolveCustomerMarketPreference({ country: 'France', customerType: 'Private Collector' })).toEqual(collector);
+  });
+
+  it('pays more, orders more and rejects less for wines that suit the customer', () => {
+    const preference = generateCustomerMarketPreference('France', 'Private Collector', baseline);
+    const suited = evaluateMarketPreferenceMatch(
+      preference,
+      preference.structure,
+      flavors({ earth: 0.8, generalAging: 0.75 })
+    );
+    const unsuited = evaluateMarketPreferenceMatch(
+      preference,
+      { acidity: 0.1, aroma: 0.95, body: 0.1, spice: 0.95, sweetness: 0.95, tannins: 0.05 },
+      flavors({ earth: 0.2, generalAging: 0.2, faults: 0.85, tropicalFruit: 0.8 })
+    );
+
+    expect(suited.structureMatch).toBeCloseTo(1);
+    expect(suited.match).toBeGreaterThan(0.5);
+    expect(suited.priceFactor).toBeGreaterThan(1);
+    expect(suited.quantityFactor).toBeGreaterThan(1);
+    expect(suited.rejectionFactor).toBeLessThan(1);
+    expect(suited.likedFlavors).toContain('earth');
+
+    expect(unsuited.match).toBeLessThan(0.5);
+    expect(unsuited.priceFactor).toBeLessThan(1);
+    expect(unsuited.rejectionFactor).toBeGreaterThan(1);
+    expect(unsuited.dislikedFlavors).toContain('faults');
+    expect(unsuited.furthestChannel).toBe('sweetness');
+  });
+
+  it('is neutral when the customer does not care', () => {
+    const preference = { ...generateCustomerMarketPreference('Italy', 'Restaurant', baseline), weight: 0 };
+    const structure: WineCharacteristics = { acidity: 0, aroma: 0, body: 0, spice: 0, sweetness: 1, tannins: 1 };
+    const result = evaluateMarketPreferenceMatch(preference, structure, flavors({ faults: 1 }));
+    expect(result.priceFactor).toBe(1);
+    expect(result.quantityFactor).toBe(1);
+    expect(result.rejectionFactor).toBe(1);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_MARKET_COUNTRIES, EXPORT_MARKETS, EXPORT_TRANSPORT_DAMAGE } from '@/lib/constants/exportMarketConstants';
+import { CUSTOMER_REGIONAL_DATA } from '@/lib/constants/constants';
+import { RESEARCH_PROJECTS } from '@/lib/features/researchUpgrade/constants/researchCatalog';
+import {
+  calculateExportLandedCost,
+  coversExportCosts,
+  getExportShipmentArrival,
+  isExportMarketCountry,
+  resolveExportShipmentArrival
+} from '@/lib/services/sales/exportService';
+
+describe('export markets', () => {
+  it('splits a landed bid into import duty, shipping and the ex-cellar price', () => {
+    const cost = calculateExportLandedCost('Japan', 40);
+    expect(cost.importDuty).toBeCloseTo(40 * EXPORT_MARKETS.Japan.importDutyRate);
+    expect(cost.shippingCost).toBe(EXPORT_MARKETS.Japan.shippingCostPerBottle);
+    expect(cost.exCellarPrice).toBeCloseTo(40 - cost.importDuty - cost.shippingCost);
+
+    expect(coversExportCosts(cost)).toBe(true);
+
+    // Cheap wine can cost more to export than the customer pays; the loss stays visible
+    const loss = calculateExportLandedCost('China', 1);
+    expect(loss.exCellarPrice).toBeCloseTo(1 - loss.importDuty - loss.shippingCost);
+    expect(loss.exCellarPrice).toBeLessThan(0);
+    expect(coversExportCosts(loss)).toBe(false);
+  });
+
+  it('keeps export customers out of the home markets until their licence research opens them', () => {
+    expect(isExportMarketCountry('United Kingdom')).toBe(true);
+    expect(isExportMarketCountry('France')).toBe(false);
+
+    for (const country of EXPORT_MARKET_COUNTRIES) {
+      expect(CUSTOMER_REGIONAL_DATA[country]).toBeDefined();
+      const project = RESEARCH_PROJECTS.find(p => p.id === EXPORT_MARKETS[country].researchId);
+      expect(project?.unlocks).toContainEqual(expect.objectContaining({ type: 'export_market', value: country }));
+    }
+  });
+
+  it('delivers shipments after the shipping time, losing bottles when damaged in transit', () => {
+    expect(getExportShipmentArrival(10, 'United Kingdom')).toBe(11);
+    expect(getExportShipmentArrival(10, 'Japan')).toBe(16);
+
+    const shipment = { bottles: 100, landedPrice: 30, importDuty: 4.5, transportRisk: 0.06 };
+    const safe = resolveExportShipmentArrival(shipment, () => 0.99);
+    expect(safe.bottlesLost).toBe(0);
+    expect(safe.revenue).toBe(3000);
+    expect(safe.importDuty).toBe(450);
+
+    const damaged = resolveExportShipmentArrival(shipment, () => 0);
+    expect(damaged.bottlesLost).toBe(Math.round(100 * EXPORT_TRANSPORT_DAMAGE.minLossShare));
+    expect(damaged.bottlesDelivered).toBe(100 - damaged.bottlesLost);
+    expect(damaged.revenue).toBe(damaged.bottlesDelivered * 30);
+  });
+});
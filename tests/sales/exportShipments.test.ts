@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExportShipment } from '@/lib/types/types';
+
+const mocks = vi.hoisted(() => ({
+  loadExportShipmentsInTransit: vi.fn(async (): Promise<ExportShipment[]> => []),
+  saveExportShipment: vi.fn(async (_shipment: ExportShipment) => undefined),
+  addTransaction: vi.fn(async (..._args: any[]) => undefined),
+  notificationAddMessage: vi.fn(async (..._args: any[]) => undefined),
+}));
+
+vi.mock('@/lib/database/sales/exportShipmentDB', () => ({
+  loadExportShipments: vi.fn(async () => []),
+  loadExportShipmentsInTransit: mocks.loadExportShipmentsInTransit,
+  saveExportShipment: mocks.saveExportShipment,
+}));
+
+vi.mock('@/lib/database/customers/customerDB', () => ({
+  addCustomers: vi.fn(async () => undefined),
+  loadCustomers: vi.fn(async () => []),
+}));
+
+vi.mock('@/lib/services/finance/financeService', () => ({
+  addTransaction: mocks.addTransaction,
+}));
+
+vi.mock('@/lib/services/core/gameState', () => ({
+  getGameState: () => ({ week: 10, season: 'Spring', currentYear: 2027 }),
+  getCurrentPrestige: vi.fn(async () => 0),
+}));
+
+vi.mock('@/lib/services/core/notificationService', () => ({
+  notificationService: { addMessage: mocks.notificationAddMessage },
+}));
+
+vi.mock('@/lib/services/sales/createCustomer', () => ({
+  generateCustomersForCountry: vi.fn(async () => []),
+}));
+
+vi.mock('@/lib/features/researchUpgrade', () => ({
+  researchUpgradeFeature: {},
+}));
+
+vi.mock('@/hooks/useGameUpdates', () => ({
+  triggerGameUpdate: vi.fn(),
+  triggerTopicUpdate: vi.fn(),
+}));
+
+function shipment(overrides: Partial<ExportShipment> = {}): ExportShipment {
+  return {
+    id: 'shipment-1',
+    orderId: 'order-1',
+    customerId: 'customer-1',
+    customerName: 'Tokyo Wine House',
+    country: 'Japan',
+    wineBatchId: 'batch-1',
+    wineName: 'Pinot Noir 2026',
+    bottles: 100,
+    landedPrice: 30,
+    importDuty: 4.5,
+    shippingCost: 3,
+    transportRisk: 0,
+    shippedAt: { week: 4, season: 'Spring', year: 2027 },
+    arrivesAt: 0,
+    status: 'in_transit',
+    ...overrides,
+  };
+}
+
+describe('export shipment settlement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks an arrived shipment delivered before booking its sale and import duty', async () => {
+    const order: string[] = [];
+    mocks.saveExportShipment.mockImplementationOnce(async () => { order.push('save'); });
+    mocks.addTransaction.mockImplementation(async () => { order.push('transaction'); });
+    mocks.loadExportShipmentsInTransit.mockResolvedValueOnce([shipment()]);
+    const { processExportShipments } = await import('@/lib/services/sales/exportManager');
+
+    await processExportShipments();
+
+    expect(mocks.saveExportShipment).toHaveBeenCalledWith(expect.objectContaining({ id: 'shipment-1', status: 'delivered', settledValue: 2550 }));
+    expect(order).toEqual(['save', 'transaction', 'transaction']);
+  });
+
+  it('pays nothing when the shipment cannot be marked delivered, leaving it to settle next week', async () => {
+    mocks.saveExportShipment.mockRejectedValueOnce(new Error('save failed'));
+    mocks.loadExportShipmentsInTransit.mockResolvedValueOnce([shipment(), shipment({ id: 'shipment-2' })]);
+    const { processExportShipments } = await import('@/lib/services/sales/exportManager');
+
+    await processExportShipments();
+
+    // Only the second shipment, which saved, is paid out
+    expect(mocks.saveExportShipment).toHaveBeenCalledTimes(2);
+    expect(mocks.addTransaction).toHaveBeenCalledTimes(2);
+    expect(mocks.addTransaction).toHaveBeenCalledWith(3000, expect.stringContaining('Export Sale'), expect.any(String), false);
+    expect(mocks.notificationAddMessage).toHaveBeenCalledTimes(1);
+  });
+});
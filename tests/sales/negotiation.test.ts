@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { NEGOTIATION } from '@/lib/constants/negotiationConstants';
+import {
+  calculateCounterOfferAcceptance,
+  CounterOfferContext,
+  getFailedNegotiationRounds,
+  validateCounterOffer
+} from '@/lib/services/sales/negotiationService';
+
+const baseContext: CounterOfferContext = {
+  currentTerms: { pricePerBottle: 20, quantity: 100 },
+  counterOffer: { pricePerBottle: 22, quantity: 100 },
+  askingPrice: 25,
+  priceMultiplier: 1,
+  relationship: 10,
+  salesSkill: 0.5,
+  previousRounds: 0
+};
+
+describe('counter-offer negotiation', () => {
+  it('is less likely to be accepted the more the counter asks, especially above our asking price', () => {
+    const small = calculateCounterOfferAcceptance(baseContext);
+    const large = calculateCounterOfferAcceptance({ ...baseContext, counterOffer: { pricePerBottle: 24, quantity: 100 } });
+    const overAsking = calculateCounterOfferAcceptance({ ...baseContext, counterOffer: { pricePerBottle: 28, quantity: 100 } });
+    expect(large).toBeLessThan(small);
+    expect(overAsking).toBeLessThan(large);
+
+    // A discount asks nothing of the customer
+    const discount = calculateCounterOfferAcceptance({ ...baseContext, counterOffer: { pricePerBottle: 18, quantity: 100 } });
+    expect(discount).toBe(NEGOTIATION.maxAcceptance);
+  });
+
+  it('improves with a skilled salesperson, a good relationship and a generous customer', () => {
+    const base = calculateCounterOfferAcceptance(baseContext);
+    expect(calculateCounterOfferAcceptance({ ...baseContext, salesSkill: 0.9 })).toBeGreaterThan(base);
+    expect(calculateCounterOfferAcceptance({ ...baseContext, salesSkill: undefined })).toBeLessThan(base);
+    expect(calculateCounterOfferAcceptance({ ...baseContext, relationship: 60 })).toBeGreaterThan(base);
+    expect(calculateCounterOfferAcceptance({ ...baseContext, priceMultiplier: 1.5 })).toBeGreaterThan(base);
+  });
+
+  it('loses patience with every round and weighs quantity and schedule changes', () => {
+    const base = calculateCounterOfferAcceptance(baseContext);
+    expect(calculateCounterOfferAcceptance({ ...baseContext, previousRounds: 2 }))
+      .toBeCloseTo(base * NEGOTIATION.patienceDecay ** 2);
+
+    const contract: CounterOfferContext = {
+      ...baseContext,
+      askingPrice: undefined,
+      currentTerms: { pricePerBottle: 20, quantity: 100, deliveriesPerYear: 2, durationYears: 2 },
+      counterOffer: { pricePerBottle: 20, quantity: 100, deliveriesPerYear: 2, durationYears: 3 }
+    };
+    const longer = calculateCounterOfferAcceptance(contract);
+    const moreBottles = calculateCounterOfferAcceptance({
+      ...contract,
+      counterOffer: { ...contract.counterOffer, quantity: 150 }
+    });
+    expect(longer).toBeLessThan(NEGOTIATION.maxAcceptance);
+    expect(moreBottles).toBeLessThan(longer);
+  });
+
+  it('rejects counters that are invalid or change nothing', () => {
+    const terms = { pricePerBottle: 20, quantity: 100, deliveriesPerYear: 2, durationYears: 2 };
+    expect(validateCounterOffer(terms, { ...terms }).valid).toBe(false);
+    expect(validateCounterOffer(terms, { ...terms, pricePerBottle: 0 }).valid).toBe(false);
+    expect(validateCounterOffer(terms, { ...terms, quantity: 12.5 }).valid).toBe(false);
+    expect(validateCounterOffer(terms, { ...terms, deliveriesPerYear: NEGOTIATION.maxDeliveriesPerYear + 1 }).valid).toBe(false);
+    expect(validateCounterOffer(terms, { ...terms, durationYears: 3 }).valid).toBe(true);
+
+    expect(getFailedNegotiationRounds(undefined)).toBe(0);
+  });
+});
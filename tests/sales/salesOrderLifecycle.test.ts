@@ -93,6 +93,7 @@ function wineBatch(overrides: Partial<WineBatch> = {}): WineBatch {
     },
     estimatedPrice: 18,
     grapeColor: 'red',
+    wineStyle: 'red',
     naturalYield: 0.5,
     fragile: 0.2,
     proneToOxidation: 0.2,
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSparklingPriceMultiplier } from '@/lib/services/sales/generateOrder';
+import { CUSTOMER_REGIONAL_DATA, SALES_CONSTANTS } from '@/lib/constants/constants';
+
+describe('calculateSparklingPriceMultiplier', () => {
+  it('leaves still wine bids unchanged', () => {
+    expect(calculateSparklingPriceMultiplier({ sparkling: false }, { country: 'France', customerType: 'Restaurant' })).toBe(1);
+    expect(calculateSparklingPriceMultiplier({}, { country: 'France', customerType: 'Restaurant' })).toBe(1);
+  });
+
+  it('combines customer type demand with country affinity for sparkling wine', () => {
+    const multiplier = calculateSparklingPriceMultiplier({ sparkling: true }, { country: 'France', customerType: 'Restaurant' });
+
+    expect(multiplier).toBeCloseTo(
+      SALES_CONSTANTS.CUSTOMER_TYPES['Restaurant'].sparklingPriceMultiplier * CUSTOMER_REGIONAL_DATA['France'].sparklingAffinity
+    );
+    expect(multiplier).toBeGreaterThan(
+      calculateSparklingPriceMultiplier({ sparkling: true }, { country: 'United States', customerType: 'Chain Store' })
+    );
+  });
+});
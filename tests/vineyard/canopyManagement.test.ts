@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard } from '@/lib/types/types';
+import { CANOPY_TASKS } from '@/lib/constants/canopyConstants';
+import {
+  buildCanopyWorkedVineyard,
+  getCanopyEffects,
+  validateCanopyTask
+} from '@/lib/services/vineyard/canopyService';
+import { calculateVineyardYieldBreakdown } from '@/lib/services/vineyard/vineyardManager';
+import { calculateDynamicRipenessIncrease } from '@/lib/services/vineyard/vineyardProgressionService';
+import { computeHarvestWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
+import { GREEN_FLAVOR_FEATURE } from '@/lib/services/wine/features/constants/greenFlavor';
+import { calculateCanopyWork } from '@/lib/features/activities/services/workcalculators/canopyWorkCalculator';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Canopy Block',
+    country: 'France',
+    region: 'Bordeaux',
+    hectares: 2,
+    grape: 'Pinot Noir',
+    vineAge: 12,
+    soil: ['Clay', 'Limestone'],
+    altitude: 100,
+    aspect: 'South',
+    density: 5000,
+    vineyardHealth: 0.9,
+    landValue: 50000,
+    vineyardTotalValue: 100000,
+    status: 'Growing',
+    ripeness: 0.4,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+describe('canopy management', () => {
+  it('scales green harvest effects with the share of the crop dropped and combines tasks', () => {
+    expect(getCanopyEffects(undefined).seasonYieldMultiplier).toBe(1);
+
+    const dropped = getCanopyEffects({ greenHarvestShare: 0.3 });
+    expect(dropped.seasonYieldMultiplier).toBeCloseTo(0.7);
+    expect(dropped.ripenessMultiplier).toBeCloseTo(1 + CANOPY_TASKS.greenHarvest.ripenessSpeedBonus * 0.3);
+    expect(dropped.sugarPotentialShift).toBeCloseTo(CANOPY_TASKS.greenHarvest.sugarPotentialShift * 0.3);
+
+    const combined = getCanopyEffects({ leafRemoval: true, greenHarvestShare: 0.3 });
+    expect(combined.seasonYieldMultiplier).toBeCloseTo(0.7 * CANOPY_TASKS.leafRemoval.seasonYieldMultiplier);
+    expect(combined.greyRotRiskMultiplier).toBeLessThan(dropped.greyRotRiskMultiplier);
+  });
+
+  it('allows each task once per season, only on growing vines and in its own season', () => {
+    expect(validateCanopyTask(vineyard(), 'shootThinning', 'Spring').valid).toBe(true);
+    expect(validateCanopyTask(vineyard(), 'shootThinning', 'Summer').valid).toBe(false);
+    expect(validateCanopyTask(vineyard(), 'greenHarvest', 'Summer', 0.2).valid).toBe(true);
+    expect(validateCanopyTask(vineyard(), 'greenHarvest', 'Summer', 0.8).valid).toBe(false);
+    expect(validateCanopyTask(vineyard({ status: 'Dormant' }), 'leafRemoval', 'Spring').valid).toBe(false);
+    expect(validateCanopyTask(vineyard({ canopyWork: { leafRemoval: true } }), 'leafRemoval', 'Summer').reason)
+      .toContain('already done');
+  });
+
+  it('records the task on the vineyard and gives up vine yield for shoot thinning', () => {
+    const thinned = buildCanopyWorkedVineyard(vineyard({ canopyWork: { leafRemoval: true } }), 'shootThinning');
+    expect(thinned.canopyWork).toEqual({ leafRemoval: true, shootThinning: true });
+    expect(thinned.vineYield).toBeCloseTo(1 - CANOPY_TASKS.shootThinning.vineYieldLoss);
+
+    const greenHarvested = buildCanopyWorkedVineyard(vineyard(), 'greenHarvest', 0.25);
+    expect(greenHarvested.canopyWork).toEqual({ greenHarvestShare: 0.25 });
+    expect(greenHarvested.vineYield).toBe(1);
+  });
+
+  it('trades this season\'s yield for faster ripening', () => {
+    const worked = vineyard({ canopyWork: { greenHarvestShare: 0.3 } });
+
+    const plain = calculateVineyardYieldBreakdown(vineyard())!;
+    const thinned = calculateVineyardYieldBreakdown(worked)!;
+    expect(thinned.breakdown.canopy).toBeCloseTo(0.7);
+    expect(thinned.totalYield).toBeLessThan(plain.totalYield);
+
+    expect(calculateDynamicRipenessIncrease(worked, 'Summer', 1))
+      .toBeGreaterThan(calculateDynamicRipenessIncrease(vineyard(), 'Summer', 1));
+  });
+
+  it('lowers green flavor risk and raises sugar and phenolic potential at harvest', () => {
+    const trigger = (GREEN_FLAVOR_FEATURE.behaviorConfig as any).eventTriggers[0];
+    const worked = vineyard({ canopyWork: { leafRemoval: true } });
+    expect(trigger.riskIncrease({ options: worked })).toBeCloseTo(trigger.riskIncrease({ options: vineyard() }) * CANOPY_TASKS.leafRemoval.greenFlavorRiskMultiplier);
+
+    const opts = { minAltitude: 0, maxAltitude: 400, ripeness: 0.8, landValueModifier: 0.5 };
+    const plain = computeHarvestWineAnchors(vineyard(), 'Pinot Noir', opts);
+    const anchors = computeHarvestWineAnchors(worked, 'Pinot Noir', opts);
+    expect(anchors.sugarPotential).toBeCloseTo(plain.sugarPotential + CANOPY_TASKS.leafRemoval.sugarPotentialShift);
+    expect(anchors.phenolicPotential).toBeCloseTo(plain.phenolicPotential + CANOPY_TASKS.leafRemoval.phenolicPotentialShift);
+  });
+
+  it('takes longer on denser plantings', () => {
+    const standard = calculateCanopyWork(vineyard(), 'leafRemoval');
+    const dense = calculateCanopyWork(vineyard({ density: 8000 }), 'leafRemoval');
+    expect(dense.totalWork).toBeGreaterThan(standard.totalWork);
+    expect(dense.factors.some((factor) => factor.label === 'Vine Density')).toBe(true);
+  });
+});
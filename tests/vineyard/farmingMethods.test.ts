@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard } from '@/lib/types/types';
+import { FARMING_METHODS, ORGANIC_CONVERSION_YEARS } from '@/lib/constants/farmingConstants';
+import {
+  advanceFarmingYear,
+  changeFarmingMethod,
+  getFarmingCertification,
+  getFarmingConversionYearsRemaining,
+  getSharedFarmingCertification,
+  meetsFarmingCertification
+} from '@/lib/services/vineyard/farmingService';
+import { calculateVineyardYieldBreakdown } from '@/lib/services/vineyard/vineyardManager';
+import { calculateAdjustedLandValueBreakdown } from '@/lib/services/vineyard/vineyardValueCalc';
+import { calculateFarmingPriceMultiplier } from '@/lib/services/sales/generateOrder';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Farming Block',
+    country: 'Italy',
+    region: 'Tuscany',
+    hectares: 2,
+    grape: 'Sangiovese',
+    vineAge: 10,
+    soil: ['Clay', 'Limestone'],
+    altitude: 300,
+    aspect: 'South',
+    density: 5000,
+    vineyardHealth: 1,
+    landValue: 50000,
+    vineyardTotalValue: 100000,
+    status: 'Growing',
+    ripeness: 0.8,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+describe('farming methods', () => {
+  it('certifies organic and biodynamic vineyards only after the conversion period', () => {
+    expect(getFarmingCertification(vineyard())).toBeNull();
+    expect(getFarmingCertification(vineyard({ farmingMethod: 'organic', organicYears: ORGANIC_CONVERSION_YEARS - 1 }))).toBeNull();
+    expect(getFarmingCertification(vineyard({ farmingMethod: 'organic', organicYears: ORGANIC_CONVERSION_YEARS }))).toBe('organic');
+    expect(getFarmingCertification(vineyard({ farmingMethod: 'biodynamic', organicYears: 5, biodynamicYears: 5 }))).toBe('biodynamic');
+    expect(getFarmingConversionYearsRemaining(vineyard({ farmingMethod: 'organic', organicYears: 1 }))).toBe(ORGANIC_CONVERSION_YEARS - 1);
+  });
+
+  it('counts conversion years only while farming without synthetic inputs', () => {
+    expect(advanceFarmingYear(vineyard({ farmingMethod: 'organic', organicYears: 2 }))).toEqual({ farmingMethod: 'organic', organicYears: 3, biodynamicYears: 0 });
+    expect(advanceFarmingYear(vineyard({ farmingMethod: 'biodynamic', organicYears: 4, biodynamicYears: 1 }))).toEqual({ farmingMethod: 'biodynamic', organicYears: 5, biodynamicYears: 2 });
+    expect(advanceFarmingYear(vineyard({ organicYears: 2 }))).toEqual({ farmingMethod: 'conventional', organicYears: 0, biodynamicYears: 0 });
+  });
+
+  it('keeps organic certification while a certified organic vineyard converts to biodynamic', () => {
+    const certifiedOrganic = vineyard({ farmingMethod: 'organic', organicYears: ORGANIC_CONVERSION_YEARS + 2 });
+    const biodynamic = changeFarmingMethod(certifiedOrganic, 'biodynamic');
+
+    expect(biodynamic).toEqual({ farmingMethod: 'biodynamic', organicYears: ORGANIC_CONVERSION_YEARS + 2, biodynamicYears: 0 });
+    expect(getFarmingCertification(biodynamic)).toBe('organic');
+    expect(getFarmingConversionYearsRemaining(biodynamic)).toBe(ORGANIC_CONVERSION_YEARS);
+    expect(getFarmingCertification({ ...biodynamic, biodynamicYears: ORGANIC_CONVERSION_YEARS })).toBe('biodynamic');
+
+    // Biodynamic farming already meets organic rules, so stepping down keeps the certification
+    const organic = changeFarmingMethod(vineyard({ farmingMethod: 'biodynamic', organicYears: ORGANIC_CONVERSION_YEARS, biodynamicYears: ORGANIC_CONVERSION_YEARS }), 'organic');
+    expect(organic).toEqual({ farmingMethod: 'organic', organicYears: ORGANIC_CONVERSION_YEARS, biodynamicYears: 0 });
+    expect(getFarmingCertification(organic)).toBe('organic');
+    expect(changeFarmingMethod(certifiedOrganic, 'conventional')).toEqual({ farmingMethod: 'conventional', organicYears: 0, biodynamicYears: 0 });
+  });
+
+  it('gives up yield from the first year of conversion', () => {
+    const conventional = calculateVineyardYieldBreakdown(vineyard())!;
+    const converting = calculateVineyardYieldBreakdown(vineyard({ farmingMethod: 'biodynamic', organicYears: 0 }))!;
+
+    expect(conventional.breakdown.farming).toBe(1);
+    expect(converting.breakdown.farming).toBe(FARMING_METHODS.biodynamic.yieldMultiplier);
+    expect(converting.totalYield).toBeLessThan(conventional.totalYield);
+  });
+
+  it('raises land value only once certified', () => {
+    const converting = calculateAdjustedLandValueBreakdown(vineyard({ farmingMethod: 'organic', organicYears: 1 }));
+    const certified = calculateAdjustedLandValueBreakdown(vineyard({ farmingMethod: 'organic', organicYears: ORGANIC_CONVERSION_YEARS }));
+
+    expect(converting.farmingBonusPct).toBe(0);
+    expect(certified.farmingBonusPct).toBe(FARMING_METHODS.organic.landValueBonus);
+    expect(certified.adjustedPerHa).toBeGreaterThan(converting.adjustedPerHa);
+  });
+
+  it('prices certified wine per customer type and keeps the lowest shared certification in blends', () => {
+    expect(calculateFarmingPriceMultiplier({}, { customerType: 'Wine Shop' })).toBe(1);
+    expect(calculateFarmingPriceMultiplier({ farmingCertification: 'organic' }, { customerType: 'Wine Shop' }))
+      .toBe(FARMING_METHODS.organic.customerPriceMultipliers['Wine Shop']);
+
+    expect(getSharedFarmingCertification([{ farmingCertification: 'biodynamic' }, { farmingCertification: 'organic' }])).toBe('organic');
+    expect(getSharedFarmingCertification([{ farmingCertification: 'biodynamic' }, {}])).toBeUndefined();
+    expect(meetsFarmingCertification('biodynamic', 'organic')).toBe(true);
+    expect(meetsFarmingCertification(undefined, 'organic')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard } from '@/lib/types/types';
+import { IRRIGATION, WATER_STRESS } from '@/lib/constants/irrigationConstants';
+import { projectSoilMoisture, projectVineyardWeek, type WeatherWeekContext } from '@/lib/features/weather';
+import {
+  calculateIrrigationInstallCost,
+  getIrrigationRule,
+  getWaterStress,
+  getWaterStressEffects,
+  validateIrrigationInstall
+} from '@/lib/services/vineyard/irrigationService';
+import { computeHarvestWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Dry Slope',
+    country: 'Spain',
+    region: 'Rioja',
+    hectares: 3,
+    grape: 'Tempranillo',
+    vineAge: 12,
+    soil: ['Limestone'],
+    altitude: 300,
+    aspect: 'South',
+    density: 5000,
+    vineyardHealth: 0.8,
+    landValue: 40000,
+    vineyardTotalValue: 120000,
+    status: 'Growing',
+    ripeness: 0.4,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+function weather(overrides: Partial<WeatherWeekContext> = {}): WeatherWeekContext {
+  return {
+    date: { year: 2026, season: 'Summer', week: 4 },
+    state: 'Heat',
+    intensity: 'Moderate',
+    seasonalPattern: 'Dry',
+    forecast: { state: 'Heat', intensity: 'Moderate', confidence: 'High' },
+    ...overrides
+  };
+}
+
+describe('irrigation', () => {
+  it('allows irrigation only where appellation rules permit it', () => {
+    expect(getIrrigationRule('France', 'Bordeaux').allowed).toBe(false);
+    expect(getIrrigationRule('Italy', 'Tuscany').allowed).toBe(false);
+    expect(getIrrigationRule('Italy', 'Puglia').allowed).toBe(true);
+    expect(getIrrigationRule('Spain', 'Rioja').allowed).toBe(true);
+
+    expect(validateIrrigationInstall(vineyard()).valid).toBe(true);
+    expect(validateIrrigationInstall(vineyard({ country: 'France', region: 'Champagne' })).valid).toBe(false);
+    expect(validateIrrigationInstall(vineyard({ irrigation: { active: false, weeksWatered: 0 } })).valid).toBe(false);
+    expect(calculateIrrigationInstallCost(vineyard())).toBe(3 * IRRIGATION.installCostPerHectare);
+  });
+
+  it('dries soil in hot weather, less on water-retentive soil, and wets it in rain', () => {
+    const moist = { soilMoisture: 0.5, stressWeeks: 0 };
+    const sand = projectSoilMoisture(vineyard({ soil: ['Sand', 'Gravel'], waterState: moist }), weather());
+    const clay = projectSoilMoisture(vineyard({ soil: ['Clay', 'Marl'], waterState: moist }), weather());
+    const rain = projectSoilMoisture(vineyard({ waterState: moist }), weather({ state: 'Rain', seasonalPattern: 'Wet' }));
+
+    expect(sand.weatherDelta).toBeLessThan(clay.weatherDelta);
+    expect(clay.weatherDelta).toBeLessThan(0);
+    expect(rain.weatherDelta).toBeGreaterThan(0);
+  });
+
+  it('tops dry soil up with active irrigation during the growing season only', () => {
+    const dry = { soilMoisture: 0.3, stressWeeks: 0 };
+    const irrigated = projectSoilMoisture(vineyard({ waterState: dry, irrigation: { active: true, weeksWatered: 0 } }), weather());
+    const switchedOff = projectSoilMoisture(vineyard({ waterState: dry, irrigation: { active: false, weeksWatered: 0 } }), weather());
+    const winter = projectSoilMoisture(
+      vineyard({ waterState: dry, irrigation: { active: true, weeksWatered: 0 } }),
+      weather({ date: { year: 2026, season: 'Winter', week: 4 }, state: 'Clear' })
+    );
+
+    expect(irrigated.irrigation).toBeGreaterThan(0);
+    expect(irrigated.irrigation).toBeLessThanOrEqual(IRRIGATION.weeklyWater);
+    expect(irrigated.projected).toBeGreaterThan(switchedOff.projected);
+    expect(switchedOff.irrigation).toBe(0);
+    expect(winter.irrigation).toBe(0);
+  });
+
+  it('slows ripening, costs health and shifts harvest anchors under water stress', () => {
+    const moist = projectVineyardWeek({ companyId: 'company-1', vineyard: vineyard({ waterState: { soilMoisture: 0.7, stressWeeks: 0 } }), weather: weather() });
+    const dry = projectVineyardWeek({ companyId: 'company-1', vineyard: vineyard({ waterState: { soilMoisture: 0.1, stressWeeks: 0 } }), weather: weather() });
+
+    expect(getWaterStress(0.7)).toBe(0);
+    expect(dry.moisture.stress).toBeGreaterThan(0);
+    expect(dry.ripeness.finalDelta).toBeLessThan(moist.ripeness.finalDelta);
+    expect(dry.health.finalDelta).toBeLessThan(moist.health.finalDelta);
+
+    const effects = getWaterStressEffects(vineyard({ waterState: { soilMoisture: 0.2, stressWeeks: WATER_STRESS.seasonWeeks } }));
+    expect(effects.acidPotentialShift).toBeCloseTo(WATER_STRESS.acidPotentialShift);
+    expect(effects.phenolicPotentialShift).toBeCloseTo(WATER_STRESS.phenolicPotentialShift);
+
+    const opts = { minAltitude: 0, maxAltitude: 800, ripeness: 0.9, landValueModifier: 0.5 };
+    const unstressed = computeHarvestWineAnchors(vineyard(), 'Tempranillo', opts);
+    const stressed = computeHarvestWineAnchors(vineyard({ waterState: { soilMoisture: 0.2, stressWeeks: 18 } }), 'Tempranillo', opts);
+    expect(stressed.acidPotential).toBeLessThan(unstressed.acidPotential);
+    expect(stressed.phenolicPotential).toBeGreaterThan(unstressed.phenolicPotential);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard } from '@/lib/types/types';
+import { GRAPE_DISEASE_RESISTANCE } from '@/lib/constants/grapeConstants';
+import { ROOTSTOCKS, VINE_CLONES } from '@/lib/constants/plantingMaterialConstants';
+import { calculateVineYieldProgression, calculateVineyardYieldBreakdown } from '@/lib/services/vineyard/vineyardManager';
+import { calculateDynamicRipenessIncrease } from '@/lib/services/vineyard/vineyardProgressionService';
+import { getDiseaseResistance } from '@/lib/services/vineyard/vineDiseaseService';
+import { computeHarvestWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
+import {
+  getAvailableVineClones,
+  getPlantingMaterialEffects,
+  getRootstockSoilFit,
+  isVineCloneAvailable
+} from '@/lib/services/vineyard/plantingMaterialService';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Les Cailloux',
+    country: 'France',
+    region: 'Bourgogne',
+    hectares: 2,
+    grape: 'Pinot Noir',
+    vineAge: 12,
+    soil: ['Limestone', 'Clay'],
+    altitude: 250,
+    aspect: 'South',
+    density: 8000,
+    vineyardHealth: 0.8,
+    landValue: 80000,
+    vineyardTotalValue: 160000,
+    status: 'Growing',
+    ripeness: 0.6,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+const anchorOptions = { minAltitude: 0, maxAltitude: 600, ripeness: 0.9, landValueModifier: 0.6 };
+
+describe('planting material', () => {
+  it('leaves vines without recorded planting material unchanged', () => {
+    const legacy = vineyard();
+    const effects = getPlantingMaterialEffects(legacy);
+    expect(effects.naturalYieldMultiplier).toBe(1);
+    expect(effects.vineYieldGrowthMultiplier).toBe(1);
+    expect(effects.droughtResistance).toBe(0);
+    expect(getDiseaseResistance(legacy, 'phylloxera')).toBe(GRAPE_DISEASE_RESISTANCE['Pinot Noir'].phylloxera);
+  });
+
+  it('trades crop size against concentration through the clone', () => {
+    const massal = vineyard({ rootstock: 'so4', vineClone: 'massalSelection' });
+    const productive = vineyard({ rootstock: 'so4', vineClone: 'productive' });
+
+    const base = calculateVineyardYieldBreakdown(vineyard())!;
+    expect(calculateVineyardYieldBreakdown(massal)!.breakdown.naturalYield)
+      .toBeCloseTo(base.breakdown.naturalYield * VINE_CLONES.massalSelection.naturalYieldMultiplier);
+    expect(calculateVineyardYieldBreakdown(productive)!.totalYield).toBeGreaterThan(calculateVineyardYieldBreakdown(massal)!.totalYield);
+
+    const massalAnchors = computeHarvestWineAnchors(massal, 'Pinot Noir', anchorOptions);
+    const productiveAnchors = computeHarvestWineAnchors(productive, 'Pinot Noir', anchorOptions);
+    expect(massalAnchors.phenolicPotential).toBeGreaterThan(productiveAnchors.phenolicPotential);
+    expect(massalAnchors.aromaticPotential).toBeGreaterThan(productiveAnchors.aromaticPotential);
+  });
+
+  it('sets establishment, ripening, drought and disease through the rootstock and its soil fit', () => {
+    const vigorous = vineyard({ rootstock: 'rupestrisDuLot', soil: ['Gravel'] });
+    const calm = vineyard({ rootstock: 'ripariaGloire', soil: ['Gravel'] });
+    expect(getRootstockSoilFit('rupestrisDuLot', ['Gravel', 'Clay'])).toBe(0.5);
+
+    const vigorousGrowth = getPlantingMaterialEffects(vigorous).vineYieldGrowthMultiplier;
+    expect(vigorousGrowth).toBeCloseTo(ROOTSTOCKS.rupestrisDuLot.vigour * 1.1);
+    expect(calculateVineYieldProgression(2, 0.3, vigorousGrowth).expectedDelta).toBeCloseTo(0.3 * vigorousGrowth);
+    // Decline of old vines is not sped up or slowed down
+    expect(calculateVineYieldProgression(20, 0.9, vigorousGrowth).expectedDelta).toBeCloseTo(-0.4 / 15);
+
+    expect(calculateDynamicRipenessIncrease(calm, 'Summer', 1)).toBeGreaterThan(calculateDynamicRipenessIncrease(vigorous, 'Summer', 1));
+    expect(getPlantingMaterialEffects(vineyard({ rootstock: 'richter110' })).droughtResistance).toBe(ROOTSTOCKS.richter110.droughtResistance);
+
+    expect(getDiseaseResistance(vineyard({ rootstock: 'so4' }), 'phylloxera')).toBeGreaterThan(getDiseaseResistance(vineyard(), 'phylloxera'));
+    expect(getDiseaseResistance(vineyard({ rootstock: 'ownRoots' }), 'phylloxera')).toBe(0);
+  });
+
+  it('offers premium clones only once researched', () => {
+    expect(getAvailableVineClones([])).toEqual(['standard', 'productive']);
+    expect(isVineCloneAvailable('smallBerry', [])).toBe(false);
+    expect(isVineCloneAvailable('smallBerry', ['smallBerry'])).toBe(true);
+    expect(getAvailableVineClones(['smallBerry', 'massalSelection'])).toHaveLength(4);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard } from '@/lib/types/types';
+import type { WineFeature } from '@/lib/types/wineFeatures';
+import { VINE_DISEASES, VINE_TREATMENTS } from '@/lib/constants/vineDiseaseConstants';
+import { projectVineyardWeek, type WeatherWeekContext } from '@/lib/features/weather';
+import { getFeatureConfig } from '@/lib/services/wine/features/constants/commonFeaturesUtil';
+import { calculateVineyardYieldBreakdown } from '@/lib/services/vineyard/vineyardManager';
+import {
+  advanceVineDisease,
+  buildTreatedVineyard,
+  calculateDiseasePressure,
+  validateVineTreatment
+} from '@/lib/services/vineyard/vineDiseaseService';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Low Meadow',
+    country: 'France',
+    region: 'Bourgogne',
+    hectares: 2,
+    grape: 'Pinot Noir',
+    vineAge: 15,
+    soil: ['Clay', 'Limestone'],
+    altitude: 250,
+    aspect: 'West',
+    density: 5000,
+    vineyardHealth: 0.8,
+    landValue: 80000,
+    vineyardTotalValue: 160000,
+    status: 'Growing',
+    ripeness: 0.4,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+function disease(id: string, overrides: Partial<WineFeature> = {}): WineFeature {
+  return { id, name: id, icon: '', isPresent: false, severity: 0, risk: 0, ...overrides };
+}
+
+const summer = { season: 'Summer' as const, year: 2026 };
+const wetYear = { weeks: 10, clear: 2, rain: 6, heat: 1, frost: 0, storm: 1, snow: 0 };
+const hotYear = { weeks: 10, clear: 2, rain: 0, heat: 8, frost: 0, storm: 0, snow: 0 };
+
+describe('vine disease', () => {
+  it('builds pressure from weather history, site and grape resistance', () => {
+    const wet = vineyard({ vintageWeather: wetYear });
+    const hot = vineyard({ vintageWeather: hotYear });
+    expect(calculateDiseasePressure(wet, 'downyMildew', summer)).toBeGreaterThan(calculateDiseasePressure(hot, 'downyMildew', summer));
+    expect(calculateDiseasePressure(hot, 'powderyMildew', summer)).toBeGreaterThan(calculateDiseasePressure(wet, 'powderyMildew', summer));
+
+    const neutral = calculateDiseasePressure(wet, 'downyMildew', summer);
+    expect(calculateDiseasePressure(vineyard({ vintageWeather: wetYear, density: 9000 }), 'downyMildew', summer)).toBeGreaterThan(neutral);
+    expect(calculateDiseasePressure(vineyard({ vintageWeather: wetYear, aspect: 'North' }), 'downyMildew', summer)).toBeGreaterThan(neutral);
+    expect(calculateDiseasePressure(vineyard({ vintageWeather: wetYear, overgrowth: { vegetation: 3, debris: 0, uproot: 0, replant: 0 } }), 'downyMildew', summer)).toBeGreaterThan(neutral);
+    expect(calculateDiseasePressure(vineyard({ vintageWeather: wetYear, grape: 'Primitivo' }), 'downyMildew', summer)).toBeLessThan(neutral);
+
+    expect(calculateDiseasePressure(vineyard({ soil: ['Sand'] }), 'phylloxera', summer)).toBeLessThan(calculateDiseasePressure(vineyard(), 'phylloxera', summer));
+    expect(calculateDiseasePressure(wet, 'downyMildew', { season: 'Fall', year: 2026 })).toBe(0);
+    expect(calculateDiseasePressure(vineyard({ grape: null }), 'phylloxera', summer)).toBe(0);
+  });
+
+  it('accumulates risk on pending features, breaks out on the roll and then spreads', () => {
+    const wet = vineyard({ vintageWeather: wetYear });
+    const building = advanceVineDisease(undefined, wet, 'downyMildew', summer, 0.99);
+    expect(building.isPresent).toBe(false);
+    expect(building.risk).toBeCloseTo(VINE_DISEASES.downyMildew.baseRate * calculateDiseasePressure(wet, 'downyMildew', summer));
+
+    const outbreak = advanceVineDisease(building, wet, 'downyMildew', summer, 0);
+    expect(outbreak.isPresent).toBe(true);
+    expect(outbreak.severity).toBeCloseTo(outbreak.risk!);
+    expect(advanceVineDisease(outbreak, wet, 'downyMildew', summer).severity).toBeGreaterThan(outbreak.severity);
+
+    const hook = getFeatureConfig('powdery_mildew')?.processVineyardFeatures;
+    const features = hook!([], vineyard({ vintageWeather: hotYear }), { season: 'Summer', week: 4, year: 2026 });
+    expect(features.find(f => f.id === 'powdery_mildew')?.risk).toBeGreaterThan(0);
+  });
+
+  it('costs health and yield while present', () => {
+    const infected = vineyard({ pendingFeatures: [disease('downy_mildew', { isPresent: true, severity: 0.5, risk: 0.5 })] });
+    expect(calculateVineyardYieldBreakdown(infected)!.breakdown.disease).toBeCloseTo(1 - VINE_DISEASES.downyMildew.yieldLoss * 0.5);
+    expect(calculateVineyardYieldBreakdown(vineyard())!.breakdown.disease).toBe(1);
+
+    const weather: WeatherWeekContext = {
+      date: { year: 2026, season: 'Summer', week: 4 },
+      state: 'Clear',
+      intensity: 'Mild',
+      seasonalPattern: 'Stable',
+      forecast: { state: 'Clear', intensity: 'Mild', confidence: 'High' }
+    };
+    const healthy = projectVineyardWeek({ companyId: 'company-1', vineyard: vineyard(), weather });
+    const sick = projectVineyardWeek({ companyId: 'company-1', vineyard: infected, weather });
+    expect(sick.health.finalDelta).toBeCloseTo(healthy.health.finalDelta - VINE_DISEASES.downyMildew.weeklyHealthLoss * 0.5);
+  });
+
+  it('knocks a disease back and protects the vines for the season when treated', () => {
+    const infected = vineyard({
+      vintageWeather: wetYear,
+      pendingFeatures: [disease('downy_mildew', { isPresent: true, severity: 0.4, risk: 0.4 }), disease('phylloxera', { risk: 0.2 })]
+    });
+    const treated = buildTreatedVineyard(infected, 'copperSpray', summer);
+    const mildew = treated.pendingFeatures!.find(f => f.id === 'downy_mildew')!;
+    expect(mildew.severity).toBeCloseTo(0.4 * (1 - VINE_TREATMENTS.copperSpray.severityReduction));
+    expect(mildew.risk).toBeCloseTo(0.4 * (1 - VINE_TREATMENTS.copperSpray.riskReduction));
+    expect(treated.pendingFeatures!.find(f => f.id === 'phylloxera')?.risk).toBe(0.2);
+    expect(calculateDiseasePressure(treated, 'downyMildew', summer))
+      .toBeCloseTo(calculateDiseasePressure(infected, 'downyMildew', summer) * (1 - VINE_TREATMENTS.copperSpray.protection));
+    expect(calculateDiseasePressure(treated, 'downyMildew', { season: 'Spring', year: 2027 }))
+      .toBeCloseTo(calculateDiseasePressure(infected, 'downyMildew', { season: 'Spring', year: 2027 }));
+
+    expect(validateVineTreatment(infected, 'copperSpray', summer).valid).toBe(true);
+    expect(validateVineTreatment(treated, 'copperSpray', summer).valid).toBe(false);
+    expect(validateVineTreatment(infected, 'copperSpray', { season: 'Fall', year: 2026 }).valid).toBe(false);
+    expect(validateVineTreatment(vineyard({ status: 'Dormant' }), 'rootTreatment', summer).valid).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { GameDate, Vineyard, VineyardHistoryEvent } from '@/lib/types/types';
+import { GRAPE_TENURE_LAND_VALUE } from '@/lib/constants/vineyardConstants';
+import {
+  buildVineyardHistoryEvent,
+  getGrapeTenureLandValueBonus,
+  getGrapeTenureStartYear,
+  getGrapeTenureYears
+} from '@/lib/services/vineyard/vineyardHistoryService';
+import { calculateAdjustedLandValueBreakdown } from '@/lib/services/vineyard/vineyardValueCalc';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Heritage Block',
+    country: 'France',
+    region: 'Bordeaux',
+    hectares: 2,
+    grape: 'Pinot Noir',
+    vineAge: 3,
+    soil: ['Clay', 'Limestone'],
+    altitude: 100,
+    aspect: 'South',
+    density: 5000,
+    vineyardHealth: 0.9,
+    landValue: 50000,
+    vineyardTotalValue: 100000,
+    status: 'Growing',
+    ripeness: 0.4,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+const date = (year: number): GameDate => ({ week: 4, season: 'Spring', year });
+
+describe('vineyard history', () => {
+  it('records the vineyard, grape and game date on each event', () => {
+    const event = buildVineyardHistoryEvent(vineyard(), 'planted', date(2026), { density: 5000 });
+    expect(event).toEqual(expect.objectContaining({
+      vineyardId: 'vineyard-1',
+      vineyardName: 'Heritage Block',
+      eventType: 'planted',
+      grape: 'Pinot Noir',
+      density: 5000,
+      week: 4,
+      season: 'Spring',
+      year: 2026
+    }));
+  });
+
+  it('counts grape tenure from the latest planting and keeps it through replanting', () => {
+    const barren = vineyard({ grape: null, vineAge: null });
+    const history: VineyardHistoryEvent[] = [
+      buildVineyardHistoryEvent(barren, 'purchased', date(2020), { amount: 100000 }),
+      buildVineyardHistoryEvent(vineyard({ grape: 'Chardonnay' }), 'planted', date(2020)),
+      buildVineyardHistoryEvent(vineyard({ grape: 'Chardonnay' }), 'uprooted', date(2024), { intensity: 1 }),
+      buildVineyardHistoryEvent(vineyard(), 'planted', date(2025)),
+      buildVineyardHistoryEvent(vineyard(), 'replanted', date(2030), { intensity: 0.5 })
+    ];
+
+    expect(getGrapeTenureStartYear(vineyard(), history)).toBe(2025);
+    expect(getGrapeTenureYears(vineyard(), history, 2035)).toBe(10);
+    expect(getGrapeTenureYears(barren, history, 2035)).toBe(0);
+    expect(getGrapeTenureYears(vineyard({ id: 'other' }), history, 2035)).toBe(3);
+  });
+
+  it('ends tenure at a full uproot and falls back to vine age without recorded planting', () => {
+    const uprooted = [buildVineyardHistoryEvent(vineyard(), 'uprooted', date(2030), { intensity: 1 })];
+    expect(getGrapeTenureStartYear(vineyard(), uprooted)).toBeNull();
+    expect(getGrapeTenureYears(vineyard({ vineAge: 12.6 }), [], 2035)).toBe(12);
+  });
+
+  it('adds a capped land value bonus for long grape tenure', () => {
+    expect(getGrapeTenureLandValueBonus(0)).toBe(0);
+    expect(getGrapeTenureLandValueBonus(GRAPE_TENURE_LAND_VALUE.fullBonusYears / 2)).toBeCloseTo(GRAPE_TENURE_LAND_VALUE.maxBonus / 2);
+    expect(getGrapeTenureLandValueBonus(500)).toBe(GRAPE_TENURE_LAND_VALUE.maxBonus);
+
+    const plain = calculateAdjustedLandValueBreakdown(vineyard());
+    const tenured = calculateAdjustedLandValueBreakdown(vineyard(), 25);
+    expect(plain.tenureBonusPct).toBe(0);
+    expect(tenured.tenureBonusPct).toBeCloseTo(getGrapeTenureLandValueBonus(25));
+    expect(tenured.adjustedTotal).toBeGreaterThan(plain.adjustedTotal);
+    expect(calculateAdjustedLandValueBreakdown(vineyard({ grape: null }), 25).tenureBonusPct).toBe(0);
+  });
+});
@@ -118,9 +118,11 @@ vi.mock('@/lib/features/researchUpgrade/services/research/researchPermanentEffec
   getResearchPermanentEffects: mocks.getResearchPermanentEffects
 }));
 
-vi.mock('@/lib/features/weather', () => ({
+vi.mock('@/lib/features/weather', async () => ({
+  accumulateVintageWeather: (await vi.importActual<typeof import('@/lib/features/weather/weatherVineyardService')>('@/lib/features/weather/weatherVineyardService')).accumulateVintageWeather,
   createWeatherWeekContext: mocks.createWeatherWeekContext,
   projectVineyardWeek: mocks.projectVineyardWeek,
+  projectSoilMoisture: (await vi.importActual<typeof import('@/lib/features/weather/weatherVineyardService')>('@/lib/features/weather/weatherVineyardService')).projectSoilMoisture,
 }));
 
 vi.mock('@/lib/utils/companyUtils', () => ({
@@ -290,6 +292,99 @@ describe('vineyard lifecycle services', () => {
     expect(mocks.updateBaseVineyardPrestigeEvent).toHaveBeenCalledWith('vineyard-1');
   }, 15000);
 
+  it('counts organic conversion years and certifies the vineyard when the conversion completes', async () => {
+    mocks.setVineyards([
+      vineyard({ farmingMethod: 'organic', organicYears: 2 }),
+      vineyard({ id: 'vineyard-2', grape: null, vineAge: null, farmingMethod: 'biodynamic', organicYears: 0 }),
+      vineyard({ id: 'vineyard-3', organicYears: 4 }),
+      vineyard({ id: 'vineyard-4', farmingMethod: 'biodynamic', organicYears: 6, biodynamicYears: 2 }),
+    ]);
+    const { updateVineyardAges } = await import('@/lib/services/vineyard/vineyardManager');
+
+    await updateVineyardAges();
+
+    expect(mocks.saveVineyard).toHaveBeenCalledWith(expect.objectContaining({ id: 'vineyard-1', farmingMethod: 'organic', organicYears: 3 }));
+    expect(mocks.saveVineyard).toHaveBeenCalledWith(expect.objectContaining({ id: 'vineyard-2', farmingMethod: 'biodynamic', organicYears: 1 }));
+    expect(mocks.saveVineyard).toHaveBeenCalledWith(expect.objectContaining({ id: 'vineyard-3', farmingMethod: 'conventional', organicYears: 0 }));
+    expect(mocks.saveVineyard).toHaveBeenCalledWith(expect.objectContaining({ id: 'vineyard-4', farmingMethod: 'biodynamic', organicYears: 7, biodynamicYears: 3 }));
+    expect(mocks.notificationAddMessage).toHaveBeenCalledTimes(2);
+    expect(mocks.notificationAddMessage).toHaveBeenCalledWith(
+      expect.stringContaining('certified organic'),
+      'vineyardManager.farmingCertification',
+      'Farming Certification',
+      expect.anything()
+    );
+    expect(mocks.notificationAddMessage).toHaveBeenCalledWith(
+      expect.stringContaining('certified biodynamic'),
+      'vineyardManager.farmingCertification',
+      'Farming Certification',
+      expect.anything()
+    );
+  }, 15000);
+
+  it('drops canopy work that completes after harvest, replanting or its season', async () => {
+    const { completeCanopyActivity } = await import('@/lib/services/vineyard/canopyManager');
+    const canopyActivity = activity({
+      category: WorkCategory.CLEARING,
+      targetId: 'vineyard-1',
+      params: { type: 'canopy_work', task: 'leafRemoval', grape: 'Pinot Noir' }
+    });
+    mocks.getGameState.mockReturnValue({ week: 10, season: 'Summer', currentYear: 2026 });
+
+    mocks.setVineyards([vineyard({ status: 'Harvested' })]);
+    await completeCanopyActivity(canopyActivity);
+    mocks.setVineyards([vineyard({ grape: 'Chardonnay' })]);
+    await completeCanopyActivity(canopyActivity);
+    mocks.setVineyards([vineyard()]);
+    mocks.getGameState.mockReturnValue({ week: 1, season: 'Fall', currentYear: 2026 });
+    await completeCanopyActivity(canopyActivity);
+
+    expect(mocks.saveVineyard).not.toHaveBeenCalled();
+    expect(mocks.notificationAddMessage).toHaveBeenCalledTimes(3);
+    expect(mocks.notificationAddMessage).toHaveBeenCalledWith(
+      expect.stringContaining('no longer applies'),
+      'canopyManager.completeCanopyActivity',
+      'Canopy Work Dropped',
+      expect.anything()
+    );
+
+    mocks.getGameState.mockReturnValue({ week: 10, season: 'Summer', currentYear: 2026 });
+    await completeCanopyActivity(canopyActivity);
+    expect(mocks.saveVineyard).toHaveBeenCalledWith(expect.objectContaining({ canopyWork: { leafRemoval: true } }));
+  }, 15000);
+
+  it('clears last season\'s canopy work at the new year', async () => {
+    mocks.setVineyards([vineyard({ canopyWork: { leafRemoval: true, greenHarvestShare: 0.2 } })]);
+    const { updateVineyardAges } = await import('@/lib/services/vineyard/vineyardManager');
+
+    await updateVineyardAges();
+
+    expect(mocks.saveVineyard).toHaveBeenCalledWith(expect.objectContaining({ id: 'vineyard-1', canopyWork: undefined }));
+  }, 15000);
+
+  it('adds each growing week\'s weather to the vintage and starts a new vintage at the new year', async () => {
+    mocks.setVineyards([vineyard({ status: 'Growing', ripeness: 0.3 })]);
+    const { updateVineyardAges, updateVineyardRipeness } = await import('@/lib/services/vineyard/vineyardManager');
+
+    await updateVineyardRipeness('Summer', 4);
+    await updateVineyardRipeness('Summer', 5);
+    expect((await mocks.loadVineyards())[0].vintageWeather).toEqual(expect.objectContaining({ weeks: 2, clear: 1.5 }));
+
+    await updateVineyardAges();
+    expect(mocks.saveVineyard).toHaveBeenCalledWith(expect.objectContaining({ id: 'vineyard-1', vintageWeather: undefined }));
+  }, 15000);
+
+  it('speeds up health decay for vineyards farmed without synthetic sprays', async () => {
+    mocks.setVineyards([vineyard({ farmingMethod: 'organic', organicYears: 1 })]);
+    const { updateVineyardHealthDegradation } = await import('@/lib/services/vineyard/vineyardManager');
+
+    await updateVineyardHealthDegradation('Fall', 1);
+
+    expect(mocks.projectVineyardWeek).toHaveBeenCalledWith(expect.objectContaining({
+      healthDecayMultiplier: expect.closeTo(0.8 * 1.15, 5),
+    }));
+  });
+
   it('creates partial harvest batches as activity work progresses and records harvested-so-far state', async () => {
     const harvestActivity = activity({ totalWork: 100, completedWork: 0, params: { storagePlanId: 'plan-1', outputBatchId: 'batch-1' } });
     mocks.setActivities([harvestActivity]);
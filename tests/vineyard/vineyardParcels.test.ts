@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard } from '@/lib/types/types';
+import { VINEYARD_PARCELS } from '@/lib/constants/vineyardConstants';
+import {
+  apportionEstateLandValues,
+  buildParcelSplit,
+  countVineyardEstates,
+  getEstateParcels,
+  getParcelName,
+  getVineyardDisplayName,
+  sortVineyardsByEstate,
+  validateParcelSplit
+} from '@/lib/services/vineyard/vineyardParcelService';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'estate-1',
+    name: 'Clos des Pierres',
+    country: 'France',
+    region: 'Bourgogne',
+    hectares: 4,
+    grape: 'Pinot Noir',
+    vineAge: 20,
+    soil: ['Limestone', 'Clay'],
+    altitude: 300,
+    aspect: 'South',
+    density: 9000,
+    vineyardHealth: 0.7,
+    landValue: 90000,
+    vineyardTotalValue: 400000,
+    status: 'Growing',
+    ripeness: 0.5,
+    vineyardPrestige: 1,
+    vineYield: 1,
+    pendingFeatures: [{ id: 'grey_rot', name: 'Grey Rot', icon: '🍂', isPresent: false, severity: 0, risk: 0.1 }],
+    ...overrides
+  };
+}
+
+describe('vineyard parcels', () => {
+  it('splits a parcel that keeps the vines and shares the land, dividing value by area', () => {
+    const estate = vineyard();
+    const { source, parcel } = buildParcelSplit(estate, 'parcel-1', { name: ' North Block ', hectares: 1.5 });
+
+    expect(source.hectares).toBe(2.5);
+    expect(parcel.hectares).toBe(1.5);
+    expect(source.vineyardTotalValue + parcel.vineyardTotalValue).toBe(estate.vineyardTotalValue);
+    expect(parcel.vineyardTotalValue).toBe(150000);
+
+    expect(parcel).toMatchObject({
+      id: 'parcel-1',
+      estateId: 'estate-1',
+      parcelName: 'North Block',
+      grape: 'Pinot Noir',
+      density: 9000,
+      vineAge: 20,
+      ripeness: 0.5,
+      vineyardHealth: 0.7,
+      soil: estate.soil,
+      altitude: estate.altitude,
+      aspect: estate.aspect,
+      landValue: estate.landValue
+    });
+    expect(parcel.pendingFeatures).toEqual(estate.pendingFeatures);
+    expect(parcel.pendingFeatures).not.toBe(estate.pendingFeatures);
+
+    // Splitting a parcel again keeps it on the original estate
+    const second = buildParcelSplit(parcel, 'parcel-2', { name: 'Corner', hectares: 0.5 }).parcel;
+    expect(second.estateId).toBe('estate-1');
+  });
+
+  it('values the parcels of an estate at one shared land value per hectare', () => {
+    const estate = vineyard({ hectares: 3 });
+    const parcel = vineyard({ id: 'parcel-1', estateId: 'estate-1', parcelName: 'North Block', hectares: 1 });
+    const other = vineyard({ id: 'estate-2', hectares: 2 });
+
+    const values = apportionEstateLandValues([
+      { vineyard: estate, adjustedPerHa: 100000 },
+      { vineyard: parcel, adjustedPerHa: 80000 },
+      { vineyard: other, adjustedPerHa: 50000 }
+    ]);
+
+    // (3 × 100,000 + 1 × 80,000) / 4 ha = 95,000 per hectare across the estate
+    expect(values.get('estate-1')).toBe(285000);
+    expect(values.get('parcel-1')).toBe(95000);
+    expect(values.get('estate-2')).toBe(100000);
+  });
+
+  it('groups parcels under their estate and counts estates, not parcels', () => {
+    const estate = vineyard();
+    const other = vineyard({ id: 'estate-2', name: 'Les Graves' });
+    const parcel = vineyard({ id: 'parcel-1', estateId: 'estate-1', parcelName: 'North Block', grape: 'Chardonnay' });
+
+    expect(countVineyardEstates([estate, other, parcel])).toBe(2);
+    expect(getEstateParcels([parcel, other, estate], 'estate-1').map(v => v.id)).toEqual(['estate-1', 'parcel-1']);
+    expect(sortVineyardsByEstate([estate, other, parcel]).map(v => v.id)).toEqual(['estate-1', 'parcel-1', 'estate-2']);
+
+    expect(getParcelName(estate)).toBe(VINEYARD_PARCELS.mainParcelName);
+    expect(getVineyardDisplayName(estate)).toBe('Clos des Pierres');
+    expect(getVineyardDisplayName(parcel)).toBe('Clos des Pierres – North Block');
+  });
+
+  it('rejects splits that are too small, duplicate a name, or touch busy or insured vines', () => {
+    const estate = vineyard();
+    const parcels = [estate, vineyard({ id: 'parcel-1', estateId: 'estate-1', parcelName: 'North Block' })];
+    const ok = { name: 'South Block', hectares: 1 };
+
+    expect(validateParcelSplit(estate, parcels, ok).valid).toBe(true);
+    expect(validateParcelSplit(estate, parcels, { ...ok, name: '  ' }).valid).toBe(false);
+    expect(validateParcelSplit(estate, parcels, { ...ok, name: 'north block' }).valid).toBe(false);
+    expect(validateParcelSplit(estate, parcels, { ...ok, hectares: 0.05 }).valid).toBe(false);
+    expect(validateParcelSplit(estate, parcels, { ...ok, hectares: 3.95 }).valid).toBe(false);
+    expect(validateParcelSplit(estate, parcels, ok, { hasActiveActivity: true }).valid).toBe(false);
+    expect(validateParcelSplit(estate, parcels, ok, { isInsured: true }).valid).toBe(false);
+
+    const full = Array.from({ length: VINEYARD_PARCELS.maxPerEstate }, (_, index) =>
+      vineyard({ id: `parcel-${index}`, estateId: 'estate-1', parcelName: `Block ${index}` })
+    );
+    expect(validateParcelSplit(estate, full, ok).valid).toBe(false);
+  });
+});
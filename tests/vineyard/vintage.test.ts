@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard, VintageWeather } from '@/lib/types/types';
+import { WEATHER_VINTAGE_BOUNDS } from '@/lib/constants/weatherConstants';
+import {
+  accumulateVintageWeather,
+  deriveVintageConditions,
+  getVintageRating
+} from '@/lib/features/weather/weatherVineyardService';
+import { buildVintageWeatherMix } from '@/lib/features/weather/weatherPresentationService';
+import { buildVineyardVintage } from '@/lib/services/vineyard/vintageService';
+import { calculateVineyardYieldBreakdown } from '@/lib/services/vineyard/vineyardManager';
+import { computeHarvestWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Vintage Block',
+    country: 'France',
+    region: 'Bordeaux',
+    hectares: 2,
+    grape: 'Pinot Noir',
+    vineAge: 12,
+    soil: ['Clay', 'Limestone'],
+    altitude: 100,
+    aspect: 'South',
+    density: 5000,
+    vineyardHealth: 0.9,
+    landValue: 50000,
+    vineyardTotalValue: 100000,
+    status: 'Growing',
+    ripeness: 0.8,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+function season(weeks: Array<{ state: 'Clear' | 'Rain' | 'Heat' | 'Frost' | 'Storm' | 'Snow'; count: number }>): VintageWeather {
+  let weather: VintageWeather | undefined;
+  for (const { state, count } of weeks) {
+    for (let week = 0; week < count; week += 1) {
+      weather = accumulateVintageWeather(weather, { state, intensity: 'Moderate' }, 1);
+    }
+  }
+  return weather!;
+}
+
+const sunnySeason = season([{ state: 'Clear', count: 24 }, { state: 'Heat', count: 6 }, { state: 'Rain', count: 6 }]);
+const frostySeason = season([{ state: 'Frost', count: 10 }, { state: 'Storm', count: 14 }, { state: 'Rain', count: 12 }]);
+
+describe('vintages', () => {
+  it('weights each growing week by intensity and site exposure', () => {
+    const mild = accumulateVintageWeather(undefined, { state: 'Rain', intensity: 'Mild' }, 1);
+    const exposed = accumulateVintageWeather(mild, { state: 'Rain', intensity: 'Mild' }, 1.2);
+    expect(mild).toEqual({ weeks: 1, clear: 0, rain: 0.75, heat: 0, frost: 0, storm: 0, snow: 0 });
+    expect(exposed.weeks).toBe(2);
+    expect(exposed.rain).toBeCloseTo(0.75 + 0.75 * 1.2);
+  });
+
+  it('rates sunny seasons above frost- and storm-hit ones within bounds', () => {
+    expect(deriveVintageConditions(undefined)).toEqual(expect.objectContaining({ weeks: 0, yieldFactor: 1, qualityFactor: 1, sugarPotentialShift: 0 }));
+
+    const sunny = deriveVintageConditions(sunnySeason);
+    const frosty = deriveVintageConditions(frostySeason);
+    expect(sunny.qualityFactor).toBeGreaterThan(1);
+    expect(frosty.qualityFactor).toBeLessThan(1);
+    expect(frosty.yieldFactor).toBeLessThan(sunny.yieldFactor);
+    expect(frosty.qualityFactor).toBeGreaterThanOrEqual(WEATHER_VINTAGE_BOUNDS.quality.min);
+    expect(sunny.sugarPotentialShift).toBeGreaterThan(frosty.sugarPotentialShift);
+    expect(sunny.acidPotentialShift).toBeLessThan(frosty.acidPotentialShift);
+
+    expect(getVintageRating(sunny.qualityFactor)).toBe('Exceptional');
+    expect(getVintageRating(frosty.qualityFactor)).toBe('Poor');
+    expect(getVintageRating(1)).toBe('Average');
+  });
+
+  it('feeds the vintage into this year\'s yield and harvest anchors', () => {
+    const plain = calculateVineyardYieldBreakdown(vineyard())!;
+    const frosty = calculateVineyardYieldBreakdown(vineyard({ vintageWeather: frostySeason }))!;
+    expect(plain.breakdown.vintage).toBe(1);
+    expect(frosty.breakdown.vintage).toBeCloseTo(deriveVintageConditions(frostySeason).yieldFactor);
+    expect(frosty.totalYield).toBeLessThan(plain.totalYield);
+
+    const opts = { minAltitude: 0, maxAltitude: 400, ripeness: 0.8, landValueModifier: 0.5 };
+    const base = computeHarvestWineAnchors(vineyard(), 'Pinot Noir', opts);
+    const sunny = computeHarvestWineAnchors(vineyard({ vintageWeather: sunnySeason }), 'Pinot Noir', opts);
+    const conditions = deriveVintageConditions(sunnySeason);
+    expect(sunny.sugarPotential).toBeCloseTo(base.sugarPotential + conditions.sugarPotentialShift);
+    expect(sunny.aromaticPotential).toBeCloseTo(base.aromaticPotential + conditions.aromaticPotentialShift);
+  });
+
+  it('builds a vintage record only for vines that saw a growing season', () => {
+    expect(buildVineyardVintage(vineyard(), 2026)).toBeNull();
+    expect(buildVineyardVintage(vineyard({ grape: null, vintageWeather: sunnySeason }), 2026)).toBeNull();
+
+    const record = buildVineyardVintage(vineyard({ vintageWeather: sunnySeason }), 2026, true)!;
+    expect(record).toEqual(expect.objectContaining({
+      vineyardId: 'vineyard-1',
+      year: 2026,
+      grape: 'Pinot Noir',
+      inProgress: true,
+      qualityFactor: deriveVintageConditions(sunnySeason).qualityFactor
+    }));
+    expect(buildVintageWeatherMix(record.weather)[0]).toEqual(expect.objectContaining({ state: 'Clear', share: expect.closeTo(24 / 36, 5) }));
+  });
+});
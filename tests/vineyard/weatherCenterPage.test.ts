@@ -6,9 +6,11 @@ import type { WeatherOperation, WeatherOperationImpact } from '@/lib/features/we
 const mocks = vi.hoisted(() => ({
   gameState: { currentYear: 2026, week: 5, season: 'Summer' },
   rows: [] as any[],
+  severeWeather: { current: null, warning: null, damage: [] } as any,
 }));
 
-vi.mock('@/hooks', () => ({ useGameState: () => mocks.gameState, useGameStateWithData: () => [] }));
+vi.mock('@/hooks', () => ({ useGameState: () => mocks.gameState, useGameStateWithData: () => [], useLoadingState: () => ({ withLoading: vi.fn() }) }));
+vi.mock('@/lib/features/activities', () => ({ activitiesFeature: { reads: { getAll: vi.fn(async () => []) } } }));
 vi.mock('@/lib/services', () => ({ getAllVineyards: vi.fn(() => []), getCurrentCompany: vi.fn(() => ({ id: 'company-1' })) }));
 vi.mock('@/lib/features/weather', () => ({
   createWeatherWeekContext: vi.fn(() => ({})),
@@ -27,6 +29,7 @@ vi.mock('@/lib/features/weather', () => ({
       { label: 'Grape-market outlook', detail: 'Heat pressure increases handling risk.' },
     ],
     rows: mocks.rows,
+    severeWeather: mocks.severeWeather,
   })),
 }));
 vi.mock('@/components/ui', () => {
@@ -39,7 +42,10 @@ import { WeatherCenterPage } from '@/components/pages/WeatherCenter';
 import { WeatherOperationStatusNotice } from '@/components/ui/components/WeatherOperationStatusNotice';
 
 describe('WeatherCenterPage', () => {
-  beforeEach(() => { mocks.rows = []; });
+  beforeEach(() => {
+    mocks.rows = [];
+    mocks.severeWeather = { current: null, warning: null, damage: [] };
+  });
 
   it('renders only decision surfaces and correctly distinguishes current weather from the forecast', () => {
     const html = renderToStaticMarkup(React.createElement(WeatherCenterPage));
@@ -54,12 +60,35 @@ describe('WeatherCenterPage', () => {
   });
 
   it('renders concise vineyard outcomes and an empty state', () => {
-    mocks.rows = [{ id: 'v-1', name: 'North Field', status: 'Growing', siteSummary: 'North-facing • 300m elevation • Limestone', siteNote: 'Site buffers this weather.', explanation: 'Normal progression is adjusted by the forecast.', ripeness: { current: 0.6, normalChange: 0.01, weatherContribution: 0.002, projected: 0.612 }, health: { current: 0.8, normalChange: -0.01, weatherContribution: -0.003, projected: 0.787 } }];
+    mocks.rows = [{ id: 'v-1', name: 'North Field', status: 'Growing', siteSummary: 'North-facing • 300m elevation • Limestone', siteNote: 'Site buffers this weather.', explanation: 'Normal progression is adjusted by the forecast.', ripeness: { current: 0.6, normalChange: 0.01, weatherContribution: 0.002, projected: 0.612 }, health: { current: 0.8, normalChange: -0.01, weatherContribution: -0.003, projected: 0.787 }, moisture: { current: 0.36, weatherChange: -0.06, irrigation: 0, projected: 0.3, stressed: true } }];
     const html = renderToStaticMarkup(React.createElement(WeatherCenterPage));
 
     expect(html).toContain('North Field');
     expect(html).toContain('Site buffers this weather.');
     expect(html).toContain('Why this forecast?');
+    expect(html).toContain('Soil moisture');
+    expect(html).toContain('Water stress');
+  });
+
+  it('renders severe weather warnings with mitigation actions and this year\'s damage', () => {
+    mocks.severeWeather = {
+      current: 'Hail (Severe) this week.',
+      warning: {
+        event: 'springFrost',
+        detail: 'The forecast warns of spring frost (Severe) next week.',
+        mitigations: [{ mitigation: 'frostCandles', label: 'Frost candles', description: 'Burn candles between the rows.', costPerHectare: 1200, successChance: 0.75, damageReduction: 0.8 }],
+        vineyards: [{ id: 'v-1', name: 'North Field' }, { id: 'v-2', name: 'South Slope', protectedBy: 'Frost candles' }],
+      },
+      damage: [{ vineyardId: 'v-1', vineyardName: 'North Field', date: 'Week 4, Spring 2026', event: 'Hail (Severe)', yieldLoss: 0.15, healthLoss: 0.06, mitigation: 'Hail nets failed' }],
+    };
+    const html = renderToStaticMarkup(React.createElement(WeatherCenterPage));
+
+    expect(html).toContain('Severe Weather');
+    expect(html).toContain('Hail (Severe) this week.');
+    expect(html).toContain('The forecast warns of spring frost (Severe) next week.');
+    expect(html).toContain('Schedule frost candles');
+    expect(html).toContain('Frost candles ready');
+    expect(html).toContain('Hail nets failed');
   });
 
   it.each(['normal', 'slowed', 'paused', 'blocked'] as const)('renders the %s operation reason and consequence', (severity) => {
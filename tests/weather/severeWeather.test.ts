@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Vineyard } from '@/lib/types/types';
+import { SEVERE_WEATHER_EVENTS, WEATHER_MITIGATIONS } from '@/lib/constants/weatherConstants';
+import {
+  applySevereWeatherDamage,
+  getForecastSevereWeatherEvent,
+  projectSevereWeatherDamage,
+  resolveSevereWeatherEvent,
+  type WeatherWeekContext
+} from '@/lib/features/weather';
+import { calculateVineyardYieldBreakdown } from '@/lib/services/vineyard/vineyardManager';
+import { validateWeatherMitigation } from '@/lib/services/vineyard/severeWeatherService';
+
+function vineyard(overrides: Partial<Vineyard> = {}): Vineyard {
+  return {
+    id: 'vineyard-1',
+    name: 'Frost Hollow',
+    country: 'France',
+    region: 'Bourgogne',
+    hectares: 2,
+    grape: 'Pinot Noir',
+    vineAge: 15,
+    soil: ['Limestone', 'Clay'],
+    altitude: 250,
+    aspect: 'East',
+    density: 8000,
+    vineyardHealth: 0.8,
+    landValue: 80000,
+    vineyardTotalValue: 160000,
+    status: 'Growing',
+    ripeness: 0.3,
+    vineyardPrestige: 0,
+    vineYield: 1,
+    ...overrides
+  };
+}
+
+function weather(overrides: Partial<WeatherWeekContext> = {}): WeatherWeekContext {
+  return {
+    date: { year: 2026, season: 'Spring', week: 6 },
+    state: 'Frost',
+    intensity: 'Severe',
+    seasonalPattern: 'Cold',
+    forecast: { state: 'Frost', intensity: 'Severe', confidence: 'High' },
+    ...overrides
+  };
+}
+
+const noLuck = { strike: 0, mitigation: 0.99 };
+
+describe('severe weather', () => {
+  it('resolves events from state, season and intensity, and warns from the forecast', () => {
+    expect(resolveSevereWeatherEvent(weather())).toBe('springFrost');
+    expect(resolveSevereWeatherEvent(weather({ intensity: 'Moderate' }))).toBeNull();
+    expect(resolveSevereWeatherEvent(weather({ date: { year: 2026, season: 'Winter', week: 6 } }))).toBeNull();
+    expect(resolveSevereWeatherEvent(weather({ state: 'Storm', intensity: 'Extreme' }))).toBe('hail');
+    expect(resolveSevereWeatherEvent(weather({ date: { year: 2026, season: 'Summer', week: 2 }, state: 'Heat' }))).toBe('heatwave');
+
+    expect(getForecastSevereWeatherEvent(weather({ state: 'Clear', intensity: 'Mild' }))).toBe('springFrost');
+    // Week 12 of Spring forecasts week 1 of Summer, when frost is no longer an event
+    expect(getForecastSevereWeatherEvent(weather({ date: { year: 2026, season: 'Spring', week: 12 } }))).toBeNull();
+  });
+
+  it('damages yield, health and pending features of growing vines only', () => {
+    const hailWeek = weather({ date: { year: 2026, season: 'Summer', week: 3 }, state: 'Storm', intensity: 'Severe' });
+    const pendingFeatures = [
+      { id: 'grey_rot', name: 'Grey Rot', icon: '🍂', isPresent: false, severity: 0, risk: 0.1 },
+      { id: 'noble_rot', name: 'Noble Rot', icon: '🍇', isPresent: true, severity: 0.6 }
+    ];
+    const damage = projectSevereWeatherDamage(vineyard({ pendingFeatures }), hailWeek, noLuck);
+    expect(damage?.event).toBe('hail');
+    expect(projectSevereWeatherDamage(vineyard(), hailWeek, { strike: 0.99, mitigation: 0 })).toBeNull();
+    expect(projectSevereWeatherDamage(vineyard({ status: 'Dormant' }), hailWeek, noLuck)).toBeNull();
+    expect(projectSevereWeatherDamage(vineyard({ grape: null }), hailWeek, noLuck)).toBeNull();
+
+    const struck = applySevereWeatherDamage(vineyard({ pendingFeatures }), damage!, hailWeek.date);
+    expect(struck.vineyardHealth).toBeCloseTo(0.8 - damage!.healthLoss);
+    expect(struck.weatherDamage?.yieldMultiplier).toBeCloseTo(1 - damage!.yieldLoss);
+    expect(struck.weatherDamage?.events).toEqual([expect.objectContaining({ event: 'hail', season: 'Summer', week: 3 })]);
+    expect(struck.pendingFeatures?.find(f => f.id === 'grey_rot')?.risk).toBeGreaterThan(0.1);
+    expect(struck.pendingFeatures?.find(f => f.id === 'noble_rot')?.severity).toBeLessThan(0.6);
+
+    const plain = calculateVineyardYieldBreakdown(vineyard())!;
+    const damaged = calculateVineyardYieldBreakdown(struck)!;
+    expect(damaged.breakdown.weather).toBeCloseTo(1 - damage!.yieldLoss);
+    expect(plain.breakdown.weather).toBe(1);
+  });
+
+  it('cuts damage when this season\'s protection against the event works, and spends it', () => {
+    const protectedVineyard = vineyard({ weatherProtection: { mitigation: 'frostCandles', season: 'Spring', year: 2026 } });
+    const unprotected = projectSevereWeatherDamage(vineyard(), weather(), noLuck)!;
+    const held = projectSevereWeatherDamage(protectedVineyard, weather(), { strike: 0, mitigation: 0 })!;
+    const failed = projectSevereWeatherDamage(protectedVineyard, weather(), noLuck)!;
+    const lastYear = projectSevereWeatherDamage(vineyard({ weatherProtection: { mitigation: 'frostCandles', season: 'Spring', year: 2025 } }), weather(), { strike: 0, mitigation: 0 })!;
+
+    expect(unprotected.yieldLoss).toBeCloseTo(SEVERE_WEATHER_EVENTS.springFrost.yieldLoss * unprotected.severity);
+    expect(held.mitigated).toBe(true);
+    expect(held.yieldLoss).toBeCloseTo(unprotected.yieldLoss * (1 - WEATHER_MITIGATIONS.frostCandles.damageReduction));
+    expect(failed.mitigated).toBe(false);
+    expect(failed.yieldLoss).toBeCloseTo(unprotected.yieldLoss);
+    expect(lastYear.mitigation).toBeUndefined();
+    expect(applySevereWeatherDamage(protectedVineyard, held, weather().date).weatherProtection).toBeUndefined();
+  });
+
+  it('allows scheduling a mitigation only when the forecast warns of its event', () => {
+    const warned = weather({ state: 'Clear', intensity: 'Mild' });
+    expect(validateWeatherMitigation(vineyard(), 'frostCandles', warned).valid).toBe(true);
+    expect(validateWeatherMitigation(vineyard(), 'hailNets', warned).valid).toBe(false);
+    expect(validateWeatherMitigation(vineyard(), 'frostCandles', weather({ forecast: { state: 'Rain', intensity: 'Severe', confidence: 'High' } })).valid).toBe(false);
+    expect(validateWeatherMitigation(vineyard({ status: 'Planted' }), 'frostCandles', warned).valid).toBe(false);
+    expect(validateWeatherMitigation(
+      vineyard({ weatherProtection: { mitigation: 'frostCandles', season: 'Spring', year: 2026 } }),
+      'frostCandles',
+      warned
+    ).valid).toBe(false);
+  });
+});
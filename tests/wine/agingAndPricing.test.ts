@@ -35,6 +35,7 @@ function wineBatch(overrides: Partial<WineBatch> = {}): WineBatch {
     },
     estimatedPrice: 20,
     grapeColor: 'red',
+    wineStyle: 'red',
     naturalYield: 0.5,
     fragile: 0.3,
     proneToOxidation: 0.3,
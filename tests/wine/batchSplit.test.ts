@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkCategory, type Activity, type WineBatch } from '@/lib/types/types';
+import { initializeBatchFeatures } from '@/lib/services/wine/features/featureService';
+import { NEUTRAL_WINE_ANCHORS } from '@/lib/services/wine/anchors/wineAnchorService';
+
+const mocks = vi.hoisted(() => ({
+  activities: [] as Activity[],
+  createStorageAllocationPlan: vi.fn(async () => ({ planId: 'split-plan' } as { planId: string | null; error?: string })),
+  releaseStorageAllocationPlan: vi.fn(async () => true),
+  splitOffStorageBackedWineBatch: vi.fn(async (..._args: any[]) => true),
+}));
+
+vi.mock('@/lib/services/core/gameState', () => ({
+  getGameState: () => ({ activities: mocks.activities, currentYear: 2027, season: 'Summer', week: 6 }),
+}));
+vi.mock('@/lib/database/activities/inventoryDB', () => ({
+  loadWineBatches: async () => [],
+  splitOffStorageBackedWineBatch: mocks.splitOffStorageBackedWineBatch,
+}));
+vi.mock('@/lib/services/wine/winery/inventoryService', () => ({
+  getWineBatchDisplayName: (batch: WineBatch) => `${batch.grape} - ${batch.vineyardName}`,
+}));
+vi.mock('@/lib/services/wine/winery/storageVesselAllocationService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/wine/winery/storageVesselAllocationService')>()),
+  assertBatchHasUsableStorage: async () => ({ valid: true }),
+  createStorageAllocationPlan: mocks.createStorageAllocationPlan,
+  releaseStorageAllocationPlan: mocks.releaseStorageAllocationPlan,
+}));
+vi.mock('@/lib/utils/companyUtils', () => ({ getCurrentCompanyId: () => 'company-1' }));
+vi.mock('@/hooks/useGameUpdates', () => ({ triggerGameUpdate: vi.fn(), triggerTopicUpdate: vi.fn() }));
+
+import {
+  buildSplitWineBatch,
+  isBatchSplitAvailable,
+  splitWineBatch,
+  validateBatchSplit
+} from '@/lib/services/wine/winery/batchSplitManager';
+
+function makeBatch(overrides: Partial<WineBatch> = {}): WineBatch {
+  return {
+    id: 'batch-1',
+    vineyardId: 'vineyard-1',
+    vineyardName: 'Split Block',
+    grape: 'Tempranillo',
+    quantity: 2000,
+    volumeLitres: 1000,
+    storagePlanId: 'plan-1',
+    batchNumber: 1,
+    batchGroupSize: 1,
+    state: 'maturing',
+    fermentationProgress: 100,
+    landValueModifierHarvestSnapshot: 0.5,
+    structureIndexHarvestSnapshot: 0.6,
+    tasteQualityIndexHarvestSnapshot: 0.6,
+    landValueModifier: 0.5,
+    structureIndex: 0.6,
+    tasteQualityIndex: 0.6,
+    characteristics: { acidity: 0.5, aroma: 0.6, body: 0.6, spice: 0.5, sweetness: 0.3, tannins: 0.6 },
+    estimatedPrice: 25,
+    grapeColor: 'red',
+    wineStyle: 'red',
+    naturalYield: 0.5,
+    fragile: 0.4,
+    proneToOxidation: 0.5,
+    features: initializeBatchFeatures(),
+    wineAnchors: { ...NEUTRAL_WINE_ANCHORS },
+    harvestStartDate: { week: 2, season: 'Fall', year: 2026 },
+    harvestEndDate: { week: 3, season: 'Fall', year: 2026 },
+    ...overrides,
+  };
+}
+
+describe('batchSplitManager', () => {
+  beforeEach(() => {
+    mocks.activities = [];
+    vi.clearAllMocks();
+  });
+
+  it('builds a proportional part linked to the parent lot with its own batch number', () => {
+    const part = buildSplitWineBatch(makeBatch(), 250);
+
+    expect(part.id).not.toBe('batch-1');
+    expect(part.volumeLitres).toBe(250);
+    expect(part.quantity).toBe(500);
+    expect(part.parentBatchId).toBe('batch-1');
+    expect(part.batchNumber).toBeUndefined();
+    expect(part.batchGroupSize).toBeUndefined();
+    expect(part.features).toEqual(makeBatch().features);
+
+    const grandchild = buildSplitWineBatch({ ...part, volumeLitres: 250 }, 100);
+    expect(grandchild.parentBatchId).toBe('batch-1');
+  });
+
+  it('keeps wine on both sides of the split', () => {
+    expect(validateBatchSplit(makeBatch(), 400).valid).toBe(true);
+    expect(validateBatchSplit(makeBatch(), 1000).valid).toBe(false);
+    expect(validateBatchSplit(makeBatch(), 0).valid).toBe(false);
+    expect(validateBatchSplit(makeBatch({ state: 'bottled' }), 400).valid).toBe(false);
+    expect(validateBatchSplit(makeBatch({ storagePlanId: undefined }), 400).valid).toBe(false);
+  });
+
+  it('is unavailable while another activity works on the batch', () => {
+    expect(isBatchSplitAvailable(makeBatch())).toBe(true);
+    mocks.activities = [{
+      id: 'activity-1',
+      category: WorkCategory.FERMENTATION,
+      title: 'Fermentation Setup',
+      totalWork: 10,
+      completedWork: 0,
+      targetId: 'batch-1',
+      params: { batchId: 'batch-1' },
+      status: 'active',
+      gameWeek: 1,
+      gameSeason: 'Spring',
+      gameYear: 2027,
+      isCancellable: false,
+      createdAt: new Date(),
+    }];
+    expect(isBatchSplitAvailable(makeBatch())).toBe(false);
+  });
+
+  it('reserves the target vessels and saves the split part in that plan', async () => {
+    const result = await splitWineBatch(makeBatch(), 300, ['vessel-2']);
+
+    expect(result.success).toBe(true);
+    expect(mocks.createStorageAllocationPlan).toHaveBeenCalledWith({ requiredLitres: 300, vesselIds: ['vessel-2'] });
+    const input = mocks.splitOffStorageBackedWineBatch.mock.calls[0]?.[0] as { batchId: string; splitBatch: WineBatch; activatedSeason: string };
+    expect(input.batchId).toBe('batch-1');
+    expect(input.splitBatch.id).toBe(result.splitBatchId);
+    expect(input.splitBatch.storagePlanId).toBe('split-plan');
+    expect(input.splitBatch.volumeLitres).toBe(300);
+    expect(input.activatedSeason).toBe('Summer');
+  });
+
+  it('releases the reserved vessels when the split cannot be saved', async () => {
+    mocks.splitOffStorageBackedWineBatch.mockResolvedValueOnce(false);
+
+    const result = await splitWineBatch(makeBatch(), 300, ['vessel-2']);
+
+    expect(result.success).toBe(false);
+    expect(mocks.releaseStorageAllocationPlan).toHaveBeenCalledWith('split-plan');
+  });
+
+  it('requires target vessels', async () => {
+    const result = await splitWineBatch(makeBatch(), 300, []);
+
+    expect(result.success).toBe(false);
+    expect(mocks.createStorageAllocationPlan).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,262 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkCategory, type Activity, type WineBatch } from '@/lib/types/types';
+import { initializeBatchFeatures } from '@/lib/services/wine/features/featureService';
+import { resolveWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
+
+const mocks = vi.hoisted(() => ({
+  activities: [] as Activity[],
+  batches: [] as WineBatch[],
+  createActivityWithResult: vi.fn(async () => ({ activityId: 'activity-1' } as { activityId: string | null; reason?: string })),
+  calculateBlending: vi.fn(() => ({ totalWork: 25, factors: [] })),
+  blendStorageBackedWineBatches: vi.fn(async () => true),
+  assertBatchHasUsableStorage: vi.fn(async () => ({ valid: true } as { valid: boolean; reason?: string })),
+  getStoragePlanCapacityLitres: vi.fn(async () => 1000),
+  triggerTopicUpdate: vi.fn(),
+}));
+
+vi.mock('@/lib/features/activities', () => ({
+  activitiesFeature: {
+    lifecycle: { createWithResult: mocks.createActivityWithResult },
+    work: { calculateBlending: mocks.calculateBlending },
+  },
+}));
+vi.mock('@/lib/features/prestige', () => ({
+  prestigeFeature: { reads: { calculateCurrent: async () => ({ companyPrestige: 1, vineyards: [] }) } },
+}));
+vi.mock('@/lib/services/core/gameState', () => ({
+  getGameState: () => ({ activities: mocks.activities, currentYear: 2026, season: 'Fall', week: 6 }),
+}));
+vi.mock('@/lib/database/activities/vineyardDB', () => ({ loadVineyards: async () => [] }));
+vi.mock('@/lib/database/activities/inventoryDB', () => ({ blendStorageBackedWineBatches: mocks.blendStorageBackedWineBatches }));
+vi.mock('@/lib/services/wine/winery/inventoryService', () => ({
+  getAllWineBatches: async () => mocks.batches,
+  getWineBatchDisplayName: (batch: WineBatch) => `${batch.grape} - ${batch.vineyardName}`,
+}));
+vi.mock('@/lib/services/wine/winery/storageVesselAllocationService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/wine/winery/storageVesselAllocationService')>()),
+  assertBatchHasUsableStorage: mocks.assertBatchHasUsableStorage,
+  getStoragePlanCapacityLitres: mocks.getStoragePlanCapacityLitres,
+}));
+vi.mock('@/lib/utils/companyUtils', () => ({ getCurrentCompanyId: () => 'company-1' }));
+vi.mock('@/hooks/useGameUpdates', () => ({ triggerTopicUpdate: mocks.triggerTopicUpdate }));
+
+import {
+  buildBlendedWineBatch,
+  completeBlendingActivity,
+  getBlendCandidates,
+  getBlendRemainders,
+  startBlendingActivity,
+  validateBlendSelection,
+} from '@/lib/services/wine/winery/blendingManager';
+
+function makeBatch(overrides: Partial<WineBatch> = {}): WineBatch {
+  return {
+    id: 'batch-1',
+    vineyardId: 'vineyard-1',
+    vineyardName: 'North Block',
+    grape: 'Pinot Noir',
+    quantity: 1200,
+    volumeLitres: 900,
+    storagePlanId: 'plan-1',
+    state: 'must_ready',
+    fermentationProgress: 0,
+    landValueModifierHarvestSnapshot: 0.6,
+    structureIndexHarvestSnapshot: 0.58,
+    tasteQualityIndexHarvestSnapshot: 0.55,
+    landValueModifier: 0.6,
+    structureIndex: 0.58,
+    tasteQualityIndex: 0.55,
+    characteristics: { acidity: 0.6, aroma: 0.5, body: 0.5, spice: 0.4, sweetness: 0.4, tannins: 0.6 },
+    estimatedPrice: 28,
+    grapeColor: 'red',
+    wineStyle: 'red',
+    naturalYield: 0.6,
+    fragile: 0.4,
+    proneToOxidation: 0.4,
+    features: initializeBatchFeatures(),
+    wineAnchors: resolveWineAnchors(undefined),
+    harvestStartDate: { week: 2, season: 'Fall', year: 2026 },
+    harvestEndDate: { week: 3, season: 'Fall', year: 2026 },
+    ...overrides,
+  };
+}
+
+function makePartner(overrides: Partial<WineBatch> = {}): WineBatch {
+  return makeBatch({
+    id: 'batch-2',
+    vineyardId: 'vineyard-2',
+    vineyardName: 'South Slope',
+    grape: 'Chardonnay',
+    quantity: 400,
+    volumeLitres: 300,
+    storagePlanId: 'plan-2',
+    characteristics: { acidity: 0.8, aroma: 0.7, body: 0.3, spice: 0.2, sweetness: 0.6, tannins: 0.2 },
+    harvestStartDate: { week: 1, season: 'Fall', year: 2026 },
+    harvestEndDate: { week: 5, season: 'Fall', year: 2026 },
+    ...overrides,
+  });
+}
+
+describe('Blending manager', () => {
+  beforeEach(() => {
+    mocks.activities = [];
+    mocks.batches = [makeBatch(), makePartner()];
+    vi.clearAllMocks();
+    mocks.createActivityWithResult.mockResolvedValue({ activityId: 'activity-1' });
+    mocks.assertBatchHasUsableStorage.mockResolvedValue({ valid: true });
+    mocks.blendStorageBackedWineBatches.mockResolvedValue(true);
+    mocks.getStoragePlanCapacityLitres.mockResolvedValue(1000);
+  });
+
+  it('rejects blends across production stages or vintages', () => {
+    expect(validateBlendSelection([makeBatch()])).toMatchObject({ valid: false });
+    expect(validateBlendSelection([makeBatch(), makePartner({ state: 'must_fermenting' })])).toMatchObject({
+      valid: false, reason: 'All batches in a blend must be at the same production stage.',
+    });
+    expect(validateBlendSelection([makeBatch(), makePartner({ harvestStartDate: { week: 1, season: 'Fall', year: 2025 } })])).toMatchObject({
+      valid: false, reason: 'Blends must share a single vintage.',
+    });
+    expect(validateBlendSelection([makeBatch({ state: 'grapes' }), makePartner({ state: 'grapes' })])).toMatchObject({ valid: false });
+    expect(validateBlendSelection([makeBatch(), makePartner()])).toEqual({ valid: true });
+  });
+
+  it('volume-weights characteristics and records the blend composition on the largest batch', () => {
+    const blended = buildBlendedWineBatch([makePartner(), makeBatch()]);
+
+    expect(blended.id).toBe('batch-1');
+    expect(blended.grape).toBe('Pinot Noir');
+    expect(blended.volumeLitres).toBe(1200);
+    expect(blended.quantity).toBe(1600);
+    expect(blended.characteristics.acidity).toBeCloseTo(0.6 * 0.75 + 0.8 * 0.25);
+    expect(blended.characteristics.tannins).toBeCloseTo(0.6 * 0.75 + 0.2 * 0.25);
+    expect(blended.blendComponents).toEqual([
+      { vineyardId: 'vineyard-1', vineyardName: 'North Block', grape: 'Pinot Noir', share: 0.75 },
+      { vineyardId: 'vineyard-2', vineyardName: 'South Slope', grape: 'Chardonnay', share: 0.25 },
+    ]);
+    expect(blended.harvestStartDate).toEqual({ week: 1, season: 'Fall', year: 2026 });
+    expect(blended.harvestEndDate).toEqual({ week: 5, season: 'Fall', year: 2026 });
+    expect(blended.structureIndex).toBeGreaterThan(0);
+    expect(blended.tasteQualityIndex).toBeGreaterThan(0);
+  });
+
+  it('blends only the chosen share of a partner and leaves the remainder behind', () => {
+    const partner = makePartner({ volumeLitres: 600, quantity: 800 });
+    const blended = buildBlendedWineBatch([makeBatch(), partner], { portions: { 'batch-2': 0.5 } });
+
+    expect(blended.volumeLitres).toBe(1200);
+    expect(blended.quantity).toBe(1600);
+    expect(blended.characteristics.acidity).toBeCloseTo(0.6 * 0.75 + 0.8 * 0.25);
+    expect(getBlendRemainders([makeBatch(), partner], { 'batch-2': 0.5 })).toEqual([{ batchId: 'batch-2', volumeLitres: 300, quantity: 400 }]);
+    expect(validateBlendSelection([makeBatch(), partner], { 'batch-1': 0.5, 'batch-2': 0.5 })).toMatchObject({
+      valid: false, reason: 'At least one batch must be blended in full to hold the blend.',
+    });
+  });
+
+  it('rejects blends that mix wine styles and leaves them out of the candidates', () => {
+    const rose = makePartner({ state: 'maturing', wineStyle: 'rose' });
+    const red = makeBatch({ state: 'maturing' });
+
+    expect(validateBlendSelection([red, rose])).toMatchObject({
+      valid: false, reason: 'All batches in a blend must share the same wine style.',
+    });
+    expect(getBlendCandidates(red, [red, rose])).toEqual([]);
+  });
+
+  it('rejects blends that mix sweet wine methods and leaves them out of the candidates', () => {
+    const fortified = makePartner({ state: 'maturing', sweetWineMethod: 'fortified' });
+    const dry = makeBatch({ state: 'maturing' });
+
+    expect(validateBlendSelection([fortified, dry])).toMatchObject({
+      valid: false, reason: 'All batches in a blend must share the same sweet wine method.',
+    });
+    expect(getBlendCandidates(fortified, [dry, fortified])).toEqual([]);
+    expect(validateBlendSelection([fortified, makeBatch({ state: 'maturing', sweetWineMethod: 'fortified' })])).toEqual({ valid: true });
+  });
+
+  it('excludes batches locked by a pending blend from the candidates', () => {
+    const third = makePartner({ id: 'batch-3', storagePlanId: 'plan-3' });
+    mocks.activities = [{
+      id: 'activity-9', category: WorkCategory.MAINTENANCE, status: 'active', title: 'Blend Wine',
+      params: { type: 'blend_wine_batches', batchId: 'batch-9', sourceBatchIds: ['batch-3'] },
+    } as unknown as Activity];
+
+    expect(getBlendCandidates(makeBatch(), [makeBatch(), makePartner(), third]).map((batch) => batch.id)).toEqual(['batch-2']);
+  });
+
+  it('starts a cancellable Maintenance activity targeting the largest batch', async () => {
+    await expect(startBlendingActivity(['batch-2', 'batch-1'])).resolves.toMatchObject({ success: true, blendedBatchCount: 2 });
+    expect(mocks.calculateBlending).toHaveBeenCalledWith(1200, 2);
+    expect(mocks.createActivityWithResult).toHaveBeenCalledWith(expect.objectContaining({
+      category: WorkCategory.MAINTENANCE,
+      title: 'Blend Wine - Pinot Noir - North Block',
+      targetId: 'batch-1',
+      isCancellable: true,
+      params: expect.objectContaining({ type: 'blend_wine_batches', batchId: 'batch-1', sourceBatchIds: ['batch-2'], portions: { 'batch-2': 1 } }),
+    }));
+  });
+
+  it('refuses a partial blend that the fully blended vessels cannot hold', async () => {
+    mocks.batches = [makeBatch({ volumeLitres: 900 }), makePartner({ volumeLitres: 600 })];
+    mocks.getStoragePlanCapacityLitres.mockResolvedValue(900);
+
+    await expect(startBlendingActivity(['batch-1', 'batch-2'], { 'batch-2': 0.5 })).resolves.toEqual({
+      success: false, error: 'The fully blended batches do not have enough Storage Vessel capacity to hold the blend.',
+    });
+    expect(mocks.getStoragePlanCapacityLitres).toHaveBeenCalledWith('plan-1');
+    expect(mocks.getStoragePlanCapacityLitres).not.toHaveBeenCalledWith('plan-2');
+  });
+
+  it('refuses to start when a batch has no usable storage', async () => {
+    mocks.assertBatchHasUsableStorage.mockResolvedValueOnce({ valid: true }).mockResolvedValueOnce({ valid: false, reason: 'Storage Vessel is dirty.' });
+
+    await expect(startBlendingActivity(['batch-1', 'batch-2'])).resolves.toEqual({
+      success: false, error: 'Chardonnay - South Slope: Storage Vessel is dirty.',
+    });
+    expect(mocks.createActivityWithResult).not.toHaveBeenCalled();
+  });
+
+  it('persists the blend atomically into the batch chosen at start', async () => {
+    const activity = {
+      id: 'activity-1', category: WorkCategory.MAINTENANCE, status: 'active', title: 'Blend Wine',
+      params: { type: 'blend_wine_batches', batchId: 'batch-2', sourceBatchIds: ['batch-1'] },
+    } as unknown as Activity;
+
+    await expect(completeBlendingActivity(activity)).resolves.toMatchObject({ success: true, blendedBatchCount: 2 });
+    expect(mocks.blendStorageBackedWineBatches).toHaveBeenCalledWith(expect.objectContaining({
+      companyId: 'company-1',
+      sourceBatchIds: ['batch-1'],
+      remainders: [],
+      batch: expect.objectContaining({ id: 'batch-2', storagePlanId: 'plan-2', volumeLitres: 1200 }),
+      releasedYear: 2026, releasedSeason: 'Fall', releasedWeek: 6,
+    }));
+    expect(mocks.triggerTopicUpdate).toHaveBeenCalledWith('wine_batches');
+  });
+
+  it('blends maturing wine and merges the partner vessels into the surviving plan', async () => {
+    mocks.batches = [makeBatch({ state: 'maturing', maturationWeeks: 8 }), makePartner({ state: 'maturing', maturationWeeks: 4 })];
+    expect(getBlendCandidates(mocks.batches[0], mocks.batches).map((batch) => batch.id)).toEqual(['batch-2']);
+
+    const activity = {
+      id: 'activity-1', category: WorkCategory.MAINTENANCE, status: 'active', title: 'Blend Wine',
+      params: { type: 'blend_wine_batches', batchId: 'batch-1', sourceBatchIds: ['batch-2'] },
+    } as unknown as Activity;
+
+    await expect(completeBlendingActivity(activity)).resolves.toMatchObject({ success: true, blendedBatchCount: 2 });
+    expect(mocks.blendStorageBackedWineBatches).toHaveBeenCalledWith(expect.objectContaining({
+      sourceBatchIds: ['batch-2'],
+      remainders: [],
+      batch: expect.objectContaining({ id: 'batch-1', storagePlanId: 'plan-1', state: 'maturing', volumeLitres: 1200, maturationWeeks: 7 }),
+    }));
+  });
+
+  it('reports a failed merge without refreshing topics', async () => {
+    mocks.blendStorageBackedWineBatches.mockResolvedValueOnce(false);
+    const activity = {
+      id: 'activity-1', category: WorkCategory.MAINTENANCE, status: 'active', title: 'Blend Wine',
+      params: { type: 'blend_wine_batches', batchId: 'batch-1', sourceBatchIds: ['batch-2'] },
+    } as unknown as Activity;
+
+    await expect(completeBlendingActivity(activity)).resolves.toMatchObject({ success: false });
+    expect(mocks.triggerTopicUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { WineBatch } from '@/lib/types/types';
+import type { FeatureRiskInfo } from '@/lib/types/wineFeatures';
+import { NEUTRAL_WINE_ANCHORS } from '@/lib/services/wine/anchors/wineAnchorService';
+import { calculateWeeklyRiskIncrease, initializeBatchFeatures } from '@/lib/services/wine/features/featureService';
+import { calculateAgingStatus } from '@/lib/services/wine/features/agingService';
+import { calculateBottlingPlan, DEFAULT_BOTTLING_OPTIONS } from '@/lib/services/wine/winery/fermentationManager';
+import { calculatePackagingPriceMultiplier } from '@/lib/services/sales/generateOrder';
+import { BOTTLE_CLOSURES, BOTTLE_FORMATS, getBottleAgingSpeed } from '@/lib/constants/bottlingConstants';
+
+vi.mock('@/lib/services/core/gameState', () => ({
+  getGameState: () => ({ week: 1, season: 'Spring', currentYear: 2027 }),
+  getCurrentPrestige: async () => 0,
+}));
+
+function makeBatch(overrides: Partial<WineBatch> = {}): WineBatch {
+  return {
+    id: 'batch-1',
+    vineyardId: 'vineyard-1',
+    vineyardName: 'Bottling Block',
+    grape: 'Pinot Noir',
+    quantity: 1500,
+    volumeLitres: 750,
+    state: 'bottled',
+    fermentationProgress: 100,
+    landValueModifierHarvestSnapshot: 0.5,
+    structureIndexHarvestSnapshot: 0.6,
+    tasteQualityIndexHarvestSnapshot: 0.6,
+    landValueModifier: 0.5,
+    structureIndex: 0.6,
+    tasteQualityIndex: 0.6,
+    characteristics: { acidity: 0.55, aroma: 0.6, body: 0.55, spice: 0.45, sweetness: 0.35, tannins: 0.55 },
+    estimatedPrice: 20,
+    grapeColor: 'red',
+    wineStyle: 'red',
+    naturalYield: 0.5,
+    fragile: 0.3,
+    proneToOxidation: 0.5,
+    features: initializeBatchFeatures(),
+    wineAnchors: { ...NEUTRAL_WINE_ANCHORS },
+    harvestStartDate: { week: 1, season: 'Fall', year: 2025 },
+    harvestEndDate: { week: 2, season: 'Fall', year: 2025 },
+    bottledDate: { week: 1, season: 'Winter', year: 2026 },
+    agingProgress: 104,
+    ...overrides,
+  };
+}
+
+describe('bottling plan', () => {
+  it('fills bottles from the batch volume for each format', () => {
+    const batch = makeBatch({ state: 'maturing', volumeLitres: 750 });
+
+    expect(calculateBottlingPlan(batch, DEFAULT_BOTTLING_OPTIONS).bottles).toBe(1000);
+    expect(calculateBottlingPlan(batch, { format: 'half', closure: 'natural_cork' }).bottles).toBe(2000);
+    expect(calculateBottlingPlan(batch, { format: 'magnum', closure: 'natural_cork' }).bottles).toBe(500);
+    expect(calculateBottlingPlan(batch, { format: 'bag_in_box', closure: 'synthetic' }).bottles).toBe(250);
+  });
+
+  it('charges the bottle and closure for every bottle filled', () => {
+    const { bottles, packagingCost } = calculateBottlingPlan(makeBatch({ volumeLitres: 150 }), { format: 'magnum', closure: 'screwcap' });
+
+    expect(bottles).toBe(100);
+    expect(packagingCost).toBeCloseTo(100 * (BOTTLE_FORMATS.magnum.packagingCostPerBottle + BOTTLE_CLOSURES.screwcap.costPerBottle));
+  });
+
+  it('bottles part of the batch and folds a leftover under a litre into the bottling', () => {
+    const batch = makeBatch({ state: 'maturing', volumeLitres: 750.4 });
+
+    const partial = calculateBottlingPlan(batch, { ...DEFAULT_BOTTLING_OPTIONS, volumeLitres: 300 });
+    expect(partial).toMatchObject({ bottles: 400, volumeLitres: 300, partial: true });
+
+    const nearlyAll = calculateBottlingPlan(batch, { ...DEFAULT_BOTTLING_OPTIONS, volumeLitres: 750 });
+    expect(nearlyAll).toMatchObject({ bottles: 1000, volumeLitres: 750.4, partial: false });
+  });
+});
+
+describe('bottle format and closure effects', () => {
+  it('ages half bottles faster and screwcapped magnums slower than a corked standard bottle', () => {
+    const standard = calculateAgingStatus(makeBatch());
+    const half = calculateAgingStatus(makeBatch({ bottleFormat: 'half' }));
+    const magnum = calculateAgingStatus(makeBatch({ bottleFormat: 'magnum', bottleClosure: 'screwcap' }));
+
+    expect(getBottleAgingSpeed({})).toBe(1);
+    expect(half.ageInWeeks).toBe(standard.ageInWeeks);
+    expect(half.agingProgress).toBeGreaterThan(standard.agingProgress);
+    expect(magnum.agingProgress).toBeLessThan(standard.agingProgress);
+  });
+
+  it('scales bottled oxidation risk with the format and closure', () => {
+    const risk = { featureId: 'oxidation', currentRisk: 0.05 } as FeatureRiskInfo;
+    const corked = calculateWeeklyRiskIncrease(makeBatch(), risk) ?? 0;
+    const screwcap = calculateWeeklyRiskIncrease(makeBatch({ bottleClosure: 'screwcap' }), risk) ?? 0;
+    const bagInBox = calculateWeeklyRiskIncrease(makeBatch({ bottleFormat: 'bag_in_box', bottleClosure: 'synthetic' }), risk) ?? 0;
+
+    expect(corked).toBeGreaterThan(0);
+    expect(screwcap).toBeCloseTo(corked * BOTTLE_CLOSURES.screwcap.oxidationRiskMultiplier);
+    expect(bagInBox).toBeGreaterThan(corked);
+  });
+
+  it('prices packaging per customer type', () => {
+    const magnum = { bottleFormat: 'magnum', bottleClosure: 'natural_cork' } as const;
+    const bagInBox = { bottleFormat: 'bag_in_box', bottleClosure: 'screwcap' } as const;
+
+    expect(calculatePackagingPriceMultiplier({}, { customerType: 'Chain Store' })).toBe(1);
+    expect(calculatePackagingPriceMultiplier(magnum, { customerType: 'Private Collector' })).toBeCloseTo(
+      BOTTLE_FORMATS.magnum.customerPriceMultipliers['Private Collector'] * BOTTLE_CLOSURES.natural_cork.customerPriceMultipliers['Private Collector']
+    );
+    expect(calculatePackagingPriceMultiplier(bagInBox, { customerType: 'Chain Store' })).toBeGreaterThan(1);
+    expect(calculatePackagingPriceMultiplier(bagInBox, { customerType: 'Private Collector' })).toBeLessThan(
+      calculatePackagingPriceMultiplier(magnum, { customerType: 'Private Collector' })
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkCategory, type Activity, type WineBatch } from '@/lib/types/types';
+import type { FeatureRiskInfo } from '@/lib/types/wineFeatures';
+import { calculateWeeklyRiskIncrease, initializeBatchFeatures } from '@/lib/services/wine/features/featureService';
+import { NEUTRAL_WINE_ANCHORS } from '@/lib/services/wine/anchors/wineAnchorService';
+import { applyCellarOperationToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import {
+  applyCellarOperation,
+  getCellarOperationRiskMultiplier
+} from '@/lib/services/wine/characteristics/cellarOperationCharacteristics';
+import { calculateCellarOperationWork } from '@/lib/features/activities/services/workcalculators/cellarOperationWorkCalculator';
+import { CELLAR_OPERATIONS } from '@/lib/constants/cellarOperationConstants';
+
+const mocks = vi.hoisted(() => ({
+  activities: [] as Activity[],
+  batches: [] as WineBatch[],
+  createActivityWithResult: vi.fn(async () => ({ activityId: 'activity-1' } as { activityId: string | null; reason?: string })),
+  activate: vi.fn(async () => true),
+  cancel: vi.fn(async () => true),
+  createStorageAllocationPlan: vi.fn(async () => ({ planId: 'target-plan' } as { planId: string | null; error?: string })),
+  releaseStorageAllocationPlan: vi.fn(async () => true),
+  applyCellarOperationToWineBatch: vi.fn(async () => true),
+  addTransaction: vi.fn(async () => 'transaction-1'),
+}));
+
+vi.mock('@/lib/features/activities', async () => {
+  const { calculateCellarOperationWork: calculateCellarOperation } = await import('@/lib/features/activities/services/workcalculators/cellarOperationWorkCalculator');
+  return {
+    activitiesFeature: {
+      lifecycle: { createWithResult: mocks.createActivityWithResult, activate: mocks.activate, cancel: mocks.cancel },
+      work: { calculateCellarOperation },
+    },
+  };
+});
+vi.mock('@/lib/services/core/gameState', () => ({
+  getGameState: () => ({ activities: mocks.activities, currentYear: 2027, season: 'Spring', week: 4 }),
+}));
+vi.mock('@/lib/database/activities/inventoryDB', () => ({
+  loadWineBatches: async () => mocks.batches,
+  bulkUpdateWineBatches: vi.fn(async () => undefined),
+  applyCellarOperationToWineBatch: mocks.applyCellarOperationToWineBatch,
+}));
+vi.mock('@/lib/services/finance/financeService', () => ({ addTransaction: mocks.addTransaction }));
+vi.mock('@/lib/services/wine/winery/inventoryService', () => ({
+  getAllWineBatches: async () => mocks.batches,
+  getWineBatchDisplayName: (batch: WineBatch) => `${batch.grape} - ${batch.vineyardName}`,
+}));
+vi.mock('@/lib/services/wine/winery/storageVesselAllocationService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/services/wine/winery/storageVesselAllocationService')>()),
+  assertBatchHasUsableStorage: async () => ({ valid: true }),
+  createStorageAllocationPlan: mocks.createStorageAllocationPlan,
+  releaseStorageAllocationPlan: mocks.releaseStorageAllocationPlan,
+}));
+vi.mock('@/lib/utils/companyUtils', () => ({ getCurrentCompanyId: () => 'company-1' }));
+vi.mock('@/hooks/useGameUpdates', () => ({ triggerGameUpdate: vi.fn(), triggerTopicUpdate: vi.fn() }));
+
+import {
+  buildCellarTreatedWineBatch,
+  completeCellarOperationActivity,
+  isCellarOperationAvailable,
+  startCellarOperationActivity,
+  validateCellarOperation
+} from '@/lib/services/wine/winery/cellarOperationManager';
+
+function makeBatch(overrides: Partial<WineBatch> = {}): WineBatch {
+  return {
+    id: 'batch-1',
+    vineyardId: 'vineyard-1',
+    vineyardName: 'Cellar Block',
+    grape: 'Pinot Noir',
+    quantity: 1200,
+    volumeLitres: 900,
+    storagePlanId: 'plan-1',
+    state: 'maturing',
+    fermentationProgress: 100,
+    landValueModifierHarvestSnapshot: 0.6,
+    structureIndexHarvestSnapshot: 0.6,
+    tasteQualityIndexHarvestSnapshot: 0.6,
+    landValueModifier: 0.6,
+    structureIndex: 0.6,
+    tasteQualityIndex: 0.6,
+    characteristics: { acidity: 0.6, aroma: 0.5, body: 0.5, spice: 0.4, sweetness: 0.3, tannins: 0.6 },
+    estimatedPrice: 30,
+    grapeColor: 'red',
+    wineStyle: 'red',
+    naturalYield: 0.6,
+    fragile: 0.4,
+    proneToOxidation: 0.5,
+    features: initializeBatchFeatures(),
+    wineAnchors: { ...NEUTRAL_WINE_ANCHORS, leesState: 0.5 },
+    harvestStartDate: { week: 2, season: 'Fall', year: 2026 },
+    harvestEndDate: { week: 3, season: 'Fall', year: 2026 },
+    ...overrides,
+  };
+}
+
+function makeActivity(params: Record<string, unknown>): Activity {
+  return {
+    id: 'activity-1',
+    category: WorkCategory.MAINTENANCE,
+    title: 'Cellar Work',
+    totalWork: 10,
+    completedWork: 10,
+    targetId: 'batch-1',
+    params: { type: 'cellar_operation', batchId: 'batch-1', sourceStoragePlanId: 'plan-1', targetName: 'Pinot Noir - Cellar Block', ...params },
+    status: 'active',
+    gameWeek: 1,
+    gameSeason: 'Spring',
+    gameYear: 2027,
+    isCancellable: true,
+    createdAt: new Date(),
+  } as Activity;
+}
+
+beforeEach(() => {
+  mocks.activities = [];
+  mocks.batches = [];
+  vi.clearAllMocks();
+});
+
+describe('cellar operation effects', () => {
+  it('applies the configured characteristic changes', () => {
+    const { characteristics, effects } = applyCellarOperation(makeBatch().characteristics, 'fining');
+
+    expect(characteristics.tannins).toBeCloseTo(0.6 + (CELLAR_OPERATIONS.fining.characteristicEffects.tannins ?? 0));
+    expect(characteristics.acidity).toBe(0.6);
+    expect(effects.every(effect => effect.description === 'Fining')).toBe(true);
+  });
+
+  it('racking drops the lees anchor', () => {
+    const anchors = applyCellarOperationToWineAnchors({ ...NEUTRAL_WINE_ANCHORS, leesState: 0.5 }, 'racking');
+
+    expect(anchors.leesState).toBeLessThan(0.5);
+  });
+
+  it('counts each operation once for the risk multiplier', () => {
+    const once = getCellarOperationRiskMultiplier({ cellarOperations: ['filtration'] }, 'stuck_fermentation');
+    const twice = getCellarOperationRiskMultiplier({ cellarOperations: ['filtration', 'filtration'] }, 'stuck_fermentation');
+
+    expect(once).toBe(CELLAR_OPERATIONS.filtration.riskMultipliers.stuck_fermentation);
+    expect(twice).toBe(once);
+    expect(getCellarOperationRiskMultiplier({ cellarOperations: ['racking'] }, 'green_flavor')).toBe(1);
+  });
+
+  it('lowers the weekly oxidation accumulation rate in featureService', () => {
+    const risk = { featureId: 'oxidation', currentRisk: 0.1 } as FeatureRiskInfo;
+    const untreated = calculateWeeklyRiskIncrease(makeBatch(), risk) ?? 0;
+    const treated = calculateWeeklyRiskIncrease(makeBatch({ cellarOperations: ['racking', 'fining'] }), risk) ?? 0;
+
+    expect(untreated).toBeGreaterThan(0);
+    expect(treated).toBeCloseTo(untreated * 0.9 * 0.8);
+  });
+
+  it('scales work with volume and charges materials per litre', () => {
+    const small = calculateCellarOperationWork(500, 'filtration');
+    const large = calculateCellarOperationWork(5000, 'filtration');
+
+    expect(large.totalWork).toBeGreaterThan(small.totalWork);
+    expect(large.cost).toBeCloseTo(5000 * CELLAR_OPERATIONS.filtration.costPerLitre);
+    expect(calculateCellarOperationWork(500, 'racking').cost).toBe(0);
+  });
+});
+
+describe('cellarOperationManager', () => {
+  it('rejects filtration while the wine is fermenting and unstored batches', () => {
+    expect(validateCellarOperation(makeBatch({ state: 'must_fermenting' }), 'filtration').valid).toBe(false);
+    expect(validateCellarOperation(makeBatch({ state: 'must_fermenting' }), 'racking').valid).toBe(true);
+    expect(validateCellarOperation(makeBatch({ storagePlanId: undefined }), 'fining').valid).toBe(false);
+    expect(validateCellarOperation(makeBatch({ state: 'bottled' }), 'fining').valid).toBe(false);
+  });
+
+  it('locks the batch while a cellar operation is pending', () => {
+    mocks.activities = [makeActivity({ operation: 'fining' })];
+
+    expect(isCellarOperationAvailable(makeBatch(), 'racking')).toBe(false);
+  });
+
+  it('loses volume, records the operation and lists its anchor effects', () => {
+    const treated = buildCellarTreatedWineBatch(makeBatch({ cellarOperations: ['fining'] }), 'racking');
+
+    expect(treated.volumeLitres).toBeCloseTo(900 * (1 - CELLAR_OPERATIONS.racking.volumeLoss));
+    expect(treated.quantity).toBeCloseTo(1200 * (1 - CELLAR_OPERATIONS.racking.volumeLoss));
+    expect(treated.cellarOperations).toEqual(['fining', 'racking']);
+    expect(treated.breakdown?.anchorEffects?.some(effect => effect.description === 'Racking')).toBe(true);
+  });
+
+  it('reserves the racking target vessels against a paused activity', async () => {
+    const result = await startCellarOperationActivity(makeBatch(), 'racking', ['vessel-2']);
+
+    expect(result.success).toBe(true);
+    expect(mocks.createActivityWithResult).toHaveBeenCalledWith(expect.objectContaining({ category: WorkCategory.MAINTENANCE, initialStatus: 'paused' }));
+    expect(mocks.createStorageAllocationPlan).toHaveBeenCalledWith({
+      requiredLitres: 900 * (1 - CELLAR_OPERATIONS.racking.volumeLoss),
+      vesselIds: ['vessel-2'],
+      activityId: 'activity-1',
+    });
+    expect(mocks.activate).toHaveBeenCalledWith('activity-1', expect.objectContaining({ storagePlanId: 'target-plan', operation: 'racking' }));
+  });
+
+  it('cancels the racking activity when the target vessels cannot be reserved', async () => {
+    mocks.createStorageAllocationPlan.mockResolvedValueOnce({ planId: null, error: 'Selected Storage Vessels are unavailable.' });
+
+    const result = await startCellarOperationActivity(makeBatch(), 'racking', ['vessel-2']);
+
+    expect(result).toEqual({ success: false, error: 'Selected Storage Vessels are unavailable.' });
+    expect(mocks.cancel).toHaveBeenCalledWith('activity-1');
+    expect(mocks.activate).not.toHaveBeenCalled();
+  });
+
+  it('starts fining without reserving vessels', async () => {
+    const result = await startCellarOperationActivity(makeBatch(), 'fining');
+
+    expect(result.success).toBe(true);
+    expect(mocks.createStorageAllocationPlan).not.toHaveBeenCalled();
+    expect(mocks.createActivityWithResult).toHaveBeenCalledWith(expect.objectContaining({
+      params: expect.objectContaining({ type: 'cellar_operation', operation: 'fining', sourceStoragePlanId: 'plan-1' }),
+    }));
+  });
+
+  it('moves a racked batch into the reserved plan on completion', async () => {
+    mocks.batches = [makeBatch()];
+
+    const result = await completeCellarOperationActivity(makeActivity({ operation: 'racking', storagePlanId: 'target-plan', cost: 0 }));
+
+    expect(result.success).toBe(true);
+    expect(mocks.applyCellarOperationToWineBatch).toHaveBeenCalledWith(expect.objectContaining({
+      companyId: 'company-1',
+      targetPlanId: 'target-plan',
+      batch: expect.objectContaining({ cellarOperations: ['racking'] }),
+    }));
+    expect(mocks.addTransaction).not.toHaveBeenCalled();
+  });
+
+  it('refills the current plan and charges materials for fining', async () => {
+    mocks.batches = [makeBatch()];
+
+    const result = await completeCellarOperationActivity(makeActivity({ operation: 'fining', cost: 36 }));
+
+    expect(result.success).toBe(true);
+    expect(mocks.applyCellarOperationToWineBatch).toHaveBeenCalledWith(expect.objectContaining({ targetPlanId: undefined }));
+    expect(mocks.addTransaction).toHaveBeenCalledWith(-36, expect.stringContaining('Fining'), expect.any(String));
+  });
+
+  it('refuses to complete when the batch moved to another plan', async () => {
+    mocks.batches = [makeBatch({ storagePlanId: 'plan-9' })];
+
+    const result = await completeCellarOperationActivity(makeActivity({ operation: 'filtration' }));
+
+    expect(result.success).toBe(false);
+    expect(mocks.applyCellarOperationToWineBatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCrushingWineStyle,
+  getSaigneeSplit,
+  modifyCrushingCharacteristics,
+  type CrushingInputs
+} from '@/lib/services/wine/characteristics/crushingCharacteristics';
+import { applyCrushingToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import { NEUTRAL_WINE_ANCHORS } from '@/lib/services/wine/anchors/wineAnchorService';
+import type { WineCharacteristics } from '@/lib/types/types';
+
+const baseCharacteristics: WineCharacteristics = {
+  acidity: 0.5,
+  aroma: 0.5,
+  body: 0.5,
+  spice: 0.5,
+  sweetness: 0.5,
+  tannins: 0.5
+};
+
+const inputs = (overrides: Partial<CrushingInputs> = {}): CrushingInputs => ({
+  baseCharacteristics,
+  method: 'Mechanical Press',
+  destemming: true,
+  coldSoak: false,
+  pressingIntensity: 0.5,
+  skinContact: 'full',
+  saigneeShare: 0,
+  ...overrides
+});
+
+describe('crushingCharacteristics', () => {
+  describe('getCrushingWineStyle', () => {
+    it('derives the wine style from grape colour and skin contact', () => {
+      expect(getCrushingWineStyle('red', 'full')).toBe('red');
+      expect(getCrushingWineStyle('red', 'short')).toBe('rose');
+      expect(getCrushingWineStyle('red', 'none')).toBe('white');
+      expect(getCrushingWineStyle('white', 'full')).toBe('white');
+    });
+  });
+
+  describe('skin contact', () => {
+    it('lowers tannins and body the shorter the skin contact', () => {
+      const red = modifyCrushingCharacteristics(inputs()).characteristics;
+      const rose = modifyCrushingCharacteristics(inputs({ skinContact: 'short' })).characteristics;
+      const blanc = modifyCrushingCharacteristics(inputs({ skinContact: 'none' })).characteristics;
+
+      expect(rose.tannins).toBeLessThan(red.tannins);
+      expect(blanc.tannins).toBeLessThan(rose.tannins);
+      expect(blanc.body).toBeLessThan(red.body);
+      expect(rose.acidity).toBeGreaterThan(red.acidity);
+    });
+
+    it('extracts less phenolic material without skin contact', () => {
+      const red = applyCrushingToWineAnchors({ ...NEUTRAL_WINE_ANCHORS }, inputs());
+      const blanc = applyCrushingToWineAnchors({ ...NEUTRAL_WINE_ANCHORS }, inputs({ skinContact: 'none' }));
+
+      expect(blanc.extractionState).toBeLessThan(red.extractionState);
+      expect(blanc.phenolicPotential).toBeLessThan(red.phenolicPotential);
+    });
+  });
+
+  describe('saignée', () => {
+    it('concentrates the remaining red must', () => {
+      const plain = modifyCrushingCharacteristics(inputs()).characteristics;
+      const bled = modifyCrushingCharacteristics(inputs({ saigneeShare: 0.2 })).characteristics;
+
+      expect(bled.body).toBeGreaterThan(plain.body);
+      expect(bled.tannins).toBeGreaterThan(plain.tannins);
+    });
+
+    it('splits quantity and volume between the red and the rosé', () => {
+      const split = getSaigneeSplit(1000, 700, 0.2);
+
+      expect(split.bleed).toEqual({ quantity: 200, volumeLitres: 140 });
+      expect(split.remaining).toEqual({ quantity: 800, volumeLitres: 560 });
+    });
+  });
+});
@@ -4,9 +4,11 @@ import {
   getCombinedFermentationEffects,
   getFermentationMethodInfo,
   getFermentationTemperatureInfo,
+  getSelectedFermentationDecisions,
   type FermentationInputs
 } from '@/lib/services/wine/characteristics/fermentationCharacteristics';
-import type { WineCharacteristics } from '@/lib/types/types';
+import { calculateFermentationWork } from '@/lib/features/activities/services/workcalculators/fermentationWorkCalculator';
+import type { WineBatch, WineCharacteristics } from '@/lib/types/types';
 
 const baseCharacteristics: WineCharacteristics = {
   acidity: 0.5,
@@ -186,5 +188,48 @@ describe('fermentationCharacteristics', () => {
       });
     });
   });
-});
 
+  describe('malolactic and lees-management decisions', () => {
+    it('lists only the decisions switched on, in display order', () => {
+      expect(getSelectedFermentationDecisions({ method: 'Basic', temperature: 'Ambient' })).toEqual([]);
+      expect(getSelectedFermentationDecisions({
+        method: 'Basic',
+        temperature: 'Ambient',
+        surLie: true,
+        malolactic: true,
+        batonnage: false
+      })).toEqual(['malolactic', 'surLie']);
+    });
+
+    it('softens acidity each week under malolactic conversion', () => {
+      const plain = applyWeeklyFermentationEffects({ baseCharacteristics, method: 'Basic', temperature: 'Ambient' });
+      const malolactic = applyWeeklyFermentationEffects({
+        baseCharacteristics,
+        method: 'Basic',
+        temperature: 'Ambient',
+        decisions: ['malolactic']
+      });
+
+      expect(malolactic.characteristics.acidity).toBeLessThan(plain.characteristics.acidity);
+      expect(malolactic.characteristics.body).toBeGreaterThan(plain.characteristics.body);
+      expect(malolactic.breakdown.effects.some(effect => effect.description === 'Malolactic Conversion')).toBe(true);
+    });
+
+    it('adds work and cost for each decision', () => {
+      const batch = { quantity: 2000 } as WineBatch;
+      const plain = calculateFermentationWork(batch, { method: 'Basic', temperature: 'Ambient' });
+      const managed = calculateFermentationWork(batch, {
+        method: 'Basic',
+        temperature: 'Ambient',
+        malolactic: true,
+        batonnage: true
+      });
+
+      expect(managed.totalWork).toBeGreaterThan(plain.totalWork);
+      expect(managed.cost).toBe(plain.cost + 350);
+      expect(managed.factors.map(factor => factor.label)).toEqual(
+        expect.arrayContaining(['Malolactic Conversion', 'Bâtonnage', 'Lees & Malolactic Cost'])
+      );
+    });
+  });
+});
@@ -32,6 +32,7 @@ function makeMarketBatch(overrides: Partial<WineBatch> = {}): WineBatch {
     characteristics: { acidity: 0.6, aroma: 0.6, body: 0.6, spice: 0.5, sweetness: 0.5, tannins: 0.6 },
     estimatedPrice: 0,
     grapeColor: 'red',
+    wineStyle: 'red',
     naturalYield: 0.7,
     fragile: 0.5,
     proneToOxidation: 0.6,
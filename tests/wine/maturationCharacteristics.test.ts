@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyWeeklyMaturationEffects,
+  getMaturationVesselProfile
+} from '@/lib/services/wine/characteristics/maturationCharacteristics';
+import { applyWeeklyMaturationToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import { NEUTRAL_WINE_ANCHORS } from '@/lib/services/wine/anchors/wineAnchorService';
+import type { WineCharacteristics } from '@/lib/types/types';
+import type { StorageVessel } from '@/lib/types/storageVessels';
+
+const date = { week: 1, season: 'Spring' as const, year: 2026 };
+
+const baseCharacteristics: WineCharacteristics = {
+  acidity: 0.5,
+  aroma: 0.5,
+  body: 0.5,
+  spice: 0.5,
+  sweetness: 0.5,
+  tannins: 0.5
+};
+
+const vessel = (overrides: Partial<StorageVessel> = {}): StorageVessel => ({
+  id: 'vessel-1',
+  ownerKind: 'company',
+  vesselType: 'cask',
+  material: 'oak',
+  qualityScore: 1,
+  condition: 1,
+  fillHistory: 0,
+  imprintFills: [],
+  productionYear: 2024,
+  capacityLitres: 225,
+  acquisitionPrice: 1000,
+  sourceOfferId: 'offer-1',
+  operationalStatus: 'operational',
+  cleanliness: 'clean',
+  occupancy: 'in_use',
+  purchasedYear: 2024,
+  purchasedSeason: 'Spring',
+  purchasedWeek: 1,
+  ...overrides
+});
+
+describe('maturationCharacteristics', () => {
+  describe('getMaturationVesselProfile', () => {
+    it('gives new oak more wood influence than a used cask', () => {
+      const newOak = getMaturationVesselProfile([{ vessel: vessel(), litres: 225 }], date);
+      const usedOak = getMaturationVesselProfile([{ vessel: vessel({ fillHistory: 4 }), litres: 225 }], date);
+
+      expect(newOak.woodInfluence).toBeCloseTo(1);
+      expect(usedOak.woodInfluence).toBeLessThan(newOak.woodInfluence);
+      expect(newOak.materials).toEqual(['oak']);
+    });
+
+    it('keeps stainless steel free of wood and nearly airtight', () => {
+      const profile = getMaturationVesselProfile([{ vessel: vessel({ material: 'stainless_steel' }), litres: 1000 }], date);
+
+      expect(profile.woodInfluence).toBe(0);
+      expect(profile.oxygenExchange).toBeLessThan(0.1);
+    });
+
+    it('lets worn vessels breathe more oxygen', () => {
+      const sound = getMaturationVesselProfile([{ vessel: vessel({ material: 'concrete' }), litres: 1000 }], date);
+      const worn = getMaturationVesselProfile([{ vessel: vessel({ material: 'concrete', condition: 0.2 }), litres: 1000 }], date);
+
+      expect(worn.oxygenExchange).toBeGreaterThan(sound.oxygenExchange);
+    });
+
+    it('weights mixed vessels by filled litres and ignores empty ones', () => {
+      const profile = getMaturationVesselProfile([
+        { vessel: vessel(), litres: 250 },
+        { vessel: vessel({ id: 'vessel-2', material: 'stainless_steel' }), litres: 750 },
+        { vessel: vessel({ id: 'vessel-3', material: 'chestnut' }), litres: 0 }
+      ], date);
+
+      expect(profile.woodInfluence).toBeCloseTo(0.25);
+      expect(profile.materials).toEqual(['oak', 'stainless_steel']);
+    });
+  });
+
+  describe('applyWeeklyMaturationEffects', () => {
+    it('adds spice and body in new oak', () => {
+      const profile = getMaturationVesselProfile([{ vessel: vessel(), litres: 225 }], date);
+      const result = applyWeeklyMaturationEffects({ baseCharacteristics, profile });
+
+      expect(result.characteristics.spice).toBeGreaterThan(baseCharacteristics.spice);
+      expect(result.characteristics.body).toBeGreaterThan(baseCharacteristics.body);
+      expect(result.effects.some(effect => effect.description === 'Wood Maturation')).toBe(true);
+    });
+
+    it('leaves wine almost untouched in stainless steel', () => {
+      const profile = getMaturationVesselProfile([{ vessel: vessel({ material: 'stainless_steel' }), litres: 1000 }], date);
+      const result = applyWeeklyMaturationEffects({ baseCharacteristics, profile });
+
+      expect(result.characteristics.spice).toBe(baseCharacteristics.spice);
+      expect(Math.abs(result.characteristics.tannins - baseCharacteristics.tannins)).toBeLessThan(0.001);
+    });
+  });
+
+  describe('applyWeeklyMaturationToWineAnchors', () => {
+    it('advances maturation and oxidation pressure with vessel exposure', () => {
+      const profile = getMaturationVesselProfile([{ vessel: vessel({ material: 'chestnut' }), litres: 225 }], date);
+      const anchors = applyWeeklyMaturationToWineAnchors({ ...NEUTRAL_WINE_ANCHORS }, profile);
+
+      expect(anchors.maturationState).toBeGreaterThan(NEUTRAL_WINE_ANCHORS.maturationState);
+      expect(anchors.oxidationPressure).toBeGreaterThan(NEUTRAL_WINE_ANCHORS.oxidationPressure);
+    });
+  });
+});
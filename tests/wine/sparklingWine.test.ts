@@ -0,0 +1,242 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkCategory, type Activity, type WineBatch, type WineCharacteristics } from '@/lib/types/types';
+import { initializeBatchFeatures } from '@/lib/services/wine/features/featureService';
+import { NEUTRAL_WINE_ANCHORS, resolveWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
+import { applyWeeklyTirageToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import { TRANSACTION_CATEGORIES } from '@/lib/constants/financeConstants';
+import {
+  applyDosage,
+  applyWeeklyTirageEffects,
+  getWeeklyTirageEffects
+} from '@/lib/services/wine/characteristics/sparklingCharacteristics';
+import { calculateSparklingWork, getSparklingBottleCount } from '@/lib/features/activities/services/workcalculators/sparklingWorkCalculator';
+import {
+  SPARKLING_DISGORGEMENT_LOSS,
+  SPARKLING_MIN_TIRAGE_WEEKS,
+  SPARKLING_SECONDARY_FERMENTATION_WEEKS
+} from '@/lib/constants/sparklingConstants';
+
+const mocks = vi.hoisted(() => ({
+  activities: [] as Activity[],
+  batches: [] as WineBatch[],
+  createActivityWithResult: vi.fn(async () => ({ activityId: 'activity-1' } as { activityId: string | null; reason?: string })),
+  updateWineBatch: vi.fn(async () => true),
+  tirageStorageBackedWineBatch: vi.fn(async () => true),
+  addTransaction: vi.fn(async () => 'transaction-1'),
+  recordBottledWineBatch: vi.fn(async () => undefined),
+}));
+
+vi.mock('@/lib/features/activities', async () => {
+  const { calculateSparklingWork: calculateSparkling } = await import('@/lib/features/activities/services/workcalculators/sparklingWorkCalculator');
+  return {
+    activitiesFeature: {
+      lifecycle: { createWithResult: mocks.createActivityWithResult },
+      work: { calculateSparkling },
+    },
+  };
+});
+vi.mock('@/lib/services/core/gameState', () => ({
+  getGameState: () => ({ activities: mocks.activities, currentYear: 2027, season: 'Spring', week: 4 }),
+}));
+vi.mock('@/lib/database/activities/inventoryDB', () => ({
+  loadWineBatches: async () => mocks.batches,
+  updateWineBatch: mocks.updateWineBatch,
+  bulkUpdateWineBatches: vi.fn(async () => undefined),
+  tirageStorageBackedWineBatch: mocks.tirageStorageBackedWineBatch,
+}));
+vi.mock('@/lib/services/finance/financeService', () => ({ addTransaction: mocks.addTransaction }));
+vi.mock('@/lib/services/wine/winery/fermentationManager', () => ({ recordBottledWineBatch: mocks.recordBottledWineBatch }));
+vi.mock('@/lib/services/wine/winery/inventoryService', () => ({
+  getWineBatchDisplayName: (batch: WineBatch) => `${batch.grape} - ${batch.vineyardName}`,
+}));
+vi.mock('@/lib/services/wine/winery/storageVesselAllocationService', () => ({
+  assertBatchHasUsableStorage: async () => ({ valid: true }),
+}));
+vi.mock('@/lib/utils/companyUtils', () => ({ getCurrentCompanyId: () => 'company-1' }));
+vi.mock('@/hooks/useGameUpdates', () => ({ triggerGameUpdate: vi.fn(), triggerTopicUpdate: vi.fn() }));
+
+import {
+  completeSparklingActivity,
+  isBatchSparklingInProgress,
+  startSparklingActivity,
+  validateSparklingStep,
+} from '@/lib/services/wine/winery/sparklingManager';
+
+const baseCharacteristics: WineCharacteristics = {
+  acidity: 0.5,
+  aroma: 0.5,
+  body: 0.5,
+  spice: 0.5,
+  sweetness: 0.5,
+  tannins: 0.5
+};
+
+function makeBatch(overrides: Partial<WineBatch> = {}): WineBatch {
+  return {
+    id: 'batch-1',
+    vineyardId: 'vineyard-1',
+    vineyardName: 'Chalk Slope',
+    grape: 'Chardonnay',
+    quantity: 1500,
+    volumeLitres: 1100,
+    storagePlanId: 'plan-1',
+    state: 'maturing',
+    fermentationProgress: 100,
+    landValueModifierHarvestSnapshot: 0.6,
+    structureIndexHarvestSnapshot: 0.58,
+    tasteQualityIndexHarvestSnapshot: 0.55,
+    landValueModifier: 0.6,
+    structureIndex: 0.58,
+    tasteQualityIndex: 0.55,
+    characteristics: { acidity: 0.7, aroma: 0.5, body: 0.4, spice: 0.3, sweetness: 0.2, tannins: 0.2 },
+    estimatedPrice: 28,
+    grapeColor: 'white',
+    wineStyle: 'white',
+    naturalYield: 0.6,
+    fragile: 0.4,
+    proneToOxidation: 0.4,
+    features: initializeBatchFeatures(),
+    wineAnchors: resolveWineAnchors(undefined),
+    harvestStartDate: { week: 2, season: 'Fall', year: 2026 },
+    harvestEndDate: { week: 3, season: 'Fall', year: 2026 },
+    ...overrides,
+  };
+}
+
+function makeActivity(params: Record<string, unknown>): Activity {
+  return {
+    id: 'activity-1',
+    category: WorkCategory.FERMENTATION,
+    title: 'Sparkling',
+    totalWork: 10,
+    completedWork: 10,
+    targetId: 'batch-1',
+    params,
+    status: 'active',
+    gameWeek: 4,
+    gameSeason: 'Spring',
+    gameYear: 2027,
+    isCancellable: true,
+    createdAt: new Date(),
+  } as Activity;
+}
+
+beforeEach(() => {
+  mocks.activities = [];
+  mocks.batches = [];
+  vi.clearAllMocks();
+});
+
+describe('sparklingCharacteristics', () => {
+  it('dries the wine and lifts acidity during the second fermentation', () => {
+    const { characteristics } = applyWeeklyTirageEffects({ baseCharacteristics, tirageWeeks: 0 });
+
+    expect(characteristics.sweetness).toBeLessThan(baseCharacteristics.sweetness);
+    expect(characteristics.acidity).toBeGreaterThan(baseCharacteristics.acidity);
+  });
+
+  it('builds aroma and body from lees autolysis, more so with richer lees', () => {
+    const leanLees = getWeeklyTirageEffects(SPARKLING_SECONDARY_FERMENTATION_WEEKS, { ...NEUTRAL_WINE_ANCHORS, leesState: 0.1 });
+    const richLees = getWeeklyTirageEffects(SPARKLING_SECONDARY_FERMENTATION_WEEKS, { ...NEUTRAL_WINE_ANCHORS, leesState: 0.9 });
+    const aroma = (effects: typeof leanLees) => effects.find(effect => effect.characteristic === 'aroma')?.modifier ?? 0;
+
+    expect(aroma(leanLees)).toBeGreaterThan(0);
+    expect(aroma(richLees)).toBeGreaterThan(aroma(leanLees));
+    expect(leanLees.some(effect => effect.characteristic === 'sweetness')).toBe(false);
+  });
+
+  it('raises lees and process anchors while the wine rests en tirage', () => {
+    const anchors = applyWeeklyTirageToWineAnchors(NEUTRAL_WINE_ANCHORS, 0);
+
+    expect(anchors.leesState).toBeGreaterThan(NEUTRAL_WINE_ANCHORS.leesState);
+    expect(anchors.processFootprint).toBeGreaterThan(NEUTRAL_WINE_ANCHORS.processFootprint);
+    expect(anchors.oxidationPressure).toBeLessThan(NEUTRAL_WINE_ANCHORS.oxidationPressure);
+  });
+
+  it('adds dosage sweetness and leaves Brut Nature untouched', () => {
+    const brutNature = applyDosage(baseCharacteristics, 'brut_nature');
+    const demiSec = applyDosage(baseCharacteristics, 'demi_sec');
+
+    expect(brutNature.characteristics).toEqual(baseCharacteristics);
+    expect(brutNature.effects).toEqual([]);
+    expect(demiSec.characteristics.sweetness).toBeGreaterThan(baseCharacteristics.sweetness);
+    expect(demiSec.effects[0].description).toBe('Dosage (Demi-Sec)');
+  });
+});
+
+describe('sparklingWorkCalculator', () => {
+  it('counts still wine at 1.5 kg per bottle and tirage batches as bottles', () => {
+    expect(getSparklingBottleCount(makeBatch({ quantity: 1500 }))).toBe(1000);
+    expect(getSparklingBottleCount(makeBatch({ state: 'tirage', quantity: 1000 }))).toBe(1000);
+  });
+
+  it('charges materials per bottle for each step', () => {
+    const tirage = calculateSparklingWork(makeBatch(), 'tirage');
+    const riddling = calculateSparklingWork(makeBatch({ state: 'tirage', quantity: 1000 }), 'riddling');
+
+    expect(tirage.totalWork).toBeGreaterThan(0);
+    expect(tirage.cost).toBeGreaterThan(riddling.cost);
+    expect(tirage.factors[0]).toMatchObject({ label: 'Bottles', value: 1000 });
+  });
+});
+
+describe('sparklingManager', () => {
+  it('only lets each step follow the previous one', () => {
+    expect(validateSparklingStep(makeBatch(), 'tirage').valid).toBe(true);
+    expect(validateSparklingStep(makeBatch({ state: 'bottled' }), 'tirage').valid).toBe(false);
+    expect(validateSparklingStep(makeBatch({ state: 'tirage', tirageWeeks: SPARKLING_MIN_TIRAGE_WEEKS - 1 }), 'riddling').valid).toBe(false);
+    expect(validateSparklingStep(makeBatch({ state: 'tirage', tirageWeeks: SPARKLING_MIN_TIRAGE_WEEKS }), 'riddling').valid).toBe(true);
+    expect(validateSparklingStep(makeBatch({ state: 'tirage' }), 'disgorgement').valid).toBe(false);
+    expect(validateSparklingStep(makeBatch({ state: 'riddled' }), 'disgorgement').valid).toBe(true);
+  });
+
+  it('creates a cancellable fermentation activity that locks the batch', async () => {
+    const result = await startSparklingActivity(makeBatch(), 'tirage');
+
+    expect(result.success).toBe(true);
+    expect(mocks.createActivityWithResult).toHaveBeenCalledWith(expect.objectContaining({
+      category: WorkCategory.FERMENTATION,
+      isCancellable: true,
+      params: expect.objectContaining({ type: 'sparkling_tirage', batchId: 'batch-1', cost: 200 }),
+    }));
+
+    mocks.activities = [makeActivity({ type: 'sparkling_tirage', batchId: 'batch-1' })];
+    expect(isBatchSparklingInProgress('batch-1')).toBe(true);
+    expect((await startSparklingActivity(makeBatch(), 'tirage')).success).toBe(false);
+  });
+
+  it('moves the base wine into bottles en tirage and charges the materials', async () => {
+    mocks.batches = [makeBatch()];
+    const result = await completeSparklingActivity(makeActivity({ type: 'sparkling_tirage', batchId: 'batch-1', cost: 200, targetName: 'Chardonnay' }));
+
+    expect(result.success).toBe(true);
+    expect(mocks.tirageStorageBackedWineBatch).toHaveBeenCalledWith(expect.objectContaining({ companyId: 'company-1', batchId: 'batch-1', quantity: 1000 }));
+    expect(mocks.addTransaction).toHaveBeenCalledWith(-200, expect.stringContaining('Tirage'), expect.any(String));
+  });
+
+  it('disgorges riddled bottles into a bottled wine with dosage and bottle loss', async () => {
+    mocks.batches = [makeBatch({ state: 'riddled', quantity: 1000, sparkling: true, tirageWeeks: 30 })];
+    const result = await completeSparklingActivity(makeActivity({ type: 'sparkling_disgorgement', batchId: 'batch-1', dosage: 'demi_sec', cost: 0 }));
+
+    expect(result.success).toBe(true);
+    expect(mocks.updateWineBatch).toHaveBeenCalledWith('batch-1', expect.objectContaining({
+      state: 'bottled',
+      quantity: Math.floor(1000 * (1 - SPARKLING_DISGORGEMENT_LOSS)),
+      bottledDate: { week: 4, season: 'Spring', year: 2027 },
+      bottleFormat: 'standard',
+      bottleClosure: 'natural_cork',
+    }));
+    // Only the packaging is charged: the bottle and cork for every bottle put en tirage
+    expect(mocks.addTransaction).toHaveBeenCalledTimes(1);
+    expect(mocks.addTransaction).toHaveBeenCalledWith(-1500, expect.stringContaining('Standard (750 ml) with natural cork'), TRANSACTION_CATEGORIES.PACKAGING);
+    expect(mocks.recordBottledWineBatch).toHaveBeenCalledWith('batch-1');
+  });
+
+  it('rejects a stale step without changing the batch', async () => {
+    mocks.batches = [makeBatch({ state: 'bottled' })];
+    const result = await completeSparklingActivity(makeActivity({ type: 'sparkling_riddling', batchId: 'batch-1' }));
+
+    expect(result.success).toBe(false);
+    expect(mocks.updateWineBatch).not.toHaveBeenCalled();
+  });
+});
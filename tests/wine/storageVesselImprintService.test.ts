@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { StorageVessel, StorageVesselImprintFill } from '@/lib/types/storageVessels';
+import type { WineBatch, WineCharacteristics } from '@/lib/types/types';
+
+const mocks = vi.hoisted(() => ({
+  listingRows: [] as unknown[],
+}));
+
+vi.mock('@/lib/database/core/supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({ select: vi.fn(() => ({ eq: vi.fn(async () => ({ data: mocks.listingRows, error: null })) })) })),
+    auth: {
+      getSession: vi.fn(async () => ({ data: { session: null } })),
+      onAuthStateChange: vi.fn(),
+    },
+  },
+}));
+
+import { getStorageVesselImprint, getStorageVesselImprintRelease, getStorageVesselImprintSummary } from '@/lib/services/wine/winery/storageVesselImprintService';
+import { applyWeeklyMaturationEffects, getMaturationVesselProfile } from '@/lib/services/wine/characteristics/maturationCharacteristics';
+import { getWeeklyMaturationProfile } from '@/lib/services/wine/winery/maturationManager';
+import { getActiveStorageVesselMarketListings } from '@/lib/database/market/storageVesselMarketListingsDB';
+import { NEUTRAL_WINE_ANCHORS } from '@/lib/services/wine/anchors/wineAnchorService';
+
+const date = { week: 1, season: 'Spring' as const, year: 2027 };
+
+const characteristics = (value: number): WineCharacteristics => ({
+  acidity: value, aroma: value, body: value, spice: value, sweetness: value, tannins: value,
+});
+
+const fill = (overrides: Partial<StorageVesselImprintFill> = {}): StorageVesselImprintFill => ({
+  grape: 'Merlot',
+  vintage: 2026,
+  characteristics: characteristics(0.8),
+  wineAnchors: { ...NEUTRAL_WINE_ANCHORS, phenolicPotential: 0.9 },
+  structureIndex: 0.7,
+  contactWeeks: 26,
+  completedYear: 2027,
+  completedSeason: 'Spring',
+  completedWeek: 1,
+  cleanings: 0,
+  ...overrides,
+});
+
+const vessel = (overrides: Partial<StorageVessel> = {}): StorageVessel => ({
+  id: 'vessel-1',
+  ownerKind: 'company',
+  vesselType: 'cask',
+  material: 'oak',
+  qualityScore: 0.5,
+  condition: 1,
+  fillHistory: 1,
+  imprintFills: [fill()],
+  productionYear: 2024,
+  capacityLitres: 250,
+  acquisitionPrice: 1000,
+  sourceOfferId: 'offer-1',
+  operationalStatus: 'operational',
+  cleanliness: 'dirty',
+  occupancy: 'in_use',
+  purchasedYear: 2024,
+  purchasedSeason: 'Spring',
+  purchasedWeek: 1,
+  ...overrides,
+});
+
+describe('storage vessel imprint', () => {
+  it('has no memory before a fill completes', () => {
+    expect(getStorageVesselImprint(vessel({ fillHistory: 0, imprintFills: [] }), date)).toBeNull();
+    expect(getStorageVesselImprintSummary(vessel({ fillHistory: 0, imprintFills: [] }), date)).toBeNull();
+  });
+
+  it('records a completed fill as the vessel imprint', () => {
+    const imprint = getStorageVesselImprint(vessel(), date)!;
+
+    expect(imprint.strength).toBeCloseTo(1);
+    expect(imprint.characteristics.tannins).toBeCloseTo(0.8);
+    expect(imprint.wineAnchors.phenolicPotential).toBeCloseTo(0.9);
+    expect(imprint.structureIndex).toBeCloseTo(0.7);
+    expect(getStorageVesselImprintSummary(vessel(), date)).toBe('Merlot 2026 (100% memory)');
+  });
+
+  it('leaves a weaker imprint after short contact', () => {
+    const short = getStorageVesselImprint(vessel({ imprintFills: [fill({ contactWeeks: 2 })] }), date)!;
+    expect(short.strength).toBeLessThan(0.5);
+  });
+
+  it('scales memory by material so stainless steel keeps almost nothing', () => {
+    const oak = getStorageVesselImprint(vessel(), date)!;
+    const steel = getStorageVesselImprint(vessel({ material: 'stainless_steel' }), date)!;
+    expect(steel.strength).toBeLessThan(oak.strength * 0.05);
+  });
+
+  it('lets the newest fill dominate on repeated reuse', () => {
+    const reused = vessel({
+      fillHistory: 2,
+      imprintFills: [
+        fill({ grape: 'Chardonnay', characteristics: characteristics(0.2), completedWeek: 1 }),
+        fill({ completedSeason: 'Winter', completedYear: 2026 }),
+      ],
+    });
+    const imprint = getStorageVesselImprint(reused, date)!;
+
+    expect(imprint.characteristics.acidity).toBeLessThan(0.5);
+    expect(imprint.sources.map((source) => source.grape)).toEqual(['Chardonnay', 'Merlot']);
+  });
+
+  it('fades with idle time', () => {
+    const later = getStorageVesselImprint(vessel(), { week: 1, season: 'Spring', year: 2028 })!;
+    expect(later.strength).toBeLessThan(0.7);
+  });
+
+  it('weakens on cleaning without erasing what wood has absorbed', () => {
+    const oak = getStorageVesselImprint(vessel({ imprintFills: [fill({ cleanings: 1 })] }), date)!;
+    const concrete = getStorageVesselImprint(vessel({ material: 'concrete', imprintFills: [fill({ cleanings: 1 })] }), date)!;
+    const uncleanedConcrete = getStorageVesselImprint(vessel({ material: 'concrete' }), date)!;
+
+    expect(oak.strength).toBeCloseTo(0.8);
+    expect(concrete.strength / uncleanedConcrete.strength).toBeCloseTo(0.5);
+  });
+
+  it('releases more memory from sound vessels than worn ones', () => {
+    const imprint = getStorageVesselImprint(vessel(), date)!;
+    expect(getStorageVesselImprintRelease(vessel({ condition: 0.2 }), imprint)).toBeLessThan(getStorageVesselImprintRelease(vessel(), imprint));
+  });
+
+  it('releases a small bounded influence into the next maturing fill', () => {
+    const profile = getMaturationVesselProfile([{ vessel: vessel({ imprintFills: [fill({ characteristics: characteristics(1) })] }), litres: 250 }], date);
+    const withoutMemory = { ...profile, imprint: undefined };
+    let remembered = characteristics(0);
+    let plain = characteristics(0);
+    for (let week = 0; week < 52; week++) {
+      const batch = { maturationWeeks: week } as WineBatch;
+      remembered = applyWeeklyMaturationEffects({ baseCharacteristics: remembered, profile: getWeeklyMaturationProfile(batch, profile) }).characteristics;
+      plain = applyWeeklyMaturationEffects({ baseCharacteristics: plain, profile: withoutMemory }).characteristics;
+    }
+
+    expect(profile.imprint?.release).toBeGreaterThan(0);
+    expect(remembered.sweetness).toBeGreaterThan(plain.sweetness);
+    expect(remembered.sweetness - plain.sweetness).toBeLessThanOrEqual(0.05);
+  });
+
+  it('keeps the imprint on used listings after sell-back', async () => {
+    mocks.listingRows = [{
+      id: 'listing-1', vessel_id: 'vessel-1', seller_kind: 'company', seller_counterparty_id: 'company-1', seller_name: 'Seller',
+      seller_company_id: 'company-1', origin: 'player_sellback', status: 'active', evolution_seed: 'seed', generation_key: null,
+      starting_condition: 1, listed_year: 2027, listed_season: 'Spring', listed_week: 1, retired_year: 2028, retired_season: 'Spring', retired_week: 1,
+      storage_vessels: {
+        id: 'vessel-1', vessel_name: 'Cask #1', owner_kind: 'npc_market', owner_company_id: null, vessel_type: 'cask', material: 'oak',
+        quality_score: 0.5, condition: 1, fill_history: 1, imprint_fills: [fill()], production_year: 2024, capacity_litres: 250,
+        acquisition_price: 1000, source_offer_id: 'offer-1', operational_status: 'operational', cleanliness: 'dirty',
+        purchased_year: 2024, purchased_season: 'Spring', purchased_week: 1,
+      },
+    }];
+
+    const { data } = await getActiveStorageVesselMarketListings();
+
+    expect(data[0].vessel.imprintFills).toEqual([fill()]);
+    expect(getStorageVesselImprintSummary(data[0].vessel, date)).toBe('Merlot 2026 (100% memory)');
+  });
+});
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WineBatch } from '@/lib/types/types';
+import type { WineFeature } from '@/lib/types/wineFeatures';
+import { initializeBatchFeatures } from '@/lib/services/wine/features/featureService';
+import { NEUTRAL_WINE_ANCHORS, resolveWineAnchors } from '@/lib/services/wine/anchors/wineAnchorService';
+import { applyFermentationStopToWineAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import {
+  applyFermentationStop,
+  calculateResidualSugar,
+  getSweetnessStyle
+} from '@/lib/services/wine/characteristics/sweetWineCharacteristics';
+import {
+  calculateBottleFormatPriceMultiplier,
+  calculateEstimatedPriceBreakdown,
+  calculateSweetWinePriceMultiplier
+} from '@/lib/services/wine/winescore/wineScoreCalculation';
+import { FORTIFICATION } from '@/lib/constants/sweetWineConstants';
+
+const mocks = vi.hoisted(() => ({
+  batches: [] as WineBatch[],
+  updateWineBatch: vi.fn(async (..._args: any[]) => true),
+  addTransaction: vi.fn(async () => 'transaction-1'),
+  isBatchSparklingInProgress: vi.fn(() => false),
+}));
+
+vi.mock('@/lib/database/activities/inventoryDB', () => ({
+  loadWineBatches: async () => mocks.batches,
+  updateWineBatch: mocks.updateWineBatch,
+}));
+vi.mock('@/lib/services/finance/financeService', () => ({ addTransaction: mocks.addTransaction }));
+vi.mock('@/lib/services/wine/winery/sparklingManager', () => ({ isBatchSparklingInProgress: mocks.isBatchSparklingInProgress }));
+vi.mock('@/lib/services/wine/winery/storageVesselMaintenanceService', () => ({
+  isBatchEmptyingInProgress: () => false,
+  isBatchBlendingInProgress: () => false,
+  isBatchCellarOperationInProgress: () => false,
+}));
+vi.mock('@/lib/services/wine/winery/storageVesselAllocationService', () => ({
+  assertBatchHasUsableStorage: async () => ({ valid: true }),
+}));
+vi.mock('@/lib/services/wine/winery/inventoryService', () => ({
+  getWineBatchDisplayName: (batch: WineBatch) => `${batch.grape} - ${batch.vineyardName}`,
+}));
+vi.mock('@/hooks/useGameUpdates', () => ({ triggerGameUpdate: vi.fn() }));
+
+import { stopFermentationEarly } from '@/lib/services/wine/winery/sweetWineManager';
+
+function makeBatch(overrides: Partial<WineBatch> = {}): WineBatch {
+  return {
+    id: 'batch-1',
+    vineyardId: 'vineyard-1',
+    vineyardName: 'Botrytis Slope',
+    grape: 'Chardonnay',
+    quantity: 1000,
+    volumeLitres: 750,
+    storagePlanId: 'plan-1',
+    state: 'must_fermenting',
+    fermentationProgress: 0,
+    landValueModifierHarvestSnapshot: 0.6,
+    structureIndexHarvestSnapshot: 0.6,
+    tasteQualityIndexHarvestSnapshot: 0.6,
+    landValueModifier: 0.6,
+    structureIndex: 0.6,
+    tasteQualityIndex: 0.6,
+    characteristics: { acidity: 0.6, aroma: 0.5, body: 0.5, spice: 0.4, sweetness: 0.5, tannins: 0.3 },
+    estimatedPrice: 30,
+    grapeColor: 'white',
+    wineStyle: 'white',
+    naturalYield: 0.6,
+    fragile: 0.4,
+    proneToOxidation: 0.4,
+    features: initializeBatchFeatures(),
+    wineAnchors: { ...NEUTRAL_WINE_ANCHORS, sugarPotential: 0.7, fermentationState: 0.4 },
+    harvestStartDate: { week: 2, season: 'Fall', year: 2026 },
+    harvestEndDate: { week: 3, season: 'Fall', year: 2026 },
+    ...overrides,
+  };
+}
+
+function withFeature(batch: WineBatch, id: string, severity: number): WineBatch {
+  const others = batch.features.filter((feature: WineFeature) => feature.id !== id);
+  return {
+    ...batch,
+    features: [...others, { id, name: id, icon: '', isPresent: true, severity }]
+  };
+}
+
+beforeEach(() => {
+  mocks.batches = [];
+  vi.clearAllMocks();
+});
+
+describe('sweetWineCharacteristics', () => {
+  it('keeps more sugar when fermentation is stopped earlier', () => {
+    const batch = makeBatch();
+    const early = calculateResidualSugar(batch, 'arrested', { ...NEUTRAL_WINE_ANCHORS, sugarPotential: 0.7, fermentationState: 0.2 });
+    const late = calculateResidualSugar(batch, 'arrested', { ...NEUTRAL_WINE_ANCHORS, sugarPotential: 0.7, fermentationState: 0.9 });
+
+    expect(early).toBeGreaterThan(late);
+  });
+
+  it('adds extra residual sugar from noble rot and late harvest', () => {
+    const anchors = resolveWineAnchors(makeBatch().wineAnchors);
+    const plain = calculateResidualSugar(makeBatch(), 'arrested', anchors);
+    const botrytised = calculateResidualSugar(withFeature(makeBatch(), 'noble_rot', 0.8), 'arrested', anchors);
+    const lateHarvest = calculateResidualSugar(withFeature(makeBatch(), 'late_harvest', 0.8), 'arrested', anchors);
+
+    expect(botrytised).toBeGreaterThan(plain);
+    expect(lateHarvest).toBeGreaterThan(plain);
+  });
+
+  it('fortification adds body on top of the residual sugar', () => {
+    const anchors = resolveWineAnchors(makeBatch().wineAnchors);
+    const { characteristics, effects } = applyFermentationStop(makeBatch(), 'fortified', anchors);
+
+    expect(characteristics.sweetness).toBeGreaterThan(0.5);
+    expect(characteristics.body).toBeCloseTo(0.5 + FORTIFICATION.BODY_BOOST);
+    expect(effects.every(effect => effect.description === 'Fortified')).toBe(true);
+  });
+
+  it('lowers fermentation state and raises sugar potential when fermentation stops', () => {
+    const anchors = applyFermentationStopToWineAnchors(NEUTRAL_WINE_ANCHORS, 'arrested');
+
+    expect(anchors.fermentationState).toBeLessThan(NEUTRAL_WINE_ANCHORS.fermentationState);
+    expect(anchors.sugarPotential).toBeGreaterThan(NEUTRAL_WINE_ANCHORS.sugarPotential);
+  });
+
+  it('classifies sweetness style from the production method', () => {
+    const sweetCharacteristics = { ...makeBatch().characteristics, sweetness: 0.9 };
+
+    expect(getSweetnessStyle(makeBatch({ characteristics: sweetCharacteristics }))).toBe('dry');
+    expect(getSweetnessStyle(makeBatch({ sweetWineMethod: 'arrested' }))).toBe('off_dry');
+    expect(getSweetnessStyle(makeBatch({ sweetWineMethod: 'arrested', characteristics: sweetCharacteristics }))).toBe('sweet');
+    expect(getSweetnessStyle(makeBatch({ sweetWineMethod: 'fortified' }))).toBe('fortified');
+  });
+});
+
+describe('sweet wine pricing', () => {
+  it('leaves dry standard bottles unchanged', () => {
+    const breakdown = calculateEstimatedPriceBreakdown(makeBatch(), undefined, 0, 0);
+
+    expect(breakdown.sweetWinePriceMultiplier).toBe(1);
+    expect(breakdown.bottleFormatPriceMultiplier).toBe(1);
+  });
+
+  it('rewards great sweet wines more steeply than weak ones', () => {
+    const great = makeBatch({ sweetWineMethod: 'arrested', structureIndex: 0.95, tasteQualityIndex: 0.95 });
+    const weak = makeBatch({ sweetWineMethod: 'arrested', structureIndex: 0.1, tasteQualityIndex: 0.1 });
+
+    expect(calculateSweetWinePriceMultiplier(great)).toBeGreaterThan(1);
+    expect(calculateSweetWinePriceMultiplier(weak)).toBeLessThan(1);
+  });
+
+  it('prices dessert half bottles below a standard bottle', () => {
+    expect(calculateBottleFormatPriceMultiplier(makeBatch({ bottleFormat: 'half' }))).toBeLessThan(1);
+  });
+});
+
+describe('sweetWineManager', () => {
+  it('stops fermentation, moves the wine into maturation and charges spirit when fortifying', async () => {
+    mocks.batches = [makeBatch()];
+
+    await expect(stopFermentationEarly('batch-1', 'fortified')).resolves.toEqual({ success: true });
+    expect(mocks.updateWineBatch).toHaveBeenCalledWith('batch-1', expect.objectContaining({
+      state: 'maturing',
+      maturationWeeks: 0,
+      sweetWineMethod: 'fortified',
+    }));
+    expect(mocks.addTransaction).toHaveBeenCalledWith(
+      -(750 * FORTIFICATION.SPIRIT_LITRES_PER_LITRE * FORTIFICATION.SPIRIT_COST_PER_LITRE),
+      expect.stringContaining('fortify'),
+      expect.any(String)
+    );
+  });
+
+  it('leaves quantity and volume unchanged when fortifying so the Storage Vessels stay in step', async () => {
+    mocks.batches = [makeBatch()];
+
+    await expect(stopFermentationEarly('batch-1', 'fortified')).resolves.toEqual({ success: true });
+    const patch = mocks.updateWineBatch.mock.calls[0]?.[1] as Record<string, unknown>;
+    expect(patch).not.toHaveProperty('quantity');
+    expect(patch).not.toHaveProperty('volumeLitres');
+  });
+
+  it('arrests fermentation without spirit cost', async () => {
+    mocks.batches = [makeBatch()];
+
+    await expect(stopFermentationEarly('batch-1', 'arrested')).resolves.toEqual({ success: true });
+    expect(mocks.addTransaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects wine that is not fermenting or already stopped', async () => {
+    mocks.batches = [makeBatch({ state: 'maturing' }), makeBatch({ id: 'batch-2', sweetWineMethod: 'arrested' })];
+
+    expect((await stopFermentationEarly('batch-1', 'arrested')).success).toBe(false);
+    expect((await stopFermentationEarly('batch-2', 'fortified')).success).toBe(false);
+    expect(mocks.updateWineBatch).not.toHaveBeenCalled();
+  });
+});
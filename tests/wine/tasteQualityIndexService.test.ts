@@ -53,6 +53,7 @@ function wineBatch(overrides: Partial<WineBatch> = {}): WineBatch {
     },
     estimatedPrice: 0,
     grapeColor: 'red',
+    wineStyle: 'red',
     naturalYield: 0.5,
     fragile: 0.3,
     proneToOxidation: 0.3,
@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest';
-import { applyFeatureLayerAnchors } from '@/lib/services/wine/anchors/wineAnchorProcess';
+import {
+  applyFeatureLayerAnchors,
+  applyFermentationDecisionsToWineAnchors,
+  applyFermentationSetupToWineAnchors
+} from '@/lib/services/wine/anchors/wineAnchorProcess';
 import { NEUTRAL_WINE_ANCHORS } from '@/lib/services/wine/anchors/wineAnchorService';
 import type { WineBatch } from '@/lib/types/types';
 
@@ -45,3 +49,35 @@ describe('applyFeatureLayerAnchors', () => {
     expect(applyFeatureLayerAnchors(developedBatch, developed).terroirExpression).toBe(0.8);
   });
 });
+
+describe('applyFermentationDecisionsToWineAnchors', () => {
+  it('leaves anchors untouched when no decision is selected', () => {
+    const result = applyFermentationDecisionsToWineAnchors(NEUTRAL_WINE_ANCHORS, { method: 'Basic', temperature: 'Ambient' }, 'setup');
+
+    expect(result.wineAnchors).toEqual(NEUTRAL_WINE_ANCHORS);
+    expect(result.anchorEffects).toEqual([]);
+  });
+
+  it('records each decision as its own anchor effect', () => {
+    const options = { method: 'Basic' as const, temperature: 'Ambient' as const, malolactic: true, batonnage: true, surLie: true };
+    const setup = applyFermentationDecisionsToWineAnchors(NEUTRAL_WINE_ANCHORS, options, 'setup');
+    const weekly = applyFermentationDecisionsToWineAnchors(NEUTRAL_WINE_ANCHORS, options, 'weekly');
+
+    expect(setup.wineAnchors.acidPotential).toBeLessThan(NEUTRAL_WINE_ANCHORS.acidPotential);
+    expect(setup.wineAnchors.leesState).toBeGreaterThan(NEUTRAL_WINE_ANCHORS.leesState);
+    expect(new Set(setup.anchorEffects.map(effect => effect.description))).toEqual(
+      new Set(['Malolactic Conversion setup', 'Bâtonnage setup', 'Sur-Lie Aging setup'])
+    );
+    expect(weekly.anchorEffects.find(effect => effect.anchor === 'acidPotential')?.description).toBe('Weekly malolactic conversion');
+  });
+
+  it('builds lees on top of the method setup without changing the method effect', () => {
+    const options = { method: 'Basic' as const, temperature: 'Ambient' as const, surLie: true };
+    const afterSetup = applyFermentationSetupToWineAnchors(NEUTRAL_WINE_ANCHORS, options);
+    const afterDecisions = applyFermentationDecisionsToWineAnchors(afterSetup, options, 'setup').wineAnchors;
+
+    expect(afterSetup).toEqual(applyFermentationSetupToWineAnchors(NEUTRAL_WINE_ANCHORS, { method: 'Basic', temperature: 'Ambient' }));
+    expect(afterDecisions.leesState).toBeGreaterThan(afterSetup.leesState);
+    expect(afterDecisions.oxidationPressure).toBeLessThan(afterSetup.oxidationPressure);
+  });
+});
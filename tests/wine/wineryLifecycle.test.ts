@@ -50,6 +50,14 @@ const mocks = vi.hoisted(() => {
       structureIndexBottlingSnapshot: input.structureIndexBottlingSnapshot,
       wineScoreBottlingSnapshot: input.wineScoreBottlingSnapshot,
     })),
+    bottlePartOfStorageBackedWineBatch: vi.fn(async (input: any) => {
+      const source = batches.find(batch => batch.id === input.batchId);
+      if (!source?.volumeLitres) return false;
+      const remainingLitres = source.volumeLitres - input.bottledBatch.volumeLitres;
+      replaceBatch(input.batchId, { volumeLitres: remainingLitres, quantity: Math.round(source.quantity * remainingLitres / source.volumeLitres) });
+      batches = [...batches, input.bottledBatch];
+      return true;
+    }),
     updateWineBatch: vi.fn(async (batchId: string, updates: Partial<WineBatch>) => replaceBatch(batchId, updates)),
     bulkUpdateWineBatches: vi.fn(async (updates: Array<{ id: string; updates: Partial<WineBatch> }>) => {
       for (const update of updates) {
@@ -58,6 +66,12 @@ const mocks = vi.hoisted(() => {
       return true;
     }),
     createActivity: vi.fn(async (..._args: any[]) => 'activity-1'),
+    createActivityWithResult: vi.fn(async (..._args: any[]) => ({ activityId: 'activity-2' })),
+    activateActivity: vi.fn(async (..._args: any[]) => true),
+    cancelActivity: vi.fn(async (..._args: any[]) => true),
+    createStorageAllocationPlan: vi.fn(async (..._args: any[]) => ({ planId: 'rose-plan' })),
+    releaseStorageAllocationPlan: vi.fn(async (..._args: any[]) => true),
+    splitStorageBackedWineBatch: vi.fn(async (..._args: any[]) => true),
     triggerGameUpdate: vi.fn(() => undefined),
     addTransaction: vi.fn(async () => undefined),
     getGameState: vi.fn(() => ({ week: 7, season: 'Winter', currentYear: 2027 })),
@@ -80,14 +94,19 @@ vi.mock('@/lib/database/activities/inventoryDB', () => ({
   saveWineBatch: mocks.saveWineBatch,
   appendStorageBackedHarvestBatch: mocks.appendStorageBackedHarvestBatch,
   bottleStorageBackedWineBatch: mocks.bottleStorageBackedWineBatch,
+  bottlePartOfStorageBackedWineBatch: mocks.bottlePartOfStorageBackedWineBatch,
   updateWineBatch: mocks.updateWineBatch,
-  bulkUpdateWineBatches: mocks.bulkUpdateWineBatches
+  bulkUpdateWineBatches: mocks.bulkUpdateWineBatches,
+  splitStorageBackedWineBatch: mocks.splitStorageBackedWineBatch
 }));
 
 vi.mock('@/lib/features/activities', () => ({
   activitiesFeature: {
     lifecycle: {
-      create: mocks.createActivity
+      create: mocks.createActivity,
+      createWithResult: mocks.createActivityWithResult,
+      activate: mocks.activateActivity,
+      cancel: mocks.cancelActivity
     },
     work: {
       validateCrushingBatch: () => ({ valid: true }),
@@ -105,6 +124,10 @@ vi.mock('@/lib/services', () => ({
   addTransaction: mocks.addTransaction
 }));
 
+vi.mock('@/lib/services/finance/financeService', () => ({
+  addTransaction: mocks.addTransaction
+}));
+
 vi.mock('@/lib/services/core/gameState', () => ({
   getGameState: mocks.getGameState
 }));
@@ -126,6 +149,9 @@ vi.mock('@/lib/services/wine/features/featureService', () => ({
 
 vi.mock('@/lib/services/wine/winery/storageVesselAllocationService', () => ({
   initializeHarvestVolumeLitres: (kg: number) => Math.ceil(kg * 0.5),
+  getRequiredStorageLitres: (batch: WineBatch) => Math.ceil(batch.volumeLitres ?? batch.quantity * 0.5),
+  createStorageAllocationPlan: mocks.createStorageAllocationPlan,
+  releaseStorageAllocationPlan: mocks.releaseStorageAllocationPlan,
   canStoragePlanHoldVolume: vi.fn(async () => true),
   activateStoragePlanForBatch: vi.fn(async () => true),
   assertBatchHasUsableStorage: vi.fn(async () => ({ valid: true })),
@@ -191,6 +217,7 @@ describe('winery harvest-to-bottle lifecycle', () => {
     mocks.setVineyards([vineyard()]);
     mocks.setBatches([]);
     mocks.createActivity.mockResolvedValue('activity-1');
+    mocks.getGameState.mockReturnValue({ week: 7, season: 'Winter', currentYear: 2027 });
   });
 
   it('creates grapes, starts and completes crush/fermentation, processes weekly fermentation, and bottles with log snapshot', async () => {
@@ -246,7 +273,9 @@ describe('winery harvest-to-bottle lifecycle', () => {
       method: 'Mechanical Press',
       destemming: true,
       coldSoak: false,
-      pressingIntensity: 0.5
+      pressingIntensity: 0.5,
+      skinContact: 'full',
+      saigneeShare: 0
     };
     await expect(startCrushingActivity(grapes, crushingOptions)).resolves.toEqual({ success: true });
     expect(mocks.createActivity).toHaveBeenLastCalledWith(
@@ -263,7 +292,7 @@ describe('winery harvest-to-bottle lifecycle', () => {
     const crushingParams = crushingCall?.[0].params as Record<string, unknown>;
     await completeCrushing(activityFromParams(WorkCategory.CRUSHING, crushingParams));
     const mustReady = mocks.getBatches().find(batch => batch.id === grapes.id);
-    expect(mustReady).toMatchObject({ state: 'must_ready' });
+    expect(mustReady).toMatchObject({ state: 'must_ready', wineStyle: 'red' });
     expect(mustReady?.quantity).toBeGreaterThan(0);
 
     const fermentationOptions: FermentationOptions = {
@@ -314,13 +343,177 @@ describe('winery harvest-to-bottle lifecycle', () => {
       structureIndexBottlingSnapshot: expect.any(Number),
       wineScoreBottlingSnapshot: expect.any(Number)
     });
-    expect(bottled!.quantity).toBe(Math.floor(fermenting!.quantity / 1.5));
+    expect(bottled!.quantity).toBe(Math.floor(fermenting!.volumeLitres! / 0.75));
+    expect(mocks.addTransaction).toHaveBeenCalledWith(expect.any(Number), expect.stringContaining('Standard (750 ml)'), 'Packaging');
     expect(mocks.recordBottledWine).toHaveBeenCalledWith(expect.objectContaining({
       id: grapes.id,
       state: 'bottled'
     }));
   });
 
+  it('bleeds a saignée rosé into reserved vessels and splits it from the red on completion', async () => {
+    const { createWineBatchFromMarketSource } = await import('@/lib/services/wine/winery/inventoryService');
+    const { startCrushingActivity, validateCrushingActivity } = await import('@/lib/services/wine/winery/crushingManager');
+    const { completeCrushing } = await import('@/lib/features/activities/services/workcalculators/crushingWorkCalculator');
+
+    const harvestDate = { week: 3, season: 'Fall' as const, year: 2026 };
+    const grapes = await createWineBatchFromMarketSource({
+      supplierId: 'bulk_supplier',
+      supplierName: 'Bulk Supply Syndicate',
+      originTag: 'country_special',
+      source: {
+        country: 'France',
+        region: 'Bourgogne',
+        soil: ['Clay', 'Limestone'],
+        aspect: 'Southeast',
+        altitude: 280,
+        density: 4800,
+        vineyardHealth: 0.84,
+        ripeness: 0.76,
+        vineAge: 18,
+        landValue: 210000,
+        vineyardPrestige: 0.58,
+        overgrowth: { vegetation: 0, debris: 0, uproot: 0, replant: 0 },
+        pendingFeatures: [],
+        baseQualityScore: 0.76
+      },
+      grape: 'Pinot Noir',
+      quantity: 1000,
+      harvestStartDate: harvestDate,
+      harvestEndDate: harvestDate,
+      storagePlanId: 'red-plan'
+    });
+    const crushingOptions: CrushingOptions = {
+      method: 'Mechanical Press',
+      destemming: true,
+      coldSoak: false,
+      pressingIntensity: 0.5,
+      skinContact: 'full',
+      saigneeShare: 0.2
+    };
+
+    expect(validateCrushingActivity({ ...grapes, quantity: 2, volumeLitres: 1 }, crushingOptions)).toEqual({
+      valid: false, reason: 'This batch is too small to bleed off a saignée rosé'
+    });
+    await expect(startCrushingActivity(grapes, crushingOptions)).resolves.toMatchObject({ success: false });
+    await expect(startCrushingActivity(grapes, crushingOptions, ['vessel-9'])).resolves.toEqual({ success: true });
+    expect(mocks.createActivityWithResult).toHaveBeenCalledWith(expect.objectContaining({ initialStatus: 'paused' }));
+    expect(mocks.createStorageAllocationPlan).toHaveBeenCalledWith({ requiredLitres: 100, vesselIds: ['vessel-9'], activityId: 'activity-2' });
+    const activatedParams = mocks.activateActivity.mock.calls[0]?.[1] as Record<string, unknown>;
+    expect(activatedParams).toMatchObject({ batchId: grapes.id, storagePlanId: 'rose-plan', saigneeBatchId: expect.any(String) });
+
+    await completeCrushing(activityFromParams(WorkCategory.CRUSHING, activatedParams));
+
+    const split = mocks.splitStorageBackedWineBatch.mock.calls[0]?.[0] as { batch: WineBatch; splitBatch: WineBatch };
+    expect(split.batch).toMatchObject({ id: grapes.id, state: 'must_ready', wineStyle: 'red', volumeLitres: 400 });
+    expect(split.splitBatch).toMatchObject({
+      id: activatedParams.saigneeBatchId,
+      storagePlanId: 'rose-plan',
+      state: 'must_ready',
+      wineStyle: 'rose',
+      volumeLitres: 100
+    });
+    expect(split.splitBatch.characteristics.tannins).toBeLessThan(split.batch.characteristics.tannins);
+    expect(mocks.updateWineBatch).not.toHaveBeenCalledWith(grapes.id, expect.anything());
+  });
+
+  it('bottles part of a maturing batch as a new batch of the same lot', async () => {
+    const { createWineBatchFromMarketSource } = await import('@/lib/services/wine/winery/inventoryService');
+    const { bottleWine } = await import('@/lib/services/wine/winery/fermentationManager');
+
+    const harvestDate = { week: 3, season: 'Fall' as const, year: 2026 };
+    const grapes = await createWineBatchFromMarketSource({
+      supplierId: 'bulk_supplier',
+      supplierName: 'Bulk Supply Syndicate',
+      originTag: 'country_special',
+      source: {
+        country: 'France',
+        region: 'Bourgogne',
+        soil: ['Clay', 'Limestone'],
+        aspect: 'Southeast',
+        altitude: 280,
+        density: 4800,
+        vineyardHealth: 0.84,
+        ripeness: 0.76,
+        vineAge: 18,
+        landValue: 210000,
+        vineyardPrestige: 0.58,
+        overgrowth: { vegetation: 0, debris: 0, uproot: 0, replant: 0 },
+        pendingFeatures: [],
+        baseQualityScore: 0.76
+      },
+      grape: 'Pinot Noir',
+      quantity: 1000,
+      harvestStartDate: harvestDate,
+      harvestEndDate: harvestDate,
+      storagePlanId: 'lot-plan'
+    });
+    mocks.setBatches(mocks.getBatches().map(batch => batch.id === grapes.id ? { ...batch, state: 'maturing' } : batch));
+
+    await expect(bottleWine(grapes.id, { format: 'magnum', closure: 'screwcap', volumeLitres: 150 })).resolves.toBe(true);
+
+    expect(mocks.bottleStorageBackedWineBatch).not.toHaveBeenCalled();
+    const lot = mocks.getBatches().find(batch => batch.id === grapes.id);
+    const bottledPart = mocks.getBatches().find(batch => batch.parentBatchId === grapes.id);
+    expect(lot).toMatchObject({ state: 'maturing', volumeLitres: 350 });
+    expect(bottledPart).toMatchObject({
+      state: 'bottled',
+      quantity: 100,
+      volumeLitres: 150,
+      bottleFormat: 'magnum',
+      bottleClosure: 'screwcap',
+      storagePlanId: undefined,
+      bottledDate: { week: 7, season: 'Winter', year: 2027 }
+    });
+    expect(bottledPart!.id).not.toBe(grapes.id);
+    expect(mocks.recordBottledWine).toHaveBeenCalledWith(expect.objectContaining({ id: bottledPart!.id, parentBatchId: grapes.id }));
+  });
+
+  it('refuses to bottle a batch with a sparkling step in progress', async () => {
+    const { createWineBatchFromMarketSource } = await import('@/lib/services/wine/winery/inventoryService');
+    const { bottleWine } = await import('@/lib/services/wine/winery/fermentationManager');
+
+    const harvestDate = { week: 3, season: 'Fall' as const, year: 2026 };
+    const grapes = await createWineBatchFromMarketSource({
+      supplierId: 'bulk_supplier',
+      supplierName: 'Bulk Supply Syndicate',
+      originTag: 'country_special',
+      source: {
+        country: 'France',
+        region: 'Champagne',
+        soil: ['Chalk'],
+        aspect: 'East',
+        altitude: 200,
+        density: 8000,
+        vineyardHealth: 0.84,
+        ripeness: 0.7,
+        vineAge: 18,
+        landValue: 210000,
+        vineyardPrestige: 0.58,
+        overgrowth: { vegetation: 0, debris: 0, uproot: 0, replant: 0 },
+        pendingFeatures: [],
+        baseQualityScore: 0.76
+      },
+      grape: 'Chardonnay',
+      quantity: 1000,
+      harvestStartDate: harvestDate,
+      harvestEndDate: harvestDate,
+      storagePlanId: 'lot-plan'
+    });
+    mocks.setBatches(mocks.getBatches().map(batch => batch.id === grapes.id ? { ...batch, state: 'maturing' } : batch));
+    mocks.getGameState.mockReturnValue({
+      week: 7,
+      season: 'Winter',
+      currentYear: 2027,
+      activities: [{ ...activityFromParams(WorkCategory.FERMENTATION, { type: 'sparkling_tirage', batchId: grapes.id }), completedWork: 0 }]
+    } as any);
+
+    await expect(bottleWine(grapes.id)).resolves.toBe(false);
+    expect(mocks.bottleStorageBackedWineBatch).not.toHaveBeenCalled();
+    expect(mocks.bottlePartOfStorageBackedWineBatch).not.toHaveBeenCalled();
+    expect(mocks.addTransaction).not.toHaveBeenCalled();
+  });
+
   it('creates a market-origin batch from pseudo-vineyard inputs with harvest-equivalent identity', async () => {
     const { createWineBatchFromMarketSource } = await import('@/lib/services/wine/winery/inventoryService');
 